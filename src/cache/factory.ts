@@ -0,0 +1,43 @@
+/**
+ * Cache Factory
+ * Builds the cache implementation a CacheConfig asks for
+ */
+
+import type { Cache, CacheConfig, CacheStrategy } from "./types.js";
+import { LRUCache } from "./lru.js";
+import { LFUCache } from "./lfu.js";
+import { FIFOCache } from "./fifo.js";
+
+/**
+ * Every strategy `createCache` accepts
+ */
+export const CACHE_STRATEGIES: readonly CacheStrategy[] = [
+  "lru",
+  "lfu",
+  "fifo",
+];
+
+/**
+ * Create a cache for `config.strategy` (default "lru")
+ *
+ * Every other setting, `ttl` included, is passed to the implementation.
+ *
+ * @example
+ * ```typescript
+ * const cache = createCache<Session>({ strategy: "lfu", maxSize: 50, ttl: 60_000 });
+ * ```
+ */
+export function createCache<T>(config: Partial<CacheConfig> = {}): Cache<T> {
+  switch (config.strategy ?? "lru") {
+    case "lru":
+      return new LRUCache<T>(config);
+    case "lfu":
+      return new LFUCache<T>(config);
+    case "fifo":
+      return new FIFOCache<T>(config);
+    default:
+      throw new Error(
+        `Unknown cache strategy "${config.strategy}" (expected one of: ${CACHE_STRATEGIES.join(", ")})`,
+      );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * FIFO Cache
+ * First In, First Out cache implementation
+ */
+
+import { BaseCache } from "./base.js";
+import type { CacheConfig, CacheEntry } from "./types.js";
+
+/**
+ * FIFO (First In, First Out) cache
+ *
+ * Evicts the entry that was inserted first, however often it is read. Reads
+ * do not reorder entries, and replacing the value of a key keeps the key's
+ * place in line, so the cost of a read is a single map lookup.
+ */
+export class FIFOCache<T> extends BaseCache<T> {
+  constructor(config: Partial<CacheConfig> = {}) {
+    super(config, "fifo");
+  }
+
+  /**
+   * A replaced value keeps the key's creation time and access count; Map.set
+   * on an existing key keeps its insertion position
+   */
+  protected onWrite(
+    entry: CacheEntry<T>,
+    replaced: CacheEntry<T> | undefined,
+  ): void {
+    if (!replaced) return;
+    entry.createdAt = replaced.createdAt;
+    entry.accessCount = replaced.accessCount;
+  }
+
+  /**
+   * The entry inserted first
+   */
+  protected selectVictim(): string | undefined {
+    return this.cache.keys().next().value;
+  }
+}
@@ -1,18 +1,24 @@
 /**
  * Cache Module Exports (v9.0.0)
  * Phase 15A Sprint 2: Simplified to LRU only (removed unused LFU/FIFO/factory)
+ * LFU, FIFO and `createCache` are back, now with consumers:
+ * `SessionManager` and `ValidationCache` build their caches through
+ * `createCache` with a configured strategy.
  *
  * ## Status: not on the live request path (verified 2026-08-07)
  *
- * Nothing under `src/` imports this barrel — `SessionManager` imports
- * `./lru.js` and `./types.js` directly. Both files behind it are live, so
- * there is no dead code here; only the barrel is unimported. Kept as the
+ * Nothing under `src/` imports this barrel — consumers import `./factory.js`
+ * and `./types.js` directly. Every file behind it is live, so there is no
+ * dead code here; only the barrel is unimported. Kept as the
  * conventional import surface. The published package exposes no library API
  * for it to serve: `tsup` builds the single entry `src/index.ts`, which has
  * zero exports.
  */
 
 export { LRUCache } from "./lru.js";
+export { LFUCache } from "./lfu.js";
+export { FIFOCache } from "./fifo.js";
+export { createCache, CACHE_STRATEGIES } from "./factory.js";
 
 export type {
   Cache,
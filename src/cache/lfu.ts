@@ -0,0 +1,88 @@
+/**
+ * LFU Cache
+ * Least Frequently Used cache implementation, with frequency aging
+ */
+
+import { BaseCache } from "./base.js";
+import type { CacheConfig, CacheEntry } from "./types.js";
+
+/**
+ * LFU (Least Frequently Used) cache
+ *
+ * Evicts the entry read the fewest times; among entries read equally often,
+ * the one read least recently goes first. An insert counts as one use, so a
+ * new entry is not the automatic victim of the next insert.
+ *
+ * Plain LFU lets an entry that was hot long ago outlive everything that is
+ * hot now. Every `agingInterval` reads, each entry's count is halved, so old
+ * popularity decays and the counts reflect recent use. The default interval
+ * is ten reads per slot (10 × maxSize); 0 turns aging off.
+ *
+ * Eviction scans every entry, which is O(maxSize) per insert into a full
+ * cache. The caches here hold hundreds to a few thousand entries, where a
+ * scan costs less than maintaining frequency buckets on every read.
+ */
+export class LFUCache<T> extends BaseCache<T> {
+  private readonly agingInterval: number;
+  private readsSinceAging = 0;
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    super(config, "lfu");
+    this.agingInterval = config.agingInterval ?? 10 * this.config.maxSize;
+  }
+
+  /**
+   * Clear all entries
+   */
+  clear(): void {
+    super.clear();
+    this.readsSinceAging = 0;
+  }
+
+  /**
+   * Keep the map in recency order, which breaks frequency ties on eviction
+   */
+  protected onRead(entry: CacheEntry<T>): void {
+    this.moveToEnd(entry);
+
+    this.readsSinceAging++;
+    if (this.agingInterval > 0 && this.readsSinceAging >= this.agingInterval) {
+      this.age();
+    }
+  }
+
+  /**
+   * Replacing a key's value keeps its access count
+   */
+  protected onWrite(
+    entry: CacheEntry<T>,
+    replaced: CacheEntry<T> | undefined,
+  ): void {
+    if (replaced) this.cache.delete(entry.key);
+    entry.accessCount = replaced?.accessCount ?? 1;
+  }
+
+  /**
+   * The entry with the lowest access count, least recently used first
+   */
+  protected selectVictim(): string | undefined {
+    let victim: CacheEntry<T> | undefined;
+    // Map order is recency order, so strict < keeps the least recent on ties
+    for (const entry of this.cache.values()) {
+      if (!victim || entry.accessCount < victim.accessCount) {
+        victim = entry;
+      }
+    }
+    return victim?.key;
+  }
+
+  /**
+   * Halve every entry's access count
+   */
+  private age(): void {
+    for (const entry of this.cache.values()) {
+      entry.accessCount = Math.floor(entry.accessCount / 2);
+    }
+    this.readsSinceAging = 0;
+  }
+}
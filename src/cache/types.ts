@@ -36,6 +36,12 @@ export interface CacheConfig {
    * Eviction callback
    */
   onEvict?: (key: string, value: any) => void;
+
+  /**
+   * Reads between halvings of every access count (LFU only; 0 = never,
+   * default 10 × maxSize)
+   */
+  agingInterval?: number;
 }
 
 /**
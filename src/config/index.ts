@@ -6,33 +6,34 @@
  *
  * `maxActiveSessions` (`MCP_MAX_SESSIONS`) and `sessionTimeoutMs`
  * (`MCP_SESSION_TIMEOUT_MS`) are consumed by `SessionManager` in
- * `src/session/manager.ts` (audit 2026-08-03, M-1).
+ * `src/session/manager.ts` (audit 2026-08-03, M-1). So are the sweeper
+ * schedule (`MCP_SESSION_SWEEP_INTERVAL_MS`) and storage cleanup
+ * (`MCP_STORAGE_CLEANUP_INTERVAL_MS` / `MCP_STORAGE_CLEANUP_MAX_AGE_MS`),
+ * once `SessionManager.startSweeper()` is called.
  *
- * 2026-08-03 audit (H-3): `maxThoughtsInMemory` / `compressionThreshold`
- * below (this server-level `ServerConfig`, from `MCP_MAX_THOUGHTS` /
- * `MCP_COMPRESSION_THRESHOLD`) are parsed and validated but NOT enforced
- * anywhere — see the environment variable table in CLAUDE.md. This is a
- * DIFFERENT field from `SessionManager`'s own per-session
- * `maxThoughtsInMemory` (on `SessionConfig`, set per-session, defaulting to
- * 1000): that one IS enforced — `SessionManager.addThought()` rejects once a
- * session is at capacity. See the H-3 note in `src/session/manager.ts`.
+ * `maxThoughtsInMemory` / `compressionThreshold` (`MCP_MAX_THOUGHTS` /
+ * `MCP_COMPRESSION_THRESHOLD`) are the defaults for every new session's
+ * `SessionConfig` fields of the same names; `SessionManager` enforces those.
+ * The 2026-08-03 audit (H-3) found them parsed but unused — see the H-3 note
+ * in `src/session/manager.ts`.
  */
 
+import type { CacheStrategy } from "../cache/types.js";
+
 /**
  * Server configuration
  */
 export interface ServerConfig {
   /**
-   * Maximum number of thoughts to keep in memory per session.
-   * NOT enforced anywhere in `src/` (audit 2026-08-03, H-3). Kept for
-   * env-var compatibility; see the class-level comment above.
+   * Maximum number of thoughts per session; `addThought` rejects beyond it.
+   * Default for `SessionConfig.maxThoughtsInMemory`.
    */
   maxThoughtsInMemory: number;
 
   /**
-   * Threshold for compressing old thoughts.
-   * NOT enforced anywhere in `src/` (audit 2026-08-03, H-3) — no
-   * compression logic exists. Kept for env-var compatibility.
+   * Number of most recent thoughts a session keeps in full; older ones are
+   * compacted into digests when storage is configured (0 = never).
+   * Default for `SessionConfig.compressionThreshold`.
    */
   compressionThreshold: number;
 
@@ -45,15 +46,36 @@ export interface ServerConfig {
   /** Maximum number of active sessions to keep in memory */
   maxActiveSessions: number;
 
+  /** Which session to drop from memory when it is full */
+  sessionCacheStrategy: CacheStrategy;
+
   /** Session timeout in milliseconds (0 = no timeout) */
   sessionTimeoutMs: number;
 
+  /**
+   * How often the sweeper expires sessions idle past `sessionTimeoutMs`,
+   * in milliseconds (0 = only on access)
+   */
+  sessionSweepIntervalMs: number;
+
+  /**
+   * How often stored sessions older than `storageCleanupMaxAgeMs` are
+   * deleted, in milliseconds (0 = never)
+   */
+  storageCleanupIntervalMs: number;
+
+  /** Age, from creation, past which storage cleanup deletes a session */
+  storageCleanupMaxAgeMs: number;
+
   /** Enable validation result caching */
   enableValidationCache: boolean;
 
   /** Validation cache max size (number of entries) */
   validationCacheMaxSize: number;
 
+  /** Which validation result to drop when the cache is full */
+  validationCacheStrategy: CacheStrategy;
+
   /** Enable session persistence to disk */
   enablePersistence: boolean;
 
@@ -87,12 +109,29 @@ const defaultConfig: ServerConfig = {
     process.env.MCP_VALIDATION_TOLERANCE || "0.01",
   ),
   maxActiveSessions: parseInt(process.env.MCP_MAX_SESSIONS || "100", 10),
+  sessionCacheStrategy: (process.env.MCP_SESSION_CACHE_STRATEGY ||
+    "lru") as CacheStrategy,
   sessionTimeoutMs: parseInt(process.env.MCP_SESSION_TIMEOUT_MS || "0", 10),
+  sessionSweepIntervalMs: parseInt(
+    process.env.MCP_SESSION_SWEEP_INTERVAL_MS || "60000",
+    10,
+  ),
+  storageCleanupIntervalMs: parseInt(
+    process.env.MCP_STORAGE_CLEANUP_INTERVAL_MS || "0",
+    10,
+  ),
+  storageCleanupMaxAgeMs: parseInt(
+    process.env.MCP_STORAGE_CLEANUP_MAX_AGE_MS ||
+      String(30 * 24 * 60 * 60 * 1000),
+    10,
+  ),
   enableValidationCache: process.env.MCP_ENABLE_VALIDATION_CACHE !== "false",
   validationCacheMaxSize: parseInt(
     process.env.MCP_VALIDATION_CACHE_SIZE || "1000",
     10,
   ),
+  validationCacheStrategy: (process.env.MCP_VALIDATION_CACHE_STRATEGY ||
+    "lru") as CacheStrategy,
   enablePersistence: process.env.MCP_ENABLE_PERSISTENCE === "true",
   persistenceDir: process.env.MCP_PERSISTENCE_DIR || "./.deepthinking-sessions",
   logLevel: (process.env.MCP_LOG_LEVEL || "info") as ServerConfig["logLevel"],
@@ -163,10 +202,31 @@ export function validateConfig(config: ServerConfig): void {
     throw new Error("sessionTimeoutMs must be non-negative");
   }
 
+  if (config.sessionSweepIntervalMs < 0) {
+    throw new Error("sessionSweepIntervalMs must be non-negative");
+  }
+
+  if (config.storageCleanupIntervalMs < 0) {
+    throw new Error("storageCleanupIntervalMs must be non-negative");
+  }
+
+  if (config.storageCleanupMaxAgeMs < 1) {
+    throw new Error("storageCleanupMaxAgeMs must be at least 1");
+  }
+
   if (config.validationCacheMaxSize < 0) {
     throw new Error("validationCacheMaxSize must be non-negative");
   }
 
+  for (const key of [
+    "sessionCacheStrategy",
+    "validationCacheStrategy",
+  ] as const) {
+    if (!["lru", "lfu", "fifo"].includes(config[key])) {
+      throw new Error(`${key} must be one of: lru, lfu, fifo`);
+    }
+  }
+
   if (!["debug", "info", "warn", "error"].includes(config.logLevel)) {
     throw new Error("logLevel must be one of: debug, info, warn, error");
   }
@@ -75,6 +75,66 @@ export function resolveSandboxedOutputDir(
   return resolved;
 }
 
+/**
+ * Read a file that must live inside the export sandbox, e.g. a JSON export
+ * being brought back in by `import_session`.
+ *
+ * Uses the same root as `resolveSandboxedOutputDir`, but compares real paths:
+ * a write only creates files under the resolved directory, whereas a read
+ * follows whatever is already there, so a symlink inside the sandbox pointing
+ * at `/etc/passwd` must not be readable through it.
+ *
+ * @throws Error if the path escapes the sandbox, is not a regular file, or is
+ *   larger than `maxBytes`
+ */
+export async function readSandboxedFile(
+  requestedPath: string,
+  sandboxRoot: string | undefined,
+  maxBytes: number,
+): Promise<string> {
+  const root = path.resolve(
+    sandboxRoot && sandboxRoot.length > 0
+      ? sandboxRoot
+      : DEFAULT_EXPORT_SANDBOX,
+  );
+  const resolved = path.isAbsolute(requestedPath)
+    ? path.resolve(requestedPath)
+    : path.resolve(root, requestedPath);
+
+  let realRoot: string;
+  let realPath: string;
+  try {
+    realRoot = await fs.promises.realpath(root);
+    realPath = await fs.promises.realpath(resolved);
+  } catch {
+    throw new Error(
+      `File ${JSON.stringify(requestedPath)} not found in the export sandbox ${JSON.stringify(root)}`,
+    );
+  }
+
+  const rootWithSep = realRoot.endsWith(path.sep)
+    ? realRoot
+    : realRoot + path.sep;
+  if (!realPath.startsWith(rootWithSep)) {
+    throw new Error(
+      `Path ${JSON.stringify(requestedPath)} is outside the export sandbox ${JSON.stringify(root)}. ` +
+        `Pass a path to a file under MCP_EXPORT_PATH.`,
+    );
+  }
+
+  const stats = await fs.promises.stat(realPath);
+  if (!stats.isFile()) {
+    throw new Error(`Path ${JSON.stringify(requestedPath)} is not a file`);
+  }
+  if (stats.size > maxBytes) {
+    throw new Error(
+      `File ${JSON.stringify(requestedPath)} is ${stats.size} bytes, over the ${maxBytes}-byte limit`,
+    );
+  }
+
+  return fs.promises.readFile(realPath, "utf-8");
+}
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -10,7 +10,7 @@ import type { VisualExportOptions } from "../types.js";
 import { sanitizeId } from "../utils.js";
 // Builder classes (Phase 13)
 import { DOTGraphBuilder } from "../utils/dot.js";
-import { MermaidGraphBuilder } from "../utils/mermaid.js";
+import { MermaidGraphBuilder, getMermaidColor } from "../utils/mermaid.js";
 import { ASCIIDocBuilder } from "../utils/ascii.js";
 import {
   generateSVGHeader,
@@ -133,7 +133,9 @@ function gameTreeToMermaid(
   }
 
   if (thought.gameTree && thought.gameTree.nodes) {
-    // Add nodes
+    const onPath = subgamePerfectEdges(thought);
+
+    // Add nodes, highlighting subgame-perfect play
     for (const node of thought.gameTree.nodes) {
       const nodeId = sanitizeId(node.id);
       const label = includeLabels ? node.action || node.id : nodeId;
@@ -141,7 +143,13 @@ function gameTreeToMermaid(
         node.type === "terminal"
           ? ("subroutine" as const)
           : ("rectangle" as const);
-      builder.addNode({ id: nodeId, label, shape });
+      const style = onPath.nodes.has(node.id)
+        ? {
+            fill: getMermaidColor("success", scheme),
+            strokeWidth: "3px",
+          }
+        : undefined;
+      builder.addNode({ id: nodeId, label, shape, style });
     }
 
     // Add edges
@@ -154,14 +162,19 @@ function gameTreeToMermaid(
             (n) => n.id === childId,
           );
 
+          const style = onPath.edges.has(`${node.id}>${childId}`)
+            ? ("thick" as const)
+            : undefined;
+
           if (includeMetrics && childNode?.action) {
             builder.addEdge({
               source: fromId,
               target: toId,
               label: childNode.action,
+              style,
             });
           } else {
-            builder.addEdge({ source: fromId, target: toId });
+            builder.addEdge({ source: fromId, target: toId, style });
           }
         }
       }
@@ -200,7 +213,9 @@ function gameTreeToDOT(
   }
 
   if (thought.gameTree && thought.gameTree.nodes) {
-    // Add nodes
+    const onPath = subgamePerfectEdges(thought);
+
+    // Add nodes, highlighting subgame-perfect play
     for (const node of thought.gameTree.nodes) {
       const nodeId = sanitizeId(node.id);
       const label = includeLabels ? node.action || node.id : nodeId;
@@ -208,7 +223,14 @@ function gameTreeToDOT(
         node.type === "terminal"
           ? ("doublecircle" as const)
           : ("circle" as const);
-      builder.addNode({ id: nodeId, label, shape });
+      const isOnPath = onPath.nodes.has(node.id);
+      builder.addNode({
+        id: nodeId,
+        label,
+        shape,
+        style: isOnPath ? "filled" : undefined,
+        fillColor: isOnPath ? "lightgreen" : undefined,
+      });
     }
 
     // Add edges
@@ -221,14 +243,19 @@ function gameTreeToDOT(
             (n) => n.id === childId,
           );
 
+          const highlight = onPath.edges.has(`${node.id}>${childId}`)
+            ? { style: "bold" as const, penWidth: 2 }
+            : {};
+
           if (includeMetrics && childNode?.action) {
             builder.addEdge({
               source: fromId,
               target: toId,
               label: childNode.action,
+              ...highlight,
             });
           } else {
-            builder.addEdge({ source: fromId, target: toId });
+            builder.addEdge({ source: fromId, target: toId, ...highlight });
           }
         }
       }
@@ -238,6 +265,21 @@ function gameTreeToDOT(
   return builder.render();
 }
 
+/**
+ * Nodes on the backward-induction path, and the edges between them as
+ * "parent>child"
+ */
+function subgamePerfectEdges(thought: GameTheoryThought): {
+  nodes: Set<string>;
+  edges: Set<string>;
+} {
+  const path = thought.backwardInduction?.optimalPath ?? [];
+  return {
+    nodes: new Set(path),
+    edges: new Set(path.slice(1).map((id, i) => `${path[i]}>${id}`)),
+  };
+}
+
 function gameTreeToASCII(thought: GameTheoryThought): string {
   const builder = new ASCIIDocBuilder();
 
@@ -260,6 +302,14 @@ function gameTreeToASCII(thought: GameTheoryThought): string {
     }
   }
 
+  const solution = thought.backwardInduction;
+  if (solution && solution.optimalPath.length > 0) {
+    builder.addEmptyLine();
+    builder.addText("Backward Induction:");
+    builder.addText(`  Path: ${solution.optimalPath.join(" → ")}`);
+    builder.addText(`  Payoffs: [${solution.expectedPayoffs.join(", ")}]`);
+  }
+
   return builder.render();
 }
 
@@ -1212,6 +1262,22 @@ function gameTheoryToMarkdown(
     );
   }
 
+  // Backward induction
+  const solution = thought.backwardInduction;
+  if (solution && solution.subgamePerfectEquilibrium.length > 0) {
+    parts.push(
+      section(
+        "Backward Induction",
+        keyValueSection({
+          "Equilibrium Path": solution.optimalPath.join(" → ") || "-",
+          "Expected Payoffs": `[${solution.expectedPayoffs.join(", ")}]`,
+          "Subgame-Perfect Strategies":
+            solution.subgamePerfectEquilibrium.join(", "),
+        }),
+      ),
+    );
+  }
+
   // Mermaid diagram
   if (markdownIncludeMermaid) {
     const mermaidDiagram = gameTreeToMermaid(thought, "default", true, true);
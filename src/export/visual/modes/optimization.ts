@@ -23,6 +23,7 @@ import {
   renderMetricsPanel,
   renderLegend,
   getNodeColor,
+  escapeSVGText,
   DEFAULT_SVG_OPTIONS,
   type SVGNodePosition,
 } from "../utils/svg.js";
@@ -32,6 +33,7 @@ import {
   type GraphMLEdge,
 } from "../utils/graphml.js";
 import { generateTikZ, type TikZNode, type TikZEdge } from "../utils/tikz.js";
+import { escapeLatex } from "../../../utils/sanitization.js";
 import {
   generateHTMLHeader,
   generateHTMLFooter,
@@ -427,7 +429,13 @@ function optimizationToSVG(
     });
   }
 
-  let svg = generateSVGHeader(svgWidth, svgHeight, "Optimization Problem");
+  const front = paretoFront(thought);
+  const plotHeight = front ? 400 : 0;
+  let svg = generateSVGHeader(
+    svgWidth,
+    svgHeight + plotHeight,
+    "Optimization Problem",
+  );
 
   // Render edges
   svg += '\n  <!-- Edges -->\n  <g class="edges">';
@@ -491,10 +499,118 @@ function optimizationToSVG(
   ];
   svg += renderLegend(20, svgHeight - 140, legendItems);
 
+  if (front) {
+    svg += paretoFrontToSVG(front, svgWidth, svgHeight, plotHeight);
+  }
+
   svg += "\n" + generateSVGFooter();
   return svg;
 }
 
+/**
+ * Two objectives of a trade-off analysis and its candidates' values in them,
+ * for a Pareto-front plot; undefined when there is nothing to plot
+ */
+interface ParetoFront {
+  xLabel: string;
+  yLabel: string;
+  points: { id: string; x: number; y: number; dominated: boolean }[];
+  knee?: string;
+}
+
+function paretoFront(thought: OptimizationThought): ParetoFront | undefined {
+  const analysis = thought.tradeoffAnalysis;
+  const [xId, yId] = analysis?.objectives ?? [];
+  if (!analysis?.paretoFrontier || xId === undefined || yId === undefined) {
+    return undefined;
+  }
+  const points = analysis.paretoFrontier.flatMap((p) => {
+    const x = p.solution.objectiveValues[xId];
+    const y = p.solution.objectiveValues[yId];
+    return Number.isFinite(x) && Number.isFinite(y)
+      ? [{ id: p.id, x, y, dominated: p.isDominated }]
+      : [];
+  });
+  if (points.length === 0) return undefined;
+  const name = (id: string) =>
+    thought.objectives?.find((o) => o.id === id)?.name || id;
+  return {
+    xLabel: name(xId),
+    yLabel: name(yId),
+    points,
+    knee: analysis.kneePoint,
+  };
+}
+
+/**
+ * Place a front's values in [0, 1] on each axis; a flat axis sits at 0.5
+ */
+function scaleFront(front: ParetoFront) {
+  const xs = front.points.map((p) => p.x);
+  const ys = front.points.map((p) => p.y);
+  const axis = (values: number[]) => {
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    return {
+      lo,
+      hi,
+      at: (v: number) => (hi === lo ? 0.5 : (v - lo) / (hi - lo)),
+    };
+  };
+  const x = axis(xs);
+  const y = axis(ys);
+  const efficient = front.points
+    .filter((p) => !p.dominated)
+    .sort((a, b) => a.x - b.x || a.y - b.y);
+  return { x, y, efficient };
+}
+
+/**
+ * Pareto-front plot below the problem graph: the non-dominated candidates
+ * joined in order of the first objective, dominated ones hollow, the knee
+ * in red
+ */
+function paretoFrontToSVG(
+  front: ParetoFront,
+  width: number,
+  top: number,
+  height: number,
+): string {
+  const { x, y, efficient } = scaleFront(front);
+  const left = 100;
+  const right = width - 60;
+  const plotTop = top + 50;
+  const bottom = top + height - 60;
+  const px = (v: number) => Math.round(left + x.at(v) * (right - left));
+  const py = (v: number) => Math.round(bottom - y.at(v) * (bottom - plotTop));
+
+  let svg = '\n\n  <!-- Pareto Front -->\n  <g class="pareto-front">';
+  svg += `\n    <text x="${width / 2}" y="${top + 25}" text-anchor="middle" class="title">Pareto Front</text>`;
+  svg += `\n    <line x1="${left}" y1="${bottom}" x2="${right}" y2="${bottom}" stroke="#333" stroke-width="1.5"/>`;
+  svg += `\n    <line x1="${left}" y1="${bottom}" x2="${left}" y2="${plotTop}" stroke="#333" stroke-width="1.5"/>`;
+  svg += `\n    <text x="${(left + right) / 2}" y="${bottom + 40}" text-anchor="middle" class="node-label">${escapeSVGText(front.xLabel)}</text>`;
+  svg += `\n    <text x="${left - 60}" y="${(plotTop + bottom) / 2}" text-anchor="middle" class="node-label" transform="rotate(-90 ${left - 60} ${(plotTop + bottom) / 2})">${escapeSVGText(front.yLabel)}</text>`;
+  svg += `\n    <text x="${left}" y="${bottom + 18}" text-anchor="middle" class="edge-label">${x.lo}</text>`;
+  svg += `\n    <text x="${right}" y="${bottom + 18}" text-anchor="middle" class="edge-label">${x.hi}</text>`;
+  svg += `\n    <text x="${left - 8}" y="${bottom + 4}" text-anchor="end" class="edge-label">${y.lo}</text>`;
+  svg += `\n    <text x="${left - 8}" y="${plotTop + 4}" text-anchor="end" class="edge-label">${y.hi}</text>`;
+
+  if (efficient.length > 1) {
+    const line = efficient.map((p) => `${px(p.x)},${py(p.y)}`).join(" ");
+    svg += `\n    <polyline points="${line}" fill="none" stroke="#1976d2" stroke-width="2"/>`;
+  }
+  for (const p of front.points) {
+    const isKnee = p.id === front.knee;
+    const style = p.dominated
+      ? 'fill="none" stroke="#9e9e9e" stroke-width="1.5"'
+      : `fill="${isKnee ? "#e53935" : "#1976d2"}" stroke="#333" stroke-width="1"`;
+    svg += `\n    <circle cx="${px(p.x)}" cy="${py(p.y)}" r="${isKnee ? 7 : 5}" ${style}/>`;
+    svg += `\n    <text x="${px(p.x) + 9}" y="${py(p.y) - 9}" class="edge-label">${escapeSVGText(isKnee ? `${p.id} (knee)` : p.id)}</text>`;
+  }
+  svg += "\n  </g>";
+  return svg;
+}
+
 /**
  * Export optimization problem to GraphML format
  */
@@ -703,12 +819,53 @@ function optimizationToTikZ(
     }
   }
 
-  return generateTikZ(nodes, edges, {
+  const tikz = generateTikZ(nodes, edges, {
     title: "Optimization Solution",
     colorScheme,
     includeLabels,
     includeMetrics,
   });
+  const front = paretoFront(thought);
+  if (!front) return tikz;
+
+  // The plot goes inside the picture, below the graph
+  const end = tikz.lastIndexOf("\n\\end{tikzpicture}");
+  return (
+    tikz.slice(0, end) + paretoFrontToTikZ(front, yOffset - 2) + tikz.slice(end)
+  );
+}
+
+/**
+ * Pareto-front plot, 8 by 5 units with its top edge at `top`
+ */
+function paretoFrontToTikZ(front: ParetoFront, top: number): string {
+  const { x, y, efficient } = scaleFront(front);
+  const coordinate = (p: { x: number; y: number }) =>
+    `(${(x.at(p.x) * 8).toFixed(2)}, ${(y.at(p.y) * 5).toFixed(2)})`;
+
+  let tikz = "\n\n  % Pareto Front";
+  tikz += `\n  \\begin{scope}[shift={(0, ${top - 6})}]`;
+  tikz += `\n    \\node[font=\\bfseries] at (4, 5.8) {Pareto Front};`;
+  tikz += `\n    \\draw[->] (0, 0) -- (8.5, 0) node[below left] {${escapeLatex(front.xLabel)}};`;
+  tikz += `\n    \\draw[->] (0, 0) -- (0, 5.5) node[above right] {${escapeLatex(front.yLabel)}};`;
+  tikz += `\n    \\node[below, font=\\footnotesize] at (0, 0) {${x.lo}};`;
+  tikz += `\n    \\node[below, font=\\footnotesize] at (8, 0) {${x.hi}};`;
+  tikz += `\n    \\node[left, font=\\footnotesize] at (0, 0) {${y.lo}};`;
+  tikz += `\n    \\node[left, font=\\footnotesize] at (0, 5) {${y.hi}};`;
+  if (efficient.length > 1) {
+    tikz += `\n    \\draw[thick, blue] ${efficient.map(coordinate).join(" -- ")};`;
+  }
+  for (const p of front.points) {
+    const label = escapeLatex(p.id === front.knee ? `${p.id} (knee)` : p.id);
+    const style = p.dominated
+      ? "draw=gray"
+      : p.id === front.knee
+        ? "fill=red"
+        : "fill=blue";
+    tikz += `\n    \\node[circle, inner sep=1.5pt, ${style}, label={[font=\\footnotesize]above right:${label}}] at ${coordinate(p)} {};`;
+  }
+  tikz += "\n  \\end{scope}";
+  return tikz;
 }
 
 /**
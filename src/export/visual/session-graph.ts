@@ -21,13 +21,16 @@ import {
   type GraphRenderModel,
 } from "./graph-render.js";
 
-/** One thought, or the session summary node. */
+/** One thought, the session summary node, or the session a fork came from. */
 export interface SessionGraphNode {
   id: string;
   label: string;
-  /** "session" for the summary node, "thought" for each thought. */
-  type: "session" | "thought";
-  /** Untruncated thought content; omitted for the session node. */
+  /**
+   * "session" for the summary node, "thought" for each thought, "fork" for
+   * the parent of a forked session.
+   */
+  type: "session" | "thought" | "fork";
+  /** Untruncated thought content, or the fork point; omitted for the session node. */
   detail?: string;
   mode?: string;
   thoughtNumber?: number;
@@ -36,7 +39,7 @@ export interface SessionGraphNode {
 export interface SessionGraphEdge {
   source: string;
   target: string;
-  type: "sequence" | "revision" | "dependency";
+  type: "sequence" | "revision" | "dependency" | "branch" | "fork";
   label?: string;
 }
 
@@ -58,6 +61,8 @@ const EDGE_LABELS: Record<SessionGraphEdge["type"], string> = {
   sequence: "next",
   revision: "revises",
   dependency: "depends on",
+  branch: "branches to",
+  fork: "forked into",
 };
 
 /**
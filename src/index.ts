@@ -18,15 +18,30 @@
  * - deepthinking_scientific: scientificmethod, systemsthinking, formallogic modes
  * - deepthinking_engineering: engineering, algorithmic modes
  * - deepthinking_academic: synthesis, argumentation, critique, analysis modes
- * - deepthinking_session: summarize, export, export_all, get_session, switch_mode, recommend_mode
+ * - deepthinking_session: summarize, export, export_all, get_session, switch_mode, recommend_mode, delete_session, import_session, fork_session, list_branches, merge_branch
  * - deepthinking_analyze: multi-mode analysis with presets and merge strategies (Phase 12 Sprint 3)
+ *
+ * Resources (see services/SessionResourceService.ts):
+ * - deepthinking://session/{id}, plus /thought/{thoughtId} and /export/{format}
+ * - resources/subscribe sends resources/updated when a session changes
+ *
+ * Prompts (see services/PromptService.ts):
+ * - mode_{mode}: one per tool-accessible mode, walking its thought types
+ * - preset_{presetId}: one per deepthinking_analyze preset
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { readFileSync, realpathSync } from "fs";
 import { dirname, join } from "path";
@@ -44,7 +59,17 @@ import { ThoughtFactory } from "./services/ThoughtFactory.js";
 import { ExportService } from "./services/ExportService.js";
 import { SessionManager } from "./session/manager.js";
 import { buildModeRecommendation } from "./services/RecommendationService.js";
+import { PromptService } from "./services/PromptService.js";
+import { ImportService } from "./services/ImportService.js";
+import {
+  SESSION_RESOURCE_TEMPLATES,
+  SessionResourceService,
+} from "./services/SessionResourceService.js";
 import { FileSessionStore } from "./session/storage/file-store.js";
+import { SqliteSessionStore } from "./session/storage/sqlite-store.js";
+import type { StorageConfig } from "./session/storage/interface.js";
+import { migrateSessions } from "./session/storage/migrate.js";
+import { isThoughtDigest } from "./session/ThoughtCompactor.js";
 import {
   isValidTool,
   modeToToolMap,
@@ -58,6 +83,7 @@ import {
   type AnalyzeResponse,
   type MCPResponse,
   type ProblemCharacteristics,
+  type SessionChangeEvent,
 } from "./types/index.js";
 
 /**
@@ -79,6 +105,11 @@ export const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {
+        subscribe: true,
+        listChanged: true,
+      },
+      prompts: {},
     },
   },
 );
@@ -86,17 +117,38 @@ export const server = new Server(
 /**
  * Service Initialization (Phase 15A)
  * Simplified from lazy async getters to direct instances.
- * SessionManager still supports SESSION_DIR for multi-instance support.
+ * SessionManager still supports SESSION_DIR (or SESSION_DB for SQLite) for
+ * multi-instance support.
  */
 
 // Synchronous services - created immediately
 const thoughtFactory = new ThoughtFactory();
 const exportService = new ExportService();
+const sessionResources = new SessionResourceService(exportService);
+const prompts = new PromptService(thoughtFactory);
+const importService = new ImportService(thoughtFactory);
 
 // SessionManager - may need async init for file storage
 let _sessionManager: SessionManager | null = null;
 let _sessionManagerPromise: Promise<SessionManager> | null = null;
 
+/**
+ * FileSessionStore options from the environment: SESSION_COMPRESSION set to
+ * `gzip` or `brotli` compresses session files
+ */
+function fileStorageConfig(): Partial<StorageConfig> {
+  const algorithm = process.env.SESSION_COMPRESSION;
+  if (algorithm === "gzip" || algorithm === "brotli") {
+    return { enableCompression: true, compressionAlgorithm: algorithm };
+  }
+  if (algorithm) {
+    console.error(
+      `[deepthinking-mcp] Ignoring SESSION_COMPRESSION="${algorithm}" (expected gzip or brotli)`,
+    );
+  }
+  return {};
+}
+
 /**
  * Get or create SessionManager with optional file-based storage.
  * Uses cached promise to prevent multiple initializations.
@@ -106,11 +158,30 @@ async function getSessionManager(): Promise<SessionManager> {
 
   if (!_sessionManagerPromise) {
     _sessionManagerPromise = (async () => {
+      const sessionDb = process.env.SESSION_DB;
       const sessionDir = process.env.SESSION_DIR;
 
-      if (sessionDir) {
+      if (sessionDb) {
+        // SQLite storage; sessions in SESSION_DIR, if also set, are copied in
+        const storage = new SqliteSessionStore(sessionDb);
+        await storage.initialize();
+        if (sessionDir) {
+          const report = await migrateSessions(
+            new FileSessionStore(sessionDir),
+            storage,
+          );
+          console.error(
+            `[deepthinking-mcp] Migrated ${report.migrated.length} session(s) from ${sessionDir} ` +
+              `(${report.skipped.length} already present, ${report.failed.length} failed)`,
+          );
+        }
+        _sessionManager = new SessionManager({}, undefined, storage);
+        console.error(
+          `[deepthinking-mcp] Using SQLite session storage: ${sessionDb}`,
+        );
+      } else if (sessionDir) {
         // File-based storage for multi-instance support
-        const storage = new FileSessionStore(sessionDir);
+        const storage = new FileSessionStore(sessionDir, fileStorageConfig());
         await storage.initialize();
         _sessionManager = new SessionManager({}, undefined, storage);
         console.error(
@@ -120,6 +191,8 @@ async function getSessionManager(): Promise<SessionManager> {
         // Default: in-memory only (single instance)
         _sessionManager = new SessionManager();
       }
+      _sessionManager.onSessionChange(notifySessionResourceChange);
+      _sessionManager.startSweeper();
       return _sessionManager;
     })();
   }
@@ -127,6 +200,84 @@ async function getSessionManager(): Promise<SessionManager> {
   return _sessionManagerPromise;
 }
 
+/**
+ * Forward a session change to MCP clients: `resources/updated` for each
+ * subscribed URI of that session, and `resources/list_changed` when a session
+ * appears or disappears.
+ *
+ * Notifications are best-effort. Sending fails when no client is connected,
+ * and that must never fail the tool call that changed the session.
+ */
+function notifySessionResourceChange(event: SessionChangeEvent): void {
+  const sends: Promise<void>[] = sessionResources
+    .urisAffectedBy(event)
+    .map((uri) => server.sendResourceUpdated({ uri }));
+  if (
+    event.kind === "created" ||
+    event.kind === "expired" ||
+    event.kind === "deleted"
+  ) {
+    sends.push(server.sendResourceListChanged());
+  }
+  for (const send of sends) {
+    send.catch(() => {
+      // No connected client; nothing to notify
+    });
+  }
+}
+
+// Register resource handlers - one resource per session, plus templates for
+// per-thought and per-export-format sub-resources.
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const sessionManager = await getSessionManager();
+  return {
+    resources: await sessionResources.listResources(sessionManager),
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [...SESSION_RESOURCE_TEMPLATES],
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const sessionManager = await getSessionManager();
+  return {
+    contents: await sessionResources.readResource(
+      sessionManager,
+      request.params.uri,
+    ),
+  };
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  // Attach the change listener before the first change can happen
+  await getSessionManager();
+  sessionResources.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  sessionResources.unsubscribe(request.params.uri);
+  return {};
+});
+
+// Register prompt handlers - one prompt per mode and per analyze preset
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: prompts.listPrompts(),
+  };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { description, messages } = prompts.getPrompt(
+    request.params.name,
+    request.params.arguments,
+  );
+  return { description, messages };
+});
+
 // Register tool list handler - returns the 13 focused tools.
 // L-2 (2026-08-03 audit): the legacy "deepthinking" tool is intentionally
 // hidden from tools/list (it advertised itself as deprecated to every
@@ -347,7 +498,7 @@ async function handleAddThought(
 }
 
 /**
- * Handle session actions (summarize, export, export_all, switch_mode, get_session, recommend_mode, delete_session)
+ * Handle session actions (summarize, export, export_all, switch_mode, get_session, recommend_mode, delete_session, import_session, fork_session, list_branches, merge_branch)
  */
 async function handleSessionAction(input: SessionInput): Promise<MCPResponse> {
   const action = input.action;
@@ -367,6 +518,14 @@ async function handleSessionAction(input: SessionInput): Promise<MCPResponse> {
       return await handleRecommendMode(input);
     case "delete_session":
       return await handleDeleteSession(input);
+    case "import_session":
+      return await handleImportSession(input);
+    case "fork_session":
+      return await handleForkSession(input);
+    case "list_branches":
+      return await handleListBranches(input);
+    case "merge_branch":
+      return await handleMergeBranch(input);
     default:
       throw new Error(`Unknown session action: ${action}`);
   }
@@ -405,7 +564,7 @@ async function handleExport(input: SessionInput): Promise<MCPResponse> {
   const sessionManager = await getSessionManager();
   // Phase 15A: exportService is now a module-level constant
 
-  const session = await sessionManager.getSession(input.sessionId);
+  const session = await sessionManager.getFullSession(input.sessionId);
   if (!session) {
     throw new Error(`Session ${input.sessionId} not found`);
   }
@@ -589,7 +748,7 @@ async function handleExportAll(input: SessionInput): Promise<MCPResponse> {
   const sessionManager = await getSessionManager();
   // Phase 15A: exportService is now a module-level constant
 
-  const session = await sessionManager.getSession(input.sessionId);
+  const session = await sessionManager.getFullSession(input.sessionId);
   if (!session) {
     throw new Error(`Session ${input.sessionId} not found`);
   }
@@ -802,6 +961,8 @@ async function handleGetSession(input: SessionInput): Promise<MCPResponse> {
             title: session.title,
             mode: session.mode,
             thoughtCount: session.thoughts.length,
+            compactedThoughtCount:
+              session.thoughts.filter(isThoughtDigest).length,
             isComplete: session.isComplete,
             metrics: metricsWithCustom,
           },
@@ -864,6 +1025,137 @@ async function handleDeleteSession(input: SessionInput): Promise<MCPResponse> {
   };
 }
 
+/**
+ * Handle import_session action - the inverse of export with exportFormat json.
+ * The export comes inline as sessionData, or as importPath, a file inside the
+ * same sandbox that file exports are written to.
+ */
+async function handleImportSession(input: SessionInput): Promise<MCPResponse> {
+  const sessionData = input.sessionData as string | undefined;
+  const importPath = input.importPath as string | undefined;
+  if (!sessionData === !importPath) {
+    throw new Error(
+      "import_session requires exactly one of sessionData or importPath",
+    );
+  }
+
+  let json: string;
+  if (importPath) {
+    const { getConfig } = await import("./config/index.js");
+    const { readSandboxedFile } = await import("./export/file-exporter.js");
+    const { MAX_LENGTHS } = await import("./utils/sanitization.js");
+    json = await readSandboxedFile(
+      importPath,
+      getConfig().exportDir,
+      MAX_LENGTHS.SESSION_IMPORT,
+    );
+  } else {
+    json = sessionData as string;
+  }
+
+  const session = importService.parseSession(json);
+  const sessionManager = await getSessionManager();
+  await sessionManager.importSession(session);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            sessionId: session.id,
+            title: session.title,
+            mode: session.mode,
+            thoughtCount: session.thoughts.length,
+            isComplete: session.isComplete,
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle fork_session action - copy a session, up to thoughtId (default: its
+ * newest thought), into a new session that records where it came from
+ */
+async function handleForkSession(input: SessionInput): Promise<MCPResponse> {
+  if (!input.sessionId) {
+    throw new Error("sessionId required for fork_session action");
+  }
+
+  const sessionManager = await getSessionManager();
+  const fork = await sessionManager.forkSession(input.sessionId, {
+    thoughtId: input.thoughtId as string | undefined,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            sessionId: fork.id,
+            title: fork.title,
+            mode: fork.mode,
+            thoughtCount: fork.thoughts.length,
+            forkedFrom: fork.forkedFrom,
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle list_branches action - the session's thoughts grouped by branchId
+ */
+async function handleListBranches(input: SessionInput): Promise<MCPResponse> {
+  if (!input.sessionId) {
+    throw new Error("sessionId required for list_branches action");
+  }
+
+  const sessionManager = await getSessionManager();
+  const listing = await sessionManager.listBranches(input.sessionId);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(listing, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle merge_branch action - bring a fork's new thoughts back into the
+ * session it was forked from, on branch branchId (default: the fork's id)
+ */
+async function handleMergeBranch(input: SessionInput): Promise<MCPResponse> {
+  if (!input.sessionId) {
+    throw new Error("sessionId required for merge_branch action");
+  }
+
+  const sessionManager = await getSessionManager();
+  const result = await sessionManager.mergeBranch(input.sessionId, {
+    branchId: input.branchId as string | undefined,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
 /**
  * Handle multi-mode analyze action (Phase 12 Sprint 3)
  * Phase 12 fix: Now creates an exportable session for the analysis results
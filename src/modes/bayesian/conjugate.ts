@@ -0,0 +1,128 @@
+/**
+ * Conjugate Updates
+ *
+ * A prior is conjugate to a likelihood when the posterior is of the prior's
+ * family, its parameters the prior's plus what the data add:
+ *
+ *   Beta(α, β) and binomial, n trials   Beta(α + Σx, β + Σ(n − x))
+ *   Beta(α, β) and geometric            Beta(α + N, β + Σ(x − 1))
+ *   Gamma(k, θ) and Poisson             Gamma(k + Σx, θ / (1 + Nθ))
+ *   Gamma(k, θ) and exponential         Gamma(k + N, θ / (1 + θΣx))
+ *   Normal(μ₀, τ₀) and normal, σ known  Normal with precision 1/τ₀² + N/σ²
+ *
+ * A uniform prior on [0, 1] is Beta(1, 1), and an exponential prior with
+ * rate r is Gamma(1, 1/r), so both are conjugate where those are. Gamma
+ * distributions take a shape and a scale, as the samplers of
+ * src/modes/stochastic/ do.
+ */
+
+import { moments, quantile, shortestInterval } from "./distributions.js";
+import type { ContinuousDistribution, ParametricLikelihood } from "./types.js";
+
+/**
+ * The closed-form posterior, or undefined when the prior is not conjugate
+ * to the likelihood
+ */
+export function conjugateUpdate(
+  prior: ContinuousDistribution,
+  likelihood: ParametricLikelihood,
+  data: number[],
+): { distribution: ContinuousDistribution; conjugacy: string } | undefined {
+  const n = data.length;
+  const sum = data.reduce((a, b) => a + b, 0);
+
+  if (likelihood.parameter === "p") {
+    const beta =
+      prior.type === "beta"
+        ? prior
+        : prior.type === "uniform" && prior.min === 0 && prior.max === 1
+          ? { alpha: 1, beta: 1 }
+          : undefined;
+    if (!beta) return undefined;
+    return likelihood.family === "binomial"
+      ? {
+          distribution: {
+            type: "beta",
+            alpha: beta.alpha + sum,
+            beta: beta.beta + n * likelihood.trials - sum,
+          },
+          conjugacy: "beta-binomial",
+        }
+      : {
+          distribution: {
+            type: "beta",
+            alpha: beta.alpha + n,
+            beta: beta.beta + sum - n,
+          },
+          conjugacy: "beta-geometric",
+        };
+  }
+
+  if (likelihood.family === "poisson" || likelihood.family === "exponential") {
+    const gamma =
+      prior.type === "gamma"
+        ? prior
+        : prior.type === "exponential"
+          ? { shape: 1, scale: 1 / prior.rate }
+          : undefined;
+    if (!gamma) return undefined;
+    return likelihood.family === "poisson"
+      ? {
+          distribution: {
+            type: "gamma",
+            shape: gamma.shape + sum,
+            scale: gamma.scale / (1 + n * gamma.scale),
+          },
+          conjugacy: "gamma-poisson",
+        }
+      : {
+          distribution: {
+            type: "gamma",
+            shape: gamma.shape + n,
+            scale: gamma.scale / (1 + gamma.scale * sum),
+          },
+          conjugacy: "gamma-exponential",
+        };
+  }
+
+  if (likelihood.family === "normal" && prior.type === "normal") {
+    const precision = 1 / prior.stdDev ** 2 + n / likelihood.stdDev ** 2;
+    return {
+      distribution: {
+        type: "normal",
+        mean:
+          (prior.mean / prior.stdDev ** 2 + sum / likelihood.stdDev ** 2) /
+          precision,
+        stdDev: Math.sqrt(1 / precision),
+      },
+      conjugacy: "normal-normal",
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Mean, spread, median and credible intervals of a distribution, exactly
+ */
+export function summarizeDistribution(
+  dist: ContinuousDistribution,
+  mass: number,
+): {
+  mean: number;
+  stdDev: number;
+  median: number;
+  equalTailed: [number, number];
+  shortest: [number, number];
+} {
+  const { mean, variance } = moments(dist);
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    median: quantile(dist, 0.5),
+    equalTailed: [
+      quantile(dist, (1 - mass) / 2),
+      quantile(dist, (1 + mass) / 2),
+    ],
+    shortest: shortestInterval(dist, mass),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Continuous Distributions
+ *
+ * Densities, distribution functions and quantiles of the distributions a
+ * prior over a parameter may take, for closed-form posteriors and for the
+ * target density of Metropolis-Hastings. The beta and gamma distribution
+ * functions are the regularised incomplete beta and gamma functions, by
+ * series and Lentz's continued fractions; the normal one is the incomplete
+ * gamma function too, as erf(x) = P(1/2, x²). Quantiles are found by
+ * bisection on the distribution function.
+ *
+ * Means and variances come from `analyticMoments` in src/modes/stochastic/,
+ * the one place that knows them.
+ */
+
+import { analyticMoments } from "../stochastic/models/moments.js";
+import type { ContinuousDistribution } from "./types.js";
+
+const EPSILON = 1e-15;
+const TINY = 1e-300;
+const MAX_TERMS = 1000;
+
+// Lanczos approximation, g = 7
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** ln Γ(x) */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    return (
+      Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x)
+    );
+  }
+  const z = x - 1;
+  const t = z + 7.5;
+  let a = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) a += LANCZOS[i] / (z + i);
+  return (
+    0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a)
+  );
+}
+
+/** ln B(a, b) */
+export function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+}
+
+/**
+ * Regularised lower incomplete gamma function P(a, x), and its complement
+ * Q(a, x) = 1 − P(a, x) without the cancellation of subtracting
+ */
+export function gammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x === Infinity) return 1;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaFraction(a, x);
+}
+
+export function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x === Infinity) return 0;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_TERMS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function gammaFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_TERMS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/** Regularised incomplete beta function I_x(a, b) */
+export function betaI(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
+  // The fraction converges fast on the side of the mean it is taken from
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaFraction(x, a, b)) / a
+    : 1 - (front * betaFraction(1 - x, b, a)) / b;
+}
+
+function betaFraction(x: number, a: number, b: number): number {
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < MAX_TERMS; m++) {
+    const m2 = 2 * m;
+    // Even step
+    let aa = (m * (b - m) * x) / ((a - 1 + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    // Odd step
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + 1 + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+/** Standard normal distribution function */
+export function normalCdf(z: number): number {
+  const half = gammaQ(0.5, (z * z) / 2) / 2;
+  return z < 0 ? half : 1 - half;
+}
+
+/** The interval a distribution lives on */
+export function support(dist: ContinuousDistribution): {
+  min: number;
+  max: number;
+} {
+  switch (dist.type) {
+    case "normal":
+      return { min: -Infinity, max: Infinity };
+    case "uniform":
+    case "triangular":
+      return { min: dist.min, max: dist.max };
+    case "beta":
+      return { min: 0, max: 1 };
+    case "exponential":
+    case "gamma":
+    case "lognormal":
+      return { min: 0, max: Infinity };
+  }
+}
+
+/** Mean and variance */
+export function moments(dist: ContinuousDistribution): {
+  mean: number;
+  variance: number;
+} {
+  const { type, ...parameters } = dist;
+  const { mean, variance } = analyticMoments(type, parameters);
+  return { mean: mean!, variance: variance! };
+}
+
+/** Log density; −Infinity outside the support */
+export function logDensity(dist: ContinuousDistribution, x: number): number {
+  switch (dist.type) {
+    case "normal": {
+      const z = (x - dist.mean) / dist.stdDev;
+      return -0.5 * z * z - Math.log(dist.stdDev * Math.sqrt(2 * Math.PI));
+    }
+    case "uniform":
+      return x >= dist.min && x <= dist.max
+        ? -Math.log(dist.max - dist.min)
+        : -Infinity;
+    case "exponential":
+      return x >= 0 ? Math.log(dist.rate) - dist.rate * x : -Infinity;
+    case "beta":
+      if (x < 0 || x > 1) return -Infinity;
+      return (
+        (dist.alpha - 1) * Math.log(x) +
+        (dist.beta - 1) * Math.log(1 - x) -
+        logBeta(dist.alpha, dist.beta)
+      );
+    case "gamma":
+      if (x < 0) return -Infinity;
+      return (
+        (dist.shape - 1) * Math.log(x) -
+        x / dist.scale -
+        logGamma(dist.shape) -
+        dist.shape * Math.log(dist.scale)
+      );
+    case "lognormal": {
+      if (x <= 0) return -Infinity;
+      const z = (Math.log(x) - dist.mu) / dist.sigma;
+      return -0.5 * z * z - Math.log(x * dist.sigma * Math.sqrt(2 * Math.PI));
+    }
+    case "triangular": {
+      const { min, mode, max } = dist;
+      if (x < min || x > max) return -Infinity;
+      const height = 2 / (max - min);
+      if (x < mode) return Math.log((height * (x - min)) / (mode - min));
+      if (x > mode) return Math.log((height * (max - x)) / (max - mode));
+      return Math.log(height);
+    }
+  }
+}
+
+/** Distribution function P(X ≤ x) */
+export function cdf(dist: ContinuousDistribution, x: number): number {
+  switch (dist.type) {
+    case "normal":
+      return normalCdf((x - dist.mean) / dist.stdDev);
+    case "uniform":
+      return Math.min(1, Math.max(0, (x - dist.min) / (dist.max - dist.min)));
+    case "exponential":
+      return x <= 0 ? 0 : 1 - Math.exp(-dist.rate * x);
+    case "beta":
+      return betaI(x, dist.alpha, dist.beta);
+    case "gamma":
+      return gammaP(dist.shape, x / dist.scale);
+    case "lognormal":
+      return x <= 0 ? 0 : normalCdf((Math.log(x) - dist.mu) / dist.sigma);
+    case "triangular": {
+      const { min, mode, max } = dist;
+      if (x <= min) return 0;
+      if (x >= max) return 1;
+      if (x <= mode) return (x - min) ** 2 / ((max - min) * (mode - min));
+      return 1 - (max - x) ** 2 / ((max - min) * (max - mode));
+    }
+  }
+}
+
+/** The value below which a share q of the distribution lies */
+export function quantile(dist: ContinuousDistribution, q: number): number {
+  let { min: lo, max: hi } = support(dist);
+  if (q <= 0) return lo;
+  if (q >= 1) return hi;
+  const { mean, variance } = moments(dist);
+  const spread = Math.sqrt(variance) || 1;
+
+  // Bracket an unbounded side by doubling steps away from the mean
+  for (let step = spread; !Number.isFinite(lo); step *= 2) {
+    if (cdf(dist, mean - step) < q) lo = mean - step;
+  }
+  for (let step = spread; !Number.isFinite(hi); step *= 2) {
+    if (cdf(dist, mean + step) > q) hi = mean + step;
+  }
+
+  for (
+    let i = 0;
+    i < 200 && hi - lo > EPSILON * Math.max(1, Math.abs(lo));
+    i++
+  ) {
+    const mid = (lo + hi) / 2;
+    if (cdf(dist, mid) < q) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * The shortest interval holding a share `mass` of the distribution, by
+ * golden-section search over the share left below it
+ */
+export function shortestInterval(
+  dist: ContinuousDistribution,
+  mass: number,
+): [number, number] {
+  const width = (below: number) =>
+    quantile(dist, below + mass) - quantile(dist, below);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = 0;
+  let b = 1 - mass;
+  for (let i = 0; i < 60; i++) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (width(c) < width(d)) b = d;
+    else a = c;
+  }
+  const below = (a + b) / 2;
+  return [quantile(dist, below), quantile(dist, below + mass)];
+}
@@ -0,0 +1,223 @@
+/**
+ * Factor Algebra
+ *
+ * The operations exact inference is made of: multiplying factors, summing
+ * a variable out, fixing observed variables, and choosing the order in
+ * which to eliminate variables.
+ *
+ * A factor's values are laid out with its first variable varying slowest,
+ * the layout of a CPT row by row. An assignment is decoded from an index by
+ * its strides, so factors of any number of variables share one code path.
+ */
+
+import type { Factor, Observations } from "./types.js";
+
+/** A factor of no variables, worth 1 */
+export const UNIT: Factor = { variables: [], cardinalities: [], values: [1] };
+
+function strides(cardinalities: number[]): number[] {
+  const result = new Array<number>(cardinalities.length);
+  let stride = 1;
+  for (let i = cardinalities.length - 1; i >= 0; i--) {
+    result[i] = stride;
+    stride *= cardinalities[i];
+  }
+  return result;
+}
+
+/** Entries of a table over variables with these cardinalities */
+export function tableSize(cardinalities: number[]): number {
+  return cardinalities.reduce((n, c) => n * c, 1);
+}
+
+/**
+ * The product of two factors, over the variables of either
+ */
+export function multiply(a: Factor, b: Factor): Factor {
+  const variables = [...a.variables];
+  const cardinalities = [...a.cardinalities];
+  b.variables.forEach((v, i) => {
+    if (!variables.includes(v)) {
+      variables.push(v);
+      cardinalities.push(b.cardinalities[i]);
+    }
+  });
+
+  const size = tableSize(cardinalities);
+  const aStrides = strides(a.cardinalities);
+  const bStrides = strides(b.cardinalities);
+  // Stride in a and in b of each variable of the product, 0 where absent
+  const inA = variables.map((v) => {
+    const i = a.variables.indexOf(v);
+    return i < 0 ? 0 : aStrides[i];
+  });
+  const inB = variables.map((v) => {
+    const i = b.variables.indexOf(v);
+    return i < 0 ? 0 : bStrides[i];
+  });
+
+  const values = new Array<number>(size);
+  const assignment = new Array<number>(variables.length).fill(0);
+  let ia = 0;
+  let ib = 0;
+  for (let k = 0; k < size; k++) {
+    values[k] = a.values[ia] * b.values[ib];
+    // Step the assignment like an odometer, last variable fastest
+    for (let j = variables.length - 1; j >= 0; j--) {
+      assignment[j]++;
+      ia += inA[j];
+      ib += inB[j];
+      if (assignment[j] < cardinalities[j]) break;
+      ia -= inA[j] * cardinalities[j];
+      ib -= inB[j] * cardinalities[j];
+      assignment[j] = 0;
+    }
+  }
+  return { variables, cardinalities, values };
+}
+
+/**
+ * The product of any number of factors
+ */
+export function multiplyAll(factors: Factor[]): Factor {
+  return factors.reduce(multiply, UNIT);
+}
+
+/**
+ * Sum a variable out of a factor; a factor without it is returned as is
+ */
+export function sumOut(factor: Factor, variable: string): Factor {
+  const i = factor.variables.indexOf(variable);
+  if (i < 0) return factor;
+
+  const cardinality = factor.cardinalities[i];
+  const inner = tableSize(factor.cardinalities.slice(i + 1));
+  const outer = tableSize(factor.cardinalities.slice(0, i));
+  const values = new Array<number>(outer * inner).fill(0);
+  for (let o = 0; o < outer; o++) {
+    for (let s = 0; s < cardinality; s++) {
+      const base = (o * cardinality + s) * inner;
+      for (let n = 0; n < inner; n++) {
+        values[o * inner + n] += factor.values[base + n];
+      }
+    }
+  }
+  return {
+    variables: factor.variables.filter((_, j) => j !== i),
+    cardinalities: factor.cardinalities.filter((_, j) => j !== i),
+    values,
+  };
+}
+
+/**
+ * Sum out every variable of a factor but those kept
+ */
+export function marginalize(factor: Factor, keep: string[]): Factor {
+  return factor.variables
+    .filter((v) => !keep.includes(v))
+    .reduce(sumOut, factor);
+}
+
+/**
+ * Fix observed variables at their observed states, dropping them from the
+ * factor
+ *
+ * @param stateIndex - The index of a variable's observed state
+ */
+export function reduce(
+  factor: Factor,
+  observations: Observations,
+  stateIndex: (variable: string, state: string) => number,
+): Factor {
+  let result = factor;
+  for (const [variable, state] of Object.entries(observations)) {
+    const i = result.variables.indexOf(variable);
+    if (i < 0) continue;
+    const s = stateIndex(variable, state);
+    const cardinality = result.cardinalities[i];
+    const inner = tableSize(result.cardinalities.slice(i + 1));
+    const outer = tableSize(result.cardinalities.slice(0, i));
+    const values = new Array<number>(outer * inner);
+    for (let o = 0; o < outer; o++) {
+      for (let n = 0; n < inner; n++) {
+        values[o * inner + n] =
+          result.values[(o * cardinality + s) * inner + n];
+      }
+    }
+    result = {
+      variables: result.variables.filter((_, j) => j !== i),
+      cardinalities: result.cardinalities.filter((_, j) => j !== i),
+      values,
+    };
+  }
+  return result;
+}
+
+/** The sum of a factor's values */
+export function total(factor: Factor): number {
+  return factor.values.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Greedy min-fill elimination order: repeatedly eliminate the variable whose
+ * neighbours in the interaction graph lack the fewest edges between them,
+ * breaking ties by the smaller table
+ *
+ * @param scopes - The variables of each factor; two variables interact
+ * when some factor holds both
+ * @param variables - The variables to order
+ * @param cardinality - Number of states of a variable
+ * @returns The order, and the variables each one is eliminated with
+ */
+export function eliminationOrder(
+  scopes: string[][],
+  variables: string[],
+  cardinality: (variable: string) => number,
+): { order: string[]; cliques: string[][] } {
+  const neighbours = new Map<string, Set<string>>();
+  const touch = (v: string) => {
+    if (!neighbours.has(v)) neighbours.set(v, new Set());
+    return neighbours.get(v)!;
+  };
+  for (const scope of scopes) {
+    for (const u of scope) {
+      const near = touch(u);
+      for (const v of scope) if (u !== v) near.add(v);
+    }
+  }
+
+  const remaining = new Set(variables);
+  const order: string[] = [];
+  const cliques: string[][] = [];
+  while (remaining.size > 0) {
+    let best = "";
+    let bestFill = Infinity;
+    let bestSize = Infinity;
+    for (const v of remaining) {
+      const near = [...touch(v)];
+      let fill = 0;
+      for (let i = 0; i < near.length; i++) {
+        for (let j = i + 1; j < near.length; j++) {
+          if (!touch(near[i]).has(near[j])) fill++;
+        }
+      }
+      const size = near.reduce((n, u) => n * cardinality(u), cardinality(v));
+      if (fill < bestFill || (fill === bestFill && size < bestSize)) {
+        best = v;
+        bestFill = fill;
+        bestSize = size;
+      }
+    }
+
+    const near = [...touch(best)];
+    for (const u of near) {
+      for (const w of near) if (u !== w) touch(u).add(w);
+      touch(u).delete(best);
+    }
+    neighbours.delete(best);
+    remaining.delete(best);
+    order.push(best);
+    cliques.push([best, ...near]);
+  }
+  return { order, cliques };
+}
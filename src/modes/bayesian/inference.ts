@@ -0,0 +1,104 @@
+/**
+ * Bayesian Network Inference
+ *
+ * One entry point for the three inference methods. Exact inference, by the
+ * junction tree unless variable elimination is asked for, is tried first;
+ * when the largest clique table of the junction tree, with the observed
+ * variables fixed, would exceed `maxTableSize` entries, likelihood
+ * weighting is used instead and the result says it fell back. The junction
+ * tree's clique tables bound those of variable elimination too, as both
+ * eliminate in min-fill order.
+ *
+ * Observed variables are reported with all their probability on the state
+ * observed.
+ */
+
+import { NetworkError, checkObservations, statesOf } from "./network.js";
+import {
+  buildJunctionTree,
+  junctionTreeInference,
+  largestCliqueTable,
+} from "./junction-tree.js";
+import { likelihoodWeighting } from "./likelihood-weighting.js";
+import { variableElimination } from "./variable-elimination.js";
+import type {
+  BayesianNetwork,
+  InferenceOptions,
+  InferenceResult,
+  Observations,
+} from "./types.js";
+
+/** Samples likelihood weighting draws when not told */
+export const DEFAULT_SAMPLES = 10_000;
+
+/** Entries of the largest table exact inference may build when not told */
+export const DEFAULT_MAX_TABLE_SIZE = 1_000_000;
+
+/**
+ * Posterior marginals of the query variables given the observations
+ *
+ * @throws NetworkError when a query or observation names a node or state
+ * the network lacks
+ * @throws ImpossibleEvidenceError when the observations have probability 0
+ */
+export function infer(
+  network: BayesianNetwork,
+  observations: Observations = {},
+  options: InferenceOptions = {},
+): InferenceResult {
+  checkObservations(network, observations);
+  const ids = network.nodes.map((n) => n.id);
+  const query = options.query ?? ids;
+  const unknown = query.find((q) => !ids.includes(q));
+  if (unknown !== undefined) {
+    throw new NetworkError(
+      `Query variable '${unknown}' is not a node of the network`,
+    );
+  }
+  const hidden = query.filter((q) => !(q in observations));
+
+  let method = options.method ?? "junction_tree";
+  let fellBack: boolean | undefined;
+  const tree =
+    method === "likelihood_weighting" ? undefined : buildJunctionTree(network);
+  if (
+    tree &&
+    largestCliqueTable(network, tree, observations) >
+      (options.maxTableSize ?? DEFAULT_MAX_TABLE_SIZE)
+  ) {
+    method = "likelihood_weighting";
+    fellBack = true;
+  }
+
+  let result: InferenceResult;
+  if (method === "likelihood_weighting") {
+    const samples = options.samples ?? DEFAULT_SAMPLES;
+    const sampled = likelihoodWeighting(
+      network,
+      observations,
+      hidden,
+      samples,
+      options.seed,
+    );
+    result = { method, fellBack, samples, ...sampled };
+  } else if (method === "variable_elimination") {
+    result = { method, ...variableElimination(network, observations, hidden) };
+  } else {
+    result = {
+      method,
+      ...junctionTreeInference(network, observations, hidden, tree),
+    };
+  }
+
+  for (const q of query) {
+    if (q in observations) {
+      result.marginals[q] = Object.fromEntries(
+        statesOf(network, q).map((s) => [s, s === observations[q] ? 1 : 0]),
+      );
+    }
+  }
+  result.marginals = Object.fromEntries(
+    query.map((q) => [q, result.marginals[q]]),
+  );
+  return result;
+}
@@ -0,0 +1,205 @@
+/**
+ * Junction Tree Inference
+ *
+ * Exact inference for every variable at once. The moral graph (each node
+ * joined to its parents, and the parents of a node to each other) is
+ * triangulated by min-fill elimination; the maximal cliques of the
+ * elimination are joined by a maximum-weight spanning tree, weighted by the
+ * variables two cliques share, which has the running intersection property.
+ * Cliques that share nothing are joined through empty separators, so a
+ * network in several pieces still makes one tree.
+ *
+ * Each CPT, fixed at the observations, goes to a clique holding its family.
+ * Shafer-Shenoy message passing then collects towards clique 0 and
+ * distributes back out, after which each clique's belief is P(clique,
+ * observations) and its total is P(observations).
+ */
+
+import { ImpossibleEvidenceError, cptFactor, statesOf } from "./network.js";
+import {
+  eliminationOrder,
+  marginalize,
+  multiplyAll,
+  reduce,
+  tableSize,
+  total,
+} from "./factor.js";
+import type {
+  BayesianNetwork,
+  Factor,
+  JunctionTree,
+  Observations,
+} from "./types.js";
+
+/**
+ * Build the junction tree of a network
+ */
+export function buildJunctionTree(network: BayesianNetwork): JunctionTree {
+  const families = network.nodes.map((n) => [...n.parents, n.id]);
+  const { cliques: eliminated } = eliminationOrder(
+    families,
+    network.nodes.map((n) => n.id),
+    (v) => statesOf(network, v).length,
+  );
+
+  // Keep the maximal cliques, in elimination order
+  const cliques = eliminated.filter(
+    (c, i) =>
+      !eliminated.some(
+        (d, j) =>
+          j !== i &&
+          c.every((v) => d.includes(v)) &&
+          (d.length > c.length || j < i),
+      ),
+  );
+
+  // Kruskal over every pair, heaviest shared set first
+  const pairs: { cliques: [number, number]; variables: string[] }[] = [];
+  for (let i = 0; i < cliques.length; i++) {
+    for (let j = i + 1; j < cliques.length; j++) {
+      pairs.push({
+        cliques: [i, j],
+        variables: cliques[i].filter((v) => cliques[j].includes(v)),
+      });
+    }
+  }
+  pairs.sort((a, b) => b.variables.length - a.variables.length);
+
+  const root = cliques.map((_, i) => i);
+  const find = (i: number): number =>
+    root[i] === i ? i : (root[i] = find(root[i]));
+  const separators: JunctionTree["separators"] = [];
+  for (const pair of pairs) {
+    const [a, b] = pair.cliques.map(find);
+    if (a === b) continue;
+    root[a] = b;
+    separators.push(pair);
+  }
+  return { cliques, separators };
+}
+
+/**
+ * Entries of the largest clique table of a junction tree, with the observed
+ * variables fixed
+ */
+export function largestCliqueTable(
+  network: BayesianNetwork,
+  tree: JunctionTree,
+  observations: Observations,
+): number {
+  return Math.max(
+    ...tree.cliques.map((c) =>
+      tableSize(
+        c
+          .filter((v) => !(v in observations))
+          .map((v) => statesOf(network, v).length),
+      ),
+    ),
+  );
+}
+
+/**
+ * Posterior marginals of unobserved query variables by message passing on
+ * the junction tree
+ *
+ * @throws ImpossibleEvidenceError when the observations have probability 0
+ */
+export function junctionTreeInference(
+  network: BayesianNetwork,
+  observations: Observations,
+  query: string[],
+  tree: JunctionTree = buildJunctionTree(network),
+): {
+  marginals: Record<string, Record<string, number>>;
+  evidenceProbability: number;
+  largestTable: number;
+} {
+  const { cliques, separators } = tree;
+  const stateIndex = (v: string, s: string) => statesOf(network, v).indexOf(s);
+
+  // Each CPT goes to the first clique holding its whole family
+  const home = new Map<string, number>();
+  const assigned: Factor[][] = cliques.map(() => []);
+  for (const node of network.nodes) {
+    const family = [...node.parents, node.id];
+    const i = cliques.findIndex((c) => family.every((v) => c.includes(v)));
+    home.set(node.id, i);
+    assigned[i].push(
+      reduce(cptFactor(network, node), observations, stateIndex),
+    );
+  }
+  const potentials = assigned.map(multiplyAll);
+
+  const neighbours: { clique: number; variables: string[] }[][] = cliques.map(
+    () => [],
+  );
+  for (const {
+    cliques: [a, b],
+    variables,
+  } of separators) {
+    const shared = variables.filter((v) => !(v in observations));
+    neighbours[a].push({ clique: b, variables: shared });
+    neighbours[b].push({ clique: a, variables: shared });
+  }
+
+  // Visit order from clique 0, and each clique's parent in it
+  const order: number[] = [];
+  const parent = new Array<number>(cliques.length).fill(-1);
+  const seen = new Set([0]);
+  const stack = [0];
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    order.push(i);
+    for (const { clique } of neighbours[i]) {
+      if (!seen.has(clique)) {
+        seen.add(clique);
+        parent[clique] = i;
+        stack.push(clique);
+      }
+    }
+  }
+
+  // messages.get(`${from}>${to}`)
+  const messages = new Map<string, Factor>();
+  let largestTable = 0;
+  const send = (from: number, to: number) => {
+    const incoming = neighbours[from]
+      .filter((n) => n.clique !== to)
+      .map((n) => messages.get(`${n.clique}>${from}`)!);
+    const product = multiplyAll([potentials[from], ...incoming]);
+    largestTable = Math.max(largestTable, product.values.length);
+    const shared = neighbours[from].find((n) => n.clique === to)!.variables;
+    messages.set(`${from}>${to}`, marginalize(product, shared));
+  };
+
+  for (const i of [...order].reverse()) {
+    if (parent[i] >= 0) send(i, parent[i]);
+  }
+  for (const i of order) {
+    for (const { clique } of neighbours[i]) {
+      if (clique !== parent[i]) send(i, clique);
+    }
+  }
+
+  const belief = (i: number) => {
+    const product = multiplyAll([
+      potentials[i],
+      ...neighbours[i].map((n) => messages.get(`${n.clique}>${i}`)!),
+    ]);
+    largestTable = Math.max(largestTable, product.values.length);
+    return product;
+  };
+
+  const evidenceProbability = total(belief(0));
+  if (!(evidenceProbability > 0)) throw new ImpossibleEvidenceError();
+
+  const marginals: Record<string, Record<string, number>> = {};
+  for (const variable of query) {
+    const marginal = marginalize(belief(home.get(variable)!), [variable]);
+    const z = total(marginal);
+    marginals[variable] = Object.fromEntries(
+      statesOf(network, variable).map((s, i) => [s, marginal.values[i] / z]),
+    );
+  }
+  return { marginals, evidenceProbability, largestTable };
+}
@@ -0,0 +1,104 @@
+/**
+ * Likelihood Weighting
+ *
+ * Approximate inference for networks whose exact tables would be too large.
+ * Each sample walks the relevant variables parents first: an unobserved
+ * variable is drawn from its CPT row, and an observed one is fixed at its
+ * observation, the sample's weight multiplied by the probability of that
+ * observation given the parents drawn. Marginals are the weighted shares of
+ * each state, and P(observations) the mean weight.
+ *
+ * Samples come from the seeded generator of src/modes/stochastic/, so a
+ * run is repeated exactly by its seed.
+ */
+
+import { createRNG, generateSeed } from "../stochastic/sampling/rng.js";
+import { ImpossibleEvidenceError, relevantNodes, statesOf } from "./network.js";
+import type { BayesianNetwork, Observations } from "./types.js";
+
+/**
+ * Posterior marginals of unobserved query variables by likelihood weighting
+ *
+ * @throws ImpossibleEvidenceError when no sample has positive weight
+ */
+export function likelihoodWeighting(
+  network: BayesianNetwork,
+  observations: Observations,
+  query: string[],
+  samples: number,
+  seed: number = generateSeed(),
+): {
+  marginals: Record<string, Record<string, number>>;
+  evidenceProbability: number;
+  effectiveSampleSize: number;
+  seed: number;
+} {
+  const rng = createRNG(seed);
+  const relevant = relevantNodes(network, query, observations);
+  const nodes = network.nodes
+    .filter((n) => relevant.has(n.id))
+    .map((n) => ({
+      ...n,
+      observed:
+        n.id in observations ? n.states.indexOf(observations[n.id]) : -1,
+      // Stride of each parent's state in the CPT row index
+      strides: n.parents.map((_, i) =>
+        n.parents
+          .slice(i + 1)
+          .reduce((acc, p) => acc * statesOf(network, p).length, 1),
+      ),
+    }));
+
+  const counts = query.map((q) =>
+    new Array<number>(statesOf(network, q).length).fill(0),
+  );
+  const state = new Map<string, number>();
+  let weightSum = 0;
+  let weightSquares = 0;
+
+  for (let k = 0; k < samples; k++) {
+    let weight = 1;
+    for (const node of nodes) {
+      const row =
+        node.cpt[
+          node.parents.reduce(
+            (r, p, i) => r + state.get(p)! * node.strides[i],
+            0,
+          )
+        ];
+      if (node.observed >= 0) {
+        weight *= row[node.observed];
+        state.set(node.id, node.observed);
+      } else {
+        let u = rng.next();
+        let s = 0;
+        while (s < row.length - 1 && u >= row[s]) u -= row[s++];
+        state.set(node.id, s);
+      }
+    }
+    weightSum += weight;
+    weightSquares += weight * weight;
+    query.forEach((q, j) => {
+      counts[j][state.get(q)!] += weight;
+    });
+  }
+
+  if (!(weightSum > 0)) {
+    throw new ImpossibleEvidenceError(
+      `None of the ${samples} samples is consistent with the observations`,
+    );
+  }
+  return {
+    marginals: Object.fromEntries(
+      query.map((q, j) => [
+        q,
+        Object.fromEntries(
+          statesOf(network, q).map((s, i) => [s, counts[j][i] / weightSum]),
+        ),
+      ]),
+    ),
+    evidenceProbability: weightSum / samples,
+    effectiveSampleSize: (weightSum * weightSum) / weightSquares,
+    seed,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Likelihoods With One Unknown Parameter
+ *
+ * A parametric model updates a prior over the one unknown parameter of its
+ * likelihood: the success probability p of binomial, Bernoulli and
+ * geometric data, the rate λ of Poisson counts, the rate of exponential
+ * waiting times, or the mean of normal data whose standard deviation is
+ * known. Each likelihood depends on the data only through the number of
+ * observations and their sum, so both are taken once.
+ */
+
+import { param } from "../stochastic/models/moments.js";
+import type { ParametricLikelihood } from "./types.js";
+
+/**
+ * A likelihood, its parameters or its data that cannot be used
+ */
+export class ParametricModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ParametricModelError";
+  }
+}
+
+/**
+ * Read a likelihood by the name of its distribution, with the parameters
+ * that are known. A Bernoulli likelihood is a binomial with one trial.
+ *
+ * @throws ParametricModelError when the distribution has no likelihood
+ * here, or a known parameter is missing or out of range
+ */
+export function readLikelihood(
+  name: string,
+  parameters: Record<string, number> = {},
+): ParametricLikelihood {
+  switch (name) {
+    case "binomial": {
+      const trials = param(parameters, "n", "trials");
+      if (trials === undefined || !Number.isInteger(trials) || trials < 1) {
+        throw new ParametricModelError(
+          "A binomial likelihood needs its number of trials, n, a positive integer",
+        );
+      }
+      return { family: "binomial", parameter: "p", trials };
+    }
+    case "bernoulli":
+      return { family: "binomial", parameter: "p", trials: 1 };
+    case "geometric":
+      return { family: "geometric", parameter: "p" };
+    case "poisson":
+      return { family: "poisson", parameter: "lambda" };
+    case "exponential":
+      return { family: "exponential", parameter: "rate" };
+    case "normal":
+    case "gaussian": {
+      const variance = param(parameters, "variance", "sigma2");
+      const stdDev =
+        param(parameters, "stdDev", "sigma", "standardDeviation") ??
+        (variance !== undefined ? Math.sqrt(variance) : undefined);
+      if (stdDev === undefined || !(stdDev > 0)) {
+        throw new ParametricModelError(
+          "A normal likelihood needs its known standard deviation, stdDev, above 0",
+        );
+      }
+      return { family: "normal", parameter: "mean", stdDev };
+    }
+    default:
+      throw new ParametricModelError(
+        `No likelihood for '${name}'; use binomial, bernoulli, geometric, poisson, exponential or normal`,
+      );
+  }
+}
+
+/** The open interval the likelihood's parameter lies in */
+export function parameterSupport(likelihood: ParametricLikelihood): {
+  min: number;
+  max: number;
+} {
+  switch (likelihood.parameter) {
+    case "p":
+      return { min: 0, max: 1 };
+    case "lambda":
+    case "rate":
+      return { min: 0, max: Infinity };
+    case "mean":
+      return { min: -Infinity, max: Infinity };
+  }
+}
+
+/**
+ * Check that each observation is one the likelihood can produce
+ *
+ * @throws ParametricModelError naming the first that is not
+ */
+export function checkData(
+  likelihood: ParametricLikelihood,
+  data: number[],
+): void {
+  const counts = (x: number) => Number.isInteger(x) && x >= 0;
+  const [valid, what]: [(x: number) => boolean, string] =
+    likelihood.family === "binomial"
+      ? [
+          (x) => counts(x) && x <= likelihood.trials,
+          `a count of successes from 0 to ${likelihood.trials}`,
+        ]
+      : likelihood.family === "geometric"
+        ? [(x) => counts(x) && x >= 1, "a number of trials, at least 1"]
+        : likelihood.family === "poisson"
+          ? [counts, "a count, a nonnegative integer"]
+          : likelihood.family === "exponential"
+            ? [(x) => x >= 0, "a waiting time, at least 0"]
+            : [() => true, "a number"];
+
+  const i = data.findIndex((x) => !Number.isFinite(x) || !valid(x));
+  if (i >= 0) {
+    throw new ParametricModelError(
+      `Observation ${i} (${data[i]}) is not ${what}`,
+    );
+  }
+}
+
+/**
+ * The log likelihood of the data as a function of the parameter, up to a
+ * constant; −Infinity where the data are impossible
+ */
+export function logLikelihood(
+  likelihood: ParametricLikelihood,
+  data: number[],
+): (theta: number) => number {
+  const n = data.length;
+  const sum = data.reduce((a, b) => a + b, 0);
+  // x·ln θ with 0·ln 0 = 0
+  const xlog = (x: number, theta: number) =>
+    x === 0 ? 0 : x * Math.log(theta);
+
+  switch (likelihood.family) {
+    case "binomial": {
+      const failures = n * likelihood.trials - sum;
+      return (p) => xlog(sum, p) + xlog(failures, 1 - p);
+    }
+    case "geometric":
+      return (p) => xlog(n, p) + xlog(sum - n, 1 - p);
+    case "poisson":
+      return (lambda) => xlog(sum, lambda) - n * lambda;
+    case "exponential":
+      return (rate) => xlog(n, rate) - rate * sum;
+    case "normal": {
+      // −Σ(x − μ)² / 2σ², leaving out the Σx² that does not depend on μ
+      const s2 = likelihood.stdDev ** 2;
+      return (mean) => (2 * mean * sum - n * mean * mean) / (2 * s2);
+    }
+  }
+}
+
+/**
+ * The maximum-likelihood estimate of the parameter, undefined without data
+ */
+export function estimate(
+  likelihood: ParametricLikelihood,
+  data: number[],
+): number | undefined {
+  if (data.length === 0) return undefined;
+  const n = data.length;
+  const sum = data.reduce((a, b) => a + b, 0);
+  switch (likelihood.family) {
+    case "binomial":
+      return sum / (n * likelihood.trials);
+    case "geometric":
+      return n / sum;
+    case "poisson":
+    case "normal":
+      return sum / n;
+    case "exponential":
+      return sum > 0 ? n / sum : undefined;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Bayesian Network Construction
+ *
+ * Reads nodes and their CPTs into a `BayesianNetwork`, checking everything
+ * inference relies on: every parent is a node, the parents form no cycle,
+ * each CPT has a row per parent assignment and a probability per state, and
+ * each row sums to 1. Rows that miss 1 by no more than `ROW_TOLERANCE` are
+ * scaled to it; anything else is a `NetworkError`.
+ *
+ * The structure is kept as a `CausalGraph`, and `relevantNodes` prunes a
+ * query to the ancestors of what it asks about and observes with
+ * `getAncestors` from the causal graph algorithms: a variable outside that
+ * set sums out to 1 and cannot change the answer.
+ */
+
+import { getAncestors } from "../causal/graph/algorithms/d-separation.js";
+import type {
+  BayesianNetwork,
+  Factor,
+  NetworkNode,
+  Observations,
+} from "./types.js";
+
+/** How far a CPT row may miss 1 and still be scaled to it */
+export const ROW_TOLERANCE = 0.01;
+
+/**
+ * Raised for a network inference cannot use
+ */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Raised when the observations have probability 0 under the network, so
+ * there is nothing to condition on
+ */
+export class ImpossibleEvidenceError extends Error {
+  constructor(message = "The observations have probability 0") {
+    super(message);
+    this.name = "ImpossibleEvidenceError";
+  }
+}
+
+/**
+ * Build a network from its nodes, in any order
+ *
+ * @throws NetworkError when there are no nodes, a node is repeated or has
+ * fewer than two states, a parent is not a node, the parents form a cycle,
+ * or a CPT has the wrong shape or a row that does not sum to 1
+ */
+export function buildNetwork(
+  nodes: {
+    id: string;
+    states: string[];
+    parents?: string[];
+    cpt: number[][];
+  }[],
+): BayesianNetwork {
+  if (nodes.length === 0) throw new NetworkError("The network has no nodes");
+  const byId = new Map<string, NetworkNode>();
+  for (const { id, states, parents = [], cpt } of nodes) {
+    if (byId.has(id)) throw new NetworkError(`Node '${id}' is given twice`);
+    if (states.length < 2 || new Set(states).size !== states.length) {
+      throw new NetworkError(`Node '${id}' needs at least two distinct states`);
+    }
+    byId.set(id, { id, states, parents, cpt });
+  }
+
+  for (const node of byId.values()) {
+    for (const parent of node.parents) {
+      if (!byId.has(parent)) {
+        throw new NetworkError(
+          `Node '${node.id}' has parent '${parent}', which is not a node of the network`,
+        );
+      }
+    }
+    node.cpt = checkCpt(node, byId);
+  }
+
+  const ordered = topologicalOrder([...byId.values()]);
+  return {
+    nodes: ordered,
+    graph: {
+      id: "bayesian-network",
+      nodes: ordered.map((n) => ({ id: n.id, name: n.id })),
+      edges: ordered.flatMap((n) =>
+        n.parents.map((p) => ({
+          from: p,
+          to: n.id,
+          type: "directed" as const,
+        })),
+      ),
+      isDAG: true,
+    },
+  };
+}
+
+/**
+ * A node's CPT with each row scaled to sum to exactly 1
+ */
+function checkCpt(
+  node: NetworkNode,
+  byId: Map<string, NetworkNode>,
+): number[][] {
+  const rows = node.parents.reduce((n, p) => n * byId.get(p)!.states.length, 1);
+  if (node.cpt.length !== rows) {
+    throw new NetworkError(
+      `The CPT of '${node.id}' has ${node.cpt.length} row(s), but its parents have ${rows} assignment(s)`,
+    );
+  }
+  return node.cpt.map((row, r) => {
+    if (row.length !== node.states.length) {
+      throw new NetworkError(
+        `Row ${r} of the CPT of '${node.id}' has ${row.length} probabilities for ${node.states.length} states`,
+      );
+    }
+    if (row.some((p) => !(p >= 0))) {
+      throw new NetworkError(
+        `Row ${r} of the CPT of '${node.id}' has a negative probability`,
+      );
+    }
+    const sum = row.reduce((a, b) => a + b, 0);
+    if (Math.abs(sum - 1) > ROW_TOLERANCE) {
+      throw new NetworkError(
+        `Row ${r} of the CPT of '${node.id}' sums to ${sum.toFixed(3)}, not 1`,
+      );
+    }
+    return row.map((p) => p / sum);
+  });
+}
+
+/**
+ * Nodes ordered parents first, by Kahn's algorithm
+ *
+ * @throws NetworkError when the parents form a cycle
+ */
+function topologicalOrder(nodes: NetworkNode[]): NetworkNode[] {
+  const waiting = new Map(nodes.map((n) => [n.id, n.parents.length]));
+  const children = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+  for (const n of nodes) for (const p of n.parents) children.get(p)!.push(n.id);
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const ready = nodes.filter((n) => n.parents.length === 0).map((n) => n.id);
+  const ordered: NetworkNode[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    ordered.push(byId.get(id)!);
+    for (const child of children.get(id)!) {
+      waiting.set(child, waiting.get(child)! - 1);
+      if (waiting.get(child) === 0) ready.push(child);
+    }
+  }
+
+  if (ordered.length < nodes.length) {
+    const stuck = nodes.filter((n) => !ordered.includes(n)).map((n) => n.id);
+    throw new NetworkError(
+      `The network has a cycle among ${stuck.map((s) => `'${s}'`).join(", ")}`,
+    );
+  }
+  return ordered;
+}
+
+/**
+ * Check observations against a network
+ *
+ * @throws NetworkError when one names a node or state the network lacks
+ */
+export function checkObservations(
+  network: BayesianNetwork,
+  observations: Observations,
+): void {
+  for (const [id, state] of Object.entries(observations)) {
+    const node = network.nodes.find((n) => n.id === id);
+    if (!node) {
+      throw new NetworkError(
+        `Observed variable '${id}' is not a node of the network`,
+      );
+    }
+    if (!node.states.includes(state)) {
+      throw new NetworkError(
+        `'${state}' is not a state of '${id}', whose states are ${node.states.join(", ")}`,
+      );
+    }
+  }
+}
+
+/**
+ * The variables a query about `targets` depends on: the targets, the
+ * observed variables, and their ancestors. The rest are barren, and summing
+ * them out first changes nothing.
+ */
+export function relevantNodes(
+  network: BayesianNetwork,
+  targets: string[],
+  observations: Observations,
+): Set<string> {
+  const relevant = new Set([...targets, ...Object.keys(observations)]);
+  for (const id of [...relevant]) {
+    for (const ancestor of getAncestors(network.graph, id)) {
+      relevant.add(ancestor);
+    }
+  }
+  return relevant;
+}
+
+/**
+ * A node's CPT as a factor over its parents and itself
+ */
+export function cptFactor(network: BayesianNetwork, node: NetworkNode): Factor {
+  const variables = [...node.parents, node.id];
+  return {
+    variables,
+    cardinalities: variables.map((v) => statesOf(network, v).length),
+    values: node.cpt.flat(),
+  };
+}
+
+/**
+ * The states of a variable of the network
+ */
+export function statesOf(network: BayesianNetwork, id: string): string[] {
+  return network.nodes.find((n) => n.id === id)!.states;
+}
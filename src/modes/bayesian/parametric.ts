@@ -0,0 +1,198 @@
+/**
+ * Parametric Posteriors
+ *
+ * The posterior of a likelihood's parameter given a prior and data. A
+ * conjugate prior is updated in closed form, and its credible intervals are
+ * exact quantiles; any other continuous prior is sampled by
+ * Metropolis-Hastings, and the intervals, mean and spread are those of the
+ * draws, with diagnostics that say whether to trust them.
+ *
+ * A prior that puts mass where the parameter cannot lie, such as a normal
+ * prior on a probability, is restricted to where it can: the posterior is
+ * sampled there, and the mass cut off is reported.
+ */
+
+import {
+  equalTailedInterval,
+  hpdInterval,
+  mean,
+  median,
+  probExceedsThreshold,
+  stdDev,
+} from "../stochastic/analysis/statistics.js";
+import { conjugateUpdate, summarizeDistribution } from "./conjugate.js";
+import {
+  cdf,
+  logDensity,
+  moments,
+  quantile,
+  support,
+} from "./distributions.js";
+import {
+  ParametricModelError,
+  checkData,
+  estimate,
+  logLikelihood,
+  parameterSupport,
+} from "./likelihood.js";
+import { metropolisHastings } from "./metropolis.js";
+import type {
+  ContinuousDistribution,
+  ParametricModel,
+  ParametricPosterior,
+  PosteriorOptions,
+} from "./types.js";
+
+/** Points averaged for the mean of a restricted prior */
+const PRIOR_MEAN_POINTS = 1_000;
+
+/**
+ * Update the prior by the data
+ *
+ * @throws ParametricModelError when an observation is impossible under the
+ * likelihood, the prior puts no mass where the parameter can lie, or the
+ * posterior has no point of positive density to start sampling from
+ */
+export function updatePosterior(
+  model: ParametricModel,
+  options: PosteriorOptions = {},
+): ParametricPosterior {
+  const { prior, likelihood, data } = model;
+  checkData(likelihood, data);
+  const mass = options.credibleMass ?? 0.95;
+
+  // Where both the prior and the parameter allow
+  const allowed = parameterSupport(likelihood);
+  const priorSupport = support(prior);
+  const bounds = {
+    min: Math.max(allowed.min, priorSupport.min),
+    max: Math.min(allowed.max, priorSupport.max),
+  };
+  const kept =
+    bounds.max > bounds.min
+      ? cdf(prior, bounds.max) - cdf(prior, bounds.min)
+      : 0;
+  if (!(kept > 0)) {
+    throw new ParametricModelError(
+      `The prior puts no probability where '${likelihood.parameter}' can lie`,
+    );
+  }
+  const truncatedPriorMass = 1 - kept > 1e-12 ? 1 - kept : undefined;
+  const priorAbove = (t: number) =>
+    (cdf(prior, bounds.max) -
+      cdf(prior, Math.min(bounds.max, Math.max(bounds.min, t)))) /
+    kept;
+
+  const base = {
+    parameter: likelihood.parameter,
+    observations: data.length,
+    priorMean: truncatedPriorMass
+      ? restrictedMean(prior, bounds)
+      : moments(prior).mean,
+    truncatedPriorMass,
+  };
+
+  const conjugate =
+    options.method === "metropolis_hastings"
+      ? undefined
+      : conjugateUpdate(prior, likelihood, data);
+  if (conjugate) {
+    const { distribution, conjugacy } = conjugate;
+    const summary = summarizeDistribution(distribution, mass);
+    return {
+      method: "conjugate",
+      ...base,
+      distribution,
+      conjugacy,
+      mean: summary.mean,
+      stdDev: summary.stdDev,
+      median: summary.median,
+      credibleInterval: {
+        lower: summary.equalTailed[0],
+        upper: summary.equalTailed[1],
+        probability: mass,
+        type: "equal-tailed",
+      },
+      hpdInterval: {
+        lower: summary.shortest[0],
+        upper: summary.shortest[1],
+        probability: mass,
+        type: "hpd",
+      },
+      threshold:
+        options.threshold === undefined
+          ? undefined
+          : {
+              value: options.threshold,
+              prior: priorAbove(options.threshold),
+              posterior: 1 - cdf(distribution, options.threshold),
+            },
+    };
+  }
+
+  const logLik = logLikelihood(likelihood, data);
+  const logPosterior = (theta: number) =>
+    logDensity(prior, theta) + logLik(theta);
+  const inside = (theta: number | undefined): theta is number =>
+    theta !== undefined &&
+    theta > bounds.min &&
+    theta < bounds.max &&
+    logPosterior(theta) > -Infinity;
+  const start = [
+    estimate(likelihood, data),
+    base.priorMean,
+    quantile(prior, 0.5),
+  ].find(inside);
+  if (start === undefined) {
+    throw new ParametricModelError(
+      `The posterior of '${likelihood.parameter}' has no point of positive density to start sampling from`,
+    );
+  }
+
+  const { chains, diagnostics } = metropolisHastings(
+    logPosterior,
+    bounds,
+    start,
+    options,
+  );
+  const draws = chains.flat();
+  const m = mean(draws);
+  return {
+    method: "metropolis_hastings",
+    ...base,
+    mean: m,
+    stdDev: stdDev(draws, m),
+    median: median(draws),
+    credibleInterval: equalTailedInterval(draws, mass),
+    hpdInterval: hpdInterval(draws, mass),
+    threshold:
+      options.threshold === undefined
+        ? undefined
+        : {
+            value: options.threshold,
+            prior: priorAbove(options.threshold),
+            posterior: probExceedsThreshold(draws, options.threshold),
+          },
+    diagnostics,
+  };
+}
+
+/**
+ * The mean of a prior restricted to an interval, by averaging its
+ * quantiles there at evenly spaced shares
+ */
+function restrictedMean(
+  prior: ContinuousDistribution,
+  bounds: { min: number; max: number },
+): number {
+  const low = cdf(prior, bounds.min);
+  const high = cdf(prior, bounds.max);
+  let sum = 0;
+  for (let i = 0; i < PRIOR_MEAN_POINTS; i++) {
+    sum += quantile(
+      prior,
+      low + ((i + 0.5) / PRIOR_MEAN_POINTS) * (high - low),
+    );
+  }
+  return sum / PRIOR_MEAN_POINTS;
+}
@@ -0,0 +1,311 @@
+/**
+ * Engine Types for Bayesian Networks
+ *
+ * These types back the Bayesian network engine in src/modes/bayesian/. A
+ * network is a DAG of discrete variables, each with a conditional
+ * probability table (CPT) given its parents; its structure is a
+ * `CausalGraph`, so the graph algorithms of src/modes/causal/graph/ apply
+ * to it. Inference computes the posterior marginals of the variables given
+ * observed states of others, exactly by variable elimination or a junction
+ * tree, or approximately by likelihood weighting. The value of information
+ * ranks unobserved variables by how much observing them is expected to tell
+ * about a target.
+ *
+ * They also back the parametric posteriors: a continuous prior over the one
+ * unknown parameter of a likelihood, updated by data in closed form when
+ * the prior is conjugate, and by Metropolis-Hastings sampling otherwise.
+ */
+
+import type { CausalGraph } from "../causal/graph/types.js";
+import type { CredibleInterval } from "../stochastic/analysis/statistics.js";
+import type { Distribution } from "../stochastic/types.js";
+
+// ============================================================================
+// NETWORKS
+// ============================================================================
+
+/**
+ * A discrete variable of a network, with its CPT
+ */
+export interface NetworkNode {
+  id: string;
+
+  /** The states the variable takes, at least two */
+  states: string[];
+
+  /** Parent variables, in the order the CPT rows enumerate them */
+  parents: string[];
+
+  /**
+   * P(node | parents): one row per assignment of the parents, the first
+   * parent varying slowest, each row a distribution over `states`. A node
+   * without parents has one row.
+   */
+  cpt: number[][];
+}
+
+/**
+ * A Bayesian network
+ */
+export interface BayesianNetwork {
+  /** The variables, parents before children */
+  nodes: NetworkNode[];
+
+  /** The network's structure, an edge from each parent to its child */
+  graph: CausalGraph;
+}
+
+/**
+ * Observed variables and the state each was observed in
+ */
+export type Observations = Record<string, string>;
+
+// ============================================================================
+// FACTORS
+// ============================================================================
+
+/**
+ * A function from assignments of some variables to nonnegative numbers
+ */
+export interface Factor {
+  variables: string[];
+
+  /** Number of states of each variable */
+  cardinalities: number[];
+
+  /** One value per assignment, the first variable varying slowest */
+  values: number[];
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+export type InferenceMethod =
+  "variable_elimination" | "junction_tree" | "likelihood_weighting";
+
+/**
+ * Settings for an inference
+ */
+export interface InferenceOptions {
+  /** Defaults to the junction tree */
+  method?: InferenceMethod;
+
+  /** Variables whose marginals are wanted; defaults to all of them */
+  query?: string[];
+
+  /** Samples likelihood weighting draws (default 10,000) */
+  samples?: number;
+
+  /** Seed for likelihood weighting; a fresh one when not given */
+  seed?: number;
+
+  /**
+   * Exact inference whose largest table would have more entries than this
+   * falls back to likelihood weighting (default 1,000,000)
+   */
+  maxTableSize?: number;
+}
+
+/**
+ * Posterior marginals given the observations
+ */
+export interface InferenceResult {
+  /** The method that computed the result */
+  method: InferenceMethod;
+
+  /** Set when exact inference was asked for but its tables were too large */
+  fellBack?: boolean;
+
+  /** P(variable = state | observations), for each queried variable */
+  marginals: Record<string, Record<string, number>>;
+
+  /** P(observations), estimated when sampled */
+  evidenceProbability: number;
+
+  /** Entries of the largest table exact inference builds */
+  largestTable?: number;
+
+  /** Likelihood weighting: the samples drawn and the seed they came from */
+  samples?: number;
+  seed?: number;
+
+  /** Likelihood weighting: (Σw)² / Σw², the samples the weights are worth */
+  effectiveSampleSize?: number;
+}
+
+/**
+ * A junction tree: cliques of the triangulated moral graph, joined so that
+ * the cliques holding any one variable form a subtree
+ */
+export interface JunctionTree {
+  cliques: string[][];
+
+  /** Edges of the tree, with the variables the two cliques share */
+  separators: { cliques: [number, number]; variables: string[] }[];
+}
+
+// ============================================================================
+// VALUE OF INFORMATION
+// ============================================================================
+
+/**
+ * What observing one more variable is expected to tell about a target
+ */
+export interface InformationValue {
+  variable: string;
+
+  /**
+   * Expected reduction in the entropy of the target, in bits: the mutual
+   * information of the two given the observations so far
+   */
+  informationGain: number;
+
+  /** Each state the variable may be observed in, and what it would do */
+  outcomes: {
+    state: string;
+    probability: number;
+    /** The target's posterior if the variable were observed in this state */
+    posterior: Record<string, number>;
+  }[];
+}
+
+// ============================================================================
+// PARAMETRIC POSTERIORS
+// ============================================================================
+
+/**
+ * The distributions a prior over a parameter may take
+ */
+export type ContinuousDistribution = Extract<
+  Distribution,
+  {
+    type:
+      | "normal"
+      | "uniform"
+      | "exponential"
+      | "beta"
+      | "gamma"
+      | "lognormal"
+      | "triangular";
+  }
+>;
+
+/**
+ * A likelihood with one unknown parameter, the one the prior is over
+ */
+export type ParametricLikelihood =
+  /** Successes in `trials` trials each; a Bernoulli has one trial */
+  | { family: "binomial"; parameter: "p"; trials: number }
+  /** Trials up to and including the first success */
+  | { family: "geometric"; parameter: "p" }
+  | { family: "poisson"; parameter: "lambda" }
+  | { family: "exponential"; parameter: "rate" }
+  /** Normal observations with a known standard deviation */
+  | { family: "normal"; parameter: "mean"; stdDev: number };
+
+/**
+ * A prior, a likelihood, and the observations that update one by the other
+ */
+export interface ParametricModel {
+  prior: ContinuousDistribution;
+  likelihood: ParametricLikelihood;
+  data: number[];
+}
+
+export type PosteriorMethod = "conjugate" | "metropolis_hastings";
+
+/**
+ * Settings for a posterior update
+ */
+export interface PosteriorOptions {
+  /**
+   * "metropolis_hastings" samples even when a conjugate update exists; by
+   * default a conjugate prior is updated in closed form
+   */
+  method?: PosteriorMethod;
+
+  /** Probability mass of the credible intervals (default 0.95) */
+  credibleMass?: number;
+
+  /** Also compute the prior and posterior probability the parameter exceeds this */
+  threshold?: number;
+
+  /** Draws each chain keeps (default 2,500) */
+  iterations?: number;
+
+  /** Draws each chain discards first, while its proposal is tuned (default 1,000) */
+  burnIn?: number;
+
+  /** Independent chains, for R-hat (default 4) */
+  chains?: number;
+
+  /** Seed for the chains; a fresh one when not given */
+  seed?: number;
+}
+
+/**
+ * How far to trust a Metropolis-Hastings sample
+ */
+export interface McmcDiagnostics {
+  seed: number;
+  chains: number;
+
+  /** Draws each chain kept, after its burn-in */
+  iterations: number;
+  burnIn: number;
+
+  /** Share of proposals accepted after the burn-in */
+  acceptanceRate: number;
+
+  /** Split-chain R-hat; near 1 when the chains agree */
+  rHat: number;
+
+  /** Effective sample size, summed over the chains */
+  effectiveSampleSize: number;
+
+  /** Monte Carlo standard error of the posterior mean */
+  mcse: number;
+
+  /** Largest Geweke z-score over the chains */
+  gewekeZ: number;
+
+  /** R-hat below 1.05 and an effective sample size of at least 400 */
+  converged: boolean;
+}
+
+/**
+ * The posterior of a likelihood's parameter
+ */
+export interface ParametricPosterior {
+  method: PosteriorMethod;
+  parameter: ParametricLikelihood["parameter"];
+
+  /** Number of observations */
+  observations: number;
+
+  /** Conjugate update: the closed-form posterior, and the pair, e.g. "beta-binomial" */
+  distribution?: ContinuousDistribution;
+  conjugacy?: string;
+
+  mean: number;
+  stdDev: number;
+  median: number;
+  credibleInterval: CredibleInterval;
+  hpdInterval: CredibleInterval;
+
+  /** The prior's mean, restricted to where the parameter can lie */
+  priorMean: number;
+
+  /**
+   * Prior mass outside where the parameter can lie, e.g. below 0 for a
+   * rate; the posterior is restricted to the rest
+   */
+  truncatedPriorMass?: number;
+
+  /** P(parameter > value) before and after the data */
+  threshold?: { value: number; prior: number; posterior: number };
+
+  /** Metropolis-Hastings only */
+  diagnostics?: McmcDiagnostics;
+}
@@ -0,0 +1,90 @@
+/**
+ * Value of Information
+ *
+ * Ranks unobserved variables by what observing them is expected to reveal
+ * about a target: the expected reduction in the target's entropy,
+ *
+ *   H(T | e) − Σ_c P(c | e) · H(T | e, c)
+ *
+ * which is the mutual information of the target and the candidate given
+ * the observations e. It is never negative, and is 0 for a candidate the
+ * observations make independent of the target. Each candidate costs one
+ * inference per state it may take.
+ */
+
+import { infer } from "./inference.js";
+import { NetworkError } from "./network.js";
+import type {
+  BayesianNetwork,
+  InferenceOptions,
+  InformationValue,
+  Observations,
+} from "./types.js";
+
+/** Entropy of a distribution, in bits */
+export function entropy(distribution: Record<string, number>): number {
+  let h = 0;
+  for (const p of Object.values(distribution)) if (p > 0) h -= p * Math.log2(p);
+  return h;
+}
+
+/**
+ * The value of observing each candidate, highest first
+ *
+ * @param candidates - Variables that might be observed; defaults to every
+ * unobserved variable but the target
+ * @throws NetworkError when the target or a candidate is not a node, or the
+ * target is already observed
+ * @throws ImpossibleEvidenceError when the observations have probability 0
+ */
+export function valueOfInformation(
+  network: BayesianNetwork,
+  target: string,
+  observations: Observations = {},
+  candidates?: string[],
+  options: Omit<InferenceOptions, "query"> = {},
+): InformationValue[] {
+  const ids = network.nodes.map((n) => n.id);
+  for (const id of [target, ...(candidates ?? [])]) {
+    if (!ids.includes(id)) {
+      throw new NetworkError(`'${id}' is not a node of the network`);
+    }
+  }
+  if (target in observations) {
+    throw new NetworkError(`The target '${target}' is already observed`);
+  }
+
+  const pool = (candidates ?? ids).filter(
+    (c) => c !== target && !(c in observations),
+  );
+  const prior = infer(network, observations, {
+    ...options,
+    query: [target, ...pool],
+  });
+  const before = entropy(prior.marginals[target]);
+
+  return pool
+    .map((variable) => {
+      const outcomes = Object.entries(prior.marginals[variable])
+        .filter(([, p]) => p > 0)
+        .map(([state, probability]) => ({
+          state,
+          probability,
+          posterior: infer(
+            network,
+            { ...observations, [variable]: state },
+            { ...options, query: [target] },
+          ).marginals[target],
+        }));
+      const after = outcomes.reduce(
+        (h, o) => h + o.probability * entropy(o.posterior),
+        0,
+      );
+      return {
+        variable,
+        informationGain: Math.max(0, before - after),
+        outcomes,
+      };
+    })
+    .sort((a, b) => b.informationGain - a.informationGain);
+}
@@ -0,0 +1,116 @@
+/**
+ * Variable Elimination
+ *
+ * Exact inference one query variable at a time. The network is first
+ * pruned to the variables the query depends on (`relevantNodes`), the CPTs
+ * of those are fixed at the observations, and every other variable is
+ * summed out in min-fill order. What is left is P(query, observations),
+ * whose total is P(observations).
+ */
+
+import {
+  ImpossibleEvidenceError,
+  cptFactor,
+  relevantNodes,
+  statesOf,
+} from "./network.js";
+import {
+  eliminationOrder,
+  multiplyAll,
+  reduce,
+  sumOut,
+  total,
+} from "./factor.js";
+import type { BayesianNetwork, Factor, Observations } from "./types.js";
+
+/**
+ * Sum variables out of a set of factors in order, multiplying only the
+ * factors that hold each one
+ */
+function eliminate(
+  factors: Factor[],
+  order: string[],
+): { factor: Factor; largestTable: number } {
+  let pool = factors;
+  let largestTable = 0;
+  for (const variable of order) {
+    const holding = pool.filter((f) => f.variables.includes(variable));
+    if (holding.length === 0) continue;
+    const product = multiplyAll(holding);
+    largestTable = Math.max(largestTable, product.values.length);
+    pool = [
+      ...pool.filter((f) => !f.variables.includes(variable)),
+      sumOut(product, variable),
+    ];
+  }
+  const factor = multiplyAll(pool);
+  return {
+    factor,
+    largestTable: Math.max(largestTable, factor.values.length),
+  };
+}
+
+/**
+ * The CPT factors of the variables relevant to the targets, fixed at the
+ * observations
+ */
+function reducedFactors(
+  network: BayesianNetwork,
+  targets: string[],
+  observations: Observations,
+): { factors: Factor[]; hidden: string[] } {
+  const relevant = relevantNodes(network, targets, observations);
+  const nodes = network.nodes.filter((n) => relevant.has(n.id));
+  const stateIndex = (v: string, s: string) => statesOf(network, v).indexOf(s);
+  return {
+    factors: nodes.map((n) =>
+      reduce(cptFactor(network, n), observations, stateIndex),
+    ),
+    hidden: nodes
+      .map((n) => n.id)
+      .filter((id) => !targets.includes(id) && !(id in observations)),
+  };
+}
+
+/**
+ * Posterior marginals of unobserved query variables by variable elimination
+ *
+ * @throws ImpossibleEvidenceError when the observations have probability 0
+ */
+export function variableElimination(
+  network: BayesianNetwork,
+  observations: Observations,
+  query: string[],
+): {
+  marginals: Record<string, Record<string, number>>;
+  evidenceProbability: number;
+  largestTable: number;
+} {
+  const cardinality = (v: string) => statesOf(network, v).length;
+  let largestTable = 0;
+
+  const run = (targets: string[]) => {
+    const { factors, hidden } = reducedFactors(network, targets, observations);
+    const { order } = eliminationOrder(
+      factors.map((f) => f.variables),
+      hidden,
+      cardinality,
+    );
+    const result = eliminate(factors, order);
+    largestTable = Math.max(largestTable, result.largestTable);
+    return result.factor;
+  };
+
+  const evidenceProbability = total(run([]));
+  if (!(evidenceProbability > 0)) throw new ImpossibleEvidenceError();
+
+  const marginals: Record<string, Record<string, number>> = {};
+  for (const variable of query) {
+    const joint = run([variable]);
+    const z = total(joint);
+    marginals[variable] = Object.fromEntries(
+      statesOf(network, variable).map((s, i) => [s, joint.values[i] / z]),
+    );
+  }
+  return { marginals, evidenceProbability, largestTable };
+}
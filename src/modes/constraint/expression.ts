@@ -0,0 +1,684 @@
+/**
+ * Constraint Expression Language
+ *
+ * Reads the `expression` of a `CSPConstraint` into a syntax tree the solver
+ * can evaluate against an assignment. The language is small on purpose: it
+ * covers what people write when they state a CSP by hand, and nothing that
+ * could run code.
+ *
+ * ```text
+ * X1 != X2                      comparison (also ==, =, <>, <, <=, >, >=, ≠, ≤, ≥)
+ * 1 <= Start < End              chained comparison, read as 1 <= Start and Start < End
+ * |Q1 - Q2| != 1                absolute value (also abs(...))
+ * A + B * 2 == C % 3            arithmetic: + - * / %
+ * Color in ['red', 'green']     membership in a list
+ * X > 0 and (Y < 3 or not Z)    logic: and/or/not, also && || !
+ * Big => Small                  implication (also `implies`)
+ * alldifferent(A, B, C)         also all_different, distinct; min, max, sum, abs
+ * `Task A` < `Task B`           backticks quote an id or name with spaces or dashes
+ * ```
+ *
+ * Identifiers name variables, by id or by name; strings are quoted with ' or ".
+ * Evaluation is strict about types: arithmetic and ordering need numbers (or
+ * two strings, for ordering), equality between a string and a number is
+ * false, and `and`/`or`/`not` need booleans.
+ */
+
+import type { CSPValue } from "./types.js";
+
+/** A value an expression can produce */
+export type ExpressionValue = CSPValue | boolean | ExpressionValue[];
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+export type ExpressionNode =
+  | { type: "literal"; value: CSPValue | boolean }
+  | { type: "identifier"; name: string }
+  | { type: "list"; items: ExpressionNode[] }
+  | { type: "unary"; operator: "-" | "not"; operand: ExpressionNode }
+  | {
+      type: "binary";
+      operator: "+" | "-" | "*" | "/" | "%" | "and" | "or" | "implies";
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "comparison";
+      /** `operators[i]` compares `operands[i]` with `operands[i + 1]` */
+      operators: ComparisonOperator[];
+      operands: ExpressionNode[];
+    }
+  | { type: "call"; name: string; args: ExpressionNode[] };
+
+/**
+ * An expression that cannot be read, or cannot be evaluated
+ */
+export class ConstraintExpressionError extends Error {
+  /** Offset in the source where reading failed, for syntax errors */
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at ${position}`);
+    this.name = "ConstraintExpressionError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "identifier"; value: string; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+/** Operators, longest first so `<=` is not read as `<` then `=` */
+const OPERATORS = [
+  "==",
+  "!=",
+  "<>",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "=>",
+  "≠",
+  "≤",
+  "≥",
+  "<",
+  ">",
+  "=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  "|",
+];
+
+/** Spellings folded onto one operator before parsing */
+const OPERATOR_ALIASES: Record<string, string> = {
+  "=": "==",
+  "<>": "!=",
+  "≠": "!=",
+  "≤": "<=",
+  "≥": ">=",
+  "&&": "and",
+  "||": "or",
+  "!": "not",
+  "=>": "implies",
+};
+
+const KEYWORD_OPERATORS = new Set(["and", "or", "not", "in", "implies"]);
+
+const COMPARISON_OPERATORS = new Set<string>([
+  "==",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "in",
+]);
+
+const FUNCTIONS = new Set([
+  "abs",
+  "min",
+  "max",
+  "sum",
+  "alldifferent",
+  "all_different",
+  "distinct",
+]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1]))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: "number", value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === "\\" && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ConstraintExpressionError("Unterminated string", i);
+      }
+      tokens.push({ kind: "string", value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = source.indexOf("`", i + 1);
+      if (end < 0) {
+        throw new ConstraintExpressionError("Unterminated `identifier`", i);
+      }
+      tokens.push({
+        kind: "identifier",
+        value: source.slice(i + 1, end),
+        position: i,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))![0];
+      const lower = word.toLowerCase();
+      if (KEYWORD_OPERATORS.has(lower)) {
+        tokens.push({ kind: "operator", value: lower, position: i });
+      } else {
+        tokens.push({ kind: "identifier", value: word, position: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ConstraintExpressionError(`Unexpected character '${ch}'`, i);
+    }
+    tokens.push({
+      kind: "operator",
+      value: OPERATOR_ALIASES[operator] ?? operator,
+      position: i,
+    });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence, loosest first: implies, or, and,
+ * not, comparison, + -, * / %, unary minus.
+ */
+class Parser {
+  private index = 0;
+  /** Depth of open `|...|`, so a closing bar is not read as an opening one */
+  private absDepth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.implication();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new ConstraintExpressionError(
+        `Unexpected ${describe(next)}`,
+        next.position,
+      );
+    }
+    return node;
+  }
+
+  private implication(): ExpressionNode {
+    const left = this.disjunction();
+    if (this.accept("implies")) {
+      // Right-associative: a => b => c is a => (b => c)
+      return {
+        type: "binary",
+        operator: "implies",
+        left,
+        right: this.implication(),
+      };
+    }
+    return left;
+  }
+
+  private disjunction(): ExpressionNode {
+    let node = this.conjunction();
+    while (this.accept("or")) {
+      node = {
+        type: "binary",
+        operator: "or",
+        left: node,
+        right: this.conjunction(),
+      };
+    }
+    return node;
+  }
+
+  private conjunction(): ExpressionNode {
+    let node = this.negation();
+    while (this.accept("and")) {
+      node = {
+        type: "binary",
+        operator: "and",
+        left: node,
+        right: this.negation(),
+      };
+    }
+    return node;
+  }
+
+  private negation(): ExpressionNode {
+    if (this.accept("not")) {
+      return { type: "unary", operator: "not", operand: this.negation() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): ExpressionNode {
+    const first = this.additive();
+    const operators: ComparisonOperator[] = [];
+    const operands = [first];
+    for (;;) {
+      const next = this.peek();
+      if (next.kind !== "operator" || !COMPARISON_OPERATORS.has(next.value)) {
+        break;
+      }
+      this.index++;
+      operators.push(next.value as ComparisonOperator);
+      operands.push(this.additive());
+    }
+    return operators.length === 0
+      ? first
+      : { type: "comparison", operators, operands };
+  }
+
+  private additive(): ExpressionNode {
+    let node = this.multiplicative();
+    for (;;) {
+      const operator = this.accept("+") ?? this.accept("-");
+      if (!operator) return node;
+      node = {
+        type: "binary",
+        operator,
+        left: node,
+        right: this.multiplicative(),
+      };
+    }
+  }
+
+  private multiplicative(): ExpressionNode {
+    let node = this.unary();
+    for (;;) {
+      const operator = this.accept("*") ?? this.accept("/") ?? this.accept("%");
+      if (!operator) return node;
+      node = { type: "binary", operator, left: node, right: this.unary() };
+    }
+  }
+
+  private unary(): ExpressionNode {
+    if (this.accept("-")) {
+      return { type: "unary", operator: "-", operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case "number":
+        return { type: "literal", value: token.value };
+      case "string":
+        return { type: "literal", value: token.value };
+      case "identifier": {
+        const lower = token.value.toLowerCase();
+        if (lower === "true" || lower === "false") {
+          return { type: "literal", value: lower === "true" };
+        }
+        if (this.peekOperator("(")) {
+          return this.call(token.value, token.position);
+        }
+        return { type: "identifier", name: token.value };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.implication();
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          return { type: "list", items: this.argumentsUntil("]") };
+        }
+        if (token.value === "|" && this.absDepth === 0) {
+          this.absDepth++;
+          const inner = this.additive();
+          this.absDepth--;
+          this.expect("|");
+          return { type: "call", name: "abs", args: [inner] };
+        }
+        break;
+      case "end":
+        throw new ConstraintExpressionError(
+          "Unexpected end of expression",
+          token.position,
+        );
+    }
+    throw new ConstraintExpressionError(
+      `Unexpected ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  private call(name: string, position: number): ExpressionNode {
+    const lower = name.toLowerCase();
+    if (!FUNCTIONS.has(lower)) {
+      throw new ConstraintExpressionError(
+        `Unknown function '${name}' (known: ${[...FUNCTIONS].join(", ")})`,
+        position,
+      );
+    }
+    this.expect("(");
+    // A nested call or parenthesis resets the |...| context
+    const absDepth = this.absDepth;
+    this.absDepth = 0;
+    const args = this.argumentsUntil(")");
+    this.absDepth = absDepth;
+    return { type: "call", name: lower, args };
+  }
+
+  private argumentsUntil(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.accept(close)) return items;
+    do {
+      items.push(this.implication());
+    } while (this.accept(","));
+    this.expect(close);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "operator" && token.value === value;
+  }
+
+  private accept<T extends string>(value: T): T | undefined {
+    if (this.peekOperator(value)) {
+      this.index++;
+      return value;
+    }
+    return undefined;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      const token = this.peek();
+      throw new ConstraintExpressionError(
+        `Expected '${value}' but found ${describe(token)}`,
+        token.position,
+      );
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of expression";
+    case "string":
+      return `string '${token.value}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a constraint expression
+ *
+ * @throws ConstraintExpressionError on a syntax error or unknown function
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Every identifier an expression refers to, in order of first use
+ */
+export function expressionIdentifiers(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode): void => {
+    switch (n.type) {
+      case "identifier":
+        names.add(n.name);
+        break;
+      case "list":
+        n.items.forEach(visit);
+        break;
+      case "unary":
+        visit(n.operand);
+        break;
+      case "binary":
+        visit(n.left);
+        visit(n.right);
+        break;
+      case "comparison":
+        n.operands.forEach(visit);
+        break;
+      case "call":
+        n.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return [...names];
+}
+
+/**
+ * Whether an expression states a condition (evaluates to a boolean), rather
+ * than a quantity like `A + B`
+ */
+export function isCondition(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case "literal":
+      return typeof node.value === "boolean";
+    case "comparison":
+      return true;
+    case "unary":
+      return node.operator === "not";
+    case "binary":
+      return ["and", "or", "implies"].includes(node.operator);
+    case "call":
+      return ["alldifferent", "all_different", "distinct"].includes(node.name);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate an expression
+ *
+ * @param lookup - The value of an identifier; throws if it has none
+ * @throws ConstraintExpressionError on a type error or division by zero
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  lookup: (name: string) => CSPValue,
+): ExpressionValue {
+  const evaluate = (n: ExpressionNode): ExpressionValue =>
+    evaluateExpression(n, lookup);
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      return lookup(node.name);
+    case "list":
+      return node.items.map(evaluate);
+    case "unary":
+      return node.operator === "-"
+        ? -asNumber(evaluate(node.operand), "-")
+        : !asBoolean(evaluate(node.operand), "not");
+    case "binary":
+      return evaluateBinary(node.operator, node.left, node.right, evaluate);
+    case "comparison": {
+      let left = evaluate(node.operands[0]);
+      for (let i = 0; i < node.operators.length; i++) {
+        const right = evaluate(node.operands[i + 1]);
+        if (!compare(node.operators[i], left, right)) return false;
+        left = right;
+      }
+      return true;
+    }
+    case "call":
+      return evaluateCall(node.name, node.args.map(evaluate));
+  }
+}
+
+function evaluateBinary(
+  operator: Extract<ExpressionNode, { type: "binary" }>["operator"],
+  left: ExpressionNode,
+  right: ExpressionNode,
+  evaluate: (n: ExpressionNode) => ExpressionValue,
+): ExpressionValue {
+  switch (operator) {
+    case "and":
+      return (
+        asBoolean(evaluate(left), "and") && asBoolean(evaluate(right), "and")
+      );
+    case "or":
+      return (
+        asBoolean(evaluate(left), "or") || asBoolean(evaluate(right), "or")
+      );
+    case "implies":
+      return (
+        !asBoolean(evaluate(left), "implies") ||
+        asBoolean(evaluate(right), "implies")
+      );
+  }
+
+  const a = asNumber(evaluate(left), operator);
+  const b = asNumber(evaluate(right), operator);
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+    case "%":
+      if (b === 0) throw new ConstraintExpressionError("Division by zero");
+      return operator === "/" ? a / b : a % b;
+  }
+}
+
+function compare(
+  operator: ComparisonOperator,
+  left: ExpressionValue,
+  right: ExpressionValue,
+): boolean {
+  switch (operator) {
+    case "==":
+      return equals(left, right);
+    case "!=":
+      return !equals(left, right);
+    case "in":
+      if (!Array.isArray(right)) {
+        throw new ConstraintExpressionError("'in' needs a list on its right");
+      }
+      return right.some((item) => equals(left, item));
+  }
+
+  if (
+    !(typeof left === "number" && typeof right === "number") &&
+    !(typeof left === "string" && typeof right === "string")
+  ) {
+    throw new ConstraintExpressionError(
+      `'${operator}' needs two numbers or two strings`,
+    );
+  }
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+  }
+}
+
+function equals(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return (
+      Array.isArray(left) &&
+      Array.isArray(right) &&
+      left.length === right.length &&
+      left.every((item, i) => equals(item, right[i]))
+    );
+  }
+  return left === right;
+}
+
+function evaluateCall(name: string, args: ExpressionValue[]): ExpressionValue {
+  // A list argument stands for its items: sum([A, B]) is sum(A, B)
+  const flat = flatten(args);
+
+  switch (name) {
+    case "abs":
+      if (args.length !== 1) {
+        throw new ConstraintExpressionError("abs takes one argument");
+      }
+      return Math.abs(asNumber(args[0], "abs"));
+    case "min":
+    case "max": {
+      const numbers = flat.map((v) => asNumber(v, name));
+      if (numbers.length === 0) {
+        throw new ConstraintExpressionError(`${name} needs an argument`);
+      }
+      return name === "min" ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case "sum":
+      return flat.reduce<number>((total, v) => total + asNumber(v, "sum"), 0);
+    default:
+      // alldifferent, all_different, distinct
+      return new Set(flat).size === flat.length;
+  }
+}
+
+function flatten(values: ExpressionValue[]): Array<CSPValue | boolean> {
+  return values.flatMap((value) =>
+    Array.isArray(value) ? flatten(value) : [value],
+  );
+}
+
+function asNumber(value: ExpressionValue, operator: string): number {
+  if (typeof value !== "number") {
+    throw new ConstraintExpressionError(
+      `'${operator}' needs a number, got ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
+
+function asBoolean(value: ExpressionValue, operator: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ConstraintExpressionError(
+      `'${operator}' needs a condition, got ${JSON.stringify(value)}`,
+    );
+  }
+  return value;
+}
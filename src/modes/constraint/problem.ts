@@ -0,0 +1,183 @@
+/**
+ * CSP Compilation
+ *
+ * Turns the CSPVariable / CSPConstraint lists of a constraint thought into a
+ * CompiledProblem: identifiers resolved to variable ids, expressions parsed
+ * once, and an index from each variable to the constraints that read it.
+ */
+
+import type {
+  CSPConstraint,
+  CSPVariable,
+} from "../../types/modes/constraint.js";
+import {
+  ConstraintExpressionError,
+  evaluateExpression,
+  expressionIdentifiers,
+  isCondition,
+  parseExpression,
+} from "./expression.js";
+import type {
+  CompiledConstraint,
+  CompiledProblem,
+  ConstraintCompileError,
+  CSPValue,
+  Domains,
+} from "./types.js";
+
+/**
+ * Compile a CSP
+ *
+ * Identifiers in an expression match a variable id first, then a variable
+ * name. A constraint with no expression is read from its type where that is
+ * enough: an `alldifferent` constraint means its variables all differ.
+ * Constraints that cannot be read are listed in `errors` and left out; they
+ * never make the whole problem fail to compile.
+ */
+export function compileProblem(
+  variables: CSPVariable[],
+  constraints: CSPConstraint[],
+): CompiledProblem {
+  const domains: Domains = new Map();
+  const byName = new Map<string, string>();
+  for (const variable of variables) {
+    if (domains.has(variable.id)) continue;
+    domains.set(variable.id, [...new Set(variable.domain ?? [])]);
+    if (variable.name && !byName.has(variable.name)) {
+      byName.set(variable.name, variable.id);
+    }
+  }
+  const resolve = (name: string): string | undefined =>
+    domains.has(name) ? name : byName.get(name);
+
+  const compiled: CompiledConstraint[] = [];
+  const errors: ConstraintCompileError[] = [];
+  for (const constraint of constraints) {
+    try {
+      compiled.push(compileConstraint(constraint, resolve));
+    } catch (error) {
+      errors.push({
+        constraintId: constraint.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const constraintsByVariable = new Map<string, CompiledConstraint[]>(
+    [...domains.keys()].map((id) => [id, []]),
+  );
+  for (const constraint of compiled) {
+    if (!constraint.required) continue;
+    for (const id of constraint.scope) {
+      constraintsByVariable.get(id)!.push(constraint);
+    }
+  }
+
+  return {
+    variables: [...domains.keys()],
+    domains,
+    constraints: compiled,
+    constraintsByVariable,
+    errors,
+  };
+}
+
+function compileConstraint(
+  constraint: CSPConstraint,
+  resolve: (name: string) => string | undefined,
+): CompiledConstraint {
+  const required = (constraint.priority ?? "required") === "required";
+  const source = constraint.expression?.trim() ?? "";
+
+  if (!source) {
+    if (constraint.type !== "alldifferent") {
+      throw new ConstraintExpressionError("Constraint has no expression");
+    }
+    const scope = resolveAll(constraint.variables ?? [], resolve);
+    return {
+      id: constraint.id,
+      scope,
+      required,
+      isSatisfied: (values) =>
+        new Set(scope.map((id) => values.get(id))).size === scope.length,
+    };
+  }
+
+  const ast = parseExpression(source);
+  if (!isCondition(ast)) {
+    throw new ConstraintExpressionError(
+      "Expression is a quantity, not a condition (compare it with something)",
+    );
+  }
+
+  const names = expressionIdentifiers(ast);
+  const scope = resolveAll(names, resolve);
+  const ids = new Map(names.map((name) => [name, resolve(name)!]));
+
+  return {
+    id: constraint.id,
+    scope,
+    required,
+    isSatisfied: (values) => {
+      try {
+        return (
+          evaluateExpression(ast, (name) => {
+            const value = values.get(ids.get(name)!);
+            if (value === undefined) {
+              throw new ConstraintExpressionError(`${name} is unassigned`);
+            }
+            return value;
+          }) === true
+        );
+      } catch (error) {
+        if (error instanceof ConstraintExpressionError) return false;
+        throw error;
+      }
+    },
+  };
+}
+
+function resolveAll(
+  names: string[],
+  resolve: (name: string) => string | undefined,
+): string[] {
+  const unknown = names.filter((name) => resolve(name) === undefined);
+  if (unknown.length > 0) {
+    throw new ConstraintExpressionError(
+      `Unknown variable${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")} (quote string values, e.g. 'red')`,
+    );
+  }
+  return [...new Set(names.map((name) => resolve(name)!))];
+}
+
+/**
+ * Check an assignment against every constraint whose variables it covers
+ *
+ * @returns Whether every variable is assigned, whether no required
+ *   constraint is violated, and the ids of all violated constraints
+ */
+export function checkAssignment(
+  problem: CompiledProblem,
+  values: Record<string, unknown>,
+): {
+  isComplete: boolean;
+  isConsistent: boolean;
+  violatedConstraints: string[];
+} {
+  const assigned = new Map<string, CSPValue>();
+  for (const id of problem.variables) {
+    const value = values[id];
+    if (typeof value === "string" || typeof value === "number") {
+      assigned.set(id, value);
+    }
+  }
+
+  const violated = problem.constraints.filter(
+    (c) => c.scope.every((id) => assigned.has(id)) && !c.isSatisfied(assigned),
+  );
+  return {
+    isComplete: assigned.size === problem.variables.length,
+    isConsistent: violated.every((c) => !c.required),
+    violatedConstraints: violated.map((c) => c.id),
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Constraint Propagation
+ *
+ * Domain pruning for the CSP solver: generalized arc consistency (AC-3 run
+ * over constraints of any arity, so binary constraints get plain AC-3) and
+ * forward checking.
+ *
+ * A value of a variable is supported by a constraint if some combination of
+ * values from the other variables' domains satisfies it. Finding support
+ * enumerates those combinations, so constraints whose other variables have
+ * more than SUPPORT_SEARCH_LIMIT combinations are not used for pruning.
+ * That keeps propagation sound (it never removes a value that could be
+ * part of a solution) at the cost of pruning less; the search still checks
+ * those constraints once their variables are assigned.
+ */
+
+import type {
+  CompiledConstraint,
+  CompiledProblem,
+  CSPValue,
+  Domains,
+} from "./types.js";
+
+/** Most value combinations tried when looking for support */
+export const SUPPORT_SEARCH_LIMIT = 10_000;
+
+/**
+ * Values of `variable` with no support in `constraint`
+ *
+ * @returns The unsupported values, or null if the search for support would
+ *   be too large to run
+ */
+export function unsupportedValues(
+  constraint: CompiledConstraint,
+  variable: string,
+  domains: Domains,
+): CSPValue[] | null {
+  const others = constraint.scope.filter((id) => id !== variable);
+  let combinations = 1;
+  for (const id of others) {
+    combinations *= domains.get(id)!.length;
+    if (combinations > SUPPORT_SEARCH_LIMIT) return null;
+  }
+
+  const values = new Map<string, CSPValue>();
+  const supported = (index: number): boolean => {
+    if (index === others.length) return constraint.isSatisfied(values);
+    const id = others[index];
+    for (const value of domains.get(id)!) {
+      values.set(id, value);
+      if (supported(index + 1)) return true;
+    }
+    values.delete(id);
+    return false;
+  };
+
+  return domains.get(variable)!.filter((value) => {
+    values.clear();
+    values.set(variable, value);
+    return !supported(0);
+  });
+}
+
+/**
+ * Remove the values of `variable` that `constraint` does not support
+ *
+ * @returns Whether the domain changed
+ */
+export function revise(
+  constraint: CompiledConstraint,
+  variable: string,
+  domains: Domains,
+): boolean {
+  const unsupported = unsupportedValues(constraint, variable, domains);
+  if (!unsupported || unsupported.length === 0) return false;
+  const removed = new Set(unsupported);
+  domains.set(
+    variable,
+    domains.get(variable)!.filter((value) => !removed.has(value)),
+  );
+  return true;
+}
+
+/**
+ * Make domains arc consistent with AC-3, in place
+ *
+ * @param changed - Variables whose domains just changed; only arcs that
+ *   depend on them are queued first. Omit to check every arc.
+ * @returns False if some domain was wiped out, so the problem (or the
+ *   current branch of the search) has no solution
+ */
+export function ac3(
+  problem: CompiledProblem,
+  domains: Domains,
+  changed?: string[],
+): boolean {
+  const queue: Array<[CompiledConstraint, string]> = [];
+  // Constraint ids need not be unique, so arcs are keyed by object
+  const queued = new Map<CompiledConstraint, Set<string>>();
+  const enqueue = (constraint: CompiledConstraint, variable: string): void => {
+    const variables = queued.get(constraint) ?? new Set<string>();
+    if (variables.has(variable)) return;
+    variables.add(variable);
+    queued.set(constraint, variables);
+    queue.push([constraint, variable]);
+  };
+  const enqueueNeighbours = (variable: string): void => {
+    for (const constraint of problem.constraintsByVariable.get(variable)!) {
+      for (const other of constraint.scope) {
+        if (other !== variable) enqueue(constraint, other);
+      }
+    }
+  };
+
+  if (changed) {
+    changed.forEach(enqueueNeighbours);
+  } else {
+    for (const constraint of problem.constraints) {
+      if (!constraint.required) continue;
+      constraint.scope.forEach((variable) => enqueue(constraint, variable));
+    }
+  }
+
+  while (queue.length > 0) {
+    const [constraint, variable] = queue.shift()!;
+    queued.get(constraint)!.delete(variable);
+    if (revise(constraint, variable, domains)) {
+      if (domains.get(variable)!.length === 0) return false;
+      enqueueNeighbours(variable);
+    }
+  }
+  return true;
+}
+
+/**
+ * Forward checking after assigning `variable`, in place
+ *
+ * Prunes the last unassigned variable of every constraint on `variable`
+ * that now has only one left. Assigned variables must already have
+ * single-value domains.
+ *
+ * @returns False if some domain was wiped out
+ */
+export function forwardCheck(
+  problem: CompiledProblem,
+  domains: Domains,
+  assigned: ReadonlyMap<string, CSPValue>,
+  variable: string,
+): boolean {
+  for (const constraint of problem.constraintsByVariable.get(variable)!) {
+    const open = constraint.scope.filter((id) => !assigned.has(id));
+    if (open.length !== 1) continue;
+    if (
+      revise(constraint, open[0], domains) &&
+      domains.get(open[0])!.length === 0
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
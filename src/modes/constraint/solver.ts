@@ -0,0 +1,264 @@
+/**
+ * CSP Solver
+ *
+ * Backtracking search over a CompiledProblem:
+ * - Variable ordering: minimum remaining values (MRV), ties broken by degree
+ *   (most constraints with other unassigned variables), then declaration order
+ * - Value ordering: least constraining value (LCV), ties in domain order
+ * - Propagation after each assignment: maintained arc consistency (MAC),
+ *   forward checking, or none
+ *
+ * Only required constraints prune or fail the search. Soft and preference
+ * constraints are left to the caller to report against the solutions.
+ */
+
+import type { AssignmentHistoryEntry } from "../../types/modes/constraint.js";
+import { ac3, forwardCheck, revise, unsupportedValues } from "./propagation.js";
+import type {
+  CompiledConstraint,
+  CompiledProblem,
+  CSPValue,
+  Domains,
+  SolveResult,
+  SolverOptions,
+} from "./types.js";
+
+const DEFAULT_MAX_SOLUTIONS = 10;
+const DEFAULT_MAX_NODES = 20_000;
+const DEFAULT_HISTORY_LIMIT = 500;
+
+type Propagation = "none" | "forward_checking" | "mac";
+
+/**
+ * Solve a compiled CSP
+ *
+ * Before the search, "none" checks nothing, forward checking enforces the
+ * unary constraints, and MAC makes the whole problem arc consistent. A
+ * required constraint over no variables (`1 == 2`) decides feasibility on
+ * its own.
+ */
+export function solveCSP(
+  problem: CompiledProblem,
+  options: SolverOptions = {},
+): SolveResult {
+  const propagation = toPropagation(options.propagation);
+  const maxSolutions = options.maxSolutions ?? DEFAULT_MAX_SOLUTIONS;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+
+  const solutions: Array<Record<string, CSPValue>> = [];
+  const history: AssignmentHistoryEntry[] = [];
+  let nodes = 0;
+  let backtracks = 0;
+  let outOfBudget = false;
+
+  const initialDomains: Domains = new Map(problem.domains);
+  const infeasible = (): SolveResult => ({
+    status: "infeasible",
+    solutions,
+    exhaustive: true,
+    nodes,
+    backtracks,
+    history,
+    initialDomains,
+  });
+
+  const constantViolated = problem.constraints.some(
+    (c) => c.required && c.scope.length === 0 && !c.isSatisfied(new Map()),
+  );
+  if (
+    constantViolated ||
+    [...initialDomains.values()].some((d) => d.length === 0)
+  ) {
+    return infeasible();
+  }
+  if (propagation === "mac" && !ac3(problem, initialDomains)) {
+    return infeasible();
+  }
+  if (propagation === "forward_checking") {
+    for (const constraint of problem.constraints) {
+      if (!constraint.required || constraint.scope.length !== 1) continue;
+      revise(constraint, constraint.scope[0], initialDomains);
+      if (initialDomains.get(constraint.scope[0])!.length === 0) {
+        return infeasible();
+      }
+    }
+  }
+
+  const assigned = new Map<string, CSPValue>();
+
+  /** @returns Whether the search should stop */
+  const search = (domains: Domains): boolean => {
+    if (assigned.size === problem.variables.length) {
+      solutions.push(
+        Object.fromEntries(
+          problem.variables.map((id) => [id, assigned.get(id)!]),
+        ),
+      );
+      return solutions.length >= maxSolutions;
+    }
+
+    const variable = selectVariable(problem, domains, assigned);
+    for (const value of orderValues(problem, domains, assigned, variable)) {
+      if (nodes >= maxNodes) {
+        outOfBudget = true;
+        return true;
+      }
+      nodes++;
+      const entry: AssignmentHistoryEntry = {
+        variableId: variable,
+        value,
+        step: nodes,
+        backtracked: false,
+      };
+      if (history.length < historyLimit) history.push(entry);
+
+      assigned.set(variable, value);
+      const found = solutions.length;
+      let stop = false;
+      if (isConsistent(problem, assigned, variable)) {
+        const next: Domains = new Map(domains);
+        next.set(variable, [value]);
+        if (propagate(propagation, problem, next, assigned, variable)) {
+          stop = search(next);
+        }
+      }
+      assigned.delete(variable);
+
+      if (solutions.length === found && !stop) {
+        entry.backtracked = true;
+        backtracks++;
+      }
+      if (stop) return true;
+    }
+    return false;
+  };
+
+  search(initialDomains);
+
+  return {
+    status:
+      solutions.length > 0 ? "found" : outOfBudget ? "timeout" : "infeasible",
+    solutions,
+    exhaustive: !outOfBudget && solutions.length < maxSolutions,
+    nodes,
+    backtracks,
+    history,
+    initialDomains,
+  };
+}
+
+function toPropagation(method: SolverOptions["propagation"]): Propagation {
+  switch (method) {
+    case "none":
+    case "forward_checking":
+      return method;
+    default:
+      return "mac";
+  }
+}
+
+function propagate(
+  propagation: Propagation,
+  problem: CompiledProblem,
+  domains: Domains,
+  assigned: ReadonlyMap<string, CSPValue>,
+  variable: string,
+): boolean {
+  switch (propagation) {
+    case "none":
+      return true;
+    case "forward_checking":
+      return forwardCheck(problem, domains, assigned, variable);
+    case "mac":
+      return ac3(problem, domains, [variable]);
+  }
+}
+
+/**
+ * Whether the required constraints `variable` completes still hold
+ */
+function isConsistent(
+  problem: CompiledProblem,
+  assigned: ReadonlyMap<string, CSPValue>,
+  variable: string,
+): boolean {
+  return problem.constraintsByVariable
+    .get(variable)!
+    .every(
+      (c) =>
+        !c.scope.every((id) => assigned.has(id)) || c.isSatisfied(assigned),
+    );
+}
+
+/**
+ * MRV, then degree, then declaration order
+ */
+function selectVariable(
+  problem: CompiledProblem,
+  domains: Domains,
+  assigned: ReadonlyMap<string, CSPValue>,
+): string {
+  let best: string | undefined;
+  let bestSize = Infinity;
+  let bestDegree = -1;
+  for (const id of problem.variables) {
+    if (assigned.has(id)) continue;
+    const size = domains.get(id)!.length;
+    if (size > bestSize) continue;
+    const degree = problem.constraintsByVariable
+      .get(id)!
+      .filter((c) =>
+        c.scope.some((other) => other !== id && !assigned.has(other)),
+      ).length;
+    if (size < bestSize || degree > bestDegree) {
+      best = id;
+      bestSize = size;
+      bestDegree = degree;
+    }
+  }
+  return best!;
+}
+
+/**
+ * LCV: values that rule out the fewest values of neighbouring variables
+ * first. Only constraints left with one other unassigned variable are
+ * counted, as those are the ones a value decides.
+ */
+function orderValues(
+  problem: CompiledProblem,
+  domains: Domains,
+  assigned: ReadonlyMap<string, CSPValue>,
+  variable: string,
+): CSPValue[] {
+  const values = domains.get(variable)!;
+  if (values.length < 2) return values;
+
+  const decided: CompiledConstraint[] = problem.constraintsByVariable
+    .get(variable)!
+    .filter(
+      (c) =>
+        c.scope.filter((id) => id !== variable && !assigned.has(id)).length ===
+        1,
+    );
+  if (decided.length === 0) return values;
+
+  const ruledOut = (value: CSPValue): number => {
+    const trial: Domains = new Map(domains);
+    trial.set(variable, [value]);
+    for (const [id, v] of assigned) trial.set(id, [v]);
+    let count = 0;
+    for (const constraint of decided) {
+      const neighbour = constraint.scope.find(
+        (id) => id !== variable && !assigned.has(id),
+      )!;
+      count += unsupportedValues(constraint, neighbour, trial)?.length ?? 0;
+    }
+    return count;
+  };
+
+  return values
+    .map((value, index) => ({ value, index, cost: ruledOut(value) }))
+    .sort((a, b) => a.cost - b.cost || a.index - b.index)
+    .map((entry) => entry.value);
+}
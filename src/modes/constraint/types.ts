@@ -0,0 +1,123 @@
+/**
+ * CSP Solver Types for Constraint Reasoning
+ *
+ * These types back the solver in src/modes/constraint/. They work over the
+ * CSPVariable / CSPConstraint types in src/types/modes/constraint.ts: a
+ * problem is compiled from those once, then propagated and searched.
+ */
+
+import type {
+  AssignmentHistoryEntry,
+  ConstraintCompileError,
+  PropagationMethod,
+} from "../../types/modes/constraint.js";
+
+export type { ConstraintCompileError };
+
+// ============================================================================
+// PROBLEM
+// ============================================================================
+
+/**
+ * A value in a variable's domain
+ */
+export type CSPValue = string | number;
+
+/**
+ * Variable domains by variable id. Propagation replaces a domain rather than
+ * editing it, so copies of this map can share arrays.
+ */
+export type Domains = Map<string, CSPValue[]>;
+
+/**
+ * A constraint ready to be checked
+ */
+export interface CompiledConstraint {
+  /** Id of the CSPConstraint this came from */
+  id: string;
+
+  /** Variable ids the constraint reads, in order of first use */
+  scope: string[];
+
+  /** Whether the solver must satisfy it; soft and preference constraints are only reported */
+  required: boolean;
+
+  /**
+   * Check the constraint under an assignment that covers its scope. An
+   * expression that fails to evaluate (a type error, division by zero)
+   * counts as not satisfied.
+   */
+  isSatisfied(values: ReadonlyMap<string, CSPValue>): boolean;
+}
+
+/**
+ * A CSP compiled from CSPVariable / CSPConstraint lists
+ */
+export interface CompiledProblem {
+  /** Variable ids, in declaration order */
+  variables: string[];
+
+  /** Declared domains, by variable id */
+  domains: Domains;
+
+  /** Constraints that compiled */
+  constraints: CompiledConstraint[];
+
+  /** Required constraints by the variables they read */
+  constraintsByVariable: Map<string, CompiledConstraint[]>;
+
+  /** Constraints that did not compile; the solver ignores them */
+  errors: ConstraintCompileError[];
+}
+
+// ============================================================================
+// SOLVING
+// ============================================================================
+
+/**
+ * Options for solveCSP
+ */
+export interface SolverOptions {
+  /**
+   * Propagation after each assignment. "arc_consistency" and
+   * "generalized_arc_consistency" maintain arc consistency (MAC);
+   * "path_consistency" is not implemented and falls back to MAC.
+   * Default "arc_consistency".
+   */
+  propagation?: PropagationMethod;
+
+  /** Stop after this many solutions. Default 10 */
+  maxSolutions?: number;
+
+  /** Stop after this many assignments tried; the result is then "timeout". Default 20000 */
+  maxNodes?: number;
+
+  /** Keep at most this many assignment history entries. Default 500 */
+  historyLimit?: number;
+}
+
+/**
+ * What solveCSP found
+ */
+export interface SolveResult {
+  /** "found" if any solution; "infeasible" if none exist; "timeout" if the node budget ran out first */
+  status: "found" | "infeasible" | "timeout";
+
+  /** Solutions, as values by variable id in declaration order */
+  solutions: Array<Record<string, CSPValue>>;
+
+  /** Whether the whole search space was explored, so the solution count is exact */
+  exhaustive: boolean;
+
+  /** Assignments tried */
+  nodes: number;
+
+  /** Assignments retracted because nothing below them worked */
+  backtracks: number;
+
+  /** Assignments in the order they were tried, up to historyLimit */
+  history: AssignmentHistoryEntry[];
+
+  /** Domains after the initial propagation, before any assignment */
+  initialDomains: Domains;
+}
@@ -0,0 +1,271 @@
+/**
+ * Dempster-Shafer Belief Functions
+ *
+ * Reads mass assignments into a `MassFunction` over a frame of discernment
+ * Θ, computes belief, plausibility and pignistic probability from it, and
+ * combines several mass functions into one.
+ *
+ * - Bel(A) = Σ m(B) over nonempty B ⊆ A
+ * - Pl(A) = Σ m(B) over B with B ∩ A ≠ ∅
+ * - BetP(A) = Σ m(B)·|A ∩ B|/|B| over nonempty B, divided by 1 − m(∅)
+ *
+ * Combination starts from the conjunctive rule, which puts the product of
+ * m1(B) and m2(C) on B ∩ C. The mass it leaves on ∅ is the conflict K, and
+ * the rules differ in where it goes (see `CombinationRule`). Dempster's and
+ * Yager's rules are associative, so any number of functions are combined at
+ * once. PCR5 is not; it combines the functions pairwise in the order given,
+ * which is the usual practice.
+ *
+ * Subsets of Θ are bit masks over the frame's positions, so intersection and
+ * inclusion are single operations whatever the size of the frame.
+ */
+
+import type { CombinationRule } from "../../types/modes/evidential.js";
+import type {
+  BeliefInterval,
+  Combination,
+  FocalElement,
+  MassFunction,
+} from "./types.js";
+
+/** Less mass than this off ∅ means total conflict */
+const EPSILON = 1e-12;
+
+/**
+ * Raised when Dempster's rule is asked to combine functions that conflict
+ * totally (K = 1), or a function puts all its mass on ∅: there is nothing
+ * left to normalise
+ */
+export class TotalConflictError extends Error {
+  /** The conflict mass K */
+  readonly conflict: number;
+
+  constructor(conflict: number) {
+    super(`Total conflict (K = ${conflict.toFixed(3)}): nothing to normalise`);
+    this.name = "TotalConflictError";
+    this.conflict = conflict;
+  }
+}
+
+/** Masses by subset of the frame, as bit masks over its positions */
+type Masses = Map<bigint, number>;
+
+function maskOf(frame: string[], set: string[]): bigint {
+  let mask = 0n;
+  for (const hypothesis of set) {
+    const index = frame.indexOf(hypothesis);
+    if (index < 0) {
+      throw new Error(`'${hypothesis}' is not in the frame of discernment`);
+    }
+    mask |= 1n << BigInt(index);
+  }
+  return mask;
+}
+
+function setOf(frame: string[], mask: bigint): string[] {
+  return frame.filter((_, index) => (mask >> BigInt(index)) & 1n);
+}
+
+function size(mask: bigint): number {
+  let count = 0;
+  for (let m = mask; m > 0n; m &= m - 1n) count++;
+  return count;
+}
+
+function fullMask(frame: string[]): bigint {
+  return (1n << BigInt(frame.length)) - 1n;
+}
+
+function massesOf(m: MassFunction): Masses {
+  const masses: Masses = new Map();
+  for (const { set, mass } of m.focal) add(masses, maskOf(m.frame, set), mass);
+  return masses;
+}
+
+function add(masses: Masses, mask: bigint, mass: number): void {
+  masses.set(mask, (masses.get(mask) ?? 0) + mass);
+}
+
+/**
+ * Mass off ∅, summed directly rather than taken from 1 − m(∅) so that a
+ * conflict near 1 does not lose its precision
+ */
+function freeMass(masses: Masses): number {
+  let total = 0;
+  for (const [mask, mass] of masses) if (mask !== 0n) total += mass;
+  return total;
+}
+
+function toMassFunction(frame: string[], masses: Masses): MassFunction {
+  const focal: FocalElement[] = [];
+  for (const [mask, mass] of masses) {
+    if (mass > 0) focal.push({ set: setOf(frame, mask), mass });
+  }
+  return { frame, focal };
+}
+
+/**
+ * Read mass assignments into a mass function over a frame. Assignments to
+ * the same subset are added together, and zero masses dropped.
+ *
+ * @throws Error when an assignment names a hypothesis outside the frame
+ */
+export function readMassFunction(
+  frame: string[],
+  assignments: { hypothesisSet: string[]; mass: number }[],
+): MassFunction {
+  const masses: Masses = new Map();
+  for (const { hypothesisSet, mass } of assignments) {
+    add(masses, maskOf(frame, hypothesisSet), mass);
+  }
+  return toMassFunction(frame, masses);
+}
+
+/**
+ * Bel(A): the mass committed to A or to its nonempty subsets
+ */
+export function belief(m: MassFunction, set: string[]): number {
+  const a = maskOf(m.frame, set);
+  let total = 0;
+  for (const [b, mass] of massesOf(m)) {
+    if (b !== 0n && (b & a) === b) total += mass;
+  }
+  return total;
+}
+
+/**
+ * Pl(A): the mass not committed against A
+ */
+export function plausibility(m: MassFunction, set: string[]): number {
+  const a = maskOf(m.frame, set);
+  let total = 0;
+  for (const [b, mass] of massesOf(m)) {
+    if ((b & a) !== 0n) total += mass;
+  }
+  return total;
+}
+
+/**
+ * BetP(A): the probability of A when the mass of each focal element is
+ * shared evenly among its hypotheses
+ *
+ * @throws TotalConflictError when all the mass is on ∅
+ */
+export function pignistic(m: MassFunction, set: string[]): number {
+  const a = maskOf(m.frame, set);
+  const masses = massesOf(m);
+  const free = freeMass(masses);
+  if (free <= EPSILON) throw new TotalConflictError(1 - free);
+
+  let total = 0;
+  for (const [b, mass] of masses) {
+    if (b !== 0n) total += (mass * size(b & a)) / size(b);
+  }
+  return total / free;
+}
+
+/**
+ * The pignistic probability of each hypothesis of the frame
+ *
+ * @throws TotalConflictError when all the mass is on ∅
+ */
+export function pignisticDistribution(m: MassFunction): Record<string, number> {
+  return Object.fromEntries(m.frame.map((h) => [h, pignistic(m, [h])]));
+}
+
+/**
+ * Belief, plausibility and pignistic probability of each focal element of a
+ * mass function, then of each hypothesis that is not one
+ *
+ * @throws TotalConflictError when all the mass is on ∅
+ */
+export function beliefIntervals(m: MassFunction): BeliefInterval[] {
+  const sets = m.focal.map((f) => f.set).filter((set) => set.length > 0);
+  for (const hypothesis of m.frame) {
+    if (!sets.some((set) => set.length === 1 && set[0] === hypothesis)) {
+      sets.push([hypothesis]);
+    }
+  }
+  return sets.map((set) => ({
+    set,
+    belief: belief(m, set),
+    plausibility: plausibility(m, set),
+    pignistic: pignistic(m, set),
+  }));
+}
+
+/** The conjunctive combination of two mass functions, unnormalised */
+function conjunctive(m1: Masses, m2: Masses): Masses {
+  const combined: Masses = new Map();
+  for (const [b, x] of m1) {
+    for (const [c, y] of m2) add(combined, b & c, x * y);
+  }
+  return combined;
+}
+
+/**
+ * PCR5: the conjunctive combination, with each product m1(B)·m2(C) on
+ * B ∩ C = ∅ returned to B and C in proportion to m1(B) and m2(C)
+ */
+function pcr5(m1: Masses, m2: Masses): Masses {
+  const combined: Masses = new Map();
+  for (const [b, x] of m1) {
+    for (const [c, y] of m2) {
+      const meet = b & c;
+      if (meet !== 0n) {
+        add(combined, meet, x * y);
+      } else if (x + y > 0) {
+        add(combined, b, (x * x * y) / (x + y));
+        add(combined, c, (y * y * x) / (x + y));
+      }
+    }
+  }
+  return combined;
+}
+
+/** Scale away the mass on ∅ */
+function normalise(masses: Masses): Masses {
+  const free = freeMass(masses);
+  if (free <= EPSILON) throw new TotalConflictError(1 - free);
+  const normalised: Masses = new Map();
+  for (const [mask, mass] of masses) {
+    if (mask !== 0n) normalised.set(mask, mass / free);
+  }
+  return normalised;
+}
+
+/**
+ * Combine mass functions over the same frame by a combination rule
+ *
+ * @throws TotalConflictError when Dempster's rule meets K = 1
+ */
+export function combine(
+  functions: MassFunction[],
+  rule: CombinationRule = "dempster",
+): Combination {
+  if (functions.length === 0) {
+    throw new Error("There are no mass functions to combine");
+  }
+  const frame = functions[0].frame;
+  const all = functions.map(massesOf);
+
+  const joint = all.slice(1).reduce(conjunctive, all[0]);
+  const conflict = joint.get(0n) ?? 0;
+
+  let masses: Masses;
+  switch (rule) {
+    case "dempster":
+      masses = normalise(joint);
+      break;
+    case "yager":
+      masses = new Map([...joint].filter(([mask]) => mask !== 0n));
+      if (conflict > 0) add(masses, fullMask(frame), conflict);
+      break;
+    case "pcr5":
+      // Mass a function itself left on ∅ finds no subset to go back to
+      masses = normalise(all.slice(1).reduce(pcr5, all[0]));
+      break;
+  }
+
+  return { rule, mass: toMassFunction(frame, masses), conflict };
+}
@@ -0,0 +1,76 @@
+/**
+ * Engine Types for Evidential Reasoning
+ *
+ * These types back the Dempster-Shafer engine in src/modes/evidential/. The
+ * mass assignments of each BeliefFunction in src/types/modes/evidential.ts
+ * are read into a `MassFunction` over the frame of discernment; belief,
+ * plausibility and pignistic probability are computed from it, and several
+ * mass functions are combined into one by a `CombinationRule`.
+ */
+
+import type { CombinationRule } from "../../types/modes/evidential.js";
+
+// ============================================================================
+// MASS FUNCTIONS
+// ============================================================================
+
+/**
+ * Mass committed to exactly one subset of the frame
+ */
+export interface FocalElement {
+  /** Hypotheses of the subset, in frame order; empty for ∅ */
+  set: string[];
+
+  mass: number;
+}
+
+/**
+ * A basic probability assignment m: 2^Θ → [0, 1]
+ */
+export interface MassFunction {
+  /** The frame of discernment Θ */
+  frame: string[];
+
+  /**
+   * Subsets with positive mass, each once, in order of first mention. Mass
+   * on ∅ is conflict the function has not normalised away.
+   */
+  focal: FocalElement[];
+}
+
+// ============================================================================
+// COMBINATION
+// ============================================================================
+
+/**
+ * The combination of several mass functions
+ */
+export interface Combination {
+  rule: CombinationRule;
+
+  /** The combined mass function; no mass is left on ∅ */
+  mass: MassFunction;
+
+  /**
+   * Conflict K: the mass the unnormalised conjunctive combination of every
+   * function puts on ∅
+   */
+  conflict: number;
+}
+
+/**
+ * Belief, plausibility and pignistic probability of one subset of the frame
+ */
+export interface BeliefInterval {
+  /** Hypotheses of the subset, in frame order */
+  set: string[];
+
+  /** Bel(A): mass of the nonempty subsets of A */
+  belief: number;
+
+  /** Pl(A): mass of the subsets meeting A */
+  plausibility: number;
+
+  /** BetP(A): the probability of A once each focal mass is shared evenly */
+  pignistic: number;
+}
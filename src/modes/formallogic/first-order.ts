@@ -0,0 +1,442 @@
+/**
+ * First-Order Formula Syntax
+ *
+ * Extends the propositional syntax of formula.ts with quantifiers,
+ * predicates and function terms. Every connective formula.ts reads is read
+ * here too.
+ *
+ * ```text
+ *              Unicode     ASCII                    LaTeX
+ * for all      ∀           forall                   \forall
+ * exists       ∃           exists                   \exists
+ * ```
+ *
+ * `P(x, f(a))` is a predicate applied to terms, and a name with no argument
+ * list where a formula is expected is a propositional atom. In a term, a name
+ * is a variable when a quantifier around it binds it and a constant
+ * otherwise, so `Mortal(socrates)` names an individual and free names in an
+ * argument are read as constants. Numerals in a term are constants.
+ *
+ * A quantifier may bind several variables, `∀x, y`. Written directly before
+ * its body it binds as tightly as negation: `∀x P(x) → Q` is `(∀x P(x)) → Q`.
+ * A dot or colon after the variables extends its scope as far right as
+ * possible: `∀x. P(x) → Q(x)` is `∀x (P(x) → Q(x))`. Equality is not read.
+ */
+
+import {
+  COMMANDS,
+  FormulaSyntaxError,
+  KEYWORDS,
+  NOTATIONS,
+  PRECEDENCE,
+  SYMBOLS,
+  needsParentheses,
+} from "./formula.js";
+import type {
+  BinaryConnective,
+  FirstOrderFormula,
+  Notation,
+  Quantifier,
+  Term,
+} from "./types.js";
+
+type Token =
+  | { kind: "name"; value: string; position: number }
+  | { kind: "number"; value: string; position: number }
+  | { kind: "constant"; value: boolean; position: number }
+  | { kind: "operator"; value: string; text: string; position: number }
+  | { kind: "end"; position: number };
+
+const QUANTIFIERS: Record<string, Quantifier> = {
+  "∀": "forall",
+  "∃": "exists",
+  forall: "forall",
+  exists: "exists",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "⊤" || ch === "⊥") {
+      tokens.push({ kind: "constant", value: ch === "⊤", position: i });
+      i++;
+      continue;
+    }
+
+    if (ch === "∀" || ch === "∃") {
+      tokens.push({
+        kind: "operator",
+        value: QUANTIFIERS[ch],
+        text: ch,
+        position: i,
+      });
+      i++;
+      continue;
+    }
+
+    if (ch === "," || ch === "." || ch === ":") {
+      tokens.push({
+        kind: "operator",
+        value: ch === "," ? "," : ".",
+        text: ch,
+        position: i,
+      });
+      i++;
+      continue;
+    }
+
+    if (ch === "\\" && /[,;! ]/.test(source[i + 1] ?? "")) {
+      // LaTeX spacing
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\\" && /[A-Za-z]/.test(source[i + 1] ?? "")) {
+      const name = /^[A-Za-z]+/.exec(source.slice(i + 1))![0];
+      if (name === "left" || name === "right") {
+        i += name.length + 1;
+        continue;
+      }
+      const meaning = QUANTIFIERS[name] ?? COMMANDS[name];
+      if (meaning === undefined) {
+        throw new FormulaSyntaxError(`Unknown command '\\${name}'`, i);
+      }
+      tokens.push(
+        typeof meaning === "boolean"
+          ? { kind: "constant", value: meaning, position: i }
+          : {
+              kind: "operator",
+              value: meaning,
+              text: `\\${name}`,
+              position: i,
+            },
+      );
+      i += name.length + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const digits = /^[0-9]+/.exec(source.slice(i))![0];
+      tokens.push({ kind: "number", value: digits, position: i });
+      i += digits.length;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const word =
+        /^[A-Za-z][A-Za-z0-9]*(?:_(?:\{[A-Za-z0-9]+\}|[A-Za-z0-9]+))?'*/.exec(
+          source.slice(i),
+        )![0];
+      const lower = word.toLowerCase();
+      const meaning = KEYWORDS[lower] ?? QUANTIFIERS[lower];
+      if (meaning) {
+        tokens.push({
+          kind: "operator",
+          value: meaning,
+          text: word,
+          position: i,
+        });
+      } else if (lower === "true" || lower === "false") {
+        tokens.push({ kind: "constant", value: lower === "true", position: i });
+      } else {
+        tokens.push({
+          kind: "name",
+          value: word.replace(/_\{([A-Za-z0-9]+)\}/, "_$1"),
+          position: i,
+        });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(([text]) => source.startsWith(text, i));
+    if (!symbol) {
+      throw new FormulaSyntaxError(`Unexpected character '${ch}'`, i);
+    }
+    tokens.push({
+      kind: "operator",
+      value: symbol[1],
+      text: symbol[0],
+      position: i,
+    });
+    i += symbol[0].length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the connective precedence of formula.ts,
+ * with quantifiers at the level of negation
+ */
+class Parser {
+  private index = 0;
+
+  /** Variables bound by the quantifiers around the current position */
+  private readonly bound: string[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FirstOrderFormula {
+    const formula = this.binary(1);
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaSyntaxError(
+        `Unexpected ${describe(next)}`,
+        next.position,
+      );
+    }
+    return formula;
+  }
+
+  private binary(level: number): FirstOrderFormula {
+    if (level > 5) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (
+        token.kind !== "operator" ||
+        PRECEDENCE[token.value as BinaryConnective] !== level
+      ) {
+        return left;
+      }
+      this.index++;
+      const operator = token.value as BinaryConnective;
+      if (operator === "implies") {
+        return { type: "binary", operator, left, right: this.binary(level) };
+      }
+      left = { type: "binary", operator, left, right: this.binary(level + 1) };
+    }
+  }
+
+  private unary(): FirstOrderFormula {
+    if (this.accept("not")) {
+      return { type: "not", operand: this.unary() };
+    }
+    const token = this.peek();
+    if (
+      token.kind === "operator" &&
+      (token.value === "forall" || token.value === "exists")
+    ) {
+      this.index++;
+      return this.quantified(token.value);
+    }
+    return this.primary();
+  }
+
+  private quantified(quantifier: Quantifier): FirstOrderFormula {
+    const variables: string[] = [];
+    do {
+      const token = this.peek();
+      if (token.kind !== "name") {
+        throw new FormulaSyntaxError(
+          `Expected a variable but found ${describe(token)}`,
+          token.position,
+        );
+      }
+      variables.push(token.value);
+      this.index++;
+    } while (this.accept(","));
+
+    this.bound.push(...variables);
+    const body = this.accept(".") ? this.binary(1) : this.unary();
+    this.bound.length -= variables.length;
+
+    return variables.reduceRight<FirstOrderFormula>(
+      (inner, variable) => ({
+        type: "quantifier",
+        quantifier,
+        variable,
+        body: inner,
+      }),
+      body,
+    );
+  }
+
+  private primary(): FirstOrderFormula {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case "name":
+        return {
+          type: "atom",
+          predicate: token.value,
+          args: this.arguments(),
+        };
+      case "constant":
+        return { type: "constant", value: token.value };
+      case "number":
+        if (token.value === "0" || token.value === "1") {
+          return { type: "constant", value: token.value === "1" };
+        }
+        break;
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.binary(1);
+          this.expect(")");
+          return inner;
+        }
+        break;
+      case "end":
+        throw new FormulaSyntaxError(
+          "Unexpected end of formula",
+          token.position,
+        );
+    }
+    throw new FormulaSyntaxError(
+      `Unexpected ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  /** A parenthesized argument list, or none */
+  private arguments(): Term[] {
+    const next = this.peek();
+    if (next.kind !== "operator" || next.value !== "(") return [];
+    this.index++;
+    const args: Term[] = [];
+    do {
+      args.push(this.term());
+    } while (this.accept(","));
+    this.expect(")");
+    return args;
+  }
+
+  private term(): Term {
+    const token = this.peek();
+    this.index++;
+
+    if (token.kind === "number") {
+      return { type: "function", name: token.value, args: [] };
+    }
+    if (token.kind === "name") {
+      const args = this.arguments();
+      if (args.length === 0 && this.bound.includes(token.value)) {
+        return { type: "variable", name: token.value };
+      }
+      return { type: "function", name: token.value, args };
+    }
+    throw new FormulaSyntaxError(
+      token.kind === "end"
+        ? "Unexpected end of formula"
+        : `Expected a term but found ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      const token = this.peek();
+      throw new FormulaSyntaxError(
+        `Expected '${value}' but found ${describe(token)}`,
+        token.position,
+      );
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of formula";
+    case "operator":
+      return `'${token.text}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a first-order formula
+ *
+ * @throws FormulaSyntaxError on a syntax error or unknown LaTeX command
+ */
+export function parseFirstOrder(source: string): FirstOrderFormula {
+  return new Parser(tokenize(source)).parse();
+}
+
+export function formatTerm(term: Term): string {
+  if (term.type === "variable" || term.args.length === 0) return term.name;
+  return `${term.name}(${term.args.map(formatTerm).join(", ")})`;
+}
+
+const QUANTIFIER_SYMBOLS: Record<Notation, Record<Quantifier, string>> = {
+  unicode: { forall: "∀", exists: "∃" },
+  ascii: { forall: "forall ", exists: "exists " },
+  latex: { forall: "\\forall ", exists: "\\exists " },
+};
+
+/**
+ * Write a first-order formula out with as few parentheses as its precedence
+ * allows; a quantifier's body is parenthesized when it is a binary formula
+ */
+export function formatFirstOrder(
+  formula: FirstOrderFormula,
+  notation: Notation = "unicode",
+): string {
+  const symbols = NOTATIONS[notation];
+  const quantifiers = QUANTIFIER_SYMBOLS[notation];
+  const space = notation === "latex" ? "\\, " : " ";
+
+  const write = (f: FirstOrderFormula): string => {
+    switch (f.type) {
+      case "constant":
+        return f.value ? symbols.true : symbols.false;
+      case "atom":
+        return f.args.length === 0
+          ? f.predicate
+          : `${f.predicate}(${f.args.map(formatTerm).join(", ")})`;
+      case "not":
+        return f.operand.type === "binary"
+          ? `${symbols.not}(${write(f.operand)})`
+          : `${symbols.not}${write(f.operand)}`;
+      case "quantifier": {
+        const body = write(f.body);
+        return `${quantifiers[f.quantifier]}${f.variable}${space}${f.body.type === "binary" ? `(${body})` : body}`;
+      }
+      case "binary":
+        return (
+          side(f.operator, f.left, "left") +
+          symbols[f.operator] +
+          side(f.operator, f.right, "right")
+        );
+    }
+  };
+
+  const side = (
+    parent: BinaryConnective,
+    child: FirstOrderFormula,
+    position: "left" | "right",
+  ): string => {
+    const text = write(child);
+    if (child.type !== "binary") return text;
+    return needsParentheses(parent, child.operator, position)
+      ? `(${text})`
+      : text;
+  };
+
+  return write(formula);
+}
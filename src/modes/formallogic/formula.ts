@@ -0,0 +1,542 @@
+/**
+ * Propositional Formula Syntax
+ *
+ * Reads a formula written with any of the usual connective syntaxes into a
+ * `Formula` tree, and writes one back out. The three syntaxes can be mixed in
+ * one formula.
+ *
+ * ```text
+ *              Unicode     ASCII                    LaTeX
+ * not          ¬           ~  !  not                \neg  \lnot
+ * and          ∧  ·        &  &&  /\  ^  and        \land  \wedge
+ * or           ∨           |  ||  \/  or            \lor  \vee
+ * implies      →  ⇒  ⊃     ->  =>  implies          \to  \rightarrow  \Rightarrow  \implies  \supset
+ * iff          ↔  ⇔  ≡     <->  <=>  iff            \leftrightarrow  \Leftrightarrow  \iff  \equiv
+ * xor          ⊕  ⊻        xor                      \oplus  \veebar
+ * nand         ⊼  ↑        nand                     \barwedge  \uparrow
+ * nor          ⊽  ↓        nor                      \downarrow
+ * true/false   ⊤  ⊥        true  false  1  0        \top  \bot
+ * ```
+ *
+ * Keywords are case-insensitive. Parentheses, brackets and LaTeX braces all
+ * group, and `\left(` / `\right)` are read as plain parentheses. Variables are
+ * letters and digits with an optional subscript: `p`, `Q2`, `rain`, `p_1` and
+ * `p_{1}` (the same variable as `p_1`). `^` is conjunction, as in `p ^ q`.
+ *
+ * Precedence, loosest first: iff, implies, xor, or and nor, and and nand,
+ * not. Implication is right-associative (p → q → r is p → (q → r)); the other
+ * connectives group to the left.
+ */
+
+import type { BinaryConnective, Formula, Notation } from "./types.js";
+
+/**
+ * A formula that cannot be read
+ */
+export class FormulaSyntaxError extends Error {
+  /** Offset in the source where reading failed */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at ${position}`);
+    this.name = "FormulaSyntaxError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: "variable"; value: string; position: number }
+  | { kind: "constant"; value: boolean; position: number }
+  | { kind: "operator"; value: string; text: string; position: number }
+  | { kind: "end"; position: number };
+
+/** Symbols, longest first so `<->` is not read as `<-` then `>` */
+export const SYMBOLS: [string, string][] = [
+  ["<=>", "iff"],
+  ["<->", "iff"],
+  ["->", "implies"],
+  ["=>", "implies"],
+  ["&&", "and"],
+  ["||", "or"],
+  ["/\\", "and"],
+  ["\\/", "or"],
+  ["¬", "not"],
+  ["~", "not"],
+  ["!", "not"],
+  ["∧", "and"],
+  ["·", "and"],
+  ["&", "and"],
+  ["^", "and"],
+  ["∨", "or"],
+  ["|", "or"],
+  ["→", "implies"],
+  ["⇒", "implies"],
+  ["⊃", "implies"],
+  ["↔", "iff"],
+  ["⇔", "iff"],
+  ["≡", "iff"],
+  ["⊕", "xor"],
+  ["⊻", "xor"],
+  ["⊼", "nand"],
+  ["↑", "nand"],
+  ["⊽", "nor"],
+  ["↓", "nor"],
+  ["(", "("],
+  [")", ")"],
+  ["[", "("],
+  ["]", ")"],
+  ["{", "("],
+  ["}", ")"],
+];
+
+export const KEYWORDS: Record<string, string> = {
+  not: "not",
+  and: "and",
+  or: "or",
+  implies: "implies",
+  iff: "iff",
+  xor: "xor",
+  nand: "nand",
+  nor: "nor",
+};
+
+/** LaTeX commands, without the backslash */
+export const COMMANDS: Record<string, string | boolean> = {
+  neg: "not",
+  lnot: "not",
+  land: "and",
+  wedge: "and",
+  lor: "or",
+  vee: "or",
+  to: "implies",
+  rightarrow: "implies",
+  Rightarrow: "implies",
+  implies: "implies",
+  supset: "implies",
+  leftrightarrow: "iff",
+  Leftrightarrow: "iff",
+  iff: "iff",
+  equiv: "iff",
+  oplus: "xor",
+  veebar: "xor",
+  barwedge: "nand",
+  uparrow: "nand",
+  downarrow: "nor",
+  top: true,
+  bot: false,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "⊤" || ch === "⊥" || ch === "1" || ch === "0") {
+      const value = ch === "⊤" || ch === "1";
+      tokens.push({ kind: "constant", value, position: i });
+      i++;
+      continue;
+    }
+
+    if (ch === "\\" && /[A-Za-z]/.test(source[i + 1] ?? "")) {
+      const name = /^[A-Za-z]+/.exec(source.slice(i + 1))![0];
+      // \left( and \right) only size their parenthesis
+      if (name === "left" || name === "right") {
+        i += name.length + 1;
+        continue;
+      }
+      const meaning = COMMANDS[name];
+      if (meaning === undefined) {
+        throw new FormulaSyntaxError(`Unknown command '\\${name}'`, i);
+      }
+      tokens.push(
+        typeof meaning === "boolean"
+          ? { kind: "constant", value: meaning, position: i }
+          : {
+              kind: "operator",
+              value: meaning,
+              text: `\\${name}`,
+              position: i,
+            },
+      );
+      i += name.length + 1;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const word =
+        /^[A-Za-z][A-Za-z0-9]*(?:_(?:\{[A-Za-z0-9]+\}|[A-Za-z0-9]+))?'*/.exec(
+          source.slice(i),
+        )![0];
+      const lower = word.toLowerCase();
+      if (KEYWORDS[lower]) {
+        tokens.push({
+          kind: "operator",
+          value: KEYWORDS[lower],
+          text: word,
+          position: i,
+        });
+      } else if (lower === "true" || lower === "false") {
+        tokens.push({ kind: "constant", value: lower === "true", position: i });
+      } else {
+        tokens.push({
+          kind: "variable",
+          value: word.replace(/_\{([A-Za-z0-9]+)\}/, "_$1"),
+          position: i,
+        });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(([text]) => source.startsWith(text, i));
+    if (!symbol) {
+      throw new FormulaSyntaxError(`Unexpected character '${ch}'`, i);
+    }
+    tokens.push({
+      kind: "operator",
+      value: symbol[1],
+      text: symbol[0],
+      position: i,
+    });
+    i += symbol[0].length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+/** Binding strength of each connective, loosest first */
+export const PRECEDENCE: Record<BinaryConnective, number> = {
+  iff: 1,
+  implies: 2,
+  xor: 3,
+  or: 4,
+  nor: 4,
+  and: 5,
+  nand: 5,
+};
+
+/**
+ * Recursive-descent parser over the precedence levels in PRECEDENCE
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Formula {
+    const formula = this.binary(1);
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaSyntaxError(
+        `Unexpected ${describe(next)}`,
+        next.position,
+      );
+    }
+    return formula;
+  }
+
+  private binary(level: number): Formula {
+    if (level > 5) return this.negation();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (
+        token.kind !== "operator" ||
+        PRECEDENCE[token.value as BinaryConnective] !== level
+      ) {
+        return left;
+      }
+      this.index++;
+      const operator = token.value as BinaryConnective;
+      if (operator === "implies") {
+        // Right-associative: p → q → r is p → (q → r)
+        return { type: "binary", operator, left, right: this.binary(level) };
+      }
+      left = { type: "binary", operator, left, right: this.binary(level + 1) };
+    }
+  }
+
+  private negation(): Formula {
+    if (this.accept("not")) {
+      return { type: "not", operand: this.negation() };
+    }
+    return this.primary();
+  }
+
+  private primary(): Formula {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case "variable":
+        return { type: "variable", name: token.value };
+      case "constant":
+        return { type: "constant", value: token.value };
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.binary(1);
+          this.expect(")");
+          return inner;
+        }
+        break;
+      case "end":
+        throw new FormulaSyntaxError(
+          "Unexpected end of formula",
+          token.position,
+        );
+    }
+    throw new FormulaSyntaxError(
+      `Unexpected ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      const token = this.peek();
+      throw new FormulaSyntaxError(
+        `Expected '${value}' but found ${describe(token)}`,
+        token.position,
+      );
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of formula";
+    case "operator":
+      return `'${token.text}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a propositional formula
+ *
+ * @throws FormulaSyntaxError on a syntax error or unknown LaTeX command
+ */
+export function parseFormula(source: string): Formula {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Every variable of a formula, in order of first use
+ */
+export function formulaVariables(formula: Formula): string[] {
+  const names = new Set<string>();
+  const visit = (f: Formula): void => {
+    switch (f.type) {
+      case "variable":
+        names.add(f.name);
+        break;
+      case "not":
+        visit(f.operand);
+        break;
+      case "binary":
+        visit(f.left);
+        visit(f.right);
+        break;
+    }
+  };
+  visit(formula);
+  return [...names];
+}
+
+/**
+ * Truth value of a formula; a variable missing from the assignment is false
+ */
+export function evaluateFormula(
+  formula: Formula,
+  assignment: Record<string, boolean>,
+): boolean {
+  switch (formula.type) {
+    case "constant":
+      return formula.value;
+    case "variable":
+      return assignment[formula.name] ?? false;
+    case "not":
+      return !evaluateFormula(formula.operand, assignment);
+    case "binary":
+      return applyConnective(
+        formula.operator,
+        evaluateFormula(formula.left, assignment),
+        evaluateFormula(formula.right, assignment),
+      );
+  }
+}
+
+/**
+ * Whether two formulas are the same tree (syntactic identity, not
+ * equivalence)
+ */
+export function formulasEqual(a: Formula, b: Formula): boolean {
+  switch (a.type) {
+    case "constant":
+      return b.type === "constant" && a.value === b.value;
+    case "variable":
+      return b.type === "variable" && a.name === b.name;
+    case "not":
+      return b.type === "not" && formulasEqual(a.operand, b.operand);
+    case "binary":
+      return (
+        b.type === "binary" &&
+        a.operator === b.operator &&
+        formulasEqual(a.left, b.left) &&
+        formulasEqual(a.right, b.right)
+      );
+  }
+}
+
+export function applyConnective(
+  operator: BinaryConnective,
+  a: boolean,
+  b: boolean,
+): boolean {
+  switch (operator) {
+    case "and":
+      return a && b;
+    case "or":
+      return a || b;
+    case "implies":
+      return !a || b;
+    case "iff":
+      return a === b;
+    case "xor":
+      return a !== b;
+    case "nand":
+      return !(a && b);
+    case "nor":
+      return !(a || b);
+  }
+}
+
+export const NOTATIONS: Record<
+  Notation,
+  Record<BinaryConnective | "not" | "true" | "false", string>
+> = {
+  unicode: {
+    not: "¬",
+    and: " ∧ ",
+    or: " ∨ ",
+    implies: " → ",
+    iff: " ↔ ",
+    xor: " ⊕ ",
+    nand: " ⊼ ",
+    nor: " ⊽ ",
+    true: "⊤",
+    false: "⊥",
+  },
+  ascii: {
+    not: "~",
+    and: " & ",
+    or: " | ",
+    implies: " -> ",
+    iff: " <-> ",
+    xor: " xor ",
+    nand: " nand ",
+    nor: " nor ",
+    true: "true",
+    false: "false",
+  },
+  latex: {
+    not: "\\neg ",
+    and: " \\land ",
+    or: " \\lor ",
+    implies: " \\rightarrow ",
+    iff: " \\leftrightarrow ",
+    xor: " \\oplus ",
+    nand: " \\uparrow ",
+    nor: " \\downarrow ",
+    true: "\\top",
+    false: "\\bot",
+  },
+};
+
+/** Connectives whose chains read the same however they are grouped */
+const ASSOCIATIVE = new Set<BinaryConnective>(["and", "or", "xor"]);
+
+/**
+ * Write a formula out with as few parentheses as its precedence allows
+ */
+export function formatFormula(
+  formula: Formula,
+  notation: Notation = "unicode",
+): string {
+  const symbols = NOTATIONS[notation];
+
+  const write = (f: Formula): string => {
+    switch (f.type) {
+      case "constant":
+        return f.value ? symbols.true : symbols.false;
+      case "variable":
+        return f.name;
+      case "not": {
+        const operand = write(f.operand);
+        return f.operand.type === "binary"
+          ? `${symbols.not}(${operand})`
+          : `${symbols.not}${operand}`;
+      }
+      case "binary":
+        return (
+          side(f.operator, f.left, "left") +
+          symbols[f.operator] +
+          side(f.operator, f.right, "right")
+        );
+    }
+  };
+
+  const side = (
+    parent: BinaryConnective,
+    child: Formula,
+    position: "left" | "right",
+  ): string => {
+    const text = write(child);
+    if (child.type !== "binary") return text;
+    return needsParentheses(parent, child.operator, position)
+      ? `(${text})`
+      : text;
+  };
+
+  return write(formula);
+}
+
+/**
+ * Whether an operand built with `child` needs parentheses on the given side
+ * of `parent`
+ */
+export function needsParentheses(
+  parent: BinaryConnective,
+  child: BinaryConnective,
+  position: "left" | "right",
+): boolean {
+  return !(
+    PRECEDENCE[child] > PRECEDENCE[parent] ||
+    (child === parent &&
+      (ASSOCIATIVE.has(parent) ||
+        (parent === "implies" && position === "right")))
+  );
+}
@@ -0,0 +1,664 @@
+/**
+ * Natural Deduction Proof Checking
+ *
+ * `checkNaturalDeduction` checks a Fitch-style proof line by line: each
+ * step's formula is parsed, its rule is read from `rule` or from the
+ * justification text ("MP", "∧I", "->E", "reductio", ...), and the rule must
+ * actually derive the formula from the steps the step cites.
+ *
+ * Subproofs follow these conventions:
+ *
+ * - A step cites the steps in `referencesSteps`, or when that is absent the
+ *   line numbers in its justification ("MP 1, 2", "→I 3–5").
+ * - A step opens a subproof when `isAssumption` is set or its justification
+ *   says "assumption".
+ * - A rule that discharges assumptions (→I, ¬I, reductio, ∨E, ↔I) cites each
+ *   subproof by its assumption step followed by the step it ends on:
+ *   `referencesSteps: [3, 5]` for the subproof from 3 to 5. A one-line
+ *   subproof is cited by its assumption alone, and `dischargesAssumption` may
+ *   name the assumption instead of citing it.
+ * - A subproof ends at the last step any rule cites it by. An assumption no
+ *   rule discharges stays open to the end of the proof.
+ * - A step may cite an earlier step only while every subproof around that
+ *   step is still open, and a closed subproof only as a whole.
+ *
+ * A step whose formula does not parse, or whose rule cannot be told from its
+ * justification, is "unchecked" rather than invalid: prose proofs are common
+ * and are not wrong for being prose.
+ */
+
+import { formatFormula, formulasEqual, parseFormula } from "./formula.js";
+import type {
+  DeductionCheck,
+  DeductionRule,
+  DeductionStep,
+  DeductionStepResult,
+  Formula,
+} from "./types.js";
+
+type Binary = Extract<Formula, { type: "binary" }>;
+
+/** A closed subproof as a rule sees it */
+interface Subproof {
+  assumption: Formula;
+  end: Formula;
+}
+
+/** Rules that cite subproofs and discharge their assumptions */
+const DISCHARGING = new Set<DeductionRule>([
+  "implies_intro",
+  "or_elim",
+  "not_intro",
+  "reductio",
+  "iff_intro",
+]);
+
+/** `rule` values, including the formal logic mode's `InferenceRule` names */
+const RULE_NAMES: Record<string, DeductionRule> = {
+  premise: "premise",
+  assumption: "assumption",
+  reiteration: "reiteration",
+  and_intro: "and_intro",
+  and_elim: "and_elim",
+  or_intro: "or_intro",
+  or_elim: "or_elim",
+  implies_intro: "implies_intro",
+  implies_elim: "implies_elim",
+  iff_intro: "iff_intro",
+  iff_elim: "iff_elim",
+  not_intro: "not_intro",
+  not_elim: "not_elim",
+  reductio: "reductio",
+  double_negation: "double_negation",
+  explosion: "explosion",
+  excluded_middle: "excluded_middle",
+  modus_tollens: "modus_tollens",
+  hypothetical_syllogism: "hypothetical_syllogism",
+  disjunctive_syllogism: "disjunctive_syllogism",
+  resolution: "resolution",
+  modus_ponens: "implies_elim",
+  conjunction: "and_intro",
+  simplification: "and_elim",
+  addition: "or_intro",
+  contradiction: "not_elim",
+  conditional_proof: "implies_intro",
+  proof_by_cases: "or_elim",
+  negation_introduction: "not_intro",
+  reductio_ad_absurdum: "reductio",
+  biconditional_introduction: "iff_intro",
+  biconditional_elimination: "iff_elim",
+};
+
+/**
+ * "∧I", "& E", "->intro", "\lor elim", "not-E", "⊥E", ... The connective
+ * words must stand alone, so "for i" is not ∨-introduction.
+ */
+const CONNECTIVE_RULE =
+  /(∧|&|\\land|\\wedge|∨|\||\\lor|\\vee|↔|<->|\\leftrightarrow|\\iff|→|->|⊃|\\to|\\rightarrow|¬|~|\\neg|\\lnot|⊥|\\bot|(?<![a-z])(?:and|conj(?:unction)?|or|disj(?:unction)?|iff|bicond(?:itional)?|imp(?:lication)?|cond(?:itional)?|not|neg(?:ation)?|bot|falsum))\s*[-_]?\s*(intro(?:duction)?|elim(?:ination)?|i|e)(?![a-z])/i;
+
+/** Justification wording, tried in order after the connective rules */
+const JUSTIFICATIONS: [RegExp, DeductionRule][] = [
+  [
+    /reductio|\bRAA\b|proof by contradiction|indirect proof|\bIP\b/i,
+    "reductio",
+  ],
+  [/modus ponens|\bMP\b/i, "implies_elim"],
+  [/modus tollens|\bMT\b/i, "modus_tollens"],
+  [/hypothetical syllogism|\bHS\b/i, "hypothetical_syllogism"],
+  [/disjunctive syllogism|\bDS\b/i, "disjunctive_syllogism"],
+  [/conditional proof|\bCP\b/i, "implies_intro"],
+  [/proof by cases|\bcases\b/i, "or_elim"],
+  [/excluded middle|\bLEM\b|\bTND\b/i, "excluded_middle"],
+  [/explosion|ex falso|\bEFQ\b/i, "explosion"],
+  [/resolution/i, "resolution"],
+  [/\breit(eration)?\b|\brepeat|^\s*R\b/i, "reiteration"],
+  [/simplification|\bsimp\b/i, "and_elim"],
+  [/addition|\badd\b/i, "or_intro"],
+  [/\bconj(unction)?\b/i, "and_intro"],
+  [/contradiction/i, "not_elim"],
+];
+
+/**
+ * The rule a step claims, from `rule` or its justification
+ */
+export function identifyRule(step: DeductionStep): DeductionRule | undefined {
+  if (step.isAssumption) return "assumption";
+  if (step.rule) {
+    const named = RULE_NAMES[step.rule.trim().toLowerCase()];
+    if (named) return named;
+  }
+  const text = step.justification ?? "";
+  if (/\b(premise|given)\b/i.test(text)) return "premise";
+  if (/\b(assumption|assume|hypothesis)\b/i.test(text)) return "assumption";
+  // Before the connective rules, or "¬¬E" would read as "¬E"
+  if (/double negation|\bDNE?\b|¬¬|~~|\\neg\s*\\neg/i.test(text)) {
+    return "double_negation";
+  }
+
+  const match = CONNECTIVE_RULE.exec(text);
+  if (match) {
+    const connective = match[1].toLowerCase();
+    const intro = match[2].toLowerCase().startsWith("i");
+    if (/∧|&|land|wedge|and|conj/.test(connective)) {
+      return intro ? "and_intro" : "and_elim";
+    }
+    if (/∨|\||lor|vee|or|disj/.test(connective)) {
+      return intro ? "or_intro" : "or_elim";
+    }
+    if (/↔|<->|leftrightarrow|iff|bicond/.test(connective)) {
+      return intro ? "iff_intro" : "iff_elim";
+    }
+    if (/→|->|⊃|to|rightarrow|imp|cond/.test(connective)) {
+      return intro ? "implies_intro" : "implies_elim";
+    }
+    if (/⊥|bot|falsum/.test(connective)) {
+      return intro ? "not_elim" : "explosion";
+    }
+    return intro ? "not_intro" : "not_elim";
+  }
+
+  return JUSTIFICATIONS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * The steps a step cites, from `referencesSteps` or its justification
+ */
+function citedSteps(step: DeductionStep): number[] {
+  if (step.referencesSteps) return step.referencesSteps;
+  const cited: number[] = [];
+  const text = step.justification ?? "";
+  for (const match of text.matchAll(/\b(\d+)(?:\s*[-–]\s*(\d+))?\b/g)) {
+    cited.push(Number(match[1]));
+    if (match[2] !== undefined) cited.push(Number(match[2]));
+  }
+  return cited;
+}
+
+/**
+ * Check every step of a natural-deduction proof
+ */
+export function checkNaturalDeduction(steps: DeductionStep[]): DeductionCheck {
+  const n = steps.length;
+  const position = new Map<number, number>();
+  steps.forEach((s, i) => {
+    if (!position.has(s.stepNumber)) position.set(s.stepNumber, i);
+  });
+
+  const formulas: (Formula | undefined)[] = [];
+  const parseErrors: string[] = [];
+  for (const step of steps) {
+    const source = step.formula ?? step.statement ?? "";
+    try {
+      formulas.push(parseFormula(source));
+      parseErrors.push("");
+    } catch (error) {
+      formulas.push(undefined);
+      parseErrors.push((error as Error).message);
+    }
+  }
+  const rules = steps.map(identifyRule);
+  const isAssumption = (p: number) => rules[p] === "assumption";
+
+  // Split each step's citations into lines and subproofs, by position
+  const citations = steps.map((step, i) => {
+    const lines: number[] = [];
+    const subproofs: { start: number; end: number }[] = [];
+    const missing: number[] = [];
+    const refs: number[] = [];
+    for (const cited of citedSteps(step)) {
+      const p = position.get(cited);
+      if (p === undefined) missing.push(cited);
+      else refs.push(p);
+    }
+    const rule = rules[i];
+    if (rule && DISCHARGING.has(rule)) {
+      for (let k = 0; k < refs.length; k++) {
+        const r = refs[k];
+        if (!isAssumption(r)) {
+          lines.push(r);
+        } else if (
+          k + 1 < refs.length &&
+          refs[k + 1] > r &&
+          !isAssumption(refs[k + 1])
+        ) {
+          subproofs.push({ start: r, end: refs[++k] });
+        } else {
+          subproofs.push({ start: r, end: r });
+        }
+      }
+      const named =
+        step.dischargesAssumption === undefined
+          ? undefined
+          : position.get(step.dischargesAssumption);
+      if (
+        named !== undefined &&
+        isAssumption(named) &&
+        !subproofs.some((s) => s.start === named)
+      ) {
+        // The subproof ends at the last line cited after it, or just before
+        // the discharging step
+        const later = lines.filter((l) => l > named && l < i);
+        const end = later.length ? Math.max(...later) : i - 1;
+        if (lines.includes(end)) lines.splice(lines.indexOf(end), 1);
+        subproofs.push({ start: named, end });
+      }
+    } else {
+      lines.push(...refs);
+    }
+    return { lines, subproofs, missing };
+  });
+
+  // Each subproof runs from its assumption to the last step it is cited by
+  const ends = new Map<number, number>();
+  const discharged = new Set<number>();
+  citations.forEach((c) => {
+    for (const s of c.subproofs) {
+      ends.set(s.start, Math.max(ends.get(s.start) ?? s.start, s.end));
+      discharged.add(s.start);
+    }
+  });
+  const assumptions: number[] = [];
+  for (let p = 0; p < n; p++) {
+    if (isAssumption(p)) {
+      assumptions.push(p);
+      if (!ends.has(p)) ends.set(p, n - 1);
+    }
+  }
+  const within = (a: number, p: number) => a <= p && p <= ends.get(a)!;
+  const number = (p: number) => steps[p].stepNumber;
+
+  const results: DeductionStepResult[] = steps.map((step, i) => {
+    const rule = rules[i];
+    const depth = assumptions.filter((a) => within(a, i)).length;
+    const result = (
+      status: DeductionStepResult["status"],
+      reason?: string,
+    ): DeductionStepResult => ({
+      stepNumber: step.stepNumber,
+      ...(rule && { rule }),
+      status,
+      ...(reason && { reason }),
+      depth,
+    });
+
+    const formula = formulas[i];
+    if (!formula) {
+      return result("unchecked", `Formula cannot be read: ${parseErrors[i]}`);
+    }
+    if (!rule) {
+      return result("unchecked", "No rule recognised in the justification");
+    }
+    if (position.get(step.stepNumber) !== i) {
+      return result("invalid", `Step number ${step.stepNumber} is used twice`);
+    }
+
+    const { lines, subproofs, missing } = citations[i];
+    if (missing.length) {
+      return result(
+        "invalid",
+        `Cites step ${missing[0]}, which does not exist`,
+      );
+    }
+    const cited = [...lines, ...subproofs.flatMap((s) => [s.start, s.end])];
+    const later = cited.find((p) => p >= i);
+    if (later !== undefined) {
+      return result(
+        "invalid",
+        `Cites step ${number(later)}, which does not come before it`,
+      );
+    }
+    const unread = cited.find((p) => !formulas[p]);
+    if (unread !== undefined) {
+      return result(
+        "unchecked",
+        `Cites step ${number(unread)}, whose formula cannot be read`,
+      );
+    }
+
+    if (rule === "premise" && depth > 0) {
+      const inner = Math.max(...assumptions.filter((a) => within(a, i)));
+      return result(
+        "invalid",
+        `A premise cannot sit inside the subproof from step ${number(inner)}`,
+      );
+    }
+    for (const p of lines) {
+      const closed = assumptions.find((a) => within(a, p) && !within(a, i));
+      if (closed !== undefined) {
+        return result(
+          "invalid",
+          `Step ${number(p)} is inside the subproof from step ${number(closed)}, which closed at step ${number(ends.get(closed)!)}`,
+        );
+      }
+    }
+    for (const { start, end } of subproofs) {
+      const reason = subproofScopeError(start, end, i);
+      if (reason) return result("invalid", reason);
+    }
+
+    const reason = derive(
+      rule,
+      formula,
+      lines.map((p) => formulas[p]!),
+      subproofs.map((s) => ({
+        assumption: formulas[s.start]!,
+        end: formulas[s.end]!,
+      })),
+    );
+    return reason ? result("invalid", reason) : result("valid");
+  });
+
+  /** Why subproof start..end cannot be cited from position i, if it cannot */
+  function subproofScopeError(
+    start: number,
+    end: number,
+    i: number,
+  ): string | undefined {
+    if (within(start, i)) {
+      return `The subproof from step ${number(start)} is still open at step ${number(i)}`;
+    }
+    const outer = assumptions.find(
+      (a) => a < start && within(a, start) && !within(a, i),
+    );
+    if (outer !== undefined) {
+      return `The subproof from step ${number(start)} is inside the subproof from step ${number(outer)}, which closed at step ${number(ends.get(outer)!)}`;
+    }
+    const open = assumptions.find(
+      (a) => a > start && a <= end && ends.get(a)! > end,
+    );
+    if (open !== undefined) {
+      return `The subproof from step ${number(open)} is still open at step ${number(end)}, where the subproof from step ${number(start)} ends`;
+    }
+    const nested = assumptions.find(
+      (a) => a > start && a <= end && within(a, end),
+    );
+    if (nested !== undefined) {
+      return `Step ${number(end)} is inside the subproof from step ${number(nested)}, not directly in the subproof from step ${number(start)}`;
+    }
+    return undefined;
+  }
+
+  const firstInvalid = results.find((r) => r.status === "invalid");
+  const openAssumptions = assumptions
+    .filter((a) => !discharged.has(a))
+    .map(number);
+  const premises = results
+    .filter((r) => r.rule === "premise")
+    .map((r) => r.stepNumber);
+  const verified = n > 0 && results.every((r) => r.status === "valid");
+
+  return {
+    steps: results,
+    ...(firstInvalid && {
+      firstInvalid: {
+        stepNumber: firstInvalid.stepNumber,
+        ...(firstInvalid.rule && { rule: firstInvalid.rule }),
+        reason: firstInvalid.reason!,
+      },
+    }),
+    verified,
+    openAssumptions,
+    premises,
+    ...(verified &&
+      openAssumptions.length === 0 && {
+        sequent: `${premises
+          .map((s) => formatFormula(formulas[position.get(s)!]!))
+          .join(", ")} ⊢ ${formatFormula(formulas[n - 1]!)}`.trimStart(),
+      }),
+  };
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const FALSUM: Formula = { type: "constant", value: false };
+
+const not = (operand: Formula): Formula => ({ type: "not", operand });
+
+const binary = (
+  operator: Binary["operator"],
+  left: Formula,
+  right: Formula,
+): Formula => ({ type: "binary", operator, left, right });
+
+function is(f: Formula, operator: Binary["operator"]): f is Binary {
+  return f.type === "binary" && f.operator === operator;
+}
+
+const show = (f: Formula) => formatFormula(f);
+
+/**
+ * Why `rule` does not derive `conclusion` from the cited lines and
+ * subproofs, or undefined when it does
+ */
+function derive(
+  rule: DeductionRule,
+  conclusion: Formula,
+  lines: Formula[],
+  subproofs: Subproof[],
+): string | undefined {
+  const has = (f: Formula) => lines.some((l) => formulasEqual(l, f));
+  const hasSubproof = (from: Formula, to: Formula) =>
+    subproofs.some(
+      (s) => formulasEqual(s.assumption, from) && formulasEqual(s.end, to),
+    );
+  const C = conclusion;
+
+  switch (rule) {
+    case "premise":
+    case "assumption":
+      return undefined;
+
+    case "reiteration":
+      return has(C)
+        ? undefined
+        : `Reiteration needs ${show(C)} among the cited steps`;
+
+    case "and_intro": {
+      if (!is(C, "and")) {
+        return `∧-introduction derives a conjunction, not ${show(C)}`;
+      }
+      const missing = [C.left, C.right].filter((f) => !has(f));
+      return missing.length
+        ? `∧-introduction needs ${missing.map(show).join(" and ")} among the cited steps`
+        : undefined;
+    }
+
+    case "and_elim":
+      return lines.some(
+        (l) =>
+          is(l, "and") &&
+          (formulasEqual(l.left, C) || formulasEqual(l.right, C)),
+      )
+        ? undefined
+        : `∧-elimination needs a cited conjunction with ${show(C)} as a conjunct`;
+
+    case "or_intro":
+      if (!is(C, "or")) {
+        return `∨-introduction derives a disjunction, not ${show(C)}`;
+      }
+      return has(C.left) || has(C.right)
+        ? undefined
+        : `∨-introduction needs ${show(C.left)} or ${show(C.right)} among the cited steps`;
+
+    case "or_elim": {
+      const disjunctions = lines.filter((l): l is Binary => is(l, "or"));
+      if (disjunctions.length === 0) {
+        return "∨-elimination needs a cited disjunction";
+      }
+      if (
+        disjunctions.some(
+          (d) => hasSubproof(d.left, C) && hasSubproof(d.right, C),
+        )
+      ) {
+        return undefined;
+      }
+      const d = disjunctions[0];
+      const gap = hasSubproof(d.left, C) ? d.right : d.left;
+      return `∨-elimination from ${show(d)} needs a subproof from ${show(gap)} to ${show(C)}`;
+    }
+
+    case "implies_intro": {
+      if (!is(C, "implies")) {
+        return `→-introduction derives a conditional, not ${show(C)}`;
+      }
+      if (hasSubproof(C.left, C.right)) return undefined;
+      const s = subproofs[0];
+      return s
+        ? `The subproof from ${show(s.assumption)} to ${show(s.end)} gives ${show(binary("implies", s.assumption, s.end))}, not ${show(C)}`
+        : `→-introduction needs a subproof from ${show(C.left)} to ${show(C.right)}`;
+    }
+
+    case "implies_elim": {
+      const conditionals = lines.filter(
+        (l): l is Binary => is(l, "implies") && formulasEqual(l.right, C),
+      );
+      if (conditionals.length === 0) {
+        return `Modus ponens needs a cited conditional with consequent ${show(C)}`;
+      }
+      return conditionals.some((c) => has(c.left))
+        ? undefined
+        : `Modus ponens from ${show(conditionals[0])} needs its antecedent ${show(conditionals[0].left)} among the cited steps`;
+    }
+
+    case "modus_tollens": {
+      if (C.type !== "not") {
+        return `Modus tollens derives a negation, not ${show(C)}`;
+      }
+      const conditionals = lines.filter(
+        (l): l is Binary =>
+          is(l, "implies") && formulasEqual(l.left, C.operand),
+      );
+      if (conditionals.length === 0) {
+        return `Modus tollens needs a cited conditional with antecedent ${show(C.operand)}`;
+      }
+      return conditionals.some((c) => has(not(c.right)))
+        ? undefined
+        : `Modus tollens from ${show(conditionals[0])} needs ${show(not(conditionals[0].right))} among the cited steps`;
+    }
+
+    case "hypothetical_syllogism":
+      if (!is(C, "implies")) {
+        return `Hypothetical syllogism derives a conditional, not ${show(C)}`;
+      }
+      return lines.some(
+        (first) =>
+          is(first, "implies") &&
+          formulasEqual(first.left, C.left) &&
+          has(binary("implies", first.right, C.right)),
+      )
+        ? undefined
+        : `Hypothetical syllogism needs cited conditionals chaining ${show(C.left)} to ${show(C.right)}`;
+
+    case "disjunctive_syllogism":
+      return lines.some(
+        (d) =>
+          is(d, "or") &&
+          ((formulasEqual(d.right, C) && has(not(d.left))) ||
+            (formulasEqual(d.left, C) && has(not(d.right)))),
+      )
+        ? undefined
+        : `Disjunctive syllogism needs a cited disjunction with ${show(C)} as a disjunct and the negation of the other disjunct`;
+
+    case "iff_intro": {
+      if (!is(C, "iff")) {
+        return `↔-introduction derives a biconditional, not ${show(C)}`;
+      }
+      const forward = binary("implies", C.left, C.right);
+      const backward = binary("implies", C.right, C.left);
+      const either = (from: Formula, to: Formula, conditional: Formula) =>
+        has(conditional) || hasSubproof(from, to);
+      return either(C.left, C.right, forward) &&
+        either(C.right, C.left, backward)
+        ? undefined
+        : `↔-introduction needs ${show(forward)} and ${show(backward)}, or a subproof for each direction`;
+    }
+
+    case "iff_elim":
+      return lines.some(
+        (b) =>
+          is(b, "iff") &&
+          ((formulasEqual(b.right, C) && has(b.left)) ||
+            (formulasEqual(b.left, C) && has(b.right))),
+      )
+        ? undefined
+        : `↔-elimination needs a cited biconditional with ${show(C)} on one side and the other side cited`;
+
+    case "not_intro":
+      if (C.type !== "not") {
+        return `¬-introduction derives a negation, not ${show(C)}`;
+      }
+      return hasSubproof(C.operand, FALSUM)
+        ? undefined
+        : `¬-introduction needs a subproof from ${show(C.operand)} to ⊥`;
+
+    case "not_elim":
+      if (!formulasEqual(C, FALSUM)) {
+        return `¬-elimination derives ⊥, not ${show(C)}`;
+      }
+      return lines.some((l) => has(not(l)))
+        ? undefined
+        : "¬-elimination needs a formula and its negation among the cited steps";
+
+    case "reductio":
+      return hasSubproof(not(C), FALSUM) ||
+        (C.type === "not" && hasSubproof(C.operand, FALSUM))
+        ? undefined
+        : `Reductio needs a subproof from ${show(not(C))} to ⊥`;
+
+    case "double_negation":
+      return has(not(not(C))) ||
+        (C.type === "not" && C.operand.type === "not" && has(C.operand.operand))
+        ? undefined
+        : `Double negation needs ${show(not(not(C)))} among the cited steps`;
+
+    case "explosion":
+      return has(FALSUM) ? undefined : "Ex falso needs ⊥ among the cited steps";
+
+    case "excluded_middle":
+      return is(C, "or") &&
+        (formulasEqual(C.right, not(C.left)) ||
+          formulasEqual(C.left, not(C.right)))
+        ? undefined
+        : `${show(C)} is not an instance of excluded middle`;
+
+    case "resolution":
+      return resolves(lines, C)
+        ? undefined
+        : `Resolving the cited clauses does not give ${show(C)}`;
+  }
+}
+
+/** The literals of a clause written as a disjunction */
+function literals(f: Formula): Formula[] {
+  if (is(f, "or")) return [...literals(f.left), ...literals(f.right)];
+  return formulasEqual(f, FALSUM) ? [] : [f];
+}
+
+const complementary = (a: Formula, b: Formula) =>
+  formulasEqual(a, not(b)) || formulasEqual(not(a), b);
+
+/**
+ * Whether two cited clauses resolve to the conclusion, compared as sets of
+ * literals
+ */
+function resolves(lines: Formula[], conclusion: Formula): boolean {
+  const key = (fs: Formula[]) => [...new Set(fs.map(show))].sort().join(",");
+  const target = key(literals(conclusion));
+  for (const a of lines) {
+    for (const b of lines) {
+      for (const x of literals(a)) {
+        const ys = literals(b).filter((y) => complementary(x, y));
+        for (const y of ys) {
+          const rest = [
+            ...literals(a).filter((l) => !formulasEqual(l, x)),
+            ...literals(b).filter((l) => !formulasEqual(l, y)),
+          ];
+          if (key(rest) === target) return true;
+        }
+      }
+    }
+  }
+  return false;
+}
@@ -0,0 +1,249 @@
+/**
+ * Normal Forms
+ *
+ * - NNF: implications, biconditionals and the other derived connectives are
+ *   rewritten with ∧, ∨ and ¬, negations are pushed down to the variables by
+ *   De Morgan's laws, and constants are folded away.
+ * - CNF and DNF: the NNF with ∨ distributed over ∧ (or the reverse). Clauses
+ *   that contain a literal and its negation are dropped, as are clauses that
+ *   contain another clause, so the result is small but still equivalent.
+ *
+ * Distribution can grow a formula exponentially (the CNF of a DNF with n
+ * terms of two literals has 2^n clauses), so CNF and DNF stop at a clause
+ * limit. So can NNF, which writes each side of ↔ and ⊕ out twice (n nested
+ * biconditionals give 2^n copies of the innermost), so it stops at a node
+ * limit. The SAT solver does not need either: it uses the Tseitin encoding in
+ * sat.ts, which is only equisatisfiable but grows linearly.
+ */
+
+import type { Formula } from "./types.js";
+
+/** A literal as a variable and its sign */
+interface Literal {
+  name: string;
+  positive: boolean;
+}
+
+/** Clauses of a CNF, or terms of a DNF */
+type ClauseSet = Literal[][];
+
+const TRUE: Formula = { type: "constant", value: true };
+const FALSE: Formula = { type: "constant", value: false };
+
+/** Most nodes an NNF may have; past it the formula is too large to rewrite */
+const MAX_NNF_NODES = 10_000;
+
+/**
+ * Negation normal form, or undefined past `maxNodes` nodes
+ */
+export function toNNF(
+  formula: Formula,
+  maxNodes = MAX_NNF_NODES,
+): Formula | undefined {
+  return nnf(formula, true, { remaining: maxNodes });
+}
+
+/**
+ * Conjunctive normal form, or undefined past `maxClauses` clauses or an NNF
+ * too large to rewrite
+ */
+export function toCNF(formula: Formula, maxClauses = 256): Formula | undefined {
+  const normal = toNNF(formula);
+  const clauses = normal && clauseSet(normal, "and", maxClauses);
+  return clauses && fromClauseSet(clauses, "and");
+}
+
+/**
+ * Disjunctive normal form, or undefined past `maxTerms` terms or an NNF too
+ * large to rewrite
+ */
+export function toDNF(formula: Formula, maxTerms = 256): Formula | undefined {
+  const normal = toNNF(formula);
+  const terms = normal && clauseSet(normal, "or", maxTerms);
+  return terms && fromClauseSet(terms, "or");
+}
+
+/**
+ * NNF of `formula` if `positive`, of its negation otherwise, or undefined
+ * once `budget` has no nodes left
+ *
+ * Every call spends one node whether or not folding keeps it, so the work
+ * is bounded by the budget too.
+ */
+function nnf(
+  formula: Formula,
+  positive: boolean,
+  budget: { remaining: number },
+): Formula | undefined {
+  if (budget.remaining-- <= 0) return undefined;
+  const side = (operand: Formula, sign: boolean) => nnf(operand, sign, budget);
+  switch (formula.type) {
+    case "constant":
+      return { type: "constant", value: formula.value === positive };
+    case "variable":
+      return positive ? formula : { type: "not", operand: formula };
+    case "not":
+      return side(formula.operand, !positive);
+    case "binary": {
+      const { left, right } = formula;
+      switch (formula.operator) {
+        case "and":
+          return positive
+            ? and(side(left, true), side(right, true))
+            : or(side(left, false), side(right, false));
+        case "or":
+          return positive
+            ? or(side(left, true), side(right, true))
+            : and(side(left, false), side(right, false));
+        case "nand":
+          return side({ ...formula, operator: "and" }, !positive);
+        case "nor":
+          return side({ ...formula, operator: "or" }, !positive);
+        case "implies":
+          // p → q is ¬p ∨ q
+          return positive
+            ? or(side(left, false), side(right, true))
+            : and(side(left, true), side(right, false));
+        case "iff":
+          // p ↔ q is (¬p ∨ q) ∧ (p ∨ ¬q); its negation is p ⊕ q
+          return positive
+            ? and(
+                or(side(left, false), side(right, true)),
+                or(side(left, true), side(right, false)),
+              )
+            : and(
+                or(side(left, true), side(right, true)),
+                or(side(left, false), side(right, false)),
+              );
+        case "xor":
+          return side({ ...formula, operator: "iff" }, !positive);
+      }
+    }
+  }
+}
+
+function and(left?: Formula, right?: Formula): Formula | undefined {
+  if (!left || !right) return undefined;
+  if (isConstant(left, false) || isConstant(right, false)) return FALSE;
+  if (isConstant(left, true)) return right;
+  if (isConstant(right, true)) return left;
+  return { type: "binary", operator: "and", left, right };
+}
+
+function or(left?: Formula, right?: Formula): Formula | undefined {
+  if (!left || !right) return undefined;
+  if (isConstant(left, true) || isConstant(right, true)) return TRUE;
+  if (isConstant(left, false)) return right;
+  if (isConstant(right, false)) return left;
+  return { type: "binary", operator: "or", left, right };
+}
+
+function isConstant(formula: Formula, value: boolean): boolean {
+  return formula.type === "constant" && formula.value === value;
+}
+
+/**
+ * Read an NNF as a conjunction of disjunctions (`outer` "and", for CNF) or a
+ * disjunction of conjunctions (`outer` "or", for DNF)
+ *
+ * An empty set is the outer connective's unit (⊤ for CNF, ⊥ for DNF); an
+ * empty clause is the inner one's.
+ */
+function clauseSet(
+  formula: Formula,
+  outer: "and" | "or",
+  limit: number,
+): ClauseSet | undefined {
+  switch (formula.type) {
+    case "constant":
+      // True is the empty CNF and a DNF of one empty term; false the reverse
+      return formula.value === (outer === "and") ? [] : [[]];
+    case "variable":
+      return [[{ name: formula.name, positive: true }]];
+    case "not":
+      // NNF negates variables only
+      if (formula.operand.type !== "variable") {
+        throw new Error("Formula is not in negation normal form");
+      }
+      return [[{ name: formula.operand.name, positive: false }]];
+    case "binary": {
+      const left = clauseSet(formula.left, outer, limit);
+      const right = left && clauseSet(formula.right, outer, limit);
+      if (!left || !right) return undefined;
+      if (formula.operator === outer) {
+        return simplify([...left, ...right], limit);
+      }
+      // Distribute: every clause of one side joined with every clause of the other
+      if (left.length * right.length > limit * limit) return undefined;
+      return simplify(
+        left.flatMap((a) => right.map((b) => [...a, ...b])),
+        limit,
+      );
+    }
+  }
+}
+
+/**
+ * Drop repeated literals, clauses with complementary literals and clauses
+ * that contain another clause
+ */
+function simplify(clauses: ClauseSet, limit: number): ClauseSet | undefined {
+  const keyed = new Map<string, Literal[]>();
+  for (const clause of clauses) {
+    const unique = new Map<string, Literal>();
+    let complementary = false;
+    for (const literal of clause) {
+      const opposite = unique.get(`${!literal.positive}:${literal.name}`);
+      if (opposite) complementary = true;
+      unique.set(`${literal.positive}:${literal.name}`, literal);
+    }
+    if (complementary) continue;
+    const sorted = [...unique.values()].sort(compareLiterals);
+    keyed.set(sorted.map(literalKey).join(","), sorted);
+  }
+
+  const byLength = [...keyed.values()].sort((a, b) => a.length - b.length);
+  const kept: ClauseSet = [];
+  for (const clause of byLength) {
+    const keys = new Set(clause.map(literalKey));
+    if (!kept.some((c) => c.every((l) => keys.has(literalKey(l))))) {
+      kept.push(clause);
+    }
+  }
+  return kept.length > limit ? undefined : kept;
+}
+
+function fromClauseSet(clauses: ClauseSet, outer: "and" | "or"): Formula {
+  const inner = outer === "and" ? "or" : "and";
+  const join = (items: Formula[], operator: "and" | "or"): Formula =>
+    items.length === 0
+      ? { type: "constant", value: operator === "and" }
+      : items.reduce((left, right) => ({
+          type: "binary",
+          operator,
+          left,
+          right,
+        }));
+  return join(
+    clauses.map((clause) =>
+      join(
+        clause.map((l) =>
+          l.positive
+            ? { type: "variable", name: l.name }
+            : { type: "not", operand: { type: "variable", name: l.name } },
+        ),
+        inner,
+      ),
+    ),
+    outer,
+  );
+}
+
+function compareLiterals(a: Literal, b: Literal): number {
+  if (a.name !== b.name) return a.name < b.name ? -1 : 1;
+  return a.positive === b.positive ? 0 : a.positive ? -1 : 1;
+}
+
+function literalKey(literal: Literal): string {
+  return `${literal.positive ? "" : "~"}${literal.name}`;
+}
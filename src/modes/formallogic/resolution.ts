@@ -0,0 +1,884 @@
+/**
+ * First-Order Resolution
+ *
+ * `proveFirstOrder` decides, within a budget, whether premises entail a
+ * conclusion. The premises and the negated conclusion are put in clause
+ * form and saturated by binary resolution and factoring until the empty
+ * clause appears (the argument is valid), nothing new can be derived (it is
+ * invalid), or the budget runs out.
+ *
+ * Clause form is negation normal form with every quantified variable renamed
+ * apart and every existential replaced by a Skolem function of the
+ * universals around it (sk1, sk2, ..., skipping names the input uses), then
+ * distributed into clauses with tautologies dropped.
+ *
+ * The search is the given-clause loop: the lightest unprocessed clause by
+ * symbol count (every fifth pick the oldest instead, so no clause waits
+ * forever) is resolved against every processed clause and factored. A clause
+ * already seen, or subsumed by a processed one, is dropped.
+ *
+ * The step and clause limits are the budget, so the same argument always
+ * gets the same verdict; the time limit is only a safety net, set well past
+ * what the default steps take. A step costs more as the clauses pile up
+ * (P(x) → P(f(x)) takes about a second for 100 and half a minute for 500),
+ * so the default is kept low.
+ *
+ * When saturation shows the argument invalid and no function symbol with
+ * arguments remains, the clauses are grounded over the constants and the SAT
+ * solver finds a countermodel. Otherwise the ground unit clauses left after
+ * saturation are reported as a partial one.
+ */
+
+import { formatTerm } from "./first-order.js";
+import { solveCnf } from "./sat.js";
+import type {
+  Clause,
+  Countermodel,
+  FirstOrderFormula,
+  FirstOrderResult,
+  ResolutionOptions,
+  ResolutionStep,
+  Term,
+} from "./types.js";
+
+interface Literal {
+  positive: boolean;
+  predicate: string;
+  args: Term[];
+}
+
+type Origin =
+  | { rule: "premise"; premise: number }
+  | { rule: "negated_conclusion" }
+  | { rule: "resolution"; parents: [number, number]; unifier: Substitution }
+  | { rule: "factoring"; parents: [number]; unifier: Substitution };
+
+interface ResolutionClause {
+  id: number;
+  literals: Literal[];
+  origin: Origin;
+  weight: number;
+}
+
+/** A formula in negation normal form, quantifiers already removed */
+type Nnf =
+  | { type: "literal"; literal: Literal }
+  | { type: "constant"; value: boolean }
+  | { type: "and" | "or"; left: Nnf; right: Nnf };
+
+type Substitution = Map<string, Term>;
+
+/** Clauses the clause form of one formula may have */
+const MAX_FORMULA_CLAUSES = 256;
+
+/** Ground clauses the countermodel search may build */
+const MAX_GROUND_CLAUSES = 20_000;
+
+/** Every this many picks, the oldest clause is given instead of the lightest */
+const AGE_PICK = 5;
+
+const DEFAULT_MAX_STEPS = 100;
+const DEFAULT_TIME_LIMIT_MS = 5000;
+
+/** Most given clauses a caller may ask the search to process */
+export const MAX_RESOLUTION_STEPS = 1000;
+
+/** Longest a caller may let the search run */
+export const MAX_RESOLUTION_TIME_MS = 5000;
+
+/**
+ * Turns formulas into clauses, keeping the variable and Skolem counters
+ * across formulas so their names never clash
+ */
+class Clausifier {
+  private variables = 0;
+  private skolems = 0;
+
+  constructor(private readonly used: Set<string>) {}
+
+  /**
+   * Clauses of the formula, or of its negation; undefined past
+   * MAX_FORMULA_CLAUSES
+   */
+  clausify(
+    formula: FirstOrderFormula,
+    positive: boolean,
+  ): Literal[][] | undefined {
+    return toClauses(this.transform(formula, positive, [], new Map()));
+  }
+
+  private transform(
+    f: FirstOrderFormula,
+    positive: boolean,
+    universals: Term[],
+    env: Map<string, Term>,
+  ): Nnf {
+    const t = (g: FirstOrderFormula, p: boolean) =>
+      this.transform(g, p, universals, env);
+
+    switch (f.type) {
+      case "constant":
+        return { type: "constant", value: f.value === positive };
+      case "atom":
+        return {
+          type: "literal",
+          literal: {
+            positive,
+            predicate: f.predicate,
+            args: f.args.map((a) => bind(a, env)),
+          },
+        };
+      case "not":
+        return t(f.operand, !positive);
+      case "quantifier": {
+        const scope = new Map(env);
+        if ((f.quantifier === "forall") === positive) {
+          const variable: Term = {
+            type: "variable",
+            name: `v${++this.variables}`,
+          };
+          scope.set(f.variable, variable);
+          return this.transform(
+            f.body,
+            positive,
+            [...universals, variable],
+            scope,
+          );
+        }
+        scope.set(f.variable, {
+          type: "function",
+          name: this.skolemName(),
+          args: universals,
+        });
+        return this.transform(f.body, positive, universals, scope);
+      }
+      case "binary": {
+        const { left: a, right: b } = f;
+        switch (f.operator) {
+          case "and":
+          case "nand": {
+            const p = positive === (f.operator === "and");
+            return join(p ? "and" : "or", t(a, p), t(b, p));
+          }
+          case "or":
+          case "nor": {
+            const p = positive === (f.operator === "or");
+            return join(p ? "or" : "and", t(a, p), t(b, p));
+          }
+          case "implies":
+            return positive
+              ? join("or", t(a, false), t(b, true))
+              : join("and", t(a, true), t(b, false));
+          case "iff":
+          case "xor": {
+            const p = positive === (f.operator === "iff");
+            return p
+              ? join(
+                  "and",
+                  join("or", t(a, false), t(b, true)),
+                  join("or", t(a, true), t(b, false)),
+                )
+              : join(
+                  "or",
+                  join("and", t(a, true), t(b, false)),
+                  join("and", t(a, false), t(b, true)),
+                );
+          }
+        }
+      }
+    }
+  }
+
+  private skolemName(): string {
+    let name: string;
+    do {
+      name = `sk${++this.skolems}`;
+    } while (this.used.has(name));
+    return name;
+  }
+}
+
+function join(type: "and" | "or", left: Nnf, right: Nnf): Nnf {
+  return { type, left, right };
+}
+
+/** A term with the quantified names replaced by what they stand for */
+function bind(term: Term, env: Map<string, Term>): Term {
+  if (term.type === "variable") return env.get(term.name) ?? term;
+  return { ...term, args: term.args.map((a) => bind(a, env)) };
+}
+
+function toClauses(n: Nnf): Literal[][] | undefined {
+  switch (n.type) {
+    case "literal":
+      return [[n.literal]];
+    case "constant":
+      return n.value ? [] : [[]];
+    case "and": {
+      const left = toClauses(n.left);
+      const right = left && toClauses(n.right);
+      if (!right || left!.length + right.length > MAX_FORMULA_CLAUSES) {
+        return undefined;
+      }
+      return [...left!, ...right];
+    }
+    case "or": {
+      const left = toClauses(n.left);
+      const right = left && toClauses(n.right);
+      if (!right || left!.length * right.length > MAX_FORMULA_CLAUSES) {
+        return undefined;
+      }
+      return left!.flatMap((l) => right.map((r) => [...l, ...r]));
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Terms and unification
+// ----------------------------------------------------------------------------
+
+/** The term with `f` applied to its arguments, itself when none changes */
+function mapArgs(
+  term: Extract<Term, { type: "function" }>,
+  f: (arg: Term) => Term,
+): Term {
+  const args = term.args.map(f);
+  return args.every((a, i) => a === term.args[i]) ? term : { ...term, args };
+}
+
+function walk(term: Term, s: Substitution): Term {
+  while (term.type === "variable" && s.has(term.name)) {
+    term = s.get(term.name)!;
+  }
+  return term;
+}
+
+function occurs(name: string, term: Term, s: Substitution): boolean {
+  term = walk(term, s);
+  if (term.type === "variable") return term.name === name;
+  return term.args.some((a) => occurs(name, a, s));
+}
+
+/** Extend `s` to a most general unifier of a and b, if there is one */
+function unify(a: Term, b: Term, s: Substitution): boolean {
+  a = walk(a, s);
+  b = walk(b, s);
+  if (a.type === "variable" && b.type === "variable") {
+    // Bind the second variable, so the renamed parent's names give way
+    if (b.name !== a.name) s.set(b.name, a);
+    return true;
+  }
+  if (a.type === "variable") {
+    if (occurs(a.name, b, s)) return false;
+    s.set(a.name, b);
+    return true;
+  }
+  if (b.type === "variable") return unify(b, a, s);
+  return (
+    a.name === b.name &&
+    a.args.length === b.args.length &&
+    a.args.every((arg, i) => unify(arg, b.args[i], s))
+  );
+}
+
+function substitute(term: Term, s: Substitution): Term {
+  term = walk(term, s);
+  if (term.type === "variable") return term;
+  return mapArgs(term, (a) => substitute(a, s));
+}
+
+/**
+ * Extend `s` so that pattern under it is target; only the pattern's
+ * variables are bound
+ */
+function match(pattern: Term, target: Term, s: Substitution): boolean {
+  if (pattern.type === "variable") {
+    const bound = s.get(pattern.name);
+    if (bound) return termsEqual(bound, target);
+    s.set(pattern.name, target);
+    return true;
+  }
+  return (
+    target.type === "function" &&
+    target.name === pattern.name &&
+    target.args.length === pattern.args.length &&
+    pattern.args.every((p, i) => match(p, target.args[i], s))
+  );
+}
+
+function termsEqual(a: Term, b: Term): boolean {
+  if (a.type === "variable" || b.type === "variable") {
+    return a.type === b.type && a.name === b.name;
+  }
+  return (
+    a.name === b.name &&
+    a.args.length === b.args.length &&
+    a.args.every((arg, i) => termsEqual(arg, b.args[i]))
+  );
+}
+
+function rename(term: Term, suffix: string): Term {
+  if (term.type === "variable") {
+    return { type: "variable", name: term.name + suffix };
+  }
+  return mapArgs(term, (a) => rename(a, suffix));
+}
+
+// ----------------------------------------------------------------------------
+// Clauses
+// ----------------------------------------------------------------------------
+
+const VARIABLE_NAMES = ["x", "y", "z", "u", "v", "w"];
+
+function atom(literal: Literal): string {
+  return literal.args.length === 0
+    ? literal.predicate
+    : `${literal.predicate}(${literal.args.map(formatTerm).join(", ")})`;
+}
+
+function formatLiteral(literal: Literal): string {
+  return (literal.positive ? "" : "¬") + atom(literal);
+}
+
+function formatClause(literals: Literal[]): string {
+  return literals.length === 0 ? "□" : literals.map(formatLiteral).join(" ∨ ");
+}
+
+function termSize(term: Term): number {
+  return term.type === "variable"
+    ? 1
+    : 1 + term.args.reduce((sum, a) => sum + termSize(a), 0);
+}
+
+/**
+ * Drop repeated literals, and the whole clause when it is a tautology; the
+ * variables are renamed x, y, z, ... in order of first use
+ */
+function normalize(literals: Literal[]): Literal[] | undefined {
+  const names = new Map<string, string>();
+  const canonical = (term: Term): Term => {
+    if (term.type === "variable") {
+      if (!names.has(term.name)) {
+        const k = names.size;
+        names.set(
+          term.name,
+          k < VARIABLE_NAMES.length
+            ? VARIABLE_NAMES[k]
+            : `x${k - VARIABLE_NAMES.length + 1}`,
+        );
+      }
+      return { type: "variable", name: names.get(term.name)! };
+    }
+    return mapArgs(term, canonical);
+  };
+
+  const kept: Literal[] = [];
+  const seen = new Map<string, boolean>();
+  for (const literal of literals) {
+    const key = atom(literal);
+    const sign = seen.get(key);
+    if (sign === !literal.positive) return undefined;
+    if (sign === undefined) {
+      seen.set(key, literal.positive);
+      kept.push(literal);
+    }
+  }
+  return kept.map((l) => ({ ...l, args: l.args.map(canonical) }));
+}
+
+function subsumes(c: Literal[], d: Literal[]): boolean {
+  if (c.length > d.length) return false;
+  const search = (k: number, s: Substitution): boolean => {
+    if (k === c.length) return true;
+    const lit = c[k];
+    return d.some((other) => {
+      if (
+        other.positive !== lit.positive ||
+        other.predicate !== lit.predicate ||
+        other.args.length !== lit.args.length
+      ) {
+        return false;
+      }
+      const next = new Map(s);
+      return (
+        lit.args.every((t, i) => match(t, other.args[i], next)) &&
+        search(k + 1, next)
+      );
+    });
+  };
+  return search(0, new Map());
+}
+
+function formatUnifier(s: Substitution): string {
+  return [...s.keys()]
+    .map((name) => `${name} ↦ ${formatTerm(substitute(s.get(name)!, s))}`)
+    .join(", ");
+}
+
+/** Binary resolvents of two clauses, the second renamed apart */
+function resolvents(
+  a: Literal[],
+  b: Literal[],
+): { literals: Literal[]; unifier: Substitution }[] {
+  const renamed = b.map((l) => ({
+    ...l,
+    args: l.args.map((t) => rename(t, "'")),
+  }));
+  const results: { literals: Literal[]; unifier: Substitution }[] = [];
+  a.forEach((la, i) => {
+    renamed.forEach((lb, j) => {
+      if (
+        la.positive === lb.positive ||
+        la.predicate !== lb.predicate ||
+        la.args.length !== lb.args.length
+      ) {
+        return;
+      }
+      const s: Substitution = new Map();
+      if (!la.args.every((t, k) => unify(t, lb.args[k], s))) return;
+      const literals = [
+        ...a.filter((_, k) => k !== i),
+        ...renamed.filter((_, k) => k !== j),
+      ].map((l) => ({ ...l, args: l.args.map((t) => substitute(t, s)) }));
+      results.push({ literals, unifier: s });
+    });
+  });
+  return results;
+}
+
+/** Factors of a clause: two literals of the same sign unified into one */
+function factors(
+  c: Literal[],
+): { literals: Literal[]; unifier: Substitution }[] {
+  const results: { literals: Literal[]; unifier: Substitution }[] = [];
+  for (let i = 0; i < c.length; i++) {
+    for (let j = i + 1; j < c.length; j++) {
+      const [li, lj] = [c[i], c[j]];
+      if (
+        li.positive !== lj.positive ||
+        li.predicate !== lj.predicate ||
+        li.args.length !== lj.args.length
+      ) {
+        continue;
+      }
+      const s: Substitution = new Map();
+      if (!li.args.every((t, k) => unify(t, lj.args[k], s))) continue;
+      const literals = c
+        .filter((_, k) => k !== j)
+        .map((l) => ({ ...l, args: l.args.map((t) => substitute(t, s)) }));
+      results.push({ literals, unifier: s });
+    }
+  }
+  return results;
+}
+
+// ----------------------------------------------------------------------------
+// Countermodels
+// ----------------------------------------------------------------------------
+
+/** Constant names of some clauses, or undefined if a function has arguments */
+function constants(clauses: Literal[][]): string[] | undefined {
+  const names = new Set<string>();
+  let functional = false;
+  const visit = (term: Term): void => {
+    if (term.type === "variable") return;
+    if (term.args.length > 0) functional = true;
+    else names.add(term.name);
+    term.args.forEach(visit);
+  };
+  clauses.forEach((c) => c.forEach((l) => l.args.forEach(visit)));
+  return functional ? undefined : [...names].sort();
+}
+
+/**
+ * A model of function-free clauses over the Herbrand universe of their
+ * constants, found by grounding and SAT
+ */
+function groundModel(clauses: Literal[][]): Countermodel | undefined {
+  const names = constants(clauses);
+  if (!names) return undefined;
+  const domain = names.length ? names : ["a"];
+
+  let size = 0;
+  for (const c of clauses) {
+    const vars = new Set(
+      c.flatMap((l) => l.args.filter((t) => t.type === "variable")),
+    ).size;
+    size += domain.length ** vars;
+    if (size > MAX_GROUND_CLAUSES) return undefined;
+  }
+
+  const atoms = new Map<string, number>();
+  const ground: Clause[] = [];
+  for (const c of clauses) {
+    const vars = [
+      ...new Set(
+        c.flatMap((l) =>
+          l.args.flatMap((t) => (t.type === "variable" ? [t.name] : [])),
+        ),
+      ),
+    ];
+    const total = domain.length ** vars.length;
+    for (let k = 0; k < total; k++) {
+      const s: Substitution = new Map();
+      let rest = k;
+      for (const v of vars) {
+        s.set(v, {
+          type: "function",
+          name: domain[rest % domain.length],
+          args: [],
+        });
+        rest = Math.floor(rest / domain.length);
+      }
+      ground.push(
+        c.map((l) => {
+          const key = atom({
+            ...l,
+            args: l.args.map((t) => substitute(t, s)),
+          });
+          if (!atoms.has(key)) atoms.set(key, atoms.size + 1);
+          return l.positive ? atoms.get(key)! : -atoms.get(key)!;
+        }),
+      );
+    }
+  }
+
+  const result = solveCnf(ground, atoms.size);
+  if (result.status !== "satisfiable") return undefined;
+  return {
+    domain,
+    facts: Object.fromEntries(
+      [...atoms].map(([key, v]) => [key, result.model![v - 1]]),
+    ),
+    complete: true,
+  };
+}
+
+/**
+ * The unit clauses of a saturated set, as a partial model; a unit clause
+ * with variables holds for every value of them
+ */
+function unitFacts(clauses: Literal[][]): Countermodel {
+  const facts: Record<string, boolean> = {};
+  const domain = new Set<string>();
+  const visit = (term: Term): void => {
+    if (term.type === "function" && term.args.length === 0) {
+      domain.add(term.name);
+    }
+    if (term.type === "function") term.args.forEach(visit);
+  };
+  for (const c of clauses) {
+    c.forEach((l) => l.args.forEach(visit));
+    if (c.length === 1) facts[atom(c[0])] = c[0].positive;
+  }
+  return { domain: [...domain].sort(), facts, complete: false };
+}
+
+// ----------------------------------------------------------------------------
+// The prover
+// ----------------------------------------------------------------------------
+
+function functionNames(formulas: FirstOrderFormula[]): Set<string> {
+  const names = new Set<string>();
+  const term = (t: Term): void => {
+    if (t.type === "function") {
+      names.add(t.name);
+      t.args.forEach(term);
+    }
+  };
+  const visit = (f: FirstOrderFormula): void => {
+    switch (f.type) {
+      case "atom":
+        f.args.forEach(term);
+        break;
+      case "not":
+        visit(f.operand);
+        break;
+      case "binary":
+        visit(f.left);
+        visit(f.right);
+        break;
+      case "quantifier":
+        visit(f.body);
+        break;
+    }
+  };
+  formulas.forEach(visit);
+  return names;
+}
+
+/**
+ * Search limits from a caller's settings, and a note for each one that was
+ * not a positive integer (the default is used) or was past its cap
+ */
+export function readResolutionOptions(
+  settings: { maxSteps?: unknown; timeLimitMs?: unknown } | undefined,
+): { options: ResolutionOptions; problems: string[] } {
+  const problems: string[] = [];
+  const read = (
+    value: unknown,
+    name: string,
+    unit: string,
+    fallback: number,
+    cap: number,
+  ): number | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      problems.push(
+        `${name} must be a positive integer; the default of ${fallback} ${unit} was used`,
+      );
+      return undefined;
+    }
+    if (value > cap) {
+      problems.push(
+        `Resolution is capped at ${cap} ${unit}; ${value} were asked for`,
+      );
+      return cap;
+    }
+    return value;
+  };
+
+  const maxSteps = read(
+    settings?.maxSteps,
+    "maxSteps",
+    "steps",
+    DEFAULT_MAX_STEPS,
+    MAX_RESOLUTION_STEPS,
+  );
+  const timeLimitMs = read(
+    settings?.timeLimitMs,
+    "timeLimitMs",
+    "ms",
+    DEFAULT_TIME_LIMIT_MS,
+    MAX_RESOLUTION_TIME_MS,
+  );
+  return {
+    options: {
+      ...(maxSteps !== undefined && { maxSteps }),
+      ...(timeLimitMs !== undefined && { timeLimitMs }),
+    },
+    problems,
+  };
+}
+
+/**
+ * Whether the premises entail the conclusion, by resolution refutation
+ */
+export function proveFirstOrder(
+  premises: FirstOrderFormula[],
+  conclusion: FirstOrderFormula,
+  options: ResolutionOptions = {},
+): FirstOrderResult {
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const maxClauses = options.maxClauses ?? 5000;
+  const timeLimit = options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS;
+  const deadline = Date.now() + timeLimit;
+
+  const clausifier = new Clausifier(functionNames([...premises, conclusion]));
+  const inputs: { literals: Literal[]; origin: Origin }[] = [];
+  const pieces: [FirstOrderFormula, boolean, Origin][] = [
+    ...premises.map<[FirstOrderFormula, boolean, Origin]>((p, i) => [
+      p,
+      true,
+      { rule: "premise", premise: i + 1 },
+    ]),
+    [conclusion, false, { rule: "negated_conclusion" }],
+  ];
+  for (const [formula, positive, origin] of pieces) {
+    const clauses = clausifier.clausify(formula, positive);
+    if (!clauses) {
+      return {
+        status: "unknown",
+        reason: `The clause form of ${origin.rule === "premise" ? `premise ${origin.premise}` : "the negated conclusion"} has more than ${MAX_FORMULA_CLAUSES} clauses`,
+        inputClauses: inputs.length,
+        steps: 0,
+        generated: 0,
+      };
+    }
+    for (const literals of clauses) inputs.push({ literals, origin });
+  }
+
+  const all: ResolutionClause[] = [];
+  const seen = new Set<string>();
+  const passive: ResolutionClause[] = [];
+  const active: ResolutionClause[] = [];
+  let generated = 0;
+  let steps = 0;
+
+  // The clause, if new; the empty clause is returned but not queued
+  const add = (
+    literals: Literal[],
+    origin: Origin,
+  ): ResolutionClause | undefined => {
+    const normal = normalize(literals);
+    if (!normal) return undefined;
+    const key = normal.map(formatLiteral).sort().join(" ∨ ");
+    if (seen.has(key)) return undefined;
+    seen.add(key);
+    const clause: ResolutionClause = {
+      id: all.length,
+      literals: normal,
+      origin,
+      weight: normal.reduce(
+        (sum, l) => sum + 1 + l.args.reduce((w, t) => w + termSize(t), 0),
+        0,
+      ),
+    };
+    all.push(clause);
+    if (normal.length > 0) passive.push(clause);
+    return clause;
+  };
+
+  const result = (
+    status: FirstOrderResult["status"],
+    extra: Partial<FirstOrderResult> = {},
+  ): FirstOrderResult => ({
+    status,
+    ...extra,
+    inputClauses: inputs.length,
+    steps,
+    generated,
+  });
+
+  for (const input of inputs) {
+    const clause = add(input.literals, input.origin);
+    if (clause?.literals.length === 0) {
+      return result("proved", { proof: refutation(clause, all) });
+    }
+  }
+
+  let picks = 0;
+  while (passive.length > 0) {
+    if (steps >= maxSteps) {
+      return result("unknown", { reason: `Step limit of ${maxSteps} reached` });
+    }
+    if (all.length >= maxClauses) {
+      return result("unknown", {
+        reason: `Clause limit of ${maxClauses} reached`,
+      });
+    }
+    if (Date.now() > deadline) {
+      return result("unknown", {
+        reason: `Time limit of ${timeLimit} ms reached`,
+      });
+    }
+
+    const index =
+      ++picks % AGE_PICK === 0
+        ? 0
+        : passive.reduce(
+            (best, c, i) => (c.weight < passive[best].weight ? i : best),
+            0,
+          );
+    const [given] = passive.splice(index, 1);
+    if (active.some((a) => subsumes(a.literals, given.literals))) continue;
+    steps++;
+    active.push(given);
+
+    for (const other of active) {
+      for (const r of resolvents(given.literals, other.literals)) {
+        generated++;
+        const clause = add(r.literals, {
+          rule: "resolution",
+          parents: [given.id, other.id],
+          unifier: r.unifier,
+        });
+        if (clause?.literals.length === 0) {
+          return result("proved", { proof: refutation(clause, all) });
+        }
+      }
+    }
+    for (const f of factors(given.literals)) {
+      generated++;
+      add(f.literals, {
+        rule: "factoring",
+        parents: [given.id],
+        unifier: f.unifier,
+      });
+    }
+  }
+
+  const inputClauses = inputs.map((i) => i.literals);
+  return result("refuted", {
+    countermodel:
+      groundModel(inputClauses) ?? unitFacts(active.map((c) => c.literals)),
+  });
+}
+
+/** The clauses the empty clause was derived from, in order */
+function refutation(
+  empty: ResolutionClause,
+  all: ResolutionClause[],
+): ResolutionStep[] {
+  const needed = new Set<number>();
+  const stack = [empty.id];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (needed.has(id)) continue;
+    needed.add(id);
+    const origin = all[id].origin;
+    if ("parents" in origin) stack.push(...origin.parents);
+  }
+
+  const ids = [...needed].sort((a, b) => a - b);
+  const numbers = new Map(ids.map((id, i) => [id, i + 1]));
+  return ids.map((id, i) => {
+    const { literals, origin } = all[id];
+    return {
+      step: i + 1,
+      clause: formatClause(literals),
+      rule: origin.rule,
+      ...(origin.rule === "premise" && { premise: origin.premise }),
+      from:
+        "parents" in origin
+          ? [...new Set(origin.parents.map((p) => numbers.get(p)!))]
+          : [],
+      ...("unifier" in origin &&
+        origin.unifier.size > 0 && {
+          unifier: formatUnifier(origin.unifier),
+        }),
+    };
+  });
+}
+
+const RULE_LABELS: Record<ResolutionStep["rule"], string> = {
+  premise: "premise",
+  negated_conclusion: "negated conclusion",
+  resolution: "resolution",
+  factoring: "factoring",
+};
+
+/**
+ * A refutation as lines such as "4. Mortal(socrates)  [resolution 1, 2;
+ * x ↦ socrates]"
+ */
+export function formatRefutation(proof: ResolutionStep[]): string[] {
+  return proof.map((s) => {
+    const source =
+      s.rule === "premise"
+        ? `premise ${s.premise}`
+        : [RULE_LABELS[s.rule], s.from.join(", ")].filter(Boolean).join(" ");
+    return `${s.step}. ${s.clause}  [${source}${s.unifier ? `; ${s.unifier}` : ""}]`;
+  });
+}
+
+/** Facts a countermodel description lists before summarizing the rest */
+const LISTED_FACTS = 8;
+
+/**
+ * A countermodel in words: "domain {socrates} with Man(socrates) false,
+ * Mortal(socrates) true" when complete, and its unit clauses otherwise
+ */
+export function formatCountermodel(model: Countermodel): string {
+  const facts = Object.entries(model.facts);
+  const listed = facts
+    .slice(0, LISTED_FACTS)
+    .map(([atom, value]) => `${atom} ${value ? "true" : "false"}`);
+  if (facts.length > LISTED_FACTS) {
+    listed.push(`${facts.length - LISTED_FACTS} more`);
+  }
+  if (!model.complete) {
+    return listed.length ? listed.join(", ") : "no unit clauses";
+  }
+  return `domain {${model.domain.join(", ")}} with ${listed.join(", ")}`;
+}
@@ -0,0 +1,428 @@
+/**
+ * Propositional Satisfiability
+ *
+ * `solveCnf` is a conflict-driven clause-learning (CDCL) solver, the DPLL
+ * search of Davis, Logemann and Loveland (1962) extended as in GRASP and
+ * Chaff:
+ *
+ * - Unit propagation over two watched literals per clause.
+ * - On a conflict, the clause at the first unique implication point is
+ *   learned, and the search jumps back to the second-highest decision level
+ *   in it rather than to the last decision.
+ * - Decisions pick the unassigned variable with the highest activity, bumped
+ *   for every variable in a conflict and decayed after each one (VSIDS), with
+ *   the value it last had (phase saving).
+ *
+ * Formulas reach the solver by the Tseitin encoding: a fresh variable per
+ * connective, tied to its operands by a few clauses. The encoding is
+ * satisfiable exactly when the formula is, and grows linearly with it, unlike
+ * the CNF by distribution in normal-forms.ts.
+ *
+ * Validity and equivalence are refutations: premises entail a conclusion
+ * when the premises with the conclusion negated are unsatisfiable, and two
+ * formulas are equivalent when their exclusive or is.
+ */
+
+import { formulaVariables } from "./formula.js";
+import type {
+  Clause,
+  CnfResult,
+  EntailmentCheck,
+  EquivalenceCheck,
+  Formula,
+  SatisfiabilityCheck,
+} from "./types.js";
+
+export interface SatOptions {
+  /** Conflicts before giving up with "unknown" (default 100 000) */
+  conflictLimit?: number;
+}
+
+/** Activity decay per conflict */
+const DECAY = 0.95;
+
+/**
+ * Decide a CNF problem over variables 1..variableCount
+ */
+export function solveCnf(
+  clauses: Clause[],
+  variableCount: number,
+  options: SatOptions = {},
+): CnfResult {
+  return new CdclSolver(variableCount).solve(
+    clauses,
+    options.conflictLimit ?? 100_000,
+  );
+}
+
+class CdclSolver {
+  /** 1 true, -1 false, 0 unassigned; index by variable */
+  private readonly value: Int8Array;
+  private readonly level: Int32Array;
+  /** Index of the clause that implied each variable; -1 for decisions */
+  private readonly reason: Int32Array;
+  private readonly activity: Float64Array;
+  private readonly phase: Int8Array;
+  private readonly clauses: Clause[] = [];
+  /** Clause indices watching each literal, keyed by literal */
+  private readonly watches = new Map<number, number[]>();
+  private readonly trail: number[] = [];
+  /** Trail length at the start of each decision level */
+  private readonly trailLimits: number[] = [];
+  private head = 0;
+  private increment = 1;
+  private decisions = 0;
+  private conflicts = 0;
+  private learned = 0;
+
+  constructor(private readonly n: number) {
+    this.value = new Int8Array(n + 1);
+    this.level = new Int32Array(n + 1);
+    this.reason = new Int32Array(n + 1).fill(-1);
+    this.activity = new Float64Array(n + 1);
+    this.phase = new Int8Array(n + 1).fill(-1);
+  }
+
+  solve(input: Clause[], conflictLimit: number): CnfResult {
+    for (const clause of input) {
+      if (!this.addClause(clause)) return this.result("unsatisfiable");
+    }
+
+    for (;;) {
+      const conflict = this.propagate();
+      if (conflict >= 0) {
+        this.conflicts++;
+        if (this.trailLimits.length === 0) {
+          return this.result("unsatisfiable");
+        }
+        if (this.conflicts > conflictLimit) return this.result("unknown");
+        const { clause, backjump } = this.analyze(conflict);
+        this.cancelUntil(backjump);
+        if (clause.length === 1) {
+          this.assign(clause[0], -1);
+        } else {
+          const index = this.attach(clause);
+          this.learned++;
+          this.assign(clause[0], index);
+        }
+        this.increment /= DECAY;
+        continue;
+      }
+
+      const v = this.pickBranch();
+      if (v === 0) return this.result("satisfiable");
+      this.decisions++;
+      this.trailLimits.push(this.trail.length);
+      this.assign(this.phase[v] > 0 ? v : -v, -1);
+    }
+  }
+
+  /**
+   * Add an input clause at level 0; false when it makes the problem
+   * unsatisfiable outright
+   */
+  private addClause(input: Clause): boolean {
+    const literals = [...new Set(input)];
+    if (literals.some((l) => literals.includes(-l))) return true;
+    if (literals.length === 0) return false;
+    if (literals.length === 1) {
+      const current = this.literalValue(literals[0]);
+      if (current < 0) return false;
+      if (current === 0) this.assign(literals[0], -1);
+      return true;
+    }
+    this.attach(literals);
+    return true;
+  }
+
+  private attach(clause: Clause): number {
+    const index = this.clauses.length;
+    this.clauses.push(clause);
+    this.watch(clause[0], index);
+    this.watch(clause[1], index);
+    return index;
+  }
+
+  private watch(literal: number, index: number): void {
+    const list = this.watches.get(literal);
+    if (list) list.push(index);
+    else this.watches.set(literal, [index]);
+  }
+
+  private literalValue(literal: number): number {
+    const v = this.value[Math.abs(literal)];
+    return literal > 0 ? v : -v;
+  }
+
+  private assign(literal: number, reason: number): void {
+    const v = Math.abs(literal);
+    this.value[v] = literal > 0 ? 1 : -1;
+    this.level[v] = this.trailLimits.length;
+    this.reason[v] = reason;
+    this.trail.push(literal);
+  }
+
+  /**
+   * Unit propagation; the index of a falsified clause, or -1
+   */
+  private propagate(): number {
+    while (this.head < this.trail.length) {
+      const falsified = -this.trail[this.head++];
+      const watching = this.watches.get(falsified) ?? [];
+      const kept: number[] = [];
+      let conflict = -1;
+
+      for (let w = 0; w < watching.length; w++) {
+        const index = watching[w];
+        if (conflict >= 0) {
+          kept.push(index);
+          continue;
+        }
+        const clause = this.clauses[index];
+        // Keep the falsified watch in position 1
+        if (clause[0] === falsified) {
+          clause[0] = clause[1];
+          clause[1] = falsified;
+        }
+        if (this.literalValue(clause[0]) > 0) {
+          kept.push(index);
+          continue;
+        }
+        const k = clause.findIndex(
+          (l, i) => i >= 2 && this.literalValue(l) >= 0,
+        );
+        if (k >= 0) {
+          clause[1] = clause[k];
+          clause[k] = falsified;
+          this.watch(clause[1], index);
+          continue;
+        }
+        kept.push(index);
+        if (this.literalValue(clause[0]) < 0) conflict = index;
+        else this.assign(clause[0], index);
+      }
+
+      this.watches.set(falsified, kept);
+      if (conflict >= 0) return conflict;
+    }
+    return -1;
+  }
+
+  /**
+   * Learn the first-UIP clause of a conflict; the asserting literal comes
+   * first and a literal of the backjump level second, so both can be watched
+   */
+  private analyze(conflict: number): { clause: Clause; backjump: number } {
+    const current = this.trailLimits.length;
+    const seen = new Uint8Array(this.n + 1);
+    const learned: Clause = [0];
+    let pending = 0;
+    let index = this.trail.length - 1;
+    let reason = conflict;
+    let literal = 0;
+
+    do {
+      for (const l of this.clauses[reason]) {
+        const v = Math.abs(l);
+        if (l === literal || seen[v] || this.level[v] === 0) continue;
+        seen[v] = 1;
+        this.bump(v);
+        if (this.level[v] >= current) pending++;
+        else learned.push(l);
+      }
+      while (!seen[Math.abs(this.trail[index])]) index--;
+      literal = this.trail[index--];
+      reason = this.reason[Math.abs(literal)];
+      pending--;
+    } while (pending > 0);
+    learned[0] = -literal;
+
+    let backjump = 0;
+    for (let i = 1; i < learned.length; i++) {
+      const l = this.level[Math.abs(learned[i])];
+      if (l > backjump) {
+        backjump = l;
+        [learned[1], learned[i]] = [learned[i], learned[1]];
+      }
+    }
+    return { clause: learned, backjump };
+  }
+
+  private bump(v: number): void {
+    this.activity[v] += this.increment;
+    if (this.activity[v] > 1e100) {
+      for (let u = 1; u <= this.n; u++) this.activity[u] *= 1e-100;
+      this.increment *= 1e-100;
+    }
+  }
+
+  private cancelUntil(level: number): void {
+    if (this.trailLimits.length <= level) return;
+    const start = this.trailLimits[level];
+    for (let i = this.trail.length - 1; i >= start; i--) {
+      const v = Math.abs(this.trail[i]);
+      this.phase[v] = this.value[v];
+      this.value[v] = 0;
+      this.reason[v] = -1;
+    }
+    this.trail.length = start;
+    this.trailLimits.length = level;
+    this.head = start;
+  }
+
+  private pickBranch(): number {
+    let best = 0;
+    for (let v = 1; v <= this.n; v++) {
+      if (
+        this.value[v] === 0 &&
+        (best === 0 || this.activity[v] > this.activity[best])
+      ) {
+        best = v;
+      }
+    }
+    return best;
+  }
+
+  private result(status: CnfResult["status"]): CnfResult {
+    return {
+      status,
+      ...(status === "satisfiable" && {
+        model: Array.from({ length: this.n }, (_, i) => this.value[i + 1] > 0),
+      }),
+      decisions: this.decisions,
+      conflicts: this.conflicts,
+      learned: this.learned,
+    };
+  }
+}
+
+/**
+ * Tseitin encoding of a conjunction of formulas
+ *
+ * The formulas' own variables come first, numbered 1..k in order of first
+ * use, so a model's first k values are their assignment.
+ */
+export function tseitin(formulas: Formula[]): {
+  clauses: Clause[];
+  variables: string[];
+  variableCount: number;
+} {
+  const variables = [...new Set(formulas.flatMap((f) => formulaVariables(f)))];
+  const numbers = new Map(variables.map((name, i) => [name, i + 1]));
+  const clauses: Clause[] = [];
+  let count = variables.length;
+
+  // The literal equivalent to a subformula
+  const encode = (f: Formula): number => {
+    switch (f.type) {
+      case "variable":
+        return numbers.get(f.name)!;
+      case "constant": {
+        const x = ++count;
+        clauses.push([f.value ? x : -x]);
+        return x;
+      }
+      case "not":
+        return -encode(f.operand);
+      case "binary": {
+        const a = encode(f.left);
+        const b = encode(f.right);
+        const x = ++count;
+        switch (f.operator) {
+          case "and":
+            clauses.push([-x, a], [-x, b], [x, -a, -b]);
+            break;
+          case "nand":
+            clauses.push([x, a], [x, b], [-x, -a, -b]);
+            break;
+          case "or":
+            clauses.push([x, -a], [x, -b], [-x, a, b]);
+            break;
+          case "nor":
+            clauses.push([-x, -a], [-x, -b], [x, a, b]);
+            break;
+          case "implies":
+            clauses.push([x, a], [x, -b], [-x, -a, b]);
+            break;
+          case "iff":
+            clauses.push([-x, -a, b], [-x, a, -b], [x, a, b], [x, -a, -b]);
+            break;
+          case "xor":
+            clauses.push([x, -a, b], [x, a, -b], [-x, a, b], [-x, -a, -b]);
+            break;
+        }
+        return x;
+      }
+    }
+  };
+
+  for (const formula of formulas) clauses.push([encode(formula)]);
+  return { clauses, variables, variableCount: count };
+}
+
+/**
+ * Whether some assignment makes every formula true
+ */
+export function checkSatisfiable(
+  formulas: Formula[],
+  options: SatOptions = {},
+): SatisfiabilityCheck {
+  const { clauses, variables, variableCount } = tseitin(formulas);
+  const result = solveCnf(clauses, variableCount, options);
+  return {
+    status: result.status,
+    ...(result.model && {
+      model: Object.fromEntries(variables.map((v, i) => [v, result.model![i]])),
+    }),
+    decisions: result.decisions,
+    conflicts: result.conflicts,
+  };
+}
+
+/**
+ * Whether the premises entail the conclusion
+ */
+export function checkEntailment(
+  premises: Formula[],
+  conclusion: Formula,
+  options: SatOptions = {},
+): EntailmentCheck {
+  const result = checkSatisfiable(
+    [...premises, { type: "not", operand: conclusion }],
+    options,
+  );
+  return {
+    status:
+      result.status === "unsatisfiable"
+        ? "valid"
+        : result.status === "satisfiable"
+          ? "invalid"
+          : "unknown",
+    ...(result.model && { counterexample: result.model }),
+    conflicts: result.conflicts,
+  };
+}
+
+/**
+ * Whether two formulas are true on exactly the same assignments
+ */
+export function checkEquivalence(
+  a: Formula,
+  b: Formula,
+  options: SatOptions = {},
+): EquivalenceCheck {
+  const result = checkSatisfiable(
+    [{ type: "binary", operator: "xor", left: a, right: b }],
+    options,
+  );
+  return {
+    status:
+      result.status === "unsatisfiable"
+        ? "equivalent"
+        : result.status === "satisfiable"
+          ? "not_equivalent"
+          : "unknown",
+    ...(result.model && { counterexample: result.model }),
+    conflicts: result.conflicts,
+  };
+}
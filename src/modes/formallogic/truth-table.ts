@@ -0,0 +1,57 @@
+/**
+ * Truth Tables
+ *
+ * Evaluates a formula on every assignment of its variables. A table has 2^n
+ * rows, so it is refused past a variable limit; satisfiability and validity
+ * of larger formulas go to the SAT solver instead.
+ */
+
+import { evaluateFormula, formulaVariables } from "./formula.js";
+import type { Formula, TruthTableResult } from "./types.js";
+
+export interface TruthTableOptions {
+  /** Columns, in order; default the formula's variables in order of first use */
+  variables?: string[];
+
+  /** Most variables a table may have (default 12, 4096 rows) */
+  maxVariables?: number;
+}
+
+/**
+ * Build the truth table of a formula
+ *
+ * Rows count down in binary from all true, the first variable changing
+ * slowest, as truth tables are usually written.
+ *
+ * @throws Error if the formula has more variables than `maxVariables`
+ */
+export function buildTruthTable(
+  formula: Formula,
+  options: TruthTableOptions = {},
+): TruthTableResult {
+  const { maxVariables = 12 } = options;
+  const variables = options.variables ?? formulaVariables(formula);
+  if (variables.length > maxVariables) {
+    throw new Error(
+      `A truth table of ${variables.length} variables has ${2 ** variables.length} rows (limit ${maxVariables} variables)`,
+    );
+  }
+
+  const n = variables.length;
+  const rows: TruthTableResult["rows"] = [];
+  for (let i = 0; i < 2 ** n; i++) {
+    const assignment: Record<string, boolean> = {};
+    variables.forEach((name, k) => {
+      // Bit n-1-k of i, inverted so the first row is all true
+      assignment[name] = ((i >> (n - 1 - k)) & 1) === 0;
+    });
+    rows.push({ assignment, value: evaluateFormula(formula, assignment) });
+  }
+
+  return {
+    variables,
+    rows,
+    tautology: rows.every((r) => r.value),
+    contradiction: rows.every((r) => !r.value),
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Engine Types for Formal Logic Reasoning
+ *
+ * These types back the logic engine in src/modes/formallogic/. A
+ * propositional formula string is read once into a `Formula` tree; truth
+ * tables, normal forms and the SAT solver all work from that tree. A
+ * first-order formula is read into a `FirstOrderFormula` for the resolution
+ * prover. The results are mapped onto TruthTable / SatisfiabilityResult /
+ * NormalForm / ValidityResult in src/types/modes/formallogic.ts by
+ * FormalLogicHandler.
+ */
+
+// ============================================================================
+// FORMULAS
+// ============================================================================
+
+export type BinaryConnective =
+  "and" | "or" | "implies" | "iff" | "xor" | "nand" | "nor";
+
+/**
+ * A propositional formula
+ */
+export type Formula =
+  | { type: "constant"; value: boolean }
+  | { type: "variable"; name: string }
+  | { type: "not"; operand: Formula }
+  | {
+      type: "binary";
+      operator: BinaryConnective;
+      left: Formula;
+      right: Formula;
+    };
+
+/** How a formula is written back out */
+export type Notation = "unicode" | "ascii" | "latex";
+
+// ============================================================================
+// TRUTH TABLES
+// ============================================================================
+
+export interface TruthTableResult {
+  /** Variables in column order */
+  variables: string[];
+
+  /** 2^n rows, the all-true row first */
+  rows: { assignment: Record<string, boolean>; value: boolean }[];
+
+  tautology: boolean;
+  contradiction: boolean;
+}
+
+// ============================================================================
+// SATISFIABILITY
+// ============================================================================
+
+/**
+ * A clause of a CNF problem in DIMACS style: variables are 1..n, and the
+ * literal -v is the negation of v
+ */
+export type Clause = number[];
+
+export interface CnfResult {
+  /** "unknown" when the conflict limit was reached first */
+  status: "satisfiable" | "unsatisfiable" | "unknown";
+
+  /** Value of each variable 1..n at index v - 1, when satisfiable */
+  model?: boolean[];
+
+  decisions: number;
+  conflicts: number;
+
+  /** Clauses learned from conflicts */
+  learned: number;
+}
+
+/**
+ * Satisfiability of a formula, with its model in the formula's own variables
+ */
+export interface SatisfiabilityCheck {
+  status: CnfResult["status"];
+  model?: Record<string, boolean>;
+  decisions: number;
+  conflicts: number;
+}
+
+/**
+ * Whether premises entail a conclusion; the counterexample makes every
+ * premise true and the conclusion false
+ */
+export interface EntailmentCheck {
+  status: "valid" | "invalid" | "unknown";
+  counterexample?: Record<string, boolean>;
+  conflicts: number;
+}
+
+/**
+ * Whether two formulas agree on every assignment; the counterexample is one
+ * where they differ
+ */
+export interface EquivalenceCheck {
+  status: "equivalent" | "not_equivalent" | "unknown";
+  counterexample?: Record<string, boolean>;
+  conflicts: number;
+}
+
+// ============================================================================
+// NATURAL DEDUCTION
+// ============================================================================
+
+/**
+ * Rules the natural-deduction checker knows, in Fitch-style
+ * introduction/elimination form plus the common derived rules
+ */
+export type DeductionRule =
+  | "premise"
+  | "assumption"
+  | "reiteration"
+  | "and_intro"
+  | "and_elim"
+  | "or_intro"
+  | "or_elim"
+  | "implies_intro"
+  | "implies_elim"
+  | "iff_intro"
+  | "iff_elim"
+  | "not_intro"
+  | "not_elim"
+  | "reductio"
+  | "double_negation"
+  | "explosion"
+  | "excluded_middle"
+  | "modus_tollens"
+  | "hypothetical_syllogism"
+  | "disjunctive_syllogism"
+  | "resolution";
+
+/**
+ * One line of a proof to check; the same shape as a formal logic
+ * `ProofStep`
+ */
+export interface DeductionStep {
+  stepNumber: number;
+
+  /** The formula the step asserts; `statement` is read when it is absent */
+  formula?: string;
+  statement?: string;
+
+  justification?: string;
+
+  /** Rule name, taking precedence over the justification text */
+  rule?: string;
+
+  referencesSteps?: number[];
+  isAssumption?: boolean;
+  dischargesAssumption?: number;
+}
+
+export interface DeductionStepResult {
+  stepNumber: number;
+  rule?: DeductionRule;
+
+  /**
+   * "unchecked" when the formula or the rule could not be read, or the step
+   * cites one that could not
+   */
+  status: "valid" | "invalid" | "unchecked";
+
+  /** Why the step is invalid or unchecked */
+  reason?: string;
+
+  /** Subproofs the step sits in */
+  depth: number;
+}
+
+export interface DeductionCheck {
+  steps: DeductionStepResult[];
+
+  /** The first invalid step, if any */
+  firstInvalid?: { stepNumber: number; rule?: DeductionRule; reason: string };
+
+  /** Every step was checked and follows by its rule */
+  verified: boolean;
+
+  /** Assumptions no rule discharges, by step number */
+  openAssumptions: number[];
+
+  /** Premise steps, by step number */
+  premises: number[];
+
+  /**
+   * "premises ⊢ last formula", when the proof is verified with no open
+   * assumption
+   */
+  sequent?: string;
+}
+
+// ============================================================================
+// FIRST-ORDER LOGIC
+// ============================================================================
+
+/**
+ * A first-order term; a constant is a function of no arguments
+ */
+export type Term =
+  | { type: "variable"; name: string }
+  | { type: "function"; name: string; args: Term[] };
+
+export type Quantifier = "forall" | "exists";
+
+/**
+ * A first-order formula; a predicate of no arguments is a propositional atom
+ */
+export type FirstOrderFormula =
+  | { type: "constant"; value: boolean }
+  | { type: "atom"; predicate: string; args: Term[] }
+  | { type: "not"; operand: FirstOrderFormula }
+  | {
+      type: "binary";
+      operator: BinaryConnective;
+      left: FirstOrderFormula;
+      right: FirstOrderFormula;
+    }
+  | {
+      type: "quantifier";
+      quantifier: Quantifier;
+      variable: string;
+      body: FirstOrderFormula;
+    };
+
+export interface ResolutionOptions {
+  /** Given clauses to process before giving up (default 100) */
+  maxSteps?: number;
+
+  /** Clauses to keep before giving up (default 5000) */
+  maxClauses?: number;
+
+  /** Milliseconds before giving up, a safety net behind the steps (default 5000) */
+  timeLimitMs?: number;
+}
+
+/**
+ * One clause of a resolution refutation
+ */
+export interface ResolutionStep {
+  /** Position in the refutation, from 1 */
+  step: number;
+
+  /** The clause, "□" for the empty clause */
+  clause: string;
+
+  rule: "premise" | "negated_conclusion" | "resolution" | "factoring";
+
+  /** Which premise, from 1, for a premise clause */
+  premise?: number;
+
+  /** Steps the clause was derived from */
+  from: number[];
+
+  /** The most general unifier used, as "x ↦ socrates, y ↦ f(x)" */
+  unifier?: string;
+}
+
+/**
+ * A model of the premises and the negated conclusion
+ */
+export interface Countermodel {
+  /** Domain elements, named by the constants that denote them */
+  domain: string[];
+
+  /**
+   * Atoms and their values. In a complete model every ground atom is
+   * listed; otherwise these are the unit clauses left after saturation, and
+   * an atom with variables holds for every value of them
+   */
+  facts: Record<string, boolean>;
+
+  /** Whether the facts are a whole model over a finite domain */
+  complete: boolean;
+}
+
+/**
+ * Whether premises entail a conclusion in first-order logic
+ *
+ * "proved" comes with the refutation, "refuted" when resolution saturates
+ * without the empty clause (the premises and the negated conclusion have a
+ * model), and "unknown" when the budget ran out first.
+ */
+export interface FirstOrderResult {
+  status: "proved" | "refuted" | "unknown";
+  proof?: ResolutionStep[];
+  countermodel?: Countermodel;
+
+  /** Why the search stopped, when unknown */
+  reason?: string;
+
+  /** Clauses from the premises and the negated conclusion */
+  inputClauses: number;
+
+  /** Given clauses processed */
+  steps: number;
+
+  /** Clauses derived, kept or not */
+  generated: number;
+}
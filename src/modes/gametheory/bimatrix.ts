@@ -0,0 +1,85 @@
+/**
+ * Bimatrix Construction
+ *
+ * Reads a two-player PayoffMatrix, whose payoffs are a flat list of
+ * strategy profiles, into the dense row/column form the equilibrium solvers
+ * work on.
+ */
+
+import type { PayoffMatrix, Player } from "../../types/modes/gametheory.js";
+import type { Bimatrix } from "./types.js";
+
+/**
+ * Read a two-player payoff matrix into a bimatrix
+ *
+ * Each player's strategies are taken, in order, from their
+ * `availableStrategies` when the player is listed, otherwise from the order
+ * the strategies first appear in the payoff entries. If a profile has more
+ * than one entry, the first wins.
+ *
+ * @throws Error if the game does not have exactly two players, or a
+ *   strategy profile has no payoff entry
+ */
+export function toBimatrix(matrix: PayoffMatrix, players: Player[]): Bimatrix {
+  if (matrix.players.length !== 2) {
+    throw new Error(
+      `A bimatrix game has two players, this one has ${matrix.players.length}`,
+    );
+  }
+  const [rowPlayer, columnPlayer] = matrix.players;
+
+  const strategiesOf = (position: number): string[] => {
+    const player = players.find((p) => p.id === matrix.players[position]);
+    if (player?.availableStrategies?.length) {
+      return [...new Set(player.availableStrategies)];
+    }
+    return [
+      ...new Set(
+        matrix.payoffs.map((entry) => entry.strategyProfile[position]),
+      ),
+    ];
+  };
+  const rowStrategies = strategiesOf(0);
+  const columnStrategies = strategiesOf(1);
+
+  const entries = new Map<string, number[]>();
+  for (const entry of matrix.payoffs) {
+    const key = JSON.stringify(entry.strategyProfile.slice(0, 2));
+    if (!entries.has(key)) entries.set(key, entry.payoffs);
+  }
+
+  const rowPayoffs: number[][] = [];
+  const columnPayoffs: number[][] = [];
+  for (const row of rowStrategies) {
+    const rowA: number[] = [];
+    const rowB: number[] = [];
+    for (const column of columnStrategies) {
+      const payoffs = entries.get(JSON.stringify([row, column]));
+      if (!payoffs || payoffs.length < 2) {
+        throw new Error(`No payoffs for strategy profile (${row}, ${column})`);
+      }
+      rowA.push(payoffs[0]);
+      rowB.push(payoffs[1]);
+    }
+    rowPayoffs.push(rowA);
+    columnPayoffs.push(rowB);
+  }
+
+  return {
+    rowPlayer,
+    columnPlayer,
+    rowStrategies,
+    columnStrategies,
+    rowPayoffs,
+    columnPayoffs,
+  };
+}
+
+/**
+ * Whether every outcome's payoffs sum to zero
+ */
+export function isZeroSum(game: Bimatrix, tolerance = 1e-9): boolean {
+  return game.rowPayoffs.every((row, i) =>
+    row.every((a, j) => Math.abs(a + game.columnPayoffs[i][j]) <= tolerance),
+  );
+}
@@ -0,0 +1,413 @@
+/**
+ * Cooperative Games: Shapley Value, Core and Nucleolus
+ *
+ * Solvers for transferable-utility games given by their characteristic
+ * function v. The Shapley value averages each player's marginal
+ * contribution over every order in which the grand coalition could form;
+ * above a player count it is estimated from random orders instead. The core
+ * is the set of efficient allocations no coalition can improve on alone, and
+ * the nucleolus is the allocation that lexicographically minimizes the
+ * largest complaints v(S) − x(S) (Schmeidler, 1969). It lies in the core
+ * whenever the core is non-empty.
+ *
+ * The least core and nucleolus come from Maschler's sequence of linear
+ * programs, each solved in its dual form: one row per player plus one, and a
+ * column per coalition, which stays small where the primal would need a row
+ * for each of the 2ⁿ coalitions.
+ */
+
+import type { CoalitionValue } from "../../types/modes/gametheory.js";
+import { clean } from "../../utils/numeric.js";
+import { SeededRNG } from "../stochastic/sampling/rng.js";
+import { solveLinearProgram } from "../optimization/linear-program.js";
+import type { LinearConstraint } from "../optimization/types.js";
+import type { CoalitionGame, NucleolusResult, ShapleyResult } from "./types.js";
+
+const EPSILON = 1e-9;
+
+/** Most players whose coalitions fit in a bitmask */
+const MAX_PLAYERS = 50;
+
+/** Most players for the solvers that visit every coalition */
+export const EXACT_PLAYER_LIMIT = 12;
+
+/**
+ * Read a characteristic function into a coalition game
+ *
+ * When a coalition is listed more than once, the first value counts.
+ *
+ * @throws Error on a coalition with an unknown player, a non-zero value for
+ *   the empty coalition, or more than 50 players
+ */
+export function readCoalitionGame(
+  players: string[],
+  characteristicFunction: CoalitionValue[],
+): CoalitionGame {
+  if (players.length > MAX_PLAYERS) {
+    throw new Error(
+      `Cooperative games are limited to ${MAX_PLAYERS} players, got ${players.length}`,
+    );
+  }
+  const values = new Map<number, number>();
+  for (const { coalition, value } of characteristicFunction) {
+    let mask = 0;
+    for (const player of new Set(coalition)) {
+      const index = players.indexOf(player);
+      if (index < 0) {
+        throw new Error(`Coalition member ${player} is not a player`);
+      }
+      mask += 2 ** index;
+    }
+    if (mask === 0) {
+      if (value !== 0) {
+        throw new Error(`The empty coalition must be worth 0, not ${value}`);
+      }
+      continue;
+    }
+    if (!values.has(mask)) values.set(mask, value);
+  }
+  return { players, values };
+}
+
+/**
+ * v(S), with coalitions that were not listed worth 0
+ */
+export function coalitionValue(game: CoalitionGame, mask: number): number {
+  return game.values.get(mask) ?? 0;
+}
+
+/**
+ * Members of a coalition, in player order
+ */
+export function coalitionMembers(game: CoalitionGame, mask: number): string[] {
+  return game.players.filter((_, i) => hasMember(mask, i));
+}
+
+/**
+ * Shapley value of every player
+ *
+ * Exact up to `exactLimit` players. Above it, each estimate is the mean
+ * marginal contribution over `samples` random orders of the players, drawn
+ * from a seeded generator so the same game gives the same estimate.
+ */
+export function shapleyValues(
+  game: CoalitionGame,
+  options: { exactLimit?: number; samples?: number; seed?: number } = {},
+): ShapleyResult {
+  const { exactLimit = EXACT_PLAYER_LIMIT, samples = 2000, seed = 1 } = options;
+  const n = game.players.length;
+  if (n <= exactLimit) {
+    return { values: exactShapleyValues(game), method: "exact" };
+  }
+
+  const rng = new SeededRNG(seed);
+  const sums = new Array<number>(n).fill(0);
+  const squares = new Array<number>(n).fill(0);
+  const order = game.players.map((_, i) => i);
+  for (let s = 0; s < samples; s++) {
+    rng.shuffle(order);
+    let mask = 0;
+    let before = 0;
+    for (const i of order) {
+      mask += 2 ** i;
+      const after = coalitionValue(game, mask);
+      sums[i] += after - before;
+      squares[i] += (after - before) ** 2;
+      before = after;
+    }
+  }
+
+  const values = sums.map((sum) => sum / samples);
+  const standardErrors = values.map((mean, i) => {
+    if (samples < 2) return Infinity;
+    const variance = (squares[i] - samples * mean * mean) / (samples - 1);
+    return Math.sqrt(Math.max(0, variance) / samples);
+  });
+  return { values, method: "sampled", samples, standardErrors };
+}
+
+/**
+ * The least core and the nucleolus
+ *
+ * The least core relaxes every proper coalition's claim by the same ε and
+ * asks for the smallest ε that leaves an efficient allocation. The nucleolus
+ * repeats this over imputations: the coalitions whose complaint cannot go
+ * below ε are fixed at it, and the rest are relaxed again, until the
+ * allocation is pinned down.
+ *
+ * @throws Error if the game has more than EXACT_PLAYER_LIMIT players
+ */
+export function findNucleolus(game: CoalitionGame): NucleolusResult {
+  requireExactSize(game, "The nucleolus");
+  const n = game.players.length;
+  const grand = 2 ** n - 1;
+  const proper = Array.from({ length: grand - 1 }, (_, k) => k + 1);
+  const grandFixed = [{ mask: grand, excess: 0 }];
+
+  const leastCore = minimizeMaxExcess(game, proper, grandFixed, false)!;
+
+  const singletons = game.players.reduce(
+    (sum, _, i) => sum + coalitionValue(game, 2 ** i),
+    0,
+  );
+  if (singletons > coalitionValue(game, grand) + EPSILON) {
+    return {
+      leastCoreEpsilon: leastCore.epsilon,
+      leastCoreAllocation: leastCore.allocation,
+    };
+  }
+
+  let active = proper;
+  const fixed = [...grandFixed];
+  const span: number[][] = [];
+  addToSpan(span, indicator(grand, n));
+  let allocation = leastCore.allocation;
+  while (span.length < n && active.length > 0) {
+    const round = minimizeMaxExcess(game, active, fixed, true);
+    if (!round) break;
+    allocation = round.allocation;
+    for (const mask of round.tight) {
+      fixed.push({ mask, excess: round.epsilon });
+      addToSpan(span, indicator(mask, n));
+    }
+    active = active.filter(
+      (mask) => !isInSpan(span, indicator(mask, n)) && !round.tight.has(mask),
+    );
+  }
+
+  return {
+    leastCoreEpsilon: leastCore.epsilon,
+    leastCoreAllocation: leastCore.allocation,
+    nucleolus: allocation,
+  };
+}
+
+/**
+ * Coalitions that would do better on their own than under an allocation:
+ * v(S) > Σ_{i∈S} x_i. Only listed coalitions and single players are
+ * checked; an unlisted coalition can only block where one of its members
+ * gets less than 0, and that member blocks alone.
+ */
+export function blockingCoalitions(
+  game: CoalitionGame,
+  allocation: number[],
+): number[] {
+  const masks = new Set(game.values.keys());
+  game.players.forEach((_, i) => masks.add(2 ** i));
+  const grand = 2 ** game.players.length - 1;
+  return [...masks]
+    .filter((mask) => mask !== grand)
+    .sort((a, b) => a - b)
+    .filter(
+      (mask) =>
+        coalitionValue(game, mask) >
+        coalitionTotal(allocation, mask) + EPSILON * scale(game),
+    );
+}
+
+/**
+ * Whether v(S ∪ T) ≥ v(S) + v(T) for every pair of disjoint coalitions
+ *
+ * @throws Error if the game has more than EXACT_PLAYER_LIMIT players
+ */
+export function isSuperadditive(game: CoalitionGame): boolean {
+  requireExactSize(game, "Superadditivity");
+  const grand = 2 ** game.players.length - 1;
+  const tolerance = EPSILON * scale(game);
+  for (let union = 1; union <= grand; union++) {
+    const total = coalitionValue(game, union);
+    // Each split of the union into two non-empty parts, visited once
+    for (let part = (union - 1) & union; part > 0; part = (part - 1) & union) {
+      const rest = union ^ part;
+      if (part < rest) continue;
+      const sum = coalitionValue(game, part) + coalitionValue(game, rest);
+      if (sum > total + tolerance) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether the game is convex (supermodular): a player's marginal
+ * contribution never shrinks as the coalition they join grows. It is enough
+ * to check coalitions that differ by one player.
+ *
+ * @throws Error if the game has more than EXACT_PLAYER_LIMIT players
+ */
+export function isConvex(game: CoalitionGame): boolean {
+  requireExactSize(game, "Convexity");
+  const n = game.players.length;
+  const grand = 2 ** n - 1;
+  const tolerance = EPSILON * scale(game);
+  for (let mask = 0; mask <= grand; mask++) {
+    for (let i = 0; i < n; i++) {
+      if (hasMember(mask, i)) continue;
+      const gain =
+        coalitionValue(game, mask | (1 << i)) - coalitionValue(game, mask);
+      for (let j = i + 1; j < n; j++) {
+        if (hasMember(mask, j)) continue;
+        const larger = mask | (1 << j);
+        const largerGain =
+          coalitionValue(game, larger | (1 << i)) -
+          coalitionValue(game, larger);
+        if (gain > largerGain + tolerance) return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * φ_i = Σ_{S ∌ i} |S|!(n − |S| − 1)!/n! · (v(S ∪ {i}) − v(S))
+ */
+function exactShapleyValues(game: CoalitionGame): number[] {
+  const n = game.players.length;
+  const size = 2 ** n;
+  const v = Array.from({ length: size }, (_, mask) =>
+    coalitionValue(game, mask),
+  );
+
+  // weight[s] = s!(n − s − 1)!/n! = 1 / (n · C(n − 1, s))
+  const weight: number[] = [];
+  let binomial = 1;
+  for (let s = 0; s < n; s++) {
+    weight.push(1 / (n * binomial));
+    binomial = (binomial * (n - 1 - s)) / (s + 1);
+  }
+
+  const values = new Array<number>(n).fill(0);
+  for (let mask = 0; mask < size; mask++) {
+    const s = popCount(mask);
+    for (let i = 0; i < n; i++) {
+      if (hasMember(mask, i)) continue;
+      values[i] += weight[s] * (v[mask | (1 << i)] - v[mask]);
+    }
+  }
+  return values.map((v) => clean(v));
+}
+
+/**
+ * One linear program of the nucleolus sequence:
+ *
+ *   minimize ε  subject to  x(S) + ε ≥ v(S)      for each active S
+ *                           x(F) = v(F) − e_F    for each fixed F
+ *                           x_i ≥ v({i})         when individually rational
+ *
+ * solved as its dual, whose variables are weights on the constraints. The
+ * allocation and ε are the dual's shadow prices, and the active coalitions
+ * with positive weight are tight at every optimum.
+ *
+ * @returns undefined when no allocation satisfies the fixed constraints
+ */
+function minimizeMaxExcess(
+  game: CoalitionGame,
+  active: number[],
+  fixed: { mask: number; excess: number }[],
+  individuallyRational: boolean,
+): { epsilon: number; allocation: number[]; tight: Set<number> } | undefined {
+  const n = game.players.length;
+  const columns: { row: number[]; cost: number; free: boolean }[] = [];
+  for (const mask of active) {
+    columns.push({
+      row: [...indicator(mask, n).map((a) => -a), 1],
+      cost: coalitionValue(game, mask),
+      free: false,
+    });
+  }
+  for (const { mask, excess } of fixed) {
+    columns.push({
+      row: [...indicator(mask, n), 0],
+      cost: excess - coalitionValue(game, mask),
+      free: true,
+    });
+  }
+  if (individuallyRational) {
+    game.players.forEach((_, i) =>
+      columns.push({
+        row: [...indicator(2 ** i, n).map((a) => -a), 0],
+        cost: coalitionValue(game, 2 ** i),
+        free: false,
+      }),
+    );
+  }
+
+  const constraints: LinearConstraint[] = Array.from(
+    { length: n + 1 },
+    (_, r) => ({
+      coefficients: columns.map((column) => column.row[r]),
+      relation: "=",
+      rhs: r === n ? 1 : 0,
+    }),
+  );
+  const result = solveLinearProgram({
+    objective: columns.map((column) => column.cost),
+    constraints,
+    free: columns.map((column) => column.free),
+  });
+  if (result.status !== "optimal") return undefined;
+
+  const tight = new Set(active.filter((_, k) => result.x[k] > 1e-7));
+  return {
+    epsilon: clean(result.shadowPrices[n]),
+    allocation: result.shadowPrices.slice(0, n).map((p) => clean(-p)),
+    tight,
+  };
+}
+
+function indicator(mask: number, n: number): number[] {
+  return Array.from({ length: n }, (_, i) => (hasMember(mask, i) ? 1 : 0));
+}
+
+/**
+ * Add a vector to an echelon basis, unless it is already in its span
+ */
+function addToSpan(span: number[][], vector: number[]): void {
+  const reduced = reduce(span, vector);
+  const pivot = reduced.findIndex((a) => Math.abs(a) > EPSILON);
+  if (pivot >= 0) span.push(reduced.map((a) => a / reduced[pivot]));
+}
+
+function isInSpan(span: number[][], vector: number[]): boolean {
+  return reduce(span, vector).every((a) => Math.abs(a) <= EPSILON);
+}
+
+function reduce(span: number[][], vector: number[]): number[] {
+  const reduced = [...vector];
+  for (const row of span) {
+    const pivot = row.findIndex((a) => Math.abs(a) > EPSILON);
+    const factor = reduced[pivot];
+    if (factor === 0) continue;
+    row.forEach((a, c) => (reduced[c] -= factor * a));
+  }
+  return reduced;
+}
+
+function coalitionTotal(allocation: number[], mask: number): number {
+  return allocation.reduce(
+    (sum, x, i) => (hasMember(mask, i) ? sum + x : sum),
+    0,
+  );
+}
+
+/** Whether player i is in the coalition; works past 32 players */
+function hasMember(mask: number, i: number): boolean {
+  return Math.floor(mask / 2 ** i) % 2 === 1;
+}
+
+function popCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m > 0; m &= m - 1) count++;
+  return count;
+}
+
+function scale(game: CoalitionGame): number {
+  return Math.max(1, ...[...game.values.values()].map(Math.abs));
+}
+
+function requireExactSize(game: CoalitionGame, what: string): void {
+  if (game.players.length > EXACT_PLAYER_LIMIT) {
+    throw new Error(
+      `${what} needs every coalition, so it is limited to ${EXACT_PLAYER_LIMIT} players`,
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Nash Equilibria of Bimatrix Games by Support Enumeration
+ *
+ * For every pair of equal-size supports (I of the row player's strategies,
+ * J of the column player's), solve the indifference conditions: the column
+ * player mixes over J so that every row in I pays the row player the same,
+ * and the row player mixes over I so that every column in J pays the column
+ * player the same. A solution with non-negative probabilities where no
+ * strategy outside the support pays more is a Nash equilibrium.
+ *
+ * In a nondegenerate game every equilibrium has equal-size supports, so this
+ * finds them all. In a degenerate game (ties in best responses) equilibria
+ * can come in continua, and only the extreme ones this reaches are listed.
+ * Every equilibrium returned is verified either way.
+ */
+
+import { clean, solveLinearSystem } from "../../utils/numeric.js";
+import type {
+  Bimatrix,
+  EquilibriumSearchResult,
+  MixedEquilibrium,
+} from "./types.js";
+
+const EPSILON = 1e-9;
+
+/** Pairs of supports tried before giving up on completeness */
+const DEFAULT_MAX_SUPPORT_PAIRS = 100_000;
+
+/**
+ * Find the Nash equilibria of a bimatrix game, pure and mixed
+ *
+ * @returns Equilibria ordered by support size (pure ones first), and
+ *   whether every pair of supports was tried
+ */
+export function findEquilibria(
+  game: Bimatrix,
+  maxSupportPairs = DEFAULT_MAX_SUPPORT_PAIRS,
+): EquilibriumSearchResult {
+  const m = game.rowStrategies.length;
+  const n = game.columnStrategies.length;
+  const equilibria: MixedEquilibrium[] = [];
+  const seen = new Set<string>();
+  let tried = 0;
+
+  for (let size = 1; size <= Math.min(m, n); size++) {
+    for (const rowSupport of subsets(m, size)) {
+      for (const columnSupport of subsets(n, size)) {
+        if (tried++ >= maxSupportPairs) {
+          return { equilibria, complete: false };
+        }
+        const equilibrium = solveSupports(game, rowSupport, columnSupport);
+        if (!equilibrium) continue;
+        const key = JSON.stringify([equilibrium.row, equilibrium.column]);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        equilibria.push(equilibrium);
+      }
+    }
+  }
+
+  return { equilibria, complete: true };
+}
+
+/**
+ * Expected payoffs of a mixed strategy profile, as [row player, column player]
+ */
+export function expectedPayoffs(
+  game: Bimatrix,
+  row: number[],
+  column: number[],
+): [number, number] {
+  let rowPayoff = 0;
+  let columnPayoff = 0;
+  for (let i = 0; i < row.length; i++) {
+    for (let j = 0; j < column.length; j++) {
+      const p = row[i] * column[j];
+      rowPayoff += p * game.rowPayoffs[i][j];
+      columnPayoff += p * game.columnPayoffs[i][j];
+    }
+  }
+  return [rowPayoff, columnPayoff];
+}
+
+/**
+ * The equilibrium with the given supports, if there is one
+ */
+function solveSupports(
+  game: Bimatrix,
+  rowSupport: number[],
+  columnSupport: number[],
+): MixedEquilibrium | null {
+  const A = game.rowPayoffs;
+  const B = game.columnPayoffs;
+
+  // Column mix y over J making rows in I indifferent: A[i][J]·y = u
+  const y = indifferentMix(
+    rowSupport.map((i) => columnSupport.map((j) => A[i][j])),
+  );
+  // Row mix x over I making columns in J indifferent: x·B[I][j] = v
+  const x = indifferentMix(
+    columnSupport.map((j) => rowSupport.map((i) => B[i][j])),
+  );
+  if (!x || !y) return null;
+
+  const row = spread(x, rowSupport, game.rowStrategies.length);
+  const column = spread(y, columnSupport, game.columnStrategies.length);
+  const [rowPayoff, columnPayoff] = expectedPayoffs(game, row, column);
+
+  // No pure deviation may pay more
+  for (let i = 0; i < A.length; i++) {
+    const payoff = A[i].reduce((sum, a, j) => sum + a * column[j], 0);
+    if (payoff > rowPayoff + EPSILON) return null;
+  }
+  for (let j = 0; j < column.length; j++) {
+    const payoff = B.reduce((sum, r, i) => sum + r[j] * row[i], 0);
+    if (payoff > columnPayoff + EPSILON) return null;
+  }
+
+  return {
+    row,
+    column,
+    rowPayoff: clean(rowPayoff, 12),
+    columnPayoff: clean(columnPayoff, 12),
+    rowSupport: support(row),
+    columnSupport: support(column),
+  };
+}
+
+/**
+ * Probabilities p (summing to 1, all non-negative) such that every row of
+ * `payoffs` has the same dot product with p
+ *
+ * @param payoffs - k rows of k payoffs
+ * @returns p, or null if the system is singular or p has a negative entry
+ */
+function indifferentMix(payoffs: number[][]): number[] | null {
+  const k = payoffs.length;
+  // Unknowns p_1..p_k and the common payoff w:
+  //   payoffs[r]·p - w = 0 for each r,  Σp = 1
+  const system = payoffs.map((r) => [...r, -1, 0]);
+  system.push([...new Array(k).fill(1), 0, 1]);
+
+  const solution = solveLinearSystem(system);
+  if (!solution) return null;
+  const p = solution.slice(0, k);
+  if (p.some((v) => v < -EPSILON)) return null;
+  return p.map((v) => Math.max(0, v));
+}
+
+/** Place support probabilities into a full-length strategy vector */
+function spread(values: number[], indices: number[], length: number): number[] {
+  const full = new Array<number>(length).fill(0);
+  indices.forEach((index, k) => (full[index] = clean(values[k], 12)));
+  return full;
+}
+
+function support(probabilities: number[]): number[] {
+  return probabilities.flatMap((p, i) => (p > EPSILON ? [i] : []));
+}
+
+/** Every k-element subset of 0..n-1, in lexicographic order */
+function* subsets(n: number, k: number): Generator<number[]> {
+  const indices = Array.from({ length: k }, (_, i) => i);
+  for (;;) {
+    yield [...indices];
+    let i = k - 1;
+    while (i >= 0 && indices[i] === n - k + i) i--;
+    if (i < 0) return;
+    indices[i]++;
+    for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+  }
+}
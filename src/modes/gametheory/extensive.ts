@@ -0,0 +1,218 @@
+/**
+ * Backward Induction on Extensive-Form Games
+ *
+ * Zermelo's algorithm: solve the tree from the leaves up. A terminal node is
+ * worth its payoffs, a chance node the probability-weighted average of its
+ * children, and a decision node the child that is best for the player who
+ * moves there. The choices at every decision node, on the equilibrium path
+ * or off it, form a subgame-perfect equilibrium (Selten, 1965).
+ *
+ * This needs perfect information. A player at a node that shares an
+ * information set with other nodes does not know which of them they are at,
+ * so their best action depends on beliefs the tree does not give. Such
+ * nodes, and every node above them, are left unsolved; the proper subgames
+ * beneath them are still solved.
+ */
+
+import type { GameNode, GameTree } from "../../types/modes/gametheory.js";
+import type { ExtensiveFormSolution } from "./types.js";
+
+const EPSILON = 1e-9;
+
+/**
+ * Players in the order they first move, walking the tree from the root
+ */
+export function playersInTree(tree: GameTree): string[] {
+  const players = new Set<string>();
+  for (const node of preorder(tree, indexNodes(tree))) {
+    if (node.type === "decision" && node.playerId) players.add(node.playerId);
+  }
+  return [...players];
+}
+
+/**
+ * Solve a game tree by backward induction
+ *
+ * A child of a chance node is reached with the child's `probability`;
+ * children without one share whatever probability is left equally. When a
+ * player is indifferent between children, the first listed is chosen and
+ * the node is reported in `ties`.
+ *
+ * @param players - Player IDs in the order payoff vectors list them;
+ *   defaults to the order players first move in
+ * @throws Error if the tree is malformed: a missing root or child, a node
+ *   reached twice, a non-terminal node without children, a terminal node
+ *   without a payoff for every player, a mover who is not in `players`, or
+ *   chance probabilities that do not sum to 1
+ */
+export function solveBackwardInduction(
+  tree: GameTree,
+  players: string[] = playersInTree(tree),
+): ExtensiveFormSolution {
+  const nodes = indexNodes(tree);
+  const order = preorder(tree, nodes);
+  for (const node of order) checkNode(node, players, nodes);
+
+  const imperfectSets = (tree.informationSets ?? []).filter(
+    (set) => new Set(set.nodes).size > 1,
+  );
+  const blocked = new Set(imperfectSets.flatMap((set) => set.nodes));
+
+  const values = new Map<string, number[]>();
+  const choices = new Map<string, string>();
+  const ties: string[] = [];
+  const unsolved = new Set<string>();
+
+  // Reverse pre-order visits every child before its parent
+  for (const node of [...order].reverse()) {
+    const children =
+      node.type === "terminal"
+        ? []
+        : node.childNodes.map((id) => nodes.get(id)!);
+    if (blocked.has(node.id) || children.some((c) => unsolved.has(c.id))) {
+      unsolved.add(node.id);
+      continue;
+    }
+
+    if (node.type === "terminal") {
+      values.set(node.id, node.payoffs!.slice(0, players.length));
+    } else if (node.type === "chance") {
+      const probabilities = branchProbabilities(node, children);
+      values.set(
+        node.id,
+        players.map((_, k) =>
+          children.reduce(
+            (sum, child, c) =>
+              sum + probabilities[c] * values.get(child.id)![k],
+            0,
+          ),
+        ),
+      );
+    } else {
+      const mover = players.indexOf(node.playerId!);
+      const payoff = (child: GameNode): number => values.get(child.id)![mover];
+      const bestPayoff = Math.max(...children.map(payoff));
+      const optimal = children.filter((c) => bestPayoff - payoff(c) <= EPSILON);
+      if (optimal.length > 1) ties.push(node.id);
+      choices.set(node.id, optimal[0].id);
+      values.set(node.id, values.get(optimal[0].id)!);
+    }
+  }
+
+  const optimalPath: string[] = [];
+  if (!unsolved.has(tree.rootNode)) {
+    let current: string | undefined = tree.rootNode;
+    while (current) {
+      optimalPath.push(current);
+      current = choices.get(current);
+    }
+  }
+
+  return {
+    values,
+    choices,
+    ties: ties.reverse(),
+    optimalPath,
+    imperfectInformationSets: imperfectSets.map((set) => set.id),
+    unsolvedNodes: order.filter((n) => unsolved.has(n.id)).map((n) => n.id),
+  };
+}
+
+function indexNodes(tree: GameTree): Map<string, GameNode> {
+  const nodes = new Map<string, GameNode>();
+  for (const node of tree.nodes) {
+    if (nodes.has(node.id)) {
+      throw new Error(`Node ${node.id} is defined more than once`);
+    }
+    nodes.set(node.id, node);
+  }
+  return nodes;
+}
+
+/**
+ * The nodes reachable from the root, parents before children
+ */
+function preorder(tree: GameTree, nodes: Map<string, GameNode>): GameNode[] {
+  const root = nodes.get(tree.rootNode);
+  if (!root) throw new Error(`Root node ${tree.rootNode} does not exist`);
+
+  const order: GameNode[] = [];
+  const seen = new Set<string>();
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (seen.has(node.id)) {
+      throw new Error(
+        `Node ${node.id} is reached more than once, so this is not a tree`,
+      );
+    }
+    seen.add(node.id);
+    order.push(node);
+    if (node.type === "terminal") continue;
+
+    const children = node.childNodes.map((id) => {
+      const child = nodes.get(id);
+      if (!child) {
+        throw new Error(`Node ${node.id} has a missing child ${id}`);
+      }
+      return child;
+    });
+    stack.push(...children.reverse());
+  }
+  return order;
+}
+
+function checkNode(
+  node: GameNode,
+  players: string[],
+  nodes: Map<string, GameNode>,
+): void {
+  if (node.type === "terminal") {
+    if (!node.payoffs || node.payoffs.length < players.length) {
+      throw new Error(
+        `Terminal node ${node.id} needs a payoff for each of ${players.length} players`,
+      );
+    }
+    return;
+  }
+  if (node.childNodes.length === 0) {
+    throw new Error(`${capitalize(node.type)} node ${node.id} has no children`);
+  }
+  if (node.type === "chance") {
+    branchProbabilities(
+      node,
+      node.childNodes.map((id) => nodes.get(id)!),
+    );
+  }
+  if (node.type === "decision" && !node.playerId) {
+    throw new Error(`Decision node ${node.id} has no player`);
+  }
+  if (node.type === "decision" && !players.includes(node.playerId!)) {
+    throw new Error(
+      `Decision node ${node.id} belongs to ${node.playerId}, who is not one of ${players.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Probability of reaching each child of a chance node
+ */
+function branchProbabilities(node: GameNode, children: GameNode[]): number[] {
+  const given = children.map((child) => child.probability);
+  const missing = given.filter((p) => p === undefined).length;
+  const assigned = given.reduce<number>((sum, p) => sum + (p ?? 0), 0);
+  if (
+    assigned > 1 + EPSILON ||
+    (missing === 0 && Math.abs(assigned - 1) > EPSILON)
+  ) {
+    throw new Error(
+      `Chance node ${node.id}: branch probabilities sum to ${assigned}, not 1`,
+    );
+  }
+  const rest = missing > 0 ? (1 - assigned) / missing : 0;
+  return given.map((p) => p ?? rest);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
@@ -0,0 +1,93 @@
+/**
+ * Zero-Sum Games by Linear Programming
+ *
+ * Von Neumann's minimax theorem: in a two-player zero-sum game,
+ * max_x min_y xᵀAy = min_y max_x xᵀAy = v. Both sides are linear
+ * programs. The row player's is
+ *
+ *   maximize v  subject to  v ≤ xᵀA_j for every column j, Σx = 1, x ≥ 0
+ *
+ * with v free, solved by the simplex method of src/modes/optimization/.
+ * The column player's program is its dual, so y comes out as the shadow
+ * prices of the column constraints.
+ */
+
+import { clean } from "../../utils/numeric.js";
+import { solveLinearProgram } from "../optimization/linear-program.js";
+import type { LinearConstraint } from "../optimization/types.js";
+import type { ZeroSumSolution } from "./types.js";
+
+/**
+ * Solve a zero-sum game given the row player's payoffs
+ *
+ * @param payoffs - payoffs[i][j] is what the row player wins (and the
+ *   column player loses) for row i against column j
+ * @throws Error if the matrix is empty or ragged
+ */
+export function solveZeroSum(payoffs: number[][]): ZeroSumSolution {
+  const m = payoffs.length;
+  const n = payoffs[0]?.length ?? 0;
+  if (m === 0 || n === 0 || payoffs.some((row) => row.length !== n)) {
+    throw new Error("A zero-sum game needs a non-empty rectangular matrix");
+  }
+
+  const { pureMaximin, pureMinimax, saddlePoint } = pureSecurityLevels(payoffs);
+
+  // Variables x₁ … x_m, then v
+  const columns: LinearConstraint[] = payoffs[0].map((_, j) => ({
+    coefficients: [...payoffs.map((row) => -row[j]), 1],
+    relation: "<=",
+    rhs: 0,
+  }));
+  const { x, objective, shadowPrices } = solveLinearProgram({
+    objective: [...new Array<number>(m).fill(0), 1],
+    constraints: [
+      ...columns,
+      {
+        coefficients: [...new Array<number>(m).fill(1), 0],
+        relation: "=",
+        rhs: 1,
+      },
+    ],
+    free: [...new Array<boolean>(m).fill(false), true],
+  });
+
+  return {
+    value: clean(objective, 12),
+    rowStrategy: x.slice(0, m).map((p) => clean(p, 12)),
+    columnStrategy: shadowPrices.slice(0, n).map((q) => clean(q, 12)),
+    pureMaximin,
+    pureMinimax,
+    ...(saddlePoint && { saddlePoint }),
+  };
+}
+
+/**
+ * Pure-strategy security levels, and a saddle point if they meet
+ */
+function pureSecurityLevels(payoffs: number[][]): {
+  pureMaximin: number;
+  pureMinimax: number;
+  saddlePoint?: [number, number];
+} {
+  const rowMinima = payoffs.map((row) => Math.min(...row));
+  const columnMaxima = payoffs[0].map((_, j) =>
+    Math.max(...payoffs.map((row) => row[j])),
+  );
+  const pureMaximin = Math.max(...rowMinima);
+  const pureMinimax = Math.min(...columnMaxima);
+
+  if (pureMaximin === pureMinimax) {
+    for (let i = 0; i < payoffs.length; i++) {
+      for (let j = 0; j < columnMaxima.length; j++) {
+        if (
+          payoffs[i][j] === rowMinima[i] &&
+          payoffs[i][j] === columnMaxima[j]
+        ) {
+          return { pureMaximin, pureMinimax, saddlePoint: [i, j] };
+        }
+      }
+    }
+  }
+  return { pureMaximin, pureMinimax };
+}
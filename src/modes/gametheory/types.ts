@@ -0,0 +1,169 @@
+/**
+ * Equilibrium Engine Types for Game-Theoretic Reasoning
+ *
+ * These types back the solvers in src/modes/gametheory/. They work over the
+ * PayoffMatrix / Player types in src/types/modes/gametheory.ts: a two-player
+ * payoff matrix is read into a Bimatrix once, then solved. Game trees are
+ * solved as given, and a cooperative game's characteristic function is read
+ * into a CoalitionGame.
+ */
+
+// ============================================================================
+// GAMES
+// ============================================================================
+
+/**
+ * A two-player normal-form game as a pair of payoff matrices
+ *
+ * `rowPayoffs[i][j]` and `columnPayoffs[i][j]` are what the row and column
+ * player get when the row player plays `rowStrategies[i]` and the column
+ * player plays `columnStrategies[j]`.
+ */
+export interface Bimatrix {
+  rowPlayer: string;
+  columnPlayer: string;
+  rowStrategies: string[];
+  columnStrategies: string[];
+  rowPayoffs: number[][];
+  columnPayoffs: number[][];
+}
+
+// ============================================================================
+// SOLUTIONS
+// ============================================================================
+
+/**
+ * A Nash equilibrium of a bimatrix game, pure or mixed
+ */
+export interface MixedEquilibrium {
+  /** Row player's probability for each of `rowStrategies` */
+  row: number[];
+
+  /** Column player's probability for each of `columnStrategies` */
+  column: number[];
+
+  /** Expected payoff to the row player */
+  rowPayoff: number;
+
+  /** Expected payoff to the column player */
+  columnPayoff: number;
+
+  /** Indices of the row strategies played with positive probability */
+  rowSupport: number[];
+
+  /** Indices of the column strategies played with positive probability */
+  columnSupport: number[];
+}
+
+/**
+ * Result of support enumeration
+ */
+export interface EquilibriumSearchResult {
+  equilibria: MixedEquilibrium[];
+
+  /**
+   * False if the support budget ran out before every pair of supports was
+   * tried, so more equilibria may exist
+   */
+  complete: boolean;
+}
+
+/**
+ * Solution of a two-player zero-sum game, from the row player's side
+ */
+export interface ZeroSumSolution {
+  /** Value of the game: what the row player can guarantee, and the column player can hold them to */
+  value: number;
+
+  /** Row player's optimal (maximin) mixed strategy */
+  rowStrategy: number[];
+
+  /** Column player's optimal (minimax) mixed strategy */
+  columnStrategy: number[];
+
+  /** Best the row player can guarantee with a pure strategy */
+  pureMaximin: number;
+
+  /** Least the column player can hold the row player to with a pure strategy */
+  pureMinimax: number;
+
+  /** A pure saddle point [row, column], if the pure values meet */
+  saddlePoint?: [number, number];
+}
+
+/**
+ * Backward induction over an extensive-form game tree
+ *
+ * Payoff vectors are indexed like the player list the tree was solved with.
+ * Only nodes whose subtree is a proper subgame of perfect information are
+ * solved; the rest are listed in `unsolvedNodes`.
+ */
+export interface ExtensiveFormSolution {
+  /** Payoff vector of each solved node (expected payoffs below chance nodes) */
+  values: Map<string, number[]>;
+
+  /** Child chosen at each solved decision node: the subgame-perfect strategy profile */
+  choices: Map<string, string>;
+
+  /** Decision nodes where more than one child is optimal; the first listed is chosen */
+  ties: string[];
+
+  /**
+   * Node IDs of equilibrium play from the root, ending at a terminal or
+   * chance node. Empty when the root is unsolved.
+   */
+  optimalPath: string[];
+
+  /** IDs of information sets holding more than one node */
+  imperfectInformationSets: string[];
+
+  /** Members of those sets, and every node above one of them */
+  unsolvedNodes: string[];
+}
+
+// ============================================================================
+// COOPERATIVE GAMES
+// ============================================================================
+
+/**
+ * A transferable-utility game: v(S) for coalitions of `players`
+ *
+ * Coalitions are bitmasks over `players` (bit i set when players[i] is in
+ * the coalition). `values` holds every listed coalition; any other
+ * coalition is worth 0.
+ */
+export interface CoalitionGame {
+  players: string[];
+  values: Map<number, number>;
+}
+
+/**
+ * Shapley values in player order, exact or estimated from random orderings
+ */
+export interface ShapleyResult {
+  values: number[];
+  method: "exact" | "sampled";
+
+  /** Orderings sampled, when estimated */
+  samples?: number;
+
+  /** Standard error of each estimate, when estimated */
+  standardErrors?: number[];
+}
+
+/**
+ * The least core and the nucleolus, from Maschler's sequence of linear programs
+ */
+export interface NucleolusResult {
+  /**
+   * Smallest ε such that some efficient allocation gives every proper
+   * coalition at least v(S) − ε. The core is non-empty exactly when ε ≤ 0.
+   */
+  leastCoreEpsilon: number;
+
+  /** An allocation in the least core */
+  leastCoreAllocation: number[];
+
+  /** The nucleolus, or undefined when there is no imputation (Σ v({i}) > v(N)) */
+  nucleolus?: number[];
+}
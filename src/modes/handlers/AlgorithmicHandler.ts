@@ -507,6 +507,13 @@ export class AlgorithmicHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
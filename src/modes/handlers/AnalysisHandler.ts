@@ -415,6 +415,13 @@ export class AnalysisHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type to valid AnalysisThoughtType
    */
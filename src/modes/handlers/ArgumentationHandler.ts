@@ -438,6 +438,13 @@ export class ArgumentationHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type to valid ArgumentationThoughtType
    */
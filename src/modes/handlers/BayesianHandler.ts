@@ -6,6 +6,24 @@
  * - Probability value validation (0-1 range, sum constraints)
  * - Bayes factor computation
  * - Evidence strength assessment
+ *
+ * A thought with `bayesianNetwork` is evaluated by the network engine in
+ * src/modes/bayesian/: its variables' posterior marginals given the
+ * `observations`, computed exactly by a junction tree or variable
+ * elimination, or by likelihood weighting when exact tables would be too
+ * large, go into the thought as `networkInference`. The states of the
+ * `targetVariable` are the competing hypotheses; the unobserved variables
+ * are ranked by the information observing them is expected to give about
+ * it.
+ *
+ * A thought with `parametricModel` puts a continuous prior over the one
+ * unknown parameter of a likelihood and updates it by the model's data:
+ * in closed form when the prior is conjugate, by the seeded
+ * Metropolis-Hastings sampler of src/modes/bayesian/metropolis.ts
+ * otherwise. The posterior's mean, credible intervals and, when sampled,
+ * convergence diagnostics go into `posterior`. Its probability becomes
+ * P(parameter > threshold) when a threshold is given, or the mean of a
+ * success probability.
  */
 
 import { randomUUID } from "crypto";
@@ -16,17 +34,145 @@ import type {
   Likelihood,
   BayesianEvidence,
   PosteriorProbability,
+  NetworkInference,
+  ParametricDistribution,
 } from "../../types/modes/bayesian.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
 import {
   ModeHandler,
   ValidationResult,
+  ValidationWarning,
   ModeEnhancements,
   validationSuccess,
   validationFailure,
   createValidationError,
   createValidationWarning,
 } from "./ModeHandler.js";
+import {
+  ImpossibleEvidenceError,
+  NetworkError,
+  buildNetwork,
+} from "../bayesian/network.js";
+import { DEFAULT_SAMPLES, infer } from "../bayesian/inference.js";
+import { valueOfInformation } from "../bayesian/value-of-information.js";
+import { updatePosterior } from "../bayesian/parametric.js";
+import {
+  ParametricModelError,
+  readLikelihood,
+} from "../bayesian/likelihood.js";
+import {
+  DEFAULT_BURN_IN,
+  DEFAULT_CHAINS,
+  DEFAULT_ITERATIONS,
+} from "../bayesian/metropolis.js";
+import type {
+  BayesianNetwork,
+  ContinuousDistribution,
+  InferenceMethod,
+  InferenceResult,
+  ParametricPosterior,
+  PosteriorMethod,
+  PosteriorOptions,
+} from "../bayesian/types.js";
+import { readDistribution } from "../stochastic/models/distribution.js";
+import { generateSeed } from "../stochastic/sampling/rng.js";
+
+/** Samples a likelihood-weighting inference may draw */
+const MAX_SAMPLES = 100_000;
+
+/** Variables whose value of information is computed, each costing inferences */
+const MAX_CANDIDATES = 10;
+
+const INFERENCE_METHODS: InferenceMethod[] = [
+  "junction_tree",
+  "variable_elimination",
+  "likelihood_weighting",
+];
+
+const POSTERIOR_METHODS: PosteriorMethod[] = [
+  "conjugate",
+  "metropolis_hastings",
+];
+
+/** Draws a Metropolis-Hastings run may take over all its chains, burn-in included */
+const MAX_MCMC_DRAWS = 100_000;
+
+/** Chains a Metropolis-Hastings run may use */
+const MAX_CHAINS = 16;
+
+/** Distributions a prior over a parameter may take */
+const CONTINUOUS_TYPES: ContinuousDistribution["type"][] = [
+  "normal",
+  "uniform",
+  "exponential",
+  "beta",
+  "gamma",
+  "lognormal",
+  "triangular",
+];
+
+/**
+ * Bayesian network fields as they arrive in the input
+ */
+interface NetworkInput {
+  bayesianNetwork?: {
+    nodes?: {
+      id: string;
+      states: string[];
+      parents?: string[];
+      cpt: number[][];
+    }[];
+    method?: string;
+    samples?: number;
+    seed?: number;
+  };
+  observations?: Record<string, string>;
+  targetVariable?: string;
+  candidateEvidence?: string[];
+}
+
+/**
+ * A network inference, and what kept any of it from running as asked
+ */
+interface NetworkReading {
+  inference?: NetworkInference;
+  problems: ValidationWarning[];
+}
+
+/**
+ * Parametric model fields as they arrive in the input
+ */
+interface ParametricInput {
+  parametricModel?: {
+    prior?: { distribution?: string; parameters?: Record<string, number> };
+    likelihood?: {
+      distribution?: string;
+      parameters?: Record<string, number>;
+    };
+    data?: number[];
+    threshold?: number;
+    credibleMass?: number;
+    method?: string;
+    mcmc?: {
+      iterations?: number;
+      burnIn?: number;
+      chains?: number;
+      seed?: number;
+    };
+  };
+  priorProbability?: number;
+  posteriorProbability?: number;
+}
+
+/**
+ * A parametric posterior, and what kept any of it from running as asked
+ */
+interface ParametricReading {
+  prior?: ContinuousDistribution;
+  posterior?: ParametricPosterior;
+  threshold?: number;
+  problems: ValidationWarning[];
+}
 
 /**
  * BayesianHandler - Specialized handler for Bayesian inference
@@ -81,7 +227,7 @@ export class BayesianHandler implements ModeHandler {
       alternatives: alternatives.length > 0 ? alternatives : [],
     };
 
-    const prior: PriorProbability = {
+    let prior: PriorProbability = {
       probability: inputAny.priorProbability ?? 0.5,
       justification: inputAny.priorJustification || "Default prior",
     };
@@ -94,16 +240,28 @@ export class BayesianHandler implements ModeHandler {
     const evidence: BayesianEvidence[] = inputAny.evidence || [];
 
     // Calculate posterior using Bayes' theorem if components provided
-    const posterior = this.calculatePosterior(
+    let posterior = this.calculatePosterior(
       prior,
       likelihood,
       evidence,
       inputAny,
     );
 
+    // A parametric model's posterior replaces the point calculation
+    const parametric = this.updateParametric(inputAny);
+    if (parametric.posterior) {
+      ({ prior, posterior } = this.applyParametric(
+        parametric,
+        prior,
+        posterior,
+      ));
+    }
+
     // Calculate Bayes factor if evidence provided
     const bayesFactor = this.calculateBayesFactor(evidence);
 
+    const { inference: networkInference } = this.inferNetwork(inputAny);
+
     return {
       id: randomUUID(),
       sessionId,
@@ -122,6 +280,7 @@ export class BayesianHandler implements ModeHandler {
       posterior,
       bayesFactor,
       sensitivity: inputAny.sensitivity,
+      networkInference,
     } as BayesianThought;
   }
 
@@ -228,8 +387,15 @@ export class BayesianHandler implements ModeHandler {
       }
     }
 
-    // Suggest evidence if none provided
-    if (!inputAny.evidence || inputAny.evidence.length === 0) {
+    warnings.push(...this.inferNetwork(inputAny).problems);
+    warnings.push(...this.checkParametric(inputAny));
+
+    // Suggest evidence if none provided, observations of a network or data
+    // of a parametric model included
+    const observed =
+      Object.keys(inputAny.observations ?? {}).length > 0 ||
+      (inputAny.parametricModel?.data?.length ?? 0) > 0;
+    if ((!inputAny.evidence || inputAny.evidence.length === 0) && !observed) {
       warnings.push(
         createValidationWarning(
           "evidence",
@@ -335,6 +501,13 @@ export class BayesianHandler implements ModeHandler {
       );
     }
 
+    if (thought.networkInference) {
+      this.describeNetwork(thought.networkInference, enhancements);
+    }
+    if (thought.posterior.parameter) {
+      this.describeParametric(thought.prior, thought.posterior, enhancements);
+    }
+
     return enhancements;
   }
 
@@ -345,6 +518,27 @@ export class BayesianHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
+  /**
+   * Rebuild the input of a stored thought: the prior, likelihood and
+   * posterior are objects on the thought but bare probabilities in the input
+   */
+  thoughtToInput(thought: BayesianThought): ThinkingToolInput {
+    return {
+      ...thought,
+      thought: thought.content,
+      priorProbability: thought.prior?.probability,
+      likelihood: thought.likelihood?.probability,
+      posteriorProbability: thought.posterior?.probability,
+    } as unknown as ThinkingToolInput;
+  }
+
   /**
    * Calculate posterior probability using Bayes' theorem
    *
@@ -461,6 +655,522 @@ export class BayesianHandler implements ModeHandler {
     return Math.min(0.95, 0.5 + evidenceContribution + avgQuality);
   }
 
+  /**
+   * Evaluate the input's Bayesian network: the posterior marginals given
+   * the observations, then the value of observing each candidate variable
+   * for the target. The target defaults to the first unobserved variable
+   * listed, and the candidates to every other unobserved one.
+   */
+  private inferNetwork(input: NetworkInput): NetworkReading {
+    const problems: ValidationWarning[] = [];
+    const spec = input.bayesianNetwork;
+    if (!spec?.nodes || spec.nodes.length === 0) return { problems };
+
+    let network: BayesianNetwork;
+    try {
+      network = buildNetwork(spec.nodes);
+    } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
+      problems.push(
+        createValidationWarning(
+          "bayesianNetwork.nodes",
+          `${error.message}, so the network was not evaluated`,
+          "Give each variable its states, its parents and one CPT row per assignment of the parents",
+        ),
+      );
+      return { problems };
+    }
+
+    let method: InferenceMethod | undefined;
+    if (spec.method !== undefined) {
+      method = INFERENCE_METHODS.find((m) => m === spec.method);
+      if (!method) {
+        problems.push(
+          createValidationWarning(
+            "bayesianNetwork.method",
+            `Unknown inference method '${spec.method}'; the junction tree was used`,
+            `Use one of: ${INFERENCE_METHODS.join(", ")}`,
+          ),
+        );
+      }
+    }
+    let samples = spec.samples ?? DEFAULT_SAMPLES;
+    if (samples > MAX_SAMPLES) {
+      problems.push(
+        createValidationWarning(
+          "bayesianNetwork.samples",
+          `Likelihood weighting is capped at ${MAX_SAMPLES} samples; ${samples} were asked for`,
+          "Exact inference needs no samples where the network allows it",
+        ),
+      );
+      samples = MAX_SAMPLES;
+    }
+    // One seed for every inference, so the value of information compares
+    // estimates drawn alike
+    const options = {
+      method,
+      samples: Math.max(1, Math.floor(samples)),
+      seed: spec.seed ?? generateSeed(),
+    };
+
+    const observations = input.observations ?? {};
+    let result: InferenceResult;
+    try {
+      result = infer(network, observations, options);
+    } catch (error) {
+      if (error instanceof ImpossibleEvidenceError) {
+        problems.push(
+          createValidationWarning(
+            "observations",
+            "The observations have probability 0 under the network, so nothing can be inferred from them",
+            "Check the observed states against the CPTs",
+          ),
+        );
+      } else if (error instanceof NetworkError) {
+        problems.push(
+          createValidationWarning(
+            "observations",
+            error.message,
+            "Observe only variables of the network, in states they have",
+          ),
+        );
+      } else {
+        throw error;
+      }
+      return { problems };
+    }
+
+    const inference: NetworkInference = {
+      method: result.method,
+      fellBack: result.fellBack,
+      observations,
+      marginals: result.marginals,
+      evidenceProbability: result.evidenceProbability,
+      samples: result.samples,
+      seed: result.seed,
+      effectiveSampleSize: result.effectiveSampleSize,
+    };
+
+    const ids = network.nodes.map((n) => n.id);
+    const target =
+      input.targetVariable ??
+      spec.nodes.map((n) => n.id).find((id) => !(id in observations));
+    if (target === undefined) return { inference, problems };
+    if (!ids.includes(target)) {
+      problems.push(
+        createValidationWarning(
+          "targetVariable",
+          `Target variable '${target}' is not a node of the network`,
+          "Name the variable whose states are the competing hypotheses",
+        ),
+      );
+      return { inference, problems };
+    }
+    inference.target = target;
+    if (target in observations) {
+      problems.push(
+        createValidationWarning(
+          "targetVariable",
+          `Target variable '${target}' is already observed, so nothing is left to learn about it`,
+          "Leave the hypothesis variable unobserved",
+        ),
+      );
+      return { inference, problems };
+    }
+
+    const unknown = (input.candidateEvidence ?? []).filter(
+      (c) => !ids.includes(c),
+    );
+    for (const candidate of unknown) {
+      problems.push(
+        createValidationWarning(
+          "candidateEvidence",
+          `Candidate evidence '${candidate}' is not a node of the network`,
+          "Name unobserved variables of the network",
+        ),
+      );
+    }
+    const pool = (input.candidateEvidence ?? ids).filter(
+      (c) => ids.includes(c) && c !== target && !(c in observations),
+    );
+    if (pool.length > MAX_CANDIDATES) {
+      problems.push(
+        createValidationWarning(
+          "candidateEvidence",
+          `The value of information is computed for ${MAX_CANDIDATES} of the ${pool.length} candidate variables`,
+          "List the variables that could actually be observed in candidateEvidence",
+        ),
+      );
+    }
+    try {
+      inference.valueOfInformation = valueOfInformation(
+        network,
+        target,
+        observations,
+        pool.slice(0, MAX_CANDIDATES),
+        options,
+      );
+    } catch (error) {
+      // A sampled outcome may leave no sample consistent with it
+      if (!(error instanceof ImpossibleEvidenceError)) throw error;
+      problems.push(
+        createValidationWarning(
+          "bayesianNetwork.samples",
+          "Some outcome of a candidate drew no consistent sample, so the value of information was not computed",
+          "Draw more samples",
+        ),
+      );
+    }
+    return { inference, problems };
+  }
+
+  /**
+   * Report a network inference: the hypotheses ranked, then what to observe
+   */
+  private describeNetwork(
+    inference: NetworkInference,
+    enhancements: ModeEnhancements,
+  ): void {
+    const {
+      method,
+      samples,
+      seed,
+      effectiveSampleSize: ess,
+      target,
+      valueOfInformation: voi,
+    } = inference;
+    enhancements.mentalModels!.push("Bayesian Network", "Value of Information");
+    enhancements.metrics!.evidenceProbability = inference.evidenceProbability;
+
+    const how =
+      method === "likelihood_weighting"
+        ? `likelihood weighting (${samples} samples, seed ${seed})`
+        : method === "variable_elimination"
+          ? "variable elimination"
+          : "the junction tree";
+    enhancements.suggestions!.push(
+      `Network inference by ${how}: P(observations) = ${inference.evidenceProbability.toPrecision(4)}`,
+    );
+    if (inference.fellBack) {
+      enhancements.warnings!.push(
+        "Exact inference would build tables too large for the network, so its marginals are likelihood-weighting estimates",
+      );
+    }
+    if (ess !== undefined && samples !== undefined) {
+      enhancements.metrics!.effectiveSampleSize = ess;
+      if (ess < samples / 10) {
+        enhancements.warnings!.push(
+          `The sample weights are worth ${ess.toFixed(0)} of ${samples} samples, so the estimates are imprecise; the observations are unlikely under the network`,
+        );
+      }
+    }
+
+    if (target === undefined) return;
+    const ranked = Object.entries(inference.marginals[target]).sort(
+      ([, a], [, b]) => b - a,
+    );
+    enhancements.suggestions!.push(
+      `Posterior of ${target}: ${ranked.map(([state, p]) => `${state} ${p.toFixed(3)}`).join(", ")}`,
+    );
+
+    if (!voi || voi.length === 0) return;
+    if (voi[0].informationGain > 1e-9) {
+      enhancements.metrics!.topInformationGain = voi[0].informationGain;
+      enhancements.suggestions!.push(
+        `Observe ${voi[0].variable} next: it is expected to tell ${voi[0].informationGain.toFixed(3)} bits about ${target}`,
+      );
+      if (voi.length > 1) {
+        enhancements.suggestions!.push(
+          `Value of information about ${target}: ${voi.map((v) => `${v.variable} ${v.informationGain.toFixed(3)} bits`).join(", ")}`,
+        );
+      }
+    } else {
+      enhancements.guidingQuestions!.push(
+        `None of the candidates can change the belief in ${target} given the observations; what else bears on it?`,
+      );
+    }
+  }
+
+  /**
+   * Update the parametric model's prior by its data. The prior is read as
+   * the stochastic mode reads a random variable's distribution, and the
+   * Metropolis-Hastings budget is capped like its Monte Carlo runs.
+   */
+  private updateParametric(input: ParametricInput): ParametricReading {
+    const problems: ValidationWarning[] = [];
+    const spec = input.parametricModel;
+    if (!spec) return { problems };
+
+    const name = spec.prior?.distribution ?? "";
+    const read = readDistribution(name, spec.prior?.parameters ?? {});
+    const prior = CONTINUOUS_TYPES.some((t) => t === read?.type)
+      ? (read as ContinuousDistribution)
+      : undefined;
+    if (!prior) {
+      problems.push(
+        createValidationWarning(
+          "parametricModel.prior",
+          read
+            ? `A prior over a parameter must be continuous; '${name}' is not, so no posterior was computed`
+            : `The prior '${name}' is not a distribution with all its parameters, so no posterior was computed`,
+          `Use one of: ${CONTINUOUS_TYPES.join(", ")}`,
+        ),
+      );
+      return { problems };
+    }
+
+    let method: PosteriorMethod | undefined;
+    if (spec.method !== undefined) {
+      method = POSTERIOR_METHODS.find((m) => m === spec.method);
+      if (!method) {
+        problems.push(
+          createValidationWarning(
+            "parametricModel.method",
+            `Unknown posterior method '${spec.method}'; a conjugate prior is updated in closed form and any other sampled`,
+            `Use one of: ${POSTERIOR_METHODS.join(", ")}`,
+          ),
+        );
+      }
+    }
+
+    const chains = Math.min(
+      MAX_CHAINS,
+      Math.max(1, Math.floor(spec.mcmc?.chains ?? DEFAULT_CHAINS)),
+    );
+    let iterations = Math.max(
+      1,
+      Math.floor(spec.mcmc?.iterations ?? DEFAULT_ITERATIONS),
+    );
+    let burnIn = Math.max(0, Math.floor(spec.mcmc?.burnIn ?? DEFAULT_BURN_IN));
+    const draws = chains * (iterations + burnIn);
+    if (draws > MAX_MCMC_DRAWS) {
+      problems.push(
+        createValidationWarning(
+          "parametricModel.mcmc",
+          `Metropolis-Hastings is capped at ${MAX_MCMC_DRAWS} draws over all chains; ${draws} were asked for, so each chain's share was scaled down`,
+          "A conjugate prior needs no sampling",
+        ),
+      );
+      iterations = Math.max(
+        1,
+        Math.floor((iterations * MAX_MCMC_DRAWS) / draws),
+      );
+      burnIn = Math.floor((burnIn * MAX_MCMC_DRAWS) / draws);
+    }
+    const options: PosteriorOptions = {
+      method,
+      threshold: spec.threshold,
+      credibleMass: spec.credibleMass,
+      iterations,
+      burnIn,
+      chains,
+      seed: spec.mcmc?.seed,
+    };
+
+    try {
+      const likelihood = readLikelihood(
+        spec.likelihood?.distribution ?? "",
+        spec.likelihood?.parameters,
+      );
+      const posterior = updatePosterior(
+        { prior, likelihood, data: spec.data ?? [] },
+        options,
+      );
+      return { prior, posterior, threshold: spec.threshold, problems };
+    } catch (error) {
+      if (!(error instanceof ParametricModelError)) throw error;
+      problems.push(
+        createValidationWarning(
+          "parametricModel",
+          `${error.message}, so no posterior was computed`,
+          "Pair a continuous prior with a likelihood its data can come from",
+        ),
+      );
+      return { prior, problems };
+    }
+  }
+
+  /**
+   * Fill the prior and posterior from a parametric posterior. Their
+   * probabilities become P(parameter > threshold) with a threshold, or the
+   * mean of a success probability, and are otherwise left alone.
+   */
+  private applyParametric(
+    reading: ParametricReading,
+    prior: PriorProbability,
+    posterior: PosteriorProbability,
+  ): { prior: PriorProbability; posterior: PosteriorProbability } {
+    const result = reading.posterior!;
+    const { parameter, threshold: above, diagnostics: d } = result;
+    const probabilities = above
+      ? {
+          prior: above.prior,
+          posterior: above.posterior,
+          meaning: `P(${parameter} > ${above.value})`,
+        }
+      : parameter === "p"
+        ? {
+            prior: result.priorMean,
+            posterior: result.mean,
+            meaning: "the mean of p",
+          }
+        : undefined;
+
+    const from = this.toParametricDistribution(reading.prior!);
+    const update =
+      result.method === "conjugate"
+        ? `${this.formatDistribution(from)} prior updated by ${result.observations} observation(s), ${result.conjugacy}: ${this.formatDistribution(this.toParametricDistribution(result.distribution!))}`
+        : `${this.formatDistribution(from)} prior sampled by Metropolis-Hastings given ${result.observations} observation(s): ${d!.chains} chain(s) of ${d!.iterations} draws after ${d!.burnIn} burn-in, seed ${d!.seed}`;
+
+    return {
+      prior: {
+        ...prior,
+        probability: probabilities?.prior ?? prior.probability,
+        distribution: from,
+      },
+      posterior: {
+        ...posterior,
+        probability: probabilities?.posterior ?? posterior.probability,
+        calculation: probabilities
+          ? `${update}; probability is ${probabilities.meaning}`
+          : update,
+        parameter,
+        method: result.method,
+        distribution: result.distribution
+          ? this.toParametricDistribution(result.distribution)
+          : undefined,
+        mean: result.mean,
+        stdDev: result.stdDev,
+        median: result.median,
+        credibleMass: result.credibleInterval.probability,
+        credibleInterval: [
+          result.credibleInterval.lower,
+          result.credibleInterval.upper,
+        ],
+        hpdInterval: [result.hpdInterval.lower, result.hpdInterval.upper],
+        threshold: above?.value,
+        truncatedPriorMass: result.truncatedPriorMass,
+        diagnostics: d,
+      },
+    };
+  }
+
+  /**
+   * Warn about a parametric model that cannot be updated as given, a prior
+   * cut off where the parameter cannot lie, and probabilities claimed
+   * against the computed ones
+   */
+  private checkParametric(input: ParametricInput): ValidationWarning[] {
+    const reading = this.updateParametric(input);
+    const warnings = [...reading.problems];
+    const result = reading.posterior;
+    if (!result) return warnings;
+
+    if (result.truncatedPriorMass !== undefined) {
+      warnings.push(
+        createValidationWarning(
+          "parametricModel.prior",
+          `The prior puts ${result.truncatedPriorMass.toFixed(3)} of its mass where ${result.parameter} cannot lie; the posterior is restricted to the rest`,
+          "Choose a prior whose support matches the parameter, e.g. a beta prior for a probability",
+        ),
+      );
+    }
+
+    // Only a threshold or a success probability sets the probabilities
+    if (!result.threshold && result.parameter !== "p") return warnings;
+    const { prior, posterior } = this.applyParametric(
+      reading,
+      { probability: 0.5, justification: "" },
+      { probability: 0.5, calculation: "", confidence: 0 },
+    );
+    const claims: [string, number | undefined, number][] = [
+      ["priorProbability", input.priorProbability, prior.probability],
+      [
+        "posteriorProbability",
+        input.posteriorProbability,
+        posterior.probability,
+      ],
+    ];
+    for (const [field, claimed, computed] of claims) {
+      if (claimed === undefined || Math.abs(claimed - computed) <= 0.01) {
+        continue;
+      }
+      warnings.push(
+        createValidationWarning(
+          field,
+          `${field} (${claimed}) disagrees with the ${computed.toFixed(3)} the parametric model gives; the computed value was used`,
+          "Leave the probability to the model, or change the model",
+        ),
+      );
+    }
+    return warnings;
+  }
+
+  /**
+   * Report a parametric posterior: the update, its intervals, then whether
+   * to trust a sampled one
+   */
+  private describeParametric(
+    prior: PriorProbability,
+    posterior: PosteriorProbability,
+    enhancements: ModeEnhancements,
+  ): void {
+    const { parameter, credibleInterval: ci, hpdInterval: hpd } = posterior;
+    const d = posterior.diagnostics;
+    const n = (x: number) => Number(x.toPrecision(4));
+    const percent = `${n(posterior.credibleMass! * 100)}%`;
+
+    enhancements.mentalModels!.push(
+      d ? "Markov Chain Monte Carlo" : "Conjugate Prior",
+    );
+    enhancements.metrics!.posteriorMean = posterior.mean!;
+    enhancements.metrics!.posteriorStdDev = posterior.stdDev!;
+    enhancements.metrics!.credibleLower = ci![0];
+    enhancements.metrics!.credibleUpper = ci![1];
+
+    const how = posterior.distribution
+      ? this.formatDistribution(posterior.distribution)
+      : `by Metropolis-Hastings (${d!.chains} chains × ${d!.iterations} draws, seed ${d!.seed})`;
+    enhancements.suggestions!.push(
+      `Posterior of ${parameter}: ${how}; mean ${n(posterior.mean!)}, ${percent} credible interval [${n(ci![0])}, ${n(ci![1])}]`,
+      `${percent} highest-density interval of ${parameter}: [${n(hpd![0])}, ${n(hpd![1])}]`,
+    );
+    if (posterior.threshold !== undefined) {
+      const shift =
+        posterior.probability >= prior.probability ? "rose" : "fell";
+      enhancements.suggestions!.push(
+        `P(${parameter} > ${posterior.threshold}) ${shift} from ${prior.probability.toFixed(3)} to ${posterior.probability.toFixed(3)}`,
+      );
+    }
+
+    if (d) {
+      enhancements.metrics!.rHat = d.rHat;
+      enhancements.metrics!.effectiveSampleSize = d.effectiveSampleSize;
+      enhancements.metrics!.acceptanceRate = d.acceptanceRate;
+      if (!d.converged) {
+        enhancements.warnings!.push(
+          `The sampler has not converged (R-hat ${d.rHat.toFixed(3)}, effective sample size ${d.effectiveSampleSize.toFixed(0)}), so the posterior summaries are unreliable; draw more iterations`,
+        );
+      }
+    }
+  }
+
+  /** A posterior engine distribution in the shape the input names priors */
+  private toParametricDistribution(
+    dist: ContinuousDistribution,
+  ): ParametricDistribution {
+    const { type, ...parameters } = dist;
+    return { distribution: type, parameters };
+  }
+
+  /** E.g. beta(alpha=28, beta=16) */
+  private formatDistribution(dist: ParametricDistribution): string {
+    const parameters = Object.entries(dist.parameters)
+      .map(([name, value]) => `${name}=${Number(value.toPrecision(4))}`)
+      .join(", ");
+    return `${dist.distribution}(${parameters})`;
+  }
+
   /**
    * Validate a probability value
    */
@@ -470,6 +470,13 @@ export class CausalHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Validate causal graph structure
    */
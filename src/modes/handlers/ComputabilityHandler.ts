@@ -403,6 +403,13 @@ export class ComputabilityHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
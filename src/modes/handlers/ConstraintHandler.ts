@@ -6,6 +6,9 @@
  * - Variable domain tracking
  * - Constraint propagation support
  * - Feasibility analysis
+ *
+ * Solution status, solutions, the search trace and arc consistency come from
+ * solving the stated CSP (src/modes/constraint/), not from the caller.
  */
 
 import { randomUUID } from "crypto";
@@ -15,18 +18,15 @@ import type {
   CSPVariable,
   CSPConstraint,
   Arc,
+  Assignment,
+  AssignmentHistoryEntry,
+  PropagationMethod,
 } from "../../types/modes/constraint.js";
-
-/**
- * Assignment history entry (local type for handler)
- */
-interface Assignment {
-  variableId: string;
-  value: string | number;
-  step: number;
-  backtracked: boolean;
-}
 import type { ThinkingToolInput } from "../../tools/thinking.js";
+import { checkAssignment, compileProblem } from "../constraint/problem.js";
+import { ac3, unsupportedValues } from "../constraint/propagation.js";
+import { solveCSP } from "../constraint/solver.js";
+import type { CompiledProblem, SolveResult } from "../constraint/types.js";
 import {
   ModeHandler,
   ValidationResult,
@@ -61,13 +61,32 @@ type ConstraintThoughtType = (typeof VALID_THOUGHT_TYPES)[number];
 /**
  * Valid constraint types
  */
-const VALID_CONSTRAINT_TYPES = ["unary", "binary", "n_ary", "global"] as const;
+const VALID_CONSTRAINT_TYPES = [
+  "unary",
+  "binary",
+  "n_ary",
+  "global",
+  "alldifferent",
+  "sum",
+  "element",
+] as const;
 
 /**
  * Valid constraint priorities
  */
 const VALID_PRIORITIES = ["required", "soft", "preference"] as const;
 
+/**
+ * Valid propagation methods
+ */
+const VALID_PROPAGATION_METHODS: readonly PropagationMethod[] = [
+  "none",
+  "forward_checking",
+  "arc_consistency",
+  "path_consistency",
+  "generalized_arc_consistency",
+];
+
 /**
  * ConstraintHandler - Specialized handler for constraint reasoning
  *
@@ -117,26 +136,21 @@ export class ConstraintHandler implements ModeHandler {
       ? inputAny.arcs.map((a: any) => this.normalizeArc(a))
       : this.generateArcs(variables, constraints);
 
-    // Process assignments
     const currentAssignments = inputAny.currentAssignments || {};
-    const assignmentHistory = (inputAny.assignmentHistory || []).map((a: any) =>
-      this.normalizeAssignment(a),
-    );
-
-    // Check arc consistency
-    const isArcConsistent =
-      inputAny.isArcConsistent ??
-      this.checkArcConsistency(variables, constraints);
-
-    // Determine solution status
-    const solutionStatus = this.determineSolutionStatus(
-      inputAny.solutionStatus,
-      variables,
-      constraints,
-      currentAssignments,
-    );
-
-    return {
+    const propagationMethod: PropagationMethod | undefined =
+      VALID_PROPAGATION_METHODS.includes(inputAny.propagationMethod)
+        ? inputAny.propagationMethod
+        : undefined;
+
+    const problem = compileProblem(variables, constraints);
+    const solvable = this.isSolvable(variables, constraints, problem);
+    const result = solvable
+      ? solveCSP(problem, {
+          propagation: propagationMethod ?? "arc_consistency",
+        })
+      : undefined;
+
+    const thought: ConstraintThought = {
       id: randomUUID(),
       sessionId,
       thoughtNumber: input.thoughtNumber,
@@ -151,20 +165,52 @@ export class ConstraintHandler implements ModeHandler {
       variables,
       constraints,
       currentAssignments,
-      assignmentHistory,
-      searchStep: inputAny.searchStep ?? assignmentHistory.length,
-      backtracks:
-        inputAny.backtracks ??
-        assignmentHistory.filter((a: Assignment) => a.backtracked).length,
       arcs,
-      isArcConsistent,
-      solutionStatus,
-      solutionCount: inputAny.solutionCount ?? 0,
+      backtracks: 0,
+      ...(propagationMethod && { propagationMethod }),
+      ...(problem.errors.length > 0 && { expressionErrors: problem.errors }),
+      ...(Object.keys(currentAssignments).length > 0 &&
+        problem.errors.length === 0 && {
+          assignmentCheck: {
+            id: "current",
+            values: currentAssignments,
+            ...checkAssignment(problem, currentAssignments),
+          },
+        }),
 
       // Revision tracking
       isRevision: input.isRevision,
       revisesThought: input.revisesThought,
     };
+
+    if (result) {
+      this.applySolveResult(thought, problem, result);
+    } else {
+      // Nothing the solver can check: keep what the caller reports
+      const assignmentHistory = (inputAny.assignmentHistory || []).map(
+        (a: Partial<AssignmentHistoryEntry>) => this.normalizeAssignment(a),
+      );
+      Object.assign(thought, {
+        assignmentHistory,
+        searchStep: inputAny.searchStep ?? assignmentHistory.length,
+        backtracks:
+          inputAny.backtracks ??
+          assignmentHistory.filter((a: AssignmentHistoryEntry) => a.backtracked)
+            .length,
+        isArcConsistent:
+          inputAny.isArcConsistent ??
+          this.checkArcConsistency(variables, constraints),
+        solutionStatus: this.determineSolutionStatus(
+          inputAny.solutionStatus,
+          variables,
+          constraints,
+          currentAssignments,
+        ),
+        solutionCount: inputAny.solutionCount ?? 0,
+      });
+    }
+
+    return thought;
   }
 
   /**
@@ -271,8 +317,8 @@ export class ConstraintHandler implements ModeHandler {
         );
       }
 
-      // Warn about missing expression
-      if (!c.expression) {
+      // Warn about missing expression; alldifferent is read from its variables
+      if (!c.expression && c.type !== "alldifferent") {
         warnings.push(
           createValidationWarning(
             `constraints[${i}].expression`,
@@ -283,6 +329,40 @@ export class ConstraintHandler implements ModeHandler {
       }
     }
 
+    // Warn about expressions the solver cannot read
+    if (inputAny.variables && cspConstraints.length > 0) {
+      const { errors: compileErrors } = compileProblem(
+        inputAny.variables.map((v: unknown) => this.normalizeVariable(v)),
+        cspConstraints
+          .map((c: Partial<CSPConstraint>, i: number) =>
+            this.normalizeConstraint({ ...c, id: c.id ?? `#${i + 1}` }),
+          )
+          .filter((c: CSPConstraint) => c.expression),
+      );
+      for (const error of compileErrors) {
+        warnings.push(
+          createValidationWarning(
+            "constraints",
+            `Constraint ${error.constraintId} cannot be solved: ${error.message}`,
+            "Write it as a condition over variable ids or names, e.g. X1 != X2 or |Q1 - Q2| != 1",
+          ),
+        );
+      }
+    }
+
+    if (
+      inputAny.propagationMethod &&
+      !VALID_PROPAGATION_METHODS.includes(inputAny.propagationMethod)
+    ) {
+      warnings.push(
+        createValidationWarning(
+          "propagationMethod",
+          `Unknown propagation method: ${inputAny.propagationMethod}`,
+          `Valid methods: ${VALID_PROPAGATION_METHODS.join(", ")}`,
+        ),
+      );
+    }
+
     // Check for conflicting assignments
     if (inputAny.currentAssignments && inputAny.variables) {
       for (const [varId, value] of Object.entries(
@@ -345,6 +425,36 @@ export class ConstraintHandler implements ModeHandler {
     enhancements.suggestions!.push(
       `Status: ${cspThought.solutionStatus || "unknown"}`,
     );
+    const [firstSolution] = cspThought.solutions ?? [];
+    if (firstSolution) {
+      const values = Object.entries(firstSolution.values)
+        .map(([id, value]) => `${id}=${value}`)
+        .join(", ");
+      enhancements.suggestions!.push(
+        `Solution: ${values}` +
+          (cspThought.searchExhaustive
+            ? ` (${cspThought.solutionCount} in total)`
+            : ""),
+      );
+    }
+    if (cspThought.solutionStatus === "timeout") {
+      enhancements.warnings!.push(
+        `Search budget ran out after ${cspThought.searchStep} assignments - tighten domains or add constraints`,
+      );
+    }
+
+    // What the solver could not use
+    for (const error of cspThought.expressionErrors ?? []) {
+      enhancements.warnings!.push(
+        `Constraint ${error.constraintId} was not solved: ${error.message}`,
+      );
+    }
+    const violated = cspThought.assignmentCheck?.violatedConstraints ?? [];
+    if (violated.length > 0) {
+      enhancements.warnings!.push(
+        `Current assignment violates: ${violated.join(", ")}`,
+      );
+    }
 
     // Arc consistency info
     if (cspThought.isArcConsistent) {
@@ -511,6 +621,13 @@ export class ConstraintHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
@@ -581,10 +698,12 @@ export class ConstraintHandler implements ModeHandler {
   /**
    * Normalize assignment
    */
-  private normalizeAssignment(assignment: any): Assignment {
+  private normalizeAssignment(
+    assignment: Partial<AssignmentHistoryEntry>,
+  ): AssignmentHistoryEntry {
     return {
       variableId: assignment.variableId || "",
-      value: assignment.value,
+      value: assignment.value ?? "",
       step: assignment.step || 0,
       backtracked: assignment.backtracked ?? false,
     };
@@ -610,6 +729,77 @@ export class ConstraintHandler implements ModeHandler {
     return arcs;
   }
 
+  /**
+   * Whether the solver can decide the problem: there are variables, and
+   * every required constraint compiled. With an unreadable required
+   * constraint, any answer the solver gave could be wrong.
+   */
+  private isSolvable(
+    variables: CSPVariable[],
+    constraints: CSPConstraint[],
+    problem: CompiledProblem,
+  ): boolean {
+    if (variables.length === 0) return false;
+    const failed = new Set(problem.errors.map((e) => e.constraintId));
+    return !constraints.some(
+      (c) => c.priority === "required" && failed.has(c.id),
+    );
+  }
+
+  /**
+   * Fill in the search results, domains and arc consistency from a solve
+   */
+  private applySolveResult(
+    thought: ConstraintThought,
+    problem: CompiledProblem,
+    result: SolveResult,
+  ): void {
+    thought.solutionStatus = result.status;
+    thought.solutionCount = result.solutions.length;
+    thought.searchExhaustive = result.exhaustive;
+    thought.solutions = result.solutions.map((values, i): Assignment => ({
+      id: `solution-${i + 1}`,
+      values,
+      ...checkAssignment(problem, values),
+    }));
+    thought.assignmentHistory = result.history;
+    thought.backtracks = result.backtracks;
+    thought.searchStep = result.nodes;
+    thought.searchStrategy = "backtracking";
+    thought.propagationMethod ??= "arc_consistency";
+
+    // Arc consistency of the problem as stated, whatever the search used
+    const domains = new Map(problem.domains);
+    const wipedOut = !ac3(problem, domains);
+    thought.isArcConsistent =
+      !wipedOut &&
+      problem.variables.every(
+        (id) => domains.get(id)!.length === problem.domains.get(id)!.length,
+      );
+    if (thought.isArcConsistent) thought.consistencyLevel = "arc_consistent";
+
+    for (const variable of thought.variables) {
+      const reduced = domains.get(variable.id);
+      if (!reduced || wipedOut) continue;
+      variable.currentDomain = reduced;
+      variable.domainReduced = reduced.length < variable.domain.length;
+    }
+
+    const byId = new Map(problem.constraints.map((c) => [c.id, c]));
+    for (const arc of thought.arcs ?? []) {
+      const constraint = byId.get(arc.constraintId ?? "");
+      if (!constraint?.required || !constraint.scope.includes(arc.from)) {
+        continue;
+      }
+      const unsupported = unsupportedValues(
+        constraint,
+        arc.from,
+        problem.domains,
+      );
+      if (unsupported) arc.isConsistent = unsupported.length === 0;
+    }
+  }
+
   /**
    * Check basic arc consistency (simplified)
    */
@@ -329,6 +329,13 @@ export class CounterfactualHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Validate a scenario
    */
@@ -444,6 +444,13 @@ export class CryptanalyticHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
@@ -6,11 +6,27 @@
  * - Logical form tracking (modus ponens, modus tollens, etc.)
  * - Validity and soundness assessment
  * - Logical fallacy detection
+ * - Validity of arguments written as first-order formulas, proved or
+ *   refuted by resolution in src/modes/formallogic/
  */
 
 import { randomUUID } from "crypto";
-import { ThinkingMode, DeductiveThought } from "../../types/core.js";
+import {
+  ThinkingMode,
+  DeductiveThought,
+  DeductiveValidityProof,
+} from "../../types/core.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
+import { parseFirstOrder } from "../formallogic/first-order.js";
+import {
+  formatCountermodel,
+  formatRefutation,
+  MAX_RESOLUTION_STEPS,
+  MAX_RESOLUTION_TIME_MS,
+  proveFirstOrder,
+  readResolutionOptions,
+} from "../formallogic/resolution.js";
+import type { FirstOrderFormula } from "../formallogic/types.js";
 import {
   ModeHandler,
   ValidationResult,
@@ -73,8 +89,13 @@ export class DeductiveHandler implements ModeHandler {
   createThought(input: ThinkingToolInput, sessionId: string): DeductiveThought {
     const inputAny = input as any;
 
-    // Auto-assess validity if premises and conclusion provided
-    const validityCheck = this.assessValidity(inputAny);
+    // Prove validity when the argument is written as formulas, and
+    // auto-assess it otherwise
+    const validityProof = this.proveValidity(inputAny);
+    const validityCheck =
+      validityProof && validityProof.status !== "unknown"
+        ? validityProof.status === "proved"
+        : this.assessValidity(inputAny);
 
     return {
       id: randomUUID(),
@@ -92,6 +113,7 @@ export class DeductiveHandler implements ModeHandler {
       logicForm: inputAny.logicForm,
       validityCheck,
       soundnessCheck: inputAny.soundnessCheck,
+      validityProof,
 
       // Revision tracking
       isRevision: input.isRevision,
@@ -189,6 +211,39 @@ export class DeductiveHandler implements ModeHandler {
       );
     }
 
+    // Validity proved or refuted by resolution, within the limits asked for
+    for (const problem of readResolutionOptions(inputAny.resolution).problems) {
+      warnings.push(
+        createValidationWarning(
+          "resolution",
+          problem,
+          `Ask for at most ${MAX_RESOLUTION_STEPS} steps and ${MAX_RESOLUTION_TIME_MS} ms`,
+        ),
+      );
+    }
+    const validityProof = this.proveValidity(inputAny);
+    if (validityProof?.status === "unknown") {
+      warnings.push(
+        createValidationWarning(
+          "conclusion",
+          `Validity could not be decided by resolution: ${validityProof.reason}`,
+          "Simplify the argument or add the premises it relies on",
+        ),
+      );
+    } else if (
+      validityProof &&
+      typeof inputAny.validityCheck === "boolean" &&
+      inputAny.validityCheck !== (validityProof.status === "proved")
+    ) {
+      warnings.push(
+        createValidationWarning(
+          "validityCheck",
+          `Argument is ${validityProof.status === "proved" ? "valid" : "invalid"} by resolution, not ${inputAny.validityCheck ? "valid" : "invalid"} as claimed`,
+          "The proved result replaces the claim",
+        ),
+      );
+    }
+
     // Validity without soundness warning
     if (
       inputAny.validityCheck === true &&
@@ -297,6 +352,27 @@ export class DeductiveHandler implements ModeHandler {
       }
     }
 
+    // Resolution proof or countermodel
+    const proof = thought.validityProof;
+    if (proof) {
+      enhancements.metrics!.resolutionSteps = proof.steps;
+      if (proof.status === "proved") {
+        enhancements.suggestions!.push(
+          `Validity proved by resolution: the premises and the negated conclusion derive the empty clause in ${proof.trace!.length} steps`,
+        );
+      } else if (proof.status === "refuted") {
+        enhancements.warnings!.push(
+          proof.countermodel!.complete
+            ? `Countermodel: ${formatCountermodel(proof.countermodel!)}`
+            : `Resolution saturates without a contradiction, leaving ${formatCountermodel(proof.countermodel!)}`,
+        );
+      } else {
+        enhancements.warnings!.push(
+          `Validity could not be decided by resolution: ${proof.reason}`,
+        );
+      }
+    }
+
     // Validity assessment
     if (thought.validityCheck) {
       enhancements.suggestions!.push(
@@ -350,11 +426,75 @@ export class DeductiveHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
+  /**
+   * Prove or refute an argument whose premises and conclusion all parse as
+   * first-order formulas
+   *
+   * An argument in prose, or one of bare names only, is left to
+   * `assessValidity`. The search stops at the limits in `resolution`.
+   */
+  private proveValidity(input: {
+    premises?: unknown;
+    conclusion?: unknown;
+    resolution?: { maxSteps?: unknown; timeLimitMs?: unknown };
+  }): DeductiveValidityProof | undefined {
+    const premises = input.premises ?? [];
+    if (
+      typeof input.conclusion !== "string" ||
+      !input.conclusion.trim() ||
+      !Array.isArray(premises)
+    ) {
+      return undefined;
+    }
+    const conclusion = this.parse(input.conclusion);
+    const formulas = premises.map((p) =>
+      typeof p === "string" ? this.parse(p) : undefined,
+    );
+    if (!conclusion || formulas.some((f) => !f)) return undefined;
+    // Bare names such as "P1" or "C" label statements rather than state them
+    if (
+      [conclusion, ...formulas].every(
+        (f) => f!.type === "atom" && f!.args.length === 0,
+      )
+    ) {
+      return undefined;
+    }
+
+    const result = proveFirstOrder(
+      formulas as FirstOrderFormula[],
+      conclusion,
+      readResolutionOptions(input.resolution).options,
+    );
+    return {
+      status: result.status,
+      method: "resolution",
+      ...(result.proof && { trace: formatRefutation(result.proof) }),
+      ...(result.countermodel && { countermodel: result.countermodel }),
+      ...(result.reason && { reason: result.reason }),
+      steps: result.steps,
+    };
+  }
+
+  private parse(text: string): FirstOrderFormula | undefined {
+    try {
+      return parseFirstOrder(text);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Assess validity of the argument structure
    *
-   * This is a heuristic assessment - full validity checking would require
-   * symbolic logic parsing.
+   * This is a heuristic assessment, used when the argument is not written
+   * as formulas that `proveValidity` can read.
    */
   private assessValidity(input: any): boolean {
     // If explicitly provided, use that
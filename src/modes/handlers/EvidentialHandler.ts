@@ -6,10 +6,30 @@
  * - Plausibility function computation
  * - Dempster's rule of combination
  * - Uncertainty quantification
+ * - Combination by Dempster's, Yager's or the PCR5 rule, with the conflict
+ *   mass K reported, and Bel, Pl and BetP computed for every focal set
+ * - Decisions ranked by the pignistic probability of their hypotheses
  */
 
 import { randomUUID } from "crypto";
 import { ThinkingMode, EvidentialThought } from "../../types/core.js";
+import type {
+  BeliefFunction,
+  CombinationRule,
+  Decision,
+  PlausibilityFunction,
+} from "../../types/modes/evidential.js";
+import {
+  TotalConflictError,
+  belief,
+  beliefIntervals,
+  combine,
+  pignistic,
+  pignisticDistribution,
+  plausibility,
+  readMassFunction,
+} from "../evidential/dempster-shafer.js";
+import type { Combination, MassFunction } from "../evidential/types.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
 import {
   ModeHandler,
@@ -30,6 +50,64 @@ type EvidentialThoughtType =
   | "evidence_combination"
   | "decision_analysis";
 
+const COMBINATION_RULES: CombinationRule[] = ["dempster", "yager", "pcr5"];
+
+const RULE_NAMES: Record<CombinationRule, string> = {
+  dempster: "Dempster's rule",
+  yager: "Yager's rule",
+  pcr5: "PCR5",
+};
+
+/** Conflict above which Dempster's rule is suspect */
+const HIGH_CONFLICT = 0.5;
+
+/** Difference between a claimed and a computed mass that is reported */
+const TOLERANCE = 0.001;
+
+/**
+ * The belief functions of an evidential input, and what the caller claims
+ * about their combination
+ */
+interface BeliefInput {
+  frameOfDiscernment?: string[];
+  beliefFunctions?: {
+    id?: string;
+    massAssignments?: { hypothesisSet?: unknown; mass?: unknown }[];
+  }[];
+  combinationRule?: string;
+  combinedBelief?: {
+    massAssignments?: { hypothesisSet?: unknown; mass?: unknown }[];
+    conflictMass?: unknown;
+  };
+  plausibility?: {
+    assignments?: {
+      hypothesisSet?: unknown;
+      belief?: unknown;
+      plausibility?: unknown;
+    }[];
+  };
+}
+
+/**
+ * The belief functions that could be read, and what the engine makes of them
+ */
+interface BeliefEvaluation {
+  /** The frame, with any hypothesis the functions name that it lacks */
+  frame: string[];
+
+  /** Ids of the functions read, in the order given */
+  ids: string[];
+
+  /** The combination, when two or more functions were read */
+  combination?: Combination;
+
+  /** The combined mass function, or the one function read */
+  mass?: MassFunction;
+
+  /** Set when the functions could not be combined */
+  conflict?: TotalConflictError;
+}
+
 /**
  * EvidentialHandler - Specialized handler for Dempster-Shafer theory
  *
@@ -64,6 +142,7 @@ export class EvidentialHandler implements ModeHandler {
 
     // Resolve thought type
     const thoughtType = this.resolveThoughtType(inputAny.thoughtType);
+    const rule = this.resolveCombinationRule(inputAny.combinationRule);
 
     // Phase 12 fix: Map massFunction from API to beliefFunctions format
     let beliefFunctions = inputAny.beliefFunctions || [];
@@ -90,6 +169,13 @@ export class EvidentialHandler implements ModeHandler {
       ];
     }
 
+    // Computed beliefs replace whatever the caller claimed
+    const evaluation = this.evaluateBeliefs(
+      { frameOfDiscernment: inputAny.frameOfDiscernment, beliefFunctions },
+      rule,
+    );
+    const mass = evaluation?.mass;
+
     return {
       id: randomUUID(),
       sessionId,
@@ -106,9 +192,13 @@ export class EvidentialHandler implements ModeHandler {
       hypotheses: inputAny.hypotheses || [],
       evidence: inputAny.evidence || [],
       beliefFunctions,
-      combinedBelief: inputAny.combinedBelief,
-      plausibility: inputAny.plausibility,
-      decisions: inputAny.decisions || [],
+      combinedBelief: evaluation?.combination
+        ? this.toBeliefFunction(evaluation.combination, evaluation.ids)
+        : inputAny.combinedBelief,
+      plausibility: mass ? this.toPlausibility(mass) : inputAny.plausibility,
+      decisions: this.rankDecisions(inputAny.decisions || [], mass),
+      ...(evaluation?.combination && { combinationRule: rule }),
+      ...(mass && { pignisticProbability: pignisticDistribution(mass) }),
     };
   }
 
@@ -171,6 +261,8 @@ export class EvidentialHandler implements ModeHandler {
       }
     }
 
+    warnings.push(...this.checkClaims(inputAny));
+
     if (errors.length > 0) {
       return validationFailure(errors, warnings);
     }
@@ -185,6 +277,7 @@ export class EvidentialHandler implements ModeHandler {
       suggestions: [],
       relatedModes: [ThinkingMode.BAYESIAN, ThinkingMode.ABDUCTIVE],
       metrics: {},
+      warnings: [],
       guidingQuestions: [],
       mentalModels: [
         "Dempster-Shafer Theory",
@@ -234,6 +327,8 @@ export class EvidentialHandler implements ModeHandler {
       );
     }
 
+    this.describeBeliefs(thought, enhancements);
+
     // Guiding questions
     enhancements.guidingQuestions = [
       "What evidence supports each hypothesis?",
@@ -252,6 +347,13 @@ export class EvidentialHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type to valid EvidentialThoughtType
    */
@@ -266,4 +368,371 @@ export class EvidentialHandler implements ModeHandler {
     }
     return "hypothesis_definition";
   }
+
+  private resolveCombinationRule(rule: unknown): CombinationRule {
+    return COMBINATION_RULES.includes(rule as CombinationRule)
+      ? (rule as CombinationRule)
+      : "dempster";
+  }
+
+  /**
+   * Read the belief functions whose every mass assignment names a
+   * hypothesisSet, then combine them, or take the one read, by the rule
+   */
+  private evaluateBeliefs(
+    input: BeliefInput,
+    rule: CombinationRule,
+  ): BeliefEvaluation | undefined {
+    const functions = (input.beliefFunctions || []).filter(
+      (bf) =>
+        Array.isArray(bf.massAssignments) &&
+        bf.massAssignments.length > 0 &&
+        bf.massAssignments.every(
+          (ma) => this.readSet(ma.hypothesisSet) && typeof ma.mass === "number",
+        ),
+    );
+    if (functions.length === 0) return undefined;
+
+    const frame = [...(input.frameOfDiscernment || [])];
+    for (const bf of functions) {
+      for (const ma of bf.massAssignments!) {
+        for (const h of this.readSet(ma.hypothesisSet)!) {
+          if (!frame.includes(h)) frame.push(h);
+        }
+      }
+    }
+
+    const masses = functions.map((bf) =>
+      readMassFunction(
+        frame,
+        bf.massAssignments!.map((ma) => ({
+          hypothesisSet: this.readSet(ma.hypothesisSet)!,
+          mass: ma.mass as number,
+        })),
+      ),
+    );
+    const ids = functions.map((bf, i) => bf.id || `bf-${i + 1}`);
+
+    try {
+      if (masses.length === 1) {
+        // Throws when the one function has all its mass on ∅
+        pignisticDistribution(masses[0]);
+        return { frame, ids, mass: masses[0] };
+      }
+      const combination = combine(masses, rule);
+      return { frame, ids, combination, mass: combination.mass };
+    } catch (error) {
+      if (!(error instanceof TotalConflictError)) throw error;
+      return { frame, ids, conflict: error };
+    }
+  }
+
+  private toBeliefFunction(
+    combination: Combination,
+    ids: string[],
+  ): BeliefFunction {
+    return {
+      id: `combined-${combination.rule}`,
+      source: "combined",
+      massAssignments: combination.mass.focal.map(({ set, mass }) => ({
+        hypothesisSet: set,
+        mass,
+        justification: `${RULE_NAMES[combination.rule]} over ${ids.join(", ")}`,
+      })),
+      conflictMass: combination.conflict,
+    };
+  }
+
+  private toPlausibility(mass: MassFunction): PlausibilityFunction {
+    return {
+      id: "plausibility",
+      assignments: beliefIntervals(mass).map((interval) => ({
+        hypothesisSet: interval.set,
+        belief: interval.belief,
+        plausibility: interval.plausibility,
+        uncertaintyInterval: [interval.belief, interval.plausibility],
+        pignisticProbability: interval.pignistic,
+      })),
+    };
+  }
+
+  /**
+   * Give each decision, and each of its alternatives, the pignistic
+   * probability of its hypotheses, and rank the decisions by it
+   */
+  private rankDecisions(
+    decisions: Decision[],
+    mass: MassFunction | undefined,
+  ): Decision[] {
+    if (!mass) return decisions;
+    const betP = (set: unknown): number | undefined => {
+      const hypotheses = this.readSet(set);
+      return hypotheses?.every((h) => mass.frame.includes(h))
+        ? pignistic(mass, hypotheses)
+        : undefined;
+    };
+
+    const scored = decisions.map((decision) => {
+      const probability = betP(decision.selectedHypothesis);
+      const alternatives = Array.isArray(decision.alternatives)
+        ? decision.alternatives.map((alt) => {
+            const p = betP(alt.hypothesis);
+            return p === undefined ? alt : { ...alt, pignisticProbability: p };
+          })
+        : decision.alternatives;
+      return probability === undefined
+        ? { ...decision, alternatives }
+        : { ...decision, alternatives, pignisticProbability: probability };
+    });
+
+    return scored.map((decision) => {
+      const probability = decision.pignisticProbability;
+      if (probability === undefined) return decision;
+      const higher = scored.filter(
+        (d) => (d.pignisticProbability ?? -1) > probability + Number.EPSILON,
+      ).length;
+      return { ...decision, rank: higher + 1 };
+    });
+  }
+
+  /**
+   * Check the belief functions can be read and combined, and the caller's
+   * combined belief and belief intervals against the computed ones
+   */
+  private checkClaims(input: BeliefInput): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const frame = input.frameOfDiscernment || [];
+
+    if (
+      input.combinationRule !== undefined &&
+      !COMBINATION_RULES.includes(input.combinationRule as CombinationRule)
+    ) {
+      warnings.push(
+        createValidationWarning(
+          "combinationRule",
+          `Unknown combination rule '${input.combinationRule}'; Dempster's rule was used`,
+          "Use 'dempster', 'yager' or 'pcr5'",
+        ),
+      );
+    }
+
+    for (const bf of input.beliefFunctions || []) {
+      const assignments = bf.massAssignments || [];
+      if (assignments.some((ma) => !this.readSet(ma.hypothesisSet))) {
+        warnings.push(
+          createValidationWarning(
+            "beliefFunctions",
+            `Belief function '${bf.id}' has mass assignments without a hypothesisSet, so it was left out of the combination`,
+            "Give each mass assignment the hypotheses it supports as hypothesisSet",
+          ),
+        );
+        continue;
+      }
+      if (frame.length === 0) continue;
+      const outside = [
+        ...new Set(
+          assignments.flatMap((ma) =>
+            this.readSet(ma.hypothesisSet)!.filter((h) => !frame.includes(h)),
+          ),
+        ),
+      ];
+      for (const h of outside) {
+        warnings.push(
+          createValidationWarning(
+            "beliefFunctions",
+            `Belief function '${bf.id}' assigns mass to '${h}', which is not in the frame of discernment`,
+            `Add '${h}' to frameOfDiscernment, or correct the hypothesis`,
+          ),
+        );
+      }
+    }
+
+    const rule = this.resolveCombinationRule(input.combinationRule);
+    const evaluation = this.evaluateBeliefs(input, rule);
+    if (!evaluation) return warnings;
+
+    if (evaluation.conflict) {
+      warnings.push(
+        createValidationWarning(
+          "beliefFunctions",
+          evaluation.ids.length > 1
+            ? `The belief functions are in total conflict (K = 1), so ${RULE_NAMES[rule]} cannot combine them`
+            : `Belief function '${evaluation.ids[0]}' puts all its mass on the empty set`,
+          evaluation.ids.length > 1
+            ? "Combine them with combinationRule 'yager' or 'pcr5'"
+            : "Assign the mass to the hypotheses it supports",
+        ),
+      );
+      return warnings;
+    }
+
+    const combination = evaluation.combination;
+    const claimed = input.combinedBelief;
+    if (combination && claimed) {
+      const name = RULE_NAMES[rule];
+      if (
+        typeof claimed.conflictMass === "number" &&
+        Math.abs(claimed.conflictMass - combination.conflict) > TOLERANCE
+      ) {
+        warnings.push(
+          createValidationWarning(
+            "combinedBelief",
+            `combinedBelief claims conflict ${claimed.conflictMass.toFixed(4)}, but the belief functions conflict with K = ${combination.conflict.toFixed(4)}`,
+            "Use the computed conflict mass",
+          ),
+        );
+      }
+      const claims = this.readMasses(claimed.massAssignments, evaluation.frame);
+      if (claims) {
+        const sets = [
+          ...new Set([
+            ...combination.mass.focal.map((f) => this.setKey(f.set)),
+            ...claims.keys(),
+          ]),
+        ];
+        const computed = new Map(
+          combination.mass.focal.map((f) => [this.setKey(f.set), f.mass]),
+        );
+        for (const key of sets) {
+          const actual = computed.get(key) ?? 0;
+          const claim = claims.get(key) ?? 0;
+          if (Math.abs(actual - claim) > TOLERANCE) {
+            warnings.push(
+              createValidationWarning(
+                "combinedBelief",
+                `combinedBelief puts ${claim.toFixed(3)} on {${key}}, but ${name} gives ${actual.toFixed(3)}`,
+                "Use the computed combination",
+              ),
+            );
+          }
+        }
+      }
+    }
+
+    for (const claim of input.plausibility?.assignments || []) {
+      const set = this.readSet(claim.hypothesisSet);
+      if (!set?.every((h) => evaluation.frame.includes(h))) continue;
+      for (const [label, field, value] of [
+        ["Bel", "belief", belief(evaluation.mass!, set)],
+        ["Pl", "plausibility", plausibility(evaluation.mass!, set)],
+      ] as const) {
+        const stated = claim[field];
+        if (
+          typeof stated === "number" &&
+          Math.abs(stated - value) > TOLERANCE
+        ) {
+          warnings.push(
+            createValidationWarning(
+              "plausibility",
+              `${label}({${set.join(", ")}}) is ${value.toFixed(3)}, not ${stated.toFixed(3)} as claimed`,
+              "Use the computed belief interval",
+            ),
+          );
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Report the combination: the conflict, what Yager's rule and PCR5 make of
+   * a high one, the belief interval and pignistic probability of each
+   * hypothesis, and the decisions' ranking
+   */
+  private describeBeliefs(
+    thought: EvidentialThought,
+    enhancements: ModeEnhancements,
+  ): void {
+    const combined = thought.combinedBelief;
+    const rule = thought.combinationRule;
+    if (rule && typeof combined?.conflictMass === "number") {
+      const conflict = combined.conflictMass;
+      enhancements.metrics!.conflictMass = conflict;
+      if (conflict >= HIGH_CONFLICT) {
+        enhancements.warnings!.push(
+          `Conflict K = ${conflict.toFixed(4)} between the belief functions is high; ${RULE_NAMES[rule]} gives ${this.describeMasses(combined.massAssignments)}`,
+        );
+        for (const alternative of COMBINATION_RULES) {
+          if (alternative === rule || alternative === "dempster") continue;
+          const mass = this.evaluateBeliefs(thought, alternative)?.mass;
+          if (!mass) continue;
+          enhancements.suggestions!.push(
+            `${RULE_NAMES[alternative]} gives ${this.describeMasses(mass.focal.map((f) => ({ hypothesisSet: f.set, mass: f.mass })))}`,
+          );
+        }
+      }
+    }
+
+    const intervals = (thought.plausibility?.assignments ?? []).filter(
+      (a) =>
+        a.pignisticProbability !== undefined && a.hypothesisSet.length === 1,
+    );
+    if (intervals.length > 0) {
+      enhancements.suggestions!.push(
+        `Belief intervals [Bel, Pl]: ${intervals
+          .map(
+            (a) =>
+              `${a.hypothesisSet[0]} [${a.belief.toFixed(3)}, ${a.plausibility.toFixed(3)}]`,
+          )
+          .join(", ")}`,
+      );
+    }
+
+    const betP = Object.entries(thought.pignisticProbability ?? {}).sort(
+      ([, a], [, b]) => b - a,
+    );
+    if (betP.length > 0) {
+      enhancements.suggestions!.push(
+        `Pignistic probabilities: ${betP.map(([h, p]) => `${h} ${p.toFixed(3)}`).join(", ")}`,
+      );
+    }
+
+    const best = (thought.decisions ?? []).find((d) => d.rank === 1);
+    if (best) {
+      enhancements.suggestions!.push(
+        `Decision '${best.name || best.id}' ranks first, with BetP ${best.pignisticProbability!.toFixed(3)}`,
+      );
+    }
+  }
+
+  /** Masses in descending order, as in "{B} 0.6000, {A, B} 0.4000" */
+  private describeMasses(
+    assignments: { hypothesisSet: string[]; mass: number }[],
+  ): string {
+    return [...assignments]
+      .sort((a, b) => b.mass - a.mass)
+      .map((a) => `{${a.hypothesisSet.join(", ")}} ${a.mass.toFixed(4)}`)
+      .join(", ");
+  }
+
+  /** A set of hypotheses, or undefined when the value is not one */
+  private readSet(value: unknown): string[] | undefined {
+    return Array.isArray(value) && value.every((h) => typeof h === "string")
+      ? value
+      : undefined;
+  }
+
+  /** Claimed masses by set, or undefined when any cannot be read */
+  private readMasses(
+    assignments: { hypothesisSet?: unknown; mass?: unknown }[] | undefined,
+    frame: string[],
+  ): Map<string, number> | undefined {
+    if (!Array.isArray(assignments)) return undefined;
+    const masses = new Map<string, number>();
+    for (const ma of assignments) {
+      const set = this.readSet(ma.hypothesisSet);
+      if (!set || typeof ma.mass !== "number") return undefined;
+      const ordered = frame.filter((h) => set.includes(h));
+      if (ordered.length !== new Set(set).size) return undefined;
+      const key = this.setKey(ordered);
+      masses.set(key, (masses.get(key) ?? 0) + ma.mass);
+    }
+    return masses;
+  }
+
+  /** A set's hypotheses in frame order, as in "A, B" */
+  private setKey(set: string[]): string {
+    return set.join(", ");
+  }
 }
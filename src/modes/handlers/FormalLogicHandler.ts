@@ -6,11 +6,55 @@
  * - Inference rule validation
  * - Proposition-conclusion consistency
  * - Logical fallacy detection
+ * - Truth tables, SAT, validity, equivalence and normal forms of
+ *   propositional formulas, computed by the engine in src/modes/formallogic/
+ * - Validity of first-order arguments by resolution
+ * - Natural-deduction checking of proof steps against their cited rules
  */
 
 import { randomUUID } from "crypto";
 import { ThinkingMode, FormalLogicThought } from "../../types/core.js";
+import type {
+  LogicalEquivalence,
+  LogicalProof,
+  NormalForm,
+  Proposition,
+  SatisfiabilityResult,
+  TruthTable,
+  ValidityResult,
+} from "../../types/modes/formallogic.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
+import {
+  formatFormula,
+  formulasEqual,
+  parseFormula,
+} from "../formallogic/formula.js";
+import {
+  formatFirstOrder,
+  parseFirstOrder,
+} from "../formallogic/first-order.js";
+import { checkNaturalDeduction } from "../formallogic/natural-deduction.js";
+import { toCNF, toDNF, toNNF } from "../formallogic/normal-forms.js";
+import {
+  formatCountermodel,
+  formatRefutation,
+  MAX_RESOLUTION_STEPS,
+  MAX_RESOLUTION_TIME_MS,
+  proveFirstOrder,
+  readResolutionOptions,
+} from "../formallogic/resolution.js";
+import {
+  checkEntailment,
+  checkEquivalence,
+  checkSatisfiable,
+} from "../formallogic/sat.js";
+import { buildTruthTable } from "../formallogic/truth-table.js";
+import type {
+  DeductionCheck,
+  FirstOrderFormula,
+  FirstOrderResult,
+  Formula,
+} from "../formallogic/types.js";
 import {
   ModeHandler,
   ValidationResult,
@@ -20,6 +64,51 @@ import {
   createValidationWarning,
 } from "./ModeHandler.js";
 
+/** Most variables a computed truth table may have (256 rows) */
+const MAX_TRUTH_TABLE_VARIABLES = 8;
+
+type NormalFormName = "nnf" | "cnf" | "dnf";
+
+/** Each normal form a caller may ask for, undefined when too large */
+const NORMAL_FORMS: Record<
+  NormalFormName,
+  (formula: Formula) => Formula | undefined
+> = {
+  nnf: (formula) => toNNF(formula),
+  cnf: (formula) => toCNF(formula),
+  dnf: (formula) => toDNF(formula),
+};
+
+/**
+ * Formulas of a formal logic input, and what the caller claims about them
+ */
+interface LogicInput {
+  formula?: string;
+  normalForms?: string[];
+  premises?: string[];
+  conclusion?: string;
+  resolution?: { maxSteps?: number; timeLimitMs?: number };
+  equivalence?: { formula1?: string; formula2?: string; equivalent?: boolean };
+  satisfiability?: { formula?: string; satisfiable?: boolean };
+  truthTable?: {
+    formula?: string;
+    isTautology?: boolean;
+    isContradiction?: boolean;
+  };
+  proof?: LogicalProof;
+}
+
+/**
+ * What the engine computed for a formal logic input
+ */
+interface LogicAnalysis {
+  truthTable?: TruthTable;
+  satisfiability?: SatisfiabilityResult;
+  validity?: ValidityResult;
+  equivalence?: LogicalEquivalence;
+  normalForm?: NormalForm;
+}
+
 type FormalLogicThoughtType =
   | "proposition_definition"
   | "inference_derivation"
@@ -61,6 +150,8 @@ export class FormalLogicHandler implements ModeHandler {
 
     // Resolve thought type
     const thoughtType = this.resolveThoughtType(inputAny.thoughtType);
+    const propositions: Proposition[] = inputAny.propositions || [];
+    const computed = this.analyze(inputAny, propositions);
 
     return {
       id: randomUUID(),
@@ -74,11 +165,14 @@ export class FormalLogicHandler implements ModeHandler {
       revisesThought: input.revisesThought,
       mode: ThinkingMode.FORMALLOGIC,
       thoughtType,
-      propositions: inputAny.propositions || [],
+      propositions,
       logicalInferences: inputAny.logicalInferences || [],
-      proof: inputAny.proof,
-      truthTable: inputAny.truthTable,
-      satisfiability: inputAny.satisfiability,
+      proof: this.checkProof(inputAny.proof),
+      truthTable: computed.truthTable ?? inputAny.truthTable,
+      satisfiability: computed.satisfiability ?? inputAny.satisfiability,
+      validity: computed.validity,
+      equivalence: computed.equivalence ?? inputAny.equivalence,
+      normalForm: computed.normalForm,
     };
   }
 
@@ -140,6 +234,8 @@ export class FormalLogicHandler implements ModeHandler {
       }
     }
 
+    warnings.push(...this.checkClaims(inputAny));
+
     return validationSuccess(warnings);
   }
 
@@ -201,9 +297,12 @@ export class FormalLogicHandler implements ModeHandler {
       "What are the truth conditions for the conclusion?",
     ];
 
+    this.describeAnalysis(thought, enhancements);
+    this.describeProofCheck(thought, enhancements);
+
     // Add available inference rules as suggestions
     enhancements.suggestions!.push(
-      "Available inference rules: modus_ponens, modus_tollens, hypothetical_syllogism, disjunctive_syllogism, conjunction, simplification, addition, resolution",
+      "Available inference rules: modus_ponens, modus_tollens, hypothetical_syllogism, disjunctive_syllogism, conjunction, simplification, addition, resolution, conditional_proof, proof_by_cases, reductio_ad_absurdum",
     );
 
     return enhancements;
@@ -215,6 +314,13 @@ export class FormalLogicHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type to valid FormalLogicThoughtType
    */
@@ -229,4 +335,575 @@ export class FormalLogicHandler implements ModeHandler {
     }
     return "proposition_definition";
   }
+
+  /**
+   * Compute truth table and satisfiability of the formula, the normal forms
+   * asked for, the validity of the argument and the equivalence of the two
+   * formulas given
+   *
+   * A formula that does not parse is skipped here; `validate` reports it.
+   */
+  private analyze(
+    input: LogicInput,
+    propositions: Proposition[],
+  ): LogicAnalysis {
+    const analysis: LogicAnalysis = {};
+    const source =
+      input.formula ??
+      input.satisfiability?.formula ??
+      input.truthTable?.formula;
+    const formula = source === undefined ? undefined : this.parse(source);
+
+    if (source !== undefined && formula) {
+      analysis.truthTable = this.computeTruthTable(
+        formula,
+        source,
+        propositions,
+      );
+      analysis.satisfiability = this.computeSatisfiability(formula, source);
+      const forms = this.requestedNormalForms(input);
+      if (forms.length > 0) {
+        analysis.normalForm = this.computeNormalForm(formula, source, forms);
+      }
+    }
+
+    const firstOrder = this.readFirstOrderArgument(input);
+    if (firstOrder) {
+      analysis.validity = this.computeFirstOrderValidity(
+        input,
+        firstOrder,
+        proveFirstOrder(
+          firstOrder.premises,
+          firstOrder.conclusion,
+          readResolutionOptions(input.resolution).options,
+        ),
+      );
+    }
+
+    const argument = this.readArgument(input);
+    if (argument) {
+      const check = checkEntailment(argument.premises, argument.conclusion);
+      if (check.status !== "unknown") {
+        analysis.validity = {
+          id: randomUUID(),
+          argument: {
+            id: randomUUID(),
+            premises: input.premises!,
+            conclusion: input.conclusion!,
+            latex: `${argument.premises.map((p) => formatFormula(p, "latex")).join(", ")} \\vdash ${formatFormula(argument.conclusion, "latex")}`,
+          },
+          valid: check.status === "valid",
+          method: "cdcl",
+          ...(check.counterexample && {
+            counterexample: check.counterexample,
+          }),
+          explanation:
+            check.status === "valid"
+              ? "The premises together with the negated conclusion are unsatisfiable"
+              : `${this.formatAssignment(check.counterexample!)} makes every premise true and the conclusion false`,
+        };
+      }
+    }
+
+    const { formula1, formula2 } = input.equivalence ?? {};
+    const left = formula1 === undefined ? undefined : this.parse(formula1);
+    const right = formula2 === undefined ? undefined : this.parse(formula2);
+    if (left && right) {
+      const check = checkEquivalence(left, right);
+      if (check.status !== "unknown") {
+        analysis.equivalence = {
+          id: randomUUID(),
+          formula1: formula1!,
+          formula2: formula2!,
+          equivalent: check.status === "equivalent",
+          proof:
+            check.status === "equivalent"
+              ? `${formatFormula({ type: "binary", operator: "xor", left, right })} is unsatisfiable`
+              : `They differ at ${this.formatAssignment(check.counterexample!)}`,
+        };
+      }
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Warnings for formulas that do not parse and for claims the engine
+   * contradicts
+   */
+  private checkClaims(input: LogicInput): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const unreadable = (field: string, text: string) => {
+      try {
+        parseFormula(text);
+        return false;
+      } catch (error) {
+        warnings.push(
+          createValidationWarning(
+            field,
+            `Formula cannot be parsed: ${(error as Error).message}`,
+            "Write it with ¬ ∧ ∨ → ↔ (or ~ & | -> <->, or \\neg \\land \\lor \\to \\leftrightarrow)",
+          ),
+        );
+        return true;
+      }
+    };
+
+    const source =
+      input.formula ??
+      input.satisfiability?.formula ??
+      input.truthTable?.formula;
+    if (source !== undefined && !unreadable("formula", source)) {
+      for (const form of this.requestedNormalForms(input)) {
+        if (!NORMAL_FORMS[form](parseFormula(source))) {
+          warnings.push(
+            createValidationWarning(
+              "normalForms",
+              `Formula is too large for its ${form.toUpperCase()} to be computed`,
+              "Ask for the normal form of a smaller part of the formula",
+            ),
+          );
+        }
+      }
+      const { status } = checkSatisfiable([parseFormula(source)]);
+      const claimed = input.satisfiability?.satisfiable;
+      if (status !== "unknown" && claimed !== undefined) {
+        const satisfiable = status === "satisfiable";
+        if (claimed !== satisfiable) {
+          warnings.push(
+            createValidationWarning(
+              "satisfiability",
+              `Formula is ${satisfiable ? "satisfiable" : "unsatisfiable"}, not ${claimed ? "satisfiable" : "unsatisfiable"} as claimed`,
+              "The computed result replaces the claim",
+            ),
+          );
+        }
+      }
+      const table = input.truthTable;
+      if (table && status !== "unknown") {
+        const tautology =
+          checkSatisfiable([{ type: "not", operand: parseFormula(source) }])
+            .status === "unsatisfiable";
+        const contradiction = status === "unsatisfiable";
+        if (
+          (table.isTautology !== undefined &&
+            table.isTautology !== tautology) ||
+          (table.isContradiction !== undefined &&
+            table.isContradiction !== contradiction)
+        ) {
+          warnings.push(
+            createValidationWarning(
+              "truthTable",
+              `Formula is ${tautology ? "a tautology" : contradiction ? "a contradiction" : "contingent"}, unlike the claimed truth table`,
+              "The computed truth table replaces the claim",
+            ),
+          );
+        }
+      }
+    }
+
+    // Limits on the resolution search
+    const { options, problems } = readResolutionOptions(input.resolution);
+    for (const problem of problems) {
+      warnings.push(
+        createValidationWarning(
+          "resolution",
+          problem,
+          `Ask for at most ${MAX_RESOLUTION_STEPS} steps and ${MAX_RESOLUTION_TIME_MS} ms`,
+        ),
+      );
+    }
+
+    // A conclusion that is not a formula is prose; premises are only read
+    // against a conclusion that is. A first-order argument goes to resolution
+    const firstOrder = this.readFirstOrderArgument(input);
+    if (firstOrder) {
+      const { status, reason } = proveFirstOrder(
+        firstOrder.premises,
+        firstOrder.conclusion,
+        options,
+      );
+      if (status === "unknown") {
+        warnings.push(
+          createValidationWarning(
+            "conclusion",
+            `Argument could not be decided by resolution: ${reason}`,
+            "Simplify the argument or add the premises it relies on",
+          ),
+        );
+      }
+    } else if (input.conclusion !== undefined && input.premises) {
+      try {
+        parseFormula(input.conclusion);
+        input.premises.forEach((premise, i) =>
+          unreadable(`premises[${i}]`, premise),
+        );
+      } catch {
+        // Prose argument
+      }
+    }
+
+    const equivalence = input.equivalence;
+    if (
+      equivalence?.formula1 !== undefined &&
+      equivalence.formula2 !== undefined
+    ) {
+      const readable =
+        !unreadable("equivalence.formula1", equivalence.formula1) &&
+        !unreadable("equivalence.formula2", equivalence.formula2);
+      if (readable && equivalence.equivalent !== undefined) {
+        const { status } = checkEquivalence(
+          parseFormula(equivalence.formula1),
+          parseFormula(equivalence.formula2),
+        );
+        if (
+          status !== "unknown" &&
+          (status === "equivalent") !== equivalence.equivalent
+        ) {
+          warnings.push(
+            createValidationWarning(
+              "equivalence",
+              `Formulas are ${status === "equivalent" ? "equivalent" : "not equivalent"}, unlike the claim`,
+              "The computed result replaces the claim",
+            ),
+          );
+        }
+      }
+    }
+
+    const proofCheck = this.runProofCheck(input.proof);
+    if (proofCheck) {
+      warnings.push(...this.checkProofClaims(input.proof!, proofCheck));
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Report computed results as suggestions, warnings and metrics
+   */
+  private describeAnalysis(
+    thought: FormalLogicThought,
+    enhancements: ModeEnhancements,
+  ): void {
+    const { truthTable, satisfiability, validity, equivalence, normalForm } =
+      thought;
+
+    if (truthTable?.rows?.length) {
+      enhancements.metrics!.truthTableRows = truthTable.rows.length;
+      enhancements.metrics!.satisfyingRows = truthTable.rows.filter(
+        (r) => r.result,
+      ).length;
+    }
+    if (satisfiability?.method === "cdcl") {
+      enhancements.suggestions!.push(
+        satisfiability.satisfiable
+          ? truthTable?.isTautology
+            ? "Formula is a tautology"
+            : `Formula is satisfiable: ${this.formatAssignment(satisfiability.model ?? {})}`
+          : "Formula is unsatisfiable (a contradiction)",
+      );
+    }
+    if (normalForm?.cnf) {
+      enhancements.suggestions!.push(`CNF: ${normalForm.cnf}`);
+    }
+    if (validity) {
+      if (validity.valid) {
+        enhancements.suggestions!.push(
+          "Argument is valid: the premises entail the conclusion",
+        );
+      } else {
+        enhancements.warnings = enhancements.warnings ?? [];
+        enhancements.warnings.push(
+          `Argument is invalid: ${validity.explanation}`,
+        );
+      }
+    }
+    if (equivalence?.proof) {
+      enhancements.suggestions!.push(
+        equivalence.equivalent
+          ? "Formulas are equivalent"
+          : `Formulas are not equivalent: ${equivalence.proof.charAt(0).toLowerCase()}${equivalence.proof.slice(1)}`,
+      );
+    }
+  }
+
+  /**
+   * The proof with `valid` computed by natural deduction, when every step
+   * could be checked or one is invalid
+   *
+   * A proof is valid when every step follows and it ends with its stated
+   * conclusion (when that parses). An assumption left open does not make it
+   * invalid, since it may stand for a premise the proof does not name as
+   * one: the claimed validity is kept and `validate` warns about it.
+   */
+  private checkProof(
+    proof: LogicalProof | undefined,
+  ): LogicalProof | undefined {
+    const check = this.runProofCheck(proof);
+    if (!check) return proof;
+    if (check.firstInvalid) return { ...proof!, valid: false };
+    if (!check.verified || check.openAssumptions.length > 0) return proof;
+    return { ...proof!, valid: this.endsWithConclusion(proof!) !== false };
+  }
+
+  private runProofCheck(
+    proof: LogicalProof | undefined,
+  ): DeductionCheck | undefined {
+    return Array.isArray(proof?.steps) && proof.steps.length > 0
+      ? checkNaturalDeduction(proof.steps)
+      : undefined;
+  }
+
+  /**
+   * Whether the last step's formula is the proof's conclusion; undefined when
+   * either does not parse
+   */
+  private endsWithConclusion(proof: LogicalProof): boolean | undefined {
+    const last = proof.steps[proof.steps.length - 1];
+    const formula = this.parse(last.formula ?? last.statement ?? "");
+    const conclusion = this.parse(proof.conclusion ?? "");
+    return formula && conclusion
+      ? formulasEqual(formula, conclusion)
+      : undefined;
+  }
+
+  private checkProofClaims(
+    proof: LogicalProof,
+    check: DeductionCheck,
+  ): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    if (check.firstInvalid) {
+      warnings.push(
+        createValidationWarning(
+          "proof.steps",
+          `Proof step ${check.firstInvalid.stepNumber} does not follow: ${check.firstInvalid.reason}`,
+          "Cite the steps its rule needs, or correct its formula or rule",
+        ),
+      );
+    }
+    if (check.verified && check.openAssumptions.length > 0) {
+      warnings.push(
+        createValidationWarning(
+          "proof.steps",
+          `Proof leaves ${check.openAssumptions.length === 1 ? "the assumption at step" : "the assumptions at steps"} ${check.openAssumptions.join(", ")} undischarged`,
+          "Discharge each assumption with →-introduction, ¬-introduction, reductio or ∨-elimination",
+        ),
+      );
+    }
+    if (this.endsWithConclusion(proof) === false) {
+      const last = proof.steps[proof.steps.length - 1];
+      warnings.push(
+        createValidationWarning(
+          "proof.conclusion",
+          `Proof ends with ${last.formula ?? last.statement}, not its conclusion ${proof.conclusion}`,
+          "End the proof with a step that derives the conclusion",
+        ),
+      );
+    }
+    return warnings;
+  }
+
+  /**
+   * Report the natural-deduction check of the proof
+   */
+  private describeProofCheck(
+    thought: FormalLogicThought,
+    enhancements: ModeEnhancements,
+  ): void {
+    const check = this.runProofCheck(thought.proof);
+    if (!check) return;
+
+    const valid = check.steps.filter((s) => s.status === "valid").length;
+    enhancements.metrics!.checkedProofSteps = valid;
+    if (check.firstInvalid) {
+      enhancements.warnings = enhancements.warnings ?? [];
+      enhancements.warnings.push(
+        `Proof step ${check.firstInvalid.stepNumber} does not follow: ${check.firstInvalid.reason}`,
+      );
+    } else if (check.sequent) {
+      enhancements.suggestions!.push(
+        `Proof checks by natural deduction: ${check.sequent}`,
+      );
+    } else if (valid > 0) {
+      // Prose proofs check no step at all and get no notice
+      const unchecked = check.steps.find((s) => s.status === "unchecked");
+      if (unchecked) {
+        enhancements.suggestions!.push(
+          `Proof step ${unchecked.stepNumber} could not be checked: ${unchecked.reason}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * The premises and conclusion as formulas, when all of them parse
+   */
+  private readArgument(
+    input: LogicInput,
+  ): { premises: Formula[]; conclusion: Formula } | undefined {
+    if (input.conclusion === undefined || !input.premises) return undefined;
+    const conclusion = this.parse(input.conclusion);
+    const premises = input.premises.map((p) => this.parse(p));
+    if (!conclusion || premises.some((p) => !p)) return undefined;
+    return { premises: premises as Formula[], conclusion };
+  }
+
+  private computeTruthTable(
+    formula: Formula,
+    source: string,
+    propositions: Proposition[],
+  ): TruthTable | undefined {
+    let table;
+    try {
+      table = buildTruthTable(formula, {
+        maxVariables: MAX_TRUTH_TABLE_VARIABLES,
+      });
+    } catch {
+      return undefined;
+    }
+    // Columns are proposition IDs where a proposition has the variable as its
+    // symbol or ID
+    const column = (name: string): string =>
+      propositions.find((p) => p.symbol === name || p.id === name)?.id ?? name;
+    return {
+      id: randomUUID(),
+      propositions: table.variables.map(column),
+      formula: source,
+      rows: table.rows.map((row, i) => ({
+        rowNumber: i + 1,
+        assignments: Object.fromEntries(
+          Object.entries(row.assignment).map(([name, value]) => [
+            column(name),
+            value,
+          ]),
+        ),
+        result: row.value,
+      })),
+      isTautology: table.tautology,
+      isContradiction: table.contradiction,
+      isContingent: !table.tautology && !table.contradiction,
+    };
+  }
+
+  private computeSatisfiability(
+    formula: Formula,
+    source: string,
+  ): SatisfiabilityResult | undefined {
+    const check = checkSatisfiable([formula]);
+    if (check.status === "unknown") return undefined;
+    const satisfiable = check.status === "satisfiable";
+    return {
+      id: randomUUID(),
+      formula: source,
+      latex: formatFormula(formula, "latex"),
+      satisfiable,
+      ...(check.model && { model: check.model }),
+      method: "cdcl",
+      explanation: satisfiable
+        ? `CDCL search found a satisfying assignment after ${check.decisions} decision(s) and ${check.conflicts} conflict(s)`
+        : `CDCL search refuted the formula after ${check.conflicts} conflict(s)`,
+    };
+  }
+
+  /**
+   * The normal forms the input asks for, without repeats or unknown names
+   */
+  private requestedNormalForms(input: LogicInput): NormalFormName[] {
+    return [...new Set(input.normalForms ?? [])].filter(
+      (form): form is NormalFormName => Object.hasOwn(NORMAL_FORMS, form),
+    );
+  }
+
+  /**
+   * Those of `forms` that are small enough to compute
+   */
+  private computeNormalForm(
+    formula: Formula,
+    source: string,
+    forms: NormalFormName[],
+  ): NormalForm {
+    const [nnf, cnf, dnf] = (["nnf", "cnf", "dnf"] as const).map((form) =>
+      forms.includes(form) ? NORMAL_FORMS[form](formula) : undefined,
+    );
+    return {
+      id: randomUUID(),
+      original: source,
+      ...(nnf && { nnf: formatFormula(nnf) }),
+      ...(cnf && { cnf: formatFormula(cnf) }),
+      ...(dnf && { dnf: formatFormula(dnf) }),
+      latex: {
+        original: formatFormula(formula, "latex"),
+        ...(nnf && { nnf: formatFormula(nnf, "latex") }),
+        ...(cnf && { cnf: formatFormula(cnf, "latex") }),
+        ...(dnf && { dnf: formatFormula(dnf, "latex") }),
+      },
+    };
+  }
+
+  /**
+   * Premises and conclusion read as first-order formulas, when they do not
+   * all read as propositional ones
+   */
+  private readFirstOrderArgument(
+    input: LogicInput,
+  ):
+    | { premises: FirstOrderFormula[]; conclusion: FirstOrderFormula }
+    | undefined {
+    if (input.conclusion === undefined || !input.premises) return undefined;
+    if (this.readArgument(input)) return undefined;
+    try {
+      return {
+        premises: input.premises.map((p) => parseFirstOrder(p)),
+        conclusion: parseFirstOrder(input.conclusion),
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private computeFirstOrderValidity(
+    input: LogicInput,
+    argument: { premises: FirstOrderFormula[]; conclusion: FirstOrderFormula },
+    result: FirstOrderResult,
+  ): ValidityResult | undefined {
+    if (result.status === "unknown") return undefined;
+    const model = result.countermodel;
+    return {
+      id: randomUUID(),
+      argument: {
+        id: randomUUID(),
+        premises: input.premises!,
+        conclusion: input.conclusion!,
+        latex: `${argument.premises.map((p) => formatFirstOrder(p, "latex")).join(", ")} \\vdash ${formatFirstOrder(argument.conclusion, "latex")}`,
+      },
+      valid: result.status === "proved",
+      method: "resolution",
+      ...(model?.complete && { counterexample: model.facts }),
+      ...(result.proof && { proofTrace: formatRefutation(result.proof) }),
+      explanation:
+        result.status === "proved"
+          ? `Resolution derives the empty clause from the premises and the negated conclusion in ${result.proof!.length} steps`
+          : model!.complete
+            ? `in the model over ${formatCountermodel(model!)}, every premise is true and the conclusion false`
+            : `resolution saturates without a contradiction, leaving ${formatCountermodel(model!)}`,
+    };
+  }
+
+  private parse(text: string): Formula | undefined {
+    try {
+      return parseFormula(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private formatAssignment(assignment: Record<string, boolean>): string {
+    const entries = Object.entries(assignment);
+    return entries.length === 0
+      ? "any assignment"
+      : entries
+          .map(([name, value]) => `${name} = ${value ? "T" : "F"}`)
+          .join(", ");
+  }
 }
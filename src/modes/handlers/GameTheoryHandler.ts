@@ -4,8 +4,10 @@
  * Specialized handler for Game Theory reasoning mode with:
  * - Payoff matrix dimension validation
  * - Player/strategy consistency checks
- * - Basic Nash equilibria computation (pure strategies)
- * - Zero-sum game detection
+ * - Nash equilibria computation (pure, and mixed for two-player games)
+ * - Zero-sum game detection and minimax solution
+ * - Backward induction on perfect-information game trees
+ * - Shapley value, core and nucleolus of cooperative games
  */
 
 import { randomUUID } from "crypto";
@@ -18,8 +20,36 @@ import type {
   PayoffEntry,
   NashEquilibrium,
   DominantStrategy,
+  MinimaxAnalysis,
+  GameTree,
+  BackwardInduction,
+  CooperativeGame,
+  AllocationCheck,
 } from "../../types/modes/gametheory.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
+import { isZeroSum, toBimatrix } from "../gametheory/bimatrix.js";
+import {
+  EXACT_PLAYER_LIMIT,
+  blockingCoalitions,
+  coalitionMembers,
+  coalitionValue,
+  findNucleolus,
+  isConvex,
+  isSuperadditive,
+  readCoalitionGame,
+  shapleyValues,
+} from "../gametheory/cooperative.js";
+import { expectedPayoffs, findEquilibria } from "../gametheory/equilibria.js";
+import {
+  playersInTree,
+  solveBackwardInduction,
+} from "../gametheory/extensive.js";
+import { solveZeroSum } from "../gametheory/minimax.js";
+import type {
+  Bimatrix,
+  CoalitionGame,
+  MixedEquilibrium,
+} from "../gametheory/types.js";
 import {
   ModeHandler,
   ValidationResult,
@@ -37,6 +67,7 @@ type GameTheoryThoughtType =
   | "equilibrium_finding"
   | "payoff_computation"
   | "dominance_analysis"
+  | "backward_induction"
   | "minimax_analysis"
   | "cooperative_analysis"
   | "coalition_formation"
@@ -50,8 +81,11 @@ type GameTheoryThoughtType =
  * - Validates payoff matrix dimensions match player/strategy counts
  * - Checks player-strategy assignment consistency
  * - Identifies dominant strategies
- * - Finds pure strategy Nash equilibria
- * - Detects zero-sum games
+ * - Finds pure strategy Nash equilibria, and mixed ones for two-player
+ *   games by support enumeration (src/modes/gametheory/)
+ * - Detects zero-sum games and solves them exactly by linear programming
+ * - Solves cooperative games for the Shapley value, core and nucleolus, and
+ *   checks the allocations the caller proposes against them
  */
 export class GameTheoryHandler implements ModeHandler {
   readonly mode = ThinkingMode.GAMETHEORY;
@@ -68,6 +102,7 @@ export class GameTheoryHandler implements ModeHandler {
     "equilibrium_finding",
     "payoff_computation",
     "dominance_analysis",
+    "backward_induction",
     "minimax_analysis",
     "cooperative_analysis",
     "coalition_formation",
@@ -90,6 +125,9 @@ export class GameTheoryHandler implements ModeHandler {
     const strategies: Strategy[] = inputAny.strategies || [];
     const payoffMatrix: PayoffMatrix | undefined = inputAny.payoffMatrix;
 
+    // Two-player games are also solved in mixed strategies
+    const bimatrix = payoffMatrix && this.readBimatrix(payoffMatrix, players);
+
     // Try to find Nash equilibria if payoff matrix is provided
     let nashEquilibria: NashEquilibrium[] | undefined = inputAny.nashEquilibria;
     if (!nashEquilibria && payoffMatrix && players.length > 0) {
@@ -98,8 +136,30 @@ export class GameTheoryHandler implements ModeHandler {
         players,
         strategies,
       );
+      if (bimatrix) {
+        nashEquilibria.push(...this.findMixedStrategyNashEquilibria(bimatrix));
+      }
     }
 
+    // Solve zero-sum games exactly
+    let minimaxAnalysis: MinimaxAnalysis | undefined = inputAny.minimaxAnalysis;
+    if (!minimaxAnalysis && bimatrix && isZeroSum(bimatrix)) {
+      minimaxAnalysis = this.analyzeMinimax(bimatrix);
+    }
+
+    // Solve game trees by backward induction
+    const gameTree: GameTree | undefined = inputAny.gameTree;
+    let backwardInduction: BackwardInduction | undefined =
+      inputAny.backwardInduction;
+    if (!backwardInduction && gameTree) {
+      backwardInduction = this.solveGameTree(gameTree, players);
+    }
+
+    // Solve cooperative games from their characteristic function
+    const cooperativeGame: CooperativeGame | undefined =
+      inputAny.cooperativeGame &&
+      this.solveCooperativeGame(inputAny.cooperativeGame);
+
     // Find dominant strategies
     let dominantStrategies: DominantStrategy[] | undefined =
       inputAny.dominantStrategies;
@@ -129,9 +189,10 @@ export class GameTheoryHandler implements ModeHandler {
       payoffMatrix,
       nashEquilibria,
       dominantStrategies,
-      gameTree: inputAny.gameTree,
-      minimaxAnalysis: inputAny.minimaxAnalysis,
-      cooperativeGame: inputAny.cooperativeGame,
+      gameTree,
+      backwardInduction,
+      minimaxAnalysis,
+      cooperativeGame,
       coalitionAnalysis: inputAny.coalitionAnalysis,
     };
   }
@@ -206,6 +267,55 @@ export class GameTheoryHandler implements ModeHandler {
       warnings.push(...matrixValidation.warnings);
     }
 
+    // A game tree backward induction cannot read is reported, not rejected
+    const gameTree: GameTree | undefined = inputAny.gameTree;
+    if (gameTree) {
+      try {
+        solveBackwardInduction(
+          gameTree,
+          this.treePlayerOrder(gameTree, players),
+        );
+      } catch (error) {
+        warnings.push(
+          createValidationWarning(
+            "gameTree",
+            `Game tree cannot be solved: ${(error as Error).message}`,
+            "Give the tree a root, children that exist, and payoffs at every terminal node",
+          ),
+        );
+      }
+    }
+
+    // So is a characteristic function the cooperative solver cannot read
+    const cooperativeGame: CooperativeGame | undefined =
+      inputAny.cooperativeGame;
+    if (cooperativeGame) {
+      try {
+        const game = readCoalitionGame(
+          cooperativeGame.players ?? [],
+          cooperativeGame.characteristicFunction ?? [],
+        );
+        const unlisted = 2 ** game.players.length - 1 - game.values.size;
+        if (unlisted > 0) {
+          warnings.push(
+            createValidationWarning(
+              "cooperativeGame.characteristicFunction",
+              `${unlisted} of the ${2 ** game.players.length - 1} coalitions have no value and count as worth 0`,
+              "List every coalition whose value is not 0",
+            ),
+          );
+        }
+      } catch (error) {
+        warnings.push(
+          createValidationWarning(
+            "cooperativeGame",
+            `Cooperative game cannot be solved: ${(error as Error).message}`,
+            "Build each coalition from the game's players, with at most 50 players",
+          ),
+        );
+      }
+    }
+
     // Suggest adding game elements if none provided
     if (players.length === 0 && !payoffMatrix) {
       warnings.push(
@@ -305,6 +415,15 @@ export class GameTheoryHandler implements ModeHandler {
           "Is there a mechanism to achieve a Pareto-superior outcome through cooperation?",
         );
       }
+      const mixed = thought.nashEquilibria.filter((eq) => eq.type === "mixed");
+      if (mixed.length === thought.nashEquilibria.length) {
+        enhancements.suggestions!.push(
+          "No pure strategy Nash equilibrium: equilibrium play is in mixed strategies.",
+        );
+      }
+      for (const eq of mixed.slice(0, 3)) {
+        enhancements.suggestions!.push(this.describeMixedEquilibrium(eq));
+      }
     } else if (thought.payoffMatrix) {
       enhancements.suggestions!.push(
         "No pure strategy Nash equilibria found. Consider mixed strategies.",
@@ -314,6 +433,48 @@ export class GameTheoryHandler implements ModeHandler {
       );
     }
 
+    // Minimax solution
+    if (thought.minimaxAnalysis) {
+      const analysis = thought.minimaxAnalysis;
+      enhancements.metrics!.gameValue = analysis.gameValue;
+      enhancements.suggestions!.push(
+        analysis.hasSaddlePoint
+          ? `Game value ${analysis.gameValue}, at a pure saddle point`
+          : `Game value ${analysis.gameValue}: row player mixes (${analysis.optimalRowStrategy.join(", ")}), column player mixes (${analysis.optimalColumnStrategy.join(", ")})`,
+      );
+    }
+
+    // Backward induction
+    if (thought.backwardInduction) {
+      const solution = thought.backwardInduction;
+      if (solution.optimalPath.length > 0) {
+        enhancements.suggestions!.push(
+          `Subgame-perfect play: ${solution.optimalPath.join(" → ")} (payoffs ${solution.expectedPayoffs.map((p) => Number(p.toFixed(4))).join(", ")})`,
+        );
+      }
+      if (solution.tiedNodes && solution.tiedNodes.length > 0) {
+        enhancements.suggestions!.push(
+          `A player is indifferent at ${solution.tiedNodes.join(", ")}, so other subgame-perfect equilibria exist`,
+        );
+      }
+      if (
+        solution.imperfectInformationSets &&
+        solution.imperfectInformationSets.length > 0
+      ) {
+        enhancements.warnings!.push(
+          `Information sets ${solution.imperfectInformationSets.join(", ")} hold more than one node, so backward induction cannot solve them. Use the normal form of those subgames, or a sequential or perfect Bayesian equilibrium.`,
+        );
+        enhancements.guidingQuestions!.push(
+          "What does each player believe about which node of their information set they are at?",
+        );
+      }
+    }
+
+    // Cooperative solution and the allocations checked against it
+    if (thought.cooperativeGame) {
+      this.describeCooperativeGame(thought.cooperativeGame, enhancements);
+    }
+
     // Dominant strategy analysis
     if (thought.dominantStrategies && thought.dominantStrategies.length > 0) {
       enhancements.metrics!.dominantStrategyCount =
@@ -355,6 +516,13 @@ export class GameTheoryHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve input thought type to valid GameTheory thought type
    */
@@ -770,6 +938,395 @@ export class GameTheoryHandler implements ModeHandler {
     return Math.min(1, Math.max(0, 0.5 + avgPenalty / 10));
   }
 
+  /**
+   * Read a two-player payoff matrix as a bimatrix, or undefined if it is
+   * not one or has missing profiles
+   */
+  private readBimatrix(
+    matrix: PayoffMatrix,
+    players: Player[],
+  ): Bimatrix | undefined {
+    try {
+      return toBimatrix(matrix, players);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the equilibria of a two-player game in which some player mixes
+   *
+   * Pure equilibria come from findPureStrategyNashEquilibria; support
+   * enumeration finds them too, so they are skipped here.
+   */
+  private findMixedStrategyNashEquilibria(game: Bimatrix): NashEquilibrium[] {
+    const { equilibria } = findEquilibria(game);
+    return equilibria
+      .filter((eq) => eq.rowSupport.length > 1 || eq.columnSupport.length > 1)
+      .map((eq) => ({
+        id: randomUUID(),
+        strategyProfile: [
+          eq.rowSupport.map((i) => game.rowStrategies[i]).join("+"),
+          eq.columnSupport.map((j) => game.columnStrategies[j]).join("+"),
+        ],
+        payoffs: [eq.rowPayoff, eq.columnPayoff],
+        type: "mixed",
+        isStrict: false,
+        stability: this.calculateMixedEquilibriumStability(game, eq),
+        mixedStrategies: [
+          Object.fromEntries(
+            game.rowStrategies.map((id, i) => [id, eq.row[i]]),
+          ),
+          Object.fromEntries(
+            game.columnStrategies.map((id, j) => [id, eq.column[j]]),
+          ),
+        ],
+      }));
+  }
+
+  /**
+   * Stability score of a mixed equilibrium, on the same scale as
+   * calculateEquilibriumStability: the average loss from switching to each
+   * pure strategy. Strategies in the support cost nothing to switch to,
+   * which is why mixed equilibria score lower than strict pure ones.
+   */
+  private calculateMixedEquilibriumStability(
+    game: Bimatrix,
+    eq: MixedEquilibrium,
+  ): number {
+    const penalties: number[] = [];
+    game.rowStrategies.forEach((_, i) => {
+      const pure = game.rowStrategies.map((__, k) => (k === i ? 1 : 0));
+      penalties.push(eq.rowPayoff - expectedPayoffs(game, pure, eq.column)[0]);
+    });
+    game.columnStrategies.forEach((_, j) => {
+      const pure = game.columnStrategies.map((__, k) => (k === j ? 1 : 0));
+      penalties.push(eq.columnPayoff - expectedPayoffs(game, eq.row, pure)[1]);
+    });
+    const avgPenalty =
+      penalties.reduce((sum, p) => sum + p, 0) / penalties.length;
+    return Math.min(1, Math.max(0, 0.5 + avgPenalty / 10));
+  }
+
+  /**
+   * Solve a zero-sum game by linear programming
+   */
+  private analyzeMinimax(game: Bimatrix): MinimaxAnalysis {
+    const solution = solveZeroSum(game.rowPayoffs);
+    const { value, pureMaximin, pureMinimax, saddlePoint } = solution;
+    const steps = [
+      `Pure maximin (best guaranteed row): ${pureMaximin}`,
+      `Pure minimax (best guaranteed column): ${pureMinimax}`,
+      saddlePoint
+        ? `Saddle point at (${game.rowStrategies[saddlePoint[0]]}, ${game.columnStrategies[saddlePoint[1]]}): maximin = minimax`
+        : "maximin < minimax in pure strategies, so optimal play is mixed",
+      `Row strategy x* = (${solution.rowStrategy.join(", ")}) guarantees the row player at least ${value}`,
+      `Column strategy y* = (${solution.columnStrategy.join(", ")}) holds the row player to at most ${value}`,
+      `Hence max_x min_y xᵀAy = min_y max_x xᵀAy = ${value}`,
+    ];
+
+    return {
+      gameValue: value,
+      maximin: pureMaximin,
+      minimax: pureMinimax,
+      hasSaddlePoint: saddlePoint !== undefined,
+      ...(saddlePoint && { saddlePoint }),
+      optimalRowStrategy: solution.rowStrategy,
+      optimalColumnStrategy: solution.columnStrategy,
+      solutionMethod: "linear_programming",
+      proofStructure: {
+        matrix: game.rowPayoffs,
+        steps,
+        theorem: "von_neumann_1928",
+      },
+      securityLevels: {
+        rowPlayer: value,
+        columnPlayer: value === 0 ? 0 : -value,
+      },
+    };
+  }
+
+  /**
+   * One-line summary of a mixed equilibrium
+   */
+  private describeMixedEquilibrium(eq: NashEquilibrium): string {
+    const percent = (p: number): string => `${Number((p * 100).toFixed(2))}%`;
+    const mixes = (eq.mixedStrategies ?? []).map((mix, player) => {
+      const played = Object.entries(mix)
+        .filter(([, p]) => p > 0)
+        .map(([id, p]) => `${id} ${percent(p)}`)
+        .join(", ");
+      return `player ${player + 1} plays ${played}`;
+    });
+    const payoffs = eq.payoffs.map((p) => Number(p.toFixed(4))).join(", ");
+    return `Mixed equilibrium: ${mixes.join("; ")} (expected payoffs ${payoffs})`;
+  }
+
+  /**
+   * Solve a game tree by backward induction, or undefined if it is malformed
+   */
+  private solveGameTree(
+    tree: GameTree,
+    players: Player[],
+  ): BackwardInduction | undefined {
+    let solution;
+    try {
+      solution = solveBackwardInduction(
+        tree,
+        this.treePlayerOrder(tree, players),
+      );
+    } catch {
+      return undefined;
+    }
+
+    const actionAt = (nodeId: string): string => {
+      const node = tree.nodes.find((n) => n.id === nodeId);
+      return node?.action ?? nodeId;
+    };
+    return {
+      subgamePerfectEquilibrium: tree.nodes
+        .filter((node) => solution.choices.has(node.id))
+        .map(
+          (node) => `${node.id}:${actionAt(solution.choices.get(node.id)!)}`,
+        ),
+      optimalPath: solution.optimalPath,
+      expectedPayoffs: solution.values.get(tree.rootNode) ?? [],
+      ...(solution.ties.length > 0 && { tiedNodes: solution.ties }),
+      ...(solution.imperfectInformationSets.length > 0 && {
+        imperfectInformationSets: solution.imperfectInformationSets,
+      }),
+    };
+  }
+
+  /**
+   * Order of payoffs at terminal nodes: the listed players when every mover
+   * is among them, otherwise the order players first move in
+   */
+  private treePlayerOrder(tree: GameTree, players: Player[]): string[] {
+    const listed = players.map((p) => p.id);
+    const movers = playersInTree(tree);
+    return listed.length > 0 && movers.every((id) => listed.includes(id))
+      ? listed
+      : movers;
+  }
+
+  /**
+   * Fill in a cooperative game's solution from its characteristic function
+   *
+   * Properties of the game itself (superadditivity, convexity, a non-empty
+   * core) are recomputed. Shapley values, a nucleolus or core allocations the
+   * caller supplied are kept and checked in `allocationChecks`; the computed
+   * ones fill in what is missing. Properties that need every coalition are
+   * only computed up to EXACT_PLAYER_LIMIT players.
+   */
+  private solveCooperativeGame(game: CooperativeGame): CooperativeGame {
+    if (!game.players || game.players.length === 0) return game;
+    let coalitionGame: CoalitionGame;
+    try {
+      coalitionGame = readCoalitionGame(
+        game.players,
+        game.characteristicFunction ?? [],
+      );
+    } catch {
+      return game;
+    }
+    const record = (values: number[]): Record<string, number> =>
+      Object.fromEntries(game.players.map((id, i) => [id, values[i]]));
+
+    const shapley = shapleyValues(coalitionGame);
+    const solved: CooperativeGame = {
+      ...game,
+      shapleyValues: game.shapleyValues ?? record(shapley.values),
+      ...(shapley.method === "sampled" && {
+        shapleyEstimate: {
+          samples: shapley.samples!,
+          standardErrors: record(shapley.standardErrors!),
+        },
+      }),
+    };
+
+    const exact = game.players.length <= EXACT_PLAYER_LIMIT;
+    const solution = exact ? findNucleolus(coalitionGame) : undefined;
+    if (solution) {
+      const hasNonEmptyCore = solution.leastCoreEpsilon <= 0;
+      Object.assign(solved, {
+        isSuperadditive: isSuperadditive(coalitionGame),
+        isConvex: isConvex(coalitionGame),
+        hasNonEmptyCore,
+        leastCoreEpsilon: solution.leastCoreEpsilon,
+        nucleolus: game.nucleolus ?? solution.nucleolus,
+      });
+      if (!game.core && hasNonEmptyCore && solution.nucleolus) {
+        solved.core = [
+          {
+            allocation: record(solution.nucleolus),
+            isImputation: true,
+            distanceToNucleolus: 0,
+            justification:
+              "The nucleolus, which lies in the core whenever the core is non-empty",
+          },
+        ];
+      }
+    }
+
+    // Allocations the caller proposed, against what was computed
+    const checks: AllocationCheck[] = [];
+    if (game.core) {
+      solved.core = game.core.map((entry) => {
+        const check = this.checkAllocation(
+          coalitionGame,
+          "core",
+          entry.allocation,
+        );
+        checks.push(check);
+        return entry.distanceToNucleolus === undefined && solution?.nucleolus
+          ? {
+              ...entry,
+              distanceToNucleolus: this.distance(
+                game.players.map((id) => check.allocation[id]),
+                solution.nucleolus,
+              ),
+            }
+          : entry;
+      });
+    }
+    if (game.shapleyValues) {
+      const tolerance =
+        shapley.method === "sampled"
+          ? 3 * Math.max(...shapley.standardErrors!)
+          : undefined;
+      checks.push(
+        this.checkAllocation(
+          coalitionGame,
+          "shapley_value",
+          game.shapleyValues,
+          shapley.values,
+          tolerance,
+        ),
+      );
+    }
+    if (game.nucleolus && solution?.nucleolus) {
+      checks.push(
+        this.checkAllocation(
+          coalitionGame,
+          "nucleolus",
+          record(game.nucleolus),
+          solution.nucleolus,
+        ),
+      );
+    }
+    if (checks.length > 0) solved.allocationChecks = checks;
+    return solved;
+  }
+
+  /**
+   * Check a proposed allocation, and compare it with the computed one it is
+   * meant to equal, if any
+   */
+  private checkAllocation(
+    game: CoalitionGame,
+    source: AllocationCheck["source"],
+    proposed: Record<string, number>,
+    computed?: number[],
+    tolerance?: number,
+  ): AllocationCheck {
+    const x = game.players.map((id) => proposed[id] ?? 0);
+    const grand = 2 ** game.players.length - 1;
+    const total = x.reduce((sum, xi) => sum + xi, 0);
+    const slack = 1e-6 * Math.max(1, Math.abs(coalitionValue(game, grand)));
+    const isEfficient = Math.abs(total - coalitionValue(game, grand)) <= slack;
+    const blocking = blockingCoalitions(game, x);
+    const check: AllocationCheck = {
+      source,
+      allocation: Object.fromEntries(game.players.map((id, i) => [id, x[i]])),
+      isEfficient,
+      isIndividuallyRational: x.every(
+        (xi, i) => xi >= coalitionValue(game, 2 ** i) - slack,
+      ),
+      isInCore: isEfficient && blocking.length === 0,
+      blockingCoalitions: blocking.map((mask) => coalitionMembers(game, mask)),
+    };
+    if (computed) {
+      check.maxDeviation = Math.max(
+        ...computed.map((value, i) => Math.abs(x[i] - value)),
+      );
+      check.matchesComputed = check.maxDeviation <= (tolerance ?? slack);
+    }
+    return check;
+  }
+
+  private distance(x: number[], y: number[]): number {
+    return Math.sqrt(x.reduce((sum, xi, i) => sum + (xi - y[i]) ** 2, 0));
+  }
+
+  /**
+   * Suggestions and warnings for a solved cooperative game
+   */
+  private describeCooperativeGame(
+    game: CooperativeGame,
+    enhancements: ModeEnhancements,
+  ): void {
+    const format = (allocation: Record<string, number>): string =>
+      Object.entries(allocation)
+        .map(([id, value]) => `${id} ${Number(value.toFixed(4))}`)
+        .join(", ");
+
+    if (game.shapleyValues) {
+      enhancements.suggestions!.push(
+        game.shapleyEstimate
+          ? `Shapley value (estimated from ${game.shapleyEstimate.samples} random orders): ${format(game.shapleyValues)}`
+          : `Shapley value: ${format(game.shapleyValues)}`,
+      );
+    }
+    if (game.leastCoreEpsilon !== undefined) {
+      enhancements.metrics!.leastCoreEpsilon = game.leastCoreEpsilon;
+      if (game.hasNonEmptyCore) {
+        if (game.nucleolus) {
+          enhancements.suggestions!.push(
+            `The core is non-empty; the nucleolus is ${format(
+              Object.fromEntries(
+                game.players.map((id, i) => [id, game.nucleolus![i]]),
+              ),
+            )}`,
+          );
+        }
+      } else {
+        enhancements.warnings!.push(
+          `The core is empty: any division of v(N) leaves some coalition able to get more on its own (least-core ε = ${Number(game.leastCoreEpsilon.toFixed(4))})`,
+        );
+        enhancements.guidingQuestions!.push(
+          "Which coalitions would break away, and what could hold the grand coalition together?",
+        );
+      }
+    }
+
+    const labels: Record<AllocationCheck["source"], string> = {
+      core: "Proposed core allocation",
+      shapley_value: "Supplied Shapley value",
+      nucleolus: "Supplied nucleolus",
+    };
+    for (const check of game.allocationChecks ?? []) {
+      const label = `${labels[check.source]} (${format(check.allocation)})`;
+      if (check.matchesComputed === false) {
+        enhancements.warnings!.push(
+          `${label} differs from the computed one by up to ${Number(check.maxDeviation!.toFixed(4))}`,
+        );
+      }
+      if (check.source !== "core") continue;
+      if (!check.isEfficient) {
+        enhancements.warnings!.push(
+          `${label} does not divide exactly v(N), so it is not in the core`,
+        );
+      } else if (!check.isInCore) {
+        enhancements.warnings!.push(
+          `${label} is not in the core: blocked by ${check.blockingCoalitions
+            .map((members) => `{${members.join(", ")}}`)
+            .join(", ")}`,
+        );
+      }
+    }
+  }
+
   /**
    * Find dominant strategies
    */
@@ -397,6 +397,13 @@ export class MathematicsHandler implements ModeHandler {
     return VALID_THOUGHT_TYPES.includes(thoughtType as MathematicsThoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...VALID_THOUGHT_TYPES];
+  }
+
   /**
    * Resolve thought type
    */
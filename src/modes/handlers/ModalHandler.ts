@@ -6,6 +6,11 @@
  * - Necessity and possibility operators
  * - Accessibility relations
  * - Multi-modal logic support (epistemic, deontic, alethic, temporal)
+ * - Kripke model checking: each proposition is evaluated under its operator
+ *   at every world, and the frame's properties are checked against the
+ *   logic system
+ * - Validity of modal inferences in the logic system, with a countermodel
+ *   for each invalid one
  */
 
 import { randomUUID } from "crypto";
@@ -16,7 +21,23 @@ import type {
   ModalProposition,
   AccessibilityRelation,
   ModalInference,
+  ModalOperator,
+  KripkeFrame,
 } from "../../types/modes/modal.js";
+import { parseModal } from "../modal/formula.js";
+import {
+  SYSTEM_PROPERTIES,
+  checkFrame,
+  formatKripkeModel,
+  readKripkeModel,
+  truthSet,
+} from "../modal/kripke.js";
+import { checkModalValidity } from "../modal/validity.js";
+import type {
+  KripkeModel,
+  ModalFormula,
+  ModalValidityResult,
+} from "../modal/types.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
 import {
   ModeHandler,
@@ -62,6 +83,29 @@ const VALID_MODAL_DOMAINS = [
   "temporal",
 ] as const;
 
+/**
+ * The Kripke model, propositions and inferences of a modal input, and what
+ * the caller claims about them
+ */
+interface ModelInput {
+  modalLogicType?: string;
+  worlds?: Partial<PossibleWorld>[];
+  actualWorld?: string;
+  accessibilityRelations?: Partial<AccessibilityRelation>[];
+  propositions?: {
+    content?: string;
+    operator?: ModalOperator;
+    evaluatedIn?: string;
+    truthValue?: boolean;
+  }[];
+  inferences?: {
+    premises?: string[];
+    premise?: string;
+    conclusion?: string;
+    valid?: boolean;
+  }[];
+}
+
 /**
  * ModalHandler - Specialized handler for modal reasoning
  *
@@ -107,11 +151,6 @@ export class ModalHandler implements ModeHandler {
       worlds.find((w: PossibleWorld) => w.isActual)?.id ||
       worlds[0].id;
 
-    // Process propositions
-    const propositions = (inputAny.propositions || []).map((p: any) =>
-      this.normalizeProposition(p, worlds),
-    );
-
     // Process accessibility relations
     const accessibilityRelations = (inputAny.accessibilityRelations || []).map(
       (r: any) =>
@@ -121,15 +160,28 @@ export class ModalHandler implements ModeHandler {
         ),
     );
 
-    // Process inferences
-    const inferences = inputAny.inferences
-      ? inputAny.inferences.map((i: any) => this.normalizeInference(i))
-      : undefined;
+    // Process propositions, evaluated in the Kripke model
+    const model = readKripkeModel(worlds, accessibilityRelations);
+    const propositions = (inputAny.propositions || []).map((p: any) =>
+      this.normalizeProposition(p, worlds, model, actualWorld),
+    );
 
     // Resolve modal logic type and domain
     const modalLogicType = this.resolveLogicSystem(inputAny.modalLogicType);
     const modalDomain = this.resolveModalDomain(inputAny.modalDomain);
 
+    // Process inferences, deciding each in the logic system
+    const inferences = inputAny.inferences
+      ? inputAny.inferences.map((i: Partial<ModalInference>) =>
+          this.normalizeInference(i, modalLogicType),
+        )
+      : undefined;
+
+    const kripkeFrame =
+      inputAny.worlds?.length > 0
+        ? this.checkKripkeFrame(model, accessibilityRelations, modalLogicType)
+        : undefined;
+
     return {
       id: randomUUID(),
       sessionId,
@@ -149,6 +201,7 @@ export class ModalHandler implements ModeHandler {
       modalLogicType,
       modalDomain,
       inferences,
+      kripkeFrame,
 
       // Revision tracking
       isRevision: input.isRevision,
@@ -268,6 +321,7 @@ export class ModalHandler implements ModeHandler {
     }
 
     // Validate S5 requires all worlds to be mutually accessible
+    let s5Unrelated = false;
     if (
       inputAny.modalLogicType === "S5" &&
       inputAny.worlds &&
@@ -277,6 +331,7 @@ export class ModalHandler implements ModeHandler {
         !inputAny.accessibilityRelations ||
         inputAny.accessibilityRelations.length === 0
       ) {
+        s5Unrelated = true;
         warnings.push(
           createValidationWarning(
             "accessibilityRelations",
@@ -287,6 +342,8 @@ export class ModalHandler implements ModeHandler {
       }
     }
 
+    warnings.push(...this.checkClaims(inputAny, s5Unrelated));
+
     if (errors.length > 0) {
       return validationFailure(errors, warnings);
     }
@@ -462,15 +519,7 @@ export class ModalHandler implements ModeHandler {
       );
     }
 
-    // Validate accessibility matches logic system
-    if (logicType === "S5" && accessibilityRelations.length > 0) {
-      const hasUniversalAccess = this.checkUniversalAccessibility(modalThought);
-      if (!hasUniversalAccess) {
-        enhancements.warnings!.push(
-          "S5 requires universal accessibility - not all worlds are connected",
-        );
-      }
-    }
+    this.describeModelCheck(modalThought, enhancements);
 
     return enhancements;
   }
@@ -482,6 +531,13 @@ export class ModalHandler implements ModeHandler {
     return this.supportedThoughtTypes.includes(thoughtType as ModalThoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
@@ -569,7 +625,28 @@ export class ModalHandler implements ModeHandler {
   private normalizeProposition(
     prop: any,
     worlds: PossibleWorld[],
+    model: KripkeModel,
+    actualWorld: string,
   ): ModalProposition {
+    const operator: ModalOperator = prop.operator || "contingent";
+    const evaluation = this.evaluateProposition(
+      { ...prop, operator },
+      worlds,
+      model,
+      actualWorld,
+    );
+    if (evaluation) {
+      return {
+        id: prop.id || randomUUID(),
+        content: prop.content,
+        operator,
+        evaluatedIn: evaluation.world,
+        truthValue: evaluation.truthValue,
+        worldsTrue: evaluation.worldsTrue,
+        worldsFalse: evaluation.worldsFalse,
+      };
+    }
+
     // Determine which worlds the proposition is true/false in
     const worldsTrue: string[] = [];
     const worldsFalse: string[] = [];
@@ -585,13 +662,98 @@ export class ModalHandler implements ModeHandler {
     return {
       id: prop.id || randomUUID(),
       content: prop.content || "",
-      operator: prop.operator || "contingent",
+      operator,
       truthValue: prop.truthValue,
       worldsTrue: prop.worldsTrue || worldsTrue,
       worldsFalse: prop.worldsFalse || worldsFalse,
     };
   }
 
+  /**
+   * Model-check a proposition whose content parses as a modal formula: the
+   * worlds where its content is true, and whether the content under its
+   * operator holds at `evaluatedIn`, or at the actual world
+   */
+  private evaluateProposition(
+    prop: { content?: unknown; operator: ModalOperator; evaluatedIn?: unknown },
+    worlds: PossibleWorld[],
+    model: KripkeModel,
+    actualWorld: string,
+  ):
+    | {
+        world: string;
+        truthValue?: boolean;
+        worldsTrue: string[];
+        worldsFalse: string[];
+      }
+    | undefined {
+    const content = this.parse(prop.content);
+    if (!content) return undefined;
+
+    const reference =
+      typeof prop.evaluatedIn === "string" ? prop.evaluatedIn : actualWorld;
+    const world =
+      worlds.find((w) => w.id === reference)?.id ??
+      worlds.find((w) => w.name === reference)?.id ??
+      reference;
+    const holds = truthSet(model, content);
+    const formula = this.applyOperator(prop.operator, content);
+
+    return {
+      world,
+      truthValue: formula && truthSet(model, formula).has(world),
+      worldsTrue: model.worlds.filter((w) => holds.has(w)),
+      worldsFalse: model.worlds.filter((w) => !holds.has(w)),
+    };
+  }
+
+  /**
+   * A proposition's content under its operator; the epistemic, deontic and
+   * temporal operators are □ and ◇ over the accessibility relation
+   */
+  private applyOperator(
+    operator: ModalOperator,
+    content: ModalFormula,
+  ): ModalFormula | undefined {
+    const box: ModalFormula = {
+      type: "modal",
+      operator: "box",
+      operand: content,
+    };
+    const diamond: ModalFormula = {
+      type: "modal",
+      operator: "diamond",
+      operand: content,
+    };
+    switch (operator) {
+      case "necessary":
+      case "known":
+      case "believed":
+      case "obligatory":
+      case "always":
+        return box;
+      case "possible":
+      case "permitted":
+      case "eventually":
+        return diamond;
+      case "impossible":
+        return { type: "not", operand: diamond };
+      case "contingent":
+        return {
+          type: "binary",
+          operator: "and",
+          left: diamond,
+          right: {
+            type: "modal",
+            operator: "diamond",
+            operand: { type: "not", operand: content },
+          },
+        };
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Normalize accessibility relation
    */
@@ -611,8 +773,11 @@ export class ModalHandler implements ModeHandler {
   /**
    * Normalize inference
    */
-  private normalizeInference(inf: any): ModalInference {
-    return {
+  private normalizeInference(
+    inf: Partial<ModalInference>,
+    system: ModalThought["modalLogicType"],
+  ): ModalInference {
+    const inference: ModalInference = {
       id: inf.id || randomUUID(),
       premises: inf.premises || [],
       conclusion: inf.conclusion || "",
@@ -620,45 +785,216 @@ export class ModalHandler implements ModeHandler {
       valid: inf.valid ?? false,
       justification: inf.justification || "",
     };
+
+    const check = this.checkInference(inf, system);
+    if (check && check.status !== "unknown") {
+      inference.valid = check.status === "valid";
+      inference.checkedIn = check.system;
+      if (check.countermodel) {
+        const { world, worlds, access, valuation } = check.countermodel;
+        inference.countermodel = {
+          world,
+          worlds,
+          accessibility: access,
+          valuation,
+        };
+      }
+    }
+    return inference;
   }
 
   /**
-   * Check if all worlds are mutually accessible (for S5)
+   * Decide an inference whose premises and conclusion all parse as modal
+   * formulas, in a logic system other than `custom`
    */
-  private checkUniversalAccessibility(thought: ModalThought): boolean {
-    const worlds = thought.worlds || [];
-    const relations = thought.accessibilityRelations || [];
+  private checkInference(
+    inf: { premises?: unknown; premise?: unknown; conclusion?: unknown },
+    system: ModalThought["modalLogicType"],
+  ): ModalValidityResult | undefined {
+    if (!system || system === "custom") return undefined;
+    const sources = Array.isArray(inf.premises)
+      ? inf.premises
+      : inf.premise !== undefined
+        ? [inf.premise]
+        : [];
+    const premises = sources.map((p) => this.parse(p));
+    const conclusion = this.parse(inf.conclusion);
+    if (!conclusion || premises.some((p) => !p)) return undefined;
+    return checkModalValidity(premises as ModalFormula[], conclusion, system);
+  }
 
-    const worldIds = new Set(worlds.map((w) => w.id));
-    const accessMap = new Map<string, Set<string>>();
+  /**
+   * Which frame properties the accessibility relation has, and whether they
+   * include those the logic system requires
+   */
+  private checkKripkeFrame(
+    model: KripkeModel,
+    relations: AccessibilityRelation[],
+    system: ModalThought["modalLogicType"],
+  ): KripkeFrame {
+    const check = checkFrame(model);
+    const required =
+      system && system !== "custom" ? SYSTEM_PROPERTIES[system] : [];
+    const violations = required
+      .filter((property) => check.violations[property] !== undefined)
+      .map(
+        (property) =>
+          `The frame is not ${property}, as ${system} requires: ${check.violations[property]}`,
+      );
+    return {
+      id: randomUUID(),
+      worlds: model.worlds,
+      relations,
+      properties: check.properties,
+      isValid: violations.length === 0,
+      ...(violations.length > 0 && { violations }),
+    };
+  }
 
-    // Initialize access map with self-loops (reflexive)
-    for (const id of worldIds) {
-      accessMap.set(id, new Set([id]));
+  /**
+   * Warnings where the model checker disagrees with the input: a frame
+   * lacking a property its logic system requires, a proposition whose
+   * claimed truth value is wrong, and an inference whose claimed validity is
+   */
+  private checkClaims(
+    input: ModelInput,
+    s5Unrelated: boolean,
+  ): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const system = this.resolveLogicSystem(input.modalLogicType);
+    for (const inf of input.inferences || []) {
+      const check = this.checkInference(inf, system);
+      if (!check) continue;
+      const sequent = this.describeSequent(inf);
+      if (check.status === "unknown") {
+        warnings.push(
+          createValidationWarning(
+            "inferences",
+            `${sequent} could not be decided in ${system}: a countermodel may need up to ${check.bound} worlds`,
+            "Check the inference by hand, or in a smaller logic system",
+          ),
+        );
+      } else if (
+        typeof inf.valid === "boolean" &&
+        inf.valid !== (check.status === "valid")
+      ) {
+        warnings.push(
+          createValidationWarning(
+            "inferences",
+            check.countermodel
+              ? `${sequent} is invalid in ${system}, not valid as claimed: countermodel ${formatKripkeModel(check.countermodel)} at ${check.countermodel.world}`
+              : `${sequent} is valid in ${system}, not invalid as claimed`,
+            "Correct the inference's validity",
+          ),
+        );
+      }
     }
 
-    // Add explicit relations
-    for (const rel of relations) {
-      const fromWorld = rel.fromWorld || "";
-      const toWorld = rel.toWorld || "";
-      if (fromWorld && accessMap.has(fromWorld)) {
-        accessMap.get(fromWorld)!.add(toWorld);
+    if (!input.worlds?.length) return warnings;
+
+    const worlds = input.worlds.map((w) => this.normalizeWorld(w));
+    const relations = (input.accessibilityRelations || []).map((r) =>
+      this.normalizeAccessibilityRelation(r, "alethic"),
+    );
+    const model = readKripkeModel(worlds, relations);
+    const actualWorld =
+      input.actualWorld || worlds.find((w) => w.isActual)?.id || worlds[0].id;
+
+    if (!s5Unrelated) {
+      for (const violation of this.checkKripkeFrame(model, relations, system)
+        .violations ?? []) {
+        warnings.push(
+          createValidationWarning(
+            "accessibilityRelations",
+            violation,
+            "Add the missing accessibility, or choose a weaker logic system",
+          ),
+        );
       }
-      // For S5, make symmetric
-      if (toWorld && accessMap.has(toWorld)) {
-        accessMap.get(toWorld)!.add(fromWorld);
+    }
+
+    for (const prop of input.propositions || []) {
+      if (typeof prop.truthValue !== "boolean") continue;
+      const operator: ModalOperator = prop.operator || "contingent";
+      const evaluation = this.evaluateProposition(
+        { ...prop, operator },
+        worlds,
+        model,
+        actualWorld,
+      );
+      if (
+        evaluation?.truthValue !== undefined &&
+        evaluation.truthValue !== prop.truthValue
+      ) {
+        warnings.push(
+          createValidationWarning(
+            "propositions",
+            `'${prop.content}' is ${evaluation.truthValue ? "" : "not "}${operator} at ${evaluation.world}, not ${evaluation.truthValue ? "false" : "true"} as claimed`,
+            "Check the truth values at the worlds it accesses",
+          ),
+        );
       }
     }
 
-    // Check if all pairs are connected
-    for (const w1 of worldIds) {
-      for (const w2 of worldIds) {
-        if (!accessMap.get(w1)?.has(w2)) {
-          return false;
-        }
+    return warnings;
+  }
+
+  /**
+   * Report the model check: the frame's properties, each evaluated
+   * proposition and each countermodel
+   */
+  private describeModelCheck(
+    thought: ModalThought,
+    enhancements: ModeEnhancements,
+  ): void {
+    const frame = thought.kripkeFrame;
+    if (frame) {
+      enhancements.suggestions!.push(
+        frame.properties.length > 0
+          ? `Frame is ${frame.properties.join(", ")}`
+          : "Frame has none of the reflexive, symmetric, transitive, euclidean, serial or convergent properties",
+      );
+      enhancements.warnings!.push(...(frame.violations ?? []));
+    }
+
+    for (const prop of thought.propositions ?? []) {
+      if (prop.evaluatedIn === undefined || prop.truthValue === undefined) {
+        continue;
       }
+      enhancements.suggestions!.push(
+        `'${prop.content}' is ${prop.truthValue ? "" : "not "}${prop.operator} at ${prop.evaluatedIn}`,
+      );
     }
 
-    return true;
+    for (const inference of thought.inferences ?? []) {
+      const model = inference.countermodel;
+      if (!model) continue;
+      enhancements.warnings!.push(
+        `${this.describeSequent(inference)} is invalid in ${inference.checkedIn}: countermodel ${formatKripkeModel({ ...model, access: model.accessibility })} at ${model.world}`,
+      );
+    }
+  }
+
+  private describeSequent(inf: {
+    premises?: unknown;
+    premise?: unknown;
+    conclusion?: unknown;
+  }): string {
+    const premises = Array.isArray(inf.premises)
+      ? inf.premises
+      : inf.premise !== undefined
+        ? [inf.premise]
+        : [];
+    return `${premises.length > 0 ? `${premises.join(", ")} ` : ""}⊢ ${inf.conclusion}`;
+  }
+
+  /** A modal formula, or undefined when the text is not one */
+  private parse(text: unknown): ModalFormula | undefined {
+    if (typeof text !== "string" || !text.trim()) return undefined;
+    try {
+      return parseModal(text);
+    } catch {
+      return undefined;
+    }
   }
 }
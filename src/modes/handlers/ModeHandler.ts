@@ -162,6 +162,28 @@ export interface ModeHandler {
    * @returns true if supported
    */
   supportsThoughtType?(thoughtType: string): boolean;
+
+  /**
+   * List the thought types this handler supports
+   *
+   * Handlers with sub-types expose them here so callers (mode status,
+   * MCP prompts) can describe a mode without hard-coding its types.
+   *
+   * @returns Supported thought types
+   */
+  getSupportedThoughtTypes?(): string[];
+
+  /**
+   * Rebuild the tool input a stored thought was created from
+   *
+   * Used to re-validate thoughts read back from an export. Only handlers
+   * whose thoughts rename or restructure input fields need it; without it
+   * the thought itself is validated, with its `content` as `thought`.
+   *
+   * @param thought - A thought this handler created
+   * @returns Input that `validate` accepts exactly when it accepted the original
+   */
+  thoughtToInput?(thought: Thought): ThinkingToolInput;
 }
 
 /**
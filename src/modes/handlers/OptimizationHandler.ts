@@ -6,6 +6,10 @@
  * - Constraint satisfaction checking
  * - Objective function analysis
  * - Solution quality assessment
+ * - Exact solutions of linear and mixed-integer models (simplex and
+ *   branch-and-bound), with shadow prices and reduced costs
+ * - Pareto frontiers of several linear objectives, knee points and
+ *   trade-off rates
  */
 
 import { randomUUID } from "crypto";
@@ -18,8 +22,34 @@ import type {
   Objective,
   Solution,
   SensitivityAnalysis,
+  ParameterSensitivity,
+  OptimalityGap,
+  ParetoSolution,
+  TradeoffAnalysis,
 } from "../../types/modes/optimization.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
+import {
+  buildLinearModel,
+  buildMultiObjectiveModel,
+  constraintViolation,
+  evaluateLinear,
+  objectiveSense,
+  type ObjectiveSpec,
+} from "../optimization/linear-model.js";
+import {
+  checkDominance,
+  findKnee,
+  traceParetoFrontier,
+  tradeoffSteps,
+} from "../optimization/pareto.js";
+import { solveLinearModel } from "../optimization/solver.js";
+import type {
+  LinearModel,
+  LinearObjective,
+  ModelSolution,
+  ParetoFrontier,
+  TradeoffStep,
+} from "../optimization/types.js";
 import {
   ModeHandler,
   ValidationResult,
@@ -44,6 +74,32 @@ const VALID_THOUGHT_TYPES = [
 
 type OptimizationThoughtType = (typeof VALID_THOUGHT_TYPES)[number];
 
+/**
+ * A problem read as a linear model, with the id its objective is reported under
+ */
+interface Formulation {
+  model: LinearModel;
+  objectiveId: string;
+}
+
+/**
+ * A problem with several objectives read as one linear model
+ */
+interface FrontierFormulation {
+  model: LinearModel;
+  objectives: LinearObjective[];
+  objectiveIds: string[];
+}
+
+/**
+ * A constraint as it arrives in the input: a formula string, or the fields
+ * of a `Constraint`
+ */
+type ConstraintInput = string | Partial<Constraint>;
+
+/** Slack below which a constraint counts as satisfied */
+const FEASIBILITY_TOLERANCE = 1e-6;
+
 /**
  * Valid problem types
  */
@@ -113,7 +169,7 @@ export class OptimizationHandler implements ModeHandler {
     const optimizationConstraints =
       inputAny.optimizationConstraints || inputAny.constraints
         ? (inputAny.optimizationConstraints || inputAny.constraints).map(
-            (c: any) => this.normalizeConstraint(c),
+            (c: ConstraintInput, i: number) => this.normalizeConstraint(c, i),
           )
         : undefined;
 
@@ -122,15 +178,108 @@ export class OptimizationHandler implements ModeHandler {
       ? inputAny.objectives.map((o: any) => this.normalizeObjective(o))
       : undefined;
 
+    // Read linear and integer problems into a model and solve them
+    let formulation: Formulation | undefined;
+    try {
+      formulation = this.formulateModel(
+        problem,
+        variables ?? [],
+        optimizationConstraints ?? [],
+        objectives,
+        inputAny.objectiveFunction,
+      );
+    } catch {
+      formulation = undefined;
+    }
+    const optimum = formulation && solveLinearModel(formulation.model);
+    let computedSolution =
+      formulation &&
+      optimum &&
+      this.describeOptimum(formulation, optimum, optimizationConstraints ?? []);
+
+    // Trace the Pareto frontier of several linear objectives, unless the
+    // caller brings a candidate set, which is checked for dominance instead
+    let tradeoffAnalysis: TradeoffAnalysis | undefined;
+    if (inputAny.tradeoffAnalysis || inputAny.paretoCandidates) {
+      tradeoffAnalysis = this.checkTradeoffAnalysis(
+        inputAny.tradeoffAnalysis ?? {
+          paretoFrontier: inputAny.paretoCandidates.map(
+            (c: {
+              id: string;
+              objectiveValues: Record<string, number>;
+              variables?: Record<string, number>;
+            }) => ({
+              id: c.id,
+              solution: {
+                variableValues: c.variables,
+                objectiveValues: c.objectiveValues,
+              },
+            }),
+          ),
+        },
+        objectives ?? [],
+      );
+    } else {
+      let frontierFormulation: FrontierFormulation | undefined;
+      try {
+        frontierFormulation = this.formulateFrontier(
+          problem,
+          variables ?? [],
+          optimizationConstraints ?? [],
+          objectives,
+        );
+      } catch {
+        frontierFormulation = undefined;
+      }
+      const frontier =
+        frontierFormulation &&
+        traceParetoFrontier(
+          frontierFormulation.model,
+          frontierFormulation.objectives,
+          { method: this.frontierMethod(inputAny.optimizationMethod) },
+        );
+      if (frontierFormulation && frontier?.status === "found") {
+        tradeoffAnalysis = this.describeFrontier(
+          frontierFormulation,
+          frontier,
+          optimizationConstraints ?? [],
+          objectives ?? [],
+        );
+      } else if (frontier) {
+        computedSolution = {
+          id: randomUUID(),
+          type: frontier.status === "unbounded" ? "unbounded" : "infeasible",
+          variableValues: {},
+          objectiveValues: {},
+          constraintSatisfaction: [],
+          quality: 0,
+          iterations: frontier.solves,
+          method: this.frontierMethodName(frontier.method),
+          guarantees: [`proven ${frontier.status}`],
+        };
+      }
+    }
+
     // Process solution
     const solution = inputAny.solution
-      ? this.normalizeSolution(inputAny.solution, optimizationConstraints)
+      ? this.normalizeSolution(
+          inputAny.solution,
+          optimizationConstraints,
+          formulation,
+        )
       : undefined;
+    const optimalityGap =
+      formulation &&
+      optimum &&
+      solution &&
+      this.measureGap(formulation, optimum, solution, inputAny.solution);
 
-    // Process analysis
+    // Process analysis; linear programs get theirs from the simplex duals
     const analysis = inputAny.analysis
       ? this.normalizeAnalysis(inputAny.analysis)
-      : undefined;
+      : formulation && optimum?.shadowPrices
+        ? this.analyzeSensitivity(formulation.model, optimum)
+        : undefined;
 
     return {
       id: randomUUID(),
@@ -150,6 +299,9 @@ export class OptimizationHandler implements ModeHandler {
       objectives,
       solution,
       analysis,
+      computedSolution,
+      optimalityGap,
+      tradeoffAnalysis,
 
       // Revision tracking
       isRevision: input.isRevision,
@@ -234,7 +386,7 @@ export class OptimizationHandler implements ModeHandler {
     if (constraints) {
       for (let i = 0; i < constraints.length; i++) {
         const c = constraints[i];
-        if (!c.formula) {
+        if (typeof c !== "string" && !c.formula) {
           warnings.push(
             createValidationWarning(
               `constraints[${i}].formula`,
@@ -291,7 +443,11 @@ export class OptimizationHandler implements ModeHandler {
       );
     }
 
-    if (!inputAny.objectives && inputAny.thoughtType === "solution_search") {
+    if (
+      !inputAny.objectives &&
+      !inputAny.objectiveFunction &&
+      inputAny.thoughtType === "solution_search"
+    ) {
       warnings.push(
         createValidationWarning(
           "objectives",
@@ -301,6 +457,49 @@ export class OptimizationHandler implements ModeHandler {
       );
     }
 
+    // Check the problem reads as a linear model
+    try {
+      this.formulateModel(
+        inputAny.problem && this.normalizeProblem(inputAny.problem),
+        (inputAny.variables ?? []).map((v: unknown) =>
+          this.normalizeVariable(v),
+        ),
+        (constraints ?? []).map((c: ConstraintInput, i: number) =>
+          this.normalizeConstraint(c, i),
+        ),
+        inputAny.objectives?.map((o: unknown) => this.normalizeObjective(o)),
+        inputAny.objectiveFunction,
+      );
+    } catch (error) {
+      warnings.push(
+        createValidationWarning(
+          "optimizationConstraints",
+          `Optimization model cannot be solved: ${(error as Error).message}`,
+          "Write the objective and hard constraints as linear formulas over the declared variables",
+        ),
+      );
+    }
+    try {
+      this.formulateFrontier(
+        inputAny.problem && this.normalizeProblem(inputAny.problem),
+        (inputAny.variables ?? []).map((v: unknown) =>
+          this.normalizeVariable(v),
+        ),
+        (constraints ?? []).map((c: ConstraintInput, i: number) =>
+          this.normalizeConstraint(c, i),
+        ),
+        inputAny.objectives?.map((o: unknown) => this.normalizeObjective(o)),
+      );
+    } catch (error) {
+      warnings.push(
+        createValidationWarning(
+          "objectives",
+          `Pareto frontier cannot be computed: ${(error as Error).message}`,
+          "Write every objective and hard constraint as a linear formula over the declared variables",
+        ),
+      );
+    }
+
     if (errors.length > 0) {
       return validationFailure(errors, warnings);
     }
@@ -459,9 +658,82 @@ export class OptimizationHandler implements ModeHandler {
         break;
     }
 
+    // Computed optimum and how the caller's solution compares
+    const computed = thought.computedSolution;
+    if (computed) {
+      if (computed.type === "infeasible") {
+        enhancements.warnings!.push(
+          "The hard constraints admit no feasible point",
+        );
+      } else if (computed.type === "unbounded") {
+        enhancements.warnings!.push(
+          (thought.objectives?.length ?? 0) > 1
+            ? "An objective is unbounded over the hard constraints"
+            : "The objective is unbounded over the hard constraints",
+        );
+      } else if (Object.keys(computed.variableValues).length > 0) {
+        const objective = Object.values(computed.objectiveValues)[0];
+        enhancements.metrics!.optimalObjective = objective;
+        const values = Object.entries(computed.variableValues)
+          .map(([id, value]) => `${id} = ${value}`)
+          .join(", ");
+        enhancements.suggestions!.push(
+          `${computed.type === "optimal" ? "Optimum" : "Best solution found"} by ${computed.method}: ${values} (objective ${objective})`,
+        );
+      }
+      if (computed.type === "feasible" || computed.type === "approximate") {
+        enhancements.warnings!.push(
+          `Branch-and-bound stopped after ${computed.iterations} nodes: ${computed.guarantees?.join(", ")}`,
+        );
+      }
+    }
+
+    const gap = thought.optimalityGap;
+    if (gap) {
+      enhancements.metrics!.optimalityGap = gap.relativeGap;
+      if (!gap.claimedFeasible) {
+        enhancements.warnings!.push(
+          gap.violatedConstraints.length > 0
+            ? `Claimed solution violates ${gap.violatedConstraints.join(", ")}`
+            : `Claimed objective ${gap.claimedObjective} beats the optimum ${gap.optimalObjective}, so the claimed solution cannot be feasible`,
+        );
+      } else if (gap.absoluteGap > FEASIBILITY_TOLERANCE) {
+        enhancements.warnings!.push(
+          `Claimed objective ${gap.claimedObjective} is ${gap.absoluteGap} (${(gap.relativeGap * 100).toFixed(1)}%) short of the optimum ${gap.optimalObjective}`,
+        );
+      } else {
+        enhancements.suggestions!.push("Claimed solution is optimal");
+      }
+    }
+
+    // Pareto frontier, computed or checked
+    const frontier = thought.tradeoffAnalysis?.paretoFrontier;
+    if (frontier && frontier.length > 0) {
+      const tradeoff = thought.tradeoffAnalysis!;
+      const efficient = frontier.filter((p) => !p.isDominated);
+      enhancements.metrics!.paretoSolutions = efficient.length;
+      enhancements.suggestions!.push(
+        `Pareto frontier${tradeoff.method ? ` by ${this.frontierMethodName(tradeoff.method)}` : ""}: ${efficient.length} non-dominated solution${efficient.length === 1 ? "" : "s"}`,
+      );
+      const knee = frontier.find((p) => p.id === tradeoff.kneePoint);
+      if (knee) {
+        const values = Object.entries(knee.solution.objectiveValues)
+          .map(([id, value]) => `${id} = ${value}`)
+          .join(", ");
+        enhancements.suggestions!.push(`Knee point ${knee.id}: ${values}`);
+      }
+      const dominated = frontier.filter((p) => p.isDominated);
+      if (dominated.length > 0) {
+        enhancements.warnings!.push(
+          `${dominated.map((p) => p.id).join(", ")} ${dominated.length === 1 ? "is" : "are"} dominated, so not Pareto optimal`,
+        );
+      }
+    }
+
     // Problem-specific suggestions
     if (
       thought.problem?.type === "multi_objective" &&
+      !thought.tradeoffAnalysis &&
       !thought.objectives?.some((o) => o.weight !== undefined)
     ) {
       enhancements.warnings!.push(
@@ -481,6 +753,13 @@ export class OptimizationHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
@@ -533,8 +812,19 @@ export class OptimizationHandler implements ModeHandler {
 
   /**
    * Normalize constraint
+   *
+   * The tool passes constraints as formula strings; those get ids c1, c2, ...
    */
-  private normalizeConstraint(constraint: any): Constraint {
+  private normalizeConstraint(
+    constraint: ConstraintInput,
+    index = 0,
+  ): Constraint {
+    if (typeof constraint === "string") {
+      return this.normalizeConstraint(
+        { id: `c${index + 1}`, name: constraint, formula: constraint },
+        index,
+      );
+    }
     return {
       id: constraint.id || randomUUID(),
       name: constraint.name || "",
@@ -574,9 +864,21 @@ export class OptimizationHandler implements ModeHandler {
   private normalizeSolution(
     solution: any,
     constraints?: Constraint[],
+    formulation?: Formulation,
   ): Solution {
+    const variableValues = solution.variableValues || solution.variables || {};
+    const point =
+      formulation && this.claimedPoint(formulation.model, variableValues);
+
     // Calculate constraint satisfaction if not provided
     let constraintSatisfaction = solution.constraintSatisfaction;
+    if (!constraintSatisfaction && constraints && formulation && point) {
+      constraintSatisfaction = this.checkConstraints(
+        formulation.model,
+        point,
+        constraints,
+      );
+    }
     if (!constraintSatisfaction && constraints) {
       constraintSatisfaction = constraints.map((c) => ({
         constraintId: c.id,
@@ -590,7 +892,7 @@ export class OptimizationHandler implements ModeHandler {
       type: VALID_SOLUTION_TYPES.includes(solution.type)
         ? solution.type
         : "feasible",
-      variableValues: solution.variableValues || {},
+      variableValues,
       objectiveValues: solution.objectiveValues || {},
       constraintSatisfaction: constraintSatisfaction || [],
       quality: Math.max(0, Math.min(1, solution.quality ?? 0.5)),
@@ -611,7 +913,600 @@ export class OptimizationHandler implements ModeHandler {
       robustness: Math.max(0, Math.min(1, analysis.robustness ?? 0.5)),
       criticalConstraints: analysis.criticalConstraints || [],
       shadowPrices: analysis.shadowPrices,
+      reducedCosts: analysis.reducedCosts,
       recommendations: analysis.recommendations || [],
     };
   }
+
+  /**
+   * Read the problem as a linear model, if it states one to solve
+   *
+   * The objective is the only entry of `objectives`, or the tool's
+   * `objectiveFunction` text. A leading max/min word in the formula sets the
+   * direction; the tool's text is minimized otherwise. Only hard
+   * constraints are modelled, since a linear program cannot weigh the
+   * penalties of soft ones. Nothing is solved without a declared variable
+   * or a constraint, so an objective written as prose is left alone, and
+   * neither are problems declared nonlinear or multi-objective.
+   *
+   * @throws Error from buildLinearModel when a formula is not linear
+   */
+  private formulateModel(
+    problem: OptimizationProblem | undefined,
+    variables: DecisionVariable[],
+    constraints: Constraint[],
+    objectives: Objective[] | undefined,
+    objectiveFunction: unknown,
+  ): Formulation | undefined {
+    if (
+      problem?.type === "nonlinear" ||
+      problem?.type === "constraint_satisfaction" ||
+      problem?.type === "multi_objective"
+    ) {
+      return undefined;
+    }
+
+    let objective: ObjectiveSpec;
+    let objectiveId: string;
+    if (objectives && objectives.length > 0) {
+      if (objectives.length > 1 || !objectives[0].formula) return undefined;
+      const { id, formula, type } = objectives[0];
+      objective = { sense: objectiveSense(formula) ?? type, formula };
+      objectiveId = id;
+    } else if (
+      typeof objectiveFunction === "string" &&
+      objectiveFunction.trim().length > 0
+    ) {
+      objective = {
+        sense: objectiveSense(objectiveFunction) ?? "minimize",
+        formula: objectiveFunction,
+      };
+      objectiveId = "objective";
+    } else {
+      return undefined;
+    }
+
+    const hard = constraints.filter((c) => c.type === "hard" && c.formula);
+    if (hard.length === 0 && variables.length === 0) return undefined;
+    return {
+      model: buildLinearModel(variables, hard, objective),
+      objectiveId,
+    };
+  }
+
+  /**
+   * Read a problem with several objectives as one linear model
+   *
+   * Every objective needs a formula. The rules on constraints and problem
+   * types are those of formulateModel, except that multi-objective problems
+   * are what this is for.
+   *
+   * @throws Error from buildMultiObjectiveModel when a formula is not linear
+   */
+  private formulateFrontier(
+    problem: OptimizationProblem | undefined,
+    variables: DecisionVariable[],
+    constraints: Constraint[],
+    objectives: Objective[] | undefined,
+  ): FrontierFormulation | undefined {
+    if (
+      problem?.type === "nonlinear" ||
+      problem?.type === "constraint_satisfaction" ||
+      !objectives ||
+      objectives.length < 2 ||
+      objectives.some((o) => !o.formula)
+    ) {
+      return undefined;
+    }
+    const hard = constraints.filter((c) => c.type === "hard" && c.formula);
+    if (hard.length === 0 && variables.length === 0) return undefined;
+    const read = buildMultiObjectiveModel(
+      variables,
+      hard,
+      objectives.map((o) => ({
+        sense: objectiveSense(o.formula) ?? o.type,
+        formula: o.formula,
+      })),
+    );
+    return { ...read, objectiveIds: objectives.map((o) => o.id) };
+  }
+
+  /**
+   * The sweep the tool's `optimizationMethod` asks for, if it names one
+   */
+  private frontierMethod(
+    method: unknown,
+  ): ParetoFrontier["method"] | undefined {
+    if (typeof method !== "string") return undefined;
+    if (/epsilon|ε/i.test(method)) return "epsilon_constraint";
+    if (/weight/i.test(method)) return "weighted_sum";
+    return undefined;
+  }
+
+  private frontierMethodName(
+    method: NonNullable<TradeoffAnalysis["method"]>,
+  ): string {
+    switch (method) {
+      case "weighted_sum":
+        return "weighted sum";
+      case "epsilon_constraint":
+        return "ε-constraint";
+      case "dominance":
+        return "dominance filtering";
+    }
+  }
+
+  /**
+   * A traced frontier as Pareto solutions over the caller's ids
+   */
+  private describeFrontier(
+    formulation: FrontierFormulation,
+    frontier: ParetoFrontier,
+    constraints: Constraint[],
+    objectives: Objective[],
+  ): TradeoffAnalysis {
+    const { model, objectiveIds } = formulation;
+    const solutions: ParetoSolution[] = frontier.points.map((point, i) => ({
+      id: `pareto-${i + 1}`,
+      solution: {
+        id: randomUUID(),
+        type: "optimal",
+        variableValues: Object.fromEntries(
+          model.variables.map((v, j) => [v.id, point.values[j]]),
+        ),
+        objectiveValues: Object.fromEntries(
+          objectiveIds.map((id, k) => [id, point.objectives[k]]),
+        ),
+        constraintSatisfaction: this.checkConstraints(
+          model,
+          point.values,
+          constraints,
+        ),
+        quality: 1,
+        method: this.frontierMethodName(frontier.method),
+        guarantees: ["Pareto optimal"],
+      },
+      isDominated: false,
+      dominates: [],
+      tradeoffs: [],
+    }));
+    return this.summarizeFrontier(
+      {
+        id: randomUUID(),
+        objectives: objectiveIds,
+        paretoFrontier: solutions,
+        method: frontier.method,
+        recommendations: [],
+      },
+      solutions,
+      frontier.points.map((p) => p.objectives),
+      frontier.knee,
+      frontier.tradeoffs,
+      formulation.objectives.map((o) => o.sense),
+      objectives,
+    );
+  }
+
+  /**
+   * Check a caller's candidate set for dominance
+   *
+   * Candidates with a value for every objective are compared; `isDominated`
+   * and `dominates` are recomputed for them, and the rest are kept as sent.
+   * Objectives the thought does not declare leave the set unchecked.
+   */
+  private checkTradeoffAnalysis(
+    analysis: Partial<Omit<TradeoffAnalysis, "paretoFrontier">> & {
+      paretoFrontier?: Partial<ParetoSolution>[];
+    },
+    objectives: Objective[],
+  ): TradeoffAnalysis {
+    const objectiveIds =
+      analysis.objectives && analysis.objectives.length > 0
+        ? analysis.objectives
+        : objectives.map((o) => o.id);
+    const candidates: ParetoSolution[] = (analysis.paretoFrontier ?? []).map(
+      (entry, i): ParetoSolution => ({
+        id: entry.id || `candidate-${i + 1}`,
+        solution: this.normalizeSolution(entry.solution ?? {}),
+        isDominated: entry.isDominated ?? false,
+        dominates: entry.dominates ?? [],
+        tradeoffs: entry.tradeoffs ?? [],
+      }),
+    );
+    const normalized: TradeoffAnalysis = {
+      id: analysis.id || randomUUID(),
+      objectives: objectiveIds,
+      paretoFrontier: candidates,
+      method: analysis.method,
+      kneePoint: analysis.kneePoint,
+      tradeoffRates: analysis.tradeoffRates,
+      visualizations: analysis.visualizations,
+      recommendations: analysis.recommendations ?? [],
+    };
+
+    const declared = objectiveIds.map(
+      (id) => objectives.find((o) => o.id === id)?.type,
+    );
+    if (objectiveIds.length < 2 || declared.some((s) => s === undefined)) {
+      return normalized;
+    }
+    const senses = declared as LinearObjective["sense"][];
+    const complete = candidates.filter((c) =>
+      objectiveIds.every(
+        (id) => typeof c.solution.objectiveValues[id] === "number",
+      ),
+    );
+    const vectors = complete.map((c) =>
+      objectiveIds.map((id) => c.solution.objectiveValues[id]),
+    );
+    const dominance = checkDominance(vectors, senses);
+    complete.forEach((c, i) => {
+      c.isDominated = dominance[i].dominated;
+      c.dominates = dominance[i].dominates.map((j) => complete[j].id);
+    });
+
+    const efficient = complete
+      .map((c, i) => ({ c, v: vectors[i] }))
+      .filter((_, i) => !dominance[i].dominated)
+      .sort((a, b) => a.v[0] - b.v[0]);
+    const efficientVectors = efficient.map((e) => e.v);
+    return this.summarizeFrontier(
+      { ...normalized, method: "dominance" },
+      efficient.map((e) => e.c),
+      efficientVectors,
+      findKnee(efficientVectors, senses),
+      tradeoffSteps(efficientVectors),
+      senses,
+      objectives,
+    );
+  }
+
+  /**
+   * Knee point, trade-off rates, per-objective standing and recommendations
+   * of the non-dominated solutions, given in frontier order
+   */
+  private summarizeFrontier(
+    analysis: TradeoffAnalysis,
+    efficient: ParetoSolution[],
+    vectors: number[][],
+    knee: number | undefined,
+    steps: TradeoffStep[],
+    senses: LinearObjective["sense"][],
+    objectives: Objective[],
+  ): TradeoffAnalysis {
+    const ids = analysis.objectives;
+    const name = (id: string): string =>
+      objectives.find((o) => o.id === id)?.name || id;
+    const sense = (k: number): number => (senses[k] === "minimize" ? -1 : 1);
+
+    // Where each solution stands between the worst and best on the frontier
+    ids.forEach((id, k) => {
+      const column = vectors.map((v) => sense(k) * v[k]);
+      const hi = Math.max(...column);
+      const lo = Math.min(...column);
+      efficient.forEach((solution, i) => {
+        if (solution.tradeoffs.some((t) => t.objectiveId === id)) return;
+        const share = hi === lo ? 1 : (column[i] - lo) / (hi - lo);
+        solution.tradeoffs.push({
+          objectiveId: id,
+          value: vectors[i][k],
+          comparison:
+            share === 1
+              ? "best on the frontier"
+              : share === 0
+                ? "worst on the frontier"
+                : `${Math.round(share * 100)}% of the way from worst to best`,
+        });
+      });
+    });
+
+    const recommendations = [...analysis.recommendations];
+    if (recommendations.length === 0 && efficient.length > 0) {
+      if (knee !== undefined) {
+        recommendations.push({
+          solution: efficient[knee].solution,
+          rationale:
+            "Knee of the frontier: moving away from it gives up more in one objective than it gains in the other",
+          suitableFor: "A balanced compromise between the objectives",
+        });
+      }
+      ids.forEach((id, k) => {
+        const bestIndex = vectors.reduce(
+          (b, v, i) => (sense(k) * v[k] > sense(k) * vectors[b][k] ? i : b),
+          0,
+        );
+        recommendations.push({
+          solution: efficient[bestIndex].solution,
+          rationale: `Best ${name(id)} on the frontier`,
+          suitableFor: `When ${name(id)} matters most`,
+        });
+      });
+    }
+
+    return {
+      ...analysis,
+      kneePoint: knee !== undefined ? efficient[knee].id : analysis.kneePoint,
+      tradeoffRates: steps.flatMap((step) =>
+        ids.slice(1).map((id, k) => ({
+          fromSolution: efficient[step.from].id,
+          toSolution: efficient[step.to].id,
+          objectiveId: id,
+          perUnitOf: ids[0],
+          rate: step.rates[k + 1],
+        })),
+      ),
+      recommendations,
+    };
+  }
+
+  /**
+   * The solver's result as a Solution over the caller's variable ids
+   */
+  private describeOptimum(
+    formulation: Formulation,
+    optimum: ModelSolution,
+    constraints: Constraint[],
+  ): Solution {
+    const { model, objectiveId } = formulation;
+    const found = Number.isFinite(optimum.objectiveValue);
+
+    let guarantees: string[];
+    let quality = 0;
+    switch (optimum.status) {
+      case "optimal":
+        guarantees = ["proven optimal"];
+        quality = 1;
+        break;
+      case "infeasible":
+        guarantees = ["proven infeasible"];
+        break;
+      case "unbounded":
+        guarantees = ["proven unbounded"];
+        break;
+      case "node_limit":
+        if (found && optimum.bound !== undefined) {
+          const gap = Math.abs(optimum.bound - optimum.objectiveValue);
+          guarantees = [
+            `within ${gap} of the best possible objective ${optimum.bound}`,
+          ];
+          quality = Math.max(0, 1 - gap / Math.max(1, Math.abs(optimum.bound)));
+        } else {
+          guarantees = ["no integer solution found before the node limit"];
+        }
+        break;
+    }
+
+    return {
+      id: randomUUID(),
+      type:
+        optimum.status === "node_limit"
+          ? found
+            ? "feasible"
+            : "approximate"
+          : optimum.status,
+      variableValues: found
+        ? Object.fromEntries(
+            model.variables.map((v, j) => [v.id, optimum.values[j]]),
+          )
+        : {},
+      objectiveValues: found ? { [objectiveId]: optimum.objectiveValue } : {},
+      constraintSatisfaction: found
+        ? this.checkConstraints(model, optimum.values, constraints)
+        : [],
+      quality,
+      iterations: optimum.nodesExplored,
+      method: optimum.method === "simplex" ? "simplex" : "branch-and-bound",
+      guarantees,
+    };
+  }
+
+  /**
+   * Shadow prices, reduced costs and binding constraints of a linear program
+   *
+   * Robustness is the share of constraints with slack at the optimum. Impact
+   * is relative to the largest price: at least half of it is high.
+   */
+  private analyzeSensitivity(
+    model: LinearModel,
+    optimum: ModelSolution,
+  ): SensitivityAnalysis {
+    const shadowPrices = optimum.shadowPrices ?? [];
+    const reducedCosts = optimum.reducedCosts ?? [];
+    const largest = Math.max(
+      0,
+      ...shadowPrices.map(Math.abs),
+      ...reducedCosts.map(Math.abs),
+    );
+    const impact = (price: number): ParameterSensitivity["impact"] =>
+      price === 0 ? "low" : Math.abs(price) >= largest / 2 ? "high" : "medium";
+
+    const parameters: ParameterSensitivity[] = [
+      ...model.constraints.map((c, i): ParameterSensitivity => {
+        const price = shadowPrices[i];
+        return {
+          parameterId: c.id,
+          type: "constraint",
+          currentValue: c.rhs,
+          impact: impact(price),
+          analysis:
+            price === 0
+              ? `${c.id} has slack or is degenerate; changing its bound does not move the objective`
+              : `Each unit added to the bound of ${c.id} changes the objective by ${price}`,
+        };
+      }),
+      ...model.variables.map((v, j): ParameterSensitivity => {
+        const cost = reducedCosts[j];
+        return {
+          parameterId: v.id,
+          type: "variable",
+          currentValue: optimum.values[j],
+          impact: impact(cost),
+          analysis:
+            cost === 0
+              ? `${v.name} is basic at ${optimum.values[j]}`
+              : `Raising ${v.name} by one unit changes the objective by ${cost}`,
+        };
+      }),
+    ];
+
+    const critical = optimum.binding.map((i) => model.constraints[i].id);
+    const priced = optimum.binding
+      .filter((i) => shadowPrices[i] !== 0)
+      .sort((a, b) => Math.abs(shadowPrices[b]) - Math.abs(shadowPrices[a]));
+    const recommendations =
+      priced.length > 0
+        ? [
+            `Relax ${model.constraints[priced[0]].id} first: each unit is worth ${Math.abs(shadowPrices[priced[0]])} in the objective`,
+          ]
+        : ["No constraint limits the objective; it is set by variable bounds"];
+
+    return {
+      id: randomUUID(),
+      parameters,
+      robustness:
+        model.constraints.length > 0
+          ? this.clean(1 - critical.length / model.constraints.length)
+          : 1,
+      criticalConstraints: critical,
+      shadowPrices: Object.fromEntries(
+        model.constraints.map((c, i) => [c.id, shadowPrices[i]]),
+      ),
+      reducedCosts: Object.fromEntries(
+        model.variables.map((v, j) => [v.id, reducedCosts[j]]),
+      ),
+      recommendations,
+    };
+  }
+
+  /**
+   * Compare a claimed solution with a proven optimum
+   *
+   * The claimed objective is the solution's own value for the objective,
+   * else the objective evaluated at its variable values, else a numeric
+   * `value` from the tool.
+   */
+  private measureGap(
+    formulation: Formulation,
+    optimum: ModelSolution,
+    solution: Solution,
+    raw: { value?: unknown },
+  ): OptimalityGap | undefined {
+    if (optimum.status !== "optimal") return undefined;
+    const { model, objectiveId } = formulation;
+    const point = this.claimedPoint(model, solution.variableValues);
+    const stated = Number(raw.value);
+    const claimedObjective =
+      solution.objectiveValues[objectiveId] ??
+      (point
+        ? this.clean(
+            evaluateLinear(model.objective, model.objectiveConstant, point),
+          )
+        : raw.value !== undefined && Number.isFinite(stated)
+          ? stated
+          : undefined);
+    if (claimedObjective === undefined) return undefined;
+
+    const optimalObjective = optimum.objectiveValue;
+    const absoluteGap = this.clean(
+      model.sense === "maximize"
+        ? optimalObjective - claimedObjective
+        : claimedObjective - optimalObjective,
+    );
+    const violatedConstraints = point ? this.violations(model, point) : [];
+    return {
+      claimedObjective,
+      optimalObjective,
+      absoluteGap,
+      relativeGap: this.clean(
+        optimalObjective === 0
+          ? absoluteGap
+          : absoluteGap / Math.abs(optimalObjective),
+      ),
+      claimedFeasible:
+        violatedConstraints.length === 0 &&
+        absoluteGap >=
+          -FEASIBILITY_TOLERANCE * Math.max(1, Math.abs(optimalObjective)),
+      violatedConstraints,
+    };
+  }
+
+  /**
+   * Claimed values in model order, looked up by variable id then name;
+   * undefined unless every variable has a number
+   */
+  private claimedPoint(
+    model: LinearModel,
+    variableValues: Record<string, unknown>,
+  ): number[] | undefined {
+    const point: number[] = [];
+    for (const v of model.variables) {
+      const value = variableValues[v.id] ?? variableValues[v.name];
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return undefined;
+      }
+      point.push(value);
+    }
+    return point;
+  }
+
+  /**
+   * Constraint and variable ids the point breaks: constraints it violates,
+   * and variables outside their bounds or not integer when they must be
+   */
+  private violations(model: LinearModel, point: number[]): string[] {
+    const broken = model.constraints
+      .filter(
+        (c) =>
+          constraintViolation(c, point) >
+          FEASIBILITY_TOLERANCE * Math.max(1, Math.abs(c.rhs)),
+      )
+      .map((c) => c.id);
+    model.variables.forEach((v, j) => {
+      const x = point[j];
+      if (
+        x < v.lower - FEASIBILITY_TOLERANCE ||
+        x > v.upper + FEASIBILITY_TOLERANCE ||
+        (v.integer && Math.abs(x - Math.round(x)) > FEASIBILITY_TOLERANCE)
+      ) {
+        broken.push(v.id);
+      }
+    });
+    return broken;
+  }
+
+  /**
+   * Satisfaction of each constraint at a point; a chained comparison counts
+   * its worst part. Soft constraints are not modelled and assumed satisfied.
+   */
+  private checkConstraints(
+    model: LinearModel,
+    point: number[],
+    constraints: Constraint[],
+  ): Solution["constraintSatisfaction"] {
+    return constraints.map((c) => {
+      const rows = model.constraints.filter(
+        (row) => row.id === c.id || row.id.startsWith(`${c.id}:`),
+      );
+      if (rows.length === 0) {
+        return { constraintId: c.id, satisfied: true, violation: undefined };
+      }
+      const violation = this.clean(
+        Math.max(...rows.map((row) => constraintViolation(row, point))),
+      );
+      return {
+        constraintId: c.id,
+        satisfied:
+          violation <=
+          FEASIBILITY_TOLERANCE *
+            Math.max(1, ...rows.map((row) => Math.abs(row.rhs))),
+        violation,
+      };
+    });
+  }
+
+  /** Round away floating-point noise from the solver */
+  private clean(value: number): number {
+    const rounded = Math.round(value * 1e9) / 1e9;
+    return Object.is(rounded, -0) ? 0 : rounded;
+  }
 }
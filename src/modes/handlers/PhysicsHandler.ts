@@ -396,6 +396,13 @@ export class PhysicsHandler implements ModeHandler {
     return VALID_THOUGHT_TYPES.includes(thoughtType as PhysicsThoughtType);
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...VALID_THOUGHT_TYPES];
+  }
+
   /**
    * Resolve thought type
    */
@@ -242,4 +242,11 @@ export class SequentialHandler implements ModeHandler {
   supportsThoughtType(thoughtType: string): boolean {
     return this.supportedThoughtTypes.includes(thoughtType);
   }
+
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
 }
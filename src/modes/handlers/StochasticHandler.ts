@@ -6,11 +6,30 @@
  * - Random process modeling
  * - Probabilistic state transitions
  * - Monte Carlo methods support
+ *
+ * A monte_carlo_simulation thought, or any thought with `monteCarloConfig`,
+ * runs its random variables through the seeded Monte Carlo runner in
+ * src/modes/stochastic/sampling/monte-carlo.ts. Dependencies with a
+ * strength correlate the variables, and constraints rescale or reject
+ * draws. The run's statistics, convergence diagnostics and credible
+ * intervals go into the thought as `monteCarlo`, with the seed that
+ * reproduces it.
+ *
+ * A Markov chain with transitions is analysed by
+ * src/modes/stochastic/analysis/markov.ts: its states are classified, and
+ * its stationary distribution, absorption probabilities, hitting times and
+ * mixing time go into the thought as `markovAnalysis`. The computed
+ * irreducibility, period and ergodicity replace the caller's claims, which
+ * are checked as warnings.
  */
 
 import { randomUUID } from "crypto";
 import { ThinkingMode, Thought } from "../../types/core.js";
-import type { StochasticThought } from "../../types/modes/stochastic.js";
+import type {
+  MarkovChainAnalysis,
+  MonteCarloRun,
+  StochasticThought,
+} from "../../types/modes/stochastic.js";
 import type { ThinkingToolInput } from "../../tools/thinking.js";
 import {
   ModeHandler,
@@ -23,8 +42,26 @@ import {
   createValidationWarning,
 } from "./ModeHandler.js";
 import { analyticMoments } from "../stochastic/models/moments.js";
+import { readDistribution } from "../stochastic/models/distribution.js";
+import { runMonteCarlo } from "../stochastic/sampling/monte-carlo.js";
+import {
+  analyzeMarkovChain,
+  checkStochastic,
+  hittingTimes,
+  readTransitionMatrix,
+} from "../stochastic/analysis/markov.js";
+import type {
+  Constraint,
+  Dependency,
+  MarkovAnalysis,
+  MonteCarloConfig,
+  StochasticModel,
+  StochasticVariable,
+} from "../stochastic/types.js";
 import {
   equalTailedInterval,
+  hpdInterval,
+  median,
   mean as sampleMean,
   variance as sampleVariance,
 } from "../stochastic/analysis/statistics.js";
@@ -87,6 +124,68 @@ interface SimulationResult {
   samples?: number[];
 }
 
+/**
+ * Monte Carlo settings as the tool accepts them
+ */
+interface MonteCarloInput {
+  iterations?: number;
+  burnIn?: number;
+  thinning?: number;
+  chains?: number;
+  seed?: number;
+  convergenceThreshold?: number;
+  timeout?: number;
+}
+
+/**
+ * The parts of the input a Monte Carlo run reads
+ */
+interface SimulationInput {
+  thoughtType?: string;
+  randomVariables?: RandomVariable[];
+  monteCarloConfig?: MonteCarloInput;
+  dependencies?: Dependency[];
+  constraints?: Constraint[];
+}
+
+/**
+ * Markov chain fields as they arrive in the input
+ */
+interface MarkovChainInput {
+  id?: string;
+  name?: string;
+  states?: { id?: string; name?: string }[];
+  transitions?: {
+    fromState?: string;
+    toState?: string;
+    probability?: number;
+  }[];
+  initialDistribution?: Record<string, number>;
+  isIrreducible?: boolean;
+  isErgodic?: boolean;
+  period?: number;
+}
+
+/**
+ * Input fields read by the Markov chain analysis
+ */
+interface MarkovInput {
+  thoughtType?: string;
+  markovChain?: MarkovChainInput;
+  targetStates?: string[];
+}
+
+/**
+ * A Markov chain's transitions read against its states
+ */
+interface ChainReading {
+  /** State ids, falling back to names */
+  states: string[];
+  transitions: { from: string; to: string; probability: number }[];
+  /** Transitions naming a state the chain does not have */
+  unknown: { from: string; to: string; missing: string }[];
+}
+
 /**
  * Internal Markov chain representation for handler processing
  */
@@ -129,6 +228,23 @@ const VALID_PROCESS_TYPES = [
 
 type ProcessType = (typeof VALID_PROCESS_TYPES)[number];
 
+/** Draws a Monte Carlo run makes when the caller does not say */
+const DEFAULT_ITERATIONS = 10_000;
+
+/** The most draws one thought may spend on a run */
+const MAX_ITERATIONS = 100_000;
+
+/** The most milliseconds one thought may spend on a run */
+const MAX_TIMEOUT = 5_000;
+
+/** Distributions whose draws are counts */
+const DISCRETE_DISTRIBUTIONS = [
+  "poisson",
+  "binomial",
+  "bernoulli",
+  "geometric",
+];
+
 /**
  * StochasticHandler - Specialized handler for stochastic reasoning
  *
@@ -162,8 +278,9 @@ export class StochasticHandler implements ModeHandler {
     const thoughtType = this.resolveThoughtType(inputAny.thoughtType);
 
     // Process Markov chain
+    const chainAnalysis = this.analyzeChain(inputAny);
     const markovChain = inputAny.markovChain
-      ? this.normalizeMarkovChain(inputAny.markovChain)
+      ? this.normalizeMarkovChain(inputAny.markovChain, chainAnalysis)
       : undefined;
 
     // Process random variables
@@ -184,6 +301,8 @@ export class StochasticHandler implements ModeHandler {
     // Resolve process type
     const processType = this.resolveProcessType(inputAny.processType);
 
+    const monteCarlo = this.simulate(inputAny);
+
     return {
       id: randomUUID(),
       sessionId,
@@ -203,6 +322,10 @@ export class StochasticHandler implements ModeHandler {
       stateHistory: inputAny.stateHistory,
       stepCount: inputAny.stepCount ?? 0,
       simulations,
+      monteCarlo,
+      markovAnalysis: chainAnalysis
+        ? this.summarizeChain(chainAnalysis, inputAny)
+        : undefined,
 
       // Revision tracking
       isRevision: input.isRevision,
@@ -271,24 +394,18 @@ export class StochasticHandler implements ModeHandler {
     if (inputAny.markovChain) {
       const mc = inputAny.markovChain;
       if (mc.states && mc.transitions) {
-        const transitionSums = new Map<string, number>();
-
-        for (const t of mc.transitions) {
-          const current = transitionSums.get(t.fromState) || 0;
-          transitionSums.set(t.fromState, current + (t.probability || 0));
-        }
-
-        for (const [state, sum] of transitionSums) {
-          if (Math.abs(sum - 1) > 0.01) {
-            warnings.push(
-              createValidationWarning(
-                `markovChain.transitions[${state}]`,
-                `Transition probabilities from state "${state}" sum to ${sum.toFixed(3)}, should be 1.0`,
-                "Ensure outgoing transition probabilities sum to 1",
-              ),
-            );
-          }
+        const { states, transitions } = this.readChain(mc);
+        const matrix = readTransitionMatrix(states, transitions);
+        for (const { state, sum } of checkStochastic(states, matrix)) {
+          warnings.push(
+            createValidationWarning(
+              `markovChain.transitions[${state}]`,
+              `Transition probabilities from state "${state}" sum to ${sum.toFixed(3)}, should be 1.0`,
+              "Ensure outgoing transition probabilities sum to 1",
+            ),
+          );
         }
+        warnings.push(...this.checkChain(inputAny));
       }
 
       // Validate initial distribution sums to 1
@@ -344,6 +461,8 @@ export class StochasticHandler implements ModeHandler {
       }
     }
 
+    warnings.push(...this.checkSimulation(inputAny));
+
     if (errors.length > 0) {
       return validationFailure(errors, warnings);
     }
@@ -410,7 +529,9 @@ export class StochasticHandler implements ModeHandler {
           "Are there absorbing states?",
           "What is the expected number of steps to reach a target state?",
         );
-        if (markovChain) {
+        if (stochThought.markovAnalysis) {
+          this.describeClasses(stochThought.markovAnalysis, enhancements);
+        } else if (markovChain) {
           const absorbingCount = markovChain.states.filter(
             (s) => s.isAbsorbing,
           ).length;
@@ -428,7 +549,9 @@ export class StochasticHandler implements ModeHandler {
           "Is the chain irreducible and aperiodic?",
           "What are the long-run probabilities?",
         );
-        if (markovChain) {
+        if (stochThought.markovAnalysis) {
+          this.describeSteadyState(stochThought.markovAnalysis, enhancements);
+        } else if (markovChain) {
           if (markovChain.isErgodic) {
             enhancements.suggestions!.push(
               "Chain is ergodic - unique stationary distribution exists",
@@ -469,8 +592,8 @@ export class StochasticHandler implements ModeHandler {
           "What is the confidence interval?",
           "Has the simulation converged?",
         );
-        if (thoughtAny.simulationResults) {
-          for (const sr of thoughtAny.simulationResults) {
+        if (thoughtAny.simulations) {
+          for (const sr of thoughtAny.simulations as SimulationResult[]) {
             enhancements.suggestions!.push(
               `Simulation (n=${sr.iterations}): mean=${sr.mean.toFixed(4)}, var=${sr.variance.toFixed(4)}`,
             );
@@ -489,6 +612,9 @@ export class StochasticHandler implements ModeHandler {
           "Is convergence guaranteed?",
           "What is the mixing time?",
         );
+        if (stochThought.markovAnalysis) {
+          this.describeMixing(stochThought.markovAnalysis, enhancements);
+        }
         if (thoughtAny.convergenceRate !== undefined) {
           enhancements.suggestions!.push(
             `Convergence rate: ${thoughtAny.convergenceRate.toFixed(4)}`,
@@ -502,9 +628,16 @@ export class StochasticHandler implements ModeHandler {
           "What is the probability of reaching the target before returning to start?",
           "Are there multiple paths to consider?",
         );
+        if (stochThought.markovAnalysis) {
+          this.describeHitting(stochThought.markovAnalysis, enhancements);
+        }
         break;
     }
 
+    if (stochThought.monteCarlo) {
+      this.describeMonteCarlo(stochThought.monteCarlo, enhancements);
+    }
+
     // Process-specific suggestions
     switch (stochThought.processType) {
       case "queueing":
@@ -554,6 +687,13 @@ export class StochasticHandler implements ModeHandler {
     );
   }
 
+  /**
+   * Get the thought types this handler supports
+   */
+  getSupportedThoughtTypes(): string[] {
+    return [...this.supportedThoughtTypes];
+  }
+
   /**
    * Resolve thought type from input
    */
@@ -582,17 +722,21 @@ export class StochasticHandler implements ModeHandler {
   /**
    * Normalize Markov chain
    */
-  private normalizeMarkovChain(mc: any): HandlerMarkovChain {
-    const states = (mc.states || []).map((s: any) => this.normalizeState(s));
-    const transitions = (mc.transitions || []).map((t: any) =>
+  private normalizeMarkovChain(
+    mc: MarkovChainInput,
+    analysis: MarkovAnalysis | undefined,
+  ): HandlerMarkovChain {
+    const states = (mc.states || []).map((s) => this.normalizeState(s));
+    const transitions = (mc.transitions || []).map((t) =>
       this.normalizeTransition(t),
     );
 
-    // Determine chain properties
+    // Chain properties: computed when there are transitions, else as claimed
     const isIrreducible =
-      mc.isIrreducible ?? this.checkIrreducibility(states, transitions);
-    const period = mc.period ?? 1;
-    const isErgodic = mc.isErgodic ?? (isIrreducible && period === 1);
+      analysis?.isIrreducible ?? mc.isIrreducible ?? states.length <= 1;
+    const period = analysis?.period ?? mc.period ?? 1;
+    const isErgodic =
+      analysis?.isErgodic ?? mc.isErgodic ?? (isIrreducible && period === 1);
 
     return {
       id: mc.id || randomUUID(),
@@ -718,42 +862,509 @@ export class StochasticHandler implements ModeHandler {
   }
 
   /**
-   * Check if chain is irreducible (simplified check)
+   * Whether the input asks for a Monte Carlo run: a monte_carlo_simulation
+   * thought, or Monte Carlo settings, with random variables to sample
    */
-  private checkIrreducibility(
-    states: StochasticState[],
-    transitions: StateTransition[],
-  ): boolean {
-    if (states.length === 0) return true;
-    if (states.length === 1) return true;
-
-    // Build adjacency map
-    const adj = new Map<string, Set<string>>();
-    for (const s of states) {
-      adj.set(s.id, new Set());
-    }
-    for (const t of transitions) {
-      if (t.probability > 0 && adj.has(t.fromState)) {
-        adj.get(t.fromState)!.add(t.toState);
+  private wantsSimulation(input: SimulationInput): boolean {
+    return (
+      Array.isArray(input.randomVariables) &&
+      input.randomVariables.length > 0 &&
+      (input.thoughtType === "monte_carlo_simulation" ||
+        input.monteCarloConfig !== undefined)
+    );
+  }
+
+  /**
+   * A variable is named by its name, or its id when it has none
+   */
+  private variableName(rv: RandomVariable): string {
+    return rv.name || rv.id || "";
+  }
+
+  /**
+   * The model a Monte Carlo run samples: every random variable with a
+   * distribution it can sample, and the input's dependencies and constraints
+   */
+  private readModel(input: SimulationInput): StochasticModel {
+    const variables: StochasticVariable[] = [];
+    let discrete = 0;
+    for (const rv of input.randomVariables ?? []) {
+      const distribution = readDistribution(
+        rv.distribution,
+        rv.parameters ?? {},
+      );
+      if (distribution === undefined) continue;
+      if (DISCRETE_DISTRIBUTIONS.includes(rv.distribution)) discrete++;
+      variables.push({
+        name: this.variableName(rv),
+        distribution,
+        domain: { type: "continuous" },
+      });
+    }
+
+    return {
+      id: "monte-carlo",
+      type:
+        discrete === 0
+          ? "continuous"
+          : discrete === variables.length
+            ? "discrete"
+            : "mixed",
+      variables,
+      dependencies: input.dependencies ?? [],
+      constraints: (input.constraints ?? []).map((c) => ({
+        ...c,
+        variables: c.variables ?? [],
+        expression: c.expression ?? "",
+      })),
+    };
+  }
+
+  /**
+   * Monte Carlo settings with the handler's defaults and caps applied
+   */
+  private resolveMonteCarloConfig(
+    settings: MonteCarloInput = {},
+  ): MonteCarloConfig {
+    return {
+      iterations: Math.min(
+        settings.iterations ?? DEFAULT_ITERATIONS,
+        MAX_ITERATIONS,
+      ),
+      burnIn: settings.burnIn,
+      thinning: settings.thinning,
+      chains: settings.chains,
+      seed: settings.seed,
+      convergenceThreshold: settings.convergenceThreshold,
+      timeout: Math.min(settings.timeout ?? MAX_TIMEOUT, MAX_TIMEOUT),
+    };
+  }
+
+  /**
+   * Run the input's random variables through the Monte Carlo runner
+   */
+  private simulate(input: SimulationInput): MonteCarloRun | undefined {
+    if (!this.wantsSimulation(input)) return undefined;
+    const model = this.readModel(input);
+    if (model.variables.length === 0) return undefined;
+
+    const result = runMonteCarlo(
+      model,
+      this.resolveMonteCarloConfig(input.monteCarloConfig),
+    );
+    const { config, statistics, convergenceDiagnostics: d } = result;
+    const variables =
+      result.samples.length === 0
+        ? []
+        : result.variableNames.map((name, j) => {
+            const values = result.samples.map((row) => row[j]);
+            const ci = equalTailedInterval(values, 0.95);
+            const hpd = hpdInterval(values, 0.95);
+            return {
+              name,
+              mean: statistics.mean[j],
+              variance: statistics.variance[j],
+              stdDev: statistics.stdDev[j],
+              median: median(values),
+              mcse: d.mcse?.[j] ?? NaN,
+              credibleInterval: [ci.lower, ci.upper] as [number, number],
+              hpdInterval: [hpd.lower, hpd.upper] as [number, number],
+            };
+          });
+
+    return {
+      seed: config.seed!,
+      iterations: config.iterations,
+      draws: result.draws ?? 0,
+      chains: config.chains!,
+      burnIn: config.burnIn!,
+      thinning: config.thinning!,
+      keptSamples: result.effectiveSamples,
+      acceptanceRate: result.acceptanceRate,
+      stoppedEarly: result.stoppedEarly,
+      variables,
+      correlations: variables.length > 1 ? statistics.correlations : undefined,
+      diagnostics: {
+        rHat: d.rHat,
+        gewekeStatistic: d.gewekeStatistic,
+        effectiveSampleSize: d.effectiveSampleSize,
+        hasConverged: d.hasConverged,
+      },
+      warnings: result.warnings,
+    };
+  }
+
+  /**
+   * Warn about what a Monte Carlo run will leave out or cut short
+   */
+  private checkSimulation(input: SimulationInput): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    if (!this.wantsSimulation(input)) return warnings;
+
+    input.randomVariables!.forEach((rv, i) => {
+      if (readDistribution(rv.distribution, rv.parameters ?? {})) return;
+      warnings.push(
+        createValidationWarning(
+          `randomVariables[${i}]`,
+          `Random variable '${this.variableName(rv)}' has no distribution the Monte Carlo runner can sample, so the simulation leaves it out`,
+          "Name a standard distribution and give all its parameters",
+        ),
+      );
+    });
+
+    const iterations = input.monteCarloConfig?.iterations;
+    if (iterations !== undefined && iterations > MAX_ITERATIONS) {
+      warnings.push(
+        createValidationWarning(
+          "monteCarloConfig.iterations",
+          `A Monte Carlo run is capped at ${MAX_ITERATIONS} draws; ${iterations} were asked for`,
+          "Use convergenceThreshold to stop once the estimates are precise enough",
+        ),
+      );
+    }
+    return warnings;
+  }
+
+  /**
+   * Report a Monte Carlo run: its estimates, then whether to trust them
+   */
+  private describeMonteCarlo(
+    run: MonteCarloRun,
+    enhancements: ModeEnhancements,
+  ): void {
+    const f = (x: number) => x.toFixed(4);
+    const d = run.diagnostics;
+
+    enhancements.suggestions!.push(
+      `Monte Carlo: ${run.keptSamples} of ${run.draws} draws kept across ${run.chains} chain(s), seed ${run.seed}`,
+    );
+    if (run.stoppedEarly === "converged") {
+      enhancements.suggestions!.push(
+        `Stopped after ${run.draws} of ${run.iterations} draws, once the estimates met the convergence threshold`,
+      );
+    }
+    for (const v of run.variables) {
+      enhancements.suggestions!.push(
+        `${v.name}: mean ${f(v.mean)} ± ${f(v.mcse)} (MCSE), 95% CI [${f(v.credibleInterval[0])}, ${f(v.credibleInterval[1])}], HPD [${f(v.hpdInterval[0])}, ${f(v.hpdInterval[1])}]`,
+      );
+    }
+    if (run.acceptanceRate !== undefined) {
+      enhancements.suggestions!.push(
+        `The constraints accepted ${(run.acceptanceRate * 100).toFixed(1)}% of draws`,
+      );
+    }
+
+    if (Number.isNaN(d.rHat)) {
+      enhancements.warnings!.push(
+        "Too few draws were kept to check convergence",
+      );
+    } else if (d.hasConverged) {
+      enhancements.suggestions!.push(
+        `Converged: R-hat ${d.rHat.toFixed(3)}, ESS ${d.effectiveSampleSize}, Geweke z ${d.gewekeStatistic.toFixed(2)}`,
+      );
+    } else {
+      enhancements.warnings!.push(
+        `Not converged: R-hat ${d.rHat.toFixed(3)}, ESS ${d.effectiveSampleSize}; draw more, or raise the burn-in`,
+      );
+    }
+    enhancements.warnings!.push(...(run.warnings ?? []));
+
+    enhancements.metrics!.monteCarloDraws = run.draws;
+    enhancements.metrics!.effectiveSampleSize = d.effectiveSampleSize;
+    enhancements.metrics!.rHat = d.rHat;
+  }
+
+  /**
+   * Report a chain's classes, and where its transient states end up
+   */
+  private describeClasses(
+    analysis: MarkovChainAnalysis,
+    enhancements: ModeEnhancements,
+  ): void {
+    const classes = analysis.classes.map(
+      (c) =>
+        `{${c.states.join(", ")}} ${c.recurrent ? `recurrent, period ${c.period}` : "transient"}`,
+    );
+    enhancements.suggestions!.push(
+      `Communicating classes: ${classes.join("; ")}`,
+    );
+    const absorbing = Object.keys(analysis.kinds).filter(
+      (s) => analysis.kinds[s] === "absorbing",
+    );
+    if (absorbing.length > 0) {
+      enhancements.suggestions!.push(
+        `Absorbing states: ${absorbing.join(", ")}`,
+      );
+    }
+    for (const [state, ends] of Object.entries(
+      analysis.absorptionProbabilities ?? {},
+    )) {
+      const odds = Object.entries(ends)
+        .map(([c, p]) => `{${c}} ${p.toFixed(4)}`)
+        .join(", ");
+      const steps = analysis.expectedStepsToAbsorption![state];
+      enhancements.suggestions!.push(
+        `From ${state}: absorbed into ${odds}, after ${steps.toFixed(2)} steps on average`,
+      );
+    }
+    enhancements.metrics!.recurrentClassCount = analysis.classes.filter(
+      (c) => c.recurrent,
+    ).length;
+  }
+
+  /**
+   * Report the stationary distribution, or why there is not just one
+   */
+  private describeSteadyState(
+    analysis: MarkovChainAnalysis,
+    enhancements: ModeEnhancements,
+  ): void {
+    const show = (pi: Record<string, number>) =>
+      Object.entries(pi)
+        .map(([s, p]) => `${s} ${p.toFixed(4)}`)
+        .join(", ");
+    const recurrent = analysis.classes.filter((c) => c.recurrent);
+    const pi = analysis.stationaryDistribution;
+
+    if (analysis.isErgodic) {
+      enhancements.suggestions!.push(
+        `Chain is ergodic - unique stationary distribution π = (${show(pi!)})`,
+      );
+    } else if (pi) {
+      enhancements.suggestions!.push(
+        `Unique stationary distribution π = (${show(pi)})`,
+      );
+      if (!analysis.isIrreducible) {
+        enhancements.suggestions!.push(
+          "Chain is reducible, but has one recurrent class: the transient states carry no mass in the long run",
+        );
       }
+    } else {
+      enhancements.warnings!.push(
+        `Chain has ${recurrent.length} recurrent classes - each has its own stationary distribution, and any mixture of them is stationary`,
+      );
+      for (const c of recurrent) {
+        enhancements.suggestions!.push(
+          `Stationary on {${c.states.join(", ")}}: (${show(c.stationary!)})`,
+        );
+      }
+    }
+    if (analysis.period > 1) {
+      enhancements.warnings!.push(
+        `Chain is periodic (period=${analysis.period}) - it cycles rather than settling to the stationary distribution`,
+      );
     }
+  }
 
-    // Check if all states reachable from first state
-    const visited = new Set<string>();
-    const queue = [states[0].id];
-    visited.add(states[0].id);
+  /**
+   * Report how fast the chain forgets where it started
+   */
+  private describeMixing(
+    analysis: MarkovChainAnalysis,
+    enhancements: ModeEnhancements,
+  ): void {
+    if (!analysis.isErgodic) {
+      enhancements.warnings!.push(
+        analysis.isIrreducible
+          ? `Chain is periodic (period=${analysis.period}), so it does not converge to its stationary distribution`
+          : "Chain is reducible, so where it settles depends on where it starts",
+      );
+    } else if (analysis.mixingTime !== undefined) {
+      enhancements.suggestions!.push(
+        `Mixing time: ${analysis.mixingTime} step(s) to within 1/4 of stationarity in total variation, from any start`,
+      );
+      enhancements.metrics!.mixingTime = analysis.mixingTime;
+    } else {
+      enhancements.warnings!.push(
+        "Mixing time was not computed: the chain has too many states, or mixes too slowly",
+      );
+    }
+  }
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      for (const next of adj.get(current) || []) {
-        if (!visited.has(next)) {
-          visited.add(next);
-          queue.push(next);
-        }
+  /**
+   * Report the hitting probabilities and expected hitting times
+   */
+  private describeHitting(
+    analysis: MarkovChainAnalysis,
+    enhancements: ModeEnhancements,
+  ): void {
+    const hitting = analysis.hittingTimes;
+    if (!hitting) {
+      enhancements.suggestions!.push(
+        "Name targetStates to compute hitting times; the chain has no absorbing states to default to",
+      );
+      return;
+    }
+    const targets = `{${hitting.targets.join(", ")}}`;
+    for (const [state, p] of Object.entries(hitting.probabilities)) {
+      if (hitting.targets.includes(state)) continue;
+      const steps = hitting.expectedSteps[state];
+      enhancements.suggestions!.push(
+        steps === undefined
+          ? `From ${state}: hits ${targets} with probability ${p.toFixed(4)}`
+          : `From ${state}: hits ${targets} surely, after ${steps.toFixed(2)} steps on average`,
+      );
+    }
+  }
+
+  /**
+   * Read a chain's transitions against its states. A transition may name a
+   * state by id or by name; states are keyed by id where they have one.
+   */
+  private readChain(mc: MarkovChainInput): ChainReading {
+    const keyed = (mc.states ?? []).filter((s) => s.id || s.name);
+    const states = keyed.map((s) => (s.id || s.name)!);
+    const resolve = (ref: string | undefined) => {
+      if (ref === undefined) return undefined;
+      if (states.includes(ref)) return ref;
+      const named = keyed.find((s) => s.name === ref);
+      return named && (named.id || named.name);
+    };
+
+    const reading: ChainReading = { states, transitions: [], unknown: [] };
+    for (const t of mc.transitions ?? []) {
+      const from = resolve(t.fromState);
+      const to = resolve(t.toState);
+      if (from !== undefined && to !== undefined) {
+        reading.transitions.push({
+          from,
+          to,
+          probability: Math.max(0, Math.min(1, t.probability ?? 0)),
+        });
+      } else {
+        reading.unknown.push({
+          from: t.fromState ?? "",
+          to: t.toState ?? "",
+          missing: (from === undefined ? t.fromState : t.toState) ?? "",
+        });
+      }
+    }
+    return reading;
+  }
+
+  /**
+   * Analyse the input's Markov chain. A chain given without transitions has
+   * nothing to analyse, and keeps what the caller claims of it.
+   */
+  private analyzeChain(input: MarkovInput): MarkovAnalysis | undefined {
+    if (!input.markovChain) return undefined;
+    const { states, transitions } = this.readChain(input.markovChain);
+    if (states.length === 0 || transitions.length === 0) return undefined;
+    return analyzeMarkovChain(
+      states,
+      readTransitionMatrix(states, transitions),
+    );
+  }
+
+  /**
+   * The target states of a hitting-time analysis: those asked for, or else
+   * the absorbing states
+   */
+  private hittingTargets(
+    analysis: MarkovAnalysis,
+    input: MarkovInput,
+  ): string[] {
+    if (input.targetStates && input.targetStates.length > 0) {
+      return input.targetStates.filter((s) => analysis.states.includes(s));
+    }
+    return analysis.states.filter((s) => analysis.kinds[s] === "absorbing");
+  }
+
+  /**
+   * The analysis as the thought carries it, with hitting times for a
+   * hitting_time_analysis thought or one that names target states
+   */
+  private summarizeChain(
+    analysis: MarkovAnalysis,
+    input: MarkovInput,
+  ): MarkovChainAnalysis {
+    const wantsHitting =
+      input.thoughtType === "hitting_time_analysis" ||
+      (input.targetStates?.length ?? 0) > 0;
+    const targets = this.hittingTargets(analysis, input);
+    return {
+      classes: analysis.classes,
+      kinds: analysis.kinds,
+      isIrreducible: analysis.isIrreducible,
+      isAperiodic: analysis.isAperiodic,
+      isErgodic: analysis.isErgodic,
+      period: analysis.period,
+      stationaryDistribution: analysis.stationaryDistribution,
+      absorptionProbabilities: analysis.absorptionProbabilities,
+      expectedStepsToAbsorption: analysis.expectedStepsToAbsorption,
+      mixingTime: analysis.mixingTime,
+      hittingTimes:
+        wantsHitting && targets.length > 0
+          ? hittingTimes(analysis, targets)
+          : undefined,
+    };
+  }
+
+  /**
+   * Warn about transitions and targets the analysis cannot place, and
+   * claims about the chain that its transitions contradict
+   */
+  private checkChain(input: MarkovInput): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+    const mc = input.markovChain!;
+    for (const { from, to, missing } of this.readChain(mc).unknown) {
+      warnings.push(
+        createValidationWarning(
+          "markovChain.transitions",
+          `Transition ${from} → ${to} names '${missing}', which is not a state of the chain, so it was left out of the analysis`,
+          "Name states by the id or name given in markovChain.states",
+        ),
+      );
+    }
+
+    const analysis = this.analyzeChain(input);
+    if (!analysis) return warnings;
+
+    for (const target of input.targetStates ?? []) {
+      if (!analysis.states.includes(target)) {
+        warnings.push(
+          createValidationWarning(
+            "targetStates",
+            `Target state '${target}' is not a state of the chain`,
+            "Name target states by their id in markovChain.states",
+          ),
+        );
       }
     }
 
-    return visited.size === states.length;
+    if (
+      mc.isIrreducible !== undefined &&
+      mc.isIrreducible !== analysis.isIrreducible
+    ) {
+      warnings.push(
+        createValidationWarning(
+          "markovChain.isIrreducible",
+          analysis.isIrreducible
+            ? "markovChain.isIrreducible claims false, but every state reaches every other"
+            : `markovChain.isIrreducible claims true, but the chain has ${analysis.classes.length} communicating classes`,
+          "The computed value was used",
+        ),
+      );
+    }
+    if (mc.period !== undefined && mc.period !== analysis.period) {
+      warnings.push(
+        createValidationWarning(
+          "markovChain.period",
+          `markovChain.period claims ${mc.period}, but the chain has period ${analysis.period}`,
+          "The computed value was used",
+        ),
+      );
+    }
+    if (mc.isErgodic !== undefined && mc.isErgodic !== analysis.isErgodic) {
+      warnings.push(
+        createValidationWarning(
+          "markovChain.isErgodic",
+          `markovChain.isErgodic claims ${mc.isErgodic}, but the chain is ${analysis.isErgodic ? "" : "not "}ergodic`,
+          "The computed value was used",
+        ),
+      );
+    }
+    return warnings;
   }
 
   /**
@@ -0,0 +1,427 @@
+/**
+ * Modal Formula Syntax
+ *
+ * Extends the propositional syntax of formallogic/formula.ts with the
+ * necessity and possibility operators. Every connective formula.ts reads is
+ * read here too.
+ *
+ * ```text
+ *              Unicode     ASCII                                   LaTeX
+ * necessarily  □  ◻        []  box  necessarily                    \Box  \square
+ * possibly     ◇  ◊  ♢     <>  diamond  possibly                   \Diamond  \lozenge  \diamond
+ * ```
+ *
+ * The epistemic, deontic and temporal operators are read as □ or ◇ over the
+ * one accessibility relation: `knows`, `believes`, `obligatory`, `always`
+ * and the letters `K`, `B`, `O` and `G` are □; `permitted`, `eventually`
+ * and the letters `P` and `F` are ◇. A capital letter is an operator only
+ * when an operand follows it, so `P → Q` is still about the atoms P and Q
+ * while `K p` and `O(p ∧ q)` are modal.
+ *
+ * A modal operator binds as tightly as negation: `□p → q` is `(□p) → q`.
+ */
+
+import {
+  COMMANDS,
+  FormulaSyntaxError,
+  KEYWORDS,
+  NOTATIONS,
+  PRECEDENCE,
+  SYMBOLS,
+  needsParentheses,
+} from "../formallogic/formula.js";
+import type { BinaryConnective, Notation } from "../formallogic/types.js";
+import type { ModalConnective, ModalFormula } from "./types.js";
+
+type Token =
+  | { kind: "variable"; value: string; position: number }
+  | { kind: "constant"; value: boolean; position: number }
+  | { kind: "operator"; value: string; text: string; position: number }
+  | { kind: "end"; position: number };
+
+const MODAL_SYMBOLS: [string, ModalConnective][] = [
+  ["[]", "box"],
+  ["<>", "diamond"],
+  ["□", "box"],
+  ["◻", "box"],
+  ["◇", "diamond"],
+  ["◊", "diamond"],
+  ["♢", "diamond"],
+];
+
+const MODAL_KEYWORDS: Record<string, ModalConnective> = {
+  necessarily: "box",
+  box: "box",
+  knows: "box",
+  believes: "box",
+  obligatory: "box",
+  always: "box",
+  possibly: "diamond",
+  diamond: "diamond",
+  permitted: "diamond",
+  eventually: "diamond",
+};
+
+const MODAL_COMMANDS: Record<string, ModalConnective> = {
+  Box: "box",
+  square: "box",
+  Diamond: "diamond",
+  lozenge: "diamond",
+  diamond: "diamond",
+};
+
+/** Operator letters of epistemic (K, B), deontic (O, P) and temporal (G, F) logic */
+const MODAL_LETTERS: Record<string, ModalConnective> = {
+  K: "box",
+  B: "box",
+  O: "box",
+  G: "box",
+  P: "diamond",
+  F: "diamond",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "⊤" || ch === "⊥" || ch === "1" || ch === "0") {
+      const value = ch === "⊤" || ch === "1";
+      tokens.push({ kind: "constant", value, position: i });
+      i++;
+      continue;
+    }
+
+    const modal = MODAL_SYMBOLS.find(([text]) => source.startsWith(text, i));
+    if (modal) {
+      tokens.push({
+        kind: "operator",
+        value: modal[1],
+        text: modal[0],
+        position: i,
+      });
+      i += modal[0].length;
+      continue;
+    }
+
+    if (ch === "\\" && /[A-Za-z]/.test(source[i + 1] ?? "")) {
+      const name = /^[A-Za-z]+/.exec(source.slice(i + 1))![0];
+      if (name === "left" || name === "right") {
+        i += name.length + 1;
+        continue;
+      }
+      const meaning = MODAL_COMMANDS[name] ?? COMMANDS[name];
+      if (meaning === undefined) {
+        throw new FormulaSyntaxError(`Unknown command '\\${name}'`, i);
+      }
+      tokens.push(
+        typeof meaning === "boolean"
+          ? { kind: "constant", value: meaning, position: i }
+          : {
+              kind: "operator",
+              value: meaning,
+              text: `\\${name}`,
+              position: i,
+            },
+      );
+      i += name.length + 1;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const word =
+        /^[A-Za-z][A-Za-z0-9]*(?:_(?:\{[A-Za-z0-9]+\}|[A-Za-z0-9]+))?'*/.exec(
+          source.slice(i),
+        )![0];
+      const lower = word.toLowerCase();
+      const meaning = KEYWORDS[lower] ?? MODAL_KEYWORDS[lower];
+      if (meaning) {
+        tokens.push({
+          kind: "operator",
+          value: meaning,
+          text: word,
+          position: i,
+        });
+      } else if (lower === "true" || lower === "false") {
+        tokens.push({ kind: "constant", value: lower === "true", position: i });
+      } else {
+        tokens.push({
+          kind: "variable",
+          value: word.replace(/_\{([A-Za-z0-9]+)\}/, "_$1"),
+          position: i,
+        });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(([text]) => source.startsWith(text, i));
+    if (!symbol) {
+      throw new FormulaSyntaxError(`Unexpected character '${ch}'`, i);
+    }
+    tokens.push({
+      kind: "operator",
+      value: symbol[1],
+      text: symbol[0],
+      position: i,
+    });
+    i += symbol[0].length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the connective precedence of formula.ts,
+ * with modal operators at the level of negation
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ModalFormula {
+    const formula = this.binary(1);
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FormulaSyntaxError(
+        `Unexpected ${describe(next)}`,
+        next.position,
+      );
+    }
+    return formula;
+  }
+
+  private binary(level: number): ModalFormula {
+    if (level > 5) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (
+        token.kind !== "operator" ||
+        PRECEDENCE[token.value as BinaryConnective] !== level
+      ) {
+        return left;
+      }
+      this.index++;
+      const operator = token.value as BinaryConnective;
+      if (operator === "implies") {
+        return { type: "binary", operator, left, right: this.binary(level) };
+      }
+      left = { type: "binary", operator, left, right: this.binary(level + 1) };
+    }
+  }
+
+  private unary(): ModalFormula {
+    if (this.accept("not")) {
+      return { type: "not", operand: this.unary() };
+    }
+    const token = this.peek();
+    if (
+      token.kind === "operator" &&
+      (token.value === "box" || token.value === "diamond")
+    ) {
+      this.index++;
+      return { type: "modal", operator: token.value, operand: this.unary() };
+    }
+    if (
+      token.kind === "variable" &&
+      MODAL_LETTERS[token.value] &&
+      this.startsOperand(this.tokens[this.index + 1])
+    ) {
+      this.index++;
+      return {
+        type: "modal",
+        operator: MODAL_LETTERS[token.value],
+        operand: this.unary(),
+      };
+    }
+    return this.primary();
+  }
+
+  /** Whether a formula can begin with this token */
+  private startsOperand(token: Token): boolean {
+    switch (token.kind) {
+      case "variable":
+      case "constant":
+        return true;
+      case "operator":
+        return ["(", "not", "box", "diamond"].includes(token.value);
+      case "end":
+        return false;
+    }
+  }
+
+  private primary(): ModalFormula {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case "variable":
+        return { type: "variable", name: token.value };
+      case "constant":
+        return { type: "constant", value: token.value };
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.binary(1);
+          this.expect(")");
+          return inner;
+        }
+        break;
+      case "end":
+        throw new FormulaSyntaxError(
+          "Unexpected end of formula",
+          token.position,
+        );
+    }
+    throw new FormulaSyntaxError(
+      `Unexpected ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      const token = this.peek();
+      throw new FormulaSyntaxError(
+        `Expected '${value}' but found ${describe(token)}`,
+        token.position,
+      );
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end":
+      return "end of formula";
+    case "operator":
+      return `'${token.text}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a modal formula
+ *
+ * @throws FormulaSyntaxError on a syntax error or unknown LaTeX command
+ */
+export function parseModal(source: string): ModalFormula {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * The atoms of a formula, in order of first use
+ */
+export function modalAtoms(formula: ModalFormula): string[] {
+  const atoms = new Set<string>();
+  const visit = (f: ModalFormula): void => {
+    switch (f.type) {
+      case "variable":
+        atoms.add(f.name);
+        break;
+      case "not":
+      case "modal":
+        visit(f.operand);
+        break;
+      case "binary":
+        visit(f.left);
+        visit(f.right);
+        break;
+    }
+  };
+  visit(formula);
+  return [...atoms];
+}
+
+/**
+ * Greatest nesting of modal operators
+ */
+export function modalDepth(formula: ModalFormula): number {
+  switch (formula.type) {
+    case "constant":
+    case "variable":
+      return 0;
+    case "not":
+      return modalDepth(formula.operand);
+    case "modal":
+      return 1 + modalDepth(formula.operand);
+    case "binary":
+      return Math.max(modalDepth(formula.left), modalDepth(formula.right));
+  }
+}
+
+const MODAL_NOTATIONS: Record<Notation, Record<ModalConnective, string>> = {
+  unicode: { box: "□", diamond: "◇" },
+  ascii: { box: "[]", diamond: "<>" },
+  latex: { box: "\\Box ", diamond: "\\Diamond " },
+};
+
+/**
+ * Write a modal formula out with as few parentheses as its precedence allows
+ */
+export function formatModal(
+  formula: ModalFormula,
+  notation: Notation = "unicode",
+): string {
+  const symbols = NOTATIONS[notation];
+  const modal = MODAL_NOTATIONS[notation];
+
+  const write = (f: ModalFormula): string => {
+    switch (f.type) {
+      case "constant":
+        return f.value ? symbols.true : symbols.false;
+      case "variable":
+        return f.name;
+      case "not":
+      case "modal": {
+        const prefix = f.type === "not" ? symbols.not : modal[f.operator];
+        const operand = write(f.operand);
+        return f.operand.type === "binary"
+          ? `${prefix}(${operand})`
+          : `${prefix}${operand}`;
+      }
+      case "binary":
+        return (
+          side(f.operator, f.left, "left") +
+          symbols[f.operator] +
+          side(f.operator, f.right, "right")
+        );
+    }
+  };
+
+  const side = (
+    parent: BinaryConnective,
+    child: ModalFormula,
+    position: "left" | "right",
+  ): string => {
+    const text = write(child);
+    if (child.type !== "binary") return text;
+    return needsParentheses(parent, child.operator, position)
+      ? `(${text})`
+      : text;
+  };
+
+  return write(formula);
+}
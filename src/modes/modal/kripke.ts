@@ -0,0 +1,227 @@
+/**
+ * Kripke Model Checking
+ *
+ * Reads the worlds and accessibility relations of a modal thought into a
+ * `KripkeModel`, evaluates modal formulas at its worlds, and checks which
+ * frame properties its accessibility relation has.
+ *
+ * - A world is named by its `id` or its `name`. Its accessible worlds are
+ *   its own `accessibility` list together with every relation whose
+ *   `fromWorld` is that world; a reference to an unknown world is dropped.
+ * - An atom is true at a world when the world's `propositions` maps it to
+ *   true, and false otherwise.
+ * - Formulas are evaluated bottom-up over sets of worlds, so checking a
+ *   formula costs one pass over the relation per modal operator.
+ */
+
+import type {
+  AccessibilityRelation,
+  KripkeProperty,
+  ModalLogicSystem,
+  PossibleWorld,
+} from "../../types/modes/modal.js";
+import { applyConnective } from "../formallogic/formula.js";
+import type { FrameCheck, KripkeModel, ModalFormula } from "./types.js";
+
+/** Frame properties each modal system requires */
+export const SYSTEM_PROPERTIES: Record<ModalLogicSystem, KripkeProperty[]> = {
+  K: [],
+  D: ["serial"],
+  T: ["reflexive"],
+  B: ["reflexive", "symmetric"],
+  S4: ["reflexive", "transitive"],
+  S5: ["reflexive", "symmetric", "transitive"],
+};
+
+/**
+ * Read worlds and relations into a Kripke model
+ */
+export function readKripkeModel(
+  worlds: PossibleWorld[],
+  relations: AccessibilityRelation[] = [],
+): KripkeModel {
+  const ids = new Map<string, string>();
+  for (const world of worlds) {
+    if (world.name) ids.set(world.name, world.id);
+  }
+  // An id wins over a name that happens to equal it
+  for (const world of worlds) ids.set(world.id, world.id);
+
+  const access = new Map<string, Set<string>>(
+    worlds.map((w) => [w.id, new Set<string>()]),
+  );
+  const link = (from: string | undefined, to: string | undefined): void => {
+    const source = from === undefined ? undefined : ids.get(from);
+    const target = to === undefined ? undefined : ids.get(to);
+    if (source !== undefined && target !== undefined) {
+      access.get(source)!.add(target);
+    }
+  };
+
+  for (const world of worlds) {
+    for (const to of world.accessibility ?? []) link(world.id, to);
+  }
+  for (const relation of relations) {
+    link(relation.fromWorld || relation.from, relation.toWorld || relation.to);
+  }
+
+  return {
+    worlds: worlds.map((w) => w.id),
+    access: Object.fromEntries(
+      [...access].map(([id, targets]) => [id, [...targets]]),
+    ),
+    valuation: Object.fromEntries(
+      worlds.map((w) => [
+        w.id,
+        Object.entries(w.propositions ?? {})
+          .filter(([, value]) => value === true)
+          .map(([atom]) => atom),
+      ]),
+    ),
+  };
+}
+
+/**
+ * The worlds of a model at which a formula is true
+ */
+export function truthSet(
+  model: KripkeModel,
+  formula: ModalFormula,
+): Set<string> {
+  const all = model.worlds;
+  const where = (test: (world: string) => boolean): Set<string> =>
+    new Set(all.filter(test));
+
+  switch (formula.type) {
+    case "constant":
+      return formula.value ? new Set(all) : new Set();
+    case "variable":
+      return where((w) => model.valuation[w]?.includes(formula.name) ?? false);
+    case "not": {
+      const operand = truthSet(model, formula.operand);
+      return where((w) => !operand.has(w));
+    }
+    case "binary": {
+      const left = truthSet(model, formula.left);
+      const right = truthSet(model, formula.right);
+      return where((w) =>
+        applyConnective(formula.operator, left.has(w), right.has(w)),
+      );
+    }
+    case "modal": {
+      const operand = truthSet(model, formula.operand);
+      const successors = (w: string) => model.access[w] ?? [];
+      return formula.operator === "box"
+        ? where((w) => successors(w).every((v) => operand.has(v)))
+        : where((w) => successors(w).some((v) => operand.has(v)));
+    }
+  }
+}
+
+/**
+ * Whether a formula is true at a world of a model
+ */
+export function evaluateModal(
+  model: KripkeModel,
+  formula: ModalFormula,
+  world: string,
+): boolean {
+  return truthSet(model, formula).has(world);
+}
+
+/**
+ * Which frame properties the accessibility relation of a model has, with a
+ * witness for each it lacks
+ */
+export function checkFrame(model: KripkeModel): FrameCheck {
+  const { worlds } = model;
+  const R = (u: string, v: string): boolean =>
+    model.access[u]?.includes(v) ?? false;
+  const successors = (u: string): string[] => model.access[u] ?? [];
+
+  const witnesses: Record<KripkeProperty, () => string | undefined> = {
+    reflexive: () => {
+      const w = worlds.find((u) => !R(u, u));
+      return w === undefined ? undefined : `${w} does not access itself`;
+    },
+    serial: () => {
+      const w = worlds.find((u) => successors(u).length === 0);
+      return w === undefined ? undefined : `${w} accesses no world`;
+    },
+    symmetric: () => {
+      for (const u of worlds) {
+        for (const v of successors(u)) {
+          if (!R(v, u))
+            return `${u} accesses ${v} but ${v} does not access ${u}`;
+        }
+      }
+      return undefined;
+    },
+    transitive: () => {
+      for (const u of worlds) {
+        for (const v of successors(u)) {
+          for (const w of successors(v)) {
+            if (!R(u, w)) {
+              return `${u} accesses ${v} and ${v} accesses ${w}, but ${u} does not access ${w}`;
+            }
+          }
+        }
+      }
+      return undefined;
+    },
+    euclidean: () => {
+      for (const u of worlds) {
+        for (const v of successors(u)) {
+          for (const w of successors(u)) {
+            if (!R(v, w)) {
+              return v === w
+                ? `${u} accesses ${v}, but ${v} does not access itself`
+                : `${u} accesses ${v} and ${w}, but ${v} does not access ${w}`;
+            }
+          }
+        }
+      }
+      return undefined;
+    },
+    convergent: () => {
+      for (const u of worlds) {
+        for (const v of successors(u)) {
+          for (const w of successors(u)) {
+            if (!successors(v).some((x) => R(w, x))) {
+              return v === w
+                ? `${u} accesses ${v}, which accesses no world`
+                : `${u} accesses ${v} and ${w}, which access no common world`;
+            }
+          }
+        }
+      }
+      return undefined;
+    },
+  };
+
+  const properties: KripkeProperty[] = [];
+  const violations: FrameCheck["violations"] = {};
+  for (const [property, search] of Object.entries(witnesses) as [
+    KripkeProperty,
+    () => string | undefined,
+  ][]) {
+    const witness = search();
+    if (witness === undefined) properties.push(property);
+    else violations[property] = witness;
+  }
+  return { properties, violations };
+}
+
+/**
+ * Write a model out world by world: the atoms true there and the worlds it
+ * accesses, as in "w0 {p} → w1; w1 {} → w1"
+ */
+export function formatKripkeModel(model: KripkeModel): string {
+  return model.worlds
+    .map((w) => {
+      const atoms = (model.valuation[w] ?? []).join(", ");
+      const targets = model.access[w] ?? [];
+      return `${w} {${atoms}} → ${targets.length > 0 ? targets.join(", ") : "∅"}`;
+    })
+    .join("; ");
+}
@@ -0,0 +1,102 @@
+/**
+ * Engine Types for Modal Reasoning
+ *
+ * These types back the Kripke model checker in src/modes/modal/. A modal
+ * formula string is read into a `ModalFormula`, and the PossibleWorld /
+ * AccessibilityRelation types of src/types/modes/modal.ts are read into a
+ * `KripkeModel` once; formulas are then evaluated at its worlds. Validity of
+ * an inference in a modal system is decided by searching the frames of that
+ * system for a countermodel.
+ */
+
+import type { BinaryConnective } from "../formallogic/types.js";
+import type {
+  KripkeProperty,
+  ModalLogicSystem,
+} from "../../types/modes/modal.js";
+
+// ============================================================================
+// FORMULAS
+// ============================================================================
+
+/** □ and ◇; the epistemic, deontic and temporal operators are read as these */
+export type ModalConnective = "box" | "diamond";
+
+/**
+ * A propositional formula with modal operators
+ */
+export type ModalFormula =
+  | { type: "constant"; value: boolean }
+  | { type: "variable"; name: string }
+  | { type: "not"; operand: ModalFormula }
+  | {
+      type: "binary";
+      operator: BinaryConnective;
+      left: ModalFormula;
+      right: ModalFormula;
+    }
+  | { type: "modal"; operator: ModalConnective; operand: ModalFormula };
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * A Kripke model (W, R, V)
+ */
+export interface KripkeModel {
+  /** World ids, in the order given */
+  worlds: string[];
+
+  /** Worlds each world accesses */
+  access: Record<string, string[]>;
+
+  /** Atoms true at each world; every other atom is false there */
+  valuation: Record<string, string[]>;
+}
+
+/**
+ * Which frame properties an accessibility relation has
+ */
+export interface FrameCheck {
+  /** Properties the relation has */
+  properties: KripkeProperty[];
+
+  /** For each property it lacks, the worlds that show it */
+  violations: Partial<Record<KripkeProperty, string>>;
+}
+
+// ============================================================================
+// VALIDITY
+// ============================================================================
+
+export interface ModalValidityOptions {
+  /** Largest countermodel searched for, in worlds (default 8) */
+  maxWorlds?: number;
+}
+
+/**
+ * Whether premises entail a conclusion at every world of every model of a
+ * modal system
+ */
+export interface ModalValidityResult {
+  /** "unknown" when a countermodel might need more than maxWorlds worlds */
+  status: "valid" | "invalid" | "unknown";
+
+  system: ModalLogicSystem;
+
+  /** A model of the system falsifying the inference at `world` */
+  countermodel?: KripkeModel & { world: string };
+
+  /** Size of the largest model searched */
+  worldsSearched: number;
+
+  /**
+   * Model size within which a countermodel exists if any does; the search
+   * is complete when it reaches this size
+   */
+  bound: number;
+
+  /** Weaker system the inference was proved valid in, when that decided it */
+  provedIn?: ModalLogicSystem;
+}
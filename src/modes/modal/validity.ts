@@ -0,0 +1,344 @@
+/**
+ * Modal Validity
+ *
+ * Decides whether premises entail a conclusion in a modal system: whether
+ * the conclusion is true at every world, of every model on a frame of the
+ * system, where the premises are. The search is for a countermodel, a model
+ * where the premises are true and the conclusion false at a world w0.
+ *
+ * Each model size n = 1, 2, ... is one problem for the CDCL solver in
+ * formallogic/sat.ts. A variable per pair of worlds says whether the first
+ * accesses the second, and the frame properties of the system are clauses
+ * over those. Every subformula gets a variable per world, defined by Tseitin
+ * clauses; □φ is true at w exactly when φ is true at every world w accesses.
+ * The smallest countermodel is found first.
+ *
+ * The search is complete once it reaches a size within which a countermodel
+ * exists if any does. With md the modal depth and k the number of ◇
+ * subformulas once negations are pushed inward (□ under a negation counts):
+ *
+ * - K, D, T and B: a tree of depth md branching at most max(k, 1) ways.
+ * - S5: k + 1 worlds.
+ * - S4: 2^m worlds, m the number of atoms and modal subformulas, by
+ *   filtration.
+ *
+ * Past maxWorlds the inference is tried in the next weaker system (S5, S4,
+ * T, D, K), since validity there carries over; a countermodel there does not,
+ * and the result is "unknown".
+ */
+
+import { solveCnf } from "../formallogic/sat.js";
+import type { Clause } from "../formallogic/types.js";
+import type { ModalLogicSystem } from "../../types/modes/modal.js";
+import { SYSTEM_PROPERTIES } from "./kripke.js";
+import { formatModal, modalAtoms, modalDepth } from "./formula.js";
+import type {
+  KripkeModel,
+  ModalFormula,
+  ModalValidityOptions,
+  ModalValidityResult,
+} from "./types.js";
+
+/** The system whose validities each system contains */
+const WEAKER: Partial<Record<ModalLogicSystem, ModalLogicSystem>> = {
+  S5: "S4",
+  S4: "T",
+  B: "T",
+  T: "D",
+  D: "K",
+};
+
+/**
+ * Whether the premises entail the conclusion in a modal system, with the
+ * smallest countermodel when they do not
+ */
+export function checkModalValidity(
+  premises: ModalFormula[],
+  conclusion: ModalFormula,
+  system: ModalLogicSystem,
+  options: ModalValidityOptions = {},
+): ModalValidityResult {
+  const maxWorlds = options.maxWorlds ?? 8;
+  const result = search(premises, conclusion, system, maxWorlds);
+
+  if (result.status === "unknown") {
+    for (
+      let weaker = WEAKER[system];
+      weaker !== undefined;
+      weaker = WEAKER[weaker]
+    ) {
+      const check = search(premises, conclusion, weaker, maxWorlds);
+      if (check.status === "valid") {
+        return { ...result, status: "valid", provedIn: weaker };
+      }
+      if (check.status === "invalid") break;
+    }
+  }
+  return result;
+}
+
+function search(
+  premises: ModalFormula[],
+  conclusion: ModalFormula,
+  system: ModalLogicSystem,
+  maxWorlds: number,
+): ModalValidityResult {
+  const bound = modelBound(premises, conclusion, system);
+  const limit = Math.min(bound, maxWorlds);
+
+  for (let n = 1; n <= limit; n++) {
+    const model = findCountermodel(premises, conclusion, system, n);
+    if (model === "unknown") {
+      return { status: "unknown", system, worldsSearched: n, bound };
+    }
+    if (model) {
+      return {
+        status: "invalid",
+        system,
+        countermodel: { ...model, world: model.worlds[0] },
+        worldsSearched: n,
+        bound,
+      };
+    }
+  }
+  return {
+    status: bound <= maxWorlds ? "valid" : "unknown",
+    system,
+    worldsSearched: limit,
+    bound,
+  };
+}
+
+/**
+ * Size within which the inference has a countermodel on the system's frames
+ * if it has one at all
+ */
+function modelBound(
+  premises: ModalFormula[],
+  conclusion: ModalFormula,
+  system: ModalLogicSystem,
+): number {
+  const k =
+    premises.reduce((sum, p) => sum + diamonds(p, true), 0) +
+    diamonds(conclusion, false);
+
+  switch (system) {
+    case "S5":
+      return k + 1;
+    case "S4": {
+      const keys = new Set<string>();
+      const collect = (f: ModalFormula): void => {
+        if (f.type === "variable" || f.type === "modal") {
+          keys.add(formatModal(f));
+        }
+        if (f.type === "not" || f.type === "modal") collect(f.operand);
+        if (f.type === "binary") {
+          collect(f.left);
+          collect(f.right);
+        }
+      };
+      [...premises, conclusion].forEach(collect);
+      return 2 ** keys.size;
+    }
+    default: {
+      const depth = Math.max(...[...premises, conclusion].map(modalDepth));
+      const branching = Math.max(k, 1);
+      let size = 0;
+      for (let level = 0, width = 1; level <= depth; level++) {
+        size += width;
+        width *= branching;
+      }
+      return size;
+    }
+  }
+}
+
+/**
+ * ◇ subformulas of a formula in negation normal form, where `positive` says
+ * whether the formula stands unnegated
+ */
+function diamonds(f: ModalFormula, positive: boolean): number {
+  switch (f.type) {
+    case "constant":
+    case "variable":
+      return 0;
+    case "not":
+      return diamonds(f.operand, !positive);
+    case "modal":
+      return (
+        ((f.operator === "diamond") === positive ? 1 : 0) +
+        diamonds(f.operand, positive)
+      );
+    case "binary":
+      switch (f.operator) {
+        case "and":
+        case "or":
+          return diamonds(f.left, positive) + diamonds(f.right, positive);
+        case "nand":
+        case "nor":
+          return diamonds(f.left, !positive) + diamonds(f.right, !positive);
+        case "implies":
+          return diamonds(f.left, !positive) + diamonds(f.right, positive);
+        case "iff":
+        case "xor":
+          // Each side occurs both ways round once the connective is expanded
+          return [f.left, f.right].reduce(
+            (sum, side) => sum + diamonds(side, true) + diamonds(side, false),
+            0,
+          );
+      }
+  }
+}
+
+/**
+ * A model of n worlds on a frame of the system in which the premises are true
+ * and the conclusion false at the first world, undefined when there is none,
+ * or "unknown" when the solver gave up
+ */
+function findCountermodel(
+  premises: ModalFormula[],
+  conclusion: ModalFormula,
+  system: ModalLogicSystem,
+  n: number,
+): KripkeModel | undefined | "unknown" {
+  const clauses: Clause[] = [];
+  // Variables 1..n² say whether world u accesses world v
+  const R = (u: number, v: number): number => 1 + u * n + v;
+  let count = n * n;
+  const fresh = (): number => ++count;
+
+  const worlds = Array.from({ length: n }, (_, i) => i);
+  for (const property of SYSTEM_PROPERTIES[system]) {
+    for (const u of worlds) {
+      switch (property) {
+        case "reflexive":
+          clauses.push([R(u, u)]);
+          break;
+        case "serial":
+          clauses.push(worlds.map((v) => R(u, v)));
+          break;
+        case "symmetric":
+          for (const v of worlds) clauses.push([-R(u, v), R(v, u)]);
+          break;
+        case "transitive":
+          for (const v of worlds) {
+            for (const w of worlds) {
+              clauses.push([-R(u, v), -R(v, w), R(u, w)]);
+            }
+          }
+          break;
+      }
+    }
+  }
+
+  const atoms = new Map<string, number>();
+  const atom = (name: string, w: number): number => {
+    const key = `${w}:${name}`;
+    if (!atoms.has(key)) atoms.set(key, fresh());
+    return atoms.get(key)!;
+  };
+  let truth: number | undefined;
+
+  // A subformula under a modal operator is encoded once per world
+  const encoded = new Map<ModalFormula, Map<number, number>>();
+  const encode = (f: ModalFormula, w: number): number => {
+    let byWorld = encoded.get(f);
+    if (!byWorld) encoded.set(f, (byWorld = new Map()));
+    if (!byWorld.has(w)) byWorld.set(w, define(f, w));
+    return byWorld.get(w)!;
+  };
+
+  // The literal equivalent to a subformula at world w
+  const define = (f: ModalFormula, w: number): number => {
+    switch (f.type) {
+      case "variable":
+        return atom(f.name, w);
+      case "constant":
+        if (truth === undefined) {
+          truth = fresh();
+          clauses.push([truth]);
+        }
+        return f.value ? truth : -truth;
+      case "not":
+        return -encode(f.operand, w);
+      case "binary": {
+        const a = encode(f.left, w);
+        const b = encode(f.right, w);
+        const x = fresh();
+        switch (f.operator) {
+          case "and":
+            clauses.push([-x, a], [-x, b], [x, -a, -b]);
+            break;
+          case "nand":
+            clauses.push([x, a], [x, b], [-x, -a, -b]);
+            break;
+          case "or":
+            clauses.push([x, -a], [x, -b], [-x, a, b]);
+            break;
+          case "nor":
+            clauses.push([-x, -a], [-x, -b], [x, a, b]);
+            break;
+          case "implies":
+            clauses.push([x, a], [x, -b], [-x, -a, b]);
+            break;
+          case "iff":
+            clauses.push([-x, -a, b], [-x, a, -b], [x, a, b], [x, -a, -b]);
+            break;
+          case "xor":
+            clauses.push([x, -a, b], [x, a, -b], [-x, a, b], [-x, -a, -b]);
+            break;
+        }
+        return x;
+      }
+      case "modal": {
+        // □φ is ¬◇¬φ; x is "some accessible world has φ" (or ¬φ for □)
+        const box = f.operator === "box";
+        const x = fresh();
+        const witnesses: number[] = [];
+        for (const v of worlds) {
+          const operand = encode(f.operand, v);
+          const target = box ? -operand : operand;
+          const witness = fresh();
+          clauses.push(
+            [x, -R(w, v), -target],
+            [-witness, R(w, v)],
+            [-witness, target],
+          );
+          witnesses.push(witness);
+        }
+        clauses.push([-x, ...witnesses]);
+        return box ? -x : x;
+      }
+    }
+  };
+
+  for (const premise of premises) clauses.push([encode(premise, 0)]);
+  clauses.push([-encode(conclusion, 0)]);
+
+  const result = solveCnf(clauses, count);
+  if (result.status === "unknown") return "unknown";
+  if (result.status === "unsatisfiable") return undefined;
+
+  const value = (v: number): boolean => result.model![v - 1];
+  const names = worlds.map((w) => `w${w}`);
+  const used = [
+    ...new Set([...premises, conclusion].flatMap((f) => modalAtoms(f))),
+  ];
+  return {
+    worlds: names,
+    access: Object.fromEntries(
+      worlds.map((u) => [
+        names[u],
+        worlds.filter((v) => value(R(u, v))).map((v) => names[v]),
+      ]),
+    ),
+    valuation: Object.fromEntries(
+      worlds.map((w) => [
+        names[w],
+        used.filter(
+          (name) => atoms.has(`${w}:${name}`) && value(atom(name, w)),
+        ),
+      ]),
+    ),
+  };
+}
@@ -0,0 +1,423 @@
+/**
+ * Linear Models from Formulas
+ *
+ * Reads the decision variables, constraint formulas and objective formula of
+ * an optimization thought into a LinearModel. Formulas use the constraint
+ * expression language (src/modes/constraint/expression.ts), restricted to
+ * what is linear: sums of variables times constants, compared with <=, >=
+ * or =. Strict < and > are read as <= and >=, which is all a linear program
+ * can express. A number written against a variable means multiplication, so
+ * `3x + 2y <= 18` reads like `3*x + 2*y <= 18`.
+ *
+ * Variable domains become bounds. Integer and binary variables, and discrete
+ * domains of consecutive integers, are marked integer for branch-and-bound.
+ */
+
+import type {
+  Constraint,
+  DecisionVariable,
+} from "../../types/modes/optimization.js";
+import {
+  parseExpression,
+  type ExpressionNode,
+} from "../constraint/expression.js";
+import type {
+  LinearModel,
+  LinearObjective,
+  ModelConstraint,
+  ModelVariable,
+} from "./types.js";
+
+/** A linear expression: Σ coefficients[j]·x_j + constant */
+interface LinearExpression {
+  coefficients: number[];
+  constant: number;
+}
+
+/**
+ * An objective to read: a formula and its direction
+ */
+export interface ObjectiveSpec {
+  sense: "maximize" | "minimize";
+  formula: string;
+}
+
+/**
+ * Read an optimization problem into a linear model
+ *
+ * Identifiers match a variable id first, then a variable name. With no
+ * variables declared, every identifier in the formulas becomes a continuous
+ * variable with a lower bound of 0, the usual convention for a linear program.
+ *
+ * @throws Error naming the formula at fault if a formula is not linear or
+ *   refers to an undeclared variable, or if a domain cannot be expressed as
+ *   bounds
+ */
+export function buildLinearModel(
+  declared: DecisionVariable[],
+  constraints: Pick<Constraint, "id" | "formula">[],
+  objective: ObjectiveSpec,
+): LinearModel {
+  return buildMultiObjectiveModel(declared, constraints, [objective]).model;
+}
+
+/**
+ * Read a problem with several objectives
+ *
+ * The model carries the first objective; `objectives` holds every one, in
+ * order, over the same variables. Errors name objectives by position.
+ *
+ * @throws Error as for buildLinearModel
+ */
+export function buildMultiObjectiveModel(
+  declared: DecisionVariable[],
+  constraints: Pick<Constraint, "id" | "formula">[],
+  objectives: ObjectiveSpec[],
+): { model: LinearModel; objectives: LinearObjective[] } {
+  const label = (k: number): string =>
+    objectives.length === 1 ? "Objective" : `Objective ${k + 1}`;
+  const parsedObjectives = objectives.map((o, k) =>
+    parseFormula(stripObjectivePrefix(o.formula), label(k)),
+  );
+  const parsedConstraints = constraints.map((c) => ({
+    id: c.id,
+    node: parseFormula(c.formula, `Constraint ${c.id}`),
+  }));
+
+  const variables =
+    declared.length > 0
+      ? declared.map(readVariable)
+      : inferVariables(
+          parsedObjectives,
+          parsedConstraints.map((c) => c.node),
+        );
+  const index = new Map<string, number>();
+  variables.forEach((v, j) => index.set(v.id, j));
+  variables.forEach((v, j) => !index.has(v.name) && index.set(v.name, j));
+
+  const linearObjectives = parsedObjectives.map((node, k): LinearObjective => {
+    // "z = 3x + 2y" names the objective; only the right-hand side counts
+    const named =
+      node.type === "comparison" &&
+      node.operators.length === 1 &&
+      node.operators[0] === "==" &&
+      node.operands[0].type === "identifier" &&
+      !index.has(node.operands[0].name);
+    const expression = linearize(
+      named ? node.operands[1] : node,
+      index,
+      label(k),
+    );
+    return {
+      sense: objectives[k].sense,
+      coefficients: expression.coefficients,
+      constant: expression.constant,
+    };
+  });
+
+  const modelConstraints: ModelConstraint[] = [];
+  for (const { id, node } of parsedConstraints) {
+    modelConstraints.push(...readComparison(node, index, id));
+  }
+
+  return {
+    model: {
+      variables,
+      sense: linearObjectives[0].sense,
+      objective: linearObjectives[0].coefficients,
+      objectiveConstant: linearObjectives[0].constant,
+      constraints: modelConstraints,
+    },
+    objectives: linearObjectives,
+  };
+}
+
+/**
+ * The direction an objective formula states, if it starts with one
+ * (`maximize 3x + 2y`, `min: cost`)
+ */
+export function objectiveSense(
+  formula: string,
+): "maximize" | "minimize" | undefined {
+  const match = /^\s*(max|min)(imi[sz]e)?\b/i.exec(formula);
+  if (!match) return undefined;
+  return match[1].toLowerCase() === "max" ? "maximize" : "minimize";
+}
+
+/**
+ * Value of a linear expression given as coefficients and a constant
+ */
+export function evaluateLinear(
+  coefficients: number[],
+  constant: number,
+  values: number[],
+): number {
+  return coefficients.reduce((sum, a, j) => sum + a * values[j], constant);
+}
+
+/**
+ * How far a point is from satisfying a constraint; 0 when it holds
+ */
+export function constraintViolation(
+  constraint: ModelConstraint,
+  values: number[],
+): number {
+  const lhs = evaluateLinear(constraint.coefficients, 0, values);
+  switch (constraint.relation) {
+    case "<=":
+      return Math.max(0, lhs - constraint.rhs);
+    case ">=":
+      return Math.max(0, constraint.rhs - lhs);
+    default:
+      return Math.abs(lhs - constraint.rhs);
+  }
+}
+
+function stripObjectivePrefix(formula: string): string {
+  return formula.replace(/^\s*(max|min)(imi[sz]e)?\b\s*:?/i, "");
+}
+
+function parseFormula(formula: string, where: string): ExpressionNode {
+  if (!formula || formula.trim().length === 0) {
+    throw new Error(`${where} has no formula`);
+  }
+  try {
+    return parseExpression(insertMultiplication(formula));
+  } catch (error) {
+    throw new Error(`${where} cannot be read: ${(error as Error).message}`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * `3x`, `2.5 y` and `4(x + y)` are products; `x2` and `1e3` are left alone
+ */
+function insertMultiplication(formula: string): string {
+  return formula.replace(
+    /(?<![A-Za-z0-9_.])((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*(?=[A-Za-z_(`])/g,
+    "$1*",
+  );
+}
+
+function readVariable(variable: DecisionVariable): ModelVariable {
+  const integerType = variable.type === "integer" || variable.type === "binary";
+  const name = variable.name || variable.id;
+
+  // Variables that came through the tool carry a list of values
+  const listed = variable.domain as DecisionVariable["domain"] | number[];
+  const domain = Array.isArray(listed) ? undefined : listed;
+  const values = Array.isArray(listed)
+    ? listed
+    : domain?.type === "discrete"
+      ? domain.values
+      : undefined;
+  if (values) {
+    const sorted = [...new Set(values)].sort((a, b) => a - b);
+    const consecutive =
+      sorted.length > 0 &&
+      sorted.every((v, k) => Number.isInteger(v) && v === sorted[0] + k);
+    if (!consecutive) {
+      throw new Error(
+        `Variable ${name} takes listed values that are not a range of integers, which a linear model cannot express`,
+      );
+    }
+    return {
+      id: variable.id,
+      name,
+      lower: sorted[0],
+      upper: sorted[sorted.length - 1],
+      integer: true,
+    };
+  }
+
+  switch (domain?.type) {
+    case "binary":
+      return { id: variable.id, name, lower: 0, upper: 1, integer: true };
+    case "categorical":
+      throw new Error(
+        `Variable ${name} is categorical, which a linear model cannot express`,
+      );
+    case "continuous":
+    case "integer":
+      return {
+        id: variable.id,
+        name,
+        lower: domain.lowerBound ?? 0,
+        upper: domain.upperBound ?? Infinity,
+        integer: integerType || domain.type === "integer",
+      };
+    default:
+      return {
+        id: variable.id,
+        name,
+        lower: 0,
+        upper: variable.type === "binary" ? 1 : Infinity,
+        integer: integerType,
+      };
+  }
+}
+
+function inferVariables(
+  objectives: ExpressionNode[],
+  constraints: ExpressionNode[],
+): ModelVariable[] {
+  const names = new Set<string>();
+  const visit = (node: ExpressionNode): void => {
+    switch (node.type) {
+      case "identifier":
+        names.add(node.name);
+        break;
+      case "unary":
+        visit(node.operand);
+        break;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "comparison":
+        // The name in "z = 3x + 2y" is not a variable
+        if (
+          objectives.includes(node) &&
+          node.operators.length === 1 &&
+          node.operands[0].type === "identifier"
+        ) {
+          visit(node.operands[1]);
+        } else {
+          node.operands.forEach(visit);
+        }
+        break;
+      case "call":
+        node.args.forEach(visit);
+        break;
+      case "list":
+        node.items.forEach(visit);
+        break;
+    }
+  };
+  objectives.forEach(visit);
+  constraints.forEach(visit);
+  return [...names].map((name) => ({
+    id: name,
+    name,
+    lower: 0,
+    upper: Infinity,
+    integer: false,
+  }));
+}
+
+/**
+ * A comparison as one constraint per operator, with the variables on the left
+ */
+function readComparison(
+  node: ExpressionNode,
+  index: Map<string, number>,
+  id: string,
+): ModelConstraint[] {
+  if (node.type !== "comparison") {
+    throw new Error(`Constraint ${id} is not a comparison`);
+  }
+  const operands = node.operands.map((operand) =>
+    linearize(operand, index, `Constraint ${id}`),
+  );
+  return node.operators.map((operator, k) => {
+    if (operator === "!=" || operator === "in") {
+      throw new Error(
+        `Constraint ${id} uses ${operator}, which a linear model cannot express`,
+      );
+    }
+    const relation =
+      operator === "==" ? "=" : operator.startsWith("<") ? "<=" : ">=";
+    let [left, right] = [operands[k], operands[k + 1]];
+    let rel: ModelConstraint["relation"] = relation;
+    if (left.coefficients.every((a) => a === 0)) {
+      [left, right] = [right, left];
+      rel = relation === "<=" ? ">=" : relation === ">=" ? "<=" : "=";
+    }
+    return {
+      id: k === 0 ? id : `${id}:${k + 1}`,
+      coefficients: left.coefficients.map((a, j) => a - right.coefficients[j]),
+      relation: rel,
+      rhs: right.constant - left.constant,
+    };
+  });
+}
+
+/**
+ * Read an arithmetic expression as a linear one
+ *
+ * @throws Error if the expression multiplies variables together, divides by
+ *   one, or uses anything but + - * / and sum()
+ */
+function linearize(
+  node: ExpressionNode,
+  index: Map<string, number>,
+  where: string,
+): LinearExpression {
+  const n = new Set(index.values()).size;
+  const constant = (value: number): LinearExpression => ({
+    coefficients: new Array<number>(n).fill(0),
+    constant: value,
+  });
+  const isConstant = (e: LinearExpression): boolean =>
+    e.coefficients.every((a) => a === 0);
+  const scale = (e: LinearExpression, factor: number): LinearExpression => ({
+    coefficients: e.coefficients.map((a) => a * factor),
+    constant: e.constant * factor,
+  });
+  const add = (a: LinearExpression, b: LinearExpression): LinearExpression => ({
+    coefficients: a.coefficients.map((x, j) => x + b.coefficients[j]),
+    constant: a.constant + b.constant,
+  });
+  const visit = (e: ExpressionNode): LinearExpression =>
+    linearize(e, index, where);
+
+  switch (node.type) {
+    case "literal":
+      if (typeof node.value !== "number") {
+        throw new Error(`${where} uses ${String(node.value)}, not a number`);
+      }
+      return constant(node.value);
+    case "identifier": {
+      const j = index.get(node.name);
+      if (j === undefined) {
+        throw new Error(`${where} uses ${node.name}, which is not a variable`);
+      }
+      const e = constant(0);
+      e.coefficients[j] = 1;
+      return e;
+    }
+    case "unary":
+      if (node.operator === "-") return scale(visit(node.operand), -1);
+      break;
+    case "binary": {
+      const left = visit(node.left);
+      const right = visit(node.right);
+      switch (node.operator) {
+        case "+":
+          return add(left, right);
+        case "-":
+          return add(left, scale(right, -1));
+        case "*":
+          if (isConstant(left)) return scale(right, left.constant);
+          if (isConstant(right)) return scale(left, right.constant);
+          throw new Error(`${where} multiplies variables, so it is not linear`);
+        case "/":
+          if (!isConstant(right)) {
+            throw new Error(
+              `${where} divides by a variable, so it is not linear`,
+            );
+          }
+          if (right.constant === 0) throw new Error(`${where} divides by 0`);
+          return scale(left, 1 / right.constant);
+      }
+      break;
+    }
+    case "call":
+      if (node.name === "sum") {
+        return node.args.map(visit).reduce(add, constant(0));
+      }
+      break;
+  }
+  throw new Error(`${where} is not a linear expression`);
+}
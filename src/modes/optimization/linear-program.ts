@@ -0,0 +1,215 @@
+/**
+ * Linear Programming by the Two-Phase Simplex Method
+ *
+ * A dense tableau implementation for the small programs the optimization
+ * and game solvers build. Phase 1 finds a feasible basis by minimizing the sum of artificial
+ * variables; phase 2 optimizes the real objective from there. Bland's rule
+ * picks the entering and leaving variables, so degenerate programs cannot
+ * cycle.
+ *
+ * Each constraint gets one identity column: its slack for "<=", its
+ * artificial for ">=" and "=". The objective row's entry in that column at
+ * the optimum is the constraint's dual value, which is how the shadow
+ * prices are read off; its entries in the variable columns are the reduced
+ * costs.
+ */
+
+import type { LinearProgram, LinearProgramResult } from "./types.js";
+
+const EPSILON = 1e-9;
+
+/**
+ * Solve a linear program
+ *
+ * @throws Error if a constraint's coefficients do not match the objective's length
+ */
+export function solveLinearProgram(lp: LinearProgram): LinearProgramResult {
+  const n = lp.objective.length;
+  const m = lp.constraints.length;
+  for (const constraint of lp.constraints) {
+    if (constraint.coefficients.length !== n) {
+      throw new Error(
+        `Constraint has ${constraint.coefficients.length} coefficients for ${n} variables`,
+      );
+    }
+  }
+
+  // Flip rows with a negative right-hand side, so the identity columns
+  // start as a feasible basis
+  const sign = lp.constraints.map((c) => (c.rhs < 0 ? -1 : 1));
+  const relation = lp.constraints.map((c, i) =>
+    sign[i] > 0 || c.relation === "=" ? c.relation : flip(c.relation),
+  );
+
+  // Columns: x⁺ (n), x⁻ for free variables, surplus for ">=", then one
+  // identity column per row (slack or artificial), then the right-hand side
+  const freeColumns: number[] = [];
+  lp.free?.forEach((isFree, j) => isFree && freeColumns.push(j));
+  const surplusRows = relation.flatMap((r, i) => (r === ">=" ? [i] : []));
+  const identityStart = n + freeColumns.length + surplusRows.length;
+  const width = identityStart + m + 1;
+  const rhs = width - 1;
+
+  const tableau = lp.constraints.map((constraint, i) => {
+    const row = new Array<number>(width).fill(0);
+    constraint.coefficients.forEach((a, j) => (row[j] = sign[i] * a));
+    freeColumns.forEach(
+      (j, k) => (row[n + k] = -sign[i] * constraint.coefficients[j]),
+    );
+    const surplus = surplusRows.indexOf(i);
+    if (surplus >= 0) row[n + freeColumns.length + surplus] = -1;
+    row[identityStart + i] = 1;
+    row[rhs] = sign[i] * constraint.rhs;
+    return row;
+  });
+
+  const isArtificial = (column: number): boolean =>
+    column >= identityStart && relation[column - identityStart] !== "<=";
+  const basis = Array.from({ length: m }, (_, i) => identityStart + i);
+
+  // Phase 1: maximize −Σ artificials
+  const phase1 = new Array<number>(width).fill(0);
+  for (let c = identityStart; c < rhs; c++) {
+    if (isArtificial(c)) phase1[c] = 1;
+  }
+  canonicalize(phase1, tableau, basis);
+  runSimplex(tableau, phase1, basis, () => true);
+  const scale = Math.max(1, ...lp.constraints.map((c) => Math.abs(c.rhs)));
+  if (phase1[rhs] < -EPSILON * scale) return noSolution(lp, "infeasible");
+
+  // Drive artificials at zero out of the basis; rows where that is
+  // impossible are redundant and stay as they are
+  basis.forEach((column, i) => {
+    if (!isArtificial(column)) return;
+    const entering = tableau[i].findIndex(
+      (a, c) => c < identityStart && Math.abs(a) > EPSILON,
+    );
+    if (entering >= 0) {
+      pivot(tableau, [], i, entering);
+      basis[i] = entering;
+    }
+  });
+
+  // Phase 2: the real objective, never letting an artificial back in
+  const objective = new Array<number>(width).fill(0);
+  lp.objective.forEach((c, j) => (objective[j] = -c));
+  freeColumns.forEach((j, k) => (objective[n + k] = lp.objective[j]));
+  canonicalize(objective, tableau, basis);
+  const bounded = runSimplex(
+    tableau,
+    objective,
+    basis,
+    (column) => !isArtificial(column),
+  );
+  if (!bounded) return noSolution(lp, "unbounded");
+
+  const values = new Array<number>(width).fill(0);
+  basis.forEach((column, i) => (values[column] = tableau[i][rhs]));
+  const x = lp.objective.map((_, j) => values[j]);
+  freeColumns.forEach((j, k) => (x[j] -= values[n + k]));
+
+  return {
+    status: "optimal",
+    x,
+    objective: objective[rhs],
+    shadowPrices: lp.constraints.map(
+      (_, i) => sign[i] * objective[identityStart + i],
+    ),
+    reducedCosts: lp.objective.map((_, j) =>
+      objective[j] === 0 ? 0 : -objective[j],
+    ),
+  };
+}
+
+/**
+ * Pivot until no column may enter
+ *
+ * @returns false if the objective is unbounded
+ */
+function runSimplex(
+  tableau: number[][],
+  objective: number[],
+  basis: number[],
+  mayEnter: (column: number) => boolean,
+): boolean {
+  const rhs = objective.length - 1;
+  for (;;) {
+    let entering = -1;
+    for (let c = 0; c < rhs; c++) {
+      if (objective[c] < -EPSILON && mayEnter(c)) {
+        entering = c;
+        break;
+      }
+    }
+    if (entering < 0) return true;
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < tableau.length; i++) {
+      const a = tableau[i][entering];
+      if (a <= EPSILON) continue;
+      const ratio = tableau[i][rhs] / a;
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])
+      ) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving < 0) return false;
+
+    pivot(tableau, [objective], leaving, entering);
+    basis[leaving] = entering;
+  }
+}
+
+/** Make the objective row zero in every basic column */
+function canonicalize(
+  objective: number[],
+  tableau: number[][],
+  basis: number[],
+): void {
+  basis.forEach((column, i) => {
+    const factor = objective[column];
+    if (factor === 0) return;
+    for (let c = 0; c < objective.length; c++) {
+      objective[c] -= factor * tableau[i][c];
+    }
+  });
+}
+
+function pivot(
+  tableau: number[][],
+  objectives: number[][],
+  row: number,
+  column: number,
+): void {
+  const pivotRow = tableau[row];
+  const p = pivotRow[column];
+  for (let c = 0; c < pivotRow.length; c++) pivotRow[c] /= p;
+
+  for (const r of [...tableau, ...objectives]) {
+    if (r === pivotRow) continue;
+    const factor = r[column];
+    if (factor === 0) continue;
+    for (let c = 0; c < r.length; c++) r[c] -= factor * pivotRow[c];
+  }
+}
+
+function flip(relation: "<=" | ">="): "<=" | ">=" {
+  return relation === "<=" ? ">=" : "<=";
+}
+
+function noSolution(
+  lp: LinearProgram,
+  status: "infeasible" | "unbounded",
+): LinearProgramResult {
+  return {
+    status,
+    x: lp.objective.map(() => 0),
+    objective: status === "unbounded" ? Infinity : NaN,
+    shadowPrices: lp.constraints.map(() => 0),
+    reducedCosts: lp.objective.map(() => 0),
+  };
+}
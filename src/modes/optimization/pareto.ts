@@ -0,0 +1,396 @@
+/**
+ * Pareto Frontiers of Multi-Objective Problems
+ *
+ * Two sweeps trace the frontier of a linear or mixed-integer model with
+ * several linear objectives, solving one model per step with
+ * solveLinearModel:
+ *
+ * - Weighted sum: optimize Σ w_k·f_k / r_k for weights on a grid over the
+ *   simplex, each objective scaled by its range r_k in the payoff table. It
+ *   finds the supported points, the vertices of the frontier's convex hull:
+ *   every vertex of a linear program's frontier, but not the integer points
+ *   that sit in dents of the hull.
+ * - ε-constraint (Haimes, Lasdon and Wismer, 1971): optimize the first
+ *   objective with every other one held to a level stepped across its range.
+ *   It reaches unsupported points too.
+ *
+ * The payoff table optimizes each objective alone. Its best values give the
+ * ideal point, and the worst value of each objective across its rows stands
+ * in for the nadir. Both sweeps can return weakly dominated points, so they
+ * end with the same dominance filter that screens a discrete candidate set.
+ *
+ * The knee of a two-objective frontier is the point farthest from the line
+ * through its two ends, on the side of the ideal point (Das, 1999). With more
+ * objectives it is the point nearest the ideal point. Distances are measured
+ * after scaling each objective to [0, 1].
+ */
+
+import { clean } from "../../utils/numeric.js";
+import { evaluateLinear } from "./linear-model.js";
+import { solveLinearModel } from "./solver.js";
+import type {
+  DominanceResult,
+  FrontierPoint,
+  LinearModel,
+  LinearObjective,
+  ParetoFrontier,
+  TradeoffStep,
+} from "./types.js";
+
+const EPSILON = 1e-9;
+
+export interface FrontierOptions {
+  /** Default "weighted_sum", or "epsilon_constraint" when any variable is integer */
+  method?: ParetoFrontier["method"];
+
+  /** Grid steps per objective (default 10) */
+  steps?: number;
+
+  /** Branch-and-bound node limit for each model solved */
+  nodeLimit?: number;
+}
+
+/**
+ * Trace the Pareto frontier of a model with several objectives
+ *
+ * The weighted-sum grid has C(steps + m − 1, m − 1) weight vectors for m
+ * objectives; the ε-constraint grid has (steps + 1)^(m − 1) levels.
+ *
+ * @throws Error if there are fewer than two objectives
+ */
+export function traceParetoFrontier(
+  model: LinearModel,
+  objectives: LinearObjective[],
+  options: FrontierOptions = {},
+): ParetoFrontier {
+  if (objectives.length < 2) {
+    throw new Error("A Pareto frontier needs at least two objectives");
+  }
+  const method =
+    options.method ??
+    (model.variables.some((v) => v.integer)
+      ? "epsilon_constraint"
+      : "weighted_sum");
+  const steps = Math.max(1, Math.floor(options.steps ?? 10));
+  const senses = objectives.map((o) => o.sense);
+  let solves = 0;
+
+  const solve = (
+    sense: LinearModel["sense"],
+    coefficients: number[],
+    extra: LinearModel["constraints"],
+  ) => {
+    solves++;
+    return solveLinearModel(
+      {
+        ...model,
+        sense,
+        objective: coefficients,
+        objectiveConstant: 0,
+        constraints: [...model.constraints, ...extra],
+      },
+      { nodeLimit: options.nodeLimit },
+    );
+  };
+
+  // Optimize one step, then hold that optimum and push every objective as
+  // far as it allows, so a weakly dominated optimum is not kept
+  let range = objectives.map(() => 1);
+  const solvePoint = (
+    sense: LinearModel["sense"],
+    coefficients: number[],
+    extra: LinearModel["constraints"] = [],
+  ) => {
+    const result = solve(sense, coefficients, extra);
+    if (!Number.isFinite(result.objectiveValue)) return { result };
+    const s = direction(sense);
+    const held = coefficients.map((a) => s * a);
+    const total = model.variables.map((_, j) =>
+      objectives.reduce(
+        (sum, o, k) =>
+          sum + (direction(o.sense) * o.coefficients[j]) / range[k],
+        0,
+      ),
+    );
+    const polished = solve("maximize", total, [
+      ...extra,
+      {
+        id: "hold",
+        coefficients: held,
+        relation: ">=",
+        rhs: evaluateLinear(held, 0, result.values),
+      },
+    ]);
+    const values = Number.isFinite(polished.objectiveValue)
+      ? polished.values
+      : result.values;
+    return {
+      result,
+      point: {
+        values,
+        objectives: objectives.map((o) =>
+          clean(evaluateLinear(o.coefficients, o.constant, values)),
+        ),
+      },
+    };
+  };
+
+  // Payoff table: each objective optimized on its own
+  const payoff: FrontierPoint[] = [];
+  for (const objective of objectives) {
+    const { result, point } = solvePoint(
+      objective.sense,
+      objective.coefficients,
+    );
+    if (result.status === "infeasible" || result.status === "unbounded") {
+      return {
+        status: result.status,
+        method,
+        points: [],
+        tradeoffs: [],
+        solves,
+      };
+    }
+    if (point) payoff.push(point);
+  }
+  const ideal = objectives.map((o, k) =>
+    best(
+      payoff.map((p) => p.objectives[k]),
+      o.sense,
+    ),
+  );
+  const nadir = objectives.map((o, k) =>
+    worst(
+      payoff.map((p) => p.objectives[k]),
+      o.sense,
+    ),
+  );
+  range = ideal.map((v, k) => Math.abs(v - nadir[k]) || 1);
+
+  const candidates: FrontierPoint[] = [...payoff];
+  if (method === "weighted_sum") {
+    for (const weights of simplexGrid(objectives.length, steps)) {
+      // Maximize the weighted, range-scaled sum of objectives in their own direction
+      const coefficients = model.variables.map((_, j) =>
+        objectives.reduce(
+          (sum, o, k) =>
+            sum +
+            (weights[k] * direction(o.sense) * o.coefficients[j]) / range[k],
+          0,
+        ),
+      );
+      const { point } = solvePoint("maximize", coefficients);
+      if (point) candidates.push(point);
+    }
+  } else {
+    const [primary, ...others] = objectives;
+    for (const levels of levelGrid(others.length, steps)) {
+      // Hold each other objective at least as good as its level
+      const bounds = others.map((o, i) => {
+        const k = i + 1;
+        const level = nadir[k] + levels[i] * (ideal[k] - nadir[k]);
+        const s = direction(o.sense);
+        return {
+          id: `epsilon:${k}`,
+          coefficients: o.coefficients.map((a) => s * a),
+          relation: ">=" as const,
+          rhs: s * (level - o.constant),
+        };
+      });
+      const { point } = solvePoint(primary.sense, primary.coefficients, bounds);
+      if (point) candidates.push(point);
+    }
+  }
+
+  const unique = dedupe(candidates);
+  const dominance = checkDominance(
+    unique.map((p) => p.objectives),
+    senses,
+  );
+  const points = unique
+    .filter((_, i) => !dominance[i].dominated)
+    .sort((a, b) => a.objectives[0] - b.objectives[0]);
+  const vectors = points.map((p) => p.objectives);
+
+  return {
+    status: "found",
+    method,
+    points,
+    knee: findKnee(vectors, senses),
+    tradeoffs: tradeoffSteps(vectors),
+    solves,
+  };
+}
+
+/**
+ * Whether `a` is at least as good as `b` in every objective and better in one
+ */
+export function dominates(
+  a: number[],
+  b: number[],
+  senses: LinearObjective["sense"][],
+): boolean {
+  let better = false;
+  for (let k = 0; k < senses.length; k++) {
+    const gain = direction(senses[k]) * (a[k] - b[k]);
+    const tolerance = EPSILON * Math.max(scale(a[k]), scale(b[k]));
+    if (gain < -tolerance) return false;
+    if (gain > tolerance) better = true;
+  }
+  return better;
+}
+
+/**
+ * Which candidates some other candidate dominates, and whom each dominates
+ */
+export function checkDominance(
+  vectors: number[][],
+  senses: LinearObjective["sense"][],
+): DominanceResult[] {
+  const results: DominanceResult[] = vectors.map(() => ({
+    dominated: false,
+    dominates: [],
+  }));
+  vectors.forEach((a, i) =>
+    vectors.forEach((b, j) => {
+      if (i !== j && dominates(a, b, senses)) {
+        results[i].dominates.push(j);
+        results[j].dominated = true;
+      }
+    }),
+  );
+  return results;
+}
+
+/**
+ * Index of the knee among non-dominated points; undefined with fewer than
+ * three points or when a two-objective frontier is straight
+ */
+export function findKnee(
+  vectors: number[][],
+  senses: LinearObjective["sense"][],
+): number | undefined {
+  if (vectors.length < 3) return undefined;
+
+  // Scale each objective to [0, 1], 1 being best
+  const normalized = vectors.map((v) =>
+    v.map((value, k) => {
+      const column = vectors.map((u) => u[k]);
+      const lo = best(
+        column,
+        senses[k] === "maximize" ? "minimize" : "maximize",
+      );
+      const hi = best(column, senses[k]);
+      return hi === lo ? 1 : (value - lo) / (hi - lo);
+    }),
+  );
+
+  if (senses.length === 2) {
+    // Ends of the frontier: the best point for each objective
+    const a = normalized.reduce(
+      (i, u, j) => (u[0] > normalized[i][0] ? j : i),
+      0,
+    );
+    const b = normalized.reduce(
+      (i, u, j) => (u[1] > normalized[i][1] ? j : i),
+      0,
+    );
+    const [ax, ay] = normalized[a];
+    const [bx, by] = normalized[b];
+    const length = Math.hypot(bx - ax, by - ay);
+    if (length === 0) return undefined;
+    let knee: number | undefined;
+    let farthest = EPSILON;
+    normalized.forEach(([x, y], i) => {
+      // Signed so that the ideal corner (1, 1) is on the positive side
+      const side = Math.sign((bx - ax) * (1 - ay) - (by - ay) * (1 - ax)) || 1;
+      const distance =
+        (side * ((bx - ax) * (y - ay) - (by - ay) * (x - ax))) / length;
+      if (distance > farthest) {
+        farthest = distance;
+        knee = i;
+      }
+    });
+    return knee;
+  }
+
+  let knee = 0;
+  let nearest = Infinity;
+  normalized.forEach((u, i) => {
+    const distance = Math.hypot(...u.map((x) => 1 - x));
+    if (distance < nearest) {
+      nearest = distance;
+      knee = i;
+    }
+  });
+  return knee;
+}
+
+/**
+ * Rates of change of every objective per unit of the first, between
+ * neighbouring points sorted by the first objective; pairs that tie on it
+ * are skipped
+ */
+export function tradeoffSteps(vectors: number[][]): TradeoffStep[] {
+  const steps: TradeoffStep[] = [];
+  for (let i = 0; i + 1 < vectors.length; i++) {
+    const delta = vectors[i + 1][0] - vectors[i][0];
+    if (Math.abs(delta) <= EPSILON * scale(vectors[i][0])) continue;
+    steps.push({
+      from: i,
+      to: i + 1,
+      rates: vectors[i].map((v, k) => clean((vectors[i + 1][k] - v) / delta)),
+    });
+  }
+  return steps;
+}
+
+/** Weight vectors with entries in multiples of 1/steps that sum to 1 */
+function simplexGrid(m: number, steps: number): number[][] {
+  if (m === 1) return [[1]];
+  const grid: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    for (const rest of simplexGrid(m - 1, steps - i)) {
+      grid.push([i / steps, ...rest.map((w) => (w * (steps - i)) / steps)]);
+    }
+  }
+  return steps === 0 ? [new Array<number>(m).fill(1 / m)] : grid;
+}
+
+/** Every combination of m levels in 0, 1/steps, ..., 1 */
+function levelGrid(m: number, steps: number): number[][] {
+  let grid: number[][] = [[]];
+  for (let k = 0; k < m; k++) {
+    grid = grid.flatMap((levels) =>
+      Array.from({ length: steps + 1 }, (_, i) => [...levels, i / steps]),
+    );
+  }
+  return grid;
+}
+
+/** Drop points whose objectives repeat an earlier point's */
+function dedupe(points: FrontierPoint[]): FrontierPoint[] {
+  const seen = new Set<string>();
+  return points.filter((p) => {
+    const key = p.objectives.map((v) => clean(v)).join(",");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function direction(sense: LinearObjective["sense"]): number {
+  return sense === "maximize" ? 1 : -1;
+}
+
+function best(values: number[], sense: LinearObjective["sense"]): number {
+  return sense === "maximize" ? Math.max(...values) : Math.min(...values);
+}
+
+function worst(values: number[], sense: LinearObjective["sense"]): number {
+  return sense === "maximize" ? Math.min(...values) : Math.max(...values);
+}
+
+function scale(value: number): number {
+  return Math.max(1, Math.abs(value));
+}
@@ -0,0 +1,248 @@
+/**
+ * Linear and Mixed-Integer Model Solver
+ *
+ * A model with only continuous variables is one linear program. One with
+ * integer variables is solved by branch-and-bound (Land and Doig, 1960):
+ * solve the relaxation, and if an integer variable comes out fractional,
+ * split on it (x ≤ ⌊v⌋ or x ≥ ⌈v⌉) and solve both halves, depth first. A
+ * half whose relaxation cannot beat the best integer solution so far is
+ * dropped.
+ *
+ * Bounds other than x ≥ 0 are added as constraints. Their shadow prices are
+ * folded into the reduced costs of the variables they bound, so shadow
+ * prices are reported for the model's own constraints only.
+ */
+
+import { clean } from "../../utils/numeric.js";
+import { solveLinearProgram } from "./linear-program.js";
+import { evaluateLinear } from "./linear-model.js";
+import type {
+  LinearConstraint,
+  LinearModel,
+  LinearProgramResult,
+  ModelSolution,
+} from "./types.js";
+
+const EPSILON = 1e-9;
+
+/** Distance from an integer that still counts as one */
+const INTEGRALITY_TOLERANCE = 1e-6;
+
+export interface SolveOptions {
+  /** Most linear programs branch-and-bound may solve (default 10 000) */
+  nodeLimit?: number;
+}
+
+/**
+ * Solve a linear model to optimality
+ */
+export function solveLinearModel(
+  model: LinearModel,
+  options: SolveOptions = {},
+): ModelSolution {
+  const { nodeLimit = 10_000 } = options;
+  const integers = model.variables.flatMap((v, j) => (v.integer ? [j] : []));
+  if (integers.length === 0) return solveRelaxation(model);
+
+  let best: { values: number[]; objective: number } | undefined;
+  let nodes = 0;
+  let unbounded = false;
+  const stack: { lower: number[]; upper: number[] }[] = [
+    {
+      lower: model.variables.map((v) => v.lower),
+      upper: model.variables.map((v) => v.upper),
+    },
+  ];
+
+  while (stack.length > 0) {
+    if (nodes >= nodeLimit) break;
+    const bounds = stack.pop()!;
+    nodes++;
+    const { result } = solveWithBounds(model, bounds);
+    if (result.status === "infeasible") continue;
+    if (result.status === "unbounded") {
+      unbounded = true;
+      break;
+    }
+    const value = result.objective;
+    if (best && value <= best.objective + EPSILON * scale(value)) continue;
+
+    const j = mostFractional(result.x, integers);
+    if (j === undefined) {
+      best = { values: result.x.map((v) => clean(v)), objective: value };
+      continue;
+    }
+    const v = result.x[j];
+    const down = { lower: [...bounds.lower], upper: [...bounds.upper] };
+    const up = { lower: [...bounds.lower], upper: [...bounds.upper] };
+    down.upper[j] = Math.floor(v);
+    up.lower[j] = Math.ceil(v);
+    // Explore the nearer side first
+    if (v - Math.floor(v) < 0.5) stack.push(up, down);
+    else stack.push(down, up);
+  }
+
+  const stoppedEarly = stack.length > 0 && !unbounded;
+  // Best objective left unexplored, in the maximized sense of `objective`
+  const remaining = stoppedEarly
+    ? Math.max(
+        best?.objective ?? -Infinity,
+        ...stack.map((b) => relaxationValue(solveWithBounds(model, b).result)),
+      )
+    : undefined;
+  if (unbounded) return emptySolution(model, "unbounded", nodes);
+  if (!best) {
+    return emptySolution(
+      model,
+      stoppedEarly ? "node_limit" : "infeasible",
+      nodes,
+    );
+  }
+
+  const values = best.values.map((x, j) =>
+    model.variables[j].integer ? Math.round(x) : x,
+  );
+  return {
+    status: stoppedEarly ? "node_limit" : "optimal",
+    method: "branch_and_bound",
+    values,
+    objectiveValue: clean(
+      evaluateLinear(model.objective, model.objectiveConstant, values),
+    ),
+    binding: bindingConstraints(model, values),
+    nodesExplored: nodes,
+    ...(remaining !== undefined && {
+      bound: clean(
+        (model.sense === "maximize" ? remaining : -remaining) +
+          model.objectiveConstant,
+      ),
+    }),
+  };
+}
+
+/**
+ * The linear program of a model with no integer variables, with its
+ * sensitivity analysis
+ */
+function solveRelaxation(model: LinearModel): ModelSolution {
+  const bounds = {
+    lower: model.variables.map((v) => v.lower),
+    upper: model.variables.map((v) => v.upper),
+  };
+  const { result, boundOf } = solveWithBounds(model, bounds);
+  if (result.status !== "optimal") {
+    return emptySolution(model, result.status);
+  }
+  const reducedCosts = [...result.reducedCosts];
+  boundOf.forEach(
+    (j, k) =>
+      (reducedCosts[j] += result.shadowPrices[model.constraints.length + k]),
+  );
+
+  // The program maximizes; a minimization was negated to fit
+  const sign = model.sense === "maximize" ? 1 : -1;
+  const values = result.x.map((v) => clean(v));
+  return {
+    status: "optimal",
+    method: "simplex",
+    values,
+    objectiveValue: clean(
+      evaluateLinear(model.objective, model.objectiveConstant, values),
+    ),
+    shadowPrices: model.constraints.map((_, i) =>
+      clean(sign * result.shadowPrices[i]),
+    ),
+    reducedCosts: reducedCosts.map((r) => clean(sign * r)),
+    binding: bindingConstraints(model, values),
+  };
+}
+
+/**
+ * Solve the model's relaxation within the given variable bounds
+ *
+ * The first `model.constraints.length` rows are the model's constraints; the
+ * bound rows follow, and `boundOf` gives the variable each one bounds.
+ */
+function solveWithBounds(
+  model: LinearModel,
+  bounds: { lower: number[]; upper: number[] },
+): { result: LinearProgramResult; boundOf: number[] } {
+  const n = model.variables.length;
+  const unit = (j: number): number[] =>
+    Array.from({ length: n }, (_, k) => (k === j ? 1 : 0));
+
+  const constraints: LinearConstraint[] = model.constraints.map((c) => ({
+    coefficients: c.coefficients,
+    relation: c.relation,
+    rhs: c.rhs,
+  }));
+  const free: boolean[] = [];
+  const boundOf: number[] = [];
+  for (let j = 0; j < n; j++) {
+    const lower = bounds.lower[j];
+    const upper = bounds.upper[j];
+    free.push(lower !== 0);
+    if (lower !== 0 && Number.isFinite(lower)) {
+      constraints.push({ coefficients: unit(j), relation: ">=", rhs: lower });
+      boundOf.push(j);
+    }
+    if (Number.isFinite(upper)) {
+      constraints.push({ coefficients: unit(j), relation: "<=", rhs: upper });
+      boundOf.push(j);
+    }
+  }
+
+  const sign = model.sense === "maximize" ? 1 : -1;
+  const result = solveLinearProgram({
+    objective: model.objective.map((c) => sign * c),
+    constraints,
+    free,
+  });
+  return { result, boundOf };
+}
+
+/** Objective of a relaxation, in the maximized sense; -Infinity if infeasible */
+function relaxationValue(result: LinearProgramResult): number {
+  if (result.status === "infeasible") return -Infinity;
+  if (result.status === "unbounded") return Infinity;
+  return result.objective;
+}
+
+function mostFractional(x: number[], integers: number[]): number | undefined {
+  let best: number | undefined;
+  let bestDistance = INTEGRALITY_TOLERANCE;
+  for (const j of integers) {
+    const distance = Math.abs(x[j] - Math.round(x[j]));
+    if (distance > bestDistance) {
+      best = j;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function bindingConstraints(model: LinearModel, values: number[]): number[] {
+  return model.constraints.flatMap((c, i) => {
+    const lhs = evaluateLinear(c.coefficients, 0, values);
+    return Math.abs(lhs - c.rhs) <= 1e-7 * scale(c.rhs) ? [i] : [];
+  });
+}
+
+function emptySolution(
+  model: LinearModel,
+  status: "infeasible" | "unbounded" | "node_limit",
+  nodesExplored?: number,
+): ModelSolution {
+  return {
+    status,
+    method: nodesExplored === undefined ? "simplex" : "branch_and_bound",
+    values: model.variables.map(() => 0),
+    objectiveValue: NaN,
+    binding: [],
+    ...(nodesExplored !== undefined && { nodesExplored }),
+  };
+}
+
+function scale(value: number): number {
+  return Math.max(1, Math.abs(value));
+}
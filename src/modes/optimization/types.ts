@@ -0,0 +1,209 @@
+/**
+ * Solver Types for Optimization Reasoning
+ *
+ * These types back the solvers in src/modes/optimization/. They work over the
+ * DecisionVariable / Constraint / Objective types in
+ * src/types/modes/optimization.ts: the formulas are read into a LinearModel
+ * once, then solved as a linear program, or by branch-and-bound when some
+ * variables must be integers.
+ */
+
+// ============================================================================
+// LINEAR PROGRAMMING
+// ============================================================================
+
+/**
+ * A linear program: maximize `objective`·x subject to `constraints`
+ *
+ * Variables are non-negative unless marked `free`.
+ */
+export interface LinearProgram {
+  objective: number[];
+  constraints: LinearConstraint[];
+  free?: boolean[];
+}
+
+export interface LinearConstraint {
+  coefficients: number[];
+  relation: "<=" | ">=" | "=";
+  rhs: number;
+}
+
+export interface LinearProgramResult {
+  status: "optimal" | "infeasible" | "unbounded";
+
+  /** Optimal x; all zeros unless `status` is "optimal" */
+  x: number[];
+
+  /** Optimal objective value */
+  objective: number;
+
+  /**
+   * Rate of change of the optimal objective per unit increase in each
+   * constraint's right-hand side
+   */
+  shadowPrices: number[];
+
+  /**
+   * Rate of change of the optimal objective per unit of each variable forced
+   * into the solution: 0 for basic variables, at most 0 for the rest
+   */
+  reducedCosts: number[];
+}
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * A decision variable with its bounds
+ */
+export interface ModelVariable {
+  /** Id of the DecisionVariable, or the name used in the formulas */
+  id: string;
+  name: string;
+
+  /** -Infinity when unbounded below */
+  lower: number;
+
+  /** Infinity when unbounded above */
+  upper: number;
+
+  integer: boolean;
+}
+
+/**
+ * A linear constraint over the model's variables
+ */
+export interface ModelConstraint {
+  /** Id of the Constraint it was read from; a chained comparison gives several */
+  id: string;
+  coefficients: number[];
+  relation: "<=" | ">=" | "=";
+  rhs: number;
+}
+
+/**
+ * A linear objective: Σ coefficients[j]·x_j + constant, in a direction
+ */
+export interface LinearObjective {
+  sense: "maximize" | "minimize";
+  coefficients: number[];
+  constant: number;
+}
+
+/**
+ * An optimization problem with a linear objective and linear constraints
+ */
+export interface LinearModel {
+  variables: ModelVariable[];
+  sense: "maximize" | "minimize";
+
+  /** Objective coefficient of each variable */
+  objective: number[];
+
+  /** Constant term of the objective */
+  objectiveConstant: number;
+
+  constraints: ModelConstraint[];
+}
+
+// ============================================================================
+// SOLUTIONS
+// ============================================================================
+
+/**
+ * Optimum of a linear model
+ *
+ * Shadow prices and reduced costs are in the model's own sense: the change
+ * in the objective being maximized or minimized.
+ */
+export interface ModelSolution {
+  /**
+   * "node_limit" when branch-and-bound stopped early; `values` then holds
+   * the best integer solution found, if any
+   */
+  status: "optimal" | "infeasible" | "unbounded" | "node_limit";
+  method: "simplex" | "branch_and_bound";
+
+  /** Value of each variable, in model order */
+  values: number[];
+
+  objectiveValue: number;
+
+  /** Per model constraint; linear programs only */
+  shadowPrices?: number[];
+
+  /** Per variable; linear programs only */
+  reducedCosts?: number[];
+
+  /** Indices of the constraints that hold with equality */
+  binding: number[];
+
+  /** Linear programs solved by branch-and-bound */
+  nodesExplored?: number;
+
+  /** Best objective any integer solution could reach, when stopped early */
+  bound?: number;
+}
+
+// ============================================================================
+// PARETO FRONTIERS
+// ============================================================================
+
+/**
+ * A point of a multi-objective problem
+ */
+export interface FrontierPoint {
+  /** Value of each variable, in model order */
+  values: number[];
+
+  /** Value of each objective, in objective order */
+  objectives: number[];
+}
+
+/**
+ * Change in each objective per unit of the first, between neighbouring
+ * frontier points
+ */
+export interface TradeoffStep {
+  /** Indices of the two points, in frontier order */
+  from: number;
+  to: number;
+
+  /** One rate per objective; the first is always 1 */
+  rates: number[];
+}
+
+/**
+ * Non-dominated points of a multi-objective linear model
+ */
+export interface ParetoFrontier {
+  /**
+   * "infeasible" or "unbounded" when some objective cannot be optimized on
+   * its own; `points` is then empty
+   */
+  status: "found" | "infeasible" | "unbounded";
+  method: "weighted_sum" | "epsilon_constraint";
+
+  /** Sorted by the first objective, ascending */
+  points: FrontierPoint[];
+
+  /** Index in `points` of the knee, if the frontier bends */
+  knee?: number;
+
+  tradeoffs: TradeoffStep[];
+
+  /** Models solved, the payoff table included */
+  solves: number;
+}
+
+/**
+ * Where a candidate stands in a dominance check
+ */
+export interface DominanceResult {
+  dominated: boolean;
+
+  /** Indices of the candidates this one dominates */
+  dominates: number[];
+}
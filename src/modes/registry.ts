@@ -258,11 +258,19 @@ export class ModeHandlerRegistry {
 
   /**
    * Get supported thought types for a mode
+   *
+   * Prefers the handler's own list and falls back to the defaults below for
+   * handlers that do not declare one.
    */
   private getSupportedThoughtTypes(
-    _handler: ModeHandler,
+    handler: ModeHandler,
     mode: ThinkingMode,
   ): string[] {
+    const declared = handler.getSupportedThoughtTypes?.();
+    if (declared && declared.length > 0) {
+      return declared;
+    }
+
     // Default thought types by mode category
     const thoughtTypes: Record<string, string[]> = {
       mathematics: [
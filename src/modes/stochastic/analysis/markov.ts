@@ -0,0 +1,448 @@
+/**
+ * Markov Chain Analysis
+ *
+ * Reads the transitions of a finite Markov chain into a transition matrix,
+ * checks that it is stochastic, and works out the chain's long-run
+ * behaviour: its communicating classes, the kind and period of each state,
+ * the stationary distribution, where and how soon the transient states are
+ * absorbed, hitting times of any set of states, and the mixing time.
+ *
+ * - A state without outgoing transitions is absorbing: the chain stays put.
+ * - Other rows are scaled to sum to 1 before analysis; `checkStochastic`
+ *   reports the rows that needed it.
+ * - A class is recurrent when it is closed, which in a finite chain is the
+ *   same thing. The chain is aperiodic when every recurrent class is.
+ *
+ * Linear systems are solved by the elimination in src/utils/numeric.ts,
+ * and powers of the matrix by repeated squaring, so mixing times in the
+ * millions of steps cost a few dozen matrix products.
+ */
+
+import type { StateTransition } from "../../../types/modes/stochastic.js";
+import { solveLinearSystems } from "../../../utils/numeric.js";
+import type {
+  HittingTimes,
+  MarkovAnalysis,
+  StateClass,
+  StateKind,
+  StochasticityDefect,
+} from "../types.js";
+
+/** Probabilities closer than this are equal */
+const EPSILON = 1e-12;
+
+/** Distance to stationarity the mixing time is measured at */
+const MIXING_EPSILON = 0.25;
+
+/** Mixing times beyond this many steps are not looked for */
+const MAX_MIXING_STEPS = 2 ** 20;
+
+/** Chains with more states than this get no mixing time */
+export const MIXING_STATE_LIMIT = 100;
+
+/**
+ * Read transitions into a transition matrix over the states, in their
+ * order. Transitions between the same states are added together, and those
+ * naming a state not in the list are left out.
+ */
+export function readTransitionMatrix(
+  states: string[],
+  transitions: Pick<StateTransition, "from" | "to" | "probability">[],
+): number[][] {
+  const index = new Map(states.map((s, i) => [s, i]));
+  const matrix = states.map(() => new Array<number>(states.length).fill(0));
+  for (const { from, to, probability } of transitions) {
+    const i = index.get(from);
+    const j = index.get(to);
+    if (i !== undefined && j !== undefined) matrix[i][j] += probability;
+  }
+  return matrix;
+}
+
+/**
+ * The rows of a transition matrix that have transitions but do not sum to
+ * 1, within a tolerance
+ */
+export function checkStochastic(
+  states: string[],
+  matrix: number[][],
+  tolerance = 0.01,
+): StochasticityDefect[] {
+  const defects: StochasticityDefect[] = [];
+  matrix.forEach((row, i) => {
+    const sum = row.reduce((a, b) => a + b, 0);
+    const empty = row.every((p) => p === 0);
+    if (!empty && Math.abs(sum - 1) > tolerance) {
+      defects.push({ state: states[i], sum });
+    }
+  });
+  return defects;
+}
+
+/**
+ * Make a matrix row-stochastic: negative entries become 0, each row is
+ * scaled to sum to 1, and an empty row stays where it is
+ */
+function stochastic(matrix: number[][]): number[][] {
+  return matrix.map((row, i) => {
+    const clean = row.map((p) => Math.max(0, p));
+    const sum = clean.reduce((a, b) => a + b, 0);
+    if (sum <= EPSILON) return clean.map((_, j) => (i === j ? 1 : 0));
+    return clean.map((p) => p / sum);
+  });
+}
+
+// ============================================================================
+// CLASSES
+// ============================================================================
+
+/**
+ * Communicating classes, by Tarjan's algorithm over the transitions with
+ * positive probability, in order of their first state
+ */
+function communicatingClasses(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const order = new Array<number>(n).fill(-1);
+  const low = new Array<number>(n).fill(0);
+  const onStack = new Array<boolean>(n).fill(false);
+  const stack: number[] = [];
+  const classes: number[][] = [];
+  let counter = 0;
+
+  const visit = (u: number): void => {
+    order[u] = low[u] = counter++;
+    stack.push(u);
+    onStack[u] = true;
+    for (let v = 0; v < n; v++) {
+      if (matrix[u][v] <= EPSILON) continue;
+      if (order[v] < 0) {
+        visit(v);
+        low[u] = Math.min(low[u], low[v]);
+      } else if (onStack[v]) {
+        low[u] = Math.min(low[u], order[v]);
+      }
+    }
+    if (low[u] === order[u]) {
+      const members: number[] = [];
+      let v: number;
+      do {
+        v = stack.pop()!;
+        onStack[v] = false;
+        members.push(v);
+      } while (v !== u);
+      classes.push(members.sort((a, b) => a - b));
+    }
+  };
+
+  for (let u = 0; u < n; u++) if (order[u] < 0) visit(u);
+  return classes.sort((a, b) => a[0] - b[0]);
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) [a, b] = [b, a % b];
+  return Math.abs(a);
+}
+
+function lcm(a: number, b: number): number {
+  return a === 0 || b === 0 ? Math.max(a, b) : (a / gcd(a, b)) * b;
+}
+
+/**
+ * Period of a class: the gcd, over its internal transitions u → v, of
+ * level(u) + 1 − level(v), with levels from a breadth-first search
+ */
+function classPeriod(matrix: number[][], members: number[]): number {
+  const inClass = new Set(members);
+  const level = new Map([[members[0], 0]]);
+  const queue = [members[0]];
+  let period = 0;
+  while (queue.length > 0) {
+    const u = queue.shift()!;
+    for (const v of members) {
+      if (matrix[u][v] <= EPSILON || !inClass.has(v)) continue;
+      if (!level.has(v)) {
+        level.set(v, level.get(u)! + 1);
+        queue.push(v);
+      } else {
+        period = gcd(period, level.get(u)! + 1 - level.get(v)!);
+      }
+    }
+  }
+  return period;
+}
+
+function isClosed(matrix: number[][], members: number[]): boolean {
+  const inClass = new Set(members);
+  return members.every((u) =>
+    matrix[u].every((p, v) => p <= EPSILON || inClass.has(v)),
+  );
+}
+
+// ============================================================================
+// LINEAR ALGEBRA
+// ============================================================================
+
+/**
+ * Solve A·X = B for X, where B has one column per right-hand side
+ *
+ * @throws Error when A is singular
+ */
+function solve(a: number[][], b: number[][]): number[][] {
+  const x = solveLinearSystems(a, b);
+  if (!x) throw new Error("The linear system is singular");
+  return x;
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  const n = a.length;
+  const result = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < n; j++) result[i][j] += aik * b[k][j];
+    }
+  }
+  return result;
+}
+
+/**
+ * Stationary distribution of an irreducible chain: π·P = π with Σπ = 1,
+ * solved with the last balance equation replaced by the normalisation
+ */
+function stationaryOf(matrix: number[][]): number[] {
+  const n = matrix.length;
+  const a = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) =>
+      i === n - 1 ? 1 : matrix[j][i] - (i === j ? 1 : 0),
+    ),
+  );
+  const b = Array.from({ length: n }, (_, i) => [i === n - 1 ? 1 : 0]);
+  return solve(a, b).map(([x]) => Math.max(0, x));
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyse a finite Markov chain
+ *
+ * @param states - State names, in the order of the matrix
+ * @param transitions - Transition matrix; rows are scaled to sum to 1, and
+ * an empty row makes its state absorbing
+ */
+export function analyzeMarkovChain(
+  states: string[],
+  transitions: number[][],
+): MarkovAnalysis {
+  const matrix = stochastic(transitions);
+  const n = states.length;
+  const label = (members: number[]) => members.map((i) => states[i]);
+
+  const classes: StateClass[] = [];
+  const kinds: Record<string, StateKind> = {};
+  const periods: Record<string, number> = {};
+  const recurrent: number[][] = [];
+
+  for (const members of communicatingClasses(matrix)) {
+    const closed = isClosed(matrix, members);
+    const period = classPeriod(matrix, members);
+    const stateClass: StateClass = {
+      states: label(members),
+      recurrent: closed,
+      period,
+    };
+    if (closed) {
+      recurrent.push(members);
+      const sub = members.map((i) => members.map((j) => matrix[i][j]));
+      const pi = stationaryOf(sub);
+      stateClass.stationary = Object.fromEntries(
+        members.map((i, k) => [states[i], pi[k]]),
+      );
+    }
+    classes.push(stateClass);
+    for (const i of members) {
+      kinds[states[i]] = !closed
+        ? "transient"
+        : members.length === 1
+          ? "absorbing"
+          : "recurrent";
+      periods[states[i]] = period;
+    }
+  }
+
+  const isIrreducible = classes.length === 1;
+  const isAperiodic = classes.every((c) => !c.recurrent || c.period === 1);
+  const analysis: MarkovAnalysis = {
+    states,
+    matrix,
+    classes,
+    kinds,
+    periods,
+    isIrreducible,
+    isAperiodic,
+    isErgodic: isIrreducible && isAperiodic,
+    period: classes
+      .filter((c) => c.recurrent)
+      .reduce((acc, c) => lcm(acc, c.period), 1),
+  };
+
+  if (recurrent.length === 1) {
+    const only = classes.find((c) => c.recurrent)!;
+    analysis.stationaryDistribution = Object.fromEntries(
+      states.map((s) => [s, only.stationary![s] ?? 0]),
+    );
+  }
+
+  const transient = [...Array(n).keys()].filter(
+    (i) => kinds[states[i]] === "transient",
+  );
+  if (transient.length > 0) {
+    // Fundamental matrix N = (I − Q)⁻¹: B = N·R and t = N·1
+    const iq = transient.map((i) =>
+      transient.map((j) => (i === j ? 1 : 0) - matrix[i][j]),
+    );
+    const rhs = transient.map((i) => [
+      ...recurrent.map((members) =>
+        members.reduce((acc, j) => acc + matrix[i][j], 0),
+      ),
+      1,
+    ]);
+    const solution = solve(iq, rhs);
+    analysis.absorptionProbabilities = {};
+    analysis.expectedStepsToAbsorption = {};
+    transient.forEach((i, k) => {
+      analysis.absorptionProbabilities![states[i]] = Object.fromEntries(
+        recurrent.map((members, r) => [
+          label(members).join(", "),
+          solution[k][r],
+        ]),
+      );
+      analysis.expectedStepsToAbsorption![states[i]] =
+        solution[k][recurrent.length];
+    });
+  }
+
+  if (analysis.isErgodic && n <= MIXING_STATE_LIMIT) {
+    analysis.mixingTime = mixingTime(
+      matrix,
+      states.map((s) => analysis.stationaryDistribution![s]),
+    );
+  }
+  return analysis;
+}
+
+/**
+ * The largest total variation distance between a row of a matrix power and
+ * the stationary distribution
+ */
+function distance(power: number[][], pi: number[]): number {
+  let worst = 0;
+  for (const row of power) {
+    let tv = 0;
+    for (let j = 0; j < pi.length; j++) tv += Math.abs(row[j] - pi[j]);
+    worst = Math.max(worst, tv / 2);
+  }
+  return worst;
+}
+
+/**
+ * The least t with every row of Pᵗ within 1/4 of π. The distance never
+ * grows with t, so squaring finds a power of two past it and a binary
+ * search over the squares finds t. Undefined past `MAX_MIXING_STEPS`.
+ */
+function mixingTime(matrix: number[][], pi: number[]): number | undefined {
+  const squares = [matrix];
+  if (distance(matrix, pi) <= MIXING_EPSILON) return 1;
+  while (distance(squares[squares.length - 1], pi) > MIXING_EPSILON) {
+    if (2 ** squares.length > MAX_MIXING_STEPS) return undefined;
+    const last = squares[squares.length - 1];
+    squares.push(multiply(last, last));
+  }
+
+  // P^(2^(k−1)) is still too far and P^(2^k) is not
+  const k = squares.length - 1;
+  let t = 2 ** (k - 1);
+  let power = squares[k - 1];
+  for (let j = k - 2; j >= 0; j--) {
+    const next = multiply(power, squares[j]);
+    if (distance(next, pi) > MIXING_EPSILON) {
+      power = next;
+      t += 2 ** j;
+    }
+  }
+  return t + 1;
+}
+
+/**
+ * Probability of ever hitting a set of target states, and the expected steps
+ * to do so from the states that hit it surely
+ *
+ * @throws Error when no target is a state of the chain
+ */
+export function hittingTimes(
+  analysis: MarkovAnalysis,
+  targets: string[],
+): HittingTimes {
+  const { states, matrix } = analysis;
+  const target = new Set(
+    targets.map((t) => states.indexOf(t)).filter((i) => i >= 0),
+  );
+  if (target.size === 0) {
+    throw new Error("None of the target states is a state of the chain");
+  }
+
+  // States that can reach a target at all, by searching backwards
+  const reaches = new Set(target);
+  const queue = [...target];
+  while (queue.length > 0) {
+    const v = queue.shift()!;
+    for (let u = 0; u < states.length; u++) {
+      if (!reaches.has(u) && matrix[u][v] > EPSILON) {
+        reaches.add(u);
+        queue.push(u);
+      }
+    }
+  }
+
+  // a = P·a off the targets, a = 1 on them and 0 where they are unreachable
+  const open = [...reaches].filter((i) => !target.has(i)).sort((a, b) => a - b);
+  const probabilities = new Array<number>(states.length).fill(0);
+  for (const i of target) probabilities[i] = 1;
+  if (open.length > 0) {
+    const a = open.map((i) =>
+      open.map((j) => (i === j ? 1 : 0) - matrix[i][j]),
+    );
+    const b = open.map((i) => [
+      [...target].reduce((acc, j) => acc + matrix[i][j], 0),
+    ]);
+    solve(a, b).forEach(([p], k) => {
+      probabilities[open[k]] = Math.min(1, Math.max(0, p));
+    });
+  }
+
+  // h = 1 + P·h over the states that hit surely; their successors all do
+  const sure = open.filter((i) => probabilities[i] > 1 - 1e-9);
+  const steps: Record<string, number> = {};
+  for (const i of target) steps[states[i]] = 0;
+  if (sure.length > 0) {
+    const a = sure.map((i) =>
+      sure.map((j) => (i === j ? 1 : 0) - matrix[i][j]),
+    );
+    const b = sure.map(() => [1]);
+    solve(a, b).forEach(([h], k) => {
+      steps[states[sure[k]]] = h;
+    });
+  }
+
+  return {
+    targets: [...target].sort((a, b) => a - b).map((i) => states[i]),
+    probabilities: Object.fromEntries(
+      states.map((s, i) => [s, probabilities[i]]),
+    ),
+    expectedSteps: Object.fromEntries(
+      states.filter((s) => steps[s] !== undefined).map((s) => [s, steps[s]]),
+    ),
+  };
+}
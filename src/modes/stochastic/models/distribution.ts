@@ -6,6 +6,7 @@
  */
 
 import type { Distribution, SamplingResult } from "../types.js";
+import { analyticMoments, param } from "./moments.js";
 
 // ============================================================================
 // SAMPLER INTERFACE
@@ -550,6 +551,19 @@ export function createSampler(
       return new PoissonSampler(dist.lambda, rng);
     case "binomial":
       return new BinomialSampler(dist.n, dist.p, rng);
+    case "geometric":
+      return {
+        sample: () => sampleGeometric(dist.p, rng),
+        sampleMany: (count: number) => {
+          const samples: number[] = [];
+          for (let i = 0; i < count; i++) {
+            samples.push(sampleGeometric(dist.p, rng));
+          }
+          return samples;
+        },
+        getParameters: () => ({ p: dist.p }),
+        getType: () => "geometric",
+      };
     case "categorical":
       return new CategoricalSampler(dist.probabilities, rng);
     case "beta":
@@ -626,6 +640,114 @@ function sampleTriangular(
   }
 }
 
+/**
+ * Sample the number of trials up to and including the first success, by
+ * inverting the distribution function
+ */
+function sampleGeometric(p: number, rng: () => number): number {
+  if (p >= 1) return 1;
+  return 1 + Math.floor(Math.log(1 - rng()) / Math.log(1 - p));
+}
+
+/**
+ * Read a distribution as a thought's random variable names it, with its
+ * parameters under any of the aliases `analyticMoments` accepts, into a
+ * `Distribution` that can be sampled. A Bernoulli variable is a binomial
+ * with one trial.
+ *
+ * Returns undefined when the distribution is unknown or has no sampler
+ * (`custom`, `categorical`), a parameter is missing, or the parameters fall
+ * outside what its sampler accepts.
+ */
+export function readDistribution(
+  name: string,
+  parameters: Record<string, number>,
+): Distribution | undefined {
+  const params = parameters ?? {};
+  const moments = analyticMoments(name, params);
+  if (moments.mean === undefined || moments.variance === undefined) {
+    return undefined;
+  }
+
+  let dist: Distribution;
+  switch (name) {
+    case "normal":
+    case "gaussian":
+      dist = {
+        type: "normal",
+        mean: moments.mean,
+        stdDev: Math.sqrt(moments.variance),
+      };
+      break;
+    case "uniform":
+      dist = {
+        type: "uniform",
+        min: param(params, "a", "min")!,
+        max: param(params, "b", "max")!,
+      };
+      break;
+    case "exponential":
+      dist = { type: "exponential", rate: param(params, "lambda", "rate")! };
+      break;
+    case "poisson":
+      dist = { type: "poisson", lambda: param(params, "lambda", "rate")! };
+      break;
+    case "binomial":
+      dist = {
+        type: "binomial",
+        n: param(params, "n", "trials")!,
+        p: param(params, "p", "probability")!,
+      };
+      break;
+    case "bernoulli":
+      dist = { type: "binomial", n: 1, p: param(params, "p", "probability")! };
+      break;
+    case "geometric":
+      dist = { type: "geometric", p: param(params, "p", "probability")! };
+      break;
+    case "beta":
+      dist = {
+        type: "beta",
+        alpha: param(params, "alpha", "a")!,
+        beta: param(params, "beta", "b")!,
+      };
+      break;
+    case "gamma":
+      dist = {
+        type: "gamma",
+        shape: param(params, "shape", "k", "alpha")!,
+        scale: param(params, "scale", "theta")!,
+      };
+      break;
+    case "lognormal":
+      dist = {
+        type: "lognormal",
+        mu: param(params, "mu", "mean")!,
+        sigma: param(params, "sigma", "stdDev")!,
+      };
+      break;
+    case "triangular":
+      dist = {
+        type: "triangular",
+        min: param(params, "min", "a")!,
+        mode: param(params, "mode", "c")!,
+        max: param(params, "max", "b")!,
+      };
+      break;
+    default:
+      return undefined;
+  }
+
+  // The samplers are stricter than the moments in places, e.g. a normal
+  // with no spread or a Poisson with rate 0
+  try {
+    createSampler(dist);
+  } catch {
+    return undefined;
+  }
+  return dist;
+}
+
 /**
  * Sample from a distribution and compute statistics
  */
@@ -29,7 +29,7 @@ export interface DistributionMoments {
 }
 
 /** Pick the first alias that is present and finite. */
-function param(
+export function param(
   params: Record<string, number>,
   ...names: string[]
 ): number | undefined {
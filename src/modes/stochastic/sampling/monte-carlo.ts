@@ -0,0 +1,553 @@
+/**
+ * Monte Carlo Runner
+ *
+ * Samples a `StochasticModel` reproducibly from a seed and reports what the
+ * draws say: sample statistics, convergence diagnostics and the draws
+ * themselves.
+ *
+ * - **Budget.** `iterations` is the total number of draws, shared evenly
+ *   among the chains. Burn-in draws and draws the constraints reject count
+ *   against it, so a run never draws more than it was given.
+ * - **Reproducibility.** Each chain has its own generator, forked from one
+ *   seeded by `config.seed` (a fresh seed when there is none, recorded in the
+ *   result's config). The same model, config and seed give the same draws.
+ * - **Dependencies.** A dependency with a `strength` sets the correlation of
+ *   its two variables, whatever its type or direction. The correlation is
+ *   induced by Iman and Conover's method: each block of independent draws is
+ *   reordered to follow the ranks of correlated normal scores, which keeps
+ *   every variable's own distribution exactly.
+ * - **Constraints.** `equality` and `sum_to_one` constraints rescale their
+ *   variables to sum to `target` (1 for `sum_to_one`). `inequality` and
+ *   `range` constraints are conditions in the constraint expression language,
+ *   and a draw that fails one, or falls outside a variable's domain, is
+ *   rejected.
+ *
+ * Chains are drawn in blocks. After each block the run stops early if it has
+ * run out of time, or if `convergenceThreshold` is set and every variable's
+ * Monte Carlo standard error has fallen below that fraction of its standard
+ * deviation, with R-hat close to 1.
+ */
+
+import {
+  ConstraintExpressionError,
+  evaluateExpression,
+  expressionIdentifiers,
+  isCondition,
+  parseExpression,
+  type ExpressionNode,
+} from "../../constraint/expression.js";
+import {
+  computeSampleStatistics,
+  estimateESS,
+  mean,
+  variance,
+} from "../analysis/statistics.js";
+import {
+  createSampler,
+  type DistributionSampler,
+} from "../models/distribution.js";
+import type {
+  ConvergenceDiagnostics,
+  Domain,
+  MonteCarloConfig,
+  MonteCarloResult,
+  StochasticModel,
+} from "../types.js";
+import { createParallelRNGs, generateSeed, type SeededRNG } from "./rng.js";
+
+/** Chains run when the config does not say, enough for R-hat */
+const DEFAULT_CHAINS = 4;
+
+/** R-hat below this counts as converged */
+export const RHAT_LIMIT = 1.05;
+
+/** A sum this close to zero cannot be rescaled to a target */
+const EPSILON = 1e-12;
+
+/** A constraint that rescales variables to a fixed sum */
+interface Rescaling {
+  columns: number[];
+  target: number;
+}
+
+/** A constraint that draws must meet */
+interface Condition {
+  expression: string;
+  node: ExpressionNode;
+}
+
+/** The constraints of a model, in the form the runner applies them */
+interface ReadConstraints {
+  rescalings: Rescaling[];
+  conditions: Condition[];
+}
+
+/**
+ * Run a Monte Carlo simulation of a model
+ */
+export function runMonteCarlo(
+  model: StochasticModel,
+  config: MonteCarloConfig,
+): MonteCarloResult {
+  const start = Date.now();
+  const warnings: string[] = [];
+  const names = model.variables.map((v) => v.name);
+  const columns = new Map(names.map((name, j) => [name, j]));
+
+  const iterations = Math.max(0, Math.floor(config.iterations));
+  const seed = config.seed ?? generateSeed();
+  const chains = Math.max(
+    1,
+    Math.min(Math.floor(config.chains ?? DEFAULT_CHAINS), iterations),
+  );
+  const burnIn = Math.max(0, Math.floor(config.burnIn ?? 0));
+  const thinning = Math.max(1, Math.floor(config.thinning ?? 1));
+  const perChain = Math.floor(iterations / chains);
+  const blockSize = Math.max(
+    1,
+    Math.floor(config.progressInterval ?? Math.max(100, perChain / 10)),
+  );
+  const used: MonteCarloConfig = {
+    ...config,
+    iterations,
+    seed,
+    chains,
+    burnIn,
+    thinning,
+  };
+
+  if (burnIn >= perChain && iterations > 0) {
+    warnings.push(
+      `A burn-in of ${burnIn} leaves nothing of the ${perChain} draws each chain has`,
+    );
+  }
+
+  const cholesky = correlationFactor(model, columns, warnings);
+  const { rescalings, conditions } = readConstraints(model, columns, warnings);
+  const restricted =
+    rescalings.length > 0 ||
+    conditions.length > 0 ||
+    model.variables.some(({ domain }) => !unbounded(domain));
+
+  const rngs = createParallelRNGs(chains, seed);
+  const samplers = rngs.map((rng) =>
+    model.variables.map((v) => createSampler(v.distribution, () => rng.next())),
+  );
+  const kept: number[][][] = rngs.map(() => []);
+  const drawn = rngs.map(() => 0);
+  const accepted = rngs.map(() => 0);
+  let tested = 0;
+  let stoppedEarly: MonteCarloResult["stoppedEarly"];
+
+  while (drawn.some((d) => d < perChain) && stoppedEarly === undefined) {
+    for (let c = 0; c < chains; c++) {
+      const count = Math.min(blockSize, perChain - drawn[c]);
+      if (count <= 0) continue;
+      const block = drawBlock(samplers[c], rngs[c], count, cholesky);
+      for (let k = 0; k < count; k++) {
+        const row = block[k];
+        if (drawn[c] + k < burnIn) continue;
+        tested++;
+        if (!rescale(row, rescalings)) continue;
+        if (!admits(model, row, conditions, columns)) continue;
+        if (accepted[c]++ % thinning === 0) kept[c].push(row);
+      }
+      drawn[c] += count;
+    }
+
+    if (config.timeout !== undefined && Date.now() - start > config.timeout) {
+      stoppedEarly = "timeout";
+    } else if (
+      config.convergenceThreshold !== undefined &&
+      drawn.some((d) => d < perChain) &&
+      precise(kept, names.length, config.convergenceThreshold)
+    ) {
+      stoppedEarly = "converged";
+    }
+  }
+
+  if (stoppedEarly === "timeout") {
+    warnings.push(
+      `Stopped after ${config.timeout}ms with ${sum(drawn)} of ${iterations} draws made`,
+    );
+  }
+
+  const samples = kept.flat();
+  const acceptanceRate =
+    restricted && tested > 0 ? sum(accepted) / tested : undefined;
+  if (samples.length === 0 && iterations > 0) {
+    warnings.push("No draws were kept, so there is nothing to summarise");
+  } else if (acceptanceRate !== undefined && acceptanceRate < 0.01) {
+    warnings.push(
+      `The constraints accepted only ${(acceptanceRate * 100).toFixed(2)}% of draws`,
+    );
+  }
+
+  return {
+    samples,
+    variableNames: names,
+    statistics: computeSampleStatistics(samples),
+    convergenceDiagnostics: diagnose(kept, names.length, config),
+    executionTime: Date.now() - start,
+    effectiveSamples: samples.length,
+    success: samples.length > 0,
+    config: used,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    draws: sum(drawn),
+    acceptanceRate,
+    stoppedEarly,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+// ============================================================================
+// DEPENDENCIES
+// ============================================================================
+
+/**
+ * The lower Cholesky factor of the correlation matrix the dependencies set,
+ * or undefined when they set none or do not make a correlation matrix
+ */
+function correlationFactor(
+  model: StochasticModel,
+  columns: Map<string, number>,
+  warnings: string[],
+): number[][] | undefined {
+  const n = model.variables.length;
+  const matrix = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)),
+  );
+  let any = false;
+
+  for (const { from, to, strength } of model.dependencies) {
+    const i = columns.get(from);
+    const j = columns.get(to);
+    if (i === undefined || j === undefined) {
+      const unknown = i === undefined ? from : to;
+      warnings.push(
+        `Dependency ${from} → ${to} names '${unknown}', which is not a variable of the model`,
+      );
+      continue;
+    }
+    if (strength === undefined || i === j) {
+      warnings.push(
+        `Dependency ${from} → ${to} has no strength, so it was not sampled`,
+      );
+      continue;
+    }
+    if (!(strength >= -1 && strength <= 1)) {
+      warnings.push(
+        `Dependency ${from} → ${to} has strength ${strength}, outside [-1, 1], so it was not sampled`,
+      );
+      continue;
+    }
+    matrix[i][j] = matrix[j][i] = strength;
+    any = true;
+  }
+  if (!any) return undefined;
+
+  const factor = choleskyFactor(matrix);
+  if (factor === undefined) {
+    warnings.push(
+      "The dependency strengths do not make a positive-definite correlation matrix, so the variables were sampled independently",
+    );
+  }
+  return factor;
+}
+
+/**
+ * L with L·Lᵀ = A, or undefined when A is not positive-definite
+ */
+function choleskyFactor(a: number[][]): number[][] | undefined {
+  const n = a.length;
+  const l = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = a[i][j];
+      for (let k = 0; k < j; k++) s -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (s <= EPSILON) return undefined;
+        l[i][i] = Math.sqrt(s);
+      } else {
+        l[i][j] = s / l[j][j];
+      }
+    }
+  }
+  return l;
+}
+
+/**
+ * Draw a block of rows, then reorder each column to follow the ranks of
+ * correlated normal scores (Iman and Conover)
+ */
+function drawBlock(
+  samplers: DistributionSampler[],
+  rng: SeededRNG,
+  count: number,
+  cholesky: number[][] | undefined,
+): number[][] {
+  const draws = samplers.map((s) => s.sampleMany(count));
+  if (cholesky !== undefined && count > 1) {
+    const n = samplers.length;
+    const scores = Array.from({ length: count }, () => {
+      const z = Array.from({ length: n }, () => rng.normal());
+      return cholesky.map((row) =>
+        row.reduce((acc, value, k) => acc + value * z[k], 0),
+      );
+    });
+    for (let j = 0; j < n; j++) {
+      const sorted = [...draws[j]].sort((a, b) => a - b);
+      const order = scores
+        .map((row, i) => [row[j], i] as const)
+        .sort((a, b) => a[0] - b[0]);
+      order.forEach(([, i], rank) => {
+        draws[j][i] = sorted[rank];
+      });
+    }
+  }
+  return Array.from({ length: count }, (_, i) => draws.map((col) => col[i]));
+}
+
+// ============================================================================
+// CONSTRAINTS
+// ============================================================================
+
+function readConstraints(
+  model: StochasticModel,
+  columns: Map<string, number>,
+  warnings: string[],
+): ReadConstraints {
+  const rescalings: Rescaling[] = [];
+  const conditions: Condition[] = [];
+
+  for (const constraint of model.constraints ?? []) {
+    const { type, expression } = constraint;
+    if (type === "equality" || type === "sum_to_one") {
+      const target =
+        constraint.target ?? (type === "sum_to_one" ? 1 : undefined);
+      const unknown = constraint.variables.find((v) => !columns.has(v));
+      if (unknown !== undefined) {
+        warnings.push(
+          `Constraint '${expression}' names '${unknown}', which is not a variable of the model, so it was ignored`,
+        );
+      } else if (target === undefined || constraint.variables.length === 0) {
+        warnings.push(
+          `Equality constraint '${expression}' needs variables and a target sum, so it was ignored`,
+        );
+      } else {
+        rescalings.push({
+          columns: constraint.variables.map((v) => columns.get(v)!),
+          target,
+        });
+      }
+      continue;
+    }
+
+    try {
+      const node = parseExpression(expression);
+      const unknown = expressionIdentifiers(node).find((v) => !columns.has(v));
+      if (unknown !== undefined) {
+        warnings.push(
+          `Constraint '${expression}' names '${unknown}', which is not a variable of the model, so it was ignored`,
+        );
+      } else if (!isCondition(node)) {
+        warnings.push(
+          `Constraint '${expression}' is not a condition, so it was ignored`,
+        );
+      } else {
+        conditions.push({ expression, node });
+      }
+    } catch (error) {
+      if (!(error instanceof ConstraintExpressionError)) throw error;
+      warnings.push(
+        `Constraint '${expression}' cannot be read (${error.message}), so it was ignored`,
+      );
+    }
+  }
+  return { rescalings, conditions };
+}
+
+/**
+ * Rescale a row in place to meet its equality constraints; false when a sum
+ * to rescale is zero, or has the wrong sign
+ */
+function rescale(row: number[], rescalings: Rescaling[]): boolean {
+  for (const { columns, target } of rescalings) {
+    const total = columns.reduce((acc, j) => acc + row[j], 0);
+    if (Math.abs(total) <= EPSILON || total * target < 0) return false;
+    for (const j of columns) row[j] = (row[j] * target) / total;
+  }
+  return true;
+}
+
+function admits(
+  model: StochasticModel,
+  row: number[],
+  conditions: Condition[],
+  columns: Map<string, number>,
+): boolean {
+  if (!model.variables.every((v, j) => inDomain(v.domain, row[j]))) {
+    return false;
+  }
+  const lookup = (name: string): number => row[columns.get(name)!];
+  return conditions.every(({ node }) => {
+    try {
+      return evaluateExpression(node, lookup) === true;
+    } catch (error) {
+      // Division by zero and the like: the draw does not meet the condition
+      if (error instanceof ConstraintExpressionError) return false;
+      throw error;
+    }
+  });
+}
+
+function unbounded(domain: Domain): boolean {
+  return (
+    domain.type === "continuous" &&
+    domain.min === undefined &&
+    domain.max === undefined
+  );
+}
+
+function inDomain(domain: Domain, value: number): boolean {
+  switch (domain.type) {
+    case "continuous":
+      return (
+        (domain.min === undefined || value >= domain.min) &&
+        (domain.max === undefined || value <= domain.max)
+      );
+    case "integer":
+      return (
+        Number.isInteger(value) && value >= domain.min && value <= domain.max
+      );
+    case "discrete":
+      return domain.values.includes(value);
+    case "categorical":
+      // Categorical draws are category indices
+      return (
+        Number.isInteger(value) &&
+        value >= 0 &&
+        value < domain.categories.length
+      );
+  }
+}
+
+// ============================================================================
+// CONVERGENCE DIAGNOSTICS
+// ============================================================================
+
+/**
+ * Split-chain R-hat of one variable (Gelman et al.): each chain is cut in
+ * two halves, and the spread between the halves' means is compared with the
+ * spread within them. NaN when the chains are too short to split.
+ */
+export function splitRHat(chains: number[][]): number {
+  const length = Math.floor(Math.min(...chains.map((c) => c.length)) / 2);
+  if (length < 2) return NaN;
+  const halves = chains.flatMap((c) => [
+    c.slice(0, length),
+    c.slice(c.length - length),
+  ]);
+
+  const means = halves.map((h) => mean(h));
+  const within = mean(halves.map((h, i) => variance(h, means[i])));
+  const between = length * variance(means);
+  if (within === 0) return between === 0 ? 1 : Infinity;
+  const pooled = ((length - 1) / length) * within + between / length;
+  return Math.sqrt(pooled / within);
+}
+
+/**
+ * Geweke's z-score of one chain: the mean of its first 10% against the mean
+ * of its last 50%, each with a standard error corrected for autocorrelation.
+ * NaN when the chain is too short.
+ */
+export function gewekeZ(chain: number[]): number {
+  const first = chain.slice(0, Math.floor(chain.length * 0.1));
+  const last = chain.slice(Math.floor(chain.length * 0.5));
+  if (first.length < 2 || last.length < 2) return NaN;
+  const se2 = (part: number[]): number => variance(part) / estimateESS(part);
+  const denominator = Math.sqrt(se2(first) + se2(last));
+  if (denominator === 0) return 0;
+  return (mean(first) - mean(last)) / denominator;
+}
+
+/** The draws of one variable, chain by chain */
+function column(kept: number[][][], j: number): number[][] {
+  return kept.map((rows) => rows.map((row) => row[j]));
+}
+
+/** Effective sample size of one variable, summed over its chains */
+function chainESS(chains: number[][]): number {
+  return sum(chains.map((c) => (c.length > 0 ? estimateESS(c) : 0)));
+}
+
+/** Monte Carlo standard error of one variable's mean */
+function standardError(chains: number[][]): number {
+  const pooled = chains.flat();
+  const ess = chainESS(chains);
+  return ess > 0 ? Math.sqrt(variance(pooled) / ess) : NaN;
+}
+
+/**
+ * Whether every variable's mean is known to within `threshold` of its
+ * standard deviation, and the chains agree
+ */
+function precise(
+  kept: number[][][],
+  variables: number,
+  threshold: number,
+): boolean {
+  for (let j = 0; j < variables; j++) {
+    const chains = column(kept, j);
+    const pooled = chains.flat();
+    if (pooled.length < 2) return false;
+    const sd = Math.sqrt(variance(pooled));
+    if (!(standardError(chains) <= threshold * sd)) return false;
+    if (!(splitRHat(chains) < RHAT_LIMIT)) return false;
+  }
+  return true;
+}
+
+/**
+ * Diagnostics over every variable, each summary taken at its worst: the
+ * largest R-hat, the Geweke z furthest from 0 and the smallest ESS
+ */
+function diagnose(
+  kept: number[][][],
+  variables: number,
+  config: MonteCarloConfig,
+): ConvergenceDiagnostics {
+  let rHat = variables > 0 ? 1 : NaN;
+  let geweke = 0;
+  let ess = Infinity;
+  const errors: number[] = [];
+
+  for (let j = 0; j < variables; j++) {
+    const chains = column(kept, j);
+    const r = splitRHat(chains);
+    if (Number.isNaN(r) || r > rHat) rHat = r;
+    const z = gewekeZ(chains[0]);
+    if (Number.isNaN(z) || Math.abs(z) > Math.abs(geweke)) geweke = z;
+    ess = Math.min(ess, chainESS(chains));
+    errors.push(standardError(chains));
+  }
+
+  const precision =
+    config.convergenceThreshold === undefined ||
+    errors.every((error, j) => {
+      const sd = Math.sqrt(variance(column(kept, j).flat()));
+      return error <= config.convergenceThreshold! * sd;
+    });
+
+  return {
+    gewekeStatistic: geweke,
+    effectiveSampleSize: Number.isFinite(ess) ? ess : 0,
+    rHat,
+    hasConverged: rHat < RHAT_LIMIT && precision,
+    mcse: errors,
+  };
+}
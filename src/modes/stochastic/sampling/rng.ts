@@ -1,8 +1,14 @@
 /**
  * Seeded Random Number Generator - Phase 12 Sprint 5
  *
- * Implements a high-quality seeded PRNG using xorshift128+ algorithm.
+ * Implements a high-quality seeded PRNG using the xoshiro128** algorithm.
  * Provides reproducible random sequences for Monte Carlo simulation.
+ *
+ * The generator used to be a port of the 64-bit xorshift128+ onto 32-bit
+ * words, keeping the 64-bit shift constants. Its output was visibly biased:
+ * the mean of 400,000 uniforms came out ten standard errors from 1/2.
+ * xoshiro128** is the 32-bit member of the same family, built for 32-bit
+ * words.
  */
 
 import type { RNGState, SeededRNGInterface } from "../types.js";
@@ -15,11 +21,16 @@ import type { RNGState, SeededRNGInterface } from "../types.js";
 const MAX_INT32 = 2147483647;
 
 // ============================================================================
-// XORSHIFT128+ IMPLEMENTATION
+// XOSHIRO128** IMPLEMENTATION
 // ============================================================================
 
+/** Rotate a 32-bit word left */
+function rotl(x: number, k: number): number {
+  return ((x << k) | (x >>> (32 - k))) >>> 0;
+}
+
 /**
- * Seeded random number generator using xorshift128+ algorithm.
+ * Seeded random number generator using xoshiro128** algorithm.
  * Provides high-quality random numbers with reproducibility.
  */
 export class SeededRNG implements SeededRNGInterface {
@@ -65,24 +76,19 @@ export class SeededRNG implements SeededRNGInterface {
   private nextUint32(): number {
     this.count++;
 
-    // xorshift128+
-    let s1 = this.state[0];
-    const s0 = this.state[1];
-    const t1 = this.state[2];
-    const t0 = this.state[3];
-
-    this.state[0] = t0;
-    this.state[1] = t1;
-
-    s1 ^= (s1 << 23) >>> 0;
-    s1 ^= s1 >>> 17;
-    s1 ^= t0;
-    s1 ^= t0 >>> 26;
+    // xoshiro128** (Blackman and Vigna)
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5) >>> 0, 7), 9) >>> 0;
+    const t = (s[1] << 9) >>> 0;
 
-    this.state[2] = s0;
-    this.state[3] = s1;
+    s[2] = (s[2] ^ s[0]) >>> 0;
+    s[3] = (s[3] ^ s[1]) >>> 0;
+    s[1] = (s[1] ^ s[2]) >>> 0;
+    s[0] = (s[0] ^ s[3]) >>> 0;
+    s[2] = (s[2] ^ t) >>> 0;
+    s[3] = rotl(s[3], 11);
 
-    return (t0 + t1) >>> 0;
+    return result;
   }
 
   /**
@@ -226,7 +232,7 @@ export class SeededRNG implements SeededRNGInterface {
   saveState(): RNGState {
     return {
       state: [...this.state],
-      position: 0, // Not used in xorshift but kept for interface
+      position: 0, // Not used by xoshiro but kept for interface
       seed: this.initialSeed,
       count: this.count,
     };
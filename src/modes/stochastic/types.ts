@@ -3,7 +3,8 @@
  * Phase 12 Sprint 1 - Foundation & Infrastructure
  *
  * These types EXTEND the existing StochasticThought types in src/types/modes/stochastic.ts.
- * They provide Monte Carlo simulation, distribution sampling, and convergence diagnostics.
+ * They provide Monte Carlo simulation, distribution sampling, convergence diagnostics
+ * and Markov chain analysis.
  *
  * Existing types in src/types/modes/stochastic.ts:
  * - StochasticThought, StochasticProcessType, StochasticState
@@ -25,6 +26,7 @@ export type Distribution =
   | { type: "exponential"; rate: number }
   | { type: "poisson"; lambda: number }
   | { type: "binomial"; n: number; p: number }
+  | { type: "geometric"; p: number }
   | { type: "categorical"; probabilities: Record<string, number> }
   | { type: "beta"; alpha: number; beta: number }
   | { type: "gamma"; shape: number; scale: number }
@@ -257,6 +259,119 @@ export interface MonteCarloResult {
 
   /** Any warnings generated */
   warnings?: string[];
+
+  /** Draws made, burn-in and rejected draws included; at most `iterations` */
+  draws?: number;
+
+  /**
+   * Share of the draws after burn-in that met the model's constraints and
+   * variable domains, when it has any
+   */
+  acceptanceRate?: number;
+
+  /** Why sampling ended before the budget was spent, if it did */
+  stoppedEarly?: "converged" | "timeout";
+}
+
+// ============================================================================
+// MARKOV CHAIN TYPES
+// ============================================================================
+
+/**
+ * How a state behaves in the long run
+ */
+export type StateKind = "absorbing" | "recurrent" | "transient";
+
+/**
+ * A communicating class: states that can each reach the others
+ */
+export interface StateClass {
+  /** States of the class, in chain order */
+  states: string[];
+
+  /** Whether the chain, once in the class, can never leave it */
+  recurrent: boolean;
+
+  /**
+   * Greatest common divisor of the lengths of the paths by which the chain
+   * returns to a state of the class; 0 when it cannot return at all
+   */
+  period: number;
+
+  /** Stationary distribution of a recurrent class, over its own states */
+  stationary?: Record<string, number>;
+}
+
+/**
+ * A row of a transition matrix that does not sum to 1
+ */
+export interface StochasticityDefect {
+  state: string;
+  sum: number;
+}
+
+/**
+ * What can be said of a finite Markov chain from its transition matrix
+ */
+export interface MarkovAnalysis {
+  states: string[];
+
+  /** The row-stochastic matrix analysed */
+  matrix: number[][];
+
+  classes: StateClass[];
+
+  /** Kind of each state */
+  kinds: Record<string, StateKind>;
+
+  /** Period of each state, that of its class */
+  periods: Record<string, number>;
+
+  /** One communicating class */
+  isIrreducible: boolean;
+
+  /** Every recurrent class has period 1 */
+  isAperiodic: boolean;
+
+  /** Irreducible and aperiodic: from anywhere, the chain settles to one distribution */
+  isErgodic: boolean;
+
+  /**
+   * Least common multiple of the periods of the recurrent classes: the cycle
+   * the chain's distribution settles into in the long run
+   */
+  period: number;
+
+  /** The stationary distribution, when it is unique: one recurrent class */
+  stationaryDistribution?: Record<string, number>;
+
+  /**
+   * For each transient state, the probability of ending in each recurrent
+   * class, keyed by the class's states joined with ", "
+   */
+  absorptionProbabilities?: Record<string, Record<string, number>>;
+
+  /** Expected steps from each transient state to a recurrent class */
+  expectedStepsToAbsorption?: Record<string, number>;
+
+  /**
+   * Steps until the chain is within 1/4 of stationarity in total variation,
+   * from any start; ergodic chains only
+   */
+  mixingTime?: number;
+}
+
+/**
+ * Hitting a set of target states
+ */
+export interface HittingTimes {
+  targets: string[];
+
+  /** Probability that the chain, started at each state, ever hits a target */
+  probabilities: Record<string, number>;
+
+  /** Expected steps to a target, for the states that hit one surely */
+  expectedSteps: Record<string, number>;
 }
 
 // ============================================================================
@@ -20,6 +20,7 @@ import type { Thought } from "../types/core.js";
 import type {
   AdvisoryProofAnalysis,
   ProofAnalysisSource,
+  ProofDeductionAnalysis,
 } from "../types/session.js";
 import type {
   GapAnalysis,
@@ -28,7 +29,10 @@ import type {
   ProofStrategy,
   Theorem,
 } from "../types/modes/mathematics.js";
-import type { LogicalProof } from "../types/modes/formallogic.js";
+import type {
+  LogicalProof,
+  ProofStep as LogicalProofStep,
+} from "../types/modes/formallogic.js";
 import { ThinkingMode } from "../types/core.js";
 import { ProofDecomposer, type ProofStep } from "./decomposer.js";
 import { GapAnalyzer } from "./gap-analyzer.js";
@@ -41,6 +45,7 @@ import {
   analyzeProofExtended,
   type ExtendedProofDeps,
 } from "./extended-advisory.js";
+import { checkNaturalDeduction } from "../modes/formallogic/natural-deduction.js";
 
 /** Maximum proof steps fed to the decomposer. Bounds the worst-case cost. */
 export const MAX_PROOF_STEPS = 200;
@@ -112,6 +117,9 @@ export interface ProofAnalysisDeps {
    */
   extended?: ExtendedProofDeps;
 
+  /** Substitute for the natural-deduction checker of formal logic proofs. */
+  checkDeduction?: typeof checkNaturalDeduction;
+
   /**
    * Set to `false` to skip the extended engines entirely. Defaults to on.
    * Provided so a caller measuring the base four analysers can isolate them.
@@ -161,6 +169,46 @@ function splitText(text: string): ProofStep[] {
   return toSteps(text.split(STATEMENT_SPLIT));
 }
 
+/**
+ * Check a formal logic proof by natural deduction. Runs apart from the other
+ * analysers: a checker failure costs only this field.
+ */
+function checkDeduction(
+  steps: LogicalProofStep[],
+  check: typeof checkNaturalDeduction,
+): ProofDeductionAnalysis | undefined {
+  try {
+    const result = check(steps);
+    const counts = { valid: 0, invalid: 0, unchecked: 0 };
+    for (const step of result.steps) counts[step.status]++;
+    const unchecked = result.steps
+      .filter((s) => s.status === "unchecked")
+      .map((s) => s.stepNumber);
+    const truncated = {
+      openAssumptions: result.openAssumptions.length > MAX_PROOF_NOTES,
+      uncheckedSteps: unchecked.length > MAX_PROOF_NOTES,
+      any: false,
+    };
+    truncated.any = truncated.openAssumptions || truncated.uncheckedSteps;
+
+    return {
+      verified: result.verified,
+      ...(result.firstInvalid && { firstInvalid: result.firstInvalid }),
+      ...(result.sequent && { sequent: result.sequent }),
+      openAssumptions: result.openAssumptions.slice(0, MAX_PROOF_NOTES),
+      uncheckedSteps: unchecked.slice(0, MAX_PROOF_NOTES),
+      totals: {
+        steps: result.steps.length,
+        ...counts,
+        openAssumptions: result.openAssumptions.length,
+      },
+      truncated,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Locate proof content on a thought.
  *
@@ -321,6 +369,16 @@ export function analyzeProofAdvisory(
             deps.extended,
           );
 
+    // Only formal logic steps carry formulas and cited steps to check
+    const logicSteps = proofFields(thought).proof?.steps;
+    const deduction =
+      !supplied && content?.source === "formallogic.proof.steps" && logicSteps
+        ? checkDeduction(
+            logicSteps.slice(0, MAX_PROOF_STEPS),
+            deps.checkDeduction ?? checkNaturalDeduction,
+          )
+        : undefined;
+
     return {
       available: true,
       source: supplied ? "caller.decomposition" : content!.source,
@@ -352,6 +410,7 @@ export function analyzeProofAdvisory(
       },
       truncated,
       extended,
+      ...(deduction && { deduction }),
     };
   } catch (error) {
     return {
@@ -648,6 +648,7 @@ export class ExportService {
       revisionCount: 0,
       revisions: [],
       dependencies: [],
+      branchPoints: [],
     });
   }
 
@@ -673,6 +674,7 @@ export class ExportService {
     const branches = new Set<string>();
     const revisions: Array<{ from: number; to: number }> = [];
     const dependencies: Array<{ from: number; to: number }> = [];
+    const branchPoints: Array<{ from: number; to: number }> = [];
 
     thoughts.forEach((t, i) => {
       const thoughtNum = i + 1;
@@ -698,11 +700,14 @@ export class ExportService {
         }
       }
 
-      // Track branchFrom
+      // Track branchFrom. mermaid, dot and ascii draw a branch point as a
+      // dependency; renderSessionGraph draws it as a branch edge.
       if (t.branchFrom) {
         const branchFromNum = thoughtMap.get(t.branchFrom);
         if (branchFromNum) {
-          dependencies.push({ from: branchFromNum, to: thoughtNum });
+          const branchPoint = { from: branchFromNum, to: thoughtNum };
+          dependencies.push(branchPoint);
+          branchPoints.push(branchPoint);
         }
       }
     });
@@ -922,7 +927,8 @@ export class ExportService {
       branchCount: branches.size,
       revisionCount: revisions.length,
       revisions,
-      dependencies,
+      dependencies: dependencies.filter((d) => !branchPoints.includes(d)),
+      branchPoints,
     });
   }
 
@@ -944,6 +950,7 @@ export class ExportService {
       revisionCount: number;
       revisions: Array<{ from: number; to: number }>;
       dependencies: Array<{ from: number; to: number }>;
+      branchPoints: Array<{ from: number; to: number }>;
     },
   ): string {
     const thoughts = session.thoughts;
@@ -992,6 +999,24 @@ export class ExportService {
         type: "dependency",
       });
     }
+    for (const b of relations.branchPoints) {
+      edges.push({
+        source: nodeId(b.from),
+        target: nodeId(b.to),
+        type: "branch",
+        label: `branch ${thoughts[b.to - 1].branchId ?? ""}`.trim(),
+      });
+    }
+    if (session.forkedFrom) {
+      const origin = session.forkedFrom;
+      nodes.push({
+        id: "FORK",
+        label: `Forked from ${origin.sessionId}`,
+        type: "fork",
+        detail: `Forked at thought ${origin.thoughtNumber} (${origin.thoughtId}) on ${origin.forkedAt.toISOString()}`,
+      });
+      edges.push({ source: "FORK", target: "SESSION", type: "fork" });
+    }
 
     return renderSessionGraph(
       {
@@ -0,0 +1,261 @@
+/**
+ * Import Service
+ *
+ * Reads a session back in from the JSON produced by
+ * `ExportService.exportSession(session, "json")`, so a session can be
+ * archived and later rehydrated, on this server or another one.
+ *
+ * RESPONSIBILITY:
+ * - Parse the export and restore what JSON flattened: `Date` fields and the
+ *   `Map`-typed `metrics.customMetrics`
+ * - Check the session envelope (id, mode, config, metrics, thoughts)
+ * - Re-validate every thought through its mode's registered `ModeHandler`
+ *
+ * Registering the parsed session is `SessionManager.importSession`'s job.
+ */
+
+import {
+  ThinkingMode,
+  type ThinkingSession,
+  type Thought,
+} from "../types/index.js";
+import type { ThinkingToolInput } from "../tools/thinking.js";
+import { ResourceLimitError, ValidationError } from "../utils/errors.js";
+import { MAX_LENGTHS, validateSessionId } from "../utils/sanitization.js";
+import type { ThoughtFactory } from "./ThoughtFactory.js";
+
+/**
+ * Keys whose string values are revived as `Date` when they hold a timestamp
+ * in `Date.prototype.toJSON` form. These are every `Date` field a session can
+ * carry: the session's own timestamps, each thought's `timestamp`, and the
+ * nested ones some modes keep (analysis codebooks, meta-reasoning strategy,
+ * recursive steps, synthesis frameworks).
+ *
+ * Matching on the key as well as the format keeps an ordinary string that
+ * merely looks like a timestamp (a user-supplied `label`, say) a string. A
+ * `string`-typed field that shares a key *and* holds exactly this format,
+ * such as a historical `date`, comes back as a `Date`; it exports to the same
+ * text, so a second round trip is unchanged.
+ */
+const DATE_KEYS = new Set([
+  "createdAt",
+  "updatedAt",
+  "expiredAt",
+  "forkedAt",
+  "timestamp",
+  "modifiedAt",
+  "lastUpdated",
+  "startedAt",
+  "date",
+  "dateCollected",
+  "dateDecided",
+]);
+
+/** The exact format `Date.prototype.toJSON` writes. */
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Keys dropped while parsing. `JSON.parse` itself stores `__proto__` as a
+ * plain own property, but any later `Object.assign` or merge of the parsed
+ * value would treat it as the prototype. Same rule as FileSessionStore's
+ * `restoreFromSerialization`.
+ */
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const VALID_MODES = new Set<string>(Object.values(ThinkingMode));
+
+/**
+ * `JSON.parse` reviver: drop prototype keys and revive timestamps
+ */
+function reviveExportValue(key: string, value: unknown): unknown {
+  if (FORBIDDEN_KEYS.has(key)) {
+    return undefined;
+  }
+  if (
+    DATE_KEYS.has(key) &&
+    typeof value === "string" &&
+    ISO_TIMESTAMP.test(value)
+  ) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Import Service - rebuilds sessions from JSON exports
+ *
+ * @example
+ * ```typescript
+ * const importService = new ImportService(new ThoughtFactory());
+ * const session = importService.parseSession(exportService.exportSession(original, "json"));
+ * await sessionManager.importSession(session);
+ * ```
+ */
+export class ImportService {
+  private thoughtFactory: ThoughtFactory;
+
+  constructor(thoughtFactory: ThoughtFactory) {
+    this.thoughtFactory = thoughtFactory;
+  }
+
+  /**
+   * Parse a JSON session export back into a `ThinkingSession`
+   *
+   * @param json - Text produced by `ExportService.exportSession(session, "json")`
+   * @returns The rebuilt session, not yet registered with any manager
+   * @throws ResourceLimitError if the text exceeds `MAX_LENGTHS.SESSION_IMPORT`
+   * @throws ValidationError if the text is not a session export, or a thought
+   *   fails its mode handler's validation
+   */
+  parseSession(json: string): ThinkingSession {
+    if (json.length > MAX_LENGTHS.SESSION_IMPORT) {
+      throw new ResourceLimitError(
+        "session import size",
+        MAX_LENGTHS.SESSION_IMPORT,
+        json.length,
+      );
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json, reviveExportValue);
+    } catch (error) {
+      throw new ValidationError(
+        `Session import is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const session = this.checkEnvelope(raw);
+    session.thoughts.forEach((thought, index) =>
+      this.checkThought(thought, index, session.id),
+    );
+    return session;
+  }
+
+  /**
+   * Check the session-level fields and restore `customMetrics` as a Map
+   */
+  private checkEnvelope(raw: unknown): ThinkingSession {
+    if (!isPlainObject(raw)) {
+      throw new ValidationError("Session import must be a JSON object");
+    }
+
+    const fail = (field: string, reason: string): never => {
+      throw new ValidationError(`Session import: ${field} ${reason}`, {
+        field,
+      });
+    };
+
+    if (typeof raw.id !== "string") fail("id", "must be a string");
+    try {
+      validateSessionId(raw.id as string);
+    } catch {
+      fail("id", "must be a UUID v4 session id");
+    }
+    if (typeof raw.title !== "string" || raw.title.length === 0) {
+      fail("title", "must be a non-empty string");
+    } else if (raw.title.length > MAX_LENGTHS.TITLE) {
+      fail("title", `exceeds ${MAX_LENGTHS.TITLE} characters`);
+    }
+    if (typeof raw.mode !== "string" || !VALID_MODES.has(raw.mode)) {
+      fail("mode", "must be a known thinking mode");
+    }
+    if (!(raw.createdAt instanceof Date))
+      fail("createdAt", "must be a timestamp");
+    if (!(raw.updatedAt instanceof Date))
+      fail("updatedAt", "must be a timestamp");
+    if (typeof raw.isComplete !== "boolean") {
+      fail("isComplete", "must be a boolean");
+    }
+    if (
+      typeof raw.currentThoughtNumber !== "number" ||
+      !Number.isInteger(raw.currentThoughtNumber) ||
+      raw.currentThoughtNumber < 0
+    ) {
+      fail("currentThoughtNumber", "must be a non-negative integer");
+    }
+    if (!isPlainObject(raw.config) || !isPlainObject(raw.config.modeConfig)) {
+      fail("config", "must be an object with a modeConfig");
+    }
+    if (!Array.isArray(raw.thoughts)) fail("thoughts", "must be an array");
+
+    const metrics = raw.metrics;
+    if (!isPlainObject(metrics)) {
+      return fail("metrics", "must be an object");
+    }
+    const customMetrics = metrics.customMetrics ?? {};
+    if (!isPlainObject(customMetrics)) {
+      return fail("metrics.customMetrics", "must be an object");
+    }
+    metrics.customMetrics = new Map(Object.entries(customMetrics));
+
+    return raw as unknown as ThinkingSession;
+  }
+
+  /**
+   * Check one thought's common fields, then run its mode handler's
+   * `validate` on it, as the tool call that created it once did
+   */
+  private checkThought(
+    thought: unknown,
+    index: number,
+    sessionId: string,
+  ): void {
+    const label = `thoughts[${index}]`;
+    const fail = (reason: string): never => {
+      throw new ValidationError(`Session import: ${label} ${reason}`, {
+        thoughtIndex: index,
+      });
+    };
+
+    if (!isPlainObject(thought)) return fail("must be an object");
+    if (typeof thought.id !== "string" || thought.id.length === 0) {
+      fail("id must be a non-empty string");
+    }
+    if (thought.sessionId !== sessionId) {
+      fail("sessionId does not match the session id");
+    }
+    if (typeof thought.mode !== "string" || !VALID_MODES.has(thought.mode)) {
+      fail("mode must be a known thinking mode");
+    }
+    if (typeof thought.content !== "string" || thought.content.length === 0) {
+      fail("content must be a non-empty string");
+    } else if (thought.content.length > MAX_LENGTHS.THOUGHT_CONTENT) {
+      fail(`content exceeds ${MAX_LENGTHS.THOUGHT_CONTENT} characters`);
+    }
+    if (!isPositiveInteger(thought.thoughtNumber)) {
+      fail("thoughtNumber must be a positive integer");
+    }
+    if (!isPositiveInteger(thought.totalThoughts)) {
+      fail("totalThoughts must be a positive integer");
+    }
+    if (typeof thought.nextThoughtNeeded !== "boolean") {
+      fail("nextThoughtNeeded must be a boolean");
+    }
+    if (!(thought.timestamp instanceof Date)) {
+      fail("timestamp must be a timestamp");
+    }
+
+    const typed = thought as unknown as Thought;
+    const handler = this.thoughtFactory.getRegistry().getHandler(typed.mode);
+    const input =
+      handler.thoughtToInput?.(typed) ??
+      ({ ...typed, thought: typed.content } as unknown as ThinkingToolInput);
+    const result = handler.validate(input);
+    if (!result.valid) {
+      throw new ValidationError(
+        `Session import: ${label} (${typed.id}) fails ${typed.mode} validation: ${result.errors.map((e) => `${e.field}: ${e.message}`).join("; ")}`,
+        { thoughtIndex: index, thoughtId: typed.id, errors: result.errors },
+      );
+    }
+  }
+}
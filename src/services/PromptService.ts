@@ -0,0 +1,305 @@
+/**
+ * Prompt Service
+ *
+ * Serves MCP prompts so a client does not have to rebuild a mode's input
+ * structure from the tool schemas by hand:
+ *
+ * - `mode_{mode}` - one prompt per reasoning mode that a tool accepts
+ * - `preset_{presetId}` - one prompt per `deepthinking_analyze` preset
+ *
+ * Every prompt takes the problem text as its only argument and returns a
+ * single user message that names the tool to call, walks through the mode's
+ * thought types and carries the guiding questions and mental models the
+ * mode's handler reports through `ModeHandler.getEnhancements`.
+ *
+ * `custom` gets no prompt, for the same reason it has no entry in
+ * `modeToToolMap`: no tool accepts it.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ThinkingMode } from "../types/core.js";
+import type { ModeEnhancements } from "../modes/handlers/ModeHandler.js";
+import {
+  getPreset,
+  isValidPresetId,
+  listPresetIds,
+  type PresetId,
+} from "../modes/combinations/presets.js";
+import { modeToToolMap, tools } from "../tools/definitions.js";
+import type { ThinkingToolInput } from "../tools/thinking.js";
+import { sanitizeThoughtContent } from "../utils/sanitization.js";
+import type { ThoughtFactory } from "./ThoughtFactory.js";
+
+/** Name prefix of the per-mode prompts. */
+export const MODE_PROMPT_PREFIX = "mode_";
+
+/** Name prefix of the per-preset prompts. */
+export const PRESET_PROMPT_PREFIX = "preset_";
+
+/** Session id given to the seed thought built for `getEnhancements`. */
+const PROMPT_SEED_SESSION_ID = "prompt-seed";
+
+/** A `prompts/list` argument entry. */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+/** A `prompts/list` entry. */
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/** A `prompts/get` result. */
+export interface RenderedPrompt {
+  description: string;
+  messages: Array<{
+    role: "user";
+    content: { type: "text"; text: string };
+  }>;
+}
+
+/** The one argument every prompt takes. */
+const PROBLEM_ARGUMENT: PromptArgument = {
+  name: "problem",
+  description: "The problem or question to reason about",
+  required: true,
+};
+
+/** Guidance gathered for one mode. */
+interface ModeGuidance {
+  mode: ThinkingMode;
+  modeName: string;
+  description: string;
+  tool: string;
+  acceptsThoughtType: boolean;
+  thoughtTypes: string[];
+  enhancements: ModeEnhancements;
+}
+
+/**
+ * Modes that get a prompt, in `ThinkingMode` declaration order
+ */
+export function listPromptModes(): ThinkingMode[] {
+  return (Object.values(ThinkingMode) as ThinkingMode[]).filter(
+    (mode) => mode in modeToToolMap,
+  );
+}
+
+/**
+ * Prompt Service - lists and renders the mode and preset prompts
+ *
+ * @example
+ * ```typescript
+ * const prompts = new PromptService(new ThoughtFactory());
+ * const result = prompts.getPrompt("mode_causal", { problem: "Why did churn rise?" });
+ * ```
+ */
+export class PromptService {
+  private thoughtFactory: ThoughtFactory;
+
+  constructor(thoughtFactory: ThoughtFactory) {
+    this.thoughtFactory = thoughtFactory;
+  }
+
+  /**
+   * List one prompt per tool-accessible mode, then one per preset
+   */
+  listPrompts(): PromptDefinition[] {
+    const registry = this.thoughtFactory.getRegistry();
+    const modePrompts = listPromptModes().map((mode) => {
+      const handler = registry.getHandler(mode);
+      return {
+        name: `${MODE_PROMPT_PREFIX}${mode}`,
+        title: handler.modeName,
+        description: handler.description,
+        arguments: [PROBLEM_ARGUMENT],
+      };
+    });
+    const presetPrompts = listPresetIds().map((id) => {
+      const preset = getPreset(id)!;
+      return {
+        name: `${PRESET_PROMPT_PREFIX}${id}`,
+        title: preset.name,
+        description: preset.description,
+        arguments: [PROBLEM_ARGUMENT],
+      };
+    });
+    return [...modePrompts, ...presetPrompts];
+  }
+
+  /**
+   * Render a prompt for the given problem
+   *
+   * @throws McpError `InvalidParams` for an unknown prompt name or a missing
+   *   or invalid `problem` argument
+   */
+  getPrompt(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    let problem: string;
+    try {
+      problem = sanitizeThoughtContent(args.problem ?? "");
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid "problem" argument for prompt ${name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (name.startsWith(MODE_PROMPT_PREFIX)) {
+      const mode = name.slice(MODE_PROMPT_PREFIX.length) as ThinkingMode;
+      if (listPromptModes().includes(mode)) {
+        const guidance = this.getModeGuidance(mode, problem);
+        return {
+          description: guidance.description,
+          messages: [userMessage(renderModePrompt(guidance, problem))],
+        };
+      }
+    }
+
+    if (name.startsWith(PRESET_PROMPT_PREFIX)) {
+      const id = name.slice(PRESET_PROMPT_PREFIX.length);
+      if (isValidPresetId(id)) {
+        return this.renderPresetPrompt(id, problem);
+      }
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  /**
+   * Collect what the mode's handler knows about working a problem
+   *
+   * Enhancements are computed on a seed thought built from the problem text,
+   * which is what the handler would see as the first thought of a session.
+   */
+  private getModeGuidance(mode: ThinkingMode, problem: string): ModeGuidance {
+    const handler = this.thoughtFactory.getRegistry().getHandler(mode);
+    const tool = modeToToolMap[mode];
+    const schema = tools[tool as keyof typeof tools];
+
+    let enhancements: ModeEnhancements = {};
+    if (handler.getEnhancements) {
+      try {
+        const seed = this.thoughtFactory.createThought(
+          {
+            thought: problem,
+            thoughtNumber: 1,
+            totalThoughts: 1,
+            nextThoughtNeeded: true,
+            mode,
+          } as ThinkingToolInput,
+          PROMPT_SEED_SESSION_ID,
+        );
+        enhancements = handler.getEnhancements(seed);
+      } catch {
+        // A handler that cannot enhance a bare thought still gets a prompt
+      }
+    }
+
+    return {
+      mode,
+      modeName: handler.modeName,
+      description: handler.description,
+      tool,
+      acceptsThoughtType: "thoughtType" in schema.inputSchema.properties,
+      thoughtTypes: handler.getSupportedThoughtTypes?.() ?? [],
+      enhancements,
+    };
+  }
+
+  /**
+   * Render a preset prompt: one `deepthinking_analyze` call, followed by
+   * per-mode guidance for going deeper in any of the preset's modes
+   */
+  private renderPresetPrompt(id: PresetId, problem: string): RenderedPrompt {
+    const preset = getPreset(id)!;
+    const lines = [
+      `Analyze the following problem with the "${preset.name}" preset.`,
+      "",
+      "Problem:",
+      problem,
+      "",
+      `${preset.description}. ${preset.useCase}.`,
+      "",
+      `Start with one \`deepthinking_analyze\` call: \`preset: "${id}"\`, with the problem as \`thought\`. The preset merges its modes with the "${preset.mergeStrategy}" strategy.`,
+      "",
+      "Then go deeper in whichever mode the merged result shows is weakest:",
+    ];
+    for (const mode of preset.modes) {
+      if (!(mode in modeToToolMap)) continue;
+      const guidance = this.getModeGuidance(mode, problem);
+      lines.push(
+        "",
+        `- ${guidance.modeName} (\`${guidance.tool}\`, \`mode: "${mode}"\`): ${guidance.description}`,
+      );
+      if (guidance.thoughtTypes.length > 0) {
+        lines.push(`  Thought types: ${guidance.thoughtTypes.join(", ")}`);
+      }
+      const question = guidance.enhancements.guidingQuestions?.[0];
+      if (question) {
+        lines.push(`  Ask: ${question}`);
+      }
+    }
+
+    return {
+      description: preset.description,
+      messages: [userMessage(lines.join("\n"))],
+    };
+  }
+}
+
+/**
+ * Render a mode prompt
+ */
+function renderModePrompt(guidance: ModeGuidance, problem: string): string {
+  const { mode, tool, thoughtTypes, enhancements } = guidance;
+  const lines = [
+    `Work through the following problem using ${guidance.modeName} (${mode} mode).`,
+    "",
+    "Problem:",
+    problem,
+    "",
+    `${guidance.description}.`,
+    "",
+    `Record each step with the \`${tool}\` tool and \`mode: "${mode}"\`. Start at thoughtNumber 1 without a sessionId, reuse the returned sessionId for every later thought, and set nextThoughtNeeded to false on the last one.`,
+  ];
+
+  if (thoughtTypes.length > 0) {
+    lines.push(
+      "",
+      guidance.acceptsThoughtType
+        ? "Move through these thought types, passing the current one as `thoughtType`:"
+        : "Move through these stages:",
+      ...thoughtTypes.map((type, index) => `${index + 1}. ${type}`),
+    );
+  }
+
+  appendSection(lines, "Guiding questions:", enhancements.guidingQuestions);
+  appendSection(lines, "Mental models to apply:", enhancements.mentalModels);
+  appendSection(lines, "Keep in mind:", enhancements.suggestions);
+
+  return lines.join("\n");
+}
+
+/**
+ * Append a bulleted section, skipping it when there is nothing to list
+ */
+function appendSection(
+  lines: string[],
+  heading: string,
+  items: string[] | undefined,
+): void {
+  if (!items || items.length === 0) return;
+  lines.push("", heading, ...items.map((item) => `- ${item}`));
+}
+
+/**
+ * Wrap prompt text as the single user message of a `prompts/get` result
+ */
+function userMessage(text: string): RenderedPrompt["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
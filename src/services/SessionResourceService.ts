@@ -0,0 +1,332 @@
+/**
+ * Session Resource Service
+ *
+ * Publishes every `ThinkingSession` held by `SessionManager` as an MCP
+ * resource, so a client can read a session without going through the
+ * `deepthinking_session` tool:
+ *
+ * - `deepthinking://session/{sessionId}` - the whole session as JSON
+ * - `deepthinking://session/{sessionId}/thought/{thoughtId}` - one thought
+ * - `deepthinking://session/{sessionId}/export/{format}` - any export format
+ *
+ * Only session URIs are enumerated by `resources/list`; thought and export
+ * URIs are advertised as templates, because listing every thought of every
+ * session would make the listing as large as the sessions themselves.
+ *
+ * The service also owns the set of subscribed URIs. `src/index.ts` feeds it
+ * `SessionManager.onSessionChange` events and sends a `resources/updated`
+ * notification for every subscribed URI the event touches.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { SessionChangeEvent, ThinkingSession } from "../types/index.js";
+import type { SessionManager } from "../session/manager.js";
+import type { ExportService } from "./ExportService.js";
+
+/** URI prefix shared by every session resource. */
+export const SESSION_RESOURCE_PREFIX = "deepthinking://session/";
+
+/**
+ * JSON-RPC code for "resource not found", as defined by the MCP resources
+ * specification. The SDK's `ErrorCode` enum does not include it.
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Format names accepted by `ExportService.exportSession`. */
+export type SessionExportFormat = Parameters<ExportService["exportSession"]>[1];
+
+/**
+ * MIME type served for each export format. Also the list of formats readable
+ * through `deepthinking://session/{sessionId}/export/{format}`.
+ */
+export const EXPORT_FORMAT_MIME_TYPES: Record<SessionExportFormat, string> = {
+  json: "application/json",
+  markdown: "text/markdown",
+  latex: "application/x-latex",
+  html: "text/html",
+  jupyter: "application/x-ipynb+json",
+  mermaid: "text/plain",
+  dot: "text/vnd.graphviz",
+  ascii: "text/plain",
+  svg: "image/svg+xml",
+  graphml: "application/graphml+xml",
+  tikz: "application/x-latex",
+  modelica: "text/plain",
+  uml: "text/plain",
+  "visual-json": "application/json",
+  "visual-markdown": "text/markdown",
+};
+
+/** A `resources/list` entry. */
+export interface SessionResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/** A `resources/templates/list` entry. */
+export interface SessionResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+}
+
+/** A `resources/read` content block. */
+export interface SessionResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/** A session resource URI, decoded into its parts. */
+export type ParsedSessionResourceUri =
+  | { kind: "session"; sessionId: string }
+  | { kind: "thought"; sessionId: string; thoughtId: string }
+  | { kind: "export"; sessionId: string; format: SessionExportFormat };
+
+/**
+ * URI templates for the per-thought and per-export sub-resources
+ */
+export const SESSION_RESOURCE_TEMPLATES: readonly SessionResourceTemplate[] = [
+  {
+    uriTemplate: `${SESSION_RESOURCE_PREFIX}{sessionId}`,
+    name: "Thinking session",
+    description: "A complete thinking session as JSON",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${SESSION_RESOURCE_PREFIX}{sessionId}/thought/{thoughtId}`,
+    name: "Session thought",
+    description: "One thought of a thinking session as JSON",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${SESSION_RESOURCE_PREFIX}{sessionId}/export/{format}`,
+    name: "Session export",
+    description: `A thinking session rendered in one export format (${Object.keys(EXPORT_FORMAT_MIME_TYPES).join(", ")})`,
+  },
+];
+
+/**
+ * Build the URI of a session resource
+ */
+export function sessionResourceUri(sessionId: string): string {
+  return `${SESSION_RESOURCE_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Build the URI of one thought of a session
+ */
+export function thoughtResourceUri(
+  sessionId: string,
+  thoughtId: string,
+): string {
+  return `${sessionResourceUri(sessionId)}/thought/${encodeURIComponent(thoughtId)}`;
+}
+
+/**
+ * Build the URI of one export format of a session
+ */
+export function exportResourceUri(
+  sessionId: string,
+  format: SessionExportFormat,
+): string {
+  return `${sessionResourceUri(sessionId)}/export/${format}`;
+}
+
+/**
+ * Decode a session resource URI
+ *
+ * @returns The decoded URI, or null if it is not a session resource URI
+ */
+export function parseSessionResourceUri(
+  uri: string,
+): ParsedSessionResourceUri | null {
+  if (!uri.startsWith(SESSION_RESOURCE_PREFIX)) return null;
+
+  const segments = uri.slice(SESSION_RESOURCE_PREFIX.length).split("/");
+  let decoded: string[];
+  try {
+    decoded = segments.map((segment) => decodeURIComponent(segment));
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+  if (decoded.some((segment) => segment.length === 0)) return null;
+
+  const [sessionId, child, childId] = decoded;
+  if (decoded.length === 1) {
+    return { kind: "session", sessionId };
+  }
+  if (decoded.length === 3 && child === "thought") {
+    return { kind: "thought", sessionId, thoughtId: childId };
+  }
+  if (
+    decoded.length === 3 &&
+    child === "export" &&
+    Object.prototype.hasOwnProperty.call(EXPORT_FORMAT_MIME_TYPES, childId)
+  ) {
+    return {
+      kind: "export",
+      sessionId,
+      format: childId as SessionExportFormat,
+    };
+  }
+  return null;
+}
+
+/**
+ * Session Resource Service - lists, reads and tracks subscriptions to
+ * session resources
+ *
+ * @example
+ * ```typescript
+ * const resources = new SessionResourceService(new ExportService());
+ * const listing = await resources.listResources(sessionManager);
+ * const contents = await resources.readResource(sessionManager, listing[0].uri);
+ * ```
+ */
+export class SessionResourceService {
+  private exportService: ExportService;
+  private subscriptions: Set<string> = new Set();
+
+  constructor(exportService: ExportService) {
+    this.exportService = exportService;
+  }
+
+  /**
+   * List one resource per session, including sessions held only in storage
+   */
+  async listResources(manager: SessionManager): Promise<SessionResource[]> {
+    const sessions = await manager.listSessions();
+    return sessions.map((session) => ({
+      uri: sessionResourceUri(session.id),
+      name: session.title,
+      description: `${session.mode} session with ${session.thoughtCount} thought${session.thoughtCount === 1 ? "" : "s"}${session.isComplete ? " (complete)" : ""}`,
+      mimeType: "application/json",
+    }));
+  }
+
+  /**
+   * Read a session, thought or export resource
+   *
+   * @throws McpError `InvalidParams` for a URI this service does not serve,
+   *   and the MCP "resource not found" code for a missing session or thought
+   */
+  async readResource(
+    manager: SessionManager,
+    uri: string,
+  ): Promise<SessionResourceContent[]> {
+    const parsed = parseSessionResourceUri(uri);
+    if (!parsed) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource URI: ${uri}`,
+      );
+    }
+
+    let session: ThinkingSession | null;
+    try {
+      // Resources render thoughts, so compacted ones are restored in full
+      session = await manager.getFullSession(parsed.sessionId);
+    } catch {
+      // validateSessionId rejects ids that are not UUIDs
+      session = null;
+    }
+    if (!session) {
+      throw new McpError(
+        RESOURCE_NOT_FOUND,
+        `Session ${parsed.sessionId} not found`,
+        { uri },
+      );
+    }
+
+    switch (parsed.kind) {
+      case "session":
+        return [
+          {
+            uri,
+            mimeType: "application/json",
+            text: this.exportService.exportSession(session, "json"),
+          },
+        ];
+      case "thought": {
+        const thought = session.thoughts.find((t) => t.id === parsed.thoughtId);
+        if (!thought) {
+          throw new McpError(
+            RESOURCE_NOT_FOUND,
+            `Thought ${parsed.thoughtId} not found in session ${parsed.sessionId}`,
+            { uri },
+          );
+        }
+        return [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(thought, null, 2),
+          },
+        ];
+      }
+      case "export":
+        return [
+          {
+            uri,
+            mimeType: EXPORT_FORMAT_MIME_TYPES[parsed.format],
+            text: this.exportService.exportSession(session, parsed.format),
+          },
+        ];
+    }
+  }
+
+  /**
+   * Start tracking a subscribed URI
+   *
+   * @throws McpError `InvalidParams` if the URI is not a session resource URI
+   */
+  subscribe(uri: string): void {
+    if (!parseSessionResourceUri(uri)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Cannot subscribe to unknown resource URI: ${uri}`,
+      );
+    }
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Stop tracking a subscribed URI. Unknown URIs are ignored.
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Subscribed URIs that a session change makes stale: the session resource
+   * itself and every thought or export sub-resource of it.
+   *
+   * A deleted session's subscriptions are dropped after being reported, so
+   * the client is told once and then nothing more is tracked for it.
+   */
+  urisAffectedBy(event: SessionChangeEvent): string[] {
+    const affected: string[] = [];
+    for (const uri of this.subscriptions) {
+      const parsed = parseSessionResourceUri(uri);
+      if (parsed && parsed.sessionId === event.sessionId) {
+        affected.push(uri);
+      }
+    }
+    if (event.kind === "deleted") {
+      for (const uri of affected) this.subscriptions.delete(uri);
+    }
+    return affected;
+  }
+
+  /**
+   * Currently subscribed URIs
+   */
+  getSubscriptions(): string[] {
+    return Array.from(this.subscriptions);
+  }
+}
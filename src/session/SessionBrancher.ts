@@ -0,0 +1,295 @@
+/**
+ * Session Brancher
+ *
+ * Works out what forking a session, listing its branches and merging a fork
+ * back mean in terms of thoughts, without touching any session.
+ *
+ * RESPONSIBILITY:
+ * - Copy a session's thoughts up to a fork point, restamped for the fork
+ * - Group a session's thoughts by `branchId`
+ * - Plan a merge: which fork thoughts are new to the parent, how they are
+ *   renumbered and labelled, and what conflicts with the parent
+ *
+ * Registering the fork, applying the merge and persisting either is
+ * `SessionManager`'s job.
+ *
+ * A fork keeps the thought ids it copied. Ids are only unique within a
+ * session, so this is safe, and it is what lets a merge tell the history the
+ * two sessions share from what the fork added.
+ */
+
+import {
+  BranchMergeConflict,
+  SessionBranch,
+  SessionBranchListing,
+  SessionLineage,
+  ThinkingSession,
+  Thought,
+} from "../types/index.js";
+import { SessionError } from "../utils/errors.js";
+
+/**
+ * A merge worked out by `SessionBrancher.planMerge`, not yet applied
+ */
+export interface MergePlan {
+  branchId: string;
+  /** Copies of the fork's new thoughts, ready to append to the parent */
+  thoughts: Thought[];
+  skippedThoughtIds: string[];
+  targetThoughtsSinceFork: number;
+  conflicts: BranchMergeConflict[];
+}
+
+export class SessionBrancher {
+  /**
+   * Copy a session's thoughts up to and including a fork point
+   *
+   * @param session - The session to fork, with full thoughts
+   * @param forkId - Id of the session the copies are for
+   * @param upToThoughtId - The last thought to copy; defaults to the newest
+   * @param forkedAt - When the fork was made, recorded on the lineage
+   * @returns The copies, and the lineage to record on the fork
+   * @throws SessionError if the session has no thoughts, or none with
+   *   `upToThoughtId`
+   */
+  forkThoughts(
+    session: ThinkingSession,
+    forkId: string,
+    upToThoughtId?: string,
+    forkedAt: Date = new Date(),
+  ): { thoughts: Thought[]; lineage: SessionLineage } {
+    const index =
+      upToThoughtId === undefined
+        ? session.thoughts.length - 1
+        : session.thoughts.findIndex((t) => t.id === upToThoughtId);
+    if (index < 0) {
+      throw new SessionError(
+        upToThoughtId === undefined
+          ? `Session ${session.id} has no thoughts to fork`
+          : `Session ${session.id} has no thought ${upToThoughtId}`,
+        { sessionId: session.id, thoughtId: upToThoughtId },
+      );
+    }
+
+    const forkPoint = session.thoughts[index];
+    const thoughts = session.thoughts
+      .slice(0, index + 1)
+      .map((thought) => ({ ...structuredClone(thought), sessionId: forkId }));
+
+    return {
+      thoughts,
+      lineage: {
+        sessionId: session.id,
+        thoughtId: forkPoint.id,
+        thoughtNumber: forkPoint.thoughtNumber,
+        forkedAt,
+      },
+    };
+  }
+
+  /**
+   * Group a session's thoughts by `branchId`, in order of each branch's
+   * first thought
+   */
+  listBranches(session: ThinkingSession): SessionBranchListing {
+    const branches = new Map<string, SessionBranch>();
+    let mainThoughtCount = 0;
+
+    for (const thought of session.thoughts) {
+      if (!thought.branchId) {
+        mainThoughtCount++;
+        continue;
+      }
+      const branch = branches.get(thought.branchId);
+      if (branch) {
+        branch.thoughtIds.push(thought.id);
+        branch.lastThoughtNumber = thought.thoughtNumber;
+      } else {
+        branches.set(thought.branchId, {
+          branchId: thought.branchId,
+          ...(thought.branchFrom && { branchFrom: thought.branchFrom }),
+          thoughtIds: [thought.id],
+          firstThoughtNumber: thought.thoughtNumber,
+          lastThoughtNumber: thought.thoughtNumber,
+        });
+      }
+    }
+
+    return {
+      sessionId: session.id,
+      ...(session.forkedFrom && { forkedFrom: session.forkedFrom }),
+      mainThoughtCount,
+      branches: [...branches.values()],
+    };
+  }
+
+  /**
+   * Plan merging a fork's new thoughts back into the session it was forked
+   * from
+   *
+   * The fork's thoughts after its fork point that the target does not
+   * already have are copied, renumbered to follow the target's last
+   * thought, and put on `branchId` unless they carry a branch of their own.
+   * The first of them branches from the fork point unless it says
+   * otherwise. A fork thought the target already has (merged before) is
+   * skipped, so merging the same fork twice adds only what is new.
+   *
+   * @param target - The fork's parent
+   * @param fork - A session with `forkedFrom.sessionId === target.id`
+   * @param branchId - The branch to put the merged thoughts on; defaults to
+   *   the fork's id
+   * @throws SessionError if `fork` was not forked from `target`, or a
+   *   branch the merge would add thoughts to already holds target thoughts
+   *   that did not come from this fork
+   */
+  planMerge(
+    target: ThinkingSession,
+    fork: ThinkingSession,
+    branchId: string = fork.id,
+  ): MergePlan {
+    const lineage = fork.forkedFrom;
+    if (!lineage || lineage.sessionId !== target.id) {
+      throw new SessionError(
+        `Session ${fork.id} is not a fork of session ${target.id}`,
+        { sessionId: fork.id, targetSessionId: target.id },
+      );
+    }
+
+    const forkPointInFork = fork.thoughts.findIndex(
+      (t) => t.id === lineage.thoughtId,
+    );
+    const added = fork.thoughts.slice(
+      forkPointInFork >= 0 ? forkPointInFork + 1 : lineage.thoughtNumber,
+    );
+
+    const targetIds = new Set(target.thoughts.map((t) => t.id));
+    const candidates = added.filter((t) => !targetIds.has(t.id));
+    const skippedThoughtIds = added
+      .filter((t) => targetIds.has(t.id))
+      .map((t) => t.id);
+
+    const forkThoughtIds = new Set(fork.thoughts.map((t) => t.id));
+    for (const id of new Set(candidates.map((t) => t.branchId ?? branchId))) {
+      const clash = target.thoughts.find(
+        (t) => t.branchId === id && !forkThoughtIds.has(t.id),
+      );
+      if (clash) {
+        throw new SessionError(
+          `Branch ${id} already exists in session ${target.id}`,
+          { sessionId: target.id, branchId: id, thoughtId: clash.id },
+        );
+      }
+    }
+
+    const forkPointInTarget = target.thoughts.findIndex(
+      (t) => t.id === lineage.thoughtId,
+    );
+    // Thoughts an earlier merge brought in from this fork are not the
+    // target's own
+    const sinceFork =
+      forkPointInTarget >= 0
+        ? target.thoughts
+            .slice(forkPointInTarget + 1)
+            .filter((t) => !forkThoughtIds.has(t.id))
+        : [];
+
+    const conflicts = [
+      ...this.findRevisionConflicts(candidates, sinceFork),
+      ...this.findMissingReferences(candidates, targetIds),
+    ];
+
+    // A second merge continues the branch the first one started
+    const startsBranch =
+      forkPointInTarget >= 0 && skippedThoughtIds.length === 0;
+    const thoughts = candidates.map((thought, i) => {
+      const copy: Thought = {
+        ...structuredClone(thought),
+        sessionId: target.id,
+        thoughtNumber: target.thoughts.length + i + 1,
+        branchId: thought.branchId ?? branchId,
+      };
+      if (i === 0 && startsBranch && !copy.branchFrom) {
+        copy.branchFrom = lineage.thoughtId;
+      }
+      return copy;
+    });
+
+    if (forkPointInTarget < 0 && candidates.length > 0) {
+      conflicts.push({
+        kind: "missing_reference",
+        thoughtId: candidates[0].id,
+        relatedThoughtId: lineage.thoughtId,
+        detail: `Fork point ${lineage.thoughtId} is no longer in session ${target.id}`,
+      });
+    }
+
+    return {
+      branchId,
+      thoughts,
+      skippedThoughtIds,
+      targetThoughtsSinceFork: sinceFork.length,
+      conflicts,
+    };
+  }
+
+  /**
+   * Fork thoughts that revise a thought the target also revised after the
+   * fork point
+   */
+  private findRevisionConflicts(
+    candidates: Thought[],
+    sinceFork: Thought[],
+  ): BranchMergeConflict[] {
+    const revisedInTarget = new Map<string, string>();
+    for (const thought of sinceFork) {
+      if (thought.isRevision && thought.revisesThought) {
+        revisedInTarget.set(thought.revisesThought, thought.id);
+      }
+    }
+
+    const conflicts: BranchMergeConflict[] = [];
+    for (const thought of candidates) {
+      const revised = thought.isRevision ? thought.revisesThought : undefined;
+      const rival = revised && revisedInTarget.get(revised);
+      if (revised && rival) {
+        conflicts.push({
+          kind: "revision",
+          thoughtId: thought.id,
+          relatedThoughtId: revised,
+          detail: `Thought ${revised} was also revised in the target by ${rival}`,
+        });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * References from fork thoughts to thoughts neither session will hold
+   * after the merge
+   */
+  private findMissingReferences(
+    candidates: Thought[],
+    targetIds: Set<string>,
+  ): BranchMergeConflict[] {
+    const merged = new Set(candidates.map((t) => t.id));
+    const conflicts: BranchMergeConflict[] = [];
+    for (const thought of candidates) {
+      const references = [
+        thought.revisesThought,
+        thought.branchFrom,
+        ...(thought.dependencies ?? []),
+      ];
+      for (const ref of references) {
+        if (ref && !targetIds.has(ref) && !merged.has(ref)) {
+          conflicts.push({
+            kind: "missing_reference",
+            thoughtId: thought.id,
+            relatedThoughtId: ref,
+            detail: `Thought ${thought.id} refers to ${ref}, which is not in the target session`,
+          });
+        }
+      }
+    }
+    return conflicts;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Thought Compactor
+ *
+ * Folds a long session's older thoughts into small digests so the session
+ * stays cheap to hold in memory and to return from tools, while the full
+ * thoughts live in session storage.
+ *
+ * RESPONSIBILITY:
+ * - Pick the thoughts to compact: the oldest full thoughts beyond the
+ *   session's `compressionThreshold`, once there are a batch of them
+ * - Build a digest of one thought: same id and cross-references, shortened
+ *   content, and only the mode-specific fields that are small
+ *
+ * Archiving the originals and swapping digests in is `SessionManager`'s job;
+ * `SessionManager.getFullSession()` swaps them back out.
+ */
+
+import { ThinkingSession, Thought } from "../types/index.js";
+
+/**
+ * Longest `content` a digest keeps. Longer content is cut to its first
+ * sentence, or at a word boundary, and marked with an ellipsis.
+ */
+export const DIGEST_SUMMARY_LENGTH = 280;
+
+/**
+ * Largest serialized size, in characters, of a field a digest keeps as-is.
+ * Scalars and small structures (a posterior, a conclusion, a short list of
+ * premises) fit; graphs, matrices and advisory reports do not.
+ */
+export const DIGEST_FIELD_BUDGET = 512;
+
+/**
+ * Share of `compressionThreshold` that must pile up past it before a
+ * compaction runs. Each compaction rewrites the whole session, so folding
+ * one thought per added thought would rewrite it on every add.
+ */
+export const COMPACTION_BATCH_FRACTION = 0.1;
+
+/**
+ * Fields every digest keeps whatever their size, because other thoughts,
+ * metrics and exporters refer to a thought through them
+ */
+const REFERENCE_FIELDS = new Set([
+  "id",
+  "sessionId",
+  "mode",
+  "thoughtNumber",
+  "totalThoughts",
+  "timestamp",
+  "nextThoughtNeeded",
+  "thoughtType",
+  "isRevision",
+  "revisesThought",
+  "revisionReason",
+  "branchFrom",
+  "branchId",
+  "dependencies",
+  "buildUpon",
+  "uncertainty",
+  "importance",
+  "tags",
+]);
+
+/**
+ * Whether a thought is a digest rather than the full thought
+ */
+export function isThoughtDigest(thought: Thought): boolean {
+  return thought.digest !== undefined;
+}
+
+/**
+ * Shorten content to at most DIGEST_SUMMARY_LENGTH characters
+ */
+function summarizeContent(content: string): string {
+  if (content.length <= DIGEST_SUMMARY_LENGTH) {
+    return content;
+  }
+  const firstSentence = /^[\s\S]+?[.!?](?=\s|$)/.exec(content)?.[0];
+  if (firstSentence && firstSentence.length < DIGEST_SUMMARY_LENGTH) {
+    return `${firstSentence} …`;
+  }
+  const cut = content.slice(0, DIGEST_SUMMARY_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Thought Compactor - builds digests of older thoughts
+ *
+ * @example
+ * ```typescript
+ * const compactor = new ThoughtCompactor();
+ * const older = compactor.selectForCompaction(session);
+ * await storage.archiveThoughts(session.id, older);
+ * const digests = older.map((t) => compactor.digest(t));
+ * ```
+ */
+export class ThoughtCompactor {
+  /**
+   * The thoughts to compact, oldest first
+   *
+   * Once a session holds a batch (COMPACTION_BATCH_FRACTION of the
+   * threshold, at least one) of full thoughts beyond its newest
+   * `compressionThreshold`, every one of them is selected; until then none
+   * is. A threshold of 0 disables compaction.
+   */
+  selectForCompaction(session: ThinkingSession): Thought[] {
+    const threshold = session.config.compressionThreshold;
+    if (!(threshold > 0)) {
+      return [];
+    }
+    const full = session.thoughts.filter((t) => !isThoughtDigest(t));
+    const excess = full.length - threshold;
+    const batch = Math.max(1, Math.ceil(threshold * COMPACTION_BATCH_FRACTION));
+    return excess < batch ? [] : full.slice(0, excess);
+  }
+
+  /**
+   * Build the digest of one thought
+   *
+   * @param thought - The full thought
+   * @param compactedAt - When the digest is made
+   * @returns A new thought object; `thought` itself is not modified
+   */
+  digest(thought: Thought, compactedAt: Date = new Date()): Thought {
+    const digest: Record<string, unknown> = {};
+    const omittedFields: string[] = [];
+
+    for (const [key, value] of Object.entries(thought)) {
+      if (key === "content" || value === undefined) {
+        continue;
+      }
+      if (
+        REFERENCE_FIELDS.has(key) ||
+        JSON.stringify(value).length <= DIGEST_FIELD_BUDGET
+      ) {
+        digest[key] = value;
+      } else {
+        omittedFields.push(key);
+      }
+    }
+
+    digest.content = summarizeContent(thought.content);
+    digest.digest = {
+      compactedAt,
+      contentLength: thought.content.length,
+      omittedFields,
+    };
+    return digest as unknown as Thought;
+  }
+}
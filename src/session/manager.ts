@@ -14,6 +14,11 @@ import {
   ThinkingSession,
   SessionConfig,
   SessionMetadata,
+  SessionChangeEvent,
+  SessionChangeKind,
+  SessionChangeListener,
+  SessionBranchListing,
+  BranchMergeResult,
   Thought,
   ThinkingMode,
 } from "../types/index.js";
@@ -26,6 +31,8 @@ import {
 import {
   InvalidModeError,
   ResourceLimitError,
+  SessionAlreadyExistsError,
+  SessionError,
   SessionNotFoundError,
 } from "../utils/errors.js";
 import {
@@ -39,11 +46,14 @@ import { ILogger } from "../interfaces/ILogger.js";
 import { validateAdvisory } from "../validation/advisory.js";
 import { analyzeProofAdvisory } from "../proof/advisory.js";
 import { summarizeReasoningFlow } from "../taxonomy/flow-advisory.js";
-import { SessionStorage } from "./storage/interface.js";
-import { LRUCache } from "../cache/lru.js";
-import type { CacheStats } from "../cache/types.js";
+import { SessionStorage, SessionJournalEvent } from "./storage/interface.js";
+import { createCache } from "../cache/factory.js";
+import type { Cache, CacheStats } from "../cache/types.js";
 import { SessionMetricsCalculator } from "./SessionMetricsCalculator.js";
+import { ThoughtCompactor, isThoughtDigest } from "./ThoughtCompactor.js";
+import { SessionBrancher } from "./SessionBrancher.js";
 import { getConfig } from "../config/index.js";
+import { Clock, systemClock } from "../utils/clock.js";
 
 /**
  * Session history entry for meta-monitoring
@@ -73,9 +83,10 @@ interface StrategyPerformance {
  *
  * NOTE (audit 2026-08-03, H-3): `maxThoughtsInMemory` is now enforced —
  * `addThought()` rejects (throws `ResourceLimitError`) once a session
- * already holds `maxThoughtsInMemory` thoughts, rather than silently
- * accepting unbounded growth. Enforcement REJECTS new thoughts; it does not
- * drop or summarize old ones. Dropping the oldest thought (the audit's other
+ * already holds `maxThoughtsInMemory` full thoughts, rather than silently
+ * accepting unbounded growth. Digests left by compaction (below) do not
+ * count. Enforcement REJECTS new thoughts; it does not drop or summarize
+ * old ones. Dropping the oldest thought (the audit's other
  * suggested option) was rejected because many downstream consumers
  * (metrics, exporters, proof decomposition) assume `id`/`thoughtNumber`
  * cross-references (`revisesThought`, `buildUpon`, `dependencies`) stay
@@ -83,9 +94,16 @@ interface StrategyPerformance {
  * fuller audit of every consumer, which is out of scope for `src/session/**`
  * alone. See `SessionManager.addThought()` for the enforcement point.
  *
- * `compressionThreshold` remains unenforced: no compression logic exists
- * anywhere in `src/session/`, and none was added here — see CLAUDE.md's
- * environment variable table.
+ * `compressionThreshold` is enforced by compaction, not rejection: once a
+ * session holds a batch of full thoughts past the threshold (a tenth of
+ * it), `addThought()` archives the oldest in storage and keeps digests of
+ * them that retain every id and cross-reference (see `ThoughtCompactor`).
+ * That needs a storage backend with `archiveThoughts` and
+ * `loadArchivedThoughts`; without them nothing is compacted, every thought
+ * stays full, and the `maxThoughtsInMemory` rejection is the only bound.
+ *
+ * Both values below are fallbacks. `mergeConfig` takes the server's
+ * `MCP_MAX_THOUGHTS` / `MCP_COMPRESSION_THRESHOLD` settings over them.
  */
 const DEFAULT_CONFIG: SessionConfig = {
   modeConfig: {
@@ -127,23 +145,41 @@ const DEFAULT_CONFIG: SessionConfig = {
  * ```
  */
 export class SessionManager {
-  private activeSessions: LRUCache<ThinkingSession>;
+  private activeSessions: Cache<ThinkingSession>;
   private config: Partial<SessionConfig>;
   private logger: ILogger;
   private storage?: SessionStorage;
   private metricsCalculator: SessionMetricsCalculator;
+  private compactor: ThoughtCompactor;
+  private brancher: SessionBrancher;
+  private clock: Clock;
+
+  // Stops the sweeper's timers (see startSweeper)
+  private sweeperTimers: Array<() => void> = [];
 
   // Meta-monitoring state (merged from MetaMonitor)
   private sessionHistory: Map<string, SessionHistoryEntry[]> = new Map();
   private currentStrategies: Map<string, StrategyPerformance> = new Map();
   private modeTransitions: Map<string, ThinkingMode[]> = new Map();
 
+  // Change listeners (MCP resource subscriptions, see src/index.ts)
+  private changeListeners: Set<SessionChangeListener> = new Set();
+
+  // Full thoughts among the first `counted` of each thoughts array (see
+  // countFullThoughts). Compaction replaces the array, which starts a new tally.
+  private fullThoughtTallies: WeakMap<
+    Thought[],
+    { counted: number; full: number }
+  > = new WeakMap();
+
   /**
    * Creates a new SessionManager instance
    *
    * @param config - Optional default configuration applied to all new sessions
    * @param logger - Optional logger instance or log level (default: INFO level logger)
    * @param storage - Optional persistent storage backend for sessions
+   * @param clock - Time source for every timestamp the manager records, for
+   *   session expiry and for the sweeper (default: the system clock)
    *
    * @example
    * ```typescript
@@ -169,13 +205,16 @@ export class SessionManager {
     config?: Partial<SessionConfig>,
     logger?: ILogger | LogLevel,
     storage?: SessionStorage,
+    clock: Clock = systemClock,
   ) {
-    // Initialize LRU cache for sessions. maxSize is threaded from
+    // Initialize the session cache. maxSize is threaded from
     // getConfig().maxActiveSessions (MCP_MAX_SESSIONS, default 100) — audit
     // 2026-08-03 M-1: this used to be hardcoded to 1000 regardless of config,
     // so the documented env var did nothing and the real cap was 10x higher
-    // than advertised.
-    this.activeSessions = new LRUCache<ThinkingSession>({
+    // than advertised. The eviction strategy (MCP_SESSION_CACHE_STRATEGY)
+    // defaults to LRU; LFU suits a few long-lived sessions read over and over.
+    this.activeSessions = createCache<ThinkingSession>({
+      strategy: getConfig().sessionCacheStrategy,
       maxSize: getConfig().maxActiveSessions,
       enableStats: true,
       onEvict: async (key: string, session: ThinkingSession) => {
@@ -227,6 +266,9 @@ export class SessionManager {
       });
     }
     this.metricsCalculator = new SessionMetricsCalculator();
+    this.compactor = new ThoughtCompactor();
+    this.brancher = new SessionBrancher();
+    this.clock = clock;
   }
 
   /**
@@ -276,7 +318,7 @@ export class SessionManager {
       : undefined;
 
     const sessionId = randomUUID();
-    const now = new Date();
+    const now = new Date(this.clock.now());
 
     const session: ThinkingSession = {
       id: sessionId,
@@ -325,6 +367,8 @@ export class SessionManager {
     // Start meta-monitoring strategy tracking
     this.startMetaStrategy(sessionId, session.mode);
 
+    this.notifyChange(sessionId, "created");
+
     this.logger.info("Session created", {
       sessionId,
       title,
@@ -336,6 +380,330 @@ export class SessionManager {
     return session;
   }
 
+  /**
+   * Register an existing session, such as one rebuilt by
+   * `ImportService.parseSession` from a JSON export
+   *
+   * The session keeps its id, timestamps, thoughts and metrics, so exporting
+   * it again gives back the export it came from. It is cached, auto-saved and
+   * announced exactly like a session from `createSession`.
+   *
+   * @param session - A complete session; it is stored as given, not copied
+   * @returns Promise resolving to the registered session
+   * @throws SessionAlreadyExistsError if a session with this id exists, in
+   *   memory or in storage
+   * @throws ResourceLimitError if it holds more thoughts than its own
+   *   `maxThoughtsInMemory` allows
+   * @throws SessionError if it is already past the configured sessionTimeoutMs,
+   *   since it would be evicted on its first access
+   *
+   * @example
+   * ```typescript
+   * const session = importService.parseSession(archivedJson);
+   * await manager.importSession(session);
+   * ```
+   */
+  async importSession(session: ThinkingSession): Promise<ThinkingSession> {
+    validateSessionId(session.id);
+
+    // getSession, not getLiveSession: a session held only in storage counts
+    if (await this.getSession(session.id)) {
+      throw new SessionAlreadyExistsError(session.id);
+    }
+
+    const thoughtCap = session.config.maxThoughtsInMemory;
+    const fullThoughts = this.countFullThoughts(session);
+    if (
+      typeof thoughtCap === "number" &&
+      thoughtCap > 0 &&
+      fullThoughts > thoughtCap
+    ) {
+      throw new ResourceLimitError("thoughts", thoughtCap, fullThoughts);
+    }
+
+    if (this.isSessionExpired(session)) {
+      throw new SessionError(
+        `Session ${session.id} was last updated ${session.updatedAt.toISOString()}, past the configured session timeout`,
+        {
+          sessionId: session.id,
+          sessionTimeoutMs: getConfig().sessionTimeoutMs,
+        },
+      );
+    }
+
+    // An export of a session the sweeper expired carries the mark; the
+    // timeout check above has just let it back in
+    delete session.expiredAt;
+    this.activeSessions.set(session.id, session);
+
+    if (this.storage && session.config.enableAutoSave) {
+      try {
+        await this.storage.saveSession(session);
+        this.logger.debug("Imported session persisted to storage", {
+          sessionId: session.id,
+        });
+      } catch (error) {
+        this.logger.error(
+          "Failed to persist imported session",
+          error as Error,
+          {
+            sessionId: session.id,
+          },
+        );
+        // Don't throw - session is still imported in memory
+      }
+    }
+
+    // Rebuild meta-monitoring state as if the thoughts had just been added
+    this.startMetaStrategy(session.id, session.mode);
+    for (const thought of session.thoughts) {
+      this.recordMetaThought(session.id, thought);
+    }
+
+    this.notifyChange(session.id, "created");
+
+    this.logger.info("Session imported", {
+      sessionId: session.id,
+      title: session.title,
+      mode: session.mode,
+      thoughtCount: session.thoughts.length,
+    });
+
+    return session;
+  }
+
+  /**
+   * Fork a session: copy it, up to one of its thoughts, into a new session
+   *
+   * The fork gets a new id and the parent's title, mode, domain and config,
+   * plus copies of the parent's thoughts up to and including the fork point,
+   * restored in full if the parent has compacted them. It records where it
+   * came from in `forkedFrom`; `mergeBranch` uses that to bring the fork's
+   * later thoughts back. The parent is not changed.
+   *
+   * @param sessionId - ID of the session to fork
+   * @param options.thoughtId - The last thought to copy (default: the newest)
+   * @param options.title - Title of the fork (default: the parent's, marked
+   *   as a fork)
+   * @returns Promise resolving to the new session
+   * @throws SessionNotFoundError if the session is not found
+   * @throws SessionError if the session has no thoughts, or none with
+   *   `thoughtId`
+   *
+   * @example
+   * ```typescript
+   * const fork = await manager.forkSession(session.id, {
+   *   thoughtId: session.thoughts[2].id,
+   * });
+   * ```
+   */
+  async forkSession(
+    sessionId: string,
+    options: { thoughtId?: string; title?: string } = {},
+  ): Promise<ThinkingSession> {
+    validateSessionId(sessionId);
+
+    const parent = await this.getFullSession(sessionId);
+    if (!parent) {
+      this.logger.error("Session not found", undefined, { sessionId });
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    const forkId = randomUUID();
+    const now = new Date(this.clock.now());
+    const { thoughts, lineage } = this.brancher.forkThoughts(
+      parent,
+      forkId,
+      options.thoughtId,
+      now,
+    );
+    const title = sanitizeString(
+      options.title ?? `${parent.title} (fork)`,
+      MAX_LENGTHS.TITLE,
+      "title",
+    );
+
+    const fork: ThinkingSession = {
+      id: forkId,
+      title,
+      mode: parent.mode,
+      domain: parent.domain,
+      config: structuredClone(parent.config),
+      thoughts: [],
+      createdAt: now,
+      updatedAt: now,
+      author: parent.author,
+      currentThoughtNumber: lineage.thoughtNumber,
+      isComplete: false,
+      forkedFrom: lineage,
+      metrics: this.metricsCalculator.initializeMetrics(),
+      tags: [...(parent.tags ?? [])],
+      collaborators: [...(parent.collaborators ?? [])],
+    };
+    for (const thought of thoughts) {
+      fork.thoughts.push(thought);
+      this.metricsCalculator.updateMetrics(fork, thought);
+    }
+
+    this.activeSessions.set(forkId, fork);
+
+    if (this.storage && fork.config.enableAutoSave) {
+      try {
+        await this.storage.saveSession(fork);
+        this.logger.debug("Forked session persisted to storage", {
+          sessionId: forkId,
+        });
+      } catch (error) {
+        this.logger.error("Failed to persist forked session", error as Error, {
+          sessionId: forkId,
+        });
+        // Don't throw - the fork still exists in memory
+      }
+    }
+
+    this.startMetaStrategy(forkId, fork.mode);
+    for (const thought of fork.thoughts) {
+      this.recordMetaThought(forkId, thought);
+    }
+
+    await this.compactThoughts(fork);
+
+    this.notifyChange(forkId, "created");
+
+    this.logger.info("Session forked", {
+      sessionId: forkId,
+      parentSessionId: sessionId,
+      thoughtId: lineage.thoughtId,
+      thoughtCount: fork.thoughts.length,
+    });
+
+    return fork;
+  }
+
+  /**
+   * Group a session's thoughts by `branchId`
+   *
+   * @param sessionId - ID of the session
+   * @returns Promise resolving to the session's branches, in order of each
+   *   branch's first thought, and how many thoughts are on no branch
+   * @throws SessionNotFoundError if the session is not found
+   */
+  async listBranches(sessionId: string): Promise<SessionBranchListing> {
+    validateSessionId(sessionId);
+
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return this.brancher.listBranches(session);
+  }
+
+  /**
+   * Merge a fork's thoughts back into the session it was forked from
+   *
+   * The thoughts the fork added after its fork point are appended to the
+   * parent on their own branch (`branchId`, by default the fork's id), the
+   * first branching from the fork point. Nothing already in the parent is
+   * changed, and thoughts merged before are skipped, so a fork can be merged
+   * again as it grows. Where the two sessions disagree, the result lists a
+   * conflict instead of failing: see `BranchMergeConflict`. The fork is not
+   * changed.
+   *
+   * @param sessionId - ID of the fork
+   * @param options.branchId - Branch to put the merged thoughts on
+   * @returns Promise resolving to what was merged, skipped and in conflict
+   * @throws SessionNotFoundError if the fork or its parent is not found
+   * @throws SessionError if the session is not a fork, or the branch already
+   *   holds parent thoughts that did not come from this fork
+   * @throws ResourceLimitError if the merge would take the parent past its
+   *   `maxThoughtsInMemory`
+   *
+   * @example
+   * ```typescript
+   * const result = await manager.mergeBranch(fork.id);
+   * for (const conflict of result.conflicts) console.warn(conflict.detail);
+   * ```
+   */
+  async mergeBranch(
+    sessionId: string,
+    options: { branchId?: string } = {},
+  ): Promise<BranchMergeResult> {
+    validateSessionId(sessionId);
+
+    const fork = await this.getFullSession(sessionId);
+    if (!fork) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    if (!fork.forkedFrom) {
+      throw new SessionError(`Session ${sessionId} is not a fork`, {
+        sessionId,
+      });
+    }
+
+    const targetId = fork.forkedFrom.sessionId;
+    const target = await this.getSession(targetId);
+    if (!target) {
+      throw new SessionNotFoundError(targetId);
+    }
+
+    const plan = this.brancher.planMerge(target, fork, options.branchId);
+
+    const thoughtCap = target.config.maxThoughtsInMemory;
+    const newCount = this.countFullThoughts(target) + plan.thoughts.length;
+    if (
+      typeof thoughtCap === "number" &&
+      thoughtCap > 0 &&
+      newCount > thoughtCap
+    ) {
+      throw new ResourceLimitError("thoughts", thoughtCap, newCount);
+    }
+
+    if (plan.thoughts.length > 0) {
+      target.updatedAt = new Date(this.clock.now());
+      for (const thought of plan.thoughts) {
+        target.thoughts.push(thought);
+        this.metricsCalculator.updateMetrics(target, thought);
+        this.recordMetaThought(targetId, thought);
+      }
+      target.currentThoughtNumber = target.thoughts.length;
+
+      if (this.storage && target.config.enableAutoSave) {
+        try {
+          await this.storage.saveSession(target);
+        } catch (error) {
+          this.logger.error("Failed to persist session", error as Error, {
+            sessionId: targetId,
+          });
+          // Don't throw - the merge still happened in memory
+        }
+      }
+
+      await this.compactThoughts(target);
+
+      for (const thought of plan.thoughts) {
+        this.notifyChange(targetId, "thought_added", thought.id);
+      }
+    }
+
+    this.logger.info("Branch merged", {
+      sessionId: targetId,
+      sourceSessionId: sessionId,
+      branchId: plan.branchId,
+      merged: plan.thoughts.length,
+      conflicts: plan.conflicts.length,
+    });
+
+    return {
+      sessionId: targetId,
+      sourceSessionId: sessionId,
+      branchId: plan.branchId,
+      mergedThoughtIds: plan.thoughts.map((t) => t.id),
+      skippedThoughtIds: plan.skippedThoughtIds,
+      targetThoughtsSinceFork: plan.targetThoughtsSinceFork,
+      conflicts: plan.conflicts,
+    };
+  }
+
   /**
    * Get a session by ID
    *
@@ -381,6 +749,8 @@ export class SessionManager {
             });
             return null;
           }
+          // Expired under a shorter timeout than the one now configured
+          delete session.expiredAt;
           // Add to active sessions cache
           this.activeSessions.set(sessionId, session);
           this.logger.debug("Session loaded from storage", { sessionId });
@@ -397,6 +767,56 @@ export class SessionManager {
     return session || null;
   }
 
+  /**
+   * Get a session with every compacted thought restored in full
+   *
+   * `getSession` returns the session as held in memory, where thoughts past
+   * the `compressionThreshold` are digests. Exports and other readers that
+   * need the original content use this instead; the full thoughts are loaded
+   * from storage on each call, and the in-memory session keeps its digests.
+   * A digest whose original cannot be loaded is returned as the digest.
+   *
+   * @param sessionId - Unique UUID v4 identifier of the session
+   * @returns Promise resolving to a copy of the session with full thoughts,
+   *   the session itself if nothing is compacted, or null if not found
+   */
+  async getFullSession(sessionId: string): Promise<ThinkingSession | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+    const digestIds = session.thoughts
+      .filter(isThoughtDigest)
+      .map((thought) => thought.id);
+    if (digestIds.length === 0 || !this.storage?.loadArchivedThoughts) {
+      return session;
+    }
+
+    let archived: Thought[] = [];
+    try {
+      archived = await this.storage.loadArchivedThoughts(sessionId, digestIds);
+    } catch (error) {
+      this.logger.error("Failed to load archived thoughts", error as Error, {
+        sessionId,
+      });
+    }
+    if (archived.length < digestIds.length) {
+      this.logger.warn("Some compacted thoughts could not be restored", {
+        sessionId,
+        compacted: digestIds.length,
+        restored: archived.length,
+      });
+    }
+
+    const byId = new Map(archived.map((thought) => [thought.id, thought]));
+    return {
+      ...session,
+      thoughts: session.thoughts.map(
+        (thought) => byId.get(thought.id) ?? thought,
+      ),
+    };
+  }
+
   /**
    * Add a thought to a session
    *
@@ -437,28 +857,26 @@ export class SessionManager {
 
     // Audit 2026-08-03 H-3: maxThoughtsInMemory is enforced for real. Reject
     // BEFORE any mutation once the session is already at capacity, rather
-    // than dropping/summarizing old thoughts (see DEFAULT_CONFIG comment
-    // above for why a hard drop was rejected). A rejection has no side
-    // effects: no push, no metrics update, no auto-save attempt.
+    // than dropping old thoughts (see DEFAULT_CONFIG comment above for why a
+    // hard drop was rejected). Digests of compacted thoughts do not count. A
+    // rejection has no side effects: no push, no metrics update, no
+    // auto-save attempt.
     const thoughtCap = session.config.maxThoughtsInMemory;
+    const fullThoughts = this.countFullThoughts(session);
     if (
       typeof thoughtCap === "number" &&
       thoughtCap > 0 &&
-      session.thoughts.length >= thoughtCap
+      fullThoughts >= thoughtCap
     ) {
       this.logger.warn(
         "Session reached configured maxThoughtsInMemory; rejecting new thought",
         {
           sessionId,
           maxThoughtsInMemory: thoughtCap,
-          currentThoughtCount: session.thoughts.length,
+          currentThoughtCount: fullThoughts,
         },
       );
-      throw new ResourceLimitError(
-        "thoughts",
-        thoughtCap,
-        session.thoughts.length + 1,
-      );
+      throw new ResourceLimitError("thoughts", thoughtCap, fullThoughts + 1);
     }
 
     // Validate thought content
@@ -468,7 +886,7 @@ export class SessionManager {
 
     // Update thought with session metadata
     thought.sessionId = sessionId;
-    thought.timestamp = new Date();
+    thought.timestamp = new Date(this.clock.now());
 
     // Advisory validation (v9.4.0). Runs on the sanitized, session-stamped
     // thought so the client sees feedback on what was actually stored.
@@ -489,10 +907,11 @@ export class SessionManager {
       if (proofAnalysis) thought.proofAnalysis = proofAnalysis;
     }
 
-    // Add thought to session
+    // Add thought to session, tallying it now so later inserts never read it
     session.thoughts.push(thought);
+    this.countFullThoughts(session);
     session.currentThoughtNumber = thought.thoughtNumber;
-    session.updatedAt = new Date();
+    session.updatedAt = new Date(this.clock.now());
 
     // Update metrics
     this.metricsCalculator.updateMetrics(session, thought);
@@ -513,7 +932,10 @@ export class SessionManager {
     // Auto-save to storage if enabled
     if (this.storage && session.config.enableAutoSave) {
       try {
-        await this.storage.saveSession(session);
+        await this.persistChange(this.storage, session, {
+          type: "thought_added",
+          thought,
+        });
         this.logger.debug("Session persisted after thought added", {
           sessionId,
         });
@@ -525,12 +947,16 @@ export class SessionManager {
       }
     }
 
+    await this.compactThoughts(session);
+
     this.logger.debug("Thought added", {
       sessionId,
       thoughtNumber: thought.thoughtNumber,
       totalThoughts: session.thoughts.length,
     });
 
+    this.notifyChange(sessionId, "thought_added", thought.id);
+
     return session;
   }
 
@@ -585,12 +1011,16 @@ export class SessionManager {
     const oldMode = session.mode;
     session.mode = newMode;
     session.config.modeConfig.mode = newMode;
-    session.updatedAt = new Date();
+    session.updatedAt = new Date(this.clock.now());
 
     // Auto-save to storage if enabled
     if (this.storage && session.config.enableAutoSave) {
       try {
-        await this.storage.saveSession(session);
+        await this.persistChange(this.storage, session, {
+          type: "mode_switched",
+          from: oldMode,
+          to: newMode,
+        });
         this.logger.debug("Session persisted after mode switch", { sessionId });
       } catch (error) {
         this.logger.error("Failed to persist session", error as Error, {
@@ -606,6 +1036,8 @@ export class SessionManager {
       reason,
     });
 
+    this.notifyChange(sessionId, "mode_switched");
+
     return session;
   }
 
@@ -613,7 +1045,8 @@ export class SessionManager {
    * List all active sessions with metadata
    *
    * Returns summary information for all sessions. If storage is available,
-   * includes both in-memory sessions and persisted sessions.
+   * includes both in-memory sessions and persisted sessions; stored sessions
+   * the sweeper expired carry `expiredAt`.
    *
    * @param includeStoredSessions - Whether to include sessions from storage (default: true)
    * @returns Promise resolving to array of session metadata
@@ -697,10 +1130,12 @@ export class SessionManager {
     // never tracked (or already cleared) is harmless.
     this.clearMetaSession(sessionId);
 
-    // Also delete from storage if available
+    // Also delete from storage if available. A session evicted from memory
+    // still has subscribers, so deleting its stored copy is a deletion too.
+    let deletedFromStorage = false;
     if (this.storage) {
       try {
-        await this.storage.deleteSession(sessionId);
+        deletedFromStorage = await this.storage.deleteSession(sessionId);
         this.logger.debug("Session deleted from storage", { sessionId });
       } catch (error) {
         this.logger.error(
@@ -711,14 +1146,15 @@ export class SessionManager {
       }
     }
 
-    if (deletedFromMemory && session) {
+    if (deletedFromMemory || deletedFromStorage) {
       this.logger.info("Session deleted", {
         sessionId,
-        title: session.title,
-        thoughtCount: session.thoughts.length,
+        title: session?.title,
+        thoughtCount: session?.thoughts.length,
       });
+      this.notifyChange(sessionId, "deleted");
     } else {
-      this.logger.warn("Attempted to delete non-existent session from memory", {
+      this.logger.warn("Attempted to delete non-existent session", {
         sessionId,
       });
     }
@@ -779,6 +1215,278 @@ export class SessionManager {
     return summary;
   }
 
+  /**
+   * Register a listener for session changes
+   *
+   * Called synchronously after `createSession`, `addThought`, `switchMode` and
+   * `deleteSession` have finished mutating (and auto-saving) the session, so a
+   * listener that reads the session back sees the new state. A listener that
+   * throws is logged and skipped; it never fails the operation that fired it.
+   *
+   * @param listener - Callback invoked with each change event
+   * @returns A function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = manager.onSessionChange((event) => {
+   *   console.log(`${event.sessionId}: ${event.kind}`);
+   * });
+   * unsubscribe();
+   * ```
+   */
+  onSessionChange(listener: SessionChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start expiring idle sessions and cleaning up storage in the background
+   *
+   * Every `sessionSweepIntervalMs` (when `sessionTimeoutMs` is set) runs
+   * `sweepIdleSessions`, and every `storageCleanupIntervalMs` (when storage
+   * is configured) runs `cleanupStorage`. Intervals are read from the server
+   * config when this is called; calling it again restarts the timers with
+   * the current values. The timers do not keep the process alive.
+   *
+   * @example
+   * ```typescript
+   * manager.startSweeper();
+   * // ...
+   * manager.stopSweeper();
+   * ```
+   */
+  startSweeper(): void {
+    this.stopSweeper();
+    const {
+      sessionTimeoutMs,
+      sessionSweepIntervalMs,
+      storageCleanupIntervalMs,
+    } = getConfig();
+
+    if (sessionTimeoutMs > 0 && sessionSweepIntervalMs > 0) {
+      this.sweeperTimers.push(
+        this.clock.every(sessionSweepIntervalMs, () => {
+          void this.sweepIdleSessions();
+        }),
+      );
+    }
+    if (this.storage && storageCleanupIntervalMs > 0) {
+      this.sweeperTimers.push(
+        this.clock.every(storageCleanupIntervalMs, () => {
+          void this.cleanupStorage();
+        }),
+      );
+    }
+  }
+
+  /**
+   * Stop the timers started by `startSweeper`
+   */
+  stopSweeper(): void {
+    for (const stop of this.sweeperTimers) {
+      stop();
+    }
+    this.sweeperTimers = [];
+  }
+
+  /**
+   * Expire every in-memory session idle for longer than `sessionTimeoutMs`
+   *
+   * Each one is marked with `expiredAt`, saved when storage is configured
+   * and the session auto-saves (so the mark reaches the stored metadata),
+   * then dropped from memory with its meta-monitoring state, and announced
+   * as an `expired` change. A failed save is logged and the session is
+   * dropped anyway, as on LRU eviction. Without a sweeper running, idle
+   * sessions still expire lazily on their next access.
+   *
+   * @returns The ids of the expired sessions
+   */
+  async sweepIdleSessions(): Promise<string[]> {
+    const idle = this.activeSessions
+      .values()
+      .filter((session) => this.isSessionExpired(session));
+
+    for (const session of idle) {
+      session.expiredAt = new Date(this.clock.now());
+      if (this.storage && session.config.enableAutoSave) {
+        try {
+          await this.storage.saveSession(session);
+        } catch (error) {
+          this.logger.error(
+            "Failed to persist expired session",
+            error as Error,
+            {
+              sessionId: session.id,
+            },
+          );
+        }
+      }
+      this.activeSessions.delete(session.id);
+      this.clearMetaSession(session.id);
+      this.notifyChange(session.id, "expired");
+    }
+
+    if (idle.length > 0) {
+      this.logger.info("Idle sessions expired", {
+        count: idle.length,
+        sessionTimeoutMs: getConfig().sessionTimeoutMs,
+      });
+    }
+    return idle.map((session) => session.id);
+  }
+
+  /**
+   * Delete stored sessions created more than `storageCleanupMaxAgeMs` ago
+   *
+   * Runs `SessionStorage.cleanup`, keeping the stored copies of the sessions
+   * held in memory: they are still in use, however long ago they were
+   * created. Errors are logged, not thrown, since this runs from a timer.
+   *
+   * @returns How many sessions storage deleted
+   */
+  async cleanupStorage(): Promise<number> {
+    if (!this.storage) {
+      return 0;
+    }
+    const maxAgeMs = getConfig().storageCleanupMaxAgeMs;
+    try {
+      const removed = await this.storage.cleanup(
+        maxAgeMs,
+        this.clock.now(),
+        new Set(this.activeSessions.keys()),
+      );
+      if (removed > 0) {
+        this.logger.info("Stored sessions cleaned up", { removed, maxAgeMs });
+      }
+      return removed;
+    } catch (error) {
+      this.logger.error("Failed to clean up session storage", error as Error, {
+        maxAgeMs,
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Fold the session's oldest full thoughts into digests (private helper)
+   *
+   * Runs once the session holds a batch of full thoughts past
+   * `compressionThreshold` (see `ThoughtCompactor.selectForCompaction`), so
+   * the session is saved once per batch rather than once per thought. The
+   * originals are archived first, so a failure at any point leaves every
+   * thought recoverable: if archiving fails nothing is folded, and if saving
+   * fails the archive already holds the originals.
+   */
+  private async compactThoughts(session: ThinkingSession): Promise<void> {
+    const storage = this.storage;
+    if (!storage?.archiveThoughts || !storage.loadArchivedThoughts) {
+      return;
+    }
+    const older = this.compactor.selectForCompaction(session);
+    if (older.length === 0) {
+      return;
+    }
+
+    try {
+      await storage.archiveThoughts(session.id, older);
+    } catch (error) {
+      this.logger.error("Failed to archive thoughts", error as Error, {
+        sessionId: session.id,
+      });
+      return;
+    }
+
+    const compactedAt = new Date(this.clock.now());
+    const folded = new Set(older.map((t) => t.id));
+    session.thoughts = session.thoughts.map((thought) =>
+      folded.has(thought.id)
+        ? this.compactor.digest(thought, compactedAt)
+        : thought,
+    );
+    this.logger.debug("Thoughts compacted", {
+      sessionId: session.id,
+      compacted: older.length,
+    });
+
+    if (session.config.enableAutoSave) {
+      try {
+        await storage.saveSession(session);
+      } catch (error) {
+        this.logger.error("Failed to persist session", error as Error, {
+          sessionId: session.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Thoughts that count against `maxThoughtsInMemory`: digests of compacted
+   * thoughts are a few hundred bytes each and do not
+   *
+   * Thoughts are only ever appended to a session's array, so each is read
+   * once, on the first count after it was added.
+   */
+  private countFullThoughts(session: ThinkingSession): number {
+    const thoughts = session.thoughts;
+    let tally = this.fullThoughtTallies.get(thoughts);
+    if (!tally) {
+      tally = { counted: 0, full: 0 };
+      this.fullThoughtTallies.set(thoughts, tally);
+    }
+    for (; tally.counted < thoughts.length; tally.counted++) {
+      if (!isThoughtDigest(thoughts[tally.counted])) tally.full++;
+    }
+    return tally.full;
+  }
+
+  /**
+   * Persist one change to a session (private helper)
+   *
+   * Backends with `appendEvent` record just the change; others get the
+   * whole session through `saveSession`.
+   */
+  private async persistChange(
+    storage: SessionStorage,
+    session: ThinkingSession,
+    event: SessionJournalEvent,
+  ): Promise<void> {
+    if (storage.appendEvent) {
+      await storage.appendEvent(session, event);
+    } else {
+      await storage.saveSession(session);
+    }
+  }
+
+  /**
+   * Deliver a change event to every registered listener (private helper)
+   */
+  private notifyChange(
+    sessionId: string,
+    kind: SessionChangeKind,
+    thoughtId?: string,
+  ): void {
+    if (this.changeListeners.size === 0) return;
+
+    const event: SessionChangeEvent = {
+      sessionId,
+      kind,
+      thoughtId,
+      timestamp: new Date(this.clock.now()),
+    };
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error("Session change listener failed", error as Error, {
+          sessionId,
+          kind,
+        });
+      }
+    }
+  }
+
   /**
    * Merge configurations (private helper)
    *
@@ -786,8 +1494,11 @@ export class SessionManager {
    * with proper precedence: user > instance > default
    */
   private mergeConfig(userConfig?: Partial<SessionConfig>): SessionConfig {
+    const { maxThoughtsInMemory, compressionThreshold } = getConfig();
     return {
       ...DEFAULT_CONFIG,
+      maxThoughtsInMemory,
+      compressionThreshold,
       ...this.config,
       ...userConfig,
     } as SessionConfig;
@@ -820,8 +1531,9 @@ export class SessionManager {
   // validated, and never consumed anywhere — a session never expired
   // regardless of the configured value. This implements lazy expiry: a
   // session older than sessionTimeoutMs (measured from its last update) is
-  // evicted the next time it is *accessed*, not via a background timer, to
-  // avoid holding a process-lifetime interval/timeout handle.
+  // evicted the next time it is *accessed*. The sweeper (startSweeper) also
+  // expires idle sessions nobody accesses; its timers are unref'd, so they
+  // never hold the process open.
   // ============================================
 
   /**
@@ -833,11 +1545,11 @@ export class SessionManager {
     if (!timeoutMs || timeoutMs <= 0) {
       return false;
     }
-    return Date.now() - session.updatedAt.getTime() > timeoutMs;
+    return this.clock.now() - session.updatedAt.getTime() > timeoutMs;
   }
 
   /**
-   * Get a session from the in-memory LRU cache, transparently evicting (and
+   * Get a session from the in-memory session cache, transparently evicting (and
    * clearing its meta-monitoring state) if it has expired per
    * sessionTimeoutMs. Returns undefined for both "not present" and "expired".
    */
@@ -899,7 +1611,7 @@ export class SessionManager {
     this.currentStrategies.set(sessionId, {
       mode,
       thoughtsSpent: 0,
-      startTime: new Date(),
+      startTime: new Date(this.clock.now()),
       progressIndicators: [],
       issuesEncountered: [],
     });
@@ -949,7 +1661,7 @@ export class SessionManager {
     const thoughtsSpent = strategy.thoughtsSpent;
     const progressMade = strategy.progressIndicators.length;
     const issuesCount = strategy.issuesEncountered.length;
-    const timeElapsed = new Date().getTime() - strategy.startTime.getTime();
+    const timeElapsed = this.clock.now() - strategy.startTime.getTime();
 
     // Effectiveness: progress relative to effort
     const effectiveness = Math.min(
@@ -1171,10 +1883,10 @@ export class SessionManager {
   }
 
   /**
-   * Get statistics for the in-memory active-sessions LRU cache
+   * Get statistics for the in-memory active-sessions cache
    * (hits, misses, hit rate, evictions, etc).
    *
-   * Exposes {@link LRUCache.getStats} so callers/tests can assert on
+   * Exposes {@link Cache.getStats} so callers/tests can assert on
    * observable cache behavior (e.g. hit count) instead of wall-clock
    * timing, which is unreliable on shared/loaded machines.
    *
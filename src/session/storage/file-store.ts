@@ -2,9 +2,26 @@
  * File-based Session Storage Implementation
  *
  * Stores sessions as JSON files in a directory structure:
- * - {baseDir}/sessions/{sessionId}.json
+ * - {baseDir}/sessions/{sessionId}.json (snapshot)
+ * - {baseDir}/journal/{sessionId}.jsonl (changes since the snapshot)
+ * - {baseDir}/archive/{sessionId}.jsonl (full copies of compacted thoughts)
  * - {baseDir}/metadata/index.json (for fast listings)
  *
+ * With `enableCompression`, snapshots and the metadata index are written
+ * gzip- or brotli-compressed, as `{name}.json.gz` or `{name}.json.br`.
+ * Reads accept any of the three forms, so turning compression on or off
+ * needs no migration: each file is rewritten in the new form the next time
+ * it is saved. Journals and archives are appended to, and stay plain.
+ *
+ * Write-ahead journal: `appendEvent` appends each added thought or mode
+ * switch to the session's journal and fsyncs it, so a change is durable as
+ * soon as it returns, without rewriting the snapshot. Every
+ * `compactionThreshold` events the session is compacted: `saveSession`
+ * writes a new snapshot (to a temp file, then renamed over the old one, so a
+ * crash mid-write leaves the previous snapshot intact) and removes the
+ * journal. `loadSession` replays the journal over the snapshot, and
+ * `initialize()` compacts every journal left behind by a crash.
+ *
  * Supports multi-instance MCP servers via file locking:
  * - Exclusive locks for write operations
  * - Shared locks for read operations
@@ -13,9 +30,14 @@
 
 import { promises as fs } from "fs";
 import * as path from "path";
-import { ThinkingSession, SessionMetadata } from "../../types/index.js";
+import {
+  ThinkingSession,
+  SessionMetadata,
+  Thought,
+} from "../../types/index.js";
 import {
   SessionStorage,
+  SessionJournalEvent,
   StorageStats,
   StorageConfig,
   DEFAULT_STORAGE_CONFIG,
@@ -28,6 +50,18 @@ import {
 } from "../../utils/file-lock.js";
 import { validateSessionId } from "../../utils/sanitization.js";
 import { StorageError } from "../../utils/errors.js";
+import {
+  prepareForSerialization,
+  restoreFromSerialization,
+} from "./serialization.js";
+import {
+  CompressionAlgorithm,
+  compressedPath,
+  decodeStored,
+  encodeStored,
+  isStoredVariant,
+  storedPathVariants,
+} from "./compression.js";
 
 /**
  * Default lock options for file operations
@@ -38,17 +72,32 @@ const DEFAULT_LOCK_OPTIONS: LockOptions = {
   staleThreshold: 30000, // 30 seconds before lock is considered stale
 };
 
+/**
+ * One line of a session journal: the event, plus the session as it stood
+ * after it, minus the thoughts (which the snapshot and earlier
+ * `thought_added` lines already hold)
+ */
+type JournalEntry = SessionJournalEvent & {
+  envelope: Omit<ThinkingSession, "thoughts">;
+};
+
 /**
  * File-based session storage with multi-instance support
  */
 export class FileSessionStore implements SessionStorage {
   private baseDir: string;
   private sessionsDir: string;
+  private journalDir: string;
+  private archiveDir: string;
   private metadataFile: string;
   private config: StorageConfig;
   private metadataCache: Map<string, SessionMetadata>;
   private initialized: boolean = false;
   private lockOptions: LockOptions;
+  private pendingEvents: Map<string, number>;
+  // Sessions whose cached metadata is newer than the index on disk
+  private unindexed: Set<string>;
+  private compression: CompressionAlgorithm | null;
 
   /**
    * Create a new FileSessionStore
@@ -59,14 +108,21 @@ export class FileSessionStore implements SessionStorage {
   constructor(baseDir: string, config?: Partial<StorageConfig>) {
     this.baseDir = baseDir;
     this.sessionsDir = path.join(baseDir, "sessions");
+    this.journalDir = path.join(baseDir, "journal");
+    this.archiveDir = path.join(baseDir, "archive");
     this.metadataFile = path.join(baseDir, "metadata", "index.json");
     this.config = { ...DEFAULT_STORAGE_CONFIG, ...config };
     this.metadataCache = new Map();
     this.lockOptions = { ...DEFAULT_LOCK_OPTIONS };
+    this.pendingEvents = new Map();
+    this.unindexed = new Set();
+    this.compression = this.config.enableCompression
+      ? this.config.compressionAlgorithm
+      : null;
   }
 
   /**
-   * Initialize storage directories
+   * Initialize storage directories and recover journals left by a crash
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -76,12 +132,15 @@ export class FileSessionStore implements SessionStorage {
     try {
       // Create directories
       await fs.mkdir(this.sessionsDir, { recursive: true });
+      await fs.mkdir(this.journalDir, { recursive: true });
+      await fs.mkdir(this.archiveDir, { recursive: true });
       await fs.mkdir(path.dirname(this.metadataFile), { recursive: true });
 
       // Load metadata index (with shared lock for reading)
       await this.loadMetadataIndex();
 
       this.initialized = true;
+      await this.recoverJournals();
       logger.info("FileSessionStore initialized", {
         baseDir: this.baseDir,
         config: this.config,
@@ -114,6 +173,8 @@ export class FileSessionStore implements SessionStorage {
         {
           baseDir: this.baseDir,
           sessionsDir: this.sessionsDir,
+          journalDir: this.journalDir,
+          archiveDir: this.archiveDir,
           metadataDir: path.dirname(this.metadataFile),
           code,
           cause: cause.message,
@@ -124,6 +185,9 @@ export class FileSessionStore implements SessionStorage {
 
   /**
    * Save a session to disk (with exclusive lock)
+   *
+   * Writes a complete snapshot and removes the session's journal, whose
+   * events the snapshot now contains.
    * Security: Validates session ID to prevent path traversal attacks
    */
   async saveSession(session: ThinkingSession): Promise<void> {
@@ -136,25 +200,29 @@ export class FileSessionStore implements SessionStorage {
 
     try {
       // Use exclusive lock for writing session file
-      await withLock(
+      const snapshotBytes = await withLock(
         sessionPath,
         async () => {
           // Prepare session for serialization (convert special types)
-          const serializable = this.prepareForSerialization(session);
+          const serializable = prepareForSerialization(session);
 
           // Serialize session
           const json = this.config.serialization?.prettyPrint
             ? JSON.stringify(serializable, null, 2)
             : JSON.stringify(serializable);
 
-          // Write session file
-          await fs.writeFile(sessionPath, json, "utf-8");
+          await this.writeStoredFile(sessionPath, json);
+
+          // The snapshot includes every journaled event
+          await fs.rm(this.getJournalPath(session.id), { force: true });
+          return Buffer.byteLength(json, "utf-8");
         },
         this.lockOptions,
       );
+      this.pendingEvents.delete(session.id);
 
       // Update metadata (with exclusive lock on metadata file)
-      await this.updateMetadata(session);
+      await this.updateMetadata(session, snapshotBytes);
 
       logger.debug("Session saved", {
         sessionId: session.id,
@@ -172,6 +240,151 @@ export class FileSessionStore implements SessionStorage {
     }
   }
 
+  /**
+   * Append a change to the session's journal (with exclusive lock)
+   *
+   * The entry is fsynced before this returns. A session with no snapshot
+   * yet is saved in full instead, as is one whose journal has reached
+   * `compactionThreshold` events. Only the journal is written: the metadata
+   * index is brought up to date when the journal is compacted into a
+   * snapshot, and until then this instance reads the session's metadata from
+   * its cache.
+   * Security: Validates session ID to prevent path traversal attacks
+   */
+  async appendEvent(
+    session: ThinkingSession,
+    event: SessionJournalEvent,
+  ): Promise<void> {
+    await this.ensureInitialized();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(session.id);
+
+    const pending = this.pendingEvents.get(session.id) ?? 0;
+    if (
+      pending + 1 >= this.config.compactionThreshold ||
+      !(await this.snapshotExists(session.id))
+    ) {
+      await this.saveSession(session);
+      return;
+    }
+
+    const sessionPath = this.getSessionPath(session.id);
+    const journalPath = this.getJournalPath(session.id);
+
+    try {
+      const envelope: Partial<ThinkingSession> = { ...session };
+      delete envelope.thoughts;
+      const entry = { ...event, envelope } as JournalEntry;
+      const line = JSON.stringify(prepareForSerialization(entry)) + "\n";
+
+      // The session file's lock also guards its journal, so a compaction
+      // can never drop an event appended while it runs
+      await withLock(
+        sessionPath,
+        () => this.appendDurably(journalPath, line),
+        this.lockOptions,
+      );
+      this.pendingEvents.set(session.id, pending + 1);
+
+      this.metadataCache.set(
+        session.id,
+        this.toMetadata(
+          session,
+          this.metadataCache.get(session.id)?.snapshotBytes,
+        ),
+      );
+      this.unindexed.add(session.id);
+
+      logger.debug("Session event journaled", {
+        sessionId: session.id,
+        type: event.type,
+      });
+    } catch (error) {
+      logger.error(
+        "Failed to journal session event",
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          sessionId: session.id,
+          type: event.type,
+        },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Append full copies of thoughts to the session's archive
+   * Security: Validates session ID to prevent path traversal attacks
+   */
+  async archiveThoughts(sessionId: string, thoughts: Thought[]): Promise<void> {
+    await this.ensureInitialized();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    const lines = thoughts
+      .map((thought) => JSON.stringify(prepareForSerialization(thought)) + "\n")
+      .join("");
+    await withLock(
+      this.getSessionPath(sessionId),
+      () => this.appendDurably(this.getArchivePath(sessionId), lines),
+      this.lockOptions,
+    );
+
+    logger.debug("Thoughts archived", {
+      sessionId,
+      count: thoughts.length,
+    });
+  }
+
+  /**
+   * Load archived thoughts by id (with shared lock)
+   *
+   * A thought archived more than once is returned in its latest form.
+   * Security: Validates session ID to prevent path traversal attacks
+   */
+  async loadArchivedThoughts(
+    sessionId: string,
+    thoughtIds: string[],
+  ): Promise<Thought[]> {
+    await this.ensureInitialized();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    const wanted = new Set(thoughtIds);
+    const found = new Map<string, Thought>();
+    let text: string;
+    try {
+      text = await withSharedLock(
+        this.getSessionPath(sessionId),
+        () => fs.readFile(this.getArchivePath(sessionId), "utf-8"),
+        this.lockOptions,
+      );
+    } catch {
+      // No archive: the session has never been compacted
+      return [];
+    }
+
+    for (const line of text.split("\n")) {
+      if (line.length === 0) {
+        continue;
+      }
+      try {
+        const thought = restoreFromSerialization(JSON.parse(line)) as Thought;
+        if (wanted.has(thought.id)) {
+          found.set(thought.id, thought);
+        }
+      } catch {
+        // A line torn by a crash mid-append; the thought is still in the
+        // snapshot it was being archived from
+        logger.warn("Skipped a damaged thought archive line", { sessionId });
+      }
+    }
+    return Array.from(found.values());
+  }
+
   /**
    * Load a session from disk (with shared lock)
    * Security: Validates session ID to prevent path traversal attacks
@@ -186,10 +399,8 @@ export class FileSessionStore implements SessionStorage {
 
     try {
       // Check if file exists
-      try {
-        await fs.access(sessionPath);
-      } catch {
-        // File access failed - session doesn't exist or was deleted
+      if (!(await this.findStoredFile(sessionPath))) {
+        // Session doesn't exist or was deleted
         // This is an expected condition for non-existent sessions
         return null;
       }
@@ -199,11 +410,15 @@ export class FileSessionStore implements SessionStorage {
         sessionPath,
         async () => {
           // Read and parse session
-          const json = await fs.readFile(sessionPath, "utf-8");
+          const json = await this.readStoredFile(sessionPath);
+          if (json === null) {
+            throw new Error("Session file removed while waiting for lock");
+          }
           const parsed = JSON.parse(json);
 
-          // Restore special types
-          return this.restoreFromSerialization(parsed) as ThinkingSession;
+          // Restore special types, then apply changes made since
+          const snapshot = restoreFromSerialization(parsed) as ThinkingSession;
+          return this.replayJournal(snapshot);
         },
         this.lockOptions,
       );
@@ -234,10 +449,8 @@ export class FileSessionStore implements SessionStorage {
 
     try {
       // Check if file exists
-      try {
-        await fs.access(sessionPath);
-      } catch {
-        // File access failed - session doesn't exist or was already deleted
+      if (!(await this.findStoredFile(sessionPath))) {
+        // Session doesn't exist or was already deleted
         // Return false to indicate nothing was deleted
         return false;
       }
@@ -246,14 +459,21 @@ export class FileSessionStore implements SessionStorage {
       await withLock(
         sessionPath,
         async () => {
-          // Delete session file
-          await fs.unlink(sessionPath);
+          // Delete session file (in every stored form), its journal and its
+          // archive
+          for (const variant of storedPathVariants(sessionPath, null)) {
+            await fs.rm(variant, { force: true });
+          }
+          await fs.rm(this.getJournalPath(sessionId), { force: true });
+          await fs.rm(this.getArchivePath(sessionId), { force: true });
         },
         this.lockOptions,
       );
+      this.pendingEvents.delete(sessionId);
 
       // Remove from metadata (with exclusive lock on metadata file)
       this.metadataCache.delete(sessionId);
+      this.unindexed.delete(sessionId);
       await this.saveMetadataIndex();
 
       logger.info("Session deleted", { sessionId });
@@ -310,15 +530,42 @@ export class FileSessionStore implements SessionStorage {
     const totalSessions = sessions.length;
     const totalThoughts = sessions.reduce((sum, s) => sum + s.thoughtCount, 0);
 
-    // Calculate storage size
+    // Calculate storage size (snapshots, journals and archives), both as
+    // stored and uncompressed. A compressed snapshot's uncompressed size is
+    // the one its metadata recorded when it was written; only snapshots
+    // written before sizes were recorded are decompressed to measure
     let storageSize = 0;
+    let logicalSize = 0;
     try {
-      const files = await fs.readdir(this.sessionsDir);
-      for (const file of files) {
-        if (file.endsWith(".json")) {
-          const filePath = path.join(this.sessionsDir, file);
+      for (const [dir, extension] of [
+        [this.sessionsDir, ".json"],
+        [this.journalDir, ".jsonl"],
+        [this.archiveDir, ".jsonl"],
+      ]) {
+        const files = await fs.readdir(dir);
+        for (const file of files) {
+          if (!isStoredVariant(file, extension)) {
+            continue;
+          }
+          const filePath = path.join(dir, file);
           const stats = await fs.stat(filePath);
           storageSize += stats.size;
+          const recorded =
+            dir === this.sessionsDir
+              ? this.metadataCache.get(file.slice(0, file.indexOf(".")))
+                  ?.snapshotBytes
+              : undefined;
+          if (file.endsWith(extension)) {
+            logicalSize += stats.size;
+          } else if (recorded !== undefined) {
+            logicalSize += recorded;
+          } else {
+            const text = await decodeStored(
+              filePath,
+              await fs.readFile(filePath),
+            );
+            logicalSize += Buffer.byteLength(text, "utf-8");
+          }
         }
       }
     } catch (error) {
@@ -344,6 +591,7 @@ export class FileSessionStore implements SessionStorage {
       totalSessions,
       totalThoughts,
       storageSize,
+      logicalSize,
       oldestSession: dates[0],
       newestSession: dates[dates.length - 1],
       averageSessionSize,
@@ -352,21 +600,24 @@ export class FileSessionStore implements SessionStorage {
   }
 
   /**
-   * Clean up old sessions
+   * Clean up old sessions, except those in `keep`
    */
-  async cleanup(maxAgeMs: number): Promise<number> {
+  async cleanup(
+    maxAgeMs: number,
+    now: number,
+    keep: ReadonlySet<string> = new Set(),
+  ): Promise<number> {
     await this.ensureInitialized();
 
     // Refresh metadata first
     await this.loadMetadataIndex();
 
-    const now = Date.now();
     const sessions = Array.from(this.metadataCache.values());
     let cleanedCount = 0;
 
     for (const session of sessions) {
       const age = now - new Date(session.createdAt).getTime();
-      if (age > maxAgeMs) {
+      if (age > maxAgeMs && !keep.has(session.id)) {
         await this.deleteSession(session.id);
         cleanedCount++;
       }
@@ -384,9 +635,13 @@ export class FileSessionStore implements SessionStorage {
   }
 
   /**
-   * Close storage (no-op for file storage)
+   * Close storage, writing metadata that only journaled changes have touched
+   * to the index
    */
   async close(): Promise<void> {
+    if (this.initialized && this.unindexed.size > 0) {
+      await this.saveMetadataIndex();
+    }
     logger.info("FileSessionStore closed");
     this.initialized = false;
   }
@@ -398,11 +653,204 @@ export class FileSessionStore implements SessionStorage {
     return path.join(this.sessionsDir, `${sessionId}.json`);
   }
 
+  /**
+   * Get journal path for a session
+   */
+  private getJournalPath(sessionId: string): string {
+    return path.join(this.journalDir, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Get archive path for a session
+   */
+  private getArchivePath(sessionId: string): string {
+    return path.join(this.archiveDir, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * The name a file stored as `plainPath` currently has on disk, if any
+   */
+  private async findStoredFile(plainPath: string): Promise<string | null> {
+    for (const variant of storedPathVariants(plainPath, this.compression)) {
+      try {
+        await fs.access(variant);
+        return variant;
+      } catch {
+        // Not stored in this form
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a file stored as `plainPath`, decompressing it if needed
+   *
+   * @returns The file's text, or null if it is not stored in any form
+   */
+  private async readStoredFile(plainPath: string): Promise<string | null> {
+    const filePath = await this.findStoredFile(plainPath);
+    if (!filePath) {
+      return null;
+    }
+    return decodeStored(filePath, await fs.readFile(filePath));
+  }
+
+  /**
+   * Write a file stored as `plainPath` in the configured form
+   *
+   * The data goes to a temp file that is then renamed into place, so a
+   * crash mid-write never leaves a truncated file. Forms written under a
+   * previous setting are removed afterwards.
+   */
+  private async writeStoredFile(
+    plainPath: string,
+    text: string,
+  ): Promise<void> {
+    const filePath = compressedPath(plainPath, this.compression);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, await encodeStored(text, this.compression));
+    await fs.rename(tempPath, filePath);
+
+    for (const variant of storedPathVariants(plainPath, this.compression)) {
+      if (variant !== filePath) {
+        await fs.rm(variant, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Append text to a file and flush it to disk before returning
+   */
+  private async appendDurably(filePath: string, text: string): Promise<void> {
+    const handle = await fs.open(filePath, "a");
+    try {
+      await handle.appendFile(text, "utf-8");
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async snapshotExists(sessionId: string): Promise<boolean> {
+    return (await this.findStoredFile(this.getSessionPath(sessionId))) !== null;
+  }
+
+  /**
+   * Apply the session's journal, if any, to a loaded snapshot
+   *
+   * Replay is idempotent, because a crash between writing a snapshot and
+   * removing its journal leaves events the snapshot already holds: a thought
+   * whose id is already present is skipped, and an envelope older than the
+   * session's is ignored. A final line cut short by a crash mid-append is
+   * dropped; a corrupt line before it stops the replay there.
+   */
+  private async replayJournal(
+    session: ThinkingSession,
+  ): Promise<ThinkingSession> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.getJournalPath(session.id), "utf-8");
+    } catch {
+      // No journal: the snapshot is current
+      return session;
+    }
+
+    const lines = text.split("\n").filter((line) => line.length > 0);
+    const thoughtIds = new Set(session.thoughts.map((t) => t.id));
+    let replayed = 0;
+
+    for (const [index, line] of lines.entries()) {
+      let entry: JournalEntry;
+      try {
+        entry = restoreFromSerialization(JSON.parse(line)) as JournalEntry;
+      } catch (error) {
+        logger.warn("Stopped replaying a damaged session journal", {
+          sessionId: session.id,
+          line: index + 1,
+          of: lines.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+
+      if (entry.type === "thought_added") {
+        if (thoughtIds.has(entry.thought.id)) {
+          continue;
+        }
+        thoughtIds.add(entry.thought.id);
+        session.thoughts.push(entry.thought as Thought);
+      }
+      if (entry.envelope.updatedAt >= session.updatedAt) {
+        Object.assign(session, entry.envelope);
+      }
+      replayed++;
+    }
+
+    if (replayed > 0) {
+      logger.debug("Session journal replayed", {
+        sessionId: session.id,
+        events: replayed,
+      });
+    }
+    return session;
+  }
+
+  /**
+   * Compact every journal found on disk into its snapshot
+   *
+   * A journal that outlived its process (a crash, or a kill before the next
+   * compaction) is folded in here, so each session starts this process with
+   * a complete snapshot. A journal without a snapshot cannot be replayed and
+   * is left in place for inspection.
+   */
+  private async recoverJournals(): Promise<void> {
+    const files = await fs.readdir(this.journalDir);
+    for (const file of files) {
+      if (!file.endsWith(".jsonl")) {
+        continue;
+      }
+      const sessionId = file.slice(0, -".jsonl".length);
+      try {
+        validateSessionId(sessionId);
+        if (!(await this.snapshotExists(sessionId))) {
+          logger.warn("Session journal has no snapshot; leaving it", {
+            sessionId,
+          });
+          continue;
+        }
+        const session = await this.loadSession(sessionId);
+        if (session) {
+          await this.saveSession(session);
+          logger.info("Recovered session from journal", { sessionId });
+        }
+      } catch (error) {
+        logger.error(
+          "Failed to recover session journal",
+          error instanceof Error ? error : new Error(String(error)),
+          { file },
+        );
+      }
+    }
+  }
+
   /**
    * Update metadata cache and index (with exclusive lock)
+   *
+   * @param snapshotBytes - Uncompressed size of the snapshot just written
    */
-  private async updateMetadata(session: ThinkingSession): Promise<void> {
-    const metadata: SessionMetadata = {
+  private async updateMetadata(
+    session: ThinkingSession,
+    snapshotBytes: number,
+  ): Promise<void> {
+    this.metadataCache.set(session.id, this.toMetadata(session, snapshotBytes));
+    await this.saveMetadataIndex();
+  }
+
+  private toMetadata(
+    session: ThinkingSession,
+    snapshotBytes: number | undefined,
+  ): SessionMetadata {
+    return {
       id: session.id,
       title: session.title,
       createdAt: session.createdAt,
@@ -410,36 +858,38 @@ export class FileSessionStore implements SessionStorage {
       thoughtCount: session.thoughts.length,
       mode: session.mode,
       isComplete: session.isComplete,
+      expiredAt: session.expiredAt,
+      snapshotBytes,
     };
-
-    this.metadataCache.set(session.id, metadata);
-    await this.saveMetadataIndex();
   }
 
   /**
    * Load metadata index from disk (with shared lock)
+   *
+   * Entries of journaled changes not yet in the index are kept from the cache.
    */
   private async loadMetadataIndex(): Promise<void> {
     try {
-      await fs.access(this.metadataFile);
+      if (!(await this.findStoredFile(this.metadataFile))) {
+        // First run: the index is written when the first session is saved
+        this.resetMetadataCache([]);
+        return;
+      }
 
       // Use shared lock for reading metadata
       const metadata = await withSharedLock(
         this.metadataFile,
         async () => {
-          const json = await fs.readFile(this.metadataFile, "utf-8");
-          const parsed = JSON.parse(json) as any[];
+          const json = await this.readStoredFile(this.metadataFile);
+          const parsed = JSON.parse(json ?? "[]") as any[];
           return parsed.map((item) =>
-            this.restoreFromSerialization(item),
+            restoreFromSerialization(item),
           ) as SessionMetadata[];
         },
         this.lockOptions,
       );
 
-      this.metadataCache.clear();
-      for (const meta of metadata) {
-        this.metadataCache.set(meta.id, meta);
-      }
+      this.resetMetadataCache(metadata);
 
       logger.debug("Metadata index loaded", {
         sessionCount: metadata.length,
@@ -447,7 +897,21 @@ export class FileSessionStore implements SessionStorage {
     } catch {
       // Metadata file doesn't exist yet (first run) or is temporarily unavailable
       // Start with empty cache - it will be populated as sessions are created
-      this.metadataCache.clear();
+      this.resetMetadataCache([]);
+    }
+  }
+
+  /**
+   * Replace the metadata cache with `metadata`, keeping unindexed entries
+   */
+  private resetMetadataCache(metadata: SessionMetadata[]): void {
+    const unindexed = [...this.unindexed].flatMap((id) => {
+      const meta = this.metadataCache.get(id);
+      return meta ? [meta] : [];
+    });
+    this.metadataCache.clear();
+    for (const meta of [...metadata, ...unindexed]) {
+      this.metadataCache.set(meta.id, meta);
     }
   }
 
@@ -457,24 +921,19 @@ export class FileSessionStore implements SessionStorage {
   private async saveMetadataIndex(): Promise<void> {
     // First, reload to merge with any changes from other instances
     try {
-      await fs.access(this.metadataFile);
-      const existingJson = await fs.readFile(this.metadataFile, "utf-8");
-      const existingParsed = JSON.parse(existingJson) as any[];
+      const existingJson = await this.readStoredFile(this.metadataFile);
+      const existingParsed = JSON.parse(existingJson ?? "[]") as any[];
       const existingMetadata = existingParsed.map((item) =>
-        this.restoreFromSerialization(item),
+        restoreFromSerialization(item),
       ) as SessionMetadata[];
 
       // Merge: our cache takes precedence, but include items we don't have
       for (const meta of existingMetadata) {
         if (!this.metadataCache.has(meta.id)) {
-          // Check if the session file still exists
-          const sessionPath = this.getSessionPath(meta.id);
-          try {
-            await fs.access(sessionPath);
+          // Check if the session file still exists; if it was deleted by
+          // another instance or cleanup, skip it to prevent stale references
+          if (await this.snapshotExists(meta.id)) {
             this.metadataCache.set(meta.id, meta);
-          } catch {
-            // Session file no longer exists (deleted by another instance or cleanup)
-            // Skip adding to cache to prevent stale references
           }
         }
       }
@@ -484,19 +943,28 @@ export class FileSessionStore implements SessionStorage {
     }
 
     // Now save with exclusive lock
-    await withLock(
+    const written = await withLock(
       this.metadataFile,
       async () => {
         const metadata = Array.from(this.metadataCache.values());
         const serializable = metadata.map((item) =>
-          this.prepareForSerialization(item),
+          prepareForSerialization(item),
         );
         const json = JSON.stringify(serializable, null, 2);
 
-        await fs.writeFile(this.metadataFile, json, "utf-8");
+        await this.writeStoredFile(this.metadataFile, json);
+        return new Set(metadata);
       },
       this.lockOptions,
     );
+
+    // An event journaled while the index was being written stays unindexed
+    for (const id of this.unindexed) {
+      const meta = this.metadataCache.get(id);
+      if (!meta || written.has(meta)) {
+        this.unindexed.delete(id);
+      }
+    }
   }
 
   /**
@@ -507,113 +975,4 @@ export class FileSessionStore implements SessionStorage {
       await this.initialize();
     }
   }
-
-  /**
-   * Prepare an object for serialization by converting special types
-   * Recursively processes the object tree to handle Date and Map objects
-   */
-  private prepareForSerialization(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return obj;
-    }
-
-    // Handle Date objects
-    if (obj instanceof Date) {
-      return {
-        _type: "Date",
-        value: obj.toISOString(),
-      };
-    }
-
-    // Handle Map objects
-    if (obj instanceof Map) {
-      return {
-        _type: "Map",
-        value: Array.from(obj.entries()),
-      };
-    }
-
-    // Handle arrays
-    if (Array.isArray(obj)) {
-      return obj.map((item) => this.prepareForSerialization(item));
-    }
-
-    // Handle plain objects
-    if (typeof obj === "object") {
-      const result: any = {};
-      for (const [key, value] of Object.entries(obj)) {
-        result[key] = this.prepareForSerialization(value);
-      }
-      return result;
-    }
-
-    // Primitive types
-    return obj;
-  }
-
-  /**
-   * Restore an object from serialization by reconstructing special types
-   * Recursively processes the object tree to restore Date and Map objects
-   *
-   * Security: hardened against prototype pollution. In multi-instance mode,
-   * session JSON is read from disk and another process (or attacker with FS
-   * access) could drop a JSON file containing `__proto__`, `constructor`, or
-   * `prototype` keys. This walker:
-   *   1. Builds the result with `Object.create(null)` so it has no prototype
-   *      to pollute.
-   *   2. Skips dangerous key names entirely.
-   *   3. Rejects unknown `_type` markers (only `'Date'` and `'Map'` are
-   *      currently emitted by `prepareForSerialization`); anything else is
-   *      treated as a tampered file and rejected.
-   */
-  private restoreFromSerialization(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return obj;
-    }
-
-    // Check for special type markers
-    if (
-      typeof obj === "object" &&
-      !Array.isArray(obj) &&
-      Object.prototype.hasOwnProperty.call(obj, "_type")
-    ) {
-      const marker = obj._type;
-      if (marker === "Date") {
-        return new Date(obj.value);
-      }
-      if (marker === "Map") {
-        return new Map(obj.value);
-      }
-      // Unknown marker — refuse to recurse, this is likely tampered input
-      throw new Error(
-        `restoreFromSerialization: unknown _type marker ${JSON.stringify(marker)} (only 'Date' and 'Map' are allowed)`,
-      );
-    }
-
-    // Handle arrays
-    if (Array.isArray(obj)) {
-      return obj.map((item) => this.restoreFromSerialization(item));
-    }
-
-    // Handle plain objects — use a null-prototype object so an injected
-    // `__proto__` cannot pollute Object.prototype, and skip the three
-    // dangerous key names defensively.
-    if (typeof obj === "object") {
-      const result: any = Object.create(null);
-      for (const [key, value] of Object.entries(obj)) {
-        if (
-          key === "__proto__" ||
-          key === "constructor" ||
-          key === "prototype"
-        ) {
-          continue;
-        }
-        result[key] = this.restoreFromSerialization(value);
-      }
-      return result;
-    }
-
-    // Primitive types
-    return obj;
-  }
 }
@@ -5,7 +5,13 @@
  * file systems, databases, or other storage mechanisms.
  */
 
-import { ThinkingSession, SessionMetadata } from "../../types/index.js";
+import {
+  ThinkingMode,
+  ThinkingSession,
+  SessionMetadata,
+  Thought,
+} from "../../types/index.js";
+import type { CompressionAlgorithm } from "./compression.js";
 
 /**
  * Session storage interface
@@ -28,6 +34,47 @@ export interface SessionStorage {
    */
   saveSession(session: ThinkingSession): Promise<void>;
 
+  /**
+   * Record one change to a session that is already saved
+   *
+   * Optional. Backends that implement it can persist each change as it
+   * happens (FileSessionStore appends to a per-session journal) instead of
+   * rewriting the whole session. `session` is the state after the change.
+   * Callers fall back to `saveSession` when a backend does not implement it.
+   *
+   * @param session - The session, with the change applied
+   * @param event - What changed
+   */
+  appendEvent?(
+    session: ThinkingSession,
+    event: SessionJournalEvent,
+  ): Promise<void>;
+
+  /**
+   * Keep full copies of thoughts a session is about to compact
+   *
+   * Optional. `SessionManager` only compacts thoughts when the backend
+   * implements both this and `loadArchivedThoughts`. Archiving a thought id
+   * again replaces the earlier copy. Archived thoughts are removed with
+   * their session.
+   *
+   * @param sessionId - The session the thoughts belong to
+   * @param thoughts - The full thoughts
+   */
+  archiveThoughts?(sessionId: string, thoughts: Thought[]): Promise<void>;
+
+  /**
+   * Load full thoughts stored by `archiveThoughts`
+   *
+   * @param sessionId - The session the thoughts belong to
+   * @param thoughtIds - The ids to load
+   * @returns The archived thoughts found, in no particular order
+   */
+  loadArchivedThoughts?(
+    sessionId: string,
+    thoughtIds: string[],
+  ): Promise<Thought[]>;
+
   /**
    * Load a session from storage
    *
@@ -70,9 +117,16 @@ export interface SessionStorage {
    * Clean up old or incomplete sessions
    *
    * @param maxAgeMs - Maximum age in milliseconds
+   * @param now - The current time in milliseconds since the epoch, which
+   *   ages are measured from
+   * @param keep - Ids of sessions to leave in place whatever their age
    * @returns Number of sessions cleaned up
    */
-  cleanup(maxAgeMs: number): Promise<number>;
+  cleanup(
+    maxAgeMs: number,
+    now: number,
+    keep?: ReadonlySet<string>,
+  ): Promise<number>;
 
   /**
    * Close storage connections and release resources
@@ -80,13 +134,21 @@ export interface SessionStorage {
   close(): Promise<void>;
 }
 
+/**
+ * A change recorded through `SessionStorage.appendEvent`
+ */
+export type SessionJournalEvent =
+  | { type: "thought_added"; thought: Thought }
+  | { type: "mode_switched"; from: ThinkingMode; to: ThinkingMode };
+
 /**
  * Storage statistics
  */
 export interface StorageStats {
   totalSessions: number;
   totalThoughts: number;
-  storageSize: number; // in bytes
+  storageSize: number; // in bytes, as stored
+  logicalSize: number; // in bytes, uncompressed; equals storageSize when nothing is compressed
   oldestSession?: Date;
   newestSession?: Date;
   averageSessionSize: number;
@@ -108,15 +170,27 @@ export interface StorageConfig {
   autoSaveDelay: number;
 
   /**
-   * Enable compression for stored sessions
+   * Compress session snapshots and the metadata index (file backends).
+   * Files already on disk are read whether compressed or not.
    */
   enableCompression: boolean;
 
+  /**
+   * Algorithm used when `enableCompression` is set
+   */
+  compressionAlgorithm: CompressionAlgorithm;
+
   /**
    * Maximum number of sessions to keep in storage
    */
   maxSessions: number;
 
+  /**
+   * Journal events recorded for a session before it is compacted into a
+   * fresh snapshot (journaling backends only)
+   */
+  compactionThreshold: number;
+
   /**
    * Maximum age of sessions before auto-cleanup (ms)
    */
@@ -143,7 +217,9 @@ export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
   autoSave: true,
   autoSaveDelay: 1000, // 1 second
   enableCompression: false,
+  compressionAlgorithm: "gzip",
   maxSessions: 1000,
+  compactionThreshold: 50,
   maxSessionAge: 30 * 24 * 60 * 60 * 1000, // 30 days
   enableEncryption: false,
   serialization: {
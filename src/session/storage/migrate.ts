@@ -0,0 +1,78 @@
+/**
+ * Session Storage Migration
+ *
+ * Copies every session from one `SessionStorage` backend to another — for
+ * example from an existing `SESSION_DIR` (FileSessionStore) into a
+ * SqliteSessionStore. Sessions already present in the target are left
+ * untouched, so running a migration twice is harmless.
+ */
+
+import type { SessionStorage } from "./interface.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Outcome of a migration, by session id
+ */
+export interface MigrationReport {
+  /** Sessions copied into the target */
+  migrated: string[];
+  /** Sessions skipped because the target already had them */
+  skipped: string[];
+  /** Sessions that could not be read from the source or written to the target */
+  failed: Array<{ sessionId: string; error: string }>;
+}
+
+/**
+ * Copy all sessions from `source` into `target`
+ *
+ * The source is only read. A session that fails to load or save is recorded
+ * in `failed` and the migration moves on to the next one.
+ *
+ * @param source - Storage to read sessions from
+ * @param target - Storage to write sessions to
+ * @returns Which sessions were migrated, skipped or failed
+ *
+ * @example
+ * ```typescript
+ * const sqlite = new SqliteSessionStore('./sessions.db');
+ * const report = await migrateSessions(new FileSessionStore('./sessions'), sqlite);
+ * ```
+ */
+export async function migrateSessions(
+  source: SessionStorage,
+  target: SessionStorage,
+): Promise<MigrationReport> {
+  const report: MigrationReport = { migrated: [], skipped: [], failed: [] };
+
+  for (const { id } of await source.listSessions()) {
+    try {
+      if (await target.exists(id)) {
+        report.skipped.push(id);
+        continue;
+      }
+      const session = await source.loadSession(id);
+      if (!session) {
+        report.failed.push({
+          sessionId: id,
+          error: "listed by the source but could not be loaded",
+        });
+        continue;
+      }
+      await target.saveSession(session);
+      report.migrated.push(id);
+    } catch (error) {
+      report.failed.push({
+        sessionId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info("Session migration completed", {
+    migrated: report.migrated.length,
+    skipped: report.skipped.length,
+    failed: report.failed.length,
+  });
+
+  return report;
+}
@@ -0,0 +1,113 @@
+/**
+ * Session Serialization for Storage Backends
+ *
+ * Converts the `Date` and `Map` values a session carries into tagged JSON
+ * (`{ _type: "Date" | "Map", value }`) and back. Shared by every
+ * `SessionStorage` implementation so their on-disk encodings agree, which
+ * is what lets `migrateSessions` copy between them without loss.
+ */
+
+/**
+ * Prepare an object for serialization by converting special types
+ * Recursively processes the object tree to handle Date and Map objects
+ */
+export function prepareForSerialization(obj: any): any {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+
+  // Handle Date objects
+  if (obj instanceof Date) {
+    return {
+      _type: "Date",
+      value: obj.toISOString(),
+    };
+  }
+
+  // Handle Map objects
+  if (obj instanceof Map) {
+    return {
+      _type: "Map",
+      value: Array.from(obj.entries()),
+    };
+  }
+
+  // Handle arrays
+  if (Array.isArray(obj)) {
+    return obj.map((item) => prepareForSerialization(item));
+  }
+
+  // Handle plain objects
+  if (typeof obj === "object") {
+    const result: any = {};
+    for (const [key, value] of Object.entries(obj)) {
+      result[key] = prepareForSerialization(value);
+    }
+    return result;
+  }
+
+  // Primitive types
+  return obj;
+}
+
+/**
+ * Restore an object from serialization by reconstructing special types
+ * Recursively processes the object tree to restore Date and Map objects
+ *
+ * Security: hardened against prototype pollution. In multi-instance mode,
+ * session JSON is read from disk and another process (or attacker with FS
+ * access) could drop a JSON file containing `__proto__`, `constructor`, or
+ * `prototype` keys. This walker:
+ *   1. Builds the result with `Object.create(null)` so it has no prototype
+ *      to pollute.
+ *   2. Skips dangerous key names entirely.
+ *   3. Rejects unknown `_type` markers (only `'Date'` and `'Map'` are
+ *      currently emitted by `prepareForSerialization`); anything else is
+ *      treated as a tampered file and rejected.
+ */
+export function restoreFromSerialization(obj: any): any {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+
+  // Check for special type markers
+  if (
+    typeof obj === "object" &&
+    !Array.isArray(obj) &&
+    Object.prototype.hasOwnProperty.call(obj, "_type")
+  ) {
+    const marker = obj._type;
+    if (marker === "Date") {
+      return new Date(obj.value);
+    }
+    if (marker === "Map") {
+      return new Map(obj.value);
+    }
+    // Unknown marker — refuse to recurse, this is likely tampered input
+    throw new Error(
+      `restoreFromSerialization: unknown _type marker ${JSON.stringify(marker)} (only 'Date' and 'Map' are allowed)`,
+    );
+  }
+
+  // Handle arrays
+  if (Array.isArray(obj)) {
+    return obj.map((item) => restoreFromSerialization(item));
+  }
+
+  // Handle plain objects — use a null-prototype object so an injected
+  // `__proto__` cannot pollute Object.prototype, and skip the three
+  // dangerous key names defensively.
+  if (typeof obj === "object") {
+    const result: any = Object.create(null);
+    for (const [key, value] of Object.entries(obj)) {
+      if (key === "__proto__" || key === "constructor" || key === "prototype") {
+        continue;
+      }
+      result[key] = restoreFromSerialization(value);
+    }
+    return result;
+  }
+
+  // Primitive types
+  return obj;
+}
@@ -0,0 +1,686 @@
+/**
+ * SQLite-backed Session Storage Implementation
+ *
+ * Stores sessions in a single SQLite database file:
+ * - `sessions`: one row per session — the listing columns (title, mode,
+ *   timestamps, thought count) plus the serialized session minus its thoughts
+ * - `thoughts`: one row per thought, keyed by (session_id, seq)
+ * - `archived_thoughts`: full copies of thoughts compacted into digests
+ *
+ * Unlike FileSessionStore, which rewrites the whole session file and the
+ * global metadata index on every save, a save here upserts one session row
+ * and inserts only the thoughts that are not stored yet. `listSessions` reads
+ * the indexed `sessions` columns without touching any thought.
+ *
+ * Supports multi-instance MCP servers via SQLite's own locking: the database
+ * runs in WAL mode, so readers never block the single writer, and writers
+ * wait up to `busyTimeout` for each other.
+ *
+ * The driver, better-sqlite3, is an optional dependency (it builds a native
+ * module) and is loaded on `initialize()`, so servers that never use this
+ * store do not need it installed.
+ */
+
+import * as path from "path";
+import { promises as fs } from "fs";
+import type BetterSqlite3 from "better-sqlite3";
+import {
+  ThinkingMode,
+  ThinkingSession,
+  SessionMetadata,
+  Thought,
+} from "../../types/index.js";
+import {
+  SessionStorage,
+  StorageStats,
+  StorageConfig,
+  DEFAULT_STORAGE_CONFIG,
+} from "./interface.js";
+import { logger } from "../../utils/logger.js";
+import { validateSessionId } from "../../utils/sanitization.js";
+import { StorageError } from "../../utils/errors.js";
+import {
+  prepareForSerialization,
+  restoreFromSerialization,
+} from "./serialization.js";
+
+/**
+ * Schema migrations: `SCHEMA_STEPS[n]` takes a database from version `n` to
+ * `n + 1`. The version is stored in `PRAGMA user_version`. Append a step
+ * whenever the tables change; never edit one that has shipped.
+ */
+const SCHEMA_STEPS = [
+  `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id            TEXT PRIMARY KEY,
+    title         TEXT NOT NULL,
+    mode          TEXT NOT NULL,
+    created_at    INTEGER NOT NULL,
+    updated_at    INTEGER NOT NULL,
+    is_complete   INTEGER NOT NULL,
+    thought_count INTEGER NOT NULL,
+    -- Thoughts 0 to digest_count - 1 are digests
+    digest_count  INTEGER NOT NULL,
+    expired_at    INTEGER,
+    body          TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_updated_at ON sessions (updated_at);
+  CREATE INDEX IF NOT EXISTS sessions_created_at ON sessions (created_at);
+
+  CREATE TABLE IF NOT EXISTS thoughts (
+    session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+    seq        INTEGER NOT NULL,
+    id         TEXT NOT NULL,
+    body       TEXT NOT NULL,
+    digest     INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (session_id, seq)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS archived_thoughts (
+    session_id TEXT NOT NULL,
+    id         TEXT NOT NULL,
+    body       TEXT NOT NULL,
+    PRIMARY KEY (session_id, id)
+  ) WITHOUT ROWID;
+
+  -- Not a foreign key: thoughts can be archived before their session's
+  -- first save when auto-save is off
+  CREATE TRIGGER IF NOT EXISTS sessions_delete_archive AFTER DELETE ON sessions BEGIN
+    DELETE FROM archived_thoughts WHERE session_id = old.id;
+  END;
+  `,
+];
+
+const SCHEMA_VERSION = SCHEMA_STEPS.length;
+
+/**
+ * Options specific to the SQLite store
+ */
+export interface SqliteStoreOptions {
+  /**
+   * How long a write waits for another connection's write lock (ms)
+   */
+  busyTimeout: number;
+}
+
+const DEFAULT_SQLITE_OPTIONS: SqliteStoreOptions = {
+  busyTimeout: 10000, // 10 seconds, matching FileSessionStore's lock timeout
+};
+
+interface SessionRow {
+  id: string;
+  title: string;
+  mode: string;
+  created_at: number;
+  updated_at: number;
+  is_complete: number;
+  thought_count: number;
+  digest_count: number;
+  expired_at: number | null;
+  body: string;
+}
+
+type MetadataRow = Omit<SessionRow, "body" | "digest_count">;
+
+/**
+ * Prepared statements, created once per connection
+ */
+interface Statements {
+  upsertSession: BetterSqlite3.Statement;
+  selectSession: BetterSqlite3.Statement<[string], SessionRow>;
+  selectSaveState: BetterSqlite3.Statement<
+    [string],
+    Pick<SessionRow, "thought_count" | "digest_count">
+  >;
+  selectThoughtId: BetterSqlite3.Statement<[string, number], { id: string }>;
+  selectThoughtKeys: BetterSqlite3.Statement<
+    [string],
+    { id: string; digest: number }
+  >;
+  selectThoughts: BetterSqlite3.Statement<[string], { body: string }>;
+  insertThought: BetterSqlite3.Statement;
+  updateThought: BetterSqlite3.Statement;
+  archiveThought: BetterSqlite3.Statement;
+  selectArchived: BetterSqlite3.Statement<[string, string], { body: string }>;
+  deleteThoughtsFrom: BetterSqlite3.Statement;
+  deleteSession: BetterSqlite3.Statement;
+  deleteOldest: BetterSqlite3.Statement;
+  deleteCreatedBefore: BetterSqlite3.Statement;
+  listSessions: BetterSqlite3.Statement<[], MetadataRow>;
+  exists: BetterSqlite3.Statement<[string], { found: number }>;
+  countSessions: BetterSqlite3.Statement<[], { count: number }>;
+  stats: BetterSqlite3.Statement<
+    [],
+    {
+      sessions: number;
+      thoughts: number | null;
+      oldest: number | null;
+      newest: number | null;
+    }
+  >;
+}
+
+/**
+ * SQLite session storage with incremental thought appends
+ */
+export class SqliteSessionStore implements SessionStorage {
+  private dbPath: string;
+  private config: StorageConfig;
+  private options: SqliteStoreOptions;
+  private db: BetterSqlite3.Database | null = null;
+  private statements: Statements | null = null;
+
+  /**
+   * Create a new SqliteSessionStore
+   *
+   * @param dbPath - Path of the database file (created if missing), or
+   *   `":memory:"` for a private in-memory database
+   * @param config - Storage configuration options
+   * @param options - SQLite-specific options
+   */
+  constructor(
+    dbPath: string,
+    config?: Partial<StorageConfig>,
+    options?: Partial<SqliteStoreOptions>,
+  ) {
+    this.dbPath = dbPath;
+    this.config = { ...DEFAULT_STORAGE_CONFIG, ...config };
+    this.options = { ...DEFAULT_SQLITE_OPTIONS, ...options };
+  }
+
+  /**
+   * Open the database, create the tables and prepare statements
+   */
+  async initialize(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import("better-sqlite3")).default;
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new StorageError(
+        `SQLite session storage at "${this.dbPath}" (configured via the ` +
+          `SESSION_DB environment variable) needs the optional better-sqlite3 ` +
+          `package. Install it with \`npm install better-sqlite3\`, or unset ` +
+          `SESSION_DB. Original error: ${cause.message}`,
+        { dbPath: this.dbPath, cause: cause.message },
+      );
+    }
+
+    try {
+      if (this.dbPath !== ":memory:") {
+        await fs.mkdir(path.dirname(path.resolve(this.dbPath)), {
+          recursive: true,
+        });
+      }
+
+      const db = new Database(this.dbPath, {
+        timeout: this.options.busyTimeout,
+      });
+      db.pragma("journal_mode = WAL");
+      db.pragma("foreign_keys = ON");
+      this.migrateSchema(db);
+
+      this.statements = this.prepareStatements(db);
+      this.db = db;
+
+      logger.info("SqliteSessionStore initialized", {
+        dbPath: this.dbPath,
+        config: this.config,
+      });
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      logger.error("Failed to initialize SqliteSessionStore", cause, {
+        dbPath: this.dbPath,
+      });
+      throw new StorageError(
+        `Failed to open session database at "${this.dbPath}" ` +
+          `(configured via the SESSION_DB environment variable). ` +
+          `Check that the file is a SQLite database and that the process ` +
+          `can write to its directory. Original error: ${cause.message}`,
+        { dbPath: this.dbPath, cause: cause.message },
+      );
+    }
+  }
+
+  /**
+   * Save a session
+   *
+   * Upserts the session row, then brings its thought rows in line with
+   * `session.thoughts`. Thoughts are immutable once SessionManager has added
+   * them, and compaction turns the oldest into digests, so the session row
+   * records how many thoughts are stored and how many of them lead with
+   * digests. When the session still starts with what is stored, only the
+   * thoughts past those counts are written: the new thoughts are inserted
+   * and the newly compacted ones rewritten. Any other change falls back to
+   * comparing every stored thought id.
+   *
+   * When a new session takes the store past `maxSessions`, the sessions
+   * updated least recently are deleted to make room.
+   */
+  async saveSession(session: ThinkingSession): Promise<void> {
+    const { db, statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(session.id);
+
+    try {
+      const { thoughts, ...envelope } = session;
+      let digestCount = 0;
+      while (digestCount < thoughts.length && thoughts[digestCount].digest) {
+        digestCount++;
+      }
+      const digestsLead = thoughts
+        .slice(digestCount)
+        .every((thought) => !thought.digest);
+      const write = (seq: number, statement: "insert" | "update") => {
+        const body = JSON.stringify(prepareForSerialization(thoughts[seq]));
+        const digest = thoughts[seq].digest ? 1 : 0;
+        if (statement === "insert") {
+          statements.insertThought.run(
+            session.id,
+            seq,
+            thoughts[seq].id,
+            body,
+            digest,
+          );
+        } else {
+          statements.updateThought.run(body, digest, session.id, seq);
+        }
+      };
+
+      const evicted = db
+        .transaction(() => {
+          const stored = statements.selectSaveState.get(session.id);
+          const isNew = !stored;
+
+          statements.upsertSession.run({
+            id: session.id,
+            title: session.title,
+            mode: session.mode,
+            created_at: session.createdAt.getTime(),
+            updated_at: session.updatedAt.getTime(),
+            is_complete: session.isComplete ? 1 : 0,
+            thought_count: thoughts.length,
+            digest_count: digestsLead ? digestCount : 0,
+            expired_at: session.expiredAt?.getTime() ?? null,
+            body: JSON.stringify(prepareForSerialization(envelope)),
+          });
+
+          // The first seq past the thoughts the store already holds
+          let kept = stored?.thought_count ?? 0;
+          if (
+            digestsLead &&
+            kept <= thoughts.length &&
+            (stored?.digest_count ?? 0) <= digestCount &&
+            (kept === 0 ||
+              statements.selectThoughtId.get(session.id, kept - 1)?.id ===
+                thoughts[kept - 1].id)
+          ) {
+            const compacted = Math.min(digestCount, kept);
+            for (let seq = stored?.digest_count ?? 0; seq < compacted; seq++) {
+              write(seq, "update");
+            }
+          } else {
+            const keys = statements.selectThoughtKeys.all(session.id);
+            kept = 0;
+            while (
+              kept < keys.length &&
+              kept < thoughts.length &&
+              keys[kept].id === thoughts[kept].id
+            ) {
+              if (keys[kept].digest !== (thoughts[kept].digest ? 1 : 0)) {
+                write(kept, "update");
+              }
+              kept++;
+            }
+            if (kept < keys.length) {
+              statements.deleteThoughtsFrom.run(session.id, kept);
+            }
+          }
+          for (let seq = kept; seq < thoughts.length; seq++) {
+            write(seq, "insert");
+          }
+
+          if (!isNew) {
+            return 0;
+          }
+          const excess =
+            statements.countSessions.get()!.count - this.config.maxSessions;
+          return excess > 0
+            ? statements.deleteOldest.run(session.id, excess).changes
+            : 0;
+        })
+        .immediate();
+
+      if (evicted > 0) {
+        logger.warn("Storage reached maxSessions; evicted oldest sessions", {
+          maxSessions: this.config.maxSessions,
+          evicted,
+        });
+      }
+
+      logger.debug("Session saved", {
+        sessionId: session.id,
+        thoughtCount: thoughts.length,
+      });
+    } catch (error) {
+      logger.error(
+        "Failed to save session",
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          sessionId: session.id,
+        },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store full copies of thoughts about to be compacted
+   */
+  async archiveThoughts(sessionId: string, thoughts: Thought[]): Promise<void> {
+    const { db, statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    db.transaction(() => {
+      for (const thought of thoughts) {
+        statements.archiveThought.run(
+          sessionId,
+          thought.id,
+          JSON.stringify(prepareForSerialization(thought)),
+        );
+      }
+    })();
+
+    logger.debug("Thoughts archived", { sessionId, count: thoughts.length });
+  }
+
+  /**
+   * Load archived thoughts by id
+   */
+  async loadArchivedThoughts(
+    sessionId: string,
+    thoughtIds: string[],
+  ): Promise<Thought[]> {
+    const { statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    const thoughts: Thought[] = [];
+    for (const id of thoughtIds) {
+      const row = statements.selectArchived.get(sessionId, id);
+      if (row) {
+        thoughts.push(
+          restoreFromSerialization(JSON.parse(row.body)) as Thought,
+        );
+      }
+    }
+    return thoughts;
+  }
+
+  /**
+   * Load a session with all its thoughts
+   */
+  async loadSession(sessionId: string): Promise<ThinkingSession | null> {
+    const { statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    try {
+      const row = statements.selectSession.get(sessionId);
+      if (!row) {
+        return null;
+      }
+
+      const session = restoreFromSerialization(
+        JSON.parse(row.body),
+      ) as ThinkingSession;
+      session.thoughts = statements.selectThoughts
+        .all(sessionId)
+        .map(
+          (thought) =>
+            restoreFromSerialization(JSON.parse(thought.body)) as Thought,
+        );
+
+      logger.debug("Session loaded", { sessionId });
+      return session;
+    } catch (error) {
+      logger.error(
+        "Failed to load session",
+        error instanceof Error ? error : new Error(String(error)),
+        { sessionId },
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Delete a session and, by cascade, its thoughts
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const { statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    try {
+      const deleted = statements.deleteSession.run(sessionId).changes > 0;
+      if (deleted) {
+        logger.info("Session deleted", { sessionId });
+      }
+      return deleted;
+    } catch (error) {
+      logger.error(
+        "Failed to delete session",
+        error instanceof Error ? error : new Error(String(error)),
+        { sessionId },
+      );
+      return false;
+    }
+  }
+
+  /**
+   * List all sessions, most recently updated first (metadata only)
+   */
+  async listSessions(): Promise<SessionMetadata[]> {
+    const { statements } = await this.open();
+
+    return statements.listSessions.all().map((row) => ({
+      id: row.id,
+      title: row.title,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      thoughtCount: row.thought_count,
+      mode: row.mode as ThinkingMode,
+      isComplete: row.is_complete === 1,
+      ...(row.expired_at !== null && { expiredAt: new Date(row.expired_at) }),
+    }));
+  }
+
+  /**
+   * Check if a session exists
+   */
+  async exists(sessionId: string): Promise<boolean> {
+    const { statements } = await this.open();
+
+    // Security: Validate session ID format (defense-in-depth)
+    validateSessionId(sessionId);
+
+    return statements.exists.get(sessionId) !== undefined;
+  }
+
+  /**
+   * Get storage statistics
+   */
+  async getStats(): Promise<StorageStats> {
+    const { db, statements } = await this.open();
+
+    const row = statements.stats.get()!;
+    const pageSize = db.pragma("page_size", { simple: true }) as number;
+    const pageCount = db.pragma("page_count", { simple: true }) as number;
+    const storageSize = pageSize * pageCount;
+    const totalSessions = row.sessions;
+
+    // Determine storage health
+    let storageHealth: "healthy" | "warning" | "critical" = "healthy";
+    if (totalSessions > this.config.maxSessions * 0.9) {
+      storageHealth = "critical";
+    } else if (totalSessions > this.config.maxSessions * 0.7) {
+      storageHealth = "warning";
+    }
+
+    return {
+      totalSessions,
+      totalThoughts: row.thoughts ?? 0,
+      storageSize,
+      logicalSize: storageSize,
+      oldestSession: row.oldest !== null ? new Date(row.oldest) : undefined,
+      newestSession: row.newest !== null ? new Date(row.newest) : undefined,
+      averageSessionSize: totalSessions > 0 ? storageSize / totalSessions : 0,
+      storageHealth,
+    };
+  }
+
+  /**
+   * Delete sessions created more than `maxAgeMs` ago, except those in `keep`
+   */
+  async cleanup(
+    maxAgeMs: number,
+    now: number,
+    keep: ReadonlySet<string> = new Set(),
+  ): Promise<number> {
+    const { statements } = await this.open();
+
+    const cleanedCount = statements.deleteCreatedBefore.run(
+      now - maxAgeMs,
+      JSON.stringify([...keep]),
+    ).changes;
+
+    if (cleanedCount > 0) {
+      logger.info("Cleanup completed", { cleanedCount, maxAgeMs });
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    this.statements = null;
+    logger.info("SqliteSessionStore closed");
+  }
+
+  /**
+   * Initialize on first use and return the open connection
+   */
+  private async open(): Promise<{
+    db: BetterSqlite3.Database;
+    statements: Statements;
+  }> {
+    if (!this.db || !this.statements) {
+      await this.initialize();
+    }
+    return { db: this.db!, statements: this.statements! };
+  }
+
+  /**
+   * Bring the tables up to SCHEMA_VERSION, or refuse a database written by a
+   * newer schema
+   */
+  private migrateSchema(db: BetterSqlite3.Database): void {
+    const version = db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `database schema version ${version} is newer than this server supports (${SCHEMA_VERSION})`,
+      );
+    }
+    db.transaction(() => {
+      for (let step = version; step < SCHEMA_VERSION; step++) {
+        db.exec(SCHEMA_STEPS[step]);
+      }
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+
+  private prepareStatements(db: BetterSqlite3.Database): Statements {
+    return {
+      upsertSession: db.prepare(`
+        INSERT INTO sessions
+          (id, title, mode, created_at, updated_at, is_complete, thought_count, digest_count, expired_at, body)
+        VALUES
+          (@id, @title, @mode, @created_at, @updated_at, @is_complete, @thought_count, @digest_count, @expired_at, @body)
+        ON CONFLICT (id) DO UPDATE SET
+          title = excluded.title,
+          mode = excluded.mode,
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at,
+          is_complete = excluded.is_complete,
+          thought_count = excluded.thought_count,
+          digest_count = excluded.digest_count,
+          expired_at = excluded.expired_at,
+          body = excluded.body
+      `),
+      selectSession: db.prepare("SELECT * FROM sessions WHERE id = ?"),
+      selectSaveState: db.prepare(
+        "SELECT thought_count, digest_count FROM sessions WHERE id = ?",
+      ),
+      selectThoughtId: db.prepare(
+        "SELECT id FROM thoughts WHERE session_id = ? AND seq = ?",
+      ),
+      selectThoughtKeys: db.prepare(
+        "SELECT id, digest FROM thoughts WHERE session_id = ? ORDER BY seq",
+      ),
+      selectThoughts: db.prepare(
+        "SELECT body FROM thoughts WHERE session_id = ? ORDER BY seq",
+      ),
+      insertThought: db.prepare(
+        "INSERT INTO thoughts (session_id, seq, id, body, digest) VALUES (?, ?, ?, ?, ?)",
+      ),
+      updateThought: db.prepare(
+        "UPDATE thoughts SET body = ?, digest = ? WHERE session_id = ? AND seq = ?",
+      ),
+      archiveThought: db.prepare(
+        "INSERT OR REPLACE INTO archived_thoughts (session_id, id, body) VALUES (?, ?, ?)",
+      ),
+      selectArchived: db.prepare(
+        "SELECT body FROM archived_thoughts WHERE session_id = ? AND id = ?",
+      ),
+      deleteThoughtsFrom: db.prepare(
+        "DELETE FROM thoughts WHERE session_id = ? AND seq >= ?",
+      ),
+      deleteSession: db.prepare("DELETE FROM sessions WHERE id = ?"),
+      deleteOldest: db.prepare(`
+        DELETE FROM sessions WHERE id IN (
+          SELECT id FROM sessions WHERE id != ?
+          ORDER BY updated_at ASC LIMIT ?
+        )
+      `),
+      deleteCreatedBefore: db.prepare(`
+        DELETE FROM sessions
+        WHERE created_at < ? AND id NOT IN (SELECT value FROM json_each(?))
+      `),
+      listSessions: db.prepare(`
+        SELECT id, title, mode, created_at, updated_at, is_complete, thought_count, expired_at
+        FROM sessions ORDER BY updated_at DESC
+      `),
+      exists: db.prepare("SELECT 1 AS found FROM sessions WHERE id = ?"),
+      countSessions: db.prepare("SELECT COUNT(*) AS count FROM sessions"),
+      stats: db.prepare(`
+        SELECT COUNT(*) AS sessions, SUM(thought_count) AS thoughts,
+               MIN(created_at) AS oldest, MAX(created_at) AS newest
+        FROM sessions
+      `),
+    };
+  }
+}
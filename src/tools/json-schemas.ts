@@ -141,7 +141,8 @@ export const deepthinking_core_schema = {
       premises: {
         type: "array",
         items: { type: "string" },
-        description: "General principles (deductive)",
+        description:
+          "General principles (deductive). Written as first-order formulas, e.g. ∀x (Man(x) → Mortal(x)), the argument's validity is proved or refuted by resolution",
       },
       conclusion: {
         type: "string",
@@ -160,6 +161,26 @@ export const deepthinking_core_schema = {
         type: "boolean",
         description: "Are the premises true? (deductive)",
       },
+      resolution: {
+        type: "object",
+        properties: {
+          maxSteps: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Given clauses to process before the argument is reported undecided (default 100, capped at 1000)",
+          },
+          timeLimitMs: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Time limit in ms, a safety net behind maxSteps (default and cap 5000)",
+          },
+        },
+        additionalProperties: false,
+        description:
+          "Limits on the resolution search for first-order premises (deductive)",
+      },
       // Abductive properties
       hypotheses: {
         type: "array",
@@ -899,6 +920,158 @@ export const deepthinking_probabilistic_schema = {
         },
         description: "Hypotheses under consideration",
       },
+      bayesianNetwork: {
+        type: "object",
+        properties: {
+          nodes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                states: { type: "array", items: { type: "string" } },
+                parents: { type: "array", items: { type: "string" } },
+                cpt: {
+                  type: "array",
+                  items: {
+                    type: "array",
+                    items: { type: "number", minimum: 0, maximum: 1 },
+                  },
+                  description:
+                    "P(node | parents): one row per assignment of the parents, the first parent varying slowest, each row a distribution over the states",
+                },
+              },
+              required: ["id", "states", "cpt"],
+              additionalProperties: false,
+            },
+            description: "Discrete variables, each with its CPT",
+          },
+          method: {
+            type: "string",
+            description:
+              "'junction_tree' (default), 'variable_elimination' or 'likelihood_weighting'. Exact inference falls back to likelihood weighting when its tables would be too large. An unrecognised value is accepted with a warning.",
+          },
+          samples: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Samples likelihood weighting draws (default 10000, capped at 100000)",
+          },
+          seed: {
+            type: "integer",
+            description:
+              "Seed for reproducible sampling; a fresh one is chosen and reported if omitted",
+          },
+        },
+        required: ["nodes"],
+        additionalProperties: false,
+        description:
+          "A discrete Bayesian network. Its posterior marginals given the observations are computed, and the unobserved variables ranked by their value of information about targetVariable",
+      },
+      observations: {
+        type: "object",
+        additionalProperties: { type: "string" },
+        description:
+          "Observed network variables and the state each was observed in",
+      },
+      targetVariable: {
+        type: "string",
+        description:
+          "Network variable whose states are the competing hypotheses; defaults to the first unobserved node",
+      },
+      candidateEvidence: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Network variables that could be observed next, for the value of information; defaults to every unobserved one",
+      },
+      parametricModel: {
+        type: "object",
+        properties: {
+          prior: {
+            type: "object",
+            properties: {
+              distribution: { type: "string" },
+              parameters: {
+                type: "object",
+                additionalProperties: { type: "number" },
+              },
+            },
+            required: ["distribution"],
+            additionalProperties: false,
+            description:
+              "Continuous prior over the likelihood's parameter: normal, uniform, exponential, beta, gamma, lognormal or triangular",
+          },
+          likelihood: {
+            type: "object",
+            properties: {
+              distribution: { type: "string" },
+              parameters: {
+                type: "object",
+                additionalProperties: { type: "number" },
+              },
+            },
+            required: ["distribution"],
+            additionalProperties: false,
+            description:
+              "binomial (n known; p unknown), bernoulli, geometric (p unknown), poisson (lambda unknown), exponential (rate unknown) or normal (stdDev known; mean unknown)",
+          },
+          data: {
+            type: "array",
+            items: { type: "number" },
+            description: "Observations the likelihood produced",
+          },
+          threshold: {
+            type: "number",
+            description:
+              "Report P(parameter > threshold) before and after the data as the prior and posterior probability",
+          },
+          credibleMass: {
+            type: "number",
+            exclusiveMinimum: 0,
+            exclusiveMaximum: 1,
+            description: "Mass of the credible intervals (default 0.95)",
+          },
+          method: {
+            type: "string",
+            description:
+              "'conjugate' (default; closed form where the prior is conjugate, sampled otherwise) or 'metropolis_hastings'. An unrecognised value is accepted with a warning.",
+          },
+          mcmc: {
+            type: "object",
+            properties: {
+              iterations: {
+                type: "integer",
+                minimum: 1,
+                description: "Draws kept per chain (default 2500)",
+              },
+              burnIn: {
+                type: "integer",
+                minimum: 0,
+                description: "Draws discarded per chain (default 1000)",
+              },
+              chains: {
+                type: "integer",
+                minimum: 1,
+                maximum: 16,
+                description: "Chains run (default 4)",
+              },
+              seed: {
+                type: "integer",
+                description:
+                  "Seed for reproducible sampling; a fresh one is chosen and reported if omitted",
+              },
+            },
+            additionalProperties: false,
+            description:
+              "Metropolis-Hastings settings; all chains together are capped at 100000 draws",
+          },
+        },
+        required: ["prior", "likelihood", "data"],
+        additionalProperties: false,
+        description:
+          "A prior over one unknown parameter updated by data: in closed form when conjugate (beta-binomial, gamma-Poisson, normal-normal, ...), by seeded Metropolis-Hastings otherwise. The posterior gets credible intervals and, when sampled, convergence diagnostics",
+      },
       frameOfDiscernment: {
         type: "array",
         items: { type: "string" },
@@ -919,6 +1092,68 @@ export const deepthinking_probabilistic_schema = {
         additionalProperties: { type: "number", minimum: 0, maximum: 1 },
         description: "Plausibility function values",
       },
+      beliefFunctions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            source: { type: "string" },
+            massAssignments: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  hypothesisSet: { type: "array", items: { type: "string" } },
+                  mass: { type: "number", minimum: 0, maximum: 1 },
+                  justification: { type: "string" },
+                },
+                required: ["hypothesisSet", "mass"],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ["id", "massAssignments"],
+          additionalProperties: false,
+        },
+        description:
+          "Mass functions of independent sources over the frame of discernment. Two or more are combined into combinedBelief, with the conflict mass K; Bel, Pl and pignistic probability are computed for every focal set",
+      },
+      combinationRule: {
+        type: "string",
+        description:
+          "How conflicting mass is redistributed when beliefFunctions are combined: 'dempster' (default, normalised away), 'yager' (moved to the whole frame) or 'pcr5' (returned to the conflicting sets). An unrecognised value is accepted with a warning.",
+      },
+      decisions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            selectedHypothesis: { type: "array", items: { type: "string" } },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            reasoning: { type: "string" },
+            alternatives: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  hypothesis: { type: "array", items: { type: "string" } },
+                  expectedUtility: { type: "number" },
+                  risk: { type: "number" },
+                },
+                required: ["hypothesis"],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ["id", "selectedHypothesis"],
+          additionalProperties: false,
+        },
+        description:
+          "Decisions for sets of hypotheses, ranked by the pignistic probability of their selectedHypothesis",
+      },
       // --- Stochastic mode (v9.3.4) ---
       processType: {
         type: "string",
@@ -939,6 +1174,12 @@ export const deepthinking_probabilistic_schema = {
         items: { type: "string" },
         description: "IDs of the states visited so far, in order",
       },
+      targetStates: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "IDs of the states whose hitting probabilities and expected hitting times to compute; defaults to the chain's absorbing states",
+      },
       markovChain: {
         type: "object",
         properties: {
@@ -986,7 +1227,8 @@ export const deepthinking_probabilistic_schema = {
           period: { type: "integer", minimum: 1 },
         },
         additionalProperties: false,
-        description: "Markov chain under analysis",
+        description:
+          "Markov chain under analysis. With transitions, irreducibility, period and ergodicity are computed from them; claims that disagree are warned about.",
       },
       randomVariables: {
         type: "array",
@@ -1069,6 +1311,98 @@ export const deepthinking_probabilistic_schema = {
         description:
           "Alias for `simulations`. Both are accepted; this is the form checked for a too-low iteration count.",
       },
+      monteCarloConfig: {
+        type: "object",
+        properties: {
+          iterations: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Total draw budget across the chains (default 10000, capped at 100000)",
+          },
+          burnIn: {
+            type: "integer",
+            minimum: 0,
+            description: "Draws each chain discards first",
+          },
+          thinning: {
+            type: "integer",
+            minimum: 1,
+            description: "Keep every Nth accepted draw",
+          },
+          chains: {
+            type: "integer",
+            minimum: 1,
+            maximum: 16,
+            description: "Independent chains, for R-hat (default 4)",
+          },
+          seed: {
+            type: "integer",
+            description:
+              "Seed for reproducible draws; a fresh one is chosen and reported if omitted",
+          },
+          convergenceThreshold: {
+            type: "number",
+            exclusiveMinimum: 0,
+            description:
+              "Stop once every variable's Monte Carlo standard error is below this fraction of its standard deviation",
+          },
+          timeout: {
+            type: "integer",
+            minimum: 1,
+            description: "Time limit in ms (at most 5000)",
+          },
+        },
+        additionalProperties: false,
+        description:
+          "Runs the random variables through a seeded Monte Carlo simulation; monte_carlo_simulation thoughts run one with the defaults",
+      },
+      dependencies: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            from: { type: "string" },
+            to: { type: "string" },
+            type: {
+              type: "string",
+              description: "'causal', 'correlation' or 'conditional'",
+            },
+            strength: {
+              type: "number",
+              minimum: -1,
+              maximum: 1,
+              description: "Correlation the simulation induces",
+            },
+          },
+          required: ["from", "to"],
+          additionalProperties: false,
+        },
+        description:
+          "Dependencies between random variables, by name; those with a strength correlate the Monte Carlo draws",
+      },
+      constraints: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              description:
+                "'equality' or 'sum_to_one' rescale the variables to sum to target; 'inequality' or 'range' reject draws where the expression is false",
+            },
+            variables: { type: "array", items: { type: "string" } },
+            expression: {
+              type: "string",
+              description: "Condition on the variables, e.g. 'cost < budget'",
+            },
+            target: { type: "number" },
+          },
+          required: ["type"],
+          additionalProperties: false,
+        },
+        description: "Constraints on the Monte Carlo draws",
+      },
     },
     required: [...baseThoughtRequired],
     additionalProperties: false,
@@ -1317,6 +1651,142 @@ export const deepthinking_strategic_schema = {
         additionalProperties: false,
         description: "Payoff matrix for the game",
       },
+      gameTree: {
+        type: "object",
+        properties: {
+          rootNode: { type: "string", description: "ID of the root node" },
+          nodes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                type: {
+                  type: "string",
+                  enum: ["decision", "chance", "terminal"],
+                },
+                playerId: {
+                  type: "string",
+                  description: "Player who moves at a decision node",
+                },
+                parentNode: { type: "string" },
+                childNodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "IDs of the child nodes",
+                },
+                action: {
+                  type: "string",
+                  description: "Action that leads to this node",
+                },
+                probability: {
+                  type: "number",
+                  minimum: 0,
+                  maximum: 1,
+                  description:
+                    "Probability of reaching this node from a chance node; siblings without one share the rest",
+                },
+                payoffs: {
+                  type: "array",
+                  items: { type: "number" },
+                  description:
+                    "Payoffs at a terminal node, one per player in the order of `players`",
+                },
+              },
+              required: ["id", "type", "childNodes"],
+              additionalProperties: false,
+            },
+          },
+          informationSets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                playerId: { type: "string" },
+                nodes: { type: "array", items: { type: "string" } },
+                availableActions: { type: "array", items: { type: "string" } },
+              },
+              required: ["id", "playerId", "nodes", "availableActions"],
+              additionalProperties: false,
+            },
+            description:
+              "Sets of nodes the moving player cannot tell apart. Sets with more than one node are not solved by backward induction",
+          },
+        },
+        required: ["rootNode", "nodes"],
+        additionalProperties: false,
+        description:
+          "Extensive-form game tree, solved by backward induction into `backwardInduction` on the thought",
+      },
+      cooperativeGame: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          players: {
+            type: "array",
+            items: { type: "string" },
+            description: "Player IDs",
+          },
+          characteristicFunction: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                coalition: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Player IDs in the coalition",
+                },
+                value: { type: "number", description: "v(S)" },
+                formationReason: { type: "string" },
+              },
+              required: ["coalition", "value"],
+              additionalProperties: false,
+            },
+            description:
+              "Value of each coalition; coalitions not listed are worth 0",
+          },
+          isSuperadditive: { type: "boolean" },
+          isConvex: { type: "boolean" },
+          hasNonEmptyCore: { type: "boolean" },
+          core: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                allocation: {
+                  type: "object",
+                  additionalProperties: { type: "number" },
+                  description: "Payoff to each player ID",
+                },
+                isImputation: { type: "boolean" },
+                distanceToNucleolus: { type: "number" },
+                justification: { type: "string" },
+              },
+              required: ["allocation"],
+              additionalProperties: false,
+            },
+            description:
+              "Proposed core allocations, each checked for blocking coalitions",
+          },
+          shapleyValues: {
+            type: "object",
+            additionalProperties: { type: "number" },
+            description: "Claimed Shapley value of each player ID",
+          },
+          nucleolus: {
+            type: "array",
+            items: { type: "number" },
+            description: "Claimed nucleolus, in the order of `players`",
+          },
+          description: { type: "string" },
+        },
+        required: ["players", "characteristicFunction"],
+        additionalProperties: false,
+        description:
+          "Cooperative game. The Shapley value, least core and nucleolus are computed from the characteristic function, and supplied allocations are checked against them",
+      },
       objectiveFunction: {
         type: "string",
         description: "Function to optimize",
@@ -1342,6 +1812,43 @@ export const deepthinking_strategic_schema = {
         additionalProperties: false,
         description: "Optimization solution",
       },
+      objectives: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            type: { type: "string", enum: ["minimize", "maximize"] },
+            formula: { type: "string" },
+          },
+          required: ["id", "type", "formula"],
+          additionalProperties: false,
+        },
+        description:
+          "Objectives of a multi-objective problem. With linear formulas, the Pareto frontier is traced with its knee point and trade-off rates",
+      },
+      paretoCandidates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            objectiveValues: {
+              type: "object",
+              additionalProperties: { type: "number" },
+            },
+            variables: {
+              type: "object",
+              additionalProperties: { type: "number" },
+            },
+          },
+          required: ["id", "objectiveValues"],
+          additionalProperties: false,
+        },
+        description:
+          "Candidate solutions scored on each objective; dominated candidates are flagged",
+      },
       // --- Constraint satisfaction mode (v9.3.4) ---
       variables: {
         type: "array",
@@ -1380,7 +1887,11 @@ export const deepthinking_strategic_schema = {
               items: { type: "string" },
               description: "IDs of the variables this constraint relates",
             },
-            expression: { type: "string" },
+            expression: {
+              type: "string",
+              description:
+                "Condition over variable ids or names, e.g. 'X1 != X2', '|Q1 - Q2| != 1', \"C in ['red', 'blue']\", 'alldifferent(A, B, C)'. May be empty for type 'alldifferent'",
+            },
             satisfied: { type: "boolean" },
             priority: {
               type: "string",
@@ -1426,10 +1937,16 @@ export const deepthinking_strategic_schema = {
         description:
           "Arcs of the constraint graph. Derived from variables and constraints when omitted.",
       },
+      propagationMethod: {
+        type: "string",
+        description:
+          "Propagation the solver uses after each assignment: 'arc_consistency' (default, MAC), 'forward_checking' or 'none'",
+      },
       backtracks: {
         type: "integer",
         minimum: 0,
-        description: "Number of backtracks performed so far",
+        description:
+          "Number of backtracks performed so far; replaced by the solver's count when it can solve the problem",
       },
       searchStep: {
         type: "integer",
@@ -1439,11 +1956,12 @@ export const deepthinking_strategic_schema = {
       isArcConsistent: {
         type: "boolean",
         description:
-          "Whether the problem is arc consistent; computed if omitted",
+          "Whether the problem is arc consistent; computed by AC-3 when the problem can be solved",
       },
       solutionStatus: {
         type: "string",
-        description: "'searching', 'found', 'infeasible' or 'timeout'",
+        description:
+          "'searching', 'found', 'infeasible' or 'timeout'. Decided by the solver whenever every required constraint has a readable expression",
       },
       solutionCount: {
         type: "integer",
@@ -1639,10 +2157,116 @@ export const deepthinking_scientific_schema = {
         type: "string",
         description: "Logical conclusion",
       },
+      resolution: {
+        type: "object",
+        properties: {
+          maxSteps: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Given clauses to process before the argument is reported undecided (default 100, capped at 1000)",
+          },
+          timeLimitMs: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Time limit in ms, a safety net behind maxSteps (default and cap 5000)",
+          },
+        },
+        additionalProperties: false,
+        description:
+          "Limits on the resolution search for a first-order argument",
+      },
       inference: {
         type: "string",
         description: "Type of logical inference used",
       },
+      formula: {
+        type: "string",
+        description:
+          "Propositional formula to analyze: truth table and satisfiability are computed, and the normal forms in `normalForms`. Connectives ¬ ∧ ∨ → ↔ ⊕, or ~ & | -> <-> xor, or \\neg \\land \\lor \\to \\leftrightarrow \\oplus. Premises and a conclusion written as formulas are checked for validity; first-order ones, with ∀ ∃ (or forall, exists) and predicates such as Mortal(socrates), by resolution.",
+      },
+      normalForms: {
+        type: "array",
+        items: { type: "string", enum: ["nnf", "cnf", "dnf"] },
+        maxItems: 3,
+        description:
+          "Normal forms of `formula` to compute; one too large to write out is left out with a warning",
+      },
+      equivalence: {
+        type: "object",
+        properties: {
+          formula1: { type: "string" },
+          formula2: { type: "string" },
+          equivalent: {
+            type: "boolean",
+            description: "Claimed result; checked against the computed one",
+          },
+        },
+        required: ["formula1", "formula2"],
+        additionalProperties: false,
+        description: "Two formulas to check for logical equivalence",
+      },
+      satisfiability: {
+        type: "object",
+        properties: {
+          formula: {
+            type: "string",
+            description: "Used when `formula` is omitted",
+          },
+          satisfiable: {
+            type: "boolean",
+            description: "Claimed result; checked against the computed one",
+          },
+        },
+        additionalProperties: false,
+        description: "Satisfiability claim for the formula",
+      },
+      proof: {
+        type: "object",
+        properties: {
+          theorem: { type: "string" },
+          technique: { type: "string" },
+          steps: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                stepNumber: { type: "integer" },
+                statement: { type: "string" },
+                formula: {
+                  type: "string",
+                  description:
+                    "Formula the step asserts; `statement` is read when omitted",
+                },
+                justification: {
+                  type: "string",
+                  description:
+                    "Rule and cited steps, e.g. 'MP', '→I', '∧E', 'reductio', 'premise', 'assumption'",
+                },
+                rule: { type: "string" },
+                referencesSteps: {
+                  type: "array",
+                  items: { type: "integer" },
+                  description:
+                    "Cited steps; a subproof is cited by its assumption step then its last step",
+                },
+                isAssumption: { type: "boolean" },
+                dischargesAssumption: { type: "integer" },
+              },
+              required: ["stepNumber", "statement", "justification"],
+              additionalProperties: false,
+            },
+          },
+          conclusion: { type: "string" },
+          valid: { type: "boolean" },
+          completeness: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["theorem", "steps"],
+        additionalProperties: false,
+        description:
+          "Natural-deduction proof; each step is checked against the rule it cites",
+      },
       // --- Modal logic mode (v9.3.4) ---
       worlds: {
         type: "array",
@@ -1687,7 +2311,16 @@ export const deepthinking_scientific_schema = {
               description:
                 "'necessary', 'possible', 'contingent', 'impossible', 'known', 'believed', 'obligatory', 'permitted', 'always' or 'eventually'. Defaults to 'contingent'.",
             },
-            truthValue: { type: "boolean" },
+            evaluatedIn: {
+              type: "string",
+              description:
+                "World the proposition is evaluated at; defaults to the actual world",
+            },
+            truthValue: {
+              type: "boolean",
+              description:
+                "Computed by model checking when the content is a formula over the worlds' propositions",
+            },
             worldsTrue: {
               type: "array",
               items: { type: "string" },
@@ -1701,7 +2334,8 @@ export const deepthinking_scientific_schema = {
           },
           additionalProperties: false,
         },
-        description: "Modal propositions being evaluated",
+        description:
+          "Modal propositions being evaluated. Content written as a formula (□, ◇, ¬, ∧, ∨, →) is model-checked at every world.",
       },
       accessibilityRelations: {
         type: "array",
@@ -1744,7 +2378,7 @@ export const deepthinking_scientific_schema = {
           additionalProperties: false,
         },
         description:
-          "Modal inferences. Distinct from `inference`, the formal-logic rule name.",
+          "Modal inferences. Distinct from `inference`, the formal-logic rule name. Premises and a conclusion written as modal formulas are decided in modalLogicType, with a countermodel when invalid.",
       },
       modalLogicType: {
         type: "string",
@@ -2277,7 +2911,7 @@ export const deepthinking_academic_schema = {
 export const deepthinking_session_schema = {
   name: "deepthinking_session",
   description:
-    "Session: summarize, export, export_all, get, switch_mode, recommend, delete",
+    "Session: summarize, export, export_all, get, switch_mode, recommend, delete, import, fork, branches, merge",
   inputSchema: {
     type: "object",
     properties: {
@@ -2296,6 +2930,10 @@ export const deepthinking_session_schema = {
           "switch_mode",
           "recommend_mode",
           "delete_session",
+          "import_session",
+          "fork_session",
+          "list_branches",
+          "merge_branch",
         ],
         description: "Session action to perform",
       },
@@ -2343,6 +2981,26 @@ export const deepthinking_session_schema = {
         type: "string",
         description: "New thinking mode (for switch_mode action)",
       },
+      sessionData: {
+        type: "string",
+        description:
+          "A session exported with exportFormat json, as text (for import_session action; alternative to importPath)",
+      },
+      importPath: {
+        type: "string",
+        description:
+          "Path of a json export file inside the export directory (for import_session action; alternative to sessionData)",
+      },
+      thoughtId: {
+        type: "string",
+        description:
+          "Last thought to copy into the fork (for fork_session action; default: the newest thought)",
+      },
+      branchId: {
+        type: "string",
+        description:
+          "Branch the fork's thoughts are merged onto (for merge_branch action, where sessionId is the fork; default: the fork's session id)",
+      },
       problemType: {
         type: "string",
         description: "Quick problem type for mode recommendation",
@@ -14,6 +14,7 @@ import {
   LevelEnum,
   IdSchema,
   SessionIdSchema,
+  SessionImportTextSchema,
   TextSchema,
   ThoughtTextSchema,
   IdArraySchema,
@@ -52,6 +53,10 @@ export const SessionActionSchema = z.object({
   outputDir: IdSchema.optional(), // Phase 16: File export - when provided, exports write to files instead of returning content
   overwrite: z.boolean().optional(), // Phase 16: File export - overwrite existing files (default: false)
   newMode: IdSchema.optional(),
+  sessionData: SessionImportTextSchema.optional(), // import_session: a JSON export, inline
+  importPath: IdSchema.optional(), // import_session: a JSON export file inside the export sandbox
+  thoughtId: IdSchema.optional(), // fork_session: the last thought to copy
+  branchId: IdSchema.optional(), // merge_branch: the branch the merged thoughts go on
   problemType: IdSchema.optional(),
   problemCharacteristics: z
     .object({
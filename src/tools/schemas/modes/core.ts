@@ -10,6 +10,7 @@ import { BaseThoughtSchema } from "../base.js";
 import {
   ShannonStageEnum,
   IdSchema,
+  ResolutionSettingsSchema,
   TextSchema,
   IdArraySchema,
   TextArraySchema,
@@ -45,6 +46,7 @@ export const CoreModeSchema = BaseThoughtSchema.extend({
   logicForm: TextSchema.optional(),
   validityCheck: z.boolean().optional(),
   soundnessCheck: z.boolean().optional(),
+  resolution: ResolutionSettingsSchema.optional(),
   // Abductive properties
   hypotheses: z
     .array(
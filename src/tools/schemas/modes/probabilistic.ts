@@ -107,6 +107,123 @@ const SimulationResultSchema = z.object({
   samples: z.array(z.number()).max(MAX_LENGTHS.ARRAY_ITEMS).optional(),
 });
 
+/** Settings for the seeded Monte Carlo run over the random variables. */
+const MonteCarloConfigSchema = z.object({
+  iterations: z.number().int().min(1).optional(),
+  burnIn: z.number().int().min(0).optional(),
+  thinning: z.number().int().min(1).optional(),
+  chains: z.number().int().min(1).max(16).optional(),
+  seed: z.number().int().optional(),
+  convergenceThreshold: z.number().positive().optional(),
+  timeout: z.number().int().min(1).optional(),
+});
+
+/** A correlation the Monte Carlo run induces between two random variables. */
+const DependencySchema = z.object({
+  from: IdSchema,
+  to: IdSchema,
+  type: IdSchema.optional(),
+  strength: z.number().min(-1).max(1).optional(),
+});
+
+/** A constraint the Monte Carlo run's draws must meet. */
+const StochasticConstraintSchema = z.object({
+  type: IdSchema,
+  variables: IdArraySchema.optional(),
+  expression: TextSchema.optional(),
+  target: z.number().optional(),
+});
+
+// ============================================================
+// EVIDENTIAL REASONING
+// ============================================================
+//
+// `massFunction` carries one source's masses. Several sources are combined
+// only when given as `beliefFunctions`, the form EvidentialHandler combines;
+// `combinationRule` is a bounded string, not an enum, for the same reason as
+// the stochastic vocabulary above: the handler warns on an unknown rule and
+// falls back to Dempster's.
+
+/** Mass committed to one set of hypotheses. */
+const MassAssignmentSchema = z.object({
+  hypothesisSet: IdArraySchema,
+  mass: ConfidenceSchema,
+  justification: TextSchema.optional(),
+});
+
+/** One source's mass function. */
+const BeliefFunctionSchema = z.object({
+  id: IdSchema,
+  source: IdSchema.optional(),
+  massAssignments: z
+    .array(MassAssignmentSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
+});
+
+/** A decision for a set of hypotheses, ranked by pignistic probability. */
+const DecisionSchema = z.object({
+  id: IdSchema,
+  name: NameSchema.optional(),
+  selectedHypothesis: IdArraySchema,
+  confidence: ConfidenceSchema.optional(),
+  reasoning: TextSchema.optional(),
+  alternatives: z
+    .array(
+      z.object({
+        hypothesis: IdArraySchema,
+        expectedUtility: z.number().optional(),
+        risk: z.number().optional(),
+      }),
+    )
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+});
+
+/** A discrete variable of a Bayesian network, with its CPT. */
+const NetworkNodeSchema = z.object({
+  id: IdSchema,
+  states: IdArraySchema,
+  parents: IdArraySchema.optional(),
+  /** One row per assignment of the parents, the first parent varying slowest. */
+  cpt: z
+    .array(z.array(ConfidenceSchema).max(MAX_LENGTHS.ARRAY_ITEMS))
+    .max(MAX_LENGTHS.ARRAY_ITEMS),
+});
+
+/** A Bayesian network and how to run inference on it. */
+const BayesianNetworkSchema = z.object({
+  nodes: z.array(NetworkNodeSchema).max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
+  /** Lenient like `thoughtType`: BayesianHandler warns on an unknown method. */
+  method: IdSchema.optional(),
+  samples: z.number().int().min(1).optional(),
+  seed: z.number().int().optional(),
+});
+
+/** A named distribution and its parameters, as a prior or likelihood. */
+const NamedDistributionSchema = z.object({
+  distribution: IdSchema,
+  parameters: boundedRecord(IdSchema, z.number()).optional(),
+});
+
+/** A prior over one parameter, the likelihood it governs and the data. */
+const ParametricModelSchema = z.object({
+  prior: NamedDistributionSchema,
+  likelihood: NamedDistributionSchema,
+  data: z.array(z.number()).max(MAX_LENGTHS.ARRAY_ITEMS),
+  threshold: z.number().optional(),
+  credibleMass: z.number().gt(0).lt(1).optional(),
+  /** Lenient like `thoughtType`: BayesianHandler warns on an unknown method. */
+  method: IdSchema.optional(),
+  mcmc: z
+    .object({
+      iterations: z.number().int().min(1).optional(),
+      burnIn: z.number().int().min(0).optional(),
+      chains: z.number().int().min(1).max(16).optional(),
+      seed: z.number().int().optional(),
+    })
+    .optional(),
+});
+
 /**
  * Probabilistic reasoning schema (Bayesian + Evidential + Stochastic)
  */
@@ -125,6 +242,11 @@ export const ProbabilisticSchema = BaseThoughtSchema.extend({
   likelihood: ConfidenceSchema.optional(),
   posteriorProbability: ConfidenceSchema.optional(),
   evidence: IdArraySchema.optional(),
+  bayesianNetwork: BayesianNetworkSchema.optional(),
+  observations: boundedRecord(IdSchema, IdSchema).optional(),
+  targetVariable: IdSchema.optional(),
+  candidateEvidence: IdArraySchema.optional(),
+  parametricModel: ParametricModelSchema.optional(),
 
   // Evidential (Dempster-Shafer) reasoning
   frameOfDiscernment: IdArraySchema.optional(),
@@ -132,12 +254,23 @@ export const ProbabilisticSchema = BaseThoughtSchema.extend({
   massFunction: boundedRecord(IdSchema, ConfidenceSchema).optional(),
   beliefFunction: boundedRecord(IdSchema, ConfidenceSchema).optional(),
   plausibilityFunction: boundedRecord(IdSchema, ConfidenceSchema).optional(),
+  beliefFunctions: z
+    .array(BeliefFunctionSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+  combinationRule: IdSchema.optional(),
+  decisions: z
+    .array(DecisionSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
 
   // Stochastic reasoning
   processType: IdSchema.optional(),
   stepCount: z.number().int().min(0).optional(),
   currentState: IdSchema.optional(),
   stateHistory: IdArraySchema.optional(),
+  /** States whose hitting times a hitting_time_analysis computes; default: the absorbing states. */
+  targetStates: IdArraySchema.optional(),
   markovChain: MarkovChainSchema.optional(),
   randomVariables: z
     .array(RandomVariableSchema)
@@ -155,6 +288,15 @@ export const ProbabilisticSchema = BaseThoughtSchema.extend({
     .array(SimulationResultSchema)
     .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
     .optional(),
+  monteCarloConfig: MonteCarloConfigSchema.optional(),
+  dependencies: z
+    .array(DependencySchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+  constraints: z
+    .array(StochasticConstraintSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
 });
 
 export type ProbabilisticInput = z.infer<typeof ProbabilisticSchema>;
@@ -12,6 +12,7 @@ import {
   NameSchema,
   TextSchema,
   IdArraySchema,
+  ResolutionSettingsSchema,
   boundedRecord,
 } from "../shared.js";
 import { MAX_LENGTHS } from "../../../utils/sanitization.js";
@@ -43,6 +44,23 @@ const InteractionSchema = z.object({
   type: IdSchema,
 });
 
+/**
+ * Natural-deduction proof step for formal logic
+ */
+const LogicalProofStepSchema = z.object({
+  stepNumber: z.number().int(),
+  statement: TextSchema,
+  formula: TextSchema.optional(),
+  justification: TextSchema,
+  rule: IdSchema.optional(),
+  referencesSteps: z
+    .array(z.number().int())
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+  isAssumption: z.boolean().optional(),
+  dischargesAssumption: z.number().int().optional(),
+});
+
 /**
  * Feedback loop schema for systems thinking
  */
@@ -87,6 +105,7 @@ const ModalPropositionSchema = z.object({
   id: IdSchema.optional(),
   content: TextSchema.optional(),
   operator: IdSchema.optional(),
+  evaluatedIn: IdSchema.optional(),
   truthValue: z.boolean().optional(),
   worldsTrue: IdArraySchema.optional(),
   worldsFalse: IdArraySchema.optional(),
@@ -145,7 +164,38 @@ export const ScientificSchema = BaseThoughtSchema.extend({
   // Formal logic
   premises: IdArraySchema.optional(),
   conclusion: TextSchema.optional(),
+  resolution: ResolutionSettingsSchema.optional(),
   inference: TextSchema.optional(),
+  formula: TextSchema.optional(),
+  normalForms: z
+    .array(z.enum(["nnf", "cnf", "dnf"]))
+    .max(3)
+    .optional(),
+  equivalence: z
+    .object({
+      formula1: TextSchema,
+      formula2: TextSchema,
+      equivalent: z.boolean().optional(),
+    })
+    .optional(),
+  satisfiability: z
+    .object({
+      formula: TextSchema.optional(),
+      satisfiable: z.boolean().optional(),
+    })
+    .optional(),
+  proof: z
+    .object({
+      theorem: TextSchema,
+      technique: IdSchema.optional(),
+      steps: z
+        .array(LogicalProofStepSchema)
+        .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
+      conclusion: TextSchema.optional(),
+      valid: z.boolean().optional(),
+      completeness: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
 
   // Modal logic
   worlds: z
@@ -51,6 +51,82 @@ const PayoffMatrixSchema = z.object({
   payoffs: z.array(PayoffEntrySchema).max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
 });
 
+/**
+ * Node of an extensive-form game tree
+ */
+const GameNodeSchema = z.object({
+  id: IdSchema,
+  type: z.enum(["decision", "chance", "terminal"]),
+  playerId: IdSchema.optional(),
+  parentNode: IdSchema.optional(),
+  childNodes: IdArraySchema,
+  action: NameSchema.optional(),
+  probability: ConfidenceSchema.optional(),
+  payoffs: z.array(z.number()).max(MAX_LENGTHS.ARRAY_ITEMS).optional(),
+});
+
+/**
+ * Nodes a player cannot tell apart
+ */
+const InformationSetSchema = z.object({
+  id: IdSchema,
+  playerId: IdSchema,
+  nodes: IdArraySchema,
+  availableActions: IdArraySchema,
+});
+
+/**
+ * Extensive-form game tree
+ */
+const GameTreeSchema = z.object({
+  rootNode: IdSchema,
+  nodes: z.array(GameNodeSchema).max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
+  informationSets: z
+    .array(InformationSetSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+});
+
+/**
+ * Value v(S) of a coalition
+ */
+const CoalitionValueSchema = z.object({
+  coalition: IdArraySchema,
+  value: z.number(),
+  formationReason: TextSchema.optional(),
+});
+
+/**
+ * An allocation the caller proposes as a core member
+ */
+const CoreAllocationSchema = z.object({
+  allocation: boundedRecord(IdSchema, z.number()),
+  isImputation: z.boolean().optional(),
+  distanceToNucleolus: z.number().optional(),
+  justification: TextSchema.optional(),
+});
+
+/**
+ * Transferable-utility cooperative game
+ */
+const CooperativeGameSchema = z.object({
+  id: IdSchema.optional(),
+  players: IdArraySchema,
+  characteristicFunction: z
+    .array(CoalitionValueSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS),
+  isSuperadditive: z.boolean().optional(),
+  isConvex: z.boolean().optional(),
+  hasNonEmptyCore: z.boolean().optional(),
+  core: z
+    .array(CoreAllocationSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+  shapleyValues: boundedRecord(IdSchema, z.number()).optional(),
+  nucleolus: z.array(z.number()).max(MAX_LENGTHS.ARRAY_ITEMS).optional(),
+  description: TextSchema.optional(),
+});
+
 /**
  * Solution schema for optimization
  */
@@ -59,6 +135,25 @@ const SolutionSchema = z.object({
   variables: boundedRecord(IdSchema, z.number()).optional(),
 });
 
+/**
+ * One objective of a multi-objective problem
+ */
+const ObjectiveSchema = z.object({
+  id: IdSchema,
+  name: IdSchema.optional(),
+  type: z.enum(["minimize", "maximize"]),
+  formula: TextSchema,
+});
+
+/**
+ * A candidate solution scored on every objective, checked for dominance
+ */
+const ParetoCandidateSchema = z.object({
+  id: IdSchema,
+  objectiveValues: boundedRecord(IdSchema, z.number()),
+  variables: boundedRecord(IdSchema, z.number()).optional(),
+});
+
 // ============================================================
 // CONSTRAINT SATISFACTION (v9.3.4)
 // ============================================================
@@ -77,7 +172,7 @@ const SolutionSchema = z.object({
 // `input.constraints || input.cspConstraints`, so the alias needs no handler
 // change.
 //
-// Vocabulary fields (`thoughtType`, `strategy`-like values, constraint `type`
+// Vocabulary fields (`thoughtType`, `propagationMethod`, constraint `type`
 // and `priority`, `solutionStatus`) are bounded strings, NOT enums:
 // ConstraintHandler warns on or silently defaults an unrecognised value. A Zod
 // enum would turn that into a hard rejection.
@@ -138,12 +233,22 @@ export const StrategicSchema = BaseThoughtSchema.extend({
     .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
     .optional(),
   payoffMatrix: PayoffMatrixSchema.optional(),
+  gameTree: GameTreeSchema.optional(),
+  cooperativeGame: CooperativeGameSchema.optional(),
 
   // Optimization specific
   objectiveFunction: TextSchema.optional(),
   constraints: IdArraySchema.optional(),
   optimizationMethod: IdSchema.optional(),
   solution: SolutionSchema.optional(),
+  objectives: z
+    .array(ObjectiveSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
+  paretoCandidates: z
+    .array(ParetoCandidateSchema)
+    .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
+    .optional(),
 
   // Constraint satisfaction specific
   variables: z
@@ -163,6 +268,7 @@ export const StrategicSchema = BaseThoughtSchema.extend({
     .max(MAX_LENGTHS.NESTED_ARRAY_ITEMS)
     .optional(),
   arcs: z.array(ArcSchema).max(MAX_LENGTHS.NESTED_ARRAY_ITEMS).optional(),
+  propagationMethod: IdSchema.optional(),
   backtracks: z.number().int().min(0).optional(),
   searchStep: z.number().int().min(0).optional(),
   isArcConsistent: z.boolean().optional(),
@@ -63,6 +63,11 @@ export const TextSchema = z.string().max(MAX_LENGTHS.DESCRIPTION);
 /** Large free-form text bodies (thought content, LaTeX/model source, etc.) */
 export const ThoughtTextSchema = z.string().max(MAX_LENGTHS.THOUGHT_CONTENT);
 
+/** A whole JSON session export, as passed to `import_session` */
+export const SessionImportTextSchema = z
+  .string()
+  .max(MAX_LENGTHS.SESSION_IMPORT);
+
 /**
  * Bound an array's length. Defaults to ARRAY_ITEMS (1,000) for arrays of
  * primitives; pass MAX_LENGTHS.NESTED_ARRAY_ITEMS (500) for arrays of
@@ -151,6 +156,10 @@ export const SessionActionEnum = z.enum([
   "switch_mode",
   "recommend_mode",
   "delete_session",
+  "import_session",
+  "fork_session",
+  "list_branches",
+  "merge_branch",
 ]);
 
 /**
@@ -262,6 +271,15 @@ export const DescribedEntitySchema = EntitySchema.extend({
   description: TextSchema,
 });
 
+/**
+ * Limits on a resolution proof search (deductive and formal logic); the
+ * handlers cap them
+ */
+export const ResolutionSettingsSchema = z.object({
+  maxSteps: PositiveIntSchema.optional(),
+  timeLimitMs: PositiveIntSchema.optional(),
+});
+
 // ============================================================
 // TYPE EXPORTS
 // ============================================================
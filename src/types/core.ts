@@ -301,6 +301,25 @@ export interface BaseThought {
    * `src/proof/advisory.ts`.
    */
   proofAnalysis?: AdvisoryProofAnalysis;
+
+  /**
+   * Present when the thought is a compacted digest, not the full thought.
+   * Set by `SessionManager` once a session holds more than
+   * `compressionThreshold` full thoughts; the original is archived in
+   * session storage - see `src/session/ThoughtCompactor.ts`.
+   */
+  digest?: ThoughtDigest;
+}
+
+/**
+ * What a compacted thought digest left out
+ */
+export interface ThoughtDigest {
+  compactedAt: Date;
+  /** Length of the original `content`, which the digest shortens */
+  contentLength: number;
+  /** Top-level fields dropped from the digest */
+  omittedFields: string[];
 }
 
 // ============================================================================
@@ -326,6 +345,22 @@ export interface InductiveThought extends BaseThought {
 
 // ----- DEDUCTIVE REASONING -----
 
+/**
+ * Validity of a deductive argument decided by first-order resolution
+ */
+export interface DeductiveValidityProof {
+  status: "proved" | "refuted" | "unknown"; // "unknown" when the search budget ran out
+  method: "resolution";
+  trace?: string[]; // The refutation, one clause per line, when proved
+  countermodel?: {
+    domain: string[];
+    facts: Record<string, boolean>; // Atoms not listed are false
+    complete: boolean; // False when only the unit clauses left by saturation are known
+  };
+  reason?: string; // Why the search stopped, when unknown
+  steps: number; // Given clauses processed
+}
+
 /**
  * Deductive reasoning thought
  * Reasoning from general principles to specific conclusions
@@ -337,6 +372,7 @@ export interface DeductiveThought extends BaseThought {
   logicForm?: string; // e.g., "modus ponens", "modus tollens"
   validityCheck: boolean; // Is the deduction logically valid?
   soundnessCheck?: boolean; // Are the premises true?
+  validityProof?: DeductiveValidityProof; // When premises and conclusion are formulas
 }
 
 // ----- ABDUCTIVE REASONING -----
@@ -76,6 +76,7 @@ export {
   type CooperativeGame,
   type CoalitionValue,
   type CoreAllocation,
+  type AllocationCheck,
   type CoalitionAnalysis,
   type ShapleyValueDetails,
   createCharacteristicFunction,
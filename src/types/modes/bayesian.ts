@@ -20,6 +20,8 @@ export interface BayesianHypothesis {
 export interface PriorProbability {
   probability: number; // 0-1
   justification: string;
+  /** A parametric model's prior over its parameter */
+  distribution?: ParametricDistribution;
 }
 
 /**
@@ -48,6 +50,46 @@ export interface PosteriorProbability {
   probability: number; // 0-1
   calculation: string;
   confidence: number; // 0-1
+
+  // Set when a parametric model was given: the posterior of its parameter
+  parameter?: string;
+  method?: "conjugate" | "metropolis_hastings";
+  /** Conjugate update: the closed-form posterior, which can be the next prior */
+  distribution?: ParametricDistribution;
+  mean?: number;
+  stdDev?: number;
+  median?: number;
+  /** Mass of the credible intervals */
+  credibleMass?: number;
+  /** Equal-tailed credible interval */
+  credibleInterval?: [number, number];
+  /** Highest posterior density interval */
+  hpdInterval?: [number, number];
+  /** When set, the prior and posterior probability are P(parameter > threshold) */
+  threshold?: number;
+  /** Prior mass outside where the parameter can lie, cut off */
+  truncatedPriorMass?: number;
+  /** Metropolis-Hastings only */
+  diagnostics?: {
+    seed: number;
+    chains: number;
+    iterations: number;
+    burnIn: number;
+    acceptanceRate: number;
+    rHat: number;
+    effectiveSampleSize: number;
+    mcse: number;
+    gewekeZ: number;
+    converged: boolean;
+  };
+}
+
+/**
+ * A distribution over a parameter, as the input names it
+ */
+export interface ParametricDistribution {
+  distribution: string;
+  parameters: Record<string, number>;
 }
 
 /**
@@ -67,6 +109,38 @@ export interface BayesianThought extends BaseThought {
   posterior: PosteriorProbability;
   bayesFactor?: number; // Strength of evidence
   sensitivity?: SensitivityAnalysis;
+  networkInference?: NetworkInference; // Computed from bayesianNetwork
+}
+
+/**
+ * Inference over a discrete Bayesian network, computed by the handler
+ */
+export interface NetworkInference {
+  method: "variable_elimination" | "junction_tree" | "likelihood_weighting";
+  /** Exact inference was asked for, but its tables were too large */
+  fellBack?: boolean;
+  observations: Record<string, string>;
+  /** P(variable = state | observations) for every variable */
+  marginals: Record<string, Record<string, number>>;
+  /** P(observations), estimated when sampled */
+  evidenceProbability: number;
+  /** Likelihood weighting: samples drawn, their seed, and what they are worth */
+  samples?: number;
+  seed?: number;
+  effectiveSampleSize?: number;
+  /** The variable whose states are the competing hypotheses */
+  target?: string;
+  /** Unobserved variables ranked by expected information gain about the target */
+  valueOfInformation?: {
+    variable: string;
+    /** Expected reduction in the target's entropy, in bits */
+    informationGain: number;
+    outcomes: {
+      state: string;
+      probability: number;
+      posterior: Record<string, number>;
+    }[];
+  }[];
 }
 
 export function isBayesianThought(
@@ -63,6 +63,15 @@ export interface ConstraintThought extends BaseThought {
 
   /** Solutions found */
   solutions?: Assignment[];
+
+  /** Whether the solver explored the whole search space, so solutionCount is exact */
+  searchExhaustive?: boolean;
+
+  /** currentAssignments checked against the constraints */
+  assignmentCheck?: Assignment;
+
+  /** Constraints the solver could not read */
+  expressionErrors?: ConstraintCompileError[];
 }
 
 /**
@@ -162,6 +171,14 @@ export interface Assignment {
   violatedConstraints: string[];
 }
 
+/**
+ * A constraint whose expression could not be compiled
+ */
+export interface ConstraintCompileError {
+  constraintId: string;
+  message: string;
+}
+
 /**
  * Type guard for Constraint thoughts
  */
@@ -21,8 +21,19 @@ export interface EvidentialThought extends BaseThought {
   combinedBelief?: BeliefFunction;
   plausibility?: PlausibilityFunction;
   decisions?: Decision[];
+  combinationRule?: CombinationRule; // How combinedBelief was combined
+  pignisticProbability?: Record<string, number>; // BetP of each hypothesis
 }
 
+/**
+ * Where the conflicting mass K goes when belief functions are combined:
+ * - dempster: normalised away, scaling every other focal set by 1/(1−K)
+ * - yager: moved to the whole frame, as ignorance
+ * - pcr5: returned to the focal sets that conflicted, in proportion to the
+ *   mass each put on them
+ */
+export type CombinationRule = "dempster" | "yager" | "pcr5";
+
 export interface Hypothesis {
   id: string;
   name: string;
@@ -45,7 +56,7 @@ export interface BeliefFunction {
   id: string;
   source: string; // Evidence ID or 'combined'
   massAssignments: MassAssignment[];
-  conflictMass?: number; // Normalization factor
+  conflictMass?: number; // Conflict K, the mass the sources put on ∅
 }
 
 export interface MassAssignment {
@@ -64,6 +75,7 @@ export interface PlausibilityAssignment {
   plausibility: number; // 0-1
   belief: number; // 0-1
   uncertaintyInterval: [number, number]; // [belief, plausibility]
+  pignisticProbability?: number; // 0-1, BetP
 }
 
 export interface Decision {
@@ -73,12 +85,15 @@ export interface Decision {
   confidence: number; // Based on belief/plausibility
   reasoning: string;
   alternatives: Alternative[];
+  pignisticProbability?: number; // BetP of selectedHypothesis
+  rank?: number; // 1 for the decision with the highest BetP
 }
 
 export interface Alternative {
   hypothesis: string[];
   expectedUtility: number;
   risk: number;
+  pignisticProbability?: number; // BetP of hypothesis
 }
 
 export function isEvidentialThought(
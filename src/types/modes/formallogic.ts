@@ -22,6 +22,15 @@ export interface FormalLogicThought extends BaseThought {
   proof?: LogicalProof;
   truthTable?: TruthTable;
   satisfiability?: SatisfiabilityResult;
+
+  /** Whether the premises entail the conclusion, checked by SAT refutation */
+  validity?: ValidityResult;
+
+  /** Whether two formulas are equivalent, checked by SAT refutation */
+  equivalence?: LogicalEquivalence;
+
+  /** NNF, CNF and DNF of the formula under analysis */
+  normalForm?: NormalForm;
 }
 
 /**
@@ -75,7 +84,16 @@ export type InferenceRule =
   | "addition" // P ⊢ P∨Q
   | "resolution" // P∨Q, ¬P∨R ⊢ Q∨R
   | "contradiction" // P, ¬P ⊢ ⊥
-  | "excluded_middle"; // ⊢ P∨¬P
+  | "excluded_middle" // ⊢ P∨¬P
+  | "reiteration" // P ⊢ P
+  | "conditional_proof" // [P … Q] ⊢ P→Q
+  | "proof_by_cases" // P∨Q, [P … R], [Q … R] ⊢ R
+  | "negation_introduction" // [P … ⊥] ⊢ ¬P
+  | "reductio_ad_absurdum" // [¬P … ⊥] ⊢ P
+  | "double_negation" // ¬¬P ⊢ P
+  | "biconditional_introduction" // P→Q, Q→P ⊢ P↔Q
+  | "biconditional_elimination" // P↔Q, P ⊢ Q
+  | "explosion"; // ⊥ ⊢ P
 
 /**
  * Logical inference step
@@ -177,6 +195,7 @@ export interface ValidityResult {
   valid: boolean;
   method: string;
   counterexample?: Record<string, boolean>; // If invalid
+  proofTrace?: string[]; // Resolution refutation, one clause per line
   explanation: string;
 }
 
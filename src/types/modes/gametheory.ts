@@ -17,6 +17,7 @@ export interface GameTheoryThought extends BaseThought {
     | "equilibrium_finding"
     | "payoff_computation"
     | "dominance_analysis"
+    | "backward_induction" // Subgame-perfect play in extensive-form games
     // Phase 11: Von Neumann extensions
     | "minimax_analysis" // Von Neumann's minimax theorem
     | "cooperative_analysis" // Cooperative game theory
@@ -31,6 +32,7 @@ export interface GameTheoryThought extends BaseThought {
   nashEquilibria?: NashEquilibrium[];
   dominantStrategies?: DominantStrategy[];
   gameTree?: GameTree;
+  backwardInduction?: BackwardInduction;
 
   // Phase 11: Von Neumann extensions
   minimaxAnalysis?: MinimaxAnalysis;
@@ -97,12 +99,13 @@ export interface PayoffEntry {
  */
 export interface NashEquilibrium {
   id: string;
-  strategyProfile: string[]; // Strategy IDs for each player
-  payoffs: number[]; // Resulting payoffs
+  strategyProfile: string[]; // Strategy IDs for each player; for mixed, each player's support joined by "+"
+  payoffs: number[]; // Resulting payoffs (expected payoffs for mixed)
   type: "pure" | "mixed";
   isStrict: boolean; // No player wants to deviate
   stability: number; // 0-1, how stable is this equilibrium
   formula?: string; // LaTeX formula showing equilibrium conditions
+  mixedStrategies?: Record<string, number>[]; // For mixed: each player's probability per strategy ID
 }
 
 /**
@@ -154,9 +157,11 @@ export interface InformationSet {
  * Backward induction solution
  */
 export interface BackwardInduction {
-  subgamePerfectEquilibrium: string[]; // Sequence of strategy IDs
-  optimalPath: string[]; // Node IDs along optimal path
+  subgamePerfectEquilibrium: string[]; // Action chosen at each solved decision node, as "nodeId:action"
+  optimalPath: string[]; // Node IDs along optimal path; empty if the root could not be solved
   expectedPayoffs: number[];
+  tiedNodes?: string[]; // Decision nodes with more than one optimal action
+  imperfectInformationSets?: string[]; // Information set IDs backward induction cannot resolve
 }
 
 export function isGameTheoryThought(
@@ -261,6 +266,46 @@ export interface CooperativeGame {
 
   /** Description of the cooperative structure */
   description?: string;
+
+  /** Smallest ε such that some efficient allocation leaves every coalition at most ε short of v(S); the core is non-empty iff ε ≤ 0 */
+  leastCoreEpsilon?: number;
+
+  /** Set when the Shapley values were estimated from random orders of the players */
+  shapleyEstimate?: {
+    samples: number;
+    standardErrors: Record<string, number>;
+  };
+
+  /** Checks of the allocations the caller proposed */
+  allocationChecks?: AllocationCheck[];
+}
+
+/**
+ * Whether a proposed allocation is efficient, individually rational and in
+ * the core, and how far it is from the computed solution it claims to be
+ */
+export interface AllocationCheck {
+  /** Where the allocation came from: a core entry, the Shapley values or the nucleolus */
+  source: "core" | "shapley_value" | "nucleolus";
+  allocation: Record<string, number>;
+
+  /** Whether it hands out exactly v(N) */
+  isEfficient: boolean;
+
+  /** Whether every player gets at least v({i}) */
+  isIndividuallyRational: boolean;
+
+  /** Efficient, with no blocking coalition */
+  isInCore: boolean;
+
+  /** Coalitions S with v(S) greater than what their members are allocated */
+  blockingCoalitions: string[][];
+
+  /** Largest difference from the computed Shapley value or nucleolus */
+  maxDeviation?: number;
+
+  /** Whether that difference is within rounding (or sampling) error */
+  matchesComputed?: boolean;
 }
 
 /**
@@ -64,6 +64,26 @@ export interface ModalInference {
   rule?: string;
   valid: boolean;
   justification: string;
+
+  /** System the validity was decided in, when the formulas could be read */
+  checkedIn?: ModalLogicSystem;
+
+  /** A model of that system where the premises hold and the conclusion fails */
+  countermodel?: ModalCountermodel;
+}
+
+/**
+ * A Kripke model falsifying an inference at `world`
+ */
+export interface ModalCountermodel {
+  world: string;
+  worlds: string[];
+
+  /** Worlds each world accesses */
+  accessibility: Record<string, string[]>;
+
+  /** Atoms true at each world; every other atom is false there */
+  valuation: Record<string, string[]>;
 }
 
 /**
@@ -144,7 +164,12 @@ export interface KripkeFrame {
   worlds: string[];
   relations: AccessibilityRelation[];
   properties: KripkeProperty[];
+
+  /** Whether the frame has every property the logic system requires */
   isValid: boolean;
+
+  /** Why the frame lacks each required property it lacks */
+  violations?: string[];
 }
 
 /**
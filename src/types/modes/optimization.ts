@@ -24,6 +24,15 @@ export interface OptimizationThought extends BaseThought {
   objectives?: Objective[];
   solution?: Solution;
   analysis?: SensitivityAnalysis;
+
+  /** Optimum computed from the linear formulation of the problem */
+  computedSolution?: Solution;
+
+  /** How the caller's solution compares with the computed optimum */
+  optimalityGap?: OptimalityGap;
+
+  /** Pareto frontier of a problem with several objectives */
+  tradeoffAnalysis?: TradeoffAnalysis;
 }
 
 /**
@@ -162,9 +171,22 @@ export interface SensitivityAnalysis {
   robustness: number; // 0-1, how robust is the solution
   criticalConstraints: string[]; // Constraint IDs that are binding
   shadowPrices?: Record<string, number>; // Constraint ID -> shadow price
+  reducedCosts?: Record<string, number>; // Variable ID -> reduced cost
   recommendations: string[];
 }
 
+/**
+ * A claimed solution measured against the computed optimum
+ */
+export interface OptimalityGap {
+  claimedObjective: number;
+  optimalObjective: number;
+  absoluteGap: number; // How much worse the claim is, in the objective's direction
+  relativeGap: number; // absoluteGap / |optimalObjective|, or absoluteGap when the optimum is 0
+  claimedFeasible: boolean;
+  violatedConstraints: string[]; // Constraint or variable IDs the claimed values break
+}
+
 /**
  * Sensitivity to parameter changes
  */
@@ -197,6 +219,9 @@ export interface TradeoffAnalysis {
   id: string;
   objectives: string[]; // Objective IDs
   paretoFrontier?: ParetoSolution[];
+  method?: "weighted_sum" | "epsilon_constraint" | "dominance";
+  kneePoint?: string; // ParetoSolution ID of the frontier's knee
+  tradeoffRates?: TradeoffRate[];
   visualizations?: string[];
   recommendations: {
     solution: Solution;
@@ -205,6 +230,18 @@ export interface TradeoffAnalysis {
   }[];
 }
 
+/**
+ * Rate at which one objective is traded for another between neighbouring
+ * Pareto solutions
+ */
+export interface TradeoffRate {
+  fromSolution: string; // ParetoSolution ID
+  toSolution: string; // ParetoSolution ID
+  objectiveId: string;
+  perUnitOf: string; // Objective ID the rate is measured against
+  rate: number; // Change in objectiveId per unit change in perUnitOf
+}
+
 /**
  * Type guard for Optimization thoughts
  */
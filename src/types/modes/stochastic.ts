@@ -51,6 +51,12 @@ export interface StochasticThought extends BaseThought {
 
   /** Simulation results */
   simulations?: SimulationResult[];
+
+  /** Monte Carlo run over the random variables, computed by the handler */
+  monteCarlo?: MonteCarloRun;
+
+  /** What the handler computed of the Markov chain from its transitions */
+  markovAnalysis?: MarkovChainAnalysis;
 }
 
 /**
@@ -150,6 +156,95 @@ export interface SimulationStatistics {
   convergenceRate?: number;
 }
 
+/**
+ * A seeded Monte Carlo run over a thought's random variables. Running the
+ * same variables with the same seed and settings gives the same numbers.
+ */
+export interface MonteCarloRun {
+  seed: number;
+  /** The draw budget */
+  iterations: number;
+  /** Draws made, burn-in and rejected draws included */
+  draws: number;
+  chains: number;
+  burnIn: number;
+  thinning: number;
+  /** Draws kept after burn-in, constraints and thinning */
+  keptSamples: number;
+  /** Share of draws after burn-in that met the constraints, when there are any */
+  acceptanceRate?: number;
+  /** Why the run ended before the budget was spent, if it did */
+  stoppedEarly?: "converged" | "timeout";
+  variables: MonteCarloEstimate[];
+  /** Correlations of the kept draws, in the order of `variables` */
+  correlations?: number[][];
+  diagnostics: {
+    /** Split-chain R-hat, the largest over the variables */
+    rHat: number;
+    /** Geweke z-score furthest from 0 */
+    gewekeStatistic: number;
+    /** Effective sample size, the smallest over the variables */
+    effectiveSampleSize: number;
+    hasConverged: boolean;
+  };
+  warnings?: string[];
+}
+
+/**
+ * What a Monte Carlo run estimates of one random variable
+ */
+export interface MonteCarloEstimate {
+  name: string;
+  mean: number;
+  variance: number;
+  stdDev: number;
+  median: number;
+  /** Monte Carlo standard error of the mean */
+  mcse: number;
+  /** 95% equal-tailed credible interval */
+  credibleInterval: [number, number];
+  /** 95% highest-density interval */
+  hpdInterval: [number, number];
+}
+
+/**
+ * The long-run behaviour of a Markov chain, computed from its transitions.
+ * States are named by id.
+ */
+export interface MarkovChainAnalysis {
+  /** Communicating classes; a recurrent class is one the chain cannot leave */
+  classes: {
+    states: string[];
+    recurrent: boolean;
+    /** 0 when the chain cannot return to the class at all */
+    period: number;
+    stationary?: Record<string, number>;
+  }[];
+  kinds: Record<string, "absorbing" | "recurrent" | "transient">;
+  isIrreducible: boolean;
+  isAperiodic: boolean;
+  isErgodic: boolean;
+  /** Least common multiple of the periods of the recurrent classes */
+  period: number;
+  /** Present when there is one recurrent class, which makes it unique */
+  stationaryDistribution?: Record<string, number>;
+  /**
+   * For each transient state, the probability of ending in each recurrent
+   * class, keyed by the class's states joined with ", "
+   */
+  absorptionProbabilities?: Record<string, Record<string, number>>;
+  expectedStepsToAbsorption?: Record<string, number>;
+  /** Steps to within 1/4 of stationarity in total variation, from any start */
+  mixingTime?: number;
+  /** Hitting the target states, for a hitting_time_analysis thought */
+  hittingTimes?: {
+    targets: string[];
+    probabilities: Record<string, number>;
+    /** For the states that hit a target surely */
+    expectedSteps: Record<string, number>;
+  };
+}
+
 /**
  * Type guard for Stochastic thoughts
  */
@@ -42,6 +42,10 @@ export interface ThinkingSession {
   // State
   currentThoughtNumber: number;
   isComplete: boolean;
+  /** When the idle sweeper expired the session (see sessionTimeoutMs) */
+  expiredAt?: Date;
+  /** Set on a session created by `SessionManager.forkSession` */
+  forkedFrom?: SessionLineage;
 
   // Analytics
   metrics: SessionMetrics;
@@ -137,8 +141,108 @@ export interface SessionMetadata {
   thoughtCount: number;
   mode: ThinkingMode;
   isComplete: boolean;
+  /** Set once the session has been expired for idleness */
+  expiredAt?: Date;
+  /**
+   * Uncompressed size in bytes of the session's last snapshot, recorded by
+   * stores that compress snapshots so their stats need not decompress them
+   */
+  snapshotBytes?: number;
+}
+
+/**
+ * Where a forked session came from
+ */
+export interface SessionLineage {
+  /** The session it was forked from */
+  sessionId: string;
+  /** The last thought copied from that session */
+  thoughtId: string;
+  thoughtNumber: number;
+  forkedAt: Date;
+}
+
+/**
+ * The thoughts of one session that share a `branchId`
+ */
+export interface SessionBranch {
+  branchId: string;
+  /** The `branchFrom` of the branch's first thought, if it has one */
+  branchFrom?: string;
+  thoughtIds: string[];
+  firstThoughtNumber: number;
+  lastThoughtNumber: number;
+}
+
+/**
+ * A session's thoughts grouped by branch, from `SessionManager.listBranches`
+ */
+export interface SessionBranchListing {
+  sessionId: string;
+  forkedFrom?: SessionLineage;
+  /** Thoughts with no `branchId` */
+  mainThoughtCount: number;
+  branches: SessionBranch[];
+}
+
+/**
+ * Something a branch merge could not reconcile. The merge still happens: the
+ * merged thoughts sit on their own branch, so nothing in the target session
+ * is overwritten, and the conflict tells the caller what to look at.
+ *
+ * - `revision`: the merged thought revises a thought that the target session
+ *   also revised after the fork
+ * - `missing_reference`: the merged thought revises, branches from or
+ *   depends on a thought the target session does not have
+ */
+export interface BranchMergeConflict {
+  kind: "revision" | "missing_reference";
+  /** The merged thought */
+  thoughtId: string;
+  /** The thought it revises or refers to */
+  relatedThoughtId: string;
+  detail: string;
+}
+
+/**
+ * The outcome of `SessionManager.mergeBranch`
+ */
+export interface BranchMergeResult {
+  /** The session merged into: the fork's parent */
+  sessionId: string;
+  /** The fork whose thoughts were merged */
+  sourceSessionId: string;
+  branchId: string;
+  mergedThoughtIds: string[];
+  /** Fork thoughts the target already had, from an earlier merge */
+  skippedThoughtIds: string[];
+  /** Thoughts the target gained after the fork point */
+  targetThoughtsSinceFork: number;
+  conflicts: BranchMergeConflict[];
+}
+
+/**
+ * What happened to a session, as reported to `SessionManager.onSessionChange`
+ * listeners.
+ */
+export type SessionChangeKind =
+  "created" | "thought_added" | "mode_switched" | "expired" | "deleted";
+
+/**
+ * A change to one session. Carries ids only, never content: a listener that
+ * needs the session reads it back through `SessionManager.getSession`.
+ */
+export interface SessionChangeEvent {
+  sessionId: string;
+  kind: SessionChangeKind;
+  /** Set for `thought_added`. */
+  thoughtId?: string;
+  timestamp: Date;
 }
 
+/** Callback registered with `SessionManager.onSessionChange`. */
+export type SessionChangeListener = (event: SessionChangeEvent) => void;
+
 /**
  * Export formats
  */
@@ -318,6 +422,51 @@ export interface ProofAnalysisResult {
    * the whole block can be skipped when the proof exceeds the extended budget.
    */
   extended?: ProofExtendedAnalysis;
+
+  /**
+   * Natural-deduction check of a formal logic proof's steps. Present only for
+   * `formallogic.proof.steps`, the one source whose steps carry formulas and
+   * cited steps; absent when the checker failed.
+   */
+  deduction?: ProofDeductionAnalysis;
+}
+
+/**
+ * Natural-deduction check of a formal logic proof, bounded.
+ *
+ * Unlike `ProofVerificationAnalysis`, which matches justification keywords,
+ * this parses each step's formula and checks that its rule derives it from
+ * the steps it cites. A step whose formula or rule cannot be read is
+ * unchecked, not invalid.
+ */
+export interface ProofDeductionAnalysis {
+  /** Every step was checked and follows by its rule. */
+  verified: boolean;
+
+  /** The first step that does not follow, and why. */
+  firstInvalid?: { stepNumber: number; rule?: string; reason: string };
+
+  /** "premises ⊢ conclusion" when verified with no open assumption. */
+  sequent?: string;
+
+  /** Assumptions no rule discharges, by step number. */
+  openAssumptions: number[];
+
+  /** Steps that could not be checked, by step number. */
+  uncheckedSteps: number[];
+
+  totals: {
+    steps: number;
+    valid: number;
+    invalid: number;
+    unchecked: number;
+    openAssumptions: number;
+  };
+  truncated: {
+    openAssumptions: boolean;
+    uncheckedSteps: boolean;
+    any: boolean;
+  };
 }
 
 /**
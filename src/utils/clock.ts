@@ -0,0 +1,38 @@
+/**
+ * Clock abstraction for timed work
+ *
+ * Code that reads the time or runs on an interval (SessionManager's idle
+ * sweeper) takes a Clock instead of calling Date.now() and setInterval()
+ * directly, so tests can substitute one they advance by hand.
+ */
+
+/**
+ * A source of the current time and of repeating timers
+ */
+export interface Clock {
+  /**
+   * Milliseconds since the epoch, like Date.now()
+   */
+  now(): number;
+
+  /**
+   * Call `callback` every `intervalMs` milliseconds
+   *
+   * The timer must not keep the process alive on its own.
+   *
+   * @returns A function that stops the timer
+   */
+  every(intervalMs: number, callback: () => void): () => void;
+}
+
+/**
+ * The real clock: Date.now() and unref'd setInterval()
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  every(intervalMs, callback) {
+    const timer = setInterval(callback, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Numeric helpers shared by the mode solvers
+ *
+ * The game theory, optimization and stochastic engines do their arithmetic
+ * in floating point and report the results to people, so they round the
+ * noise off the same way here, and solve their linear systems with one
+ * elimination.
+ */
+
+/**
+ * Round away floating-point noise so 0.49999999999999994 reads as 0.5
+ *
+ * @param decimals - Decimal places kept; solvers with a tolerance of 1e-9
+ *   keep 9, exact eliminations keep 12
+ */
+export function clean(value: number, decimals = 9): number {
+  const scale = 10 ** decimals;
+  const rounded = Math.round(value * scale) / scale;
+  return Object.is(rounded, -0) ? 0 : rounded;
+}
+
+/**
+ * Solve A·X = B for X, where B has one column per right-hand side, by
+ * Gauss-Jordan elimination with partial pivoting
+ *
+ * @returns X, one row per row of A, or null if A is singular
+ */
+export function solveLinearSystems(
+  a: number[][],
+  b: number[][],
+): number[][] | null {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...b[i]]);
+  const width = m[0]?.length ?? 0;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === col || m[r][col] === 0) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c < width; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row.slice(n).map((x) => x / m[i][i]));
+}
+
+/**
+ * Solve a square linear system given as an augmented matrix [A | b]
+ *
+ * @returns The solution, or null if the system is singular
+ */
+export function solveLinearSystem(augmented: number[][]): number[] | null {
+  const n = augmented.length;
+  const x = solveLinearSystems(
+    augmented.map((row) => row.slice(0, n)),
+    augmented.map((row) => row.slice(n)),
+  );
+  return x && x.map(([value]) => value);
+}
@@ -18,6 +18,7 @@ export const MAX_LENGTHS = {
   // (src/tools/schemas/**), which previously had zero .max() coverage.
   ARRAY_ITEMS: 1000, // max items in an array of primitive strings (e.g. evidence, tags)
   NESTED_ARRAY_ITEMS: 500, // max items in an array of structured objects (e.g. hypotheses, sources)
+  SESSION_IMPORT: 10000000, // 10MB for a JSON session export passed to import_session
 };
 
 /**
@@ -3,11 +3,14 @@
  *
  * Caches validation results to avoid redundant validation of unchanging content.
  * Uses content-based hashing for cache keys to ensure correctness.
+ * Eviction follows `validationCacheStrategy` (MCP_VALIDATION_CACHE_STRATEGY).
  */
 
 import { getConfig } from "../config/index.js";
 import { ValidationResult } from "../types/session.js";
 import { createHash } from "crypto";
+import { createCache } from "../cache/factory.js";
+import type { Cache, CacheStrategy } from "../cache/types.js";
 
 /**
  * Validation result entry
@@ -24,18 +27,37 @@ export interface ValidationCacheEntry {
 }
 
 /**
- * LRU Cache for validation results
+ * Cache for validation results, evicting by the configured strategy
  */
 export class ValidationCache {
-  private cache: Map<string, ValidationCacheEntry>;
+  private cache: Cache<ValidationCacheEntry>;
   private maxSize: number;
+  private strategy: CacheStrategy;
   private hits: number = 0;
   private misses: number = 0;
 
-  constructor(maxSize?: number) {
+  /**
+   * @param maxSize - Maximum entries (default: `validationCacheMaxSize`)
+   * @param strategy - Eviction strategy (default: `validationCacheStrategy`)
+   */
+  constructor(maxSize?: number, strategy?: CacheStrategy) {
     const config = getConfig();
     this.maxSize = maxSize || config.validationCacheMaxSize;
-    this.cache = new Map();
+    this.strategy = strategy ?? config.validationCacheStrategy;
+    this.cache = this.createStore(this.maxSize);
+  }
+
+  /**
+   * Build the underlying cache. A size of 0 still holds one entry, as the
+   * hand-rolled map this replaced did; the cache classes would treat 0 as
+   * their default of 100.
+   */
+  private createStore(maxSize: number): Cache<ValidationCacheEntry> {
+    return createCache<ValidationCacheEntry>({
+      strategy: this.strategy,
+      maxSize: Math.max(1, maxSize),
+      enableStats: false,
+    });
   }
 
   /**
@@ -64,11 +86,6 @@ export class ValidationCache {
     if (entry) {
       this.hits++;
       entry.hitCount++;
-
-      // Move to end (LRU)
-      this.cache.delete(key);
-      this.cache.set(key, entry);
-
       return entry;
     }
 
@@ -85,14 +102,6 @@ export class ValidationCache {
   set(content: unknown, result: ValidationResult): void {
     const key = this.generateKey(content);
 
-    // If cache is full, remove least recently used (first entry)
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey !== undefined) {
-        this.cache.delete(firstKey);
-      }
-    }
-
     const entry: ValidationCacheEntry = {
       result,
       timestamp: Date.now(),
@@ -134,7 +143,7 @@ export class ValidationCache {
   } {
     const total = this.hits + this.misses;
     return {
-      size: this.cache.size,
+      size: this.cache.size(),
       maxSize: this.maxSize,
       hits: this.hits,
       misses: this.misses,
@@ -145,19 +154,20 @@ export class ValidationCache {
   /**
    * Resize the cache
    *
+   * Entries move to a new cache of the new size in their current order
+   * (least recently used first, or oldest first for FIFO); when shrinking,
+   * the ones at the front are dropped. Usage history the strategy keeps (LFU
+   * counts) starts over; `hitCount` is kept.
+   *
    * @param newSize - New maximum cache size
    */
   resize(newSize: number): void {
+    const entries = this.cache.entries();
     this.maxSize = newSize;
+    this.cache = this.createStore(newSize);
 
-    // If cache is now too large, trim it
-    if (this.cache.size > newSize) {
-      const keysToDelete = this.cache.size - newSize;
-      const keys = Array.from(this.cache.keys());
-
-      for (let i = 0; i < keysToDelete; i++) {
-        this.cache.delete(keys[i]);
-      }
+    for (const [key, entry] of entries.slice(-Math.max(1, newSize))) {
+      this.cache.set(key, entry);
     }
   }
 
@@ -167,7 +177,8 @@ export class ValidationCache {
   getTopEntries(
     limit: number = 10,
   ): Array<{ key: string; entry: ValidationCacheEntry }> {
-    const entries = Array.from(this.cache.entries())
+    const entries = this.cache
+      .entries()
       .map(([key, entry]) => ({ key, entry }))
       .sort((a, b) => b.entry.hitCount - a.entry.hitCount);
 
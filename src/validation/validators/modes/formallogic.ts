@@ -277,12 +277,14 @@ export class FormalLogicValidator implements ModeValidator<FormalLogicThought> {
         });
       }
 
+      // Columns name propositions by ID, or by symbol when computed from a
+      // formula
       const propositionIds = new Set(
-        thought.propositions?.map((p) => p.id) || [],
+        thought.propositions?.flatMap((p) => [p.id, p.symbol]) || [],
       );
 
       // Validate proposition references
-      if (thought.truthTable.propositions) {
+      if (thought.truthTable.propositions && propositionIds.size > 0) {
         for (const propId of thought.truthTable.propositions) {
           if (!propositionIds.has(propId)) {
             issues.push({
@@ -0,0 +1,128 @@
+/**
+ * MCP Prompts Tests
+ *
+ * Every tool-accessible mode and every analyze preset is served as an MCP
+ * prompt parameterised by the problem text. These tests drive the REAL server
+ * over an in-memory transport, like mcp-resources.test.ts, so the capability
+ * declaration and the prompts/list and prompts/get handlers are exercised
+ * together with the mode handlers that supply the guidance.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { server } from '../../src/index.js';
+import { modeToToolMap } from '../../src/tools/definitions.js';
+import { listPresetIds } from '../../src/modes/combinations/presets.js';
+
+let client: Client;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'prompts-test', version: '1.0.0' }, { capabilities: {} });
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+/** Render a prompt and return the text of its single message. */
+async function promptText(name: string, problem: string): Promise<string> {
+  const result = await client.getPrompt({ name, arguments: { problem } });
+  expect(result.messages).toHaveLength(1);
+  expect(result.messages[0].role).toBe('user');
+  return (result.messages[0].content as any).text;
+}
+
+describe('prompts: capability and listing', () => {
+  it('declares the prompts capability', () => {
+    expect(client.getServerCapabilities()?.prompts).toBeDefined();
+  });
+
+  it('lists one prompt per tool-accessible mode and one per preset', async () => {
+    const { prompts } = await client.listPrompts();
+    const names = prompts.map((p) => p.name);
+
+    for (const mode of Object.keys(modeToToolMap)) {
+      expect(names).toContain(`mode_${mode}`);
+    }
+    for (const id of listPresetIds()) {
+      expect(names).toContain(`preset_${id}`);
+    }
+    expect(names).not.toContain('mode_custom');
+    expect(prompts).toHaveLength(Object.keys(modeToToolMap).length + listPresetIds().length);
+  });
+
+  it('declares problem as the one required argument', async () => {
+    const { prompts } = await client.listPrompts();
+    for (const prompt of prompts) {
+      expect(prompt.arguments).toEqual([
+        expect.objectContaining({ name: 'problem', required: true }),
+      ]);
+    }
+  });
+});
+
+describe('prompts: mode prompts', () => {
+  it('walks the causal thought types and names the causal tool', async () => {
+    const text = await promptText('mode_causal', 'Why did churn rise after the price change?');
+
+    expect(text).toContain('Why did churn rise after the price change?');
+    expect(text).toContain('deepthinking_causal');
+    expect(text).toContain('mode: "causal"');
+    expect(text).toContain('causal_graph_construction');
+    expect(text).toContain('intervention_analysis');
+  });
+
+  it('carries the mental models reported by the handler', async () => {
+    const text = await promptText('mode_causal', 'Does the new onboarding flow reduce churn?');
+
+    expect(text).toContain('Mental models to apply:');
+    expect(text).toContain('Do-Calculus');
+  });
+
+  it('tells the model to pass thoughtType where the tool accepts it', async () => {
+    const text = await promptText('mode_mathematics', 'Prove that sqrt(2) is irrational.');
+
+    expect(text).toContain('`thoughtType`');
+    expect(text).toContain('proof_decomposition');
+  });
+
+  it('renders every mode prompt without error', async () => {
+    for (const mode of Object.keys(modeToToolMap)) {
+      const text = await promptText(`mode_${mode}`, 'How should we schedule the release?');
+      expect(text, mode).toContain(modeToToolMap[mode]);
+    }
+  });
+});
+
+describe('prompts: preset prompts', () => {
+  it('points at deepthinking_analyze with the preset and covers its modes', async () => {
+    const text = await promptText('preset_root_cause', 'Why do deploys fail on Fridays?');
+
+    expect(text).toContain('Why do deploys fail on Fridays?');
+    expect(text).toContain('deepthinking_analyze');
+    expect(text).toContain('preset: "root_cause"');
+    expect(text).toContain('mode: "causal"');
+    expect(text).toContain('mode: "systemsthinking"');
+  });
+});
+
+describe('prompts: errors', () => {
+  it('rejects an unknown prompt', async () => {
+    await expect(
+      client.getPrompt({ name: 'mode_astrology', arguments: { problem: 'x' } }),
+    ).rejects.toThrow(/Unknown prompt/);
+  });
+
+  it('rejects a prompt for the custom mode', async () => {
+    await expect(
+      client.getPrompt({ name: 'mode_custom', arguments: { problem: 'x' } }),
+    ).rejects.toThrow(/Unknown prompt/);
+  });
+
+  it('rejects a missing problem argument', async () => {
+    await expect(client.getPrompt({ name: 'mode_causal' })).rejects.toThrow(/problem/);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * MCP Resources Tests
+ *
+ * Sessions are published as `deepthinking://session/{id}` resources, with
+ * per-thought and per-export-format sub-resources. These tests drive the REAL
+ * server over an in-memory transport, the same way index-server.test.ts does,
+ * so the capability declaration, the request handlers and the
+ * SessionManager -> resources/updated notification path are all exercised
+ * together.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { server } from '../../src/index.js';
+
+let client: Client;
+const updatedUris: string[] = [];
+let listChangedCount = 0;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'resources-test', version: '1.0.0' }, { capabilities: {} });
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updatedUris.push(notification.params.uri);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    listChangedCount++;
+  });
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+/** Create a session with one sequential thought; returns its ids. */
+async function addThought(sessionId?: string): Promise<{ sessionId: string; thoughtId: string }> {
+  const result: any = await client.callTool({
+    name: 'deepthinking_standard',
+    arguments: {
+      ...(sessionId ? { sessionId } : {}),
+      mode: 'sequential',
+      thought: 'a thought published as a resource',
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+    },
+  });
+  expect(result.isError, result.content?.[0]?.text).toBeFalsy();
+  const payload = JSON.parse(result.content[0].text);
+  return { sessionId: payload.sessionId, thoughtId: payload.thoughtId };
+}
+
+/** Let in-flight notifications cross the in-memory transport. */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe('resources: capability and listing', () => {
+  it('declares the resources capability with subscribe and listChanged', () => {
+    const capabilities = client.getServerCapabilities();
+    expect(capabilities?.resources).toEqual({ subscribe: true, listChanged: true });
+    // Tools are still advertised alongside resources
+    expect(capabilities?.tools).toBeDefined();
+  });
+
+  it('lists every session as a deepthinking://session/{id} resource', async () => {
+    const { sessionId } = await addThought();
+    const { resources } = await client.listResources();
+    const entry = resources.find((r) => r.uri === `deepthinking://session/${sessionId}`);
+    expect(entry).toBeDefined();
+    expect(entry!.mimeType).toBe('application/json');
+    expect(entry!.description).toContain('sequential');
+  });
+
+  it('advertises thought and export sub-resources as templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const templates = resourceTemplates.map((t) => t.uriTemplate);
+    expect(templates).toContain('deepthinking://session/{sessionId}/thought/{thoughtId}');
+    expect(templates).toContain('deepthinking://session/{sessionId}/export/{format}');
+  });
+});
+
+describe('resources: reading', () => {
+  it('reads the whole session as JSON', async () => {
+    const { sessionId, thoughtId } = await addThought();
+    const uri = `deepthinking://session/${sessionId}`;
+    const { contents } = await client.readResource({ uri });
+
+    expect(contents).toHaveLength(1);
+    expect(contents[0].uri).toBe(uri);
+    const session = JSON.parse((contents[0] as any).text);
+    expect(session.id).toBe(sessionId);
+    expect(session.thoughts.map((t: any) => t.id)).toEqual([thoughtId]);
+  });
+
+  it('reads a single thought', async () => {
+    const { sessionId, thoughtId } = await addThought();
+    const { contents } = await client.readResource({
+      uri: `deepthinking://session/${sessionId}/thought/${thoughtId}`,
+    });
+    const thought = JSON.parse((contents[0] as any).text);
+    expect(thought.id).toBe(thoughtId);
+    expect(thought.mode).toBe('sequential');
+  });
+
+  it('reads an export format with its MIME type', async () => {
+    const { sessionId } = await addThought();
+    const { contents } = await client.readResource({
+      uri: `deepthinking://session/${sessionId}/export/markdown`,
+    });
+    expect(contents[0].mimeType).toBe('text/markdown');
+    expect((contents[0] as any).text).toContain('#');
+  });
+
+  it('rejects an unknown export format', async () => {
+    const { sessionId } = await addThought();
+    await expect(
+      client.readResource({ uri: `deepthinking://session/${sessionId}/export/pdf` }),
+    ).rejects.toThrow(/Unknown resource URI/);
+  });
+
+  it('reports a missing session as not found', async () => {
+    await expect(
+      client.readResource({ uri: 'deepthinking://session/00000000-0000-4000-8000-000000000000' }),
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('reports a missing thought as not found', async () => {
+    const { sessionId } = await addThought();
+    await expect(
+      client.readResource({ uri: `deepthinking://session/${sessionId}/thought/no-such-thought` }),
+    ).rejects.toThrow(/not found/);
+  });
+});
+
+describe('resources: subscriptions', () => {
+  it('notifies a subscriber when a thought is added', async () => {
+    const { sessionId } = await addThought();
+    const uri = `deepthinking://session/${sessionId}`;
+    await client.subscribeResource({ uri });
+    updatedUris.length = 0;
+
+    await addThought(sessionId);
+    await flush();
+
+    expect(updatedUris).toContain(uri);
+  });
+
+  it('notifies sub-resource subscribers when the mode is switched', async () => {
+    const { sessionId } = await addThought();
+    const uri = `deepthinking://session/${sessionId}/export/json`;
+    await client.subscribeResource({ uri });
+    updatedUris.length = 0;
+
+    await client.callTool({
+      name: 'deepthinking_session',
+      arguments: { action: 'switch_mode', sessionId, newMode: 'causal' },
+    });
+    await flush();
+
+    expect(updatedUris).toEqual([uri]);
+  });
+
+  it('notifies on delete and reports the list as changed', async () => {
+    const { sessionId } = await addThought();
+    const uri = `deepthinking://session/${sessionId}`;
+    await client.subscribeResource({ uri });
+    updatedUris.length = 0;
+    const listChangedBefore = listChangedCount;
+
+    await client.callTool({
+      name: 'deepthinking_session',
+      arguments: { action: 'delete_session', sessionId },
+    });
+    await flush();
+
+    expect(updatedUris).toEqual([uri]);
+    expect(listChangedCount).toBeGreaterThan(listChangedBefore);
+  });
+
+  it('does not notify other sessions\' subscribers', async () => {
+    const watched = await addThought();
+    const other = await addThought();
+    await client.subscribeResource({ uri: `deepthinking://session/${watched.sessionId}` });
+    updatedUris.length = 0;
+
+    await addThought(other.sessionId);
+    await flush();
+
+    expect(updatedUris).toEqual([]);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const { sessionId } = await addThought();
+    const uri = `deepthinking://session/${sessionId}`;
+    await client.subscribeResource({ uri });
+    await client.unsubscribeResource({ uri });
+    updatedUris.length = 0;
+
+    await addThought(sessionId);
+    await flush();
+
+    expect(updatedUris).toEqual([]);
+  });
+
+  it('rejects a subscription to a URI outside the session scheme', async () => {
+    await expect(client.subscribeResource({ uri: 'file:///etc/passwd' })).rejects.toThrow(
+      /unknown resource URI/,
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Session Branching Tool Tests
+ *
+ * fork_session, list_branches and merge_branch through the REAL server over
+ * an in-memory transport, like session-import.test.ts, so the schema, the
+ * action switch and SessionManager are exercised together. The merge rules
+ * themselves are covered in tests/unit/session/session-branching.test.ts.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { server } from '../../src/index.js';
+import { modeToToolMap } from '../../src/tools/definitions.js';
+
+let client: Client;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'branching-test', version: '1.0.0' }, { capabilities: {} });
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+async function call(name: string, args: Record<string, unknown>): Promise<string> {
+  const result: any = await client.callTool({ name, arguments: args });
+  expect(result.isError, result.content?.[0]?.text).toBeFalsy();
+  return result.content[0].text;
+}
+
+async function callError(name: string, args: Record<string, unknown>): Promise<string> {
+  const result: any = await client.callTool({ name, arguments: args });
+  expect(result.isError).toBe(true);
+  return result.content[0].text;
+}
+
+async function addThought(thoughtNumber: number, sessionId?: string): Promise<string> {
+  const text = await call(modeToToolMap.sequential, {
+    ...(sessionId ? { sessionId } : {}),
+    mode: 'sequential',
+    thought: `Step ${thoughtNumber}`,
+    thoughtNumber,
+    totalThoughts: 5,
+    nextThoughtNeeded: true,
+  });
+  return JSON.parse(text).sessionId;
+}
+
+const session = (args: Record<string, unknown>) => call('deepthinking_session', args);
+
+describe('session branching actions', () => {
+  it('forks, extends, merges back and lists the branch', async () => {
+    const parentId = await addThought(1);
+    await addThought(2, parentId);
+
+    const fork = JSON.parse(await session({ action: 'fork_session', sessionId: parentId }));
+    expect(fork).toMatchObject({ thoughtCount: 2, forkedFrom: { sessionId: parentId } });
+    await addThought(3, fork.sessionId);
+
+    const merge = JSON.parse(
+      await session({ action: 'merge_branch', sessionId: fork.sessionId, branchId: 'alt' }),
+    );
+    expect(merge).toMatchObject({ sessionId: parentId, branchId: 'alt', conflicts: [] });
+    expect(merge.mergedThoughtIds).toHaveLength(1);
+
+    const listing = JSON.parse(await session({ action: 'list_branches', sessionId: parentId }));
+    expect(listing.mainThoughtCount).toBe(2);
+    expect(listing.branches).toEqual([
+      expect.objectContaining({ branchId: 'alt', firstThoughtNumber: 3 }),
+    ]);
+  });
+
+  it('forks at a given thought', async () => {
+    const parentId = await addThought(1);
+    await addThought(2, parentId);
+    const parent = JSON.parse(
+      await session({ action: 'export', sessionId: parentId, exportFormat: 'json' }),
+    );
+
+    const fork = JSON.parse(
+      await session({
+        action: 'fork_session',
+        sessionId: parentId,
+        thoughtId: parent.thoughts[0].id,
+      }),
+    );
+
+    expect(fork.thoughtCount).toBe(1);
+  });
+
+  it('keeps the lineage through an export and import', async () => {
+    const parentId = await addThought(1);
+    const fork = JSON.parse(await session({ action: 'fork_session', sessionId: parentId }));
+    const exported = await session({
+      action: 'export',
+      sessionId: fork.sessionId,
+      exportFormat: 'json',
+    });
+
+    await session({ action: 'delete_session', sessionId: fork.sessionId });
+    await session({ action: 'import_session', sessionData: exported });
+
+    expect(
+      await session({ action: 'export', sessionId: fork.sessionId, exportFormat: 'json' }),
+    ).toBe(exported);
+  });
+
+  it('reports a merge of a session that is not a fork as an error', async () => {
+    const sessionId = await addThought(1);
+    expect(
+      await callError('deepthinking_session', { action: 'merge_branch', sessionId }),
+    ).toMatch(/is not a fork/);
+  });
+});
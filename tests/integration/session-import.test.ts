@@ -0,0 +1,190 @@
+/**
+ * Session Import Tests
+ *
+ * `import_session` is the inverse of `export` with `exportFormat: json`: a
+ * session exported, deleted and imported again must export to exactly the
+ * same text. These tests drive the REAL server over an in-memory transport,
+ * like mcp-resources.test.ts, so the schema, the action switch, ImportService
+ * and SessionManager.importSession are exercised together.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { server } from '../../src/index.js';
+import { modeToToolMap } from '../../src/tools/definitions.js';
+import { resetConfig, updateConfig } from '../../src/config/index.js';
+
+let client: Client;
+
+beforeAll(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'import-test', version: '1.0.0' }, { capabilities: {} });
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+afterEach(() => {
+  resetConfig();
+});
+
+async function call(name: string, args: Record<string, unknown>): Promise<string> {
+  const result: any = await client.callTool({ name, arguments: args });
+  expect(result.isError, result.content?.[0]?.text).toBeFalsy();
+  return result.content[0].text;
+}
+
+async function callError(name: string, args: Record<string, unknown>): Promise<string> {
+  const result: any = await client.callTool({ name, arguments: args });
+  expect(result.isError).toBe(true);
+  return result.content[0].text;
+}
+
+/** Add a thought in the given mode, creating a session when none is given. */
+async function addThought(mode: string, sessionId?: string, thoughtNumber = 1): Promise<string> {
+  const text = await call(modeToToolMap[mode], {
+    ...(sessionId ? { sessionId } : {}),
+    mode,
+    thought: `${mode} step ${thoughtNumber}`,
+    thoughtNumber,
+    totalThoughts: 2,
+    nextThoughtNeeded: thoughtNumber < 2,
+  });
+  return JSON.parse(text).sessionId;
+}
+
+function exportJson(sessionId: string): Promise<string> {
+  return call('deepthinking_session', { action: 'export', sessionId, exportFormat: 'json' });
+}
+
+async function exportDeleteImport(sessionId: string, importArgs?: Record<string, unknown>) {
+  const exported = await exportJson(sessionId);
+  await call('deepthinking_session', { action: 'delete_session', sessionId });
+  const summary = JSON.parse(
+    await call('deepthinking_session', {
+      action: 'import_session',
+      ...(importArgs ?? { sessionData: exported }),
+    }),
+  );
+  return { exported, summary };
+}
+
+describe('import_session: round trip', () => {
+  it.each(Object.keys(modeToToolMap))('re-exports a %s session unchanged', async (mode) => {
+    const sessionId = await addThought(mode);
+    await addThought(mode, sessionId, 2);
+
+    const { exported, summary } = await exportDeleteImport(sessionId);
+
+    expect(summary).toMatchObject({ sessionId, mode, thoughtCount: 2, isComplete: true });
+    expect(await exportJson(sessionId)).toBe(exported);
+  });
+
+  it('keeps the imported session usable for new thoughts', async () => {
+    const sessionId = await addThought('sequential');
+    await exportDeleteImport(sessionId);
+
+    await addThought('sequential', sessionId, 2);
+    const session = JSON.parse(
+      await call('deepthinking_session', { action: 'get_session', sessionId }),
+    );
+    expect(session.thoughtCount).toBe(2);
+  });
+
+  it('imports a file written by export to the export sandbox', async () => {
+    const sandbox = fs.mkdtempSync(path.join(os.tmpdir(), 'dt-import-'));
+    try {
+      const sessionId = await addThought('causal');
+      const exported = await exportJson(sessionId);
+
+      updateConfig({ exportDir: sandbox });
+      const written = JSON.parse(
+        await call('deepthinking_session', { action: 'export', sessionId, exportFormat: 'json' }),
+      );
+      expect(written.mode).toBe('file');
+      await call('deepthinking_session', { action: 'delete_session', sessionId });
+
+      const summary = JSON.parse(
+        await call('deepthinking_session', {
+          action: 'import_session',
+          importPath: path.relative(sandbox, written.path),
+        }),
+      );
+
+      expect(summary.sessionId).toBe(sessionId);
+      resetConfig();
+      expect(await exportJson(sessionId)).toBe(exported);
+    } finally {
+      fs.rmSync(sandbox, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('import_session: rejections', () => {
+  it('rejects a session id that is already in use', async () => {
+    const sessionId = await addThought('sequential');
+    const text = await callError('deepthinking_session', {
+      action: 'import_session',
+      sessionData: await exportJson(sessionId),
+    });
+    expect(text).toContain('already exists');
+  });
+
+  it('rejects a thought its mode handler does not accept', async () => {
+    const sessionId = await addThought('bayesian');
+    const exported = JSON.parse(await exportJson(sessionId));
+    await call('deepthinking_session', { action: 'delete_session', sessionId });
+    exported.thoughts[0].prior = { probability: 7 };
+
+    const text = await callError('deepthinking_session', {
+      action: 'import_session',
+      sessionData: JSON.stringify(exported),
+    });
+    expect(text).toContain('bayesian validation');
+  });
+
+  it('requires exactly one of sessionData and importPath', async () => {
+    expect(await callError('deepthinking_session', { action: 'import_session' })).toContain(
+      'exactly one of sessionData or importPath',
+    );
+  });
+
+  it('refuses a file outside the export sandbox', async () => {
+    const sandbox = fs.mkdtempSync(path.join(os.tmpdir(), 'dt-import-'));
+    try {
+      updateConfig({ exportDir: sandbox });
+      const text = await callError('deepthinking_session', {
+        action: 'import_session',
+        importPath: '../../etc/hostname',
+      });
+      expect(text).toMatch(/outside the export sandbox|not found in the export sandbox/);
+    } finally {
+      fs.rmSync(sandbox, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses a symlink that leads out of the export sandbox', async () => {
+    const sandbox = fs.mkdtempSync(path.join(os.tmpdir(), 'dt-import-'));
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'dt-outside-'));
+    try {
+      updateConfig({ exportDir: sandbox });
+      fs.writeFileSync(path.join(outside, 'secret.json'), '{}');
+      fs.symlinkSync(path.join(outside, 'secret.json'), path.join(sandbox, 'link.json'));
+
+      const text = await callError('deepthinking_session', {
+        action: 'import_session',
+        importPath: 'link.json',
+      });
+      expect(text).toContain('outside the export sandbox');
+    } finally {
+      fs.rmSync(sandbox, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
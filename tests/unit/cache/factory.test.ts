@@ -0,0 +1,141 @@
+/**
+ * Cache Factory Tests
+ * Tests for src/cache/factory.ts and the consumers that pick a strategy
+ * from configuration (SessionManager, ValidationCache)
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { CACHE_STRATEGIES, createCache } from '../../../src/cache/factory.js';
+import { LRUCache } from '../../../src/cache/lru.js';
+import { LFUCache } from '../../../src/cache/lfu.js';
+import { FIFOCache } from '../../../src/cache/fifo.js';
+import type { CacheStrategy } from '../../../src/cache/types.js';
+import { ValidationCache } from '../../../src/validation/cache.js';
+import { SessionManager } from '../../../src/session/manager.js';
+import {
+  getConfig,
+  resetConfig,
+  updateConfig,
+  validateConfig,
+} from '../../../src/config/index.js';
+
+describe('createCache', () => {
+  it.each([
+    ['lru', LRUCache],
+    ['lfu', LFUCache],
+    ['fifo', FIFOCache],
+  ] as const)('builds a %s cache', (strategy, type) => {
+    expect(createCache({ strategy })).toBeInstanceOf(type);
+  });
+
+  it('defaults to LRU', () => {
+    expect(createCache()).toBeInstanceOf(LRUCache);
+  });
+
+  it('passes maxSize and ttl through', () => {
+    const cache = createCache<number>({ strategy: 'fifo', maxSize: 2, ttl: 1 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.getStats().maxSize).toBe(2);
+    expect(cache.keys()).toEqual(['b', 'c']);
+  });
+
+  it('rejects an unknown strategy', () => {
+    expect(() => createCache({ strategy: 'mru' as CacheStrategy })).toThrow(/lru, lfu, fifo/);
+  });
+
+  it.each(CACHE_STRATEGIES)('keeps the same statistics under %s', (strategy) => {
+    const cache = createCache<string>({ strategy, maxSize: 2 });
+    cache.set('a', 'x');
+    cache.set('a', 'xy');
+    cache.set('b', 'xy');
+    cache.get('a');
+    cache.get('missing');
+    cache.set('c', 'x');
+    cache.delete('c');
+
+    expect(cache.getStats()).toMatchObject({
+      size: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      evictions: 1,
+      sets: 4,
+      deletes: 1,
+      // Whichever entry survives holds '"xy"': 4 characters, two bytes each
+      memoryUsage: 8,
+    });
+  });
+});
+
+describe('configured cache strategies', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('defaults both caches to LRU', () => {
+    expect(getConfig().sessionCacheStrategy).toBe('lru');
+    expect(getConfig().validationCacheStrategy).toBe('lru');
+  });
+
+  it('rejects an unknown strategy in the server config', () => {
+    expect(() =>
+      validateConfig({ ...getConfig(), sessionCacheStrategy: 'mru' as CacheStrategy }),
+    ).toThrow(/sessionCacheStrategy/);
+  });
+
+  it('keeps a repeatedly read session in memory under LFU', async () => {
+    updateConfig({ sessionCacheStrategy: 'lfu', maxActiveSessions: 2 });
+    const manager = new SessionManager();
+    const hot = await manager.createSession({ title: 'hot' });
+    for (let i = 0; i < 3; i++) await manager.getSession(hot.id);
+
+    await manager.createSession();
+    await manager.createSession();
+
+    expect((await manager.listSessions(false)).map((s) => s.id)).toContain(hot.id);
+  });
+
+  it('evicts the oldest session under FIFO even if it is read', async () => {
+    updateConfig({ sessionCacheStrategy: 'fifo', maxActiveSessions: 2 });
+    const manager = new SessionManager();
+    const first = await manager.createSession();
+    for (let i = 0; i < 3; i++) await manager.getSession(first.id);
+
+    await manager.createSession();
+    await manager.createSession();
+
+    expect((await manager.listSessions(false)).map((s) => s.id)).not.toContain(first.id);
+  });
+
+  it('builds ValidationCache with the configured strategy', () => {
+    updateConfig({ validationCacheStrategy: 'fifo' });
+    const cache = new ValidationCache(2);
+    const result = { isValid: true, issues: [] } as never;
+    cache.set('a', result);
+    cache.set('b', result);
+    cache.get('a');
+
+    cache.set('c', result);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.has('b')).toBe(true);
+  });
+
+  it('keeps recently read validation results when resized smaller', () => {
+    const cache = new ValidationCache(3, 'lru');
+    const result = { isValid: true, issues: [] } as never;
+    cache.set('a', result);
+    cache.set('b', result);
+    cache.set('c', result);
+    cache.get('a');
+
+    cache.resize(2);
+
+    expect(cache.getStats()).toMatchObject({ size: 2, maxSize: 2 });
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+  });
+});
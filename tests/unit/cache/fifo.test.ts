@@ -0,0 +1,75 @@
+/**
+ * FIFO Cache Tests
+ * Tests for src/cache/fifo.ts
+ *
+ * FIFO differs from LRU in one way only: reads change nothing. These tests
+ * pin that, and that replacing a value keeps the key's place in line.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FIFOCache } from '../../../src/cache/fifo.js';
+
+describe('FIFOCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the first entry inserted, however often it is read', () => {
+    const cache = new FIFOCache<number>({ maxSize: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.get('a');
+
+    cache.set('c', 3);
+
+    expect(cache.keys()).toEqual(['b', 'c']);
+  });
+
+  it('keeps a key in its place when its value is replaced', () => {
+    const cache = new FIFOCache<number>({ maxSize: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+
+    cache.set('c', 3);
+
+    expect(cache.keys()).toEqual(['b', 'c']);
+    expect(cache.getStats().memoryUsage).toBe(cache.size() * 2);
+  });
+
+  it('expires entries after the ttl', () => {
+    vi.useFakeTimers();
+    const cache = new FIFOCache<number>({ maxSize: 5, ttl: 1000 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(1500);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('removes expired entries in bulk', () => {
+    vi.useFakeTimers();
+    const cache = new FIFOCache<number>({ maxSize: 5 });
+    cache.set('a', 1, 100);
+    cache.set('b', 2, 100);
+    cache.set('c', 3);
+
+    vi.advanceTimersByTime(200);
+
+    expect(cache.cleanExpired()).toBe(2);
+    expect(cache.keys()).toEqual(['c']);
+  });
+
+  it('reports an evicted entry to onEvict and counts it', () => {
+    const onEvict = vi.fn();
+    const cache = new FIFOCache<string>({ maxSize: 1, onEvict });
+    cache.set('', 'empty key');
+    cache.set('b', 'B');
+
+    expect(onEvict).toHaveBeenCalledWith('', 'empty key');
+    expect(cache.getStats().evictions).toBe(1);
+    expect(cache.size()).toBe(1);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * LFU Cache Tests
+ * Tests for src/cache/lfu.ts
+ *
+ * The cases that matter are the ones an LRU gets wrong for our workload: a
+ * few entries read over and over must survive a stream of one-off inserts.
+ * Aging must then let an entry that stopped being read fall out again.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LFUCache } from '../../../src/cache/lfu.js';
+
+describe('LFUCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps frequently read entries through a stream of one-off inserts', () => {
+    const cache = new LFUCache<number>({ maxSize: 3 });
+    cache.set('hot', 0);
+    cache.get('hot');
+    cache.get('hot');
+
+    for (let i = 0; i < 10; i++) {
+      cache.set(`cold${i}`, i);
+    }
+
+    expect(cache.has('hot')).toBe(true);
+    expect(cache.size()).toBe(3);
+    expect(cache.getStats().evictions).toBe(8);
+  });
+
+  it('evicts the least recently used among equally frequent entries', () => {
+    const cache = new LFUCache<number>({ maxSize: 3 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+    cache.get('a');
+    cache.get('b');
+    cache.get('c');
+    cache.get('a');
+    cache.get('b');
+    cache.get('c');
+
+    cache.set('d', 4);
+
+    // All three were read twice; 'a' was read least recently. The newcomer
+    // has one use, fewer than any of them, but is not the one evicted.
+    expect(cache.keys()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('ages counts so an entry that stopped being read can be evicted', () => {
+    const cache = new LFUCache<number>({ maxSize: 2, agingInterval: 4 });
+    cache.set('old', 1);
+    for (let i = 0; i < 3; i++) cache.get('old'); // count 4
+
+    cache.set('new', 2);
+    cache.get('new'); // fourth read: counts halve, old 4 -> 2, new 2 -> 1
+    for (let i = 0; i < 4; i++) cache.get('new'); // halves again at 4 more reads
+
+    cache.set('next', 3);
+
+    expect(cache.has('new')).toBe(true);
+    expect(cache.has('old')).toBe(false);
+  });
+
+  it('never ages with agingInterval 0', () => {
+    const cache = new LFUCache<number>({ maxSize: 2, agingInterval: 0 });
+    cache.set('old', 1);
+    for (let i = 0; i < 10; i++) cache.get('old');
+    cache.set('new', 2);
+    for (let i = 0; i < 9; i++) cache.get('new');
+
+    cache.set('next', 3);
+
+    expect(cache.has('old')).toBe(true);
+    expect(cache.has('new')).toBe(false);
+  });
+
+  it('keeps the access count when a value is replaced', () => {
+    const cache = new LFUCache<number>({ maxSize: 2 });
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('a');
+    cache.set('a', 10);
+    cache.set('b', 2);
+
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('expires entries after the ttl', () => {
+    vi.useFakeTimers();
+    const cache = new LFUCache<number>({ maxSize: 5, ttl: 1000 });
+    cache.set('a', 1);
+    cache.set('b', 2, 5000);
+
+    vi.advanceTimersByTime(1500);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.size()).toBe(1);
+  });
+
+  it('reports an evicted entry to onEvict', () => {
+    const onEvict = vi.fn();
+    const cache = new LFUCache<number>({ maxSize: 1, onEvict });
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    expect(onEvict).toHaveBeenCalledWith('a', 1);
+  });
+
+  it('tracks hits, misses and memory like LRUCache', () => {
+    const cache = new LFUCache<string>({ maxSize: 5 });
+    cache.set('a', 'A');
+    cache.get('a');
+    cache.get('missing');
+    cache.delete('a');
+
+    expect(cache.getStats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      sets: 1,
+      deletes: 1,
+      size: 0,
+      memoryUsage: 0,
+    });
+  });
+});
@@ -42,6 +42,13 @@ describe('config/index audit remediations (M-1, H-3)', () => {
     expect(getConfig().compressionThreshold).toBe(500);
   });
 
+  it('defaults the sweeper to once a minute and storage cleanup to off', () => {
+    resetConfig();
+    expect(getConfig().sessionSweepIntervalMs).toBe(60_000);
+    expect(getConfig().storageCleanupIntervalMs).toBe(0);
+    expect(getConfig().storageCleanupMaxAgeMs).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+
   it('validateConfig still passes for the current default configuration', () => {
     expect(() => validateConfig(getConfig() as any)).not.toThrow();
   });
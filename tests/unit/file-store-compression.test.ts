@@ -0,0 +1,205 @@
+/**
+ * FileSessionStore Compression Tests
+ *
+ * With enableCompression, snapshots and the metadata index are written with
+ * gzip or brotli. A store must still read every file already on disk,
+ * compressed or not, whatever it is set to write — that is what lets a
+ * deployment turn compression on (or off) without migrating.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FileSessionStore } from '../../src/session/storage/file-store.js';
+import { ThinkingMode, ThinkingSession, Thought } from '../../src/types/index.js';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import * as path from 'path';
+import * as os from 'os';
+
+function createTestSession(): ThinkingSession {
+  return {
+    id: randomUUID(),
+    title: 'Compressed Session',
+    mode: ThinkingMode.SEQUENTIAL,
+    config: {
+      modeConfig: {
+        mode: ThinkingMode.SEQUENTIAL,
+        strictValidation: false,
+        allowModeSwitch: true,
+      },
+      enableAutoSave: true,
+      enableValidation: false,
+      enableVisualization: false,
+      integrations: {},
+      exportFormats: ['json'],
+      autoExportOnComplete: false,
+      maxThoughtsInMemory: 1000,
+      compressionThreshold: 500,
+    },
+    thoughts: Array.from(
+      { length: 20 },
+      (_, i) =>
+        ({
+          id: randomUUID(),
+          sessionId: '',
+          mode: ThinkingMode.SEQUENTIAL,
+          thoughtNumber: i + 1,
+          totalThoughts: 20,
+          content: `Thought ${i + 1}: the same reasoning, restated at length. `.repeat(10),
+          timestamp: new Date(),
+          nextThoughtNeeded: true,
+        }) as Thought,
+    ),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    currentThoughtNumber: 20,
+    isComplete: false,
+    metrics: {
+      totalThoughts: 20,
+      thoughtsByType: {},
+      averageUncertainty: 0,
+      revisionCount: 0,
+      timeSpent: 0,
+      dependencyDepth: 0,
+      customMetrics: new Map([['reviewer', 'alice']]),
+    },
+    collaborators: [],
+    tags: [],
+  };
+}
+
+describe('FileSessionStore compression', () => {
+  let tempDir: string;
+  let stores: FileSessionStore[];
+
+  function open(config: ConstructorParameters<typeof FileSessionStore>[1] = {}) {
+    const store = new FileSessionStore(tempDir, config);
+    stores.push(store);
+    return store;
+  }
+
+  const sessionFiles = () => fs.readdir(path.join(tempDir, 'sessions'));
+  const metadataFiles = () => fs.readdir(path.join(tempDir, 'metadata'));
+
+  beforeEach(() => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-compression-${randomUUID()}`);
+    stores = [];
+  });
+
+  afterEach(async () => {
+    for (const store of stores) {
+      await store.close();
+    }
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['gzip', '.json.gz'],
+    ['brotli', '.json.br'],
+  ] as const)('round-trips a session with %s', async (algorithm, extension) => {
+    const store = open({ enableCompression: true, compressionAlgorithm: algorithm });
+    const session = createTestSession();
+
+    await store.saveSession(session);
+
+    expect(await sessionFiles()).toEqual([`${session.id}${extension}`]);
+    expect(await metadataFiles()).toEqual([`index${extension}`]);
+
+    const loaded = await open().loadSession(session.id);
+    expect(loaded!.thoughts.map((t) => t.content)).toEqual(session.thoughts.map((t) => t.content));
+    expect(loaded!.metrics.customMetrics.get('reviewer')).toBe('alice');
+    expect(await open().listSessions()).toHaveLength(1);
+  });
+
+  it('compresses by default with gzip', async () => {
+    const session = createTestSession();
+    await open({ enableCompression: true }).saveSession(session);
+    expect(await sessionFiles()).toEqual([`${session.id}.json.gz`]);
+  });
+
+  it('reads plain and compressed sessions side by side', async () => {
+    const plain = createTestSession();
+    const compressed = createTestSession();
+    await open().saveSession(plain);
+    await open({ enableCompression: true, compressionAlgorithm: 'brotli' }).saveSession(compressed);
+
+    for (const store of [open(), open({ enableCompression: true })]) {
+      expect((await store.loadSession(plain.id))!.id).toBe(plain.id);
+      expect((await store.loadSession(compressed.id))!.id).toBe(compressed.id);
+      expect(await store.exists(plain.id)).toBe(true);
+      expect(await store.exists(compressed.id)).toBe(true);
+    }
+  });
+
+  it('rewrites a session in the configured form and removes the old file', async () => {
+    const session = createTestSession();
+    await open().saveSession(session);
+
+    const store = open({ enableCompression: true });
+    const loaded = await store.loadSession(session.id);
+    await store.saveSession(loaded!);
+
+    expect(await sessionFiles()).toEqual([`${session.id}.json.gz`]);
+    expect(await metadataFiles()).toEqual(['index.json.gz']);
+  });
+
+  it('reads a gzipped file that lacks the .gz extension', async () => {
+    const session = createTestSession();
+    const store = open();
+    await store.saveSession(session);
+
+    const file = path.join(tempDir, 'sessions', `${session.id}.json`);
+    await fs.writeFile(file, gzipSync(await fs.readFile(file)));
+
+    expect((await open().loadSession(session.id))!.title).toBe('Compressed Session');
+  });
+
+  it('deletes a compressed session', async () => {
+    const store = open({ enableCompression: true, compressionAlgorithm: 'brotli' });
+    const session = createTestSession();
+    await store.saveSession(session);
+
+    expect(await store.deleteSession(session.id)).toBe(true);
+    expect(await sessionFiles()).toEqual([]);
+    expect(await store.loadSession(session.id)).toBeNull();
+  });
+
+  it('reports both stored and uncompressed size', async () => {
+    const store = open({ enableCompression: true });
+    await store.saveSession(createTestSession());
+
+    const stats = await store.getStats();
+    expect(stats.storageSize).toBeGreaterThan(0);
+    expect(stats.logicalSize).toBeGreaterThan(stats.storageSize * 5);
+  });
+
+  it('takes the uncompressed size recorded at save instead of decompressing', async () => {
+    const session = createTestSession();
+    await open().saveSession(session);
+    const plainSize = (await fs.stat(path.join(tempDir, 'sessions', `${session.id}.json`))).size;
+    const store = open({ enableCompression: true });
+    await store.saveSession(session);
+
+    const reads = vi.spyOn(fs, 'readFile');
+    const stats = await store.getStats();
+    const snapshotReads = reads.mock.calls.filter(([file]) => String(file).includes(`${path.sep}sessions${path.sep}`));
+    reads.mockRestore();
+
+    expect(stats.logicalSize).toBe(plainSize);
+    expect(snapshotReads).toEqual([]);
+
+    // A snapshot saved before sizes were recorded is measured by decompressing it
+    const index = path.join(tempDir, 'metadata', 'index.json.gz');
+    const entries = JSON.parse(gunzipSync(await fs.readFile(index)).toString()) as Record<string, unknown>[];
+    await fs.writeFile(index, gzipSync(JSON.stringify(entries.map(({ snapshotBytes: _, ...entry }) => entry))));
+    expect((await open({ enableCompression: true }).getStats()).logicalSize).toBe(plainSize);
+  });
+
+  it('reports equal sizes when nothing is compressed', async () => {
+    const store = open();
+    await store.saveSession(createTestSession());
+
+    const stats = await store.getStats();
+    expect(stats.logicalSize).toBe(stats.storageSize);
+  });
+});
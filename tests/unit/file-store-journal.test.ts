@@ -0,0 +1,288 @@
+/**
+ * FileSessionStore Journal Tests
+ *
+ * appendEvent writes each added thought or mode switch to a per-session
+ * journal instead of rewriting the snapshot. These tests check that the
+ * journal is replayed on load, compacted every `compactionThreshold` events,
+ * and recovered by the next process's initialize() after a crash — including
+ * a crash that tore the last line or struck between a snapshot and the
+ * removal of its journal.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { FileSessionStore } from '../../src/session/storage/file-store.js';
+import { SessionManager } from '../../src/session/manager.js';
+import { ThinkingMode, ThinkingSession, Thought } from '../../src/types/index.js';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import * as os from 'os';
+
+function createTestSession(): ThinkingSession {
+  return {
+    id: randomUUID(),
+    title: 'Journal Session',
+    mode: ThinkingMode.SEQUENTIAL,
+    config: {
+      modeConfig: {
+        mode: ThinkingMode.SEQUENTIAL,
+        strictValidation: false,
+        allowModeSwitch: true,
+      },
+      enableAutoSave: true,
+      enableValidation: false,
+      enableVisualization: false,
+      integrations: {},
+      exportFormats: ['json'],
+      autoExportOnComplete: false,
+      maxThoughtsInMemory: 1000,
+      compressionThreshold: 500,
+    },
+    thoughts: [],
+    createdAt: new Date(Date.now() - 1000),
+    updatedAt: new Date(Date.now() - 1000),
+    currentThoughtNumber: 0,
+    isComplete: false,
+    metrics: {
+      totalThoughts: 0,
+      thoughtsByType: {},
+      averageUncertainty: 0,
+      revisionCount: 0,
+      timeSpent: 0,
+      dependencyDepth: 0,
+      customMetrics: new Map(),
+    },
+    collaborators: [],
+    tags: [],
+  };
+}
+
+/**
+ * Apply a thought to the session the way SessionManager.addThought does
+ */
+function addThought(session: ThinkingSession, content: string): Thought {
+  const thought = {
+    id: randomUUID(),
+    sessionId: session.id,
+    mode: session.mode,
+    thoughtNumber: session.thoughts.length + 1,
+    totalThoughts: 10,
+    content,
+    timestamp: new Date(),
+    nextThoughtNeeded: true,
+  } as Thought;
+  session.thoughts.push(thought);
+  session.currentThoughtNumber = thought.thoughtNumber;
+  session.updatedAt = new Date(session.updatedAt.getTime() + 1);
+  return thought;
+}
+
+describe('FileSessionStore journal', () => {
+  let tempDir: string;
+  let store: FileSessionStore;
+
+  const snapshotPath = (id: string) => path.join(tempDir, 'sessions', `${id}.json`);
+  const journalPath = (id: string) => path.join(tempDir, 'journal', `${id}.jsonl`);
+  const indexPath = () => path.join(tempDir, 'metadata', 'index.json');
+
+  async function snapshotThoughtCount(id: string): Promise<number> {
+    return JSON.parse(await fs.readFile(snapshotPath(id), 'utf-8')).thoughts.length;
+  }
+
+  async function journalLines(id: string): Promise<string[]> {
+    const text = await fs.readFile(journalPath(id), 'utf-8');
+    return text.split('\n').filter((line) => line.length > 0);
+  }
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-journal-${randomUUID()}`);
+    store = new FileSessionStore(tempDir, { compactionThreshold: 5 });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('appends events without rewriting the snapshot', async () => {
+    const session = createTestSession();
+    await store.saveSession(session);
+
+    const thought = addThought(session, 'journaled');
+    await store.appendEvent(session, { type: 'thought_added', thought });
+
+    expect(await snapshotThoughtCount(session.id)).toBe(0);
+    expect(await journalLines(session.id)).toHaveLength(1);
+    expect((await store.listSessions())[0].thoughtCount).toBe(1);
+  });
+
+  it('replays thoughts and mode switches on load', async () => {
+    const session = createTestSession();
+    session.metrics.customMetrics.set('k', 'v');
+    await store.saveSession(session);
+
+    const thought = addThought(session, 'first');
+    await store.appendEvent(session, { type: 'thought_added', thought });
+    session.mode = ThinkingMode.CAUSAL;
+    session.config.modeConfig.mode = ThinkingMode.CAUSAL;
+    session.updatedAt = new Date(session.updatedAt.getTime() + 1);
+    await store.appendEvent(session, {
+      type: 'mode_switched',
+      from: ThinkingMode.SEQUENTIAL,
+      to: ThinkingMode.CAUSAL,
+    });
+
+    const loaded = await store.loadSession(session.id);
+    expect(loaded!.thoughts.map((t) => t.content)).toEqual(['first']);
+    expect(loaded!.thoughts[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded!.mode).toBe(ThinkingMode.CAUSAL);
+    expect(loaded!.config.modeConfig.mode).toBe(ThinkingMode.CAUSAL);
+    expect(loaded!.currentThoughtNumber).toBe(1);
+    expect(loaded!.metrics.customMetrics.get('k')).toBe('v');
+  });
+
+  it('compacts into a snapshot every compactionThreshold events', async () => {
+    const session = createTestSession();
+    await store.saveSession(session);
+
+    for (let i = 0; i < 4; i++) {
+      const thought = addThought(session, `t${i}`);
+      await store.appendEvent(session, { type: 'thought_added', thought });
+    }
+    expect(await journalLines(session.id)).toHaveLength(4);
+
+    const fifth = addThought(session, 't4');
+    await store.appendEvent(session, { type: 'thought_added', thought: fifth });
+
+    expect(await snapshotThoughtCount(session.id)).toBe(5);
+    await expect(fs.access(journalPath(session.id))).rejects.toThrow();
+  });
+
+  it('leaves the metadata index alone until the journal is compacted', async () => {
+    const session = createTestSession();
+    await store.saveSession(session);
+    const indexedThoughtCount = async () =>
+      JSON.parse(await fs.readFile(indexPath(), 'utf-8'))[0].thoughtCount;
+
+    for (let i = 0; i < 4; i++) {
+      const thought = addThought(session, `t${i}`);
+      await store.appendEvent(session, { type: 'thought_added', thought });
+    }
+    expect(await indexedThoughtCount()).toBe(0);
+    expect((await store.listSessions())[0].thoughtCount).toBe(4);
+
+    const fifth = addThought(session, 't4');
+    await store.appendEvent(session, { type: 'thought_added', thought: fifth });
+    expect(await indexedThoughtCount()).toBe(5);
+  });
+
+  it('writes metadata of journaled events to the index on close', async () => {
+    const session = createTestSession();
+    await store.saveSession(session);
+    const thought = addThought(session, 'journaled');
+    await store.appendEvent(session, { type: 'thought_added', thought });
+
+    await store.close();
+
+    expect(JSON.parse(await fs.readFile(indexPath(), 'utf-8'))[0].thoughtCount).toBe(1);
+  });
+
+  it('saves a full snapshot when the session has none yet', async () => {
+    const session = createTestSession();
+    const thought = addThought(session, 'early');
+
+    await store.appendEvent(session, { type: 'thought_added', thought });
+
+    expect(await snapshotThoughtCount(session.id)).toBe(1);
+  });
+
+  it('never leaves a temp snapshot behind', async () => {
+    await store.saveSession(createTestSession());
+    const files = await fs.readdir(path.join(tempDir, 'sessions'));
+    expect(files.filter((f) => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('removes the journal when the session is deleted', async () => {
+    const session = createTestSession();
+    await store.saveSession(session);
+    const thought = addThought(session, 'doomed');
+    await store.appendEvent(session, { type: 'thought_added', thought });
+
+    await store.deleteSession(session.id);
+
+    await expect(fs.access(journalPath(session.id))).rejects.toThrow();
+  });
+
+  describe('crash recovery', () => {
+    it('folds a leftover journal into the snapshot on initialize', async () => {
+      const session = createTestSession();
+      await store.saveSession(session);
+      for (const content of ['a', 'b']) {
+        const thought = addThought(session, content);
+        await store.appendEvent(session, { type: 'thought_added', thought });
+      }
+
+      // The process dies here: no close(), no compaction
+      const next = new FileSessionStore(tempDir, { compactionThreshold: 5 });
+      await next.initialize();
+
+      expect(await snapshotThoughtCount(session.id)).toBe(2);
+      await expect(fs.access(journalPath(session.id))).rejects.toThrow();
+      const loaded = await next.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['a', 'b']);
+      await next.close();
+    });
+
+    it('drops a final line torn by a crash mid-append', async () => {
+      const session = createTestSession();
+      await store.saveSession(session);
+      const thought = addThought(session, 'whole');
+      await store.appendEvent(session, { type: 'thought_added', thought });
+      await fs.appendFile(journalPath(session.id), '{"type":"thought_added","thou');
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['whole']);
+    });
+
+    it('does not duplicate events a snapshot already holds', async () => {
+      const session = createTestSession();
+      await store.saveSession(session);
+      const thought = addThought(session, 'once');
+      await store.appendEvent(session, { type: 'thought_added', thought });
+      const journal = await fs.readFile(journalPath(session.id), 'utf-8');
+
+      // Crash between writing the snapshot and removing its journal
+      await store.saveSession(session);
+      await fs.writeFile(journalPath(session.id), journal);
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['once']);
+    });
+  });
+
+  it('makes every SessionManager thought durable', async () => {
+    const manager = new SessionManager({}, undefined, store);
+    const session = await manager.createSession({ mode: ThinkingMode.SEQUENTIAL });
+    await manager.addThought(session.id, {
+      id: randomUUID(),
+      sessionId: session.id,
+      mode: ThinkingMode.SEQUENTIAL,
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      content: 'survives the crash',
+      timestamp: new Date(),
+      nextThoughtNeeded: true,
+    } as Thought);
+    await manager.switchMode(session.id, ThinkingMode.CAUSAL);
+
+    expect(await journalLines(session.id)).toHaveLength(2);
+
+    const recovered = new FileSessionStore(tempDir);
+    await recovered.initialize();
+    const loaded = await recovered.loadSession(session.id);
+    expect(loaded!.thoughts[0].content).toBe('survives the crash');
+    expect(loaded!.mode).toBe(ThinkingMode.CAUSAL);
+    await recovered.close();
+  });
+});
@@ -413,7 +413,7 @@ describe('FileSessionStore', () => {
 
       // Clean up sessions older than 7 days
       const maxAge = 7 * 24 * 60 * 60 * 1000;
-      const cleaned = await store.cleanup(maxAge);
+      const cleaned = await store.cleanup(maxAge, Date.now());
 
       expect(cleaned).toBe(1);
 
@@ -427,7 +427,7 @@ describe('FileSessionStore', () => {
       await store.saveSession(session);
 
       const maxAge = 1 * 24 * 60 * 60 * 1000; // 1 day
-      const cleaned = await store.cleanup(maxAge);
+      const cleaned = await store.cleanup(maxAge, Date.now());
 
       expect(cleaned).toBe(0);
     });
@@ -0,0 +1,306 @@
+/**
+ * Bayesian network inference.
+ *
+ * The sprinkler network (Cloudy → Sprinkler, Rain → WetGrass) is small
+ * enough to solve by hand: given wet grass, P(Rain) = 0.7079 and
+ * P(Sprinkler) = 0.4298. The Asia network, whose moral graph has a loop,
+ * checks that variable elimination and the junction tree agree with brute
+ * force enumeration of the joint, and likelihood weighting with both.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildNetwork, ImpossibleEvidenceError, NetworkError } from '../../../../src/modes/bayesian/network.js';
+import { infer } from '../../../../src/modes/bayesian/inference.js';
+import { buildJunctionTree } from '../../../../src/modes/bayesian/junction-tree.js';
+import { entropy, valueOfInformation } from '../../../../src/modes/bayesian/value-of-information.js';
+import type { BayesianNetwork, Observations } from '../../../../src/modes/bayesian/types.js';
+
+const TF = ['T', 'F'];
+
+const sprinkler = buildNetwork([
+  {
+    id: 'WetGrass',
+    states: TF,
+    parents: ['Sprinkler', 'Rain'],
+    cpt: [
+      [0.99, 0.01],
+      [0.9, 0.1],
+      [0.9, 0.1],
+      [0, 1],
+    ],
+  },
+  { id: 'Cloudy', states: TF, cpt: [[0.5, 0.5]] },
+  {
+    id: 'Sprinkler',
+    states: TF,
+    parents: ['Cloudy'],
+    cpt: [
+      [0.1, 0.9],
+      [0.5, 0.5],
+    ],
+  },
+  {
+    id: 'Rain',
+    states: TF,
+    parents: ['Cloudy'],
+    cpt: [
+      [0.8, 0.2],
+      [0.2, 0.8],
+    ],
+  },
+]);
+
+const asia = buildNetwork([
+  { id: 'Asia', states: TF, cpt: [[0.01, 0.99]] },
+  { id: 'Smoker', states: TF, cpt: [[0.5, 0.5]] },
+  {
+    id: 'Tuberculosis',
+    states: TF,
+    parents: ['Asia'],
+    cpt: [
+      [0.05, 0.95],
+      [0.01, 0.99],
+    ],
+  },
+  {
+    id: 'Cancer',
+    states: TF,
+    parents: ['Smoker'],
+    cpt: [
+      [0.1, 0.9],
+      [0.01, 0.99],
+    ],
+  },
+  {
+    id: 'Bronchitis',
+    states: TF,
+    parents: ['Smoker'],
+    cpt: [
+      [0.6, 0.4],
+      [0.3, 0.7],
+    ],
+  },
+  {
+    id: 'Either',
+    states: TF,
+    parents: ['Tuberculosis', 'Cancer'],
+    cpt: [
+      [1, 0],
+      [1, 0],
+      [1, 0],
+      [0, 1],
+    ],
+  },
+  {
+    id: 'Xray',
+    states: TF,
+    parents: ['Either'],
+    cpt: [
+      [0.98, 0.02],
+      [0.05, 0.95],
+    ],
+  },
+  {
+    id: 'Dyspnoea',
+    states: TF,
+    parents: ['Either', 'Bronchitis'],
+    cpt: [
+      [0.9, 0.1],
+      [0.7, 0.3],
+      [0.8, 0.2],
+      [0.1, 0.9],
+    ],
+  },
+]);
+
+/** Posterior marginals by summing the whole joint */
+function enumerate(network: BayesianNetwork, observations: Observations) {
+  const sums: Record<string, Record<string, number>> = {};
+  for (const n of network.nodes) sums[n.id] = Object.fromEntries(n.states.map((s) => [s, 0]));
+  let evidence = 0;
+  const assignment: Record<string, string> = {};
+  const walk = (i: number, p: number) => {
+    if (i === network.nodes.length) {
+      evidence += p;
+      for (const [v, s] of Object.entries(assignment)) sums[v][s] += p;
+      return;
+    }
+    const node = network.nodes[i];
+    const row = node.parents.reduce(
+      (r, parent) => r * 2 + network.nodes.find((n) => n.id === parent)!.states.indexOf(assignment[parent]),
+      0,
+    );
+    node.states.forEach((s, k) => {
+      if (node.id in observations && observations[node.id] !== s) return;
+      assignment[node.id] = s;
+      walk(i + 1, p * node.cpt[row][k]);
+    });
+    delete assignment[node.id];
+  };
+  walk(0, 1);
+  for (const v of Object.keys(sums)) for (const s of Object.keys(sums[v])) sums[v][s] /= evidence;
+  return { marginals: sums, evidence };
+}
+
+describe('buildNetwork', () => {
+  it('orders the nodes parents first and builds the causal graph', () => {
+    const order = sprinkler.nodes.map((n) => n.id);
+    expect(order.indexOf('Cloudy')).toBeLessThan(order.indexOf('Rain'));
+    expect(order.indexOf('Rain')).toBeLessThan(order.indexOf('WetGrass'));
+    expect(sprinkler.graph.edges).toHaveLength(4);
+    expect(sprinkler.graph.isDAG).toBe(true);
+  });
+
+  it('normalises rows within the tolerance', () => {
+    const network = buildNetwork([{ id: 'A', states: TF, cpt: [[0.302, 0.7]] }]);
+    expect(network.nodes[0].cpt[0][0] + network.nodes[0].cpt[0][1]).toBeCloseTo(1, 12);
+  });
+
+  it.each([
+    [[{ id: 'A', states: TF, parents: ['B'], cpt: [[0.5, 0.5]] }], /parent 'B'/],
+    [[{ id: 'A', states: ['T'], cpt: [[1]] }], /at least two distinct states/],
+    [[{ id: 'A', states: TF, cpt: [[0.5, 0.4]] }], /sums to 0\.900/],
+    [
+      [
+        {
+          id: 'A',
+          states: TF,
+          cpt: [
+            [0.5, 0.5],
+            [0.5, 0.5],
+          ],
+        },
+      ],
+      /2 row\(s\)/,
+    ],
+    [[{ id: 'A', states: TF, cpt: [[1.5, -0.5]] }], /negative probability/],
+    [
+      [
+        {
+          id: 'A',
+          states: TF,
+          parents: ['B'],
+          cpt: [
+            [0.5, 0.5],
+            [0.5, 0.5],
+          ],
+        },
+        {
+          id: 'B',
+          states: TF,
+          parents: ['A'],
+          cpt: [
+            [0.5, 0.5],
+            [0.5, 0.5],
+          ],
+        },
+      ],
+      /cycle among 'A', 'B'/,
+    ],
+  ])('rejects a malformed network (%#)', (nodes, message) => {
+    expect(() => buildNetwork(nodes)).toThrow(NetworkError);
+    expect(() => buildNetwork(nodes)).toThrow(message);
+  });
+});
+
+describe('exact inference', () => {
+  it('solves the sprinkler network by both methods', () => {
+    for (const method of ['junction_tree', 'variable_elimination'] as const) {
+      const result = infer(sprinkler, { WetGrass: 'T' }, { method });
+      expect(result.method).toBe(method);
+      expect(result.marginals.Rain.T).toBeCloseTo(0.7079, 4);
+      expect(result.marginals.Sprinkler.T).toBeCloseTo(0.4298, 4);
+      expect(result.evidenceProbability).toBeCloseTo(0.6471, 4);
+      expect(result.marginals.WetGrass).toEqual({ T: 1, F: 0 });
+    }
+  });
+
+  it('agrees with enumeration of the joint on the Asia network', () => {
+    const observations = { Xray: 'T', Smoker: 'F' };
+    const expected = enumerate(asia, observations);
+    for (const method of ['junction_tree', 'variable_elimination'] as const) {
+      const result = infer(asia, observations, { method });
+      expect(result.evidenceProbability).toBeCloseTo(expected.evidence, 12);
+      for (const node of asia.nodes) {
+        expect(result.marginals[node.id].T).toBeCloseTo(expected.marginals[node.id].T, 12);
+      }
+    }
+  });
+
+  it('returns only the query, in its order', () => {
+    const result = infer(asia, {}, { query: ['Dyspnoea', 'Asia'] });
+    expect(Object.keys(result.marginals)).toEqual(['Dyspnoea', 'Asia']);
+  });
+
+  it('builds a junction tree with the running intersection property', () => {
+    const tree = buildJunctionTree(asia);
+    expect(tree.separators).toHaveLength(tree.cliques.length - 1);
+    for (const node of asia.nodes) {
+      const holding = tree.cliques.flatMap((c, i) => (c.includes(node.id) ? [i] : []));
+      const edges = tree.separators.filter(({ cliques: [a, b] }) => holding.includes(a) && holding.includes(b));
+      expect(edges).toHaveLength(holding.length - 1);
+    }
+  });
+
+  it('throws on impossible observations and unknown names', () => {
+    expect(() => infer(asia, { Tuberculosis: 'T', Either: 'F' })).toThrow(ImpossibleEvidenceError);
+    expect(() => infer(asia, { Either: 'maybe' })).toThrow(NetworkError);
+    expect(() => infer(asia, {}, { query: ['Flu'] })).toThrow("Query variable 'Flu' is not a node of the network");
+  });
+});
+
+describe('likelihood weighting', () => {
+  it('estimates the exact marginals and repeats by seed', () => {
+    const observations = { Dyspnoea: 'T' };
+    const exact = infer(asia, observations);
+    const first = infer(asia, observations, { method: 'likelihood_weighting', samples: 20_000, seed: 11 });
+    const again = infer(asia, observations, { method: 'likelihood_weighting', samples: 20_000, seed: 11 });
+
+    expect(first.seed).toBe(11);
+    expect(first.samples).toBe(20_000);
+    expect(again.marginals).toEqual(first.marginals);
+    for (const node of asia.nodes) {
+      expect(Math.abs(first.marginals[node.id].T - exact.marginals[node.id].T)).toBeLessThan(0.02);
+    }
+    expect(first.effectiveSampleSize).toBeGreaterThan(0);
+    expect(first.effectiveSampleSize).toBeLessThanOrEqual(20_000);
+  });
+
+  it('is the fallback when exact tables would be too large', () => {
+    const result = infer(sprinkler, { WetGrass: 'T' }, { maxTableSize: 2, seed: 3 });
+    expect(result.method).toBe('likelihood_weighting');
+    expect(result.fellBack).toBe(true);
+    expect(result.marginals.Rain.T).toBeCloseTo(0.7079, 1);
+  });
+});
+
+describe('value of information', () => {
+  it('measures entropy in bits', () => {
+    expect(entropy({ a: 0.5, b: 0.5 })).toBe(1);
+    expect(entropy({ a: 1, b: 0 })).toBe(0);
+  });
+
+  it('ranks the sprinkler before the clouds for rain given wet grass', () => {
+    const ranked = valueOfInformation(sprinkler, 'Rain', { WetGrass: 'T' });
+    expect(ranked.map((v) => v.variable)).toEqual(['Sprinkler', 'Cloudy']);
+    expect(ranked[0].informationGain).toBeCloseTo(0.4825, 4);
+    expect(ranked[1].informationGain).toBeCloseTo(0.3828, 4);
+
+    const outcomes = ranked[0].outcomes;
+    expect(outcomes.reduce((p, o) => p + o.probability, 0)).toBeCloseTo(1, 12);
+    // Averaged over the outcomes, the posterior is the current belief
+    const mean = outcomes.reduce((p, o) => p + o.probability * o.posterior.T, 0);
+    expect(mean).toBeCloseTo(0.7079, 4);
+  });
+
+  it('gives nothing for a candidate the observations screen off', () => {
+    const [xray] = valueOfInformation(asia, 'Tuberculosis', { Either: 'T' }, ['Xray']);
+    expect(xray.informationGain).toBeCloseTo(0, 12);
+  });
+
+  it('rejects an unknown or observed target', () => {
+    expect(() => valueOfInformation(asia, 'Flu')).toThrow(NetworkError);
+    expect(() => valueOfInformation(asia, 'Xray', {}, ['Flu'])).toThrow("'Flu' is not a node of the network");
+    expect(() => valueOfInformation(asia, 'Xray', { Xray: 'T' })).toThrow('already observed');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Parametric posteriors.
+ *
+ * Each conjugate pair is checked against its posterior worked by hand, e.g.
+ * a Beta(2, 2) prior and 26 successes in 40 binomial trials give
+ * Beta(28, 16). Metropolis-Hastings must agree with those closed forms
+ * within its Monte Carlo error, repeat exactly by its seed, and sample a
+ * prior that is not conjugate, cut off where the parameter cannot lie.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  betaI,
+  cdf,
+  gammaP,
+  logGamma,
+  normalCdf,
+  quantile,
+  shortestInterval,
+} from '../../../../src/modes/bayesian/distributions.js';
+import { conjugateUpdate } from '../../../../src/modes/bayesian/conjugate.js';
+import { ParametricModelError, readLikelihood } from '../../../../src/modes/bayesian/likelihood.js';
+import { updatePosterior } from '../../../../src/modes/bayesian/parametric.js';
+import type { ContinuousDistribution, ParametricModel } from '../../../../src/modes/bayesian/types.js';
+
+const coin: ParametricModel = {
+  prior: { type: 'beta', alpha: 2, beta: 2 },
+  likelihood: readLikelihood('binomial', { n: 10 }),
+  data: [6, 7, 5, 8],
+};
+
+describe('special functions', () => {
+  it('match their known values', () => {
+    expect(logGamma(5)).toBeCloseTo(Math.log(24), 12);
+    expect(logGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 12);
+    expect(betaI(0.5, 2, 3)).toBeCloseTo(11 / 16, 12);
+    expect(gammaP(1, 1)).toBeCloseTo(1 - Math.exp(-1), 12);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalCdf(-1.959964)).toBeCloseTo(0.025, 6);
+  });
+
+  it('invert the distribution function', () => {
+    const dists: ContinuousDistribution[] = [
+      { type: 'beta', alpha: 28, beta: 16 },
+      { type: 'gamma', shape: 21, scale: 1 / 6 },
+      { type: 'normal', mean: 1, stdDev: 2 },
+      { type: 'lognormal', mu: 0, sigma: 0.5 },
+      { type: 'triangular', min: 0, mode: 1, max: 4 },
+    ];
+    for (const dist of dists) {
+      for (const q of [0.025, 0.5, 0.975]) {
+        expect(cdf(dist, quantile(dist, q))).toBeCloseTo(q, 9);
+      }
+    }
+  });
+
+  it('find the shortest interval of a skewed distribution', () => {
+    const dist: ContinuousDistribution = { type: 'gamma', shape: 2, scale: 1 };
+    const [lower, upper] = shortestInterval(dist, 0.9);
+
+    expect(cdf(dist, upper) - cdf(dist, lower)).toBeCloseTo(0.9, 8);
+    expect(upper - lower).toBeLessThan(quantile(dist, 0.95) - quantile(dist, 0.05));
+  });
+});
+
+describe('conjugate updates', () => {
+  it('updates a beta prior by binomial data', () => {
+    const posterior = updatePosterior(coin, { threshold: 0.5 });
+
+    expect(posterior.method).toBe('conjugate');
+    expect(posterior.conjugacy).toBe('beta-binomial');
+    expect(posterior.distribution).toEqual({ type: 'beta', alpha: 28, beta: 16 });
+    expect(posterior.mean).toBeCloseTo(28 / 44, 12);
+    expect(posterior.credibleInterval.lower).toBeCloseTo(0.4907, 4);
+    expect(posterior.credibleInterval.upper).toBeCloseTo(0.7702, 4);
+    expect(posterior.threshold!.prior).toBeCloseTo(0.5, 10);
+    expect(posterior.threshold!.posterior).toBeCloseTo(0.967, 3);
+    expect(posterior.diagnostics).toBeUndefined();
+  });
+
+  it('covers the other pairs', () => {
+    const flat: ContinuousDistribution = { type: 'uniform', min: 0, max: 1 };
+    expect(conjugateUpdate(flat, readLikelihood('geometric'), [2, 3, 1])!.distribution).toEqual({
+      type: 'beta',
+      alpha: 4,
+      beta: 4,
+    });
+    expect(conjugateUpdate({ type: 'exponential', rate: 2 }, readLikelihood('poisson'), [1, 2])!.distribution).toEqual({
+      type: 'gamma',
+      shape: 4,
+      scale: 0.25,
+    });
+    expect(
+      conjugateUpdate({ type: 'gamma', shape: 2, scale: 1 }, readLikelihood('exponential'), [0.5, 1.5])!.distribution,
+    ).toEqual({ type: 'gamma', shape: 4, scale: 1 / 3 });
+
+    const normal = conjugateUpdate(
+      { type: 'normal', mean: 0, stdDev: 2 },
+      readLikelihood('normal', { sigma: 1 }),
+      [4, 5, 6],
+    )!;
+    const { mean, stdDev } = normal.distribution as { mean: number; stdDev: number };
+    expect(normal.conjugacy).toBe('normal-normal');
+    expect(mean).toBeCloseTo(15 / 3.25, 12);
+    expect(stdDev).toBeCloseTo(Math.sqrt(1 / 3.25), 12);
+  });
+
+  it('leaves a prior of another family to sampling', () => {
+    expect(conjugateUpdate({ type: 'normal', mean: 0.5, stdDev: 0.3 }, coin.likelihood, coin.data)).toBeUndefined();
+    expect(conjugateUpdate({ type: 'lognormal', mu: 1, sigma: 1 }, readLikelihood('poisson'), [3])).toBeUndefined();
+  });
+});
+
+describe('Metropolis-Hastings', () => {
+  it('agrees with the closed form and repeats by its seed', () => {
+    const sampled = updatePosterior(coin, { method: 'metropolis_hastings', seed: 1 });
+    const again = updatePosterior(coin, { method: 'metropolis_hastings', seed: 1 });
+    const d = sampled.diagnostics!;
+
+    expect(sampled.method).toBe('metropolis_hastings');
+    expect(sampled.distribution).toBeUndefined();
+    expect(Math.abs(sampled.mean - 28 / 44)).toBeLessThan(4 * d.mcse);
+    expect(Math.abs(sampled.credibleInterval.lower - 0.4907)).toBeLessThan(0.02);
+    expect(Math.abs(sampled.credibleInterval.upper - 0.7702)).toBeLessThan(0.02);
+    expect(d.seed).toBe(1);
+    expect(d.chains).toBe(4);
+    expect(d.rHat).toBeLessThan(1.05);
+    expect(d.acceptanceRate).toBeGreaterThan(0.3);
+    expect(d.acceptanceRate).toBeLessThan(0.6);
+    expect(d.converged).toBe(true);
+    expect(again).toEqual(sampled);
+  });
+
+  it('samples a prior that is not conjugate', () => {
+    const model: ParametricModel = {
+      prior: { type: 'lognormal', mu: 1, sigma: 1 },
+      likelihood: readLikelihood('poisson'),
+      data: [3, 4, 2, 5, 6],
+    };
+    const posterior = updatePosterior(model, { seed: 7 });
+
+    expect(posterior.method).toBe('metropolis_hastings');
+    expect(posterior.parameter).toBe('lambda');
+    expect(posterior.mean).toBeGreaterThan(3);
+    expect(posterior.mean).toBeLessThan(5);
+    expect(posterior.diagnostics!.converged).toBe(true);
+  });
+
+  it('restricts a prior to where the parameter can lie', () => {
+    const posterior = updatePosterior({ ...coin, prior: { type: 'normal', mean: 0.5, stdDev: 0.3 } }, { seed: 2 });
+
+    expect(posterior.truncatedPriorMass).toBeCloseTo(2 * normalCdf(-0.5 / 0.3), 6);
+    expect(posterior.priorMean).toBeCloseTo(0.5, 3);
+    expect(posterior.credibleInterval.lower).toBeGreaterThan(0);
+    expect(posterior.credibleInterval.upper).toBeLessThan(1);
+  });
+});
+
+describe('parametric model errors', () => {
+  it('rejects likelihoods without their known parameters', () => {
+    expect(() => readLikelihood('binomial')).toThrow(ParametricModelError);
+    expect(() => readLikelihood('normal', { sigma: 0 })).toThrow(/standard deviation/);
+    expect(() => readLikelihood('cauchy')).toThrow("No likelihood for 'cauchy'");
+    expect(readLikelihood('bernoulli')).toEqual({ family: 'binomial', parameter: 'p', trials: 1 });
+    expect(readLikelihood('normal', { variance: 4 })).toEqual({ family: 'normal', parameter: 'mean', stdDev: 2 });
+  });
+
+  it('rejects impossible data and priors', () => {
+    expect(() => updatePosterior({ ...coin, data: [6, 11] })).toThrow(
+      'Observation 1 (11) is not a count of successes from 0 to 10',
+    );
+    expect(() => updatePosterior({ ...coin, prior: { type: 'uniform', min: 2, max: 3 } })).toThrow(
+      "The prior puts no probability where 'p' can lie",
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Constraint expression language.
+ *
+ * Constraint thoughts state their constraints as text (`X1 != X2`,
+ * `|Q1 - Q2| != 1`). These tests pin down what the parser accepts, how it
+ * reads precedence and chains, and that evaluation is strict about types
+ * rather than coercing `'2' == 2` the way JavaScript would.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ConstraintExpressionError,
+  evaluateExpression,
+  expressionIdentifiers,
+  isCondition,
+  parseExpression,
+} from '../../../../src/modes/constraint/expression.js';
+
+function evaluate(source: string, values: Record<string, string | number> = {}) {
+  return evaluateExpression(parseExpression(source), (name) => {
+    if (!(name in values)) throw new Error(`no value for ${name}`);
+    return values[name];
+  });
+}
+
+describe('parseExpression', () => {
+  it('reads comparisons in every spelling', () => {
+    expect(evaluate('X == 1', { X: 1 })).toBe(true);
+    expect(evaluate('X = 1', { X: 1 })).toBe(true);
+    expect(evaluate('X <> 1', { X: 1 })).toBe(false);
+    expect(evaluate('X ≠ 2', { X: 1 })).toBe(true);
+    expect(evaluate('X ≤ 1 and X ≥ 1', { X: 1 })).toBe(true);
+  });
+
+  it('gives arithmetic the usual precedence', () => {
+    expect(evaluate('1 + 2 * 3 == 7')).toBe(true);
+    expect(evaluate('(1 + 2) * 3 == 9')).toBe(true);
+    expect(evaluate('-X + 10 % 4 == 0', { X: 2 })).toBe(true);
+  });
+
+  it('reads chained comparisons as a conjunction', () => {
+    expect(evaluate('1 <= X < 5', { X: 4 })).toBe(true);
+    expect(evaluate('1 <= X < 5', { X: 5 })).toBe(false);
+  });
+
+  it('reads |...| as absolute value', () => {
+    expect(evaluate('|Q1-Q2| != 1', { Q1: 2, Q2: 3 })).toBe(false);
+    expect(evaluate('|Q1 - Q2| + |Q2 - Q1| == 4', { Q1: 1, Q2: 3 })).toBe(true);
+  });
+
+  it('binds not tighter than and, and tighter than or, and implies loosest', () => {
+    expect(evaluate('not X == 1 or X == 1', { X: 1 })).toBe(true);
+    expect(evaluate('X == 1 && Y == 1 => Z == 1', { X: 1, Y: 2, Z: 0 })).toBe(true);
+    expect(evaluate('X == 1 && Y == 1 => Z == 1', { X: 1, Y: 1, Z: 0 })).toBe(false);
+    expect(evaluate('!(X == 1) || Y > 0', { X: 1, Y: 1 })).toBe(true);
+  });
+
+  it('supports membership and the built-in functions', () => {
+    expect(evaluate("C in ['red', 'green']", { C: 'green' })).toBe(true);
+    expect(evaluate('alldifferent(A, B, C)', { A: 1, B: 2, C: 1 })).toBe(false);
+    expect(evaluate('sum([A, B], C) == 6', { A: 1, B: 2, C: 3 })).toBe(true);
+    expect(evaluate('max(A, B) - min(A, B) == abs(A - B)', { A: 7, B: 3 })).toBe(true);
+  });
+
+  it('quotes identifiers with backticks', () => {
+    expect(evaluate('`Task A` < `Task-B`', { 'Task A': 1, 'Task-B': 2 })).toBe(true);
+  });
+
+  it('reports syntax errors with a position', () => {
+    expect(() => parseExpression('X1 !=')).toThrow(ConstraintExpressionError);
+    expect(() => parseExpression('X1 > > 2')).toThrow(
+      expect.objectContaining({ position: 5 }),
+    );
+    expect(() => parseExpression('X1 @ 2')).toThrow(/Unexpected character/);
+    expect(() => parseExpression("X == 'open")).toThrow(/Unterminated string/);
+  });
+
+  it('rejects unknown functions', () => {
+    expect(() => parseExpression('eval(X) == 1')).toThrow(/Unknown function 'eval'/);
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('does not treat a string and a number as equal', () => {
+    expect(evaluate("X == '2'", { X: 2 })).toBe(false);
+  });
+
+  it('orders strings among themselves but not against numbers', () => {
+    expect(evaluate("X < 'b'", { X: 'a' })).toBe(true);
+    expect(() => evaluate('X < 1', { X: 'a' })).toThrow(ConstraintExpressionError);
+  });
+
+  it('throws on division by zero and non-boolean logic', () => {
+    expect(() => evaluate('X / Y == 1', { X: 1, Y: 0 })).toThrow(/Division by zero/);
+    expect(() => evaluate('X and Y', { X: 1, Y: 1 })).toThrow(/needs a condition/);
+  });
+});
+
+describe('expression analysis', () => {
+  it('lists identifiers in order of first use', () => {
+    expect(expressionIdentifiers(parseExpression('B + A > B * C'))).toEqual(['B', 'A', 'C']);
+  });
+
+  it('tells conditions from quantities', () => {
+    expect(isCondition(parseExpression('A + B'))).toBe(false);
+    expect(isCondition(parseExpression('A + B > 2'))).toBe(true);
+    expect(isCondition(parseExpression('distinct(A, B)'))).toBe(true);
+    expect(isCondition(parseExpression('true'))).toBe(true);
+  });
+});
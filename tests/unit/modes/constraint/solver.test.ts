@@ -0,0 +1,284 @@
+/**
+ * CSP solver: compilation, propagation and backtracking search.
+ *
+ * The solver is what lets constraint mode report solutions and infeasibility
+ * it has actually found. These tests check it against problems with known
+ * answers (n-queens, map colouring, SEND-style arithmetic), check that the
+ * three propagation settings agree on the answer while doing different
+ * amounts of work, and check the budgets that keep a large problem from
+ * running away.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileProblem, checkAssignment } from '../../../../src/modes/constraint/problem.js';
+import { ac3, forwardCheck, unsupportedValues } from '../../../../src/modes/constraint/propagation.js';
+import { solveCSP } from '../../../../src/modes/constraint/solver.js';
+import type { CSPConstraint, CSPVariable } from '../../../../src/types/modes/constraint.js';
+
+function variable(id: string, domain: (string | number)[]): CSPVariable {
+  return { id, name: id, domain };
+}
+
+function constraint(id: string, expression: string, extra: Partial<CSPConstraint> = {}): CSPConstraint {
+  return { id, name: id, type: 'binary', variables: [], expression, ...extra };
+}
+
+function queens(n: number) {
+  const ids = Array.from({ length: n }, (_, i) => `Q${i + 1}`);
+  const domain = Array.from({ length: n }, (_, i) => i + 1);
+  const constraints: CSPConstraint[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      constraints.push(constraint(`c${i}${j}`, `Q${i + 1} != Q${j + 1} and |Q${i + 1} - Q${j + 1}| != ${j - i}`));
+    }
+  }
+  return compileProblem(ids.map((id) => variable(id, domain)), constraints);
+}
+
+const australia = () =>
+  compileProblem(
+    ['WA', 'NT', 'SA', 'Q', 'NSW', 'V', 'T'].map((id) => variable(id, ['red', 'green', 'blue'])),
+    [
+      ['WA', 'NT'], ['WA', 'SA'], ['NT', 'SA'], ['NT', 'Q'], ['SA', 'Q'],
+      ['SA', 'NSW'], ['SA', 'V'], ['Q', 'NSW'], ['NSW', 'V'],
+    ].map(([a, b]) => constraint(`${a}-${b}`, `${a} != ${b}`)),
+  );
+
+describe('compileProblem', () => {
+  it('resolves identifiers by id, then by name', () => {
+    const problem = compileProblem(
+      [{ id: 'v1', name: 'Start', domain: [1, 2] }, { id: 'v2', name: 'End', domain: [1, 2] }],
+      [constraint('c1', 'Start < v2')],
+    );
+    expect(problem.errors).toEqual([]);
+    expect(problem.constraints[0].scope).toEqual(['v1', 'v2']);
+  });
+
+  it('lists unreadable constraints without failing the rest', () => {
+    const problem = compileProblem(
+      [variable('A', [1, 2]), variable('B', [1, 2])],
+      [
+        constraint('ok', 'A != B'),
+        constraint('syntax', 'A != '),
+        constraint('unknown', 'A != C'),
+        constraint('quantity', 'A + B'),
+        constraint('empty', ''),
+      ],
+    );
+    expect(problem.constraints.map((c) => c.id)).toEqual(['ok']);
+    expect(problem.errors.map((e) => e.constraintId)).toEqual(['syntax', 'unknown', 'quantity', 'empty']);
+    expect(problem.errors[1].message).toMatch(/Unknown variable C/);
+  });
+
+  it('reads an alldifferent constraint with no expression from its variables', () => {
+    const problem = compileProblem(
+      [variable('A', [1, 2]), variable('B', [1, 2]), variable('C', [1, 2, 3])],
+      [constraint('diff', '', { type: 'alldifferent', variables: ['A', 'B', 'C'] })],
+    );
+    const result = solveCSP(problem, { maxSolutions: 100 });
+    expect(result.solutions).toHaveLength(2);
+    expect(result.solutions.every((s) => s.C === 3)).toBe(true);
+  });
+
+  it('indexes only required constraints by variable', () => {
+    const problem = compileProblem(
+      [variable('A', [1, 2]), variable('B', [1, 2])],
+      [constraint('hard', 'A != B'), constraint('soft', 'A < B', { priority: 'soft' })],
+    );
+    expect(problem.constraintsByVariable.get('A')!.map((c) => c.id)).toEqual(['hard']);
+  });
+});
+
+describe('checkAssignment', () => {
+  it('separates required from soft violations', () => {
+    const problem = compileProblem(
+      [variable('A', [1, 2]), variable('B', [1, 2])],
+      [constraint('hard', 'A != B'), constraint('soft', 'A < B', { priority: 'preference' })],
+    );
+    expect(checkAssignment(problem, { A: 2, B: 1 })).toEqual({
+      isComplete: true,
+      isConsistent: true,
+      violatedConstraints: ['soft'],
+    });
+    expect(checkAssignment(problem, { A: 1 })).toEqual({
+      isComplete: false,
+      isConsistent: true,
+      violatedConstraints: [],
+    });
+    expect(checkAssignment(problem, { A: 1, B: 1 }).isConsistent).toBe(false);
+  });
+});
+
+describe('propagation', () => {
+  it('AC-3 prunes X < Y < Z over 1..3 to a single value each', () => {
+    const problem = compileProblem(
+      ['X', 'Y', 'Z'].map((id) => variable(id, [1, 2, 3])),
+      [constraint('xy', 'X < Y'), constraint('yz', 'Y < Z')],
+    );
+    const domains = new Map(problem.domains);
+    expect(ac3(problem, domains)).toBe(true);
+    expect(Object.fromEntries(domains)).toEqual({ X: [1], Y: [2], Z: [3] });
+  });
+
+  it('AC-3 reports a wipe-out', () => {
+    const problem = compileProblem(
+      [variable('X', [1, 2]), variable('Y', [1, 2])],
+      [constraint('gt', 'X > Y + 1')],
+    );
+    expect(ac3(problem, new Map(problem.domains))).toBe(false);
+  });
+
+  it('enforces unary and n-ary constraints as generalized arc consistency', () => {
+    const problem = compileProblem(
+      ['A', 'B', 'C'].map((id) => variable(id, [1, 2, 3, 4])),
+      [constraint('u', 'A >= 3', { type: 'unary' }), constraint('s', 'A + B + C == 6', { type: 'n_ary' })],
+    );
+    const domains = new Map(problem.domains);
+    ac3(problem, domains);
+    expect(domains.get('A')).toEqual([3, 4]);
+    expect(domains.get('B')).toEqual([1, 2]);
+  });
+
+  it('skips support searches that would be too large instead of guessing', () => {
+    const big = Array.from({ length: 30 }, (_, i) => i);
+    const problem = compileProblem(
+      ['A', 'B', 'C', 'D'].map((id) => variable(id, big)),
+      [constraint('s', 'A + B + C + D == 0', { type: 'n_ary' })],
+    );
+    expect(unsupportedValues(problem.constraints[0], 'A', problem.domains)).toBeNull();
+  });
+
+  it('forward checking prunes only constraints left with one open variable', () => {
+    const problem = compileProblem(
+      ['A', 'B', 'C'].map((id) => variable(id, [1, 2, 3])),
+      [constraint('ab', 'A != B'), constraint('abc', 'A + B + C == 6', { type: 'n_ary' })],
+    );
+    const domains = new Map(problem.domains);
+    domains.set('A', [1]);
+    expect(forwardCheck(problem, domains, new Map([['A', 1]]), 'A')).toBe(true);
+    expect(domains.get('B')).toEqual([2, 3]);
+    expect(domains.get('C')).toEqual([1, 2, 3]);
+  });
+});
+
+describe('solveCSP', () => {
+  it('finds both solutions of 4-queens', () => {
+    const result = solveCSP(queens(4), { maxSolutions: 100 });
+    expect(result.status).toBe('found');
+    expect(result.exhaustive).toBe(true);
+    expect(result.solutions).toEqual(
+      expect.arrayContaining([
+        { Q1: 2, Q2: 4, Q3: 1, Q4: 3 },
+        { Q1: 3, Q2: 1, Q3: 4, Q4: 2 },
+      ]),
+    );
+    expect(result.solutions).toHaveLength(2);
+  });
+
+  it('proves 3-queens infeasible', () => {
+    const result = solveCSP(queens(3));
+    expect(result.status).toBe('infeasible');
+    expect(result.exhaustive).toBe(true);
+    expect(result.solutions).toEqual([]);
+  });
+
+  it('agrees across propagation methods, with stronger propagation trying fewer nodes', () => {
+    const counts = (['none', 'forward_checking', 'arc_consistency'] as const).map((propagation) => {
+      const result = solveCSP(queens(6), { propagation, maxSolutions: 100 });
+      expect(result.solutions).toHaveLength(4);
+      return result.nodes;
+    });
+    expect(counts[1]).toBeLessThan(counts[0]);
+    expect(counts[2]).toBeLessThanOrEqual(counts[1]);
+  });
+
+  it('colours the map of Australia with three colours', () => {
+    const problem = australia();
+    const result = solveCSP(problem, { maxSolutions: 1 });
+    expect(result.status).toBe('found');
+    const [solution] = result.solutions;
+    expect(checkAssignment(problem, solution).isConsistent).toBe(true);
+    expect(Object.keys(solution)).toEqual(['WA', 'NT', 'SA', 'Q', 'NSW', 'V', 'T']);
+    expect(result.exhaustive).toBe(false);
+  });
+
+  it('solves an arithmetic puzzle with an alldifferent and a sum', () => {
+    // TWO + TWO = FOUR with distinct digits, T and F non-zero
+    const digits = Array.from({ length: 10 }, (_, i) => i);
+    const problem = compileProblem(
+      ['T', 'W', 'O', 'F', 'U', 'R'].map((id) => variable(id, digits)),
+      [
+        constraint('distinct', 'alldifferent(T, W, O, F, U, R)', { type: 'alldifferent' }),
+        constraint('sum', '2 * (100*T + 10*W + O) == 1000*F + 100*O + 10*U + R', { type: 'n_ary' }),
+        constraint('lead', 'T != 0 and F != 0', { type: 'n_ary' }),
+      ],
+    );
+    const result = solveCSP(problem, { maxSolutions: 1 });
+    expect(result.status).toBe('found');
+    const s = result.solutions[0] as Record<string, number>;
+    expect(2 * (100 * s.T + 10 * s.W + s.O)).toBe(1000 * s.F + 100 * s.O + 10 * s.U + s.R);
+  });
+
+  it('ignores soft constraints while searching', () => {
+    const problem = compileProblem(
+      [variable('A', [1, 2])],
+      [constraint('pref', 'A == 3', { type: 'unary', priority: 'soft' })],
+    );
+    expect(solveCSP(problem, { maxSolutions: 10 }).solutions).toHaveLength(2);
+  });
+
+  it('is infeasible on an empty domain or a false constant constraint', () => {
+    expect(solveCSP(compileProblem([variable('A', [])], [])).status).toBe('infeasible');
+    expect(
+      solveCSP(compileProblem([variable('A', [1])], [constraint('never', '1 == 2')])).status,
+    ).toBe('infeasible');
+  });
+
+  it('prefers the most constrained variable (MRV)', () => {
+    const problem = compileProblem(
+      [variable('Wide', [1, 2, 3, 4]), variable('Narrow', [1, 2])],
+      [constraint('c', 'Wide != Narrow')],
+    );
+    const result = solveCSP(problem, { propagation: 'none' });
+    expect(result.history[0].variableId).toBe('Narrow');
+  });
+
+  it('breaks MRV ties by degree', () => {
+    const problem = compileProblem(
+      ['A', 'Hub', 'B', 'C'].map((id) => variable(id, [1, 2, 3])),
+      [constraint('ha', 'Hub != A'), constraint('hb', 'Hub != B'), constraint('hc', 'Hub != C')],
+    );
+    const result = solveCSP(problem, { propagation: 'none' });
+    expect(result.history[0].variableId).toBe('Hub');
+  });
+
+  it('tries the least constraining value first (LCV)', () => {
+    // X = 1 leaves Y every value; X = 3 rules most of them out
+    const problem = compileProblem(
+      [variable('X', [3, 2, 1]), variable('Y', [1, 2, 3, 4])],
+      [constraint('c', 'Y >= X')],
+    );
+    const result = solveCSP(problem, { propagation: 'none', maxSolutions: 1 });
+    expect(result.history[0]).toMatchObject({ variableId: 'X', value: 1 });
+  });
+
+  it('records backtracks in the assignment history', () => {
+    const result = solveCSP(queens(5), { propagation: 'none', maxSolutions: 1 });
+    expect(result.backtracks).toBeGreaterThan(0);
+    expect(result.history.filter((h) => h.backtracked)).toHaveLength(result.backtracks);
+    expect(result.history.map((h) => h.step)).toEqual(result.history.map((_, i) => i + 1));
+  });
+
+  it('times out when the node budget runs out before an answer', () => {
+    const result = solveCSP(queens(8), { propagation: 'none', maxNodes: 5 });
+    expect(result.status).toBe('timeout');
+    expect(result.exhaustive).toBe(false);
+    expect(result.nodes).toBe(5);
+  });
+
+  it('caps the assignment history', () => {
+    const result = solveCSP(queens(6), { propagation: 'none', historyLimit: 10, maxSolutions: 100 });
+    expect(result.history).toHaveLength(10);
+    expect(result.nodes).toBeGreaterThan(10);
+  });
+});
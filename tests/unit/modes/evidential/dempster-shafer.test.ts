@@ -0,0 +1,189 @@
+/**
+ * Dempster-Shafer belief functions.
+ *
+ * Belief, plausibility and pignistic probability are checked on a small
+ * mass function whose values can be summed by hand. Combination is checked
+ * on the textbook cases: two agreeing sources, where the rules coincide, and
+ * Zadeh's two doctors, where Dempster's rule hands all belief to the
+ * diagnosis both think nearly impossible while Yager's rule and PCR5 do not.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TotalConflictError,
+  belief,
+  beliefIntervals,
+  combine,
+  pignistic,
+  pignisticDistribution,
+  plausibility,
+  readMassFunction,
+} from '../../../../src/modes/evidential/dempster-shafer.js';
+import type { MassFunction } from '../../../../src/modes/evidential/types.js';
+
+const frame = ['a', 'b', 'c'];
+
+function masses(m: MassFunction): Record<string, number> {
+  return Object.fromEntries(m.focal.map((f) => [f.set.join(''), f.mass]));
+}
+
+const m = readMassFunction(frame, [
+  { hypothesisSet: ['a'], mass: 0.5 },
+  { hypothesisSet: ['b', 'a'], mass: 0.3 },
+  { hypothesisSet: ['a', 'b', 'c'], mass: 0.2 },
+]);
+
+describe('readMassFunction', () => {
+  it('writes each set in frame order and adds up repeated sets', () => {
+    const repeated = readMassFunction(frame, [
+      { hypothesisSet: ['b', 'a'], mass: 0.25 },
+      { hypothesisSet: ['a', 'b'], mass: 0.25 },
+      { hypothesisSet: ['c'], mass: 0.5 },
+      { hypothesisSet: ['a'], mass: 0 },
+    ]);
+    expect(repeated.focal).toEqual([
+      { set: ['a', 'b'], mass: 0.5 },
+      { set: ['c'], mass: 0.5 },
+    ]);
+  });
+
+  it('rejects a hypothesis outside the frame', () => {
+    expect(() => readMassFunction(frame, [{ hypothesisSet: ['d'], mass: 1 }])).toThrow(
+      "'d' is not in the frame of discernment",
+    );
+  });
+});
+
+describe('belief, plausibility and pignistic probability', () => {
+  it('sums the mass inside a set for Bel and meeting it for Pl', () => {
+    expect(belief(m, ['a'])).toBeCloseTo(0.5);
+    expect(belief(m, ['a', 'b'])).toBeCloseTo(0.8);
+    expect(belief(m, ['b'])).toBe(0);
+    expect(plausibility(m, ['b'])).toBeCloseTo(0.5);
+    expect(plausibility(m, ['c'])).toBeCloseTo(0.2);
+    expect(belief(m, frame)).toBeCloseTo(1);
+  });
+
+  it('shares each focal mass evenly for BetP', () => {
+    const betP = pignisticDistribution(m);
+    expect(betP.a).toBeCloseTo(0.5 + 0.15 + 0.2 / 3);
+    expect(betP.b).toBeCloseTo(0.15 + 0.2 / 3);
+    expect(betP.c).toBeCloseTo(0.2 / 3);
+    expect(pignistic(m, ['b', 'c'])).toBeCloseTo(betP.b + betP.c);
+  });
+
+  it('gives Bel ≤ BetP ≤ Pl for every focal set and every hypothesis', () => {
+    const intervals = beliefIntervals(m);
+    expect(intervals.map((i) => i.set.join(''))).toEqual(['a', 'ab', 'abc', 'b', 'c']);
+    for (const { belief: bel, plausibility: pl, pignistic: betP } of intervals) {
+      expect(bel).toBeLessThanOrEqual(betP + 1e-12);
+      expect(betP).toBeLessThanOrEqual(pl + 1e-12);
+    }
+  });
+
+  it('renormalises BetP when a function keeps mass on the empty set', () => {
+    const open = readMassFunction(frame, [
+      { hypothesisSet: [], mass: 0.5 },
+      { hypothesisSet: ['a'], mass: 0.5 },
+    ]);
+    expect(pignistic(open, ['a'])).toBeCloseTo(1);
+    expect(() => pignistic(readMassFunction(frame, [{ hypothesisSet: [], mass: 1 }]), ['a'])).toThrow(
+      TotalConflictError,
+    );
+  });
+});
+
+describe('combine', () => {
+  const radar = readMassFunction(frame, [
+    { hypothesisSet: ['a'], mass: 0.6 },
+    { hypothesisSet: frame, mass: 0.4 },
+  ]);
+  const infrared = readMassFunction(frame, [
+    { hypothesisSet: ['a', 'b'], mass: 0.7 },
+    { hypothesisSet: frame, mass: 0.3 },
+  ]);
+
+  it('agrees across the rules when the sources do not conflict', () => {
+    for (const rule of ['dempster', 'yager', 'pcr5'] as const) {
+      const result = combine([radar, infrared], rule);
+      expect(result.conflict).toBe(0);
+      const combined = masses(result.mass);
+      expect(combined.a).toBeCloseTo(0.6);
+      expect(combined.ab).toBeCloseTo(0.28);
+      expect(combined.abc).toBeCloseTo(0.12);
+    }
+  });
+
+  it("normalises the conflict away under Dempster's rule", () => {
+    const other = readMassFunction(frame, [
+      { hypothesisSet: ['b'], mass: 0.5 },
+      { hypothesisSet: frame, mass: 0.5 },
+    ]);
+    const result = combine([radar, other]);
+    expect(result.rule).toBe('dempster');
+    expect(result.conflict).toBeCloseTo(0.3);
+    const combined = masses(result.mass);
+    expect(combined.a).toBeCloseTo(0.3 / 0.7);
+    expect(combined.b).toBeCloseTo(0.2 / 0.7);
+    expect(combined.abc).toBeCloseTo(0.2 / 0.7);
+  });
+
+  it('combines three sources at once, in any order, by an associative rule', () => {
+    const visual = readMassFunction(frame, [
+      { hypothesisSet: ['b'], mass: 0.3 },
+      { hypothesisSet: frame, mass: 0.7 },
+    ]);
+    for (const rule of ['dempster', 'yager'] as const) {
+      const forward = combine([radar, infrared, visual], rule);
+      const backward = combine([visual, infrared, radar], rule);
+      expect(forward.conflict).toBeCloseTo(0.18);
+      expect(backward.conflict).toBeCloseTo(forward.conflict);
+      for (const [set, mass] of Object.entries(masses(forward.mass))) {
+        expect(masses(backward.mass)[set]).toBeCloseTo(mass);
+      }
+    }
+  });
+
+  describe("Zadeh's two doctors", () => {
+    // Meningitis, concussion, brain tumour: each doctor all but rules out the
+    // tumour, and they disagree about everything else
+    const doctor1 = readMassFunction(frame, [
+      { hypothesisSet: ['a'], mass: 0.99 },
+      { hypothesisSet: ['c'], mass: 0.01 },
+    ]);
+    const doctor2 = readMassFunction(frame, [
+      { hypothesisSet: ['b'], mass: 0.99 },
+      { hypothesisSet: ['c'], mass: 0.01 },
+    ]);
+
+    it("gives Dempster's rule certainty in the tumour", () => {
+      const result = combine([doctor1, doctor2], 'dempster');
+      expect(result.conflict).toBeCloseTo(0.9999, 10);
+      expect(result.mass.focal).toEqual([{ set: ['c'], mass: 1 }]);
+    });
+
+    it("leaves Yager's rule all but ignorant", () => {
+      const combined = masses(combine([doctor1, doctor2], 'yager').mass);
+      expect(combined.c).toBeCloseTo(0.0001, 10);
+      expect(combined.abc).toBeCloseTo(0.9999, 10);
+    });
+
+    it('returns each conflicting product to the diagnoses under PCR5', () => {
+      const result = combine([doctor1, doctor2], 'pcr5');
+      const combined = masses(result.mass);
+      expect(result.conflict).toBeCloseTo(0.9999, 10);
+      expect(combined.a).toBeCloseTo(0.499851, 10);
+      expect(combined.b).toBeCloseTo(0.499851, 10);
+      expect(combined.c).toBeCloseTo(0.000298, 10);
+      expect(combined.a + combined.b + combined.c).toBeCloseTo(1, 12);
+    });
+  });
+
+  it('throws on total conflict under Dempster, but not Yager or PCR5', () => {
+    const onlyA = readMassFunction(frame, [{ hypothesisSet: ['a'], mass: 1 }]);
+    const onlyB = readMassFunction(frame, [{ hypothesisSet: ['b'], mass: 1 }]);
+    expect(() => combine([onlyA, onlyB], 'dempster')).toThrow(TotalConflictError);
+    expect(masses(combine([onlyA, onlyB], 'yager').mass)).toEqual({ abc: 1 });
+    expect(masses(combine([onlyA, onlyB], 'pcr5').mass)).toEqual({ a: 0.5, b: 0.5 });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * First-order formula syntax.
+ *
+ * The parser must decide two things the propositional one never had to:
+ * how far a quantifier reaches, and whether a name in a term is a variable
+ * or a constant. Both are pinned here, along with the round trip through
+ * each notation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatFirstOrder, parseFirstOrder } from '../../../../src/modes/formallogic/first-order.js';
+
+const roundTrip = (source: string) => formatFirstOrder(parseFirstOrder(source));
+
+describe('parseFirstOrder', () => {
+  it('reads predicates, functions and constants', () => {
+    expect(parseFirstOrder('Loves(john, mother(x0))')).toEqual({
+      type: 'atom',
+      predicate: 'Loves',
+      args: [
+        { type: 'function', name: 'john', args: [] },
+        { type: 'function', name: 'mother', args: [{ type: 'function', name: 'x0', args: [] }] },
+      ],
+    });
+    expect(parseFirstOrder('Greater(2, 1)')).toMatchObject({ args: [{ name: '2' }, { name: '1' }] });
+    expect(parseFirstOrder('rain')).toEqual({ type: 'atom', predicate: 'rain', args: [] });
+  });
+
+  it('reads a name as a variable only where a quantifier binds it', () => {
+    const formula = parseFirstOrder('∀x P(x) ∧ Q(x)');
+    expect(formula).toMatchObject({
+      type: 'binary',
+      operator: 'and',
+      left: { type: 'quantifier', body: { args: [{ type: 'variable', name: 'x' }] } },
+      right: { args: [{ type: 'function', name: 'x' }] },
+    });
+  });
+
+  it('extends the scope of a quantifier after a dot or colon', () => {
+    expect(roundTrip('∀x. P(x) → Q(x)')).toBe('∀x (P(x) → Q(x))');
+    expect(roundTrip('∃y: P(y) & ~Q(y)')).toBe('∃y (P(y) ∧ ¬Q(y))');
+    expect(roundTrip('∀x P(x) → Q(x)')).toBe('∀x P(x) → Q(x)');
+  });
+
+  it('reads several variables and every notation', () => {
+    expect(roundTrip('∀x, y R(x, y)')).toBe('∀x ∀y R(x, y)');
+    expect(roundTrip('forall x exists y. R(x,y) or not R(y,x)')).toBe('∀x ∃y (R(x, y) ∨ ¬R(y, x))');
+    expect(roundTrip('\\forall x\\, (P(x) \\to \\exists y\\, R(x, y))')).toBe('∀x (P(x) → ∃y R(x, y))');
+  });
+
+  it('writes each notation back so it reads the same', () => {
+    const source = '∀x (Man(x) → ∃y (Parent(y, x) ∧ ¬Man(f(y))))';
+    for (const notation of ['unicode', 'ascii', 'latex'] as const) {
+      const text = formatFirstOrder(parseFirstOrder(source), notation);
+      expect(parseFirstOrder(text)).toEqual(parseFirstOrder(source));
+    }
+    expect(formatFirstOrder(parseFirstOrder(source), 'ascii')).toBe(
+      'forall x (Man(x) -> exists y (Parent(y, x) & ~Man(f(y))))',
+    );
+  });
+
+  it('reports where reading fails', () => {
+    expect(() => parseFirstOrder('∀(P(x))')).toThrow("Expected a variable but found '(' at 1");
+    expect(() => parseFirstOrder('P(x,)')).toThrow("Expected a term but found ')' at 4");
+    expect(() => parseFirstOrder('All men are mortal')).toThrow("Unexpected 'men' at 4");
+    expect(() => parseFirstOrder('x = y')).toThrow("Unexpected character '=' at 2");
+  });
+});
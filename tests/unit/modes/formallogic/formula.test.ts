@@ -0,0 +1,103 @@
+/**
+ * Reading and writing propositional formulas.
+ *
+ * The same formula is written in the ASCII, Unicode and LaTeX syntaxes and
+ * must read to the same tree; precedence and associativity are pinned with
+ * formulas whose grouping changes their meaning. Writing a formula back out
+ * and reading it again must give the tree it came from.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FormulaSyntaxError,
+  evaluateFormula,
+  formatFormula,
+  formulaVariables,
+  parseFormula,
+} from '../../../../src/modes/formallogic/formula.js';
+
+describe('parseFormula', () => {
+  it('reads the ASCII, Unicode and LaTeX syntaxes alike', () => {
+    const expected = parseFormula('~(p & q) <-> ~p | ~q');
+    for (const source of [
+      '¬(p ∧ q) ↔ ¬p ∨ ¬q',
+      '\\neg (p \\land q) \\leftrightarrow \\lnot p \\lor \\neg q',
+      '!(p && q) <=> !p || !q',
+      'not (p and q) iff not p or not q',
+      'NOT (p /\\ q) IFF NOT p \\/ NOT q',
+      '\\neg \\left( p \\wedge q \\right) \\iff \\neg p \\vee \\neg q',
+    ]) {
+      expect(parseFormula(source)).toEqual(expected);
+    }
+  });
+
+  it('binds not, and, or, implies, iff from tightest to loosest', () => {
+    expect(formatFormula(parseFormula('~p & q | r -> s <-> t'))).toBe('¬p ∧ q ∨ r → s ↔ t');
+    expect(parseFormula('~p & q | r -> s <-> t')).toEqual(parseFormula('((((~p) & q) | r) -> s) <-> t'));
+  });
+
+  it('groups implication to the right', () => {
+    expect(parseFormula('p -> q -> r')).toEqual(parseFormula('p -> (q -> r)'));
+  });
+
+  it('reads constants, subscripts and the derived connectives', () => {
+    expect(parseFormula('p_{1} ⊕ ⊤')).toEqual({
+      type: 'binary',
+      operator: 'xor',
+      left: { type: 'variable', name: 'p_1' },
+      right: { type: 'constant', value: true },
+    });
+    expect(parseFormula('p nand q ⊽ \\bot')).toEqual(parseFormula('(p ⊼ q) nor false'));
+    expect(parseFormula('[p → q] ⇒ 0')).toEqual(parseFormula('(p -> q) -> false'));
+  });
+
+  it('reports where a formula goes wrong', () => {
+    expect(() => parseFormula('p -> -> q')).toThrow("Unexpected '->' at 5");
+    expect(() => parseFormula('(p & q')).toThrow("Expected ')' but found end of formula");
+    expect(() => parseFormula('p \\mapsto q')).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula('p # q')).toThrow("Unexpected character '#' at 2");
+  });
+});
+
+describe('formatFormula', () => {
+  const sources = ['p -> (q -> r)', '(p -> q) -> r', 'p & (q | r)', '~(p <-> q) xor r', '(p nand q) nand r', '~~p'];
+
+  it('writes back a formula that reads to the same tree', () => {
+    for (const source of sources) {
+      const formula = parseFormula(source);
+      for (const notation of ['unicode', 'ascii', 'latex'] as const) {
+        expect(parseFormula(formatFormula(formula, notation))).toEqual(formula);
+      }
+    }
+  });
+
+  it('keeps only the parentheses precedence needs', () => {
+    expect(formatFormula(parseFormula('(p -> q) -> r'))).toBe('(p → q) → r');
+    expect(formatFormula(parseFormula('p -> (q -> r)'))).toBe('p → q → r');
+    expect(formatFormula(parseFormula('(p & q) & r'))).toBe('p ∧ q ∧ r');
+    expect(formatFormula(parseFormula('p & (q | r)'), 'latex')).toBe('p \\land (q \\lor r)');
+    expect(formatFormula(parseFormula('~(p | q)'), 'ascii')).toBe('~(p | q)');
+  });
+});
+
+describe('evaluateFormula', () => {
+  it('evaluates every connective', () => {
+    const cases: [string, boolean][] = [
+      ['p & q', false],
+      ['p | q', true],
+      ['p -> q', false],
+      ['q -> p', true],
+      ['p <-> q', false],
+      ['p xor q', true],
+      ['p nand q', true],
+      ['p nor q', false],
+    ];
+    for (const [source, value] of cases) {
+      expect(evaluateFormula(parseFormula(source), { p: true, q: false })).toBe(value);
+    }
+  });
+
+  it('lists variables in order of first use', () => {
+    expect(formulaVariables(parseFormula('(r -> p) & q | r'))).toEqual(['r', 'p', 'q']);
+  });
+});
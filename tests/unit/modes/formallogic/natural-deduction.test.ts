@@ -0,0 +1,251 @@
+/**
+ * Natural-deduction proof checking.
+ *
+ * Each rule is exercised by a short textbook proof that must check, and by a
+ * near miss that must fail at the right step with a reason naming what is
+ * missing. Subproof scope is the subtle part: a line inside a closed
+ * subproof may not be cited, a subproof may only be cited whole, and an
+ * assumption no rule discharges stays open.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkNaturalDeduction, identifyRule } from '../../../../src/modes/formallogic/natural-deduction.js';
+import type { DeductionStep } from '../../../../src/modes/formallogic/types.js';
+
+function step(
+  stepNumber: number,
+  formula: string,
+  justification: string,
+  referencesSteps: number[] = [],
+  extra: Partial<DeductionStep> = {},
+): DeductionStep {
+  return { stepNumber, statement: formula, justification, referencesSteps, ...extra };
+}
+
+describe('identifyRule', () => {
+  it('reads rule names in the usual notations', () => {
+    const cases: [string, string][] = [
+      ['∧I', 'and_intro'],
+      ['&E 1', 'and_elim'],
+      ['->intro', 'implies_intro'],
+      ['\\lor elim', 'or_elim'],
+      ['not-E', 'not_elim'],
+      ['⊥E', 'explosion'],
+      ['¬¬E', 'double_negation'],
+      ['↔I', 'iff_intro'],
+      ['MP 1, 2', 'implies_elim'],
+      ['Modus tollens', 'modus_tollens'],
+      ['RAA', 'reductio'],
+      ['Proof by contradiction', 'reductio'],
+      ['R 3', 'reiteration'],
+      ['Given', 'premise'],
+      ['Assumption for CP', 'assumption'],
+      ['conjunction elimination', 'and_elim'],
+    ];
+    for (const [justification, rule] of cases) {
+      expect(identifyRule({ stepNumber: 1, justification })).toBe(rule);
+    }
+  });
+
+  it('prefers the rule field and the assumption flag', () => {
+    expect(identifyRule({ stepNumber: 1, rule: 'modus_ponens', justification: '∧I' })).toBe('implies_elim');
+    expect(identifyRule({ stepNumber: 1, rule: 'conditional_proof' })).toBe('implies_intro');
+    expect(identifyRule({ stepNumber: 1, isAssumption: true, justification: 'MP' })).toBe('assumption');
+    expect(identifyRule({ stepNumber: 1, justification: 'by intuition' })).toBeUndefined();
+  });
+});
+
+describe('checkNaturalDeduction', () => {
+  it('checks hypothetical syllogism derived by →I', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p -> q', 'Premise'),
+      step(2, 'q -> r', 'Premise'),
+      step(3, 'p', 'Assumption'),
+      step(4, 'q', '→E', [1, 3]),
+      step(5, 'r', '→E', [2, 4]),
+      step(6, 'p -> r', '→I', [3, 5]),
+    ]);
+
+    expect(check.verified).toBe(true);
+    expect(check.sequent).toBe('p → q, q → r ⊢ p → r');
+    expect(check.steps.map((s) => s.depth)).toEqual([0, 0, 1, 1, 1, 0]);
+    expect(check.premises).toEqual([1, 2]);
+  });
+
+  it('checks ∨-elimination over two subproofs', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p | q', 'Premise'),
+      step(2, 'p', 'Assumption'),
+      step(3, 'q | p', '∨I', [2]),
+      step(4, 'q', 'Assumption'),
+      step(5, 'q | p', '∨I', [4]),
+      step(6, 'q | p', '∨E', [1, 2, 3, 4, 5]),
+    ]);
+    expect(check.sequent).toBe('p ∨ q ⊢ q ∨ p');
+  });
+
+  it('checks reductio and ¬-introduction', () => {
+    expect(
+      checkNaturalDeduction([
+        step(1, '~~p', 'Premise'),
+        step(2, '~p', 'Assumption'),
+        step(3, '⊥', '¬E', [1, 2]),
+        step(4, 'p', 'RAA', [2, 3]),
+      ]).sequent,
+    ).toBe('¬¬p ⊢ p');
+
+    expect(
+      checkNaturalDeduction([
+        step(1, 'p -> q', 'Premise'),
+        step(2, '~q', 'Premise'),
+        step(3, 'p', 'Assumption'),
+        step(4, 'q', 'MP', [1, 3]),
+        step(5, '⊥', 'contradiction', [2, 4]),
+        step(6, '~p', '¬I', [3, 5]),
+      ]).sequent,
+    ).toBe('p → q, ¬q ⊢ ¬p');
+  });
+
+  it('checks the derived rules', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p | q', 'Premise'),
+      step(2, '~p | r', 'Premise'),
+      step(3, 'q | r', 'Resolution', [1, 2]),
+      step(4, 'p -> s', 'Premise'),
+      step(5, '~s', 'Premise'),
+      step(6, '~p', 'MT', [4, 5]),
+      step(7, 'q', 'DS', [1, 6]),
+      step(8, 's -> t', 'Premise'),
+      step(9, 'p -> t', 'HS', [4, 8]),
+      step(10, 's | ~s', 'LEM'),
+      step(11, '(p -> s) & (s -> t)', '∧I', [4, 8]),
+      step(12, 's -> t', '∧E', [11]),
+    ]);
+    expect(check.firstInvalid).toBeUndefined();
+    expect(check.verified).toBe(true);
+  });
+
+  it('accepts a subproof named by dischargesAssumption', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'q', 'Premise'),
+      step(2, 'p', 'Assumption'),
+      step(3, 'q', 'Reit', [1]),
+      step(4, 'p -> q', 'CP', [3], { dischargesAssumption: 2 }),
+    ]);
+    expect(check.sequent).toBe('q ⊢ p → q');
+  });
+
+  it('reports the first step that does not follow, and why', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p -> q', 'Premise'),
+      step(2, 'q', 'Premise'),
+      step(3, 'p', 'MP', [1, 2]),
+      step(4, 'p & q', '∧I', [2]),
+    ]);
+
+    expect(check.verified).toBe(false);
+    expect(check.firstInvalid).toEqual({
+      stepNumber: 3,
+      rule: 'implies_elim',
+      reason: 'Modus ponens needs a cited conditional with consequent p',
+    });
+    expect(check.steps[3].reason).toBe('∧-introduction needs p among the cited steps');
+  });
+
+  it('names what each rule is missing', () => {
+    const reason = (steps: DeductionStep[]) => checkNaturalDeduction(steps).firstInvalid?.reason;
+
+    expect(reason([step(1, 'p -> q', 'Premise'), step(2, 'q', '→E', [1])])).toBe(
+      'Modus ponens from p → q needs its antecedent p among the cited steps',
+    );
+    expect(reason([step(1, 'q', 'Premise'), step(2, 'p', 'Assumption'), step(3, 'q -> p', '→I', [2, 1])])).toBe(
+      'The subproof from p to p gives p → p, not q → p',
+    );
+    expect(reason([step(1, 'p', 'Premise'), step(2, 'p & q', '∨I', [1])])).toBe(
+      '∨-introduction derives a disjunction, not p ∧ q',
+    );
+    expect(reason([step(1, 'p | q', 'Premise'), step(2, 'p', 'Assumption'), step(3, 'p', '∨E', [1, 2])])).toBe(
+      '∨-elimination from p ∨ q needs a subproof from q to p',
+    );
+  });
+
+  it('forbids citing inside a closed subproof', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p', 'Assumption'),
+      step(2, 'p | q', '∨I', [1]),
+      step(3, 'p -> p | q', '→I', [1, 2]),
+      step(4, 'p | q', 'R', [2]),
+    ]);
+    expect(check.firstInvalid).toMatchObject({
+      stepNumber: 4,
+      reason: 'Step 2 is inside the subproof from step 1, which closed at step 2',
+    });
+  });
+
+  it('forbids closing a subproof while one inside it is open', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p', 'Assumption'),
+      step(2, 'q', 'Assumption'),
+      step(3, 'p', 'R', [1]),
+      step(4, 'p -> p', '→I', [1, 3]),
+    ]);
+    expect(check.firstInvalid!.reason).toBe(
+      'The subproof from step 2 is still open at step 3, where the subproof from step 1 ends',
+    );
+  });
+
+  it('keeps undischarged assumptions open', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'p -> q', 'Premise'),
+      step(2, 'p', 'Assumption'),
+      step(3, 'q', 'MP', [1, 2]),
+    ]);
+    expect(check.verified).toBe(true);
+    expect(check.openAssumptions).toEqual([2]);
+    expect(check.sequent).toBeUndefined();
+  });
+
+  it('rejects premises inside subproofs and bad citations', () => {
+    expect(checkNaturalDeduction([step(1, 'p', 'Assumption'), step(2, 'q', 'Premise')]).firstInvalid!.reason).toBe(
+      'A premise cannot sit inside the subproof from step 1',
+    );
+    expect(checkNaturalDeduction([step(1, 'p', 'Premise'), step(2, 'p | q', '∨I', [7])]).firstInvalid!.reason).toBe(
+      'Cites step 7, which does not exist',
+    );
+    expect(checkNaturalDeduction([step(1, 'p | q', '∨I', [2]), step(2, 'p', 'Premise')]).firstInvalid!.reason).toBe(
+      'Cites step 2, which does not come before it',
+    );
+  });
+
+  it('leaves prose steps unchecked rather than invalid', () => {
+    const check = checkNaturalDeduction([
+      step(1, 'All men are mortal', 'Premise'),
+      step(2, 'Socrates is a man', 'Premise'),
+      step(3, 'Socrates is mortal', 'Universal instantiation', [1, 2]),
+    ]);
+
+    expect(check.firstInvalid).toBeUndefined();
+    expect(check.verified).toBe(false);
+    expect(check.steps.map((s) => s.status)).toEqual(['unchecked', 'unchecked', 'unchecked']);
+    expect(check.steps[0].reason).toMatch(/^Formula cannot be read: /);
+    expect(check.steps[2].reason).toMatch(/^Formula cannot be read: /);
+  });
+
+  it('reads citations from the justification when referencesSteps is absent', () => {
+    const check = checkNaturalDeduction([
+      { stepNumber: 1, statement: 'p -> q', justification: 'Premise' },
+      { stepNumber: 2, statement: 'p', justification: 'Assumption' },
+      { stepNumber: 3, statement: 'q', justification: 'Modus Ponens (1, 2)' },
+      { stepNumber: 4, statement: 'p -> q', justification: '→I 2–3' },
+    ]);
+    expect(check.sequent).toBe('p → q ⊢ p → q');
+  });
+
+  it('reads the formula field before the statement', () => {
+    const check = checkNaturalDeduction([
+      { stepNumber: 1, statement: 'It rains', formula: 'r', justification: 'Premise' },
+      { stepNumber: 2, statement: 'It rains or snows', formula: 'r | s', justification: '∨I', referencesSteps: [1] },
+    ]);
+    expect(check.sequent).toBe('r ⊢ r ∨ s');
+  });
+});
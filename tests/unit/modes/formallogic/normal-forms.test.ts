@@ -0,0 +1,104 @@
+/**
+ * Normal forms and truth tables.
+ *
+ * Every normal form must be equivalent to the formula it came from, which is
+ * checked row by row against the truth table; the exact output is pinned
+ * only where simplification (dropping tautological and subsumed clauses) is
+ * the point of the test.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateFormula, formatFormula, parseFormula } from '../../../../src/modes/formallogic/formula.js';
+import { toCNF, toDNF, toNNF } from '../../../../src/modes/formallogic/normal-forms.js';
+import { buildTruthTable } from '../../../../src/modes/formallogic/truth-table.js';
+import type { Formula } from '../../../../src/modes/formallogic/types.js';
+
+function expectEquivalent(original: Formula, normal: Formula) {
+  for (const row of buildTruthTable(original).rows) {
+    expect(evaluateFormula(normal, row.assignment)).toBe(row.value);
+  }
+}
+
+const formulas = [
+  '(p -> q) <-> (~q -> ~p)',
+  'p xor q xor r',
+  '(p nand q) nor (r -> p)',
+  '~(p & (q | ~r)) -> (r <-> p)',
+];
+
+describe('toNNF', () => {
+  it('leaves negations on variables only', () => {
+    for (const source of formulas) {
+      const nnf = toNNF(parseFormula(source))!;
+      expect(formatFormula(nnf)).not.toMatch(/[→↔⊕⊼⊽]|¬\(/);
+      expectEquivalent(parseFormula(source), nnf);
+    }
+  });
+
+  it('folds constants away', () => {
+    expect(formatFormula(toNNF(parseFormula('(p & ⊤) | (q & ⊥)'))!)).toBe('p');
+  });
+
+  it('gives up on a formula too large to rewrite', () => {
+    const nested = parseFormula('p <-> (q <-> (r <-> (s <-> t)))');
+
+    expect(toNNF(nested, 40)).toBeUndefined();
+    expectEquivalent(nested, toNNF(nested, 100)!);
+    expect(toCNF(parseFormula(Array(30).fill('p').join(' <-> ')))).toBeUndefined();
+  });
+});
+
+describe('toCNF and toDNF', () => {
+  it('give equivalent formulas', () => {
+    for (const source of formulas) {
+      const formula = parseFormula(source);
+      expectEquivalent(formula, toCNF(formula)!);
+      expectEquivalent(formula, toDNF(formula)!);
+    }
+  });
+
+  it('distribute and drop redundant clauses', () => {
+    expect(formatFormula(toCNF(parseFormula('(a & b) | (c & d)'))!)).toBe('(a ∨ c) ∧ (a ∨ d) ∧ (b ∨ c) ∧ (b ∨ d)');
+    expect(formatFormula(toCNF(parseFormula('p & (p | q)'))!)).toBe('p');
+    expect(formatFormula(toDNF(parseFormula('(p & q) | (p & ~p) | p'))!)).toBe('p');
+  });
+
+  it('reduce tautologies and contradictions to constants', () => {
+    expect(formatFormula(toCNF(parseFormula('(p -> q) & p -> q'))!)).toBe('⊤');
+    expect(formatFormula(toDNF(parseFormula('p & ~p'))!)).toBe('⊥');
+  });
+
+  it('stop at the clause limit', () => {
+    // The CNF of n two-literal terms has 2^n clauses
+    const source = Array.from({ length: 10 }, (_, i) => `(a${i} & b${i})`).join(' | ');
+    expect(toCNF(parseFormula(source))).toBeUndefined();
+    expect(toDNF(parseFormula(source))).toBeDefined();
+  });
+});
+
+describe('buildTruthTable', () => {
+  it('lists rows from all true, the first variable changing slowest', () => {
+    const table = buildTruthTable(parseFormula('p -> q'));
+
+    expect(table.variables).toEqual(['p', 'q']);
+    expect(table.rows.map((r) => [r.assignment.p, r.assignment.q, r.value])).toEqual([
+      [true, true, true],
+      [true, false, false],
+      [false, true, true],
+      [false, false, true],
+    ]);
+    expect(table.tautology).toBe(false);
+    expect(table.contradiction).toBe(false);
+  });
+
+  it('classifies tautologies and contradictions', () => {
+    expect(buildTruthTable(parseFormula('p | ~p')).tautology).toBe(true);
+    expect(buildTruthTable(parseFormula('p & ~p')).contradiction).toBe(true);
+  });
+
+  it('refuses a table past the variable limit', () => {
+    expect(() => buildTruthTable(parseFormula('a & b & c'), { maxVariables: 2 })).toThrow(
+      'A truth table of 3 variables has 8 rows (limit 2 variables)',
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * First-order resolution.
+ *
+ * Valid arguments must come back "proved" with a refutation whose every
+ * step can be followed; invalid ones "refuted" with a countermodel, complete
+ * when the clauses are function-free; and arguments whose search does not
+ * end must stop at the budget with "unknown" rather than run on.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFirstOrder } from '../../../../src/modes/formallogic/first-order.js';
+import {
+  formatCountermodel,
+  formatRefutation,
+  proveFirstOrder,
+  readResolutionOptions,
+} from '../../../../src/modes/formallogic/resolution.js';
+import type { ResolutionOptions } from '../../../../src/modes/formallogic/types.js';
+
+const prove = (premises: string[], conclusion: string, options?: ResolutionOptions) =>
+  proveFirstOrder(premises.map(parseFirstOrder), parseFirstOrder(conclusion), options);
+
+describe('proveFirstOrder', () => {
+  it('proves a syllogism with a traceable refutation', () => {
+    const result = prove(['∀x (Man(x) → Mortal(x))', 'Man(socrates)'], 'Mortal(socrates)');
+
+    expect(result.status).toBe('proved');
+    expect(formatRefutation(result.proof!)).toEqual([
+      '1. ¬Man(x) ∨ Mortal(x)  [premise 1]',
+      '2. Man(socrates)  [premise 2]',
+      '3. ¬Mortal(socrates)  [negated conclusion]',
+      '4. Mortal(socrates)  [resolution 1, 2; x ↦ socrates]',
+      '5. □  [resolution 4, 3]',
+    ]);
+  });
+
+  it('cites only earlier steps and ends in the empty clause', () => {
+    const result = prove(
+      ['∀x ∀y ∀z (R(x, y) ∧ R(y, z) → R(x, z))', '∀x ∀y (R(x, y) → R(y, x))', '∀x ∃y R(x, y)'],
+      '∀x R(x, x)',
+    );
+
+    expect(result.status).toBe('proved');
+    const proof = result.proof!;
+    expect(proof[proof.length - 1].clause).toBe('□');
+    for (const step of proof) {
+      expect(step.from.every((f) => f < step.step)).toBe(true);
+    }
+  });
+
+  it('Skolemizes by quantifier order', () => {
+    expect(prove(['∃x ∀y Loves(x, y)'], '∀y ∃x Loves(x, y)').status).toBe('proved');
+    expect(prove(['∀y ∃x Loves(x, y)'], '∃x ∀y Loves(x, y)').status).toBe('refuted');
+  });
+
+  it('proves theorems with no premises', () => {
+    expect(prove([], '∃x (Drinks(x) → ∀y Drinks(y))').status).toBe('proved');
+    expect(prove([], '¬∀x P(x) ↔ ∃x ¬P(x)').status).toBe('proved');
+  });
+
+  it('handles propositional arguments too', () => {
+    expect(prove(['p -> q', '~q'], '~p').status).toBe('proved');
+    expect(prove(['p -> q', 'q'], 'p').status).toBe('refuted');
+  });
+
+  it('gives a complete countermodel to an invalid function-free argument', () => {
+    const result = prove(['∀x (Man(x) → Mortal(x))', 'Mortal(socrates)'], 'Man(socrates)');
+
+    expect(result.status).toBe('refuted');
+    expect(result.countermodel).toEqual({
+      domain: ['socrates'],
+      facts: { 'Man(socrates)': false, 'Mortal(socrates)': true },
+      complete: true,
+    });
+    expect(formatCountermodel(result.countermodel!)).toBe(
+      'domain {socrates} with Man(socrates) false, Mortal(socrates) true',
+    );
+  });
+
+  it('falls back to the unit clauses left when functions make the domain infinite', () => {
+    const result = prove(['∀x Even(double(x))', 'Even(two)'], 'Odd(two)');
+
+    expect(result.status).toBe('refuted');
+    expect(result.countermodel!.complete).toBe(false);
+    expect(result.countermodel!.facts).toMatchObject({ 'Even(double(x))': true, 'Odd(two)': false });
+  });
+
+  it('stops at the budget with unknown', () => {
+    const chain = ['∀x (P(x) → P(f(x)))', 'P(a)'];
+
+    expect(prove(chain, 'P(f(f(f(a))))').status).toBe('proved');
+    const result = prove(chain, 'Q(a)', { maxSteps: 20 });
+    expect(result).toMatchObject({ status: 'unknown', reason: 'Step limit of 20 reached', steps: 20 });
+    expect(prove(chain, 'Q(a)', { maxClauses: 50 }).reason).toBe('Clause limit of 50 reached');
+  });
+
+  it('reads the limits a caller asks for, capped, with a note for each one changed', () => {
+    expect(readResolutionOptions(undefined)).toEqual({ options: {}, problems: [] });
+    expect(readResolutionOptions({ maxSteps: 200, timeLimitMs: 300 })).toEqual({
+      options: { maxSteps: 200, timeLimitMs: 300 },
+      problems: [],
+    });
+    expect(readResolutionOptions({ maxSteps: 20_000, timeLimitMs: -1 })).toEqual({
+      options: { maxSteps: 1000 },
+      problems: [
+        'Resolution is capped at 1000 steps; 20000 were asked for',
+        'timeLimitMs must be a positive integer; the default of 5000 ms was used',
+      ],
+    });
+  });
+
+  it('refuses a clause form past its limit', () => {
+    const wide = Array.from({ length: 9 }, (_, i) => `(A${i}(c) & B${i}(c))`).join(' | ');
+    const result = prove([wide], 'Q(c)');
+    expect(result).toMatchObject({
+      status: 'unknown',
+      reason: 'The clause form of premise 1 has more than 256 clauses',
+    });
+  });
+
+  it('names Skolem functions apart from the input', () => {
+    const result = prove(['∃x P(x, sk1)'], 'P(sk1, sk1)');
+    expect(result.status).toBe('refuted');
+    expect(Object.keys(result.countermodel!.facts)).toContain('P(sk2, sk1)');
+  });
+});
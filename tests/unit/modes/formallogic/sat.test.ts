@@ -0,0 +1,135 @@
+/**
+ * Satisfiability by CDCL over the Tseitin encoding.
+ *
+ * Small formulas are checked against their truth tables, so the solver must
+ * agree with brute force, and a model must actually satisfy the formula.
+ * The pigeonhole problem is included because it cannot be refuted without
+ * many conflicts: it exercises clause learning and backjumping, not just
+ * unit propagation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateFormula, parseFormula } from '../../../../src/modes/formallogic/formula.js';
+import {
+  checkEntailment,
+  checkEquivalence,
+  checkSatisfiable,
+  solveCnf,
+  tseitin,
+} from '../../../../src/modes/formallogic/sat.js';
+import { buildTruthTable } from '../../../../src/modes/formallogic/truth-table.js';
+
+/** Pigeons 1..n+1 into holes 1..n; unsatisfiable */
+function pigeonhole(holes: number) {
+  const pigeons = holes + 1;
+  const v = (p: number, h: number) => p * holes + h + 1;
+  const clauses: number[][] = [];
+  for (let p = 0; p < pigeons; p++) {
+    clauses.push(Array.from({ length: holes }, (_, h) => v(p, h)));
+  }
+  for (let h = 0; h < holes; h++) {
+    for (let a = 0; a < pigeons; a++) {
+      for (let b = a + 1; b < pigeons; b++) clauses.push([-v(a, h), -v(b, h)]);
+    }
+  }
+  return { clauses, variableCount: pigeons * holes };
+}
+
+describe('solveCnf', () => {
+  it('finds a model of a satisfiable problem', () => {
+    const clauses = [
+      [1, 2],
+      [-1, 3],
+      [-2, -3],
+      [2, 3],
+    ];
+    const result = solveCnf(clauses, 3);
+
+    expect(result.status).toBe('satisfiable');
+    const model = result.model!;
+    for (const clause of clauses) {
+      expect(clause.some((l) => model[Math.abs(l) - 1] === l > 0)).toBe(true);
+    }
+  });
+
+  it('refutes the pigeonhole problem by learning clauses', () => {
+    const { clauses, variableCount } = pigeonhole(5);
+    const result = solveCnf(clauses, variableCount);
+
+    expect(result.status).toBe('unsatisfiable');
+    expect(result.conflicts).toBeGreaterThan(0);
+    expect(result.learned).toBeGreaterThan(0);
+  });
+
+  it('gives up at the conflict limit', () => {
+    const { clauses, variableCount } = pigeonhole(6);
+    expect(solveCnf(clauses, variableCount, { conflictLimit: 10 }).status).toBe('unknown');
+  });
+
+  it('handles empty and contradictory unit clauses', () => {
+    expect(solveCnf([[]], 1).status).toBe('unsatisfiable');
+    expect(solveCnf([[1], [-1]], 1).status).toBe('unsatisfiable');
+    expect(solveCnf([], 2)).toMatchObject({
+      status: 'satisfiable',
+      model: [false, false],
+    });
+  });
+});
+
+describe('checkSatisfiable', () => {
+  it('agrees with the truth table', () => {
+    for (const source of [
+      '(p -> q) & (q -> r) & p & ~r',
+      '(p xor q) & (q xor r) & (p xor r)',
+      '(p nand q) & (p | q) & ~(p <-> q)',
+      '(a | b) & (~a | c) & (~b | c) & ~c',
+      'p -> p',
+    ]) {
+      const formula = parseFormula(source);
+      const result = checkSatisfiable([formula]);
+      expect(result.status === 'unsatisfiable').toBe(buildTruthTable(formula).contradiction);
+      if (result.model) expect(evaluateFormula(formula, result.model)).toBe(true);
+    }
+  });
+
+  it('numbers the formula variables first in the encoding', () => {
+    const { variables, variableCount } = tseitin([parseFormula('(q & p) | ~q')]);
+    expect(variables).toEqual(['q', 'p']);
+    // One fresh variable per binary connective
+    expect(variableCount).toBe(4);
+  });
+
+  it('reads constants', () => {
+    expect(checkSatisfiable([parseFormula('p & ⊥')]).status).toBe('unsatisfiable');
+    expect(checkSatisfiable([parseFormula('⊤')]).model).toEqual({});
+  });
+});
+
+describe('checkEntailment', () => {
+  it('proves hypothetical syllogism', () => {
+    const result = checkEntailment([parseFormula('p -> q'), parseFormula('q -> r')], parseFormula('p -> r'));
+    expect(result.status).toBe('valid');
+    expect(result.counterexample).toBeUndefined();
+  });
+
+  it('gives a counterexample to affirming the consequent', () => {
+    const result = checkEntailment([parseFormula('p -> q'), parseFormula('q')], parseFormula('p'));
+    expect(result).toMatchObject({
+      status: 'invalid',
+      counterexample: { p: false, q: true },
+    });
+  });
+});
+
+describe('checkEquivalence', () => {
+  it('proves De Morgan and finds where lookalikes differ', () => {
+    expect(checkEquivalence(parseFormula('~(p & q)'), parseFormula('~p | ~q')).status).toBe('equivalent');
+
+    const result = checkEquivalence(parseFormula('~(p & q)'), parseFormula('~p & ~q'));
+    expect(result.status).toBe('not_equivalent');
+    const { counterexample } = result;
+    expect(evaluateFormula(parseFormula('~(p & q)'), counterexample!)).not.toBe(
+      evaluateFormula(parseFormula('~p & ~q'), counterexample!),
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Shapley value, core and nucleolus of transferable-utility games.
+ *
+ * The glove game is the classic case where the two fairness notions part
+ * ways: the Shapley value rewards the scarce left glove with 2/3, while the
+ * core (and the nucleolus in it) hands the owner everything, because the
+ * two right-glove owners compete each other down. The three-player majority
+ * game has an empty core, so its least-core ε is positive.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  blockingCoalitions,
+  coalitionMembers,
+  findNucleolus,
+  isConvex,
+  isSuperadditive,
+  readCoalitionGame,
+  shapleyValues,
+} from '../../../../src/modes/gametheory/cooperative.js';
+import type { CoalitionGame } from '../../../../src/modes/gametheory/types.js';
+
+function game(players: string[], values: [string[], number][]): CoalitionGame {
+  return readCoalitionGame(
+    players,
+    values.map(([coalition, value]) => ({ coalition, value })),
+  );
+}
+
+const glove = game(['L', 'R1', 'R2'], [
+  [['L', 'R1'], 1],
+  [['L', 'R2'], 1],
+  [['L', 'R1', 'R2'], 1],
+]);
+
+const majority = game(['a', 'b', 'c'], [
+  [['a', 'b'], 1],
+  [['a', 'c'], 1],
+  [['b', 'c'], 1],
+  [['a', 'b', 'c'], 1],
+]);
+
+describe('readCoalitionGame', () => {
+  it('keys coalitions by bitmask and keeps the first listed value', () => {
+    const g = game(['x', 'y'], [
+      [['y', 'x'], 5],
+      [['x', 'y'], 9],
+      [[], 0],
+    ]);
+    expect([...g.values]).toEqual([[3, 5]]);
+    expect(coalitionMembers(g, 2)).toEqual(['y']);
+  });
+
+  it('rejects unknown players and a valuable empty coalition', () => {
+    expect(() => game(['x'], [[['z'], 1]])).toThrow('Coalition member z is not a player');
+    expect(() => game(['x'], [[[], 2]])).toThrow('The empty coalition must be worth 0, not 2');
+  });
+});
+
+describe('shapleyValues', () => {
+  it('is exact for small games', () => {
+    const result = shapleyValues(glove);
+    expect(result.method).toBe('exact');
+    expect(result.values[0]).toBeCloseTo(2 / 3, 8);
+    expect(result.values[1]).toBeCloseTo(1 / 6, 8);
+    expect(result.values[2]).toBeCloseTo(1 / 6, 8);
+  });
+
+  it('samples random orders above the exact limit, reproducibly', () => {
+    const estimate = shapleyValues(glove, { exactLimit: 2, samples: 4000 });
+    expect(estimate.method).toBe('sampled');
+    expect(estimate.samples).toBe(4000);
+    estimate.values.forEach((value, i) => {
+      const exact = [2 / 3, 1 / 6, 1 / 6][i];
+      expect(Math.abs(value - exact)).toBeLessThan(4 * estimate.standardErrors![i]);
+    });
+    expect(shapleyValues(glove, { exactLimit: 2, samples: 4000 })).toEqual(estimate);
+  });
+
+  it('handles games too large to enumerate', () => {
+    // 40 symmetric players sharing v(N) = 40; only the grand coalition is listed
+    const players = Array.from({ length: 40 }, (_, i) => `p${i}`);
+    const estimate = shapleyValues(game(players, [[players, 40]]), { samples: 200 });
+    expect(estimate.values.reduce((sum, v) => sum + v, 0)).toBeCloseTo(40, 8);
+  });
+});
+
+describe('findNucleolus', () => {
+  it('gives the glove owner everything', () => {
+    const result = findNucleolus(glove);
+    expect(result.leastCoreEpsilon).toBe(0);
+    expect(result.nucleolus).toEqual([1, 0, 0]);
+  });
+
+  it('finds a positive least-core ε when the core is empty', () => {
+    const result = findNucleolus(majority);
+    expect(result.leastCoreEpsilon).toBeCloseTo(1 / 3, 8);
+    result.nucleolus!.forEach((x) => expect(x).toBeCloseTo(1 / 3, 8));
+  });
+
+  it('keeps minimizing after the first round is tight', () => {
+    // Any split of 1 between players 1 and 2 is in the core; the nucleolus
+    // settles the tie in a later round
+    const result = findNucleolus(game(['1', '2', '3'], [
+      [['1', '2'], 1],
+      [['1', '2', '3'], 1],
+    ]));
+    expect(result.nucleolus).toEqual([0.5, 0.5, 0]);
+  });
+
+  it('pins down a single-point core', () => {
+    const result = findNucleolus(game(['1', '2', '3'], [
+      [['1', '2'], 60],
+      [['1', '3'], 80],
+      [['2', '3'], 100],
+      [['1', '2', '3'], 120],
+    ]));
+    expect(result.nucleolus).toEqual([20, 40, 60]);
+  });
+
+  it('has no nucleolus without imputations', () => {
+    const result = findNucleolus(game(['x', 'y'], [
+      [['x'], 3],
+      [['y'], 3],
+      [['x', 'y'], 5],
+    ]));
+    expect(result.leastCoreEpsilon).toBe(0.5);
+    expect(result.nucleolus).toBeUndefined();
+  });
+
+  it('refuses games past the exact player limit', () => {
+    const players = Array.from({ length: 13 }, (_, i) => `p${i}`);
+    expect(() => findNucleolus(game(players, []))).toThrow(/limited to 12 players/);
+  });
+});
+
+describe('blockingCoalitions', () => {
+  it('lists coalitions that get less than their value', () => {
+    expect(blockingCoalitions(majority, [1, 0, 0])).toEqual([6]);
+    expect(blockingCoalitions(glove, [1, 0, 0])).toEqual([]);
+    expect(blockingCoalitions(glove, [1.5, -0.5, 0])).toEqual([2]);
+  });
+});
+
+describe('isSuperadditive and isConvex', () => {
+  it('tells the glove game apart from a convex game', () => {
+    expect(isSuperadditive(glove)).toBe(true);
+    expect(isConvex(glove)).toBe(false);
+
+    const squares = game(['a', 'b', 'c'], [
+      [['a'], 1], [['b'], 1], [['c'], 1],
+      [['a', 'b'], 4], [['a', 'c'], 4], [['b', 'c'], 4],
+      [['a', 'b', 'c'], 9],
+    ]);
+    expect(isConvex(squares)).toBe(true);
+  });
+
+  it('catches a coalition worth less than its parts', () => {
+    const g = game(['a', 'b'], [[['a'], 2], [['b'], 2], [['a', 'b'], 3]]);
+    expect(isSuperadditive(g)).toBe(false);
+    expect(isConvex(g)).toBe(false);
+  });
+});
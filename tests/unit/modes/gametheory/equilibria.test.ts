@@ -0,0 +1,152 @@
+/**
+ * Mixed-strategy Nash equilibria by support enumeration.
+ *
+ * Checked against games whose equilibria are textbook results: matching
+ * pennies (one fully mixed), battle of the sexes (two pure plus one mixed),
+ * prisoner's dilemma (one pure, no mixed), and rock-paper-scissors (uniform).
+ * Every equilibrium returned must survive a best-response check, so the
+ * tests also verify that directly.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toBimatrix, isZeroSum } from '../../../../src/modes/gametheory/bimatrix.js';
+import { expectedPayoffs, findEquilibria } from '../../../../src/modes/gametheory/equilibria.js';
+import { solveLinearSystem } from '../../../../src/utils/numeric.js';
+import type { Bimatrix } from '../../../../src/modes/gametheory/types.js';
+import type { PayoffMatrix } from '../../../../src/types/modes/gametheory.js';
+
+function bimatrix(rowPayoffs: number[][], columnPayoffs: number[][]): Bimatrix {
+  return {
+    rowPlayer: 'p1',
+    columnPlayer: 'p2',
+    rowStrategies: rowPayoffs.map((_, i) => `r${i}`),
+    columnStrategies: rowPayoffs[0].map((_, j) => `c${j}`),
+    rowPayoffs,
+    columnPayoffs,
+  };
+}
+
+function isBestResponsePair(game: Bimatrix, row: number[], column: number[]): boolean {
+  const [u, v] = expectedPayoffs(game, row, column);
+  const rowBest = game.rowStrategies.every((_, i) => {
+    const pure = game.rowStrategies.map((__, k) => (k === i ? 1 : 0));
+    return expectedPayoffs(game, pure, column)[0] <= u + 1e-9;
+  });
+  const columnBest = game.columnStrategies.every((_, j) => {
+    const pure = game.columnStrategies.map((__, k) => (k === j ? 1 : 0));
+    return expectedPayoffs(game, row, pure)[1] <= v + 1e-9;
+  });
+  return rowBest && columnBest;
+}
+
+describe('toBimatrix', () => {
+  const matrix: PayoffMatrix = {
+    players: ['p1', 'p2'],
+    dimensions: [2, 2],
+    payoffs: [
+      { strategyProfile: ['U', 'L'], payoffs: [1, 2] },
+      { strategyProfile: ['U', 'R'], payoffs: [3, 4] },
+      { strategyProfile: ['D', 'L'], payoffs: [5, 6] },
+      { strategyProfile: ['D', 'R'], payoffs: [7, 8] },
+    ],
+  };
+
+  it('orders strategies by first appearance when players are not listed', () => {
+    const game = toBimatrix(matrix, []);
+    expect(game.rowStrategies).toEqual(['U', 'D']);
+    expect(game.columnStrategies).toEqual(['L', 'R']);
+    expect(game.rowPayoffs).toEqual([[1, 3], [5, 7]]);
+    expect(game.columnPayoffs).toEqual([[2, 4], [6, 8]]);
+  });
+
+  it("follows each player's availableStrategies order", () => {
+    const game = toBimatrix(matrix, [
+      { id: 'p1', name: 'P1', isRational: true, availableStrategies: ['D', 'U'] },
+    ]);
+    expect(game.rowStrategies).toEqual(['D', 'U']);
+    expect(game.rowPayoffs).toEqual([[5, 7], [1, 3]]);
+  });
+
+  it('rejects games that are not two-player or have gaps', () => {
+    expect(() => toBimatrix({ ...matrix, players: ['a', 'b', 'c'] }, [])).toThrow(/two players/);
+    expect(() => toBimatrix({ ...matrix, payoffs: matrix.payoffs.slice(0, 3) }, [])).toThrow(
+      /No payoffs for strategy profile \(D, R\)/,
+    );
+  });
+
+  it('detects zero-sum games', () => {
+    expect(isZeroSum(bimatrix([[1, -1]], [[-1, 1]]))).toBe(true);
+    expect(isZeroSum(toBimatrix(matrix, []))).toBe(false);
+  });
+});
+
+describe('findEquilibria', () => {
+  it('finds the single fully mixed equilibrium of matching pennies', () => {
+    const { equilibria, complete } = findEquilibria(bimatrix([[1, -1], [-1, 1]], [[-1, 1], [1, -1]]));
+    expect(complete).toBe(true);
+    expect(equilibria).toEqual([
+      { row: [0.5, 0.5], column: [0.5, 0.5], rowPayoff: 0, columnPayoff: 0, rowSupport: [0, 1], columnSupport: [0, 1] },
+    ]);
+  });
+
+  it('finds two pure and one mixed equilibrium in battle of the sexes', () => {
+    const { equilibria } = findEquilibria(bimatrix([[2, 0], [0, 1]], [[1, 0], [0, 2]]));
+    expect(equilibria).toHaveLength(3);
+    expect(equilibria[0]).toMatchObject({ row: [1, 0], column: [1, 0] });
+    expect(equilibria[1]).toMatchObject({ row: [0, 1], column: [0, 1] });
+    const mixed = equilibria[2];
+    expect(mixed.row[0]).toBeCloseTo(2 / 3, 10);
+    expect(mixed.column[0]).toBeCloseTo(1 / 3, 10);
+    expect(mixed.rowPayoff).toBeCloseTo(2 / 3, 10);
+    expect(mixed.columnPayoff).toBeCloseTo(2 / 3, 10);
+  });
+
+  it("finds only mutual defection in the prisoner's dilemma", () => {
+    const { equilibria } = findEquilibria(bimatrix([[3, 0], [5, 1]], [[3, 5], [0, 1]]));
+    expect(equilibria).toHaveLength(1);
+    expect(equilibria[0]).toMatchObject({ row: [0, 1], column: [0, 1], rowPayoff: 1, columnPayoff: 1 });
+  });
+
+  it('finds the uniform equilibrium of rock-paper-scissors', () => {
+    const rps = [[0, -1, 1], [1, 0, -1], [-1, 1, 0]];
+    const game = bimatrix(rps, rps.map((row) => row.map((a) => -a)));
+    const { equilibria } = findEquilibria(game);
+    expect(equilibria).toHaveLength(1);
+    for (const p of [...equilibria[0].row, ...equilibria[0].column]) {
+      expect(p).toBeCloseTo(1 / 3, 10);
+    }
+  });
+
+  it('handles non-square games', () => {
+    // Row player has a third strategy that is never a best response
+    const game = bimatrix([[3, 0], [0, 3], [1, 1]], [[0, 3], [3, 0], [0, 0]]);
+    const { equilibria } = findEquilibria(game);
+    expect(equilibria.length).toBeGreaterThan(0);
+    for (const eq of equilibria) {
+      expect(eq.row[2]).toBe(0);
+      expect(isBestResponsePair(game, eq.row, eq.column)).toBe(true);
+    }
+  });
+
+  it('returns only verified equilibria in a degenerate game', () => {
+    const game = bimatrix([[1, 1], [1, 1]], [[1, 1], [1, 1]]);
+    const { equilibria } = findEquilibria(game);
+    expect(equilibria.length).toBeGreaterThan(0);
+    for (const eq of equilibria) {
+      expect(isBestResponsePair(game, eq.row, eq.column)).toBe(true);
+    }
+  });
+
+  it('reports an incomplete search when the support budget runs out', () => {
+    const result = findEquilibria(bimatrix([[1, -1], [-1, 1]], [[-1, 1], [1, -1]]), 3);
+    expect(result.complete).toBe(false);
+    expect(result.equilibria).toEqual([]);
+  });
+});
+
+describe('solveLinearSystem', () => {
+  it('solves a square system and reports a singular one', () => {
+    expect(solveLinearSystem([[2, 1, 5], [1, -1, 1]])).toEqual([2, 1]);
+    expect(solveLinearSystem([[1, 2, 3], [2, 4, 6]])).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Backward induction on extensive-form game trees.
+ *
+ * The entry-deterrence game is the standard example of a non-credible
+ * threat: the incumbent would like to promise a price war, but once the
+ * entrant is in, accommodating pays more. Backward induction sees through
+ * the threat, and its off-path choice (accommodate) is what makes the
+ * equilibrium subgame-perfect rather than merely Nash.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { playersInTree, solveBackwardInduction } from '../../../../src/modes/gametheory/extensive.js';
+import type { GameNode, GameTree } from '../../../../src/types/modes/gametheory.js';
+
+function decision(id: string, playerId: string, childNodes: string[], action?: string): GameNode {
+  return { id, type: 'decision', playerId, childNodes, action };
+}
+
+function terminal(id: string, payoffs: number[], action?: string, probability?: number): GameNode {
+  return { id, type: 'terminal', childNodes: [], payoffs, action, probability };
+}
+
+/** Entrant moves first; the incumbent answers entry with a fight or accommodation */
+const entryGame: GameTree = {
+  rootNode: 'start',
+  nodes: [
+    decision('start', 'entrant', ['out', 'in']),
+    terminal('out', [0, 2], 'Stay out'),
+    decision('in', 'incumbent', ['fight', 'accommodate'], 'Enter'),
+    terminal('fight', [-1, -1], 'Fight'),
+    terminal('accommodate', [1, 1], 'Accommodate'),
+  ],
+};
+
+describe('solveBackwardInduction', () => {
+  it('rejects the non-credible threat in the entry game', () => {
+    const solution = solveBackwardInduction(entryGame);
+
+    expect(solution.optimalPath).toEqual(['start', 'in', 'accommodate']);
+    expect(solution.values.get('start')).toEqual([1, 1]);
+    expect(Object.fromEntries(solution.choices)).toEqual({ in: 'accommodate', start: 'in' });
+    expect(solution.ties).toEqual([]);
+    expect(solution.unsolvedNodes).toEqual([]);
+  });
+
+  it('reads payoffs in the order of the players it is given', () => {
+    // Listing the incumbent first swaps the payoffs: the entrant now gets 2
+    // by staying out against 1 for entering
+    const solution = solveBackwardInduction(entryGame, ['incumbent', 'entrant']);
+
+    expect(solution.choices.get('in')).toBe('accommodate');
+    expect(solution.optimalPath).toEqual(['start', 'out']);
+    expect(solution.values.get('start')).toEqual([0, 2]);
+  });
+
+  it('takes expectations at chance nodes, splitting unassigned probability', () => {
+    const tree: GameTree = {
+      rootNode: 'invest',
+      nodes: [
+        decision('invest', 'firm', ['safe', 'market']),
+        terminal('safe', [2], 'Bonds'),
+        { id: 'market', type: 'chance', childNodes: ['boom', 'flat', 'bust'], action: 'Stocks' },
+        terminal('boom', [10], 'Boom', 0.2),
+        terminal('flat', [2]),
+        terminal('bust', [-2]),
+      ],
+    };
+    const solution = solveBackwardInduction(tree);
+
+    // 0.2·10 + 0.4·2 + 0.4·(-2) = 2, tied with the safe option
+    expect(solution.values.get('market')![0]).toBeCloseTo(2, 12);
+    expect(solution.ties).toEqual(['invest']);
+    expect(solution.optimalPath).toEqual(['invest', 'safe']);
+  });
+
+  it('stops the equilibrium path at a chance node', () => {
+    const tree: GameTree = {
+      rootNode: 'nature',
+      nodes: [
+        { id: 'nature', type: 'chance', childNodes: ['a', 'b'] },
+        decision('a', 'p', ['a1', 'a2']),
+        terminal('a1', [1]),
+        terminal('a2', [3]),
+        terminal('b', [5]),
+      ],
+    };
+    const solution = solveBackwardInduction(tree);
+
+    expect(solution.optimalPath).toEqual(['nature']);
+    expect(solution.values.get('nature')).toEqual([4]);
+    expect(solution.choices.get('a')).toBe('a2');
+  });
+
+  it('leaves imperfect-information sets and their ancestors unsolved', () => {
+    // Sequential matching pennies where player 2 does not see player 1's coin,
+    // under a root where player 1 can first opt out
+    const tree: GameTree = {
+      rootNode: 'root',
+      nodes: [
+        decision('root', 'p1', ['play', 'quit']),
+        decision('play', 'p1', ['h', 't']),
+        terminal('quit', [0.5, -0.5]),
+        decision('h', 'p2', ['hh', 'ht']),
+        decision('t', 'p2', ['th', 'tt']),
+        terminal('hh', [1, -1]),
+        terminal('ht', [-1, 1]),
+        terminal('th', [-1, 1]),
+        terminal('tt', [1, -1]),
+      ],
+      informationSets: [
+        { id: 'p2-guess', playerId: 'p2', nodes: ['h', 't'], availableActions: ['H', 'T'] },
+        { id: 'p1-root', playerId: 'p1', nodes: ['root'], availableActions: ['play', 'quit'] },
+      ],
+    };
+    const solution = solveBackwardInduction(tree);
+
+    expect(solution.imperfectInformationSets).toEqual(['p2-guess']);
+    expect(solution.unsolvedNodes).toEqual(['root', 'play', 'h', 't']);
+    expect(solution.optimalPath).toEqual([]);
+    expect(solution.choices.size).toBe(0);
+    expect(solution.values.get('quit')).toEqual([0.5, -0.5]);
+  });
+
+  it('still solves proper subgames below the root', () => {
+    const tree: GameTree = {
+      rootNode: 'root',
+      nodes: [
+        decision('root', 'p1', ['x', 'y']),
+        decision('x', 'p2', ['x1', 'x2']),
+        decision('y', 'p2', ['y1', 'y2']),
+        terminal('x1', [1, 0]),
+        terminal('x2', [0, 1]),
+        terminal('y1', [2, 2]),
+        terminal('y2', [3, 1]),
+      ],
+      informationSets: [{ id: 'blind', playerId: 'p2', nodes: ['x', 'y'], availableActions: ['1', '2'] }],
+    };
+    const solution = solveBackwardInduction({
+      ...tree,
+      informationSets: [{ id: 'blind', playerId: 'p2', nodes: ['x'], availableActions: ['1', '2'] }],
+    });
+    expect(solution.optimalPath).toEqual(['root', 'y', 'y1']);
+
+    const blind = solveBackwardInduction(tree);
+    expect(blind.unsolvedNodes).toEqual(['root', 'x', 'y']);
+  });
+
+  it('reports malformed trees', () => {
+    const broken = (nodes: GameNode[], rootNode = 'r'): (() => unknown) => () =>
+      solveBackwardInduction({ rootNode, nodes });
+
+    expect(broken([terminal('a', [1])])).toThrow('Root node r does not exist');
+    expect(broken([decision('r', 'p', ['a'])])).toThrow('Node r has a missing child a');
+    expect(broken([decision('r', 'p', ['a', 'a']), terminal('a', [1])])).toThrow(/reached more than once/);
+    expect(broken([decision('r', 'p', [])])).toThrow('Decision node r has no children');
+    expect(broken([decision('r', 'p', ['a']), { id: 'a', type: 'terminal', childNodes: [] }])).toThrow(
+      'Terminal node a needs a payoff for each of 1 players',
+    );
+    expect(
+      broken([
+        { id: 'r', type: 'chance', childNodes: ['a', 'b'] },
+        terminal('a', [1], undefined, 0.7),
+        terminal('b', [1], undefined, 0.7),
+      ]),
+    ).toThrow('Chance node r: branch probabilities sum to 1.4, not 1');
+    expect(() => solveBackwardInduction(entryGame, ['entrant'])).toThrow(
+      'Decision node in belongs to incumbent, who is not one of entrant',
+    );
+  });
+});
+
+describe('playersInTree', () => {
+  it('lists players in the order they first move', () => {
+    expect(playersInTree(entryGame)).toEqual(['entrant', 'incumbent']);
+  });
+});
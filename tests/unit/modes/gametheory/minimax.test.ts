@@ -0,0 +1,75 @@
+/**
+ * Zero-sum games solved by linear programming.
+ *
+ * The game value and optimal strategies are checked against games with
+ * known closed-form solutions. For a 2×2 game without a saddle point,
+ * v = (ad - bc) / (a + d - b - c), and each player's mix makes the other
+ * indifferent.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveZeroSum } from '../../../../src/modes/gametheory/minimax.js';
+
+function guarantee(payoffs: number[][], row: number[]): number {
+  return Math.min(...payoffs[0].map((_, j) => payoffs.reduce((sum, r, i) => sum + row[i] * r[j], 0)));
+}
+
+function cap(payoffs: number[][], column: number[]): number {
+  return Math.max(...payoffs.map((r) => r.reduce((sum, a, j) => sum + a * column[j], 0)));
+}
+
+describe('solveZeroSum', () => {
+  it('solves matching pennies: value 0, uniform play', () => {
+    const solution = solveZeroSum([[1, -1], [-1, 1]]);
+    expect(solution.value).toBe(0);
+    expect(solution.rowStrategy).toEqual([0.5, 0.5]);
+    expect(solution.columnStrategy).toEqual([0.5, 0.5]);
+    expect(solution.pureMaximin).toBe(-1);
+    expect(solution.pureMinimax).toBe(1);
+    expect(solution.saddlePoint).toBeUndefined();
+  });
+
+  it('matches the closed form for a 2×2 game without a saddle point', () => {
+    // a=3, b=-1, c=-2, d=4: v = (12 - 2) / (3 + 4 + 1 + 2) = 1
+    const payoffs = [[3, -1], [-2, 4]];
+    const solution = solveZeroSum(payoffs);
+    expect(solution.value).toBeCloseTo(1, 10);
+    expect(solution.rowStrategy[0]).toBeCloseTo(0.6, 10);
+    expect(solution.columnStrategy[0]).toBeCloseTo(0.5, 10);
+  });
+
+  it('finds a pure saddle point when one exists', () => {
+    const solution = solveZeroSum([[4, 2, 3], [1, 0, -1], [5, 2, 6]]);
+    expect(solution.pureMaximin).toBe(2);
+    expect(solution.pureMinimax).toBe(2);
+    expect(solution.saddlePoint).toEqual([0, 1]);
+    expect(solution.value).toBeCloseTo(2, 10);
+  });
+
+  it('gives strategies that guarantee and cap the value in a larger game', () => {
+    const payoffs = [
+      [0, 2, -3, 0],
+      [-2, 0, 0, 3],
+      [3, 0, 0, -4],
+      [0, -3, 4, 0],
+    ];
+    const solution = solveZeroSum(payoffs);
+    expect(solution.rowStrategy.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    expect(solution.columnStrategy.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    expect(guarantee(payoffs, solution.rowStrategy)).toBeCloseTo(solution.value, 9);
+    expect(cap(payoffs, solution.columnStrategy)).toBeCloseTo(solution.value, 9);
+    expect(solution.pureMaximin).toBeLessThanOrEqual(solution.value);
+    expect(solution.value).toBeLessThanOrEqual(solution.pureMinimax);
+  });
+
+  it('is unaffected by negative payoffs throughout', () => {
+    const solution = solveZeroSum([[-5, -3], [-4, -6]]);
+    // a=-5, b=-3, c=-4, d=-6: v = (30 - 12) / (-11 + 7) = -4.5
+    expect(solution.value).toBeCloseTo(-4.5, 10);
+  });
+
+  it('rejects an empty or ragged matrix', () => {
+    expect(() => solveZeroSum([])).toThrow(/non-empty rectangular/);
+    expect(() => solveZeroSum([[1, 2], [3]])).toThrow(/non-empty rectangular/);
+  });
+});
@@ -359,10 +359,11 @@ describe('ConstraintHandler', () => {
     });
 
     it('should warn about high backtrack rate', () => {
+      // Without propagation every assignment of this infeasible problem fails
       const thought = createThought({
-        variables: [{ id: 'X1', domain: [1, 2] }],
-        searchStep: 10,
-        backtracks: 8, // 80% backtrack rate
+        variables: [{ id: 'X1', domain: [1, 2] }, { id: 'X2', domain: [1, 2] }],
+        constraints: [{ id: 'c1', type: 'binary', variables: ['X1', 'X2'], expression: 'X1 == X2 + 5' }],
+        propagationMethod: 'none',
       });
 
       const enhancements = handler.getEnhancements(thought);
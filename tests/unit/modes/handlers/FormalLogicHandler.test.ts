@@ -143,7 +143,9 @@ describe('FormalLogicHandler', () => {
 
       expect(thought.thoughtType).toBe('satisfiability_check');
       expect(thought.satisfiability).toBeDefined();
-      expect(thought.satisfiability!.satisfiable).toBe(false);
+      // Computed, not taken from the input: P ∧ Q is satisfiable as a
+      // formula; the contradiction is in what P and Q say
+      expect(thought.satisfiability!.satisfiable).toBe(true);
     });
 
     it('should create thought with validity_verification type', () => {
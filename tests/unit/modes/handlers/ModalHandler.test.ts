@@ -165,7 +165,10 @@ describe('ModalHandler', () => {
       const thought = handler.createThought(input, 'session-123');
 
       expect(thought.inferences).toHaveLength(1);
-      expect(thought.inferences![0].valid).toBe(true);
+      // The K axiom needs □(p → q); with p → q true only here, the checker
+      // finds a countermodel
+      expect(thought.inferences![0].valid).toBe(false);
+      expect(thought.inferences![0].checkedIn).toBe('K');
     });
   });
 
@@ -0,0 +1,188 @@
+/**
+ * BayesianHandler must evaluate the Bayesian network it is given.
+ *
+ * calculatePosterior updates one binary hypothesis, one piece of evidence
+ * at a time, as if every piece were independent given the hypothesis.
+ * These tests pin the wiring to `src/modes/bayesian/`: a `bayesianNetwork`
+ * is evaluated given its `observations`, the states of the target variable
+ * are ranked as competing hypotheses, likelihood weighting repeats by its
+ * seed, and the unobserved variables are ranked by their value of
+ * information.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: a network it cannot
+ * evaluate leaves the thought as before.
+ */
+import { describe, it, expect } from 'vitest';
+import { BayesianHandler } from '../../../../src/modes/handlers/BayesianHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new BayesianHandler();
+
+const input = inputFor('bayesian', 'Why is the grass wet?');
+
+const TF = ['T', 'F'];
+
+// Cloudy → Sprinkler, Rain → WetGrass
+const nodes = [
+  { id: 'Cloudy', states: TF, cpt: [[0.5, 0.5]] },
+  {
+    id: 'Sprinkler',
+    states: TF,
+    parents: ['Cloudy'],
+    cpt: [
+      [0.1, 0.9],
+      [0.5, 0.5],
+    ],
+  },
+  {
+    id: 'Rain',
+    states: TF,
+    parents: ['Cloudy'],
+    cpt: [
+      [0.8, 0.2],
+      [0.2, 0.8],
+    ],
+  },
+  {
+    id: 'WetGrass',
+    states: TF,
+    parents: ['Sprinkler', 'Rain'],
+    cpt: [
+      [0.99, 0.01],
+      [0.9, 0.1],
+      [0.9, 0.1],
+      [0, 1],
+    ],
+  },
+];
+
+const wet = { bayesianNetwork: { nodes }, observations: { WetGrass: 'T' }, targetVariable: 'Rain' };
+
+describe('BayesianHandler evaluates a Bayesian network', () => {
+  it('computes the posterior marginals given the observations', () => {
+    const inference = handler.createThought(input(wet), 'session').networkInference!;
+
+    expect(inference.method).toBe('junction_tree');
+    expect(inference.observations).toEqual({ WetGrass: 'T' });
+    expect(inference.marginals.Rain.T).toBeCloseTo(0.7079, 4);
+    expect(inference.marginals.Sprinkler.T).toBeCloseTo(0.4298, 4);
+    expect(inference.evidenceProbability).toBeCloseTo(0.6471, 4);
+    expect(inference.seed).toBeUndefined();
+  });
+
+  it('ranks the hypotheses and says what to observe next', () => {
+    const thought = handler.createThought(input(wet), 'session');
+    const enhancements = handler.getEnhancements(thought);
+
+    expect(thought.networkInference!.target).toBe('Rain');
+    expect(thought.networkInference!.valueOfInformation!.map((v) => v.variable)).toEqual(['Sprinkler', 'Cloudy']);
+    expect(enhancements.suggestions).toContain('Network inference by the junction tree: P(observations) = 0.6471');
+    expect(enhancements.suggestions).toContain('Posterior of Rain: T 0.708, F 0.292');
+    expect(enhancements.suggestions).toContain('Observe Sprinkler next: it is expected to tell 0.483 bits about Rain');
+    expect(enhancements.metrics!.evidenceProbability).toBeCloseTo(0.6471, 4);
+    expect(enhancements.mentalModels).toContain('Bayesian Network');
+  });
+
+  it('targets the first unobserved variable and the listed candidates by default', () => {
+    const thought = handler.createThought(
+      input({ bayesianNetwork: { nodes }, observations: { Cloudy: 'T' }, candidateEvidence: ['WetGrass'] }),
+      'session',
+    );
+
+    expect(thought.networkInference!.target).toBe('Sprinkler');
+    expect(thought.networkInference!.valueOfInformation!.map((v) => v.variable)).toEqual(['WetGrass']);
+  });
+
+  it('repeats a likelihood-weighting run by its seed', () => {
+    const sampled = input({ ...wet, bayesianNetwork: { nodes, method: 'likelihood_weighting', seed: 42 } });
+    const first = handler.createThought(sampled, 'session').networkInference!;
+    const again = handler.createThought(sampled, 'session').networkInference!;
+
+    expect(first.method).toBe('likelihood_weighting');
+    expect(first.seed).toBe(42);
+    expect(first.samples).toBe(10_000);
+    expect(again.marginals).toEqual(first.marginals);
+    expect(again.valueOfInformation).toEqual(first.valueOfInformation);
+    expect(Math.abs(first.marginals.Rain.T - 0.7079)).toBeLessThan(0.02);
+    expect(handler.getEnhancements(handler.createThought(sampled, 'session')).suggestions).toContain(
+      `Network inference by likelihood weighting (10000 samples, seed 42): P(observations) = ${first.evidenceProbability.toPrecision(4)}`,
+    );
+  });
+
+  it('leaves a thought without a network as it was', () => {
+    const thought = handler.createThought(input({ priorProbability: 0.3, likelihood: 0.8 }), 'session');
+    expect(thought.networkInference).toBeUndefined();
+    expect(thought.posterior.probability).toBeCloseTo(0.24 / (0.24 + 0.14), 10);
+  });
+});
+
+describe('BayesianHandler reports network problems as warnings', () => {
+  it('warns on a malformed network and skips it', () => {
+    const broken = [{ id: 'A', states: TF, cpt: [[0.5, 0.4]] }];
+    const result = handler.validate(input({ bayesianNetwork: { nodes: broken } }));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      "Row 0 of the CPT of 'A' sums to 0.900, not 1, so the network was not evaluated",
+    );
+    const thought = handler.createThought(input({ bayesianNetwork: { nodes: broken } }), 'session');
+    expect(thought.networkInference).toBeUndefined();
+  });
+
+  it('warns on impossible observations', () => {
+    const result = handler.validate(
+      input({ bayesianNetwork: { nodes }, observations: { Sprinkler: 'F', Rain: 'F', WetGrass: 'T' } }),
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      'The observations have probability 0 under the network, so nothing can be inferred from them',
+    );
+  });
+
+  it('warns on unknown names and methods, and an observed target', () => {
+    const messages = (extra: Record<string, unknown>) =>
+      handler.validate(input({ ...wet, ...extra })).warnings.map((w) => w.message);
+
+    expect(messages({ bayesianNetwork: { nodes, method: 'gibbs' } })).toContain(
+      "Unknown inference method 'gibbs'; the junction tree was used",
+    );
+    expect(messages({ observations: { WetGrass: 'damp' } })).toContain(
+      "'damp' is not a state of 'WetGrass', whose states are T, F",
+    );
+    expect(messages({ targetVariable: 'Flu' })).toContain("Target variable 'Flu' is not a node of the network");
+    expect(messages({ targetVariable: 'WetGrass' })).toContain(
+      "Target variable 'WetGrass' is already observed, so nothing is left to learn about it",
+    );
+    expect(messages({ candidateEvidence: ['Sprinkler', 'Hose'] })).toContain(
+      "Candidate evidence 'Hose' is not a node of the network",
+    );
+  });
+
+  it('counts the observations as evidence', () => {
+    const messages = handler.validate(input(wet)).warnings.map((w) => w.message);
+    expect(messages).not.toContain('No evidence provided for Bayesian update');
+  });
+});
+
+describe('deepthinking_probabilistic advertises the network inputs', () => {
+  it('accepts a network, observations, a target and candidates', () => {
+    const parsed = toolSchemas.deepthinking_probabilistic.parse({
+      thought: 'Why is the grass wet?',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'bayesian',
+      bayesianNetwork: { nodes, method: 'variable_elimination', samples: 500, seed: 1 },
+      observations: { WetGrass: 'T' },
+      targetVariable: 'Rain',
+      candidateEvidence: ['Sprinkler'],
+    }) as Record<string, unknown>;
+
+    expect((parsed.bayesianNetwork as { nodes: unknown[] }).nodes).toHaveLength(4);
+    expect(parsed.observations).toEqual({ WetGrass: 'T' });
+    expect(parsed.targetVariable).toBe('Rain');
+    expect(parsed.candidateEvidence).toEqual(['Sprinkler']);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * BayesianHandler must update the parametric model it is given.
+ *
+ * calculatePosterior works with point probabilities only. These tests pin
+ * the wiring to `src/modes/bayesian/parametric.ts`: a `parametricModel`
+ * fills the posterior with its distribution, credible intervals and, when
+ * sampled, diagnostics that repeat by the seed, and sets the probabilities
+ * to P(parameter > threshold) or the mean of a success probability.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: a model it cannot update
+ * leaves the thought as before.
+ */
+import { describe, it, expect } from 'vitest';
+import { BayesianHandler } from '../../../../src/modes/handlers/BayesianHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new BayesianHandler();
+
+const input = inputFor('bayesian', 'Is the coin biased towards heads?');
+
+const coin = {
+  prior: { distribution: 'beta', parameters: { alpha: 2, beta: 2 } },
+  likelihood: { distribution: 'binomial', parameters: { n: 10 } },
+  data: [6, 7, 5, 8],
+};
+
+describe('BayesianHandler updates a parametric model', () => {
+  it('updates a conjugate prior in closed form', () => {
+    const thought = handler.createThought(input({ parametricModel: { ...coin, threshold: 0.5 } }), 'session');
+    const { prior, posterior } = thought;
+
+    expect(prior.distribution).toEqual({ distribution: 'beta', parameters: { alpha: 2, beta: 2 } });
+    expect(prior.probability).toBeCloseTo(0.5, 10);
+    expect(posterior.probability).toBeCloseTo(0.967, 3);
+    expect(posterior.method).toBe('conjugate');
+    expect(posterior.parameter).toBe('p');
+    expect(posterior.distribution).toEqual({ distribution: 'beta', parameters: { alpha: 28, beta: 16 } });
+    expect(posterior.mean).toBeCloseTo(28 / 44, 12);
+    expect(posterior.credibleMass).toBe(0.95);
+    expect(posterior.credibleInterval![0]).toBeCloseTo(0.4907, 4);
+    expect(posterior.credibleInterval![1]).toBeCloseTo(0.7702, 4);
+    expect(posterior.threshold).toBe(0.5);
+    expect(posterior.diagnostics).toBeUndefined();
+    expect(posterior.calculation).toBe(
+      'beta(alpha=2, beta=2) prior updated by 4 observation(s), beta-binomial: beta(alpha=28, beta=16); probability is P(p > 0.5)',
+    );
+  });
+
+  it('reports the posterior and the shift past the threshold', () => {
+    const thought = handler.createThought(input({ parametricModel: { ...coin, threshold: 0.5 } }), 'session');
+    const enhancements = handler.getEnhancements(thought);
+
+    expect(enhancements.suggestions).toContain(
+      'Posterior of p: beta(alpha=28, beta=16); mean 0.6364, 95% credible interval [0.4907, 0.7702]',
+    );
+    expect(enhancements.suggestions).toContain('P(p > 0.5) rose from 0.500 to 0.967');
+    expect(enhancements.metrics!.posteriorMean).toBeCloseTo(28 / 44, 12);
+    expect(enhancements.mentalModels).toContain('Conjugate Prior');
+  });
+
+  it('samples by Metropolis-Hastings, repeating by the seed', () => {
+    const sampled = input({ parametricModel: { ...coin, method: 'metropolis_hastings', mcmc: { seed: 1 } } });
+    const first = handler.createThought(sampled, 'session').posterior;
+    const again = handler.createThought(sampled, 'session').posterior;
+    const enhancements = handler.getEnhancements(handler.createThought(sampled, 'session'));
+
+    expect(first.method).toBe('metropolis_hastings');
+    expect(first.distribution).toBeUndefined();
+    expect(first.probability).toBe(first.mean);
+    expect(Math.abs(first.mean! - 28 / 44)).toBeLessThan(0.01);
+    expect(first.diagnostics).toMatchObject({ seed: 1, chains: 4, iterations: 2500, burnIn: 1000, converged: true });
+    expect(again).toEqual(first);
+    expect(enhancements.metrics!.rHat).toBe(first.diagnostics!.rHat);
+    expect(enhancements.mentalModels).toContain('Markov Chain Monte Carlo');
+    expect(enhancements.warnings!.some((w) => w.includes('not converged'))).toBe(false);
+  });
+
+  it('warns when the sampler has not converged', () => {
+    const short = input({
+      parametricModel: { ...coin, method: 'metropolis_hastings', mcmc: { iterations: 20, seed: 3 } },
+    });
+    const thought = handler.createThought(short, 'session');
+
+    expect(thought.posterior.diagnostics!.converged).toBe(false);
+    expect(handler.getEnhancements(thought).warnings!.some((w) => w.startsWith('The sampler has not converged'))).toBe(
+      true,
+    );
+  });
+
+  it('leaves the probabilities of a parameter that is not a probability', () => {
+    const counts = {
+      prior: { distribution: 'gamma', parameters: { shape: 1, scale: 1 } },
+      likelihood: { distribution: 'poisson' },
+      data: [3, 4, 2, 5, 6],
+    };
+    const thought = handler.createThought(input({ parametricModel: counts, priorProbability: 0.3 }), 'session');
+
+    expect(thought.posterior.parameter).toBe('lambda');
+    expect(thought.posterior.mean).toBeCloseTo(3.5, 12);
+    expect(thought.prior.probability).toBe(0.3);
+    expect(handler.validate(input({ parametricModel: counts, priorProbability: 0.3 })).warnings).toEqual([]);
+  });
+});
+
+describe('BayesianHandler reports parametric model problems as warnings', () => {
+  it('warns on a claimed probability the model contradicts', () => {
+    const result = handler.validate(input({ parametricModel: { ...coin, threshold: 0.5 }, posteriorProbability: 0.8 }));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      'posteriorProbability (0.8) disagrees with the 0.967 the parametric model gives; the computed value was used',
+    );
+  });
+
+  it('warns on impossible data and a discrete prior, and skips the model', () => {
+    for (const [model, message] of [
+      [
+        { ...coin, data: [11] },
+        'Observation 0 (11) is not a count of successes from 0 to 10, so no posterior was computed',
+      ],
+      [
+        { ...coin, prior: { distribution: 'poisson', parameters: { lambda: 1 } } },
+        "A prior over a parameter must be continuous; 'poisson' is not, so no posterior was computed",
+      ],
+    ] as const) {
+      const result = handler.validate(input({ parametricModel: model }));
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((w) => w.message)).toContain(message);
+      const thought = handler.createThought(input({ parametricModel: model }), 'session');
+      expect(thought.posterior.parameter).toBeUndefined();
+      expect(thought.prior.distribution).toBeUndefined();
+    }
+  });
+
+  it('warns on a truncated prior, an unknown method and an oversized run', () => {
+    const model = {
+      ...coin,
+      prior: { distribution: 'normal', parameters: { mean: 0.5, stdDev: 0.3 } },
+      method: 'gibbs',
+      mcmc: { iterations: 50_000, seed: 2 },
+    };
+    const messages = handler.validate(input({ parametricModel: model })).warnings.map((w) => w.message);
+    const posterior = handler.createThought(input({ parametricModel: model }), 'session').posterior;
+
+    expect(messages).toContain(
+      'The prior puts 0.096 of its mass where p cannot lie; the posterior is restricted to the rest',
+    );
+    expect(messages.some((m) => m.startsWith("Unknown posterior method 'gibbs'"))).toBe(true);
+    expect(messages.some((m) => m.startsWith('Metropolis-Hastings is capped at 100000 draws'))).toBe(true);
+    expect(posterior.method).toBe('metropolis_hastings');
+    const d = posterior.diagnostics!;
+    expect(d.chains * (d.iterations + d.burnIn)).toBeLessThanOrEqual(100_000);
+  });
+
+  it('does not ask for evidence when the model has data', () => {
+    const messages = handler.validate(input({ parametricModel: coin })).warnings.map((w) => w.message);
+    expect(messages).not.toContain('No evidence provided for Bayesian update');
+  });
+});
+
+describe('parametric model schema', () => {
+  it('accepts a parametric model and rejects a malformed one', () => {
+    const schema = toolSchemas.deepthinking_probabilistic;
+    const base = { thought: 'x', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false, mode: 'bayesian' };
+
+    expect(schema.safeParse({ ...base, parametricModel: { ...coin, mcmc: { seed: 4 } } }).success).toBe(true);
+    expect(schema.safeParse({ ...base, parametricModel: { ...coin, credibleMass: 1 } }).success).toBe(false);
+    expect(schema.safeParse({ ...base, parametricModel: { ...coin, mcmc: { chains: 17 } } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * ConstraintHandler must report what the CSP solver in `src/modes/constraint/`
+ * finds, not what the caller claims.
+ *
+ * The handler used to take `solutionStatus`, `backtracks` and
+ * `isArcConsistent` from the input, falling back to "all variables assigned
+ * and no constraint flagged unsatisfied". A caller could declare an
+ * infeasible problem solved. These tests pin the wiring: the status,
+ * solutions, search trace and arc consistency come from solving.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: an unreadable constraint
+ * is a warning, and then the solver stays out of it rather than guessing.
+ */
+import { describe, it, expect } from 'vitest';
+import { ConstraintHandler } from '../../../../src/modes/handlers/ConstraintHandler.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new ConstraintHandler();
+
+const input = inputFor('constraint', 'Colouring the triangle.');
+
+const triangle = (colours: string[]) => ({
+  variables: ['A', 'B', 'C'].map((id) => ({ id, name: id, domain: colours })),
+  cspConstraints: [
+    { id: 'ab', type: 'binary', variables: ['A', 'B'], expression: 'A != B' },
+    { id: 'bc', type: 'binary', variables: ['B', 'C'], expression: 'B != C' },
+    { id: 'ac', type: 'binary', variables: ['A', 'C'], expression: 'A != C' },
+  ],
+});
+
+describe('ConstraintHandler uses the CSP solver', () => {
+  it('overrides a claimed solution on an infeasible problem', () => {
+    const thought = handler.createThought(
+      input({
+        ...triangle(['red', 'green']),
+        currentAssignments: { A: 'red', B: 'green', C: 'red' },
+        solutionStatus: 'found',
+        solutionCount: 1,
+      }),
+      'session-1',
+    );
+
+    expect(thought.solutionStatus).toBe('infeasible');
+    expect(thought.solutionCount).toBe(0);
+    expect(thought.solutions).toEqual([]);
+    expect(thought.assignmentCheck).toMatchObject({
+      isComplete: true,
+      isConsistent: false,
+      violatedConstraints: ['ac'],
+    });
+
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.warnings!.some((w) => w.includes('Current assignment violates: ac'))).toBe(true);
+  });
+
+  it('reports the solutions it found, checked against every constraint', () => {
+    const thought = handler.createThought(input(triangle(['red', 'green', 'blue'])), 'session-1');
+
+    expect(thought.solutionStatus).toBe('found');
+    expect(thought.solutionCount).toBe(6);
+    expect(thought.searchExhaustive).toBe(true);
+    expect(thought.solutions!.every((s) => s.isComplete && s.isConsistent)).toBe(true);
+    expect(thought.solutions![0].id).toBe('solution-1');
+
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.suggestions!.some((s) => /^Solution: A=\w+, B=\w+, C=\w+ \(6 in total\)$/.test(s))).toBe(
+      true,
+    );
+  });
+
+  it('replaces the caller-supplied search trace with the real one', () => {
+    const thought = handler.createThought(
+      input({
+        ...triangle(['red', 'green']),
+        propagationMethod: 'none',
+        backtracks: 0,
+        searchStep: 1,
+        assignmentHistory: [{ variableId: 'A', value: 'red', step: 1, backtracked: false }],
+      }),
+      'session-1',
+    );
+
+    expect(thought.propagationMethod).toBe('none');
+    expect(thought.searchStrategy).toBe('backtracking');
+    expect(thought.backtracks).toBeGreaterThan(0);
+    expect(thought.searchStep).toBe(thought.assignmentHistory!.length);
+    expect(thought.assignmentHistory!.filter((h) => h.backtracked)).toHaveLength(thought.backtracks);
+  });
+
+  it('computes arc consistency and reduced domains instead of trusting the flag', () => {
+    const thought = handler.createThought(
+      input({
+        variables: [
+          { id: 'X', domain: [1, 2, 3] },
+          { id: 'Y', domain: [1, 2, 3] },
+        ],
+        cspConstraints: [{ id: 'lt', type: 'binary', variables: ['X', 'Y'], expression: 'X < Y' }],
+        isArcConsistent: true,
+      }),
+      'session-1',
+    );
+
+    expect(thought.isArcConsistent).toBe(false);
+    expect(thought.variables[0]).toMatchObject({ currentDomain: [1, 2], domainReduced: true });
+    expect(thought.variables[1]).toMatchObject({ currentDomain: [2, 3], domainReduced: true });
+    expect(thought.arcs).toEqual([
+      { from: 'X', to: 'Y', constraintId: 'lt', isConsistent: false },
+      { from: 'Y', to: 'X', constraintId: 'lt', isConsistent: false },
+    ]);
+  });
+
+  it('marks an arc-consistent problem as such', () => {
+    const thought = handler.createThought(input(triangle(['red', 'green', 'blue'])), 'session-1');
+    expect(thought.isArcConsistent).toBe(true);
+    expect(thought.consistencyLevel).toBe('arc_consistent');
+    expect(thought.arcs!.every((a) => a.isConsistent)).toBe(true);
+  });
+
+  it('reports a timeout when the search budget runs out', () => {
+    // 12 variables, 10 values, one constraint no assignment can meet: without
+    // propagation the search cannot finish in the node budget
+    const variables = Array.from({ length: 12 }, (_, i) => ({ id: `V${i}`, domain: [...Array(10).keys()] }));
+    const thought = handler.createThought(
+      input({
+        variables,
+        cspConstraints: [{ id: 'impossible', type: 'n_ary', expression: 'sum(V0, V1, V2, V3, V4, V5, V6, V7, V8, V9, V10, V11) > 200' }],
+        propagationMethod: 'none',
+      }),
+      'session-1',
+    );
+
+    expect(thought.solutionStatus).toBe('timeout');
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.warnings!.some((w) => w.includes('Search budget ran out'))).toBe(true);
+  });
+
+  describe('stays advisory', () => {
+    it('warns about an unreadable expression without rejecting the thought', () => {
+      const payload = input({
+        variables: [{ id: 'A', domain: [1, 2] }],
+        cspConstraints: [{ id: 'bad', type: 'unary', expression: 'A >> 1' }],
+      });
+
+      const validation = handler.validate(payload);
+      expect(validation.valid).toBe(true);
+      expect(validation.warnings.some((w) => w.message.includes('Constraint bad cannot be solved'))).toBe(true);
+
+      const thought = handler.createThought(payload, 'session-1');
+      expect(thought.expressionErrors).toEqual([{ constraintId: 'bad', message: expect.stringContaining("'>'") }]);
+      expect(handler.getEnhancements(thought).warnings!.some((w) => w.includes('Constraint bad was not solved'))).toBe(
+        true,
+      );
+    });
+
+    it('does not solve when a required constraint is unreadable, keeping the caller status', () => {
+      const thought = handler.createThought(
+        input({
+          variables: [{ id: 'A', domain: [1, 2] }],
+          cspConstraints: [{ id: 'bad', type: 'unary', expression: 'A == Missing' }],
+          solutionStatus: 'searching',
+          backtracks: 2,
+        }),
+        'session-1',
+      );
+
+      expect(thought.solutionStatus).toBe('searching');
+      expect(thought.backtracks).toBe(2);
+      expect(thought.solutions).toBeUndefined();
+    });
+
+    it('still solves around an unreadable soft constraint', () => {
+      const thought = handler.createThought(
+        input({
+          variables: [{ id: 'A', domain: [1, 2] }],
+          cspConstraints: [
+            { id: 'hard', type: 'unary', expression: 'A > 1' },
+            { id: 'soft', type: 'unary', expression: 'A ==', priority: 'soft' },
+          ],
+        }),
+        'session-1',
+      );
+
+      expect(thought.solutionStatus).toBe('found');
+      expect(thought.solutions!.map((s) => s.values)).toEqual([{ A: 2 }]);
+    });
+
+    it('accepts an alldifferent constraint with no expression and does not warn about it', () => {
+      const payload = input({
+        variables: ['A', 'B'].map((id) => ({ id, domain: [1, 2] })),
+        cspConstraints: [{ id: 'diff', type: 'alldifferent', variables: ['A', 'B'] }],
+      });
+
+      expect(handler.validate(payload).warnings.some((w) => w.message.includes('lacks expression'))).toBe(false);
+      expect(handler.createThought(payload, 'session-1').solutionCount).toBe(2);
+    });
+  });
+});
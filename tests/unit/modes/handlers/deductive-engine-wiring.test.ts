@@ -0,0 +1,139 @@
+/**
+ * DeductiveHandler must decide the validity of an argument written as
+ * first-order formulas, not take the caller's word for it.
+ *
+ * `assessValidity` used to call any argument with a recognised `logicForm`
+ * valid and pass a claimed `validityCheck` through. These tests pin the
+ * wiring: premises and a conclusion that parse go to the resolution prover
+ * in `src/modes/formallogic/`, and its verdict, refutation or countermodel
+ * lands on the thought.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: an argument in prose, or
+ * of bare labels such as "P1", keeps the heuristic, and an undecided one
+ * is a warning.
+ */
+import { describe, it, expect } from 'vitest';
+import { DeductiveHandler } from '../../../../src/modes/handlers/DeductiveHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new DeductiveHandler();
+
+const input = inputFor('deductive', 'Checking the argument.');
+
+const syllogism = {
+  premises: ['∀x (Man(x) → Mortal(x))', 'Man(socrates)'],
+  conclusion: 'Mortal(socrates)',
+};
+
+describe('DeductiveHandler proves validity by resolution', () => {
+  it('proves a valid argument and keeps the refutation', () => {
+    const thought = handler.createThought(input(syllogism), 'session-1');
+
+    expect(thought.validityCheck).toBe(true);
+    expect(thought.validityProof).toMatchObject({ status: 'proved', method: 'resolution' });
+    expect(thought.validityProof!.trace).toContain('4. Mortal(socrates)  [resolution 1, 2; x ↦ socrates]');
+
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.metrics!.resolutionSteps).toBe(thought.validityProof!.steps);
+    expect(enhancements.suggestions).toContain(
+      'Validity proved by resolution: the premises and the negated conclusion derive the empty clause in 5 steps',
+    );
+  });
+
+  it('overrides a claimed validity with a countermodel', () => {
+    const claimed = input({
+      premises: ['∀x (Man(x) → Mortal(x))', 'Mortal(socrates)'],
+      conclusion: 'Man(socrates)',
+      logicForm: 'modus_ponens',
+      validityCheck: true,
+    });
+    const thought = handler.createThought(claimed, 'session-1');
+
+    expect(thought.validityCheck).toBe(false);
+    expect(thought.validityProof!.countermodel).toEqual({
+      domain: ['socrates'],
+      facts: { 'Man(socrates)': false, 'Mortal(socrates)': true },
+      complete: true,
+    });
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(
+      'Argument is invalid by resolution, not valid as claimed',
+    );
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'Countermodel: domain {socrates} with Man(socrates) false, Mortal(socrates) true',
+    );
+  });
+
+  it('warns when the budget runs out and keeps the heuristic verdict', () => {
+    const open = input({ premises: ['∀x (P(x) → P(f(x)))', 'P(a)'], conclusion: 'Q(a)', logicForm: 'modus_ponens' });
+    const thought = handler.createThought(open, 'session-1');
+
+    expect(thought.validityProof!.status).toBe('unknown');
+    expect(thought.validityCheck).toBe(true);
+    const result = handler.validate(open);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.some((w) => w.message.startsWith('Validity could not be decided by resolution: '))).toBe(
+      true,
+    );
+  });
+
+  it('stops at the step limit asked for, the same way every time', () => {
+    const open = input({ premises: ['∀x (P(x) → P(f(x)))', 'P(a)'], conclusion: 'Q(a)', resolution: { maxSteps: 25 } });
+    const proof = handler.createThought(open, 'session-1').validityProof;
+
+    expect(proof).toMatchObject({ status: 'unknown', reason: 'Step limit of 25 reached', steps: 25 });
+    expect(handler.createThought(open, 'session-1').validityProof).toEqual(proof);
+  });
+
+  it('caps the resolution limits and warns about ones it cannot use', () => {
+    const asked = input({ ...syllogism, resolution: { maxSteps: 50_000, timeLimitMs: 0 } });
+    const result = handler.validate(asked);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toEqual(
+      expect.arrayContaining([
+        'Resolution is capped at 1000 steps; 50000 were asked for',
+        'timeLimitMs must be a positive integer; the default of 5000 ms was used',
+      ]),
+    );
+    expect(handler.createThought(asked, 'session-1').validityProof!.status).toBe('proved');
+  });
+
+  it('leaves prose and bare labels to the heuristic', () => {
+    const prose = handler.createThought(
+      input({ premises: ['All men are mortal', 'Socrates is a man'], conclusion: 'Socrates is mortal' }),
+      'session-1',
+    );
+    expect(prose.validityProof).toBeUndefined();
+
+    const labels = handler.createThought(
+      input({ premises: ['P1', 'P2'], conclusion: 'C', validityCheck: true }),
+      'session-1',
+    );
+    expect(labels.validityProof).toBeUndefined();
+    expect(labels.validityCheck).toBe(true);
+  });
+
+  it('receives the argument through the core tool', () => {
+    const parsed = toolSchemas.deepthinking_core.parse({
+      thought: 'Socrates',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'deductive',
+      ...syllogism,
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+    expect(thought.validityProof!.status).toBe('proved');
+  });
+
+  it('rejects resolution limits that are not positive integers at the core tool', () => {
+    const base = { thought: 'x', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false, mode: 'deductive' };
+    const schema = toolSchemas.deepthinking_core;
+
+    expect(schema.safeParse({ ...base, resolution: { maxSteps: 200, timeLimitMs: 500 } }).success).toBe(true);
+    expect(schema.safeParse({ ...base, resolution: { maxSteps: 0 } }).success).toBe(false);
+    expect(schema.safeParse({ ...base, resolution: { timeLimitMs: 1.5 } }).success).toBe(false);
+  });
+});
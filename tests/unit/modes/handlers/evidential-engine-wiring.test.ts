@@ -0,0 +1,253 @@
+/**
+ * EvidentialHandler must combine the belief functions it is given, and
+ * compute belief, plausibility and pignistic probability, not take the
+ * caller's word for them.
+ *
+ * The handler's header promised Dempster's rule, but createThought copied
+ * `combinedBelief` and `plausibility` through. These tests pin the wiring
+ * to `src/modes/evidential/`: two or more belief functions are combined by
+ * the chosen rule with the conflict mass K reported, every focal set gets
+ * its belief interval, decisions are ranked by pignistic probability, and a
+ * high conflict brings out what Yager's rule and PCR5 make of it.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: belief functions it cannot
+ * read keep the old behaviour.
+ */
+import { describe, it, expect } from 'vitest';
+import { EvidentialHandler } from '../../../../src/modes/handlers/EvidentialHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new EvidentialHandler();
+
+const input = inputFor('evidential', 'Combining the evidence.');
+
+function source(id: string, masses: [string[], number][]) {
+  return {
+    id,
+    source: id,
+    massAssignments: masses.map(([hypothesisSet, mass]) => ({ hypothesisSet, mass, justification: '' })),
+  };
+}
+
+const frameOfDiscernment = ['Tank', 'Truck', 'Car'];
+const radar = source('radar', [
+  [['Tank'], 0.6],
+  [frameOfDiscernment, 0.4],
+]);
+const infrared = source('infrared', [
+  [['Truck'], 0.5],
+  [frameOfDiscernment, 0.5],
+]);
+
+// Zadeh's two doctors: meningitis, concussion, tumour
+const doctors = {
+  frameOfDiscernment: ['meningitis', 'concussion', 'tumour'],
+  beliefFunctions: [
+    source('doctor1', [
+      [['meningitis'], 0.99],
+      [['tumour'], 0.01],
+    ]),
+    source('doctor2', [
+      [['concussion'], 0.99],
+      [['tumour'], 0.01],
+    ]),
+  ],
+};
+
+describe('EvidentialHandler combines belief functions', () => {
+  it("combines by Dempster's rule and reports the conflict mass", () => {
+    const thought = handler.createThought(input({ frameOfDiscernment, beliefFunctions: [radar, infrared] }), 'session');
+
+    expect(thought.combinationRule).toBe('dempster');
+    expect(thought.combinedBelief!.id).toBe('combined-dempster');
+    expect(thought.combinedBelief!.source).toBe('combined');
+    expect(thought.combinedBelief!.massAssignments[0].justification).toBe("Dempster's rule over radar, infrared");
+    expect(thought.combinedBelief!.conflictMass).toBeCloseTo(0.3);
+    const combined = Object.fromEntries(
+      thought.combinedBelief!.massAssignments.map((ma) => [ma.hypothesisSet.join(','), ma.mass]),
+    );
+    expect(combined.Tank).toBeCloseTo(0.3 / 0.7);
+    expect(combined.Truck).toBeCloseTo(0.2 / 0.7);
+    expect(combined['Tank,Truck,Car']).toBeCloseTo(0.2 / 0.7);
+  });
+
+  it('computes the belief interval of every focal set and hypothesis', () => {
+    const thought = handler.createThought(input({ frameOfDiscernment, beliefFunctions: [radar, infrared] }), 'session');
+
+    const assignments = thought.plausibility!.assignments;
+    expect(assignments.map((a) => a.hypothesisSet.join(','))).toEqual(['Tank', 'Truck', 'Tank,Truck,Car', 'Car']);
+    const car = assignments.find((a) => a.hypothesisSet[0] === 'Car')!;
+    expect(car.belief).toBe(0);
+    expect(car.plausibility).toBeCloseTo(0.2 / 0.7);
+    expect(car.uncertaintyInterval).toEqual([car.belief, car.plausibility]);
+    expect(thought.pignisticProbability!.Tank).toBeCloseTo((0.3 + 0.2 / 3) / 0.7);
+  });
+
+  it('follows the combination rule the caller chooses', () => {
+    const thought = handler.createThought(input({ ...doctors, combinationRule: 'pcr5' }), 'session');
+
+    expect(thought.combinationRule).toBe('pcr5');
+    expect(thought.combinedBelief!.conflictMass).toBeCloseTo(0.9999);
+    const tumour = thought.combinedBelief!.massAssignments.find((ma) => ma.hypothesisSet[0] === 'tumour')!;
+    expect(tumour.mass).toBeCloseTo(0.000298);
+  });
+
+  it('reads a single mass function without combining it', () => {
+    const thought = handler.createThought(
+      input({ frameOfDiscernment: ['h1', 'h2'], massFunction: { h1: 0.6, 'h1, h2': 0.4 } }),
+      'session',
+    );
+
+    expect(thought.combinedBelief).toBeUndefined();
+    expect(thought.pignisticProbability!.h1).toBeCloseTo(0.8);
+    expect(thought.pignisticProbability!.h2).toBeCloseTo(0.2);
+  });
+});
+
+describe('EvidentialHandler ranks decisions', () => {
+  it('ranks decisions and their alternatives by pignistic probability', () => {
+    const thought = handler.createThought(
+      input({
+        frameOfDiscernment,
+        beliefFunctions: [radar, infrared],
+        decisions: [
+          {
+            id: 'd-truck',
+            name: 'Treat as truck',
+            selectedHypothesis: ['Truck'],
+            alternatives: [{ hypothesis: ['Car'], expectedUtility: 0, risk: 0 }],
+          },
+          { id: 'd-tank', name: 'Treat as tank', selectedHypothesis: ['Tank'], alternatives: [] },
+        ],
+      }),
+      'session',
+    );
+
+    const [truck, tank] = thought.decisions!;
+    expect(tank.rank).toBe(1);
+    expect(truck.rank).toBe(2);
+    expect(tank.pignisticProbability).toBeGreaterThan(truck.pignisticProbability!);
+    expect(truck.alternatives[0].pignisticProbability).toBeCloseTo(0.2 / 3 / 0.7);
+    expect(handler.getEnhancements(thought).suggestions).toContain(
+      `Decision 'Treat as tank' ranks first, with BetP ${tank.pignisticProbability!.toFixed(3)}`,
+    );
+  });
+});
+
+describe('EvidentialHandler offers alternatives to a high conflict', () => {
+  it("warns when Dempster's rule meets a high conflict, and shows Yager's rule and PCR5", () => {
+    const thought = handler.createThought(input(doctors), 'session');
+    const enhancements = handler.getEnhancements(thought);
+
+    expect(enhancements.metrics!.conflictMass).toBeCloseTo(0.9999);
+    expect(enhancements.warnings).toContain(
+      "Conflict K = 0.9999 between the belief functions is high; Dempster's rule gives {tumour} 1.0000",
+    );
+    expect(enhancements.suggestions).toContain(
+      "Yager's rule gives {meningitis, concussion, tumour} 0.9999, {tumour} 0.0001",
+    );
+    expect(enhancements.suggestions).toContain('PCR5 gives {meningitis} 0.4999, {concussion} 0.4999, {tumour} 0.0003');
+  });
+
+  it('warns on total conflict and keeps the rest of the thought', () => {
+    const conflicting = input({
+      frameOfDiscernment,
+      beliefFunctions: [source('s1', [[['Tank'], 1]]), source('s2', [[['Truck'], 1]])],
+    });
+    const thought = handler.createThought(conflicting, 'session');
+    const result = handler.validate(conflicting);
+
+    expect(thought.combinedBelief).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      "The belief functions are in total conflict (K = 1), so Dempster's rule cannot combine them",
+    );
+    expect(
+      handler.createThought({ ...conflicting, combinationRule: 'yager' } as ThinkingToolInput, 'session')
+        .combinedBelief!.conflictMass,
+    ).toBe(1);
+  });
+});
+
+describe('EvidentialHandler checks claims as warnings', () => {
+  it('warns on a combined belief and belief interval that disagree with the computed ones', () => {
+    const result = handler.validate(
+      input({
+        frameOfDiscernment,
+        beliefFunctions: [radar, infrared],
+        combinedBelief: {
+          id: 'mine',
+          source: 'radar, infrared',
+          massAssignments: [
+            { hypothesisSet: ['Tank'], mass: 0.6, justification: '' },
+            { hypothesisSet: ['Truck'], mass: 0.286, justification: '' },
+            { hypothesisSet: frameOfDiscernment, mass: 0.114, justification: '' },
+          ],
+          conflictMass: 0,
+        },
+        plausibility: {
+          id: 'mine',
+          assignments: [{ hypothesisSet: ['Car'], belief: 0, plausibility: 0.2, uncertaintyInterval: [0, 0.2] }],
+        },
+      }),
+    );
+
+    expect(result.valid).toBe(true);
+    const messages = result.warnings.map((w) => w.message);
+    expect(messages).toContain(
+      'combinedBelief claims conflict 0.0000, but the belief functions conflict with K = 0.3000',
+    );
+    expect(messages).toContain("combinedBelief puts 0.600 on {Tank}, but Dempster's rule gives 0.429");
+    expect(messages).toContain('Pl({Car}) is 0.286, not 0.200 as claimed');
+    expect(messages.some((m) => m.includes('{Truck}'))).toBe(false);
+  });
+
+  it('warns on hypotheses outside the frame, unreadable functions and unknown rules', () => {
+    const result = handler.validate(
+      input({
+        frameOfDiscernment: ['Tank', 'Truck'],
+        combinationRule: 'murphy',
+        beliefFunctions: [radar, { id: 'legacy', source: 'x', massAssignments: [{ focalElement: ['Tank'], mass: 1 }] }],
+      }),
+    );
+
+    expect(result.valid).toBe(true);
+    const messages = result.warnings.map((w) => w.message);
+    expect(messages).toContain("Unknown combination rule 'murphy'; Dempster's rule was used");
+    expect(messages).toContain(
+      "Belief function 'radar' assigns mass to 'Car', which is not in the frame of discernment",
+    );
+    expect(messages).toContain(
+      "Belief function 'legacy' has mass assignments without a hypothesisSet, so it was left out of the combination",
+    );
+  });
+
+  it('passes a combined belief through when there are no belief functions to combine', () => {
+    const claimed = { id: 'given', source: 'elsewhere', massAssignments: [], conflictMass: 0.2 };
+    const thought = handler.createThought(input({ frameOfDiscernment, combinedBelief: claimed }), 'session');
+    expect(thought.combinedBelief).toEqual(claimed);
+    expect(thought.combinationRule).toBeUndefined();
+  });
+});
+
+describe('deepthinking_probabilistic advertises the evidential inputs', () => {
+  it('accepts belief functions, a combination rule and decisions', () => {
+    const parsed = toolSchemas.deepthinking_probabilistic.parse({
+      thought: 'Combining.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'evidential',
+      frameOfDiscernment,
+      beliefFunctions: [radar, infrared],
+      combinationRule: 'yager',
+      decisions: [{ id: 'd1', selectedHypothesis: ['Tank'] }],
+    }) as Record<string, unknown>;
+
+    expect(parsed.beliefFunctions).toHaveLength(2);
+    expect(parsed.combinationRule).toBe('yager');
+    expect(parsed.decisions).toHaveLength(1);
+  });
+});
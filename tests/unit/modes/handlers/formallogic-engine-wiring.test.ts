@@ -0,0 +1,362 @@
+/**
+ * FormalLogicHandler must report what the propositional engine in
+ * `src/modes/formallogic/` computes, not what the caller claims.
+ *
+ * The handler used to pass `truthTable` and `satisfiability` through from the
+ * input untouched, so a caller could call a contradiction satisfiable or an
+ * invalid argument valid. These tests pin the wiring: truth tables,
+ * satisfiability, validity, equivalence and normal forms come from parsing
+ * the formulas and solving.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: an unreadable formula is a
+ * warning, and an argument written in prose is left alone.
+ */
+import { describe, it, expect } from 'vitest';
+import { FormalLogicHandler } from '../../../../src/modes/handlers/FormalLogicHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new FormalLogicHandler();
+
+const input = inputFor('formallogic', 'Checking the argument.');
+
+const propositions = [
+  { id: 'rain', symbol: 'p', statement: 'It rains', type: 'atomic' },
+  { id: 'wet', symbol: 'q', statement: 'The street is wet', type: 'atomic' },
+];
+
+describe('FormalLogicHandler computes truth tables and satisfiability', () => {
+  it('builds the truth table with proposition IDs as columns', () => {
+    const thought = handler.createThought(
+      input({ propositions, formula: '(p -> q) & p -> q', normalForms: ['cnf'] }),
+      'session-1',
+    );
+
+    expect(thought.truthTable).toMatchObject({
+      propositions: ['rain', 'wet'],
+      formula: '(p -> q) & p -> q',
+      isTautology: true,
+      isContradiction: false,
+      isContingent: false,
+    });
+    expect(thought.truthTable!.rows).toHaveLength(4);
+    expect(thought.truthTable!.rows[1]).toEqual({
+      rowNumber: 2,
+      assignments: { rain: true, wet: false },
+      result: true,
+    });
+    expect(handler.validate(input({ propositions, formula: '(p -> q) & p -> q' })).valid).toBe(true);
+
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.metrics).toMatchObject({
+      truthTableRows: 4,
+      satisfyingRows: 4,
+    });
+    expect(enhancements.suggestions).toContain('Formula is a tautology');
+    expect(enhancements.suggestions).toContain('CNF: ⊤');
+  });
+
+  it('overrides a claimed satisfiability and warns about it', () => {
+    const claimed = input({
+      formula: 'p & ~p',
+      satisfiability: { satisfiable: true },
+    });
+    const thought = handler.createThought(claimed, 'session-1');
+
+    expect(thought.satisfiability).toMatchObject({
+      satisfiable: false,
+      method: 'cdcl',
+      latex: 'p \\land \\neg p',
+    });
+    expect(thought.satisfiability!.model).toBeUndefined();
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(
+      'Formula is unsatisfiable, not satisfiable as claimed',
+    );
+    expect(handler.getEnhancements(thought).suggestions).toContain('Formula is unsatisfiable (a contradiction)');
+  });
+
+  it('gives a model of a satisfiable formula and its normal forms', () => {
+    const thought = handler.createThought(
+      input({ satisfiability: { formula: '(p | q) & ~p' }, normalForms: ['cnf', 'dnf'] }),
+      'session-1',
+    );
+
+    expect(thought.satisfiability!.model).toEqual({ p: false, q: true });
+    expect(thought.normalForm).toMatchObject({
+      original: '(p | q) & ~p',
+      cnf: '¬p ∧ (p ∨ q)',
+      dnf: '¬p ∧ q',
+    });
+    expect(handler.getEnhancements(thought).suggestions).toContain('Formula is satisfiable: p = F, q = T');
+  });
+
+  it('computes only the normal forms asked for', () => {
+    const asked = handler.createThought(input({ formula: 'p -> q', normalForms: ['nnf'] }), 'session-1').normalForm!;
+
+    expect(handler.createThought(input({ formula: 'p -> q' }), 'session-1').normalForm).toBeUndefined();
+    expect(asked.nnf).toBe('¬p ∨ q');
+    expect(asked.cnf).toBeUndefined();
+    expect(asked.dnf).toBeUndefined();
+  });
+
+  it('returns quickly from deeply nested biconditionals', () => {
+    // Each ↔ writes both sides out twice, so the NNF of 40 of them has 2^40 copies of the innermost
+    const nested = Array.from({ length: 41 }, (_, i) => `p${i % 4}`).reduce((inner, p) => `(${p} <-> ${inner})`);
+    const asked = input({ formula: nested, normalForms: ['nnf', 'cnf', 'dnf'] });
+    const start = Date.now();
+    const thought = handler.createThought(asked, 'session-1');
+    const result = handler.validate(asked);
+
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(thought.truthTable!.rows).toHaveLength(16);
+    expect(thought.normalForm).toMatchObject({ original: nested });
+    expect(thought.normalForm!.nnf).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain('Formula is too large for its NNF to be computed');
+  });
+
+  it('warns about a truth table that misclassifies the formula', () => {
+    const result = handler.validate(input({ truthTable: { formula: 'p | ~p', isTautology: false } }));
+    expect(result.warnings.map((w) => w.message)).toContain('Formula is a tautology, unlike the claimed truth table');
+  });
+
+  it('warns about an unreadable formula without rejecting it', () => {
+    const broken = input({ formula: 'p -> -> q' });
+    const result = handler.validate(broken);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain("Formula cannot be parsed: Unexpected '->' at 5");
+    expect(handler.createThought(broken, 'session-1').truthTable).toBeUndefined();
+  });
+});
+
+describe('FormalLogicHandler checks arguments and equivalences', () => {
+  it('finds the counterexample to an invalid argument', () => {
+    const thought = handler.createThought(input({ premises: ['p -> q', 'q'], conclusion: 'p' }), 'session-1');
+
+    expect(thought.validity).toMatchObject({
+      valid: false,
+      method: 'cdcl',
+      counterexample: { p: false, q: true },
+      argument: { latex: 'p \\rightarrow q, q \\vdash p' },
+    });
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'Argument is invalid: p = F, q = T makes every premise true and the conclusion false',
+    );
+  });
+
+  it('confirms a valid argument', () => {
+    const thought = handler.createThought(input({ premises: ['p -> q', '~q'], conclusion: '~p' }), 'session-1');
+    expect(thought.validity!.valid).toBe(true);
+    expect(handler.getEnhancements(thought).suggestions).toContain(
+      'Argument is valid: the premises entail the conclusion',
+    );
+  });
+
+  it('leaves an argument written in prose alone', () => {
+    const prose = input({
+      premises: ['All men are mortal', 'Socrates is a man'],
+      conclusion: 'Socrates is mortal',
+    });
+
+    expect(handler.createThought(prose, 'session-1').validity).toBeUndefined();
+    expect(handler.validate(prose).warnings.some((w) => w.message.startsWith('Formula cannot be parsed'))).toBe(false);
+  });
+
+  it('overrides a claimed equivalence with the point where the formulas differ', () => {
+    const claimed = input({
+      equivalence: {
+        formula1: '~(p & q)',
+        formula2: '~p & ~q',
+        equivalent: true,
+      },
+    });
+    const thought = handler.createThought(claimed, 'session-1');
+
+    expect(thought.equivalence).toMatchObject({ equivalent: false });
+    expect(thought.equivalence!.proof).toMatch(/^They differ at p = [TF], q = [TF]$/);
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(
+      'Formulas are not equivalent, unlike the claim',
+    );
+    expect(
+      handler
+        .getEnhancements(thought)
+        .suggestions!.some((s) => s.startsWith('Formulas are not equivalent: they differ at')),
+    ).toBe(true);
+  });
+
+  it('receives the formulas through the scientific tool', () => {
+    const parsed = toolSchemas.deepthinking_scientific.parse({
+      thought: 'De Morgan',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'formallogic',
+      formula: '¬(p ∧ q)',
+      normalForms: ['cnf'],
+      equivalence: { formula1: '¬(p ∧ q)', formula2: '¬p ∨ ¬q' },
+      satisfiability: { satisfiable: true },
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+
+    expect(thought.equivalence!.equivalent).toBe(true);
+    expect(thought.satisfiability!.satisfiable).toBe(true);
+    expect(thought.normalForm!.cnf).toBe('¬p ∨ ¬q');
+  });
+});
+
+describe('FormalLogicHandler checks first-order arguments by resolution', () => {
+  it('proves a quantified argument with its refutation', () => {
+    const thought = handler.createThought(
+      input({ premises: ['∀x (Man(x) → Mortal(x))', 'Man(socrates)'], conclusion: 'Mortal(socrates)' }),
+      'session-1',
+    );
+
+    expect(thought.validity).toMatchObject({
+      valid: true,
+      method: 'resolution',
+      argument: { latex: '\\forall x\\, (Man(x) \\rightarrow Mortal(x)), Man(socrates) \\vdash Mortal(socrates)' },
+    });
+    expect(thought.validity!.proofTrace![4]).toBe('5. □  [resolution 4, 3]');
+  });
+
+  it('gives the countermodel to an invalid one', () => {
+    const thought = handler.createThought(
+      input({ premises: ['∀x (Man(x) → Mortal(x))', 'Mortal(socrates)'], conclusion: 'Man(socrates)' }),
+      'session-1',
+    );
+
+    expect(thought.validity).toMatchObject({
+      valid: false,
+      counterexample: { 'Man(socrates)': false, 'Mortal(socrates)': true },
+    });
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'Argument is invalid: in the model over domain {socrates} with Man(socrates) false, Mortal(socrates) true, every premise is true and the conclusion false',
+    );
+  });
+
+  it('warns about an argument it cannot decide instead of calling its premises unreadable', () => {
+    const open = input({ premises: ['∀x (P(x) → P(f(x)))', 'P(a)'], conclusion: 'Q' });
+    const messages = handler.validate(open).warnings.map((w) => w.message);
+
+    expect(messages.some((m) => m.startsWith('Argument could not be decided by resolution: '))).toBe(true);
+    expect(messages.some((m) => m.startsWith('Formula cannot be parsed'))).toBe(false);
+  });
+
+  it('stops at the step limit asked for and warns about one past its cap', () => {
+    const open = input({ premises: ['∀x (P(x) → P(f(x)))', 'P(a)'], conclusion: 'Q', resolution: { maxSteps: 25 } });
+    const capped = input({
+      premises: ['∀x (Man(x) → Mortal(x))', 'Man(socrates)'],
+      conclusion: 'Mortal(socrates)',
+      resolution: { timeLimitMs: 60_000 },
+    });
+
+    expect(handler.validate(open).warnings.map((w) => w.message)).toContain(
+      'Argument could not be decided by resolution: Step limit of 25 reached',
+    );
+    expect(handler.validate(capped).warnings.map((w) => w.message)).toContain(
+      'Resolution is capped at 5000 ms; 60000 were asked for',
+    );
+    expect(handler.createThought(capped, 'session-1').validity!.valid).toBe(true);
+  });
+});
+
+const syllogism = (steps: Record<string, unknown>[] = []) => ({
+  theorem: 'p → q, q → r ⊢ p → r',
+  technique: 'natural_deduction',
+  steps: [
+    { stepNumber: 1, statement: 'p -> q', justification: 'Premise' },
+    { stepNumber: 2, statement: 'q -> r', justification: 'Premise' },
+    { stepNumber: 3, statement: 'p', justification: 'Assumption' },
+    { stepNumber: 4, statement: 'q', justification: '→E', referencesSteps: [1, 3] },
+    { stepNumber: 5, statement: 'r', justification: '→E', referencesSteps: [2, 4] },
+    { stepNumber: 6, statement: 'p -> r', justification: '→I', referencesSteps: [3, 5] },
+    ...steps,
+  ],
+  conclusion: 'p -> r',
+});
+
+describe('FormalLogicHandler checks proofs by natural deduction', () => {
+  it('marks a proof whose every step follows as valid', () => {
+    const thought = handler.createThought(input({ proof: { ...syllogism(), valid: false } }), 'session-1');
+
+    expect(thought.proof!.valid).toBe(true);
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.suggestions).toContain('Proof checks by natural deduction: p → q, q → r ⊢ p → r');
+    expect(enhancements.metrics!.checkedProofSteps).toBe(6);
+  });
+
+  it('reports the first step that does not follow', () => {
+    const broken = syllogism();
+    broken.steps[4] = { stepNumber: 5, statement: 'r', justification: '→E', referencesSteps: [2, 3] };
+    const claimed = input({ proof: { ...broken, valid: true } });
+    const thought = handler.createThought(claimed, 'session-1');
+
+    expect(thought.proof!.valid).toBe(false);
+    const message =
+      'Proof step 5 does not follow: Modus ponens from q → r needs its antecedent q among the cited steps';
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(message);
+    expect(handler.getEnhancements(thought).warnings).toContain(message);
+  });
+
+  it('warns about a proof that ends short of its conclusion or leaves an assumption open', () => {
+    const short = input({ proof: { ...syllogism(), conclusion: 'p -> q' } });
+    expect(handler.createThought(short, 'session-1').proof!.valid).toBe(false);
+    expect(handler.validate(short).warnings.map((w) => w.message)).toContain(
+      'Proof ends with p -> r, not its conclusion p -> q',
+    );
+
+    const open = input({
+      proof: {
+        theorem: 'q',
+        steps: [
+          { stepNumber: 1, statement: 'p -> q', justification: 'Premise' },
+          { stepNumber: 2, statement: 'p', justification: 'Assumption' },
+          { stepNumber: 3, statement: 'q', justification: 'MP', referencesSteps: [1, 2] },
+        ],
+        conclusion: 'q',
+        valid: true,
+      },
+    });
+    // The open assumption is reported, but does not overturn the claimed validity
+    expect(handler.createThought(open, 'session-1').proof!.valid).toBe(true);
+    expect(handler.validate(open).warnings.map((w) => w.message)).toContain(
+      'Proof leaves the assumption at step 2 undischarged',
+    );
+  });
+
+  it('leaves a prose proof and its claimed validity alone', () => {
+    const prose = input({
+      proof: {
+        theorem: 'Socrates is mortal',
+        steps: [
+          { stepNumber: 1, statement: 'All men are mortal.', justification: 'premise' },
+          { stepNumber: 2, statement: 'Socrates is a man.', justification: 'premise' },
+          { stepNumber: 3, statement: 'Socrates is mortal.', justification: 'instantiation', referencesSteps: [1, 2] },
+        ],
+        conclusion: 'Socrates is mortal',
+        valid: true,
+      },
+    });
+    const thought = handler.createThought(prose, 'session-1');
+
+    expect(thought.proof!.valid).toBe(true);
+    expect(handler.validate(prose).warnings.some((w) => w.field.startsWith('proof.'))).toBe(false);
+    expect(handler.getEnhancements(thought).suggestions!.some((s) => s.startsWith('Proof step'))).toBe(false);
+  });
+
+  it('receives the proof through the scientific tool', () => {
+    const parsed = toolSchemas.deepthinking_scientific.parse({
+      thought: 'Chaining conditionals',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'formallogic',
+      proof: syllogism(),
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+    expect(thought.proof!.valid).toBe(true);
+    expect(thought.proof!.steps[5].referencesSteps).toEqual([3, 5]);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * GameTheoryHandler must solve two-player games in mixed strategies with the
+ * engine in `src/modes/gametheory/`, and zero-sum games exactly.
+ *
+ * The handler used to search pure profiles only. Matching pennies came back
+ * with no equilibria and a suggestion to "consider mixed strategies". These
+ * tests pin the wiring: mixed equilibria carry probability vectors and
+ * expected payoffs, and zero-sum games get a minimax analysis from linear
+ * programming. Game trees are solved by backward induction, and the
+ * subgame-perfect path is written to `backwardInduction`, where the visual
+ * exporter highlights it. Cooperative games get their Shapley value, core
+ * and nucleolus from the characteristic function.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: a game the engine cannot
+ * read (more than two players, missing profiles) still gets the
+ * pure-strategy analysis, a malformed tree is a warning, and equilibria,
+ * minimax or backward-induction analyses the caller supplies are kept. So
+ * are proposed core allocations, Shapley values and nucleoli; they are
+ * checked in `allocationChecks` instead of replaced. Only properties of
+ * the game itself (superadditive, convex, core non-empty) are recomputed.
+ */
+import { describe, it, expect } from 'vitest';
+import { GameTheoryHandler } from '../../../../src/modes/handlers/GameTheoryHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import { exportGameTree } from '../../../../src/export/visual/modes/game-theory.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new GameTheoryHandler();
+
+const input = inputFor('gametheory', 'Solving the game.');
+
+function twoPlayer(
+  rows: string[],
+  columns: string[],
+  payoffs: [number, number][][],
+): Record<string, unknown> {
+  return {
+    players: [
+      { id: 'p1', name: 'Row', isRational: true, availableStrategies: rows },
+      { id: 'p2', name: 'Column', isRational: true, availableStrategies: columns },
+    ],
+    payoffMatrix: {
+      players: ['p1', 'p2'],
+      dimensions: [rows.length, columns.length],
+      payoffs: rows.flatMap((r, i) =>
+        columns.map((c, j) => ({ strategyProfile: [r, c], payoffs: payoffs[i][j] })),
+      ),
+    },
+  };
+}
+
+const matchingPennies = twoPlayer(['H', 'T'], ['H', 'T'], [
+  [[1, -1], [-1, 1]],
+  [[-1, 1], [1, -1]],
+]);
+
+const battleOfTheSexes = twoPlayer(['Opera', 'Football'], ['Opera', 'Football'], [
+  [[2, 1], [0, 0]],
+  [[0, 0], [1, 2]],
+]);
+
+describe('GameTheoryHandler uses the equilibrium engine', () => {
+  it('finds the mixed equilibrium of matching pennies', () => {
+    const thought = handler.createThought(input(matchingPennies), 'session-1');
+
+    expect(thought.nashEquilibria).toHaveLength(1);
+    expect(thought.nashEquilibria![0]).toMatchObject({
+      strategyProfile: ['H+T', 'H+T'],
+      payoffs: [0, 0],
+      type: 'mixed',
+      isStrict: false,
+      mixedStrategies: [
+        { H: 0.5, T: 0.5 },
+        { H: 0.5, T: 0.5 },
+      ],
+    });
+  });
+
+  it('lists pure equilibria before the mixed one', () => {
+    const thought = handler.createThought(input(battleOfTheSexes), 'session-1');
+    const equilibria = thought.nashEquilibria!;
+
+    expect(equilibria.map((eq) => eq.type)).toEqual(['pure', 'pure', 'mixed']);
+    const [row, column] = equilibria[2].mixedStrategies!;
+    expect(row.Opera).toBeCloseTo(2 / 3, 10);
+    expect(column.Opera).toBeCloseTo(1 / 3, 10);
+    expect(equilibria[2].payoffs[0]).toBeCloseTo(2 / 3, 10);
+    expect(equilibria[2].payoffs[1]).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('solves a zero-sum game by linear programming', () => {
+    const thought = handler.createThought(input(matchingPennies), 'session-1');
+
+    expect(thought.minimaxAnalysis).toMatchObject({
+      gameValue: 0,
+      maximin: -1,
+      minimax: 1,
+      hasSaddlePoint: false,
+      optimalRowStrategy: [0.5, 0.5],
+      optimalColumnStrategy: [0.5, 0.5],
+      solutionMethod: 'linear_programming',
+      securityLevels: { rowPlayer: 0, columnPlayer: 0 },
+    });
+    expect(thought.minimaxAnalysis!.proofStructure?.theorem).toBe('von_neumann_1928');
+  });
+
+  it('leaves non-zero-sum games without a minimax analysis', () => {
+    const thought = handler.createThought(input(battleOfTheSexes), 'session-1');
+    expect(thought.minimaxAnalysis).toBeUndefined();
+  });
+
+  it('reports the mixed solution in its enhancements', () => {
+    const thought = handler.createThought(input(matchingPennies), 'session-1');
+    const enhancements = handler.getEnhancements(thought);
+
+    expect(enhancements.metrics?.gameValue).toBe(0);
+    expect(enhancements.suggestions).toContain(
+      'No pure strategy Nash equilibrium: equilibrium play is in mixed strategies.',
+    );
+    expect(enhancements.suggestions).toContain(
+      'Mixed equilibrium: player 1 plays H 50%, T 50%; player 2 plays H 50%, T 50% (expected payoffs 0, 0)',
+    );
+  });
+});
+
+describe('GameTheoryHandler stays advisory', () => {
+  it('keeps caller-supplied equilibria and minimax analysis', () => {
+    const nashEquilibria = [
+      { id: 'ne', strategyProfile: ['H', 'H'], payoffs: [1, -1], type: 'pure', isStrict: true, stability: 1 },
+    ];
+    const minimaxAnalysis = { gameValue: 7, maximin: 7, minimax: 7, hasSaddlePoint: true };
+    const thought = handler.createThought(
+      input({ ...matchingPennies, nashEquilibria, minimaxAnalysis }),
+      'session-1',
+    );
+
+    expect(thought.nashEquilibria).toEqual(nashEquilibria);
+    expect(thought.minimaxAnalysis).toEqual(minimaxAnalysis);
+  });
+
+  it('falls back to pure strategies when a profile is missing', () => {
+    const game = twoPlayer(['C', 'D'], ['C', 'D'], [
+      [[3, 3], [0, 5]],
+      [[5, 0], [1, 1]],
+    ]);
+    const matrix = game.payoffMatrix as { payoffs: unknown[] };
+    matrix.payoffs = matrix.payoffs.slice(0, 3);
+
+    const thought = handler.createThought(input(game), 'session-1');
+
+    expect(thought.nashEquilibria?.every((eq) => eq.type === 'pure')).toBe(true);
+    expect(thought.minimaxAnalysis).toBeUndefined();
+  });
+});
+
+/** Entrant moves first; the incumbent answers entry with a fight or accommodation */
+const entryGame = {
+  game: {
+    id: 'entry',
+    name: 'Entry deterrence',
+    description: 'Sequential entry game',
+    type: 'extensive_form',
+    numPlayers: 2,
+    isZeroSum: false,
+    isPerfectInformation: true,
+  },
+  players: [
+    { id: 'entrant', name: 'Entrant', isRational: true, availableStrategies: [] },
+    { id: 'incumbent', name: 'Incumbent', isRational: true, availableStrategies: [] },
+  ],
+  gameTree: {
+    rootNode: 'start',
+    nodes: [
+      { id: 'start', type: 'decision', playerId: 'entrant', childNodes: ['out', 'in'] },
+      { id: 'out', type: 'terminal', parentNode: 'start', action: 'Stay out', childNodes: [], payoffs: [0, 2] },
+      { id: 'in', type: 'decision', playerId: 'incumbent', parentNode: 'start', action: 'Enter', childNodes: ['fight', 'accommodate'] },
+      { id: 'fight', type: 'terminal', parentNode: 'in', action: 'Fight', childNodes: [], payoffs: [-1, -1] },
+      { id: 'accommodate', type: 'terminal', parentNode: 'in', action: 'Accommodate', childNodes: [], payoffs: [1, 1] },
+    ],
+  },
+};
+
+describe('GameTheoryHandler solves game trees by backward induction', () => {
+  it('accepts the backward_induction thought type', () => {
+    expect(handler.supportsThoughtType('backward_induction')).toBe(true);
+    const thought = handler.createThought(input({ ...entryGame, thoughtType: 'backward_induction' }), 'session-1');
+    expect(thought.thoughtType).toBe('backward_induction');
+  });
+
+  it('writes the subgame-perfect equilibrium into backwardInduction', () => {
+    const thought = handler.createThought(input(entryGame), 'session-1');
+
+    expect(thought.backwardInduction).toEqual({
+      subgamePerfectEquilibrium: ['start:Enter', 'in:Accommodate'],
+      optimalPath: ['start', 'in', 'accommodate'],
+      expectedPayoffs: [1, 1],
+    });
+    expect(handler.getEnhancements(thought).suggestions).toContain(
+      'Subgame-perfect play: start → in → accommodate (payoffs 1, 1)',
+    );
+  });
+
+  it('flags information sets that need another solution concept', () => {
+    const thought = handler.createThought(
+      input({
+        ...entryGame,
+        gameTree: {
+          ...entryGame.gameTree,
+          informationSets: [
+            { id: 'unsure', playerId: 'incumbent', nodes: ['in', 'out'], availableActions: ['Fight', 'Accommodate'] },
+          ],
+        },
+      }),
+      'session-1',
+    );
+
+    expect(thought.backwardInduction).toMatchObject({
+      optimalPath: [],
+      expectedPayoffs: [],
+      imperfectInformationSets: ['unsure'],
+    });
+    expect(handler.getEnhancements(thought).warnings).toContainEqual(
+      expect.stringContaining('Information sets unsure hold more than one node'),
+    );
+  });
+
+  it('survives the strategic tool schema', () => {
+    const parsed = toolSchemas.deepthinking_strategic.parse({
+      thought: 'Entry',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'gametheory',
+      gameTree: entryGame.gameTree,
+    });
+    expect(parsed.gameTree).toEqual(entryGame.gameTree);
+  });
+
+  it('gives the exporter a path to highlight', () => {
+    const thought = handler.createThought(input(entryGame), 'session-1');
+
+    const mermaid = exportGameTree(thought, { format: 'mermaid' });
+    expect(mermaid).toContain('start ==>|Enter| in');
+    expect(mermaid).toContain('in ==>|Accommodate| accommodate');
+    expect(mermaid).toContain('in -->|Fight| fight');
+    expect(mermaid).toMatch(/style accommodate fill:#81c784,stroke-width:3px/);
+
+    const dot = exportGameTree(thought, { format: 'dot' });
+    expect(dot).toMatch(/start -> in \[.*style=bold/);
+    expect(dot).not.toMatch(/in -> fight \[.*style=bold/);
+  });
+
+  it('warns about a malformed tree and keeps a supplied solution', () => {
+    const gameTree = { rootNode: 'missing', nodes: entryGame.gameTree.nodes };
+    const validation = handler.validate(input({ ...entryGame, gameTree }));
+    expect(validation.valid).toBe(true);
+    expect(validation.warnings.map((w) => w.message)).toContain(
+      'Game tree cannot be solved: Root node missing does not exist',
+    );
+    expect(handler.createThought(input({ ...entryGame, gameTree }), 'session-1').backwardInduction).toBeUndefined();
+
+    const backwardInduction = { subgamePerfectEquilibrium: ['start:Stay out'], optimalPath: ['start', 'out'], expectedPayoffs: [0, 2] };
+    const thought = handler.createThought(input({ ...entryGame, backwardInduction }), 'session-1');
+    expect(thought.backwardInduction).toEqual(backwardInduction);
+  });
+});
+
+/** One left-glove owner, two right-glove owners; a matched pair is worth 1 */
+const gloveGame = {
+  id: 'gloves',
+  players: ['L', 'R1', 'R2'],
+  characteristicFunction: [
+    { coalition: ['L', 'R1'], value: 1 },
+    { coalition: ['L', 'R2'], value: 1 },
+    { coalition: ['L', 'R1', 'R2'], value: 1 },
+  ],
+  isSuperadditive: false,
+  isConvex: true,
+  hasNonEmptyCore: false,
+};
+
+describe('GameTheoryHandler solves cooperative games', () => {
+  it('writes the Shapley value, core and nucleolus into the game', () => {
+    const thought = handler.createThought(input({ cooperativeGame: gloveGame }), 'session-1');
+    const game = thought.cooperativeGame!;
+
+    expect(game.shapleyValues!.L).toBeCloseTo(2 / 3, 8);
+    expect(game.shapleyValues!.R1).toBeCloseTo(1 / 6, 8);
+    expect(game).toMatchObject({
+      isSuperadditive: true,
+      isConvex: false,
+      hasNonEmptyCore: true,
+      leastCoreEpsilon: 0,
+      nucleolus: [1, 0, 0],
+      core: [{ allocation: { L: 1, R1: 0, R2: 0 }, isImputation: true, distanceToNucleolus: 0 }],
+    });
+    expect(game.allocationChecks).toBeUndefined();
+
+    const suggestions = handler.getEnhancements(thought).suggestions;
+    expect(suggestions).toContain('Shapley value: L 0.6667, R1 0.1667, R2 0.1667');
+    expect(suggestions).toContain('The core is non-empty; the nucleolus is L 1, R1 0, R2 0');
+  });
+
+  it('checks the allocations the caller proposes, and keeps them', () => {
+    const core = [{ allocation: { L: 0.5, R1: 0.25, R2: 0.25 }, isImputation: true }];
+    const shapleyValues = { L: 1 / 3, R1: 1 / 3, R2: 1 / 3 };
+    const thought = handler.createThought(
+      input({ cooperativeGame: { ...gloveGame, core, shapleyValues } }),
+      'session-1',
+    );
+    const game = thought.cooperativeGame!;
+
+    expect(game.shapleyValues).toEqual(shapleyValues);
+    expect(game.core![0].allocation).toEqual(core[0].allocation);
+    expect(game.core![0].distanceToNucleolus).toBeCloseTo(Math.sqrt(0.375), 8);
+    expect(game.allocationChecks![0]).toMatchObject({
+      source: 'core',
+      isEfficient: true,
+      isIndividuallyRational: true,
+      isInCore: false,
+      blockingCoalitions: [['L', 'R1'], ['L', 'R2']],
+    });
+    expect(game.allocationChecks![1]).toMatchObject({ source: 'shapley_value', matchesComputed: false });
+    expect(game.allocationChecks![1].maxDeviation).toBeCloseTo(1 / 3, 8);
+
+    const warnings = handler.getEnhancements(thought).warnings;
+    expect(warnings).toContain(
+      'Proposed core allocation (L 0.5, R1 0.25, R2 0.25) is not in the core: blocked by {L, R1}, {L, R2}',
+    );
+    expect(warnings).toContain(
+      'Supplied Shapley value (L 0.3333, R1 0.3333, R2 0.3333) differs from the computed one by up to 0.3333',
+    );
+  });
+
+  it('warns when the core is empty', () => {
+    const majority = {
+      players: ['a', 'b', 'c'],
+      characteristicFunction: [
+        { coalition: ['a', 'b'], value: 1 },
+        { coalition: ['a', 'c'], value: 1 },
+        { coalition: ['b', 'c'], value: 1 },
+        { coalition: ['a', 'b', 'c'], value: 1 },
+      ],
+    };
+    const thought = handler.createThought(input({ cooperativeGame: majority }), 'session-1');
+
+    expect(thought.cooperativeGame!.hasNonEmptyCore).toBe(false);
+    expect(thought.cooperativeGame!.core).toBeUndefined();
+    expect(handler.getEnhancements(thought).warnings).toContainEqual(
+      expect.stringContaining('The core is empty'),
+    );
+  });
+
+  it('warns about a game it cannot read and leaves it as it is', () => {
+    const broken = { ...gloveGame, characteristicFunction: [{ coalition: ['L', 'Q'], value: 1 }] };
+    const validation = handler.validate(input({ cooperativeGame: broken }));
+    expect(validation.valid).toBe(true);
+    expect(validation.warnings.map((w) => w.message)).toContain(
+      'Cooperative game cannot be solved: Coalition member Q is not a player',
+    );
+    expect(handler.createThought(input({ cooperativeGame: broken }), 'session-1').cooperativeGame).toEqual(broken);
+
+    expect(handler.validate(input({ cooperativeGame: gloveGame })).warnings.map((w) => w.message)).toContain(
+      '4 of the 7 coalitions have no value and count as worth 0',
+    );
+  });
+
+  it('survives the strategic tool schema', () => {
+    const parsed = toolSchemas.deepthinking_strategic.parse({
+      thought: 'Gloves',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'gametheory',
+      cooperativeGame: { players: gloveGame.players, characteristicFunction: gloveGame.characteristicFunction },
+    });
+    expect(parsed.cooperativeGame?.characteristicFunction).toHaveLength(3);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * ModalHandler must evaluate modal formulas in the Kripke model it is given,
+ * and decide modal inferences, not take the caller's word for either.
+ *
+ * The handler used to pass truth values and inference validity through, and
+ * its only frame check was whether an S5 relation was total. These tests pin
+ * the wiring to `src/modes/modal/`: propositions are model-checked at each
+ * world, the frame's properties are checked against the logic system, and
+ * an invalid inference gets the smallest countermodel on that system's
+ * frames.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: content in prose keeps the
+ * old behaviour, and a `custom` system is not checked.
+ */
+import { describe, it, expect } from 'vitest';
+import { ModalHandler } from '../../../../src/modes/handlers/ModalHandler.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new ModalHandler();
+
+const input = inputFor('modal', 'Checking the model.');
+
+// An equivalence relation over two worlds that agree on p and differ on q
+const worlds = [
+  { id: 'w1', name: 'Actual', isActual: true, propositions: { p: true, q: true }, accessibility: ['w1', 'w2'] },
+  { id: 'w2', name: 'Alternative', propositions: { p: true, q: false }, accessibility: ['w1', 'w2'] },
+];
+
+describe('ModalHandler model-checks propositions', () => {
+  it('evaluates each proposition under its operator at the actual world', () => {
+    const thought = handler.createThought(
+      input({
+        modalLogicType: 'S5',
+        modalDomain: 'epistemic',
+        worlds,
+        propositions: [
+          { content: 'p', operator: 'known' },
+          { content: 'q', operator: 'contingent' },
+          { content: 'p ∧ ¬q', operator: 'possible', evaluatedIn: 'Alternative' },
+          { content: 'q', operator: 'necessary', truthValue: true },
+        ],
+      }),
+      'session-1',
+    );
+
+    expect(thought.propositions!.map((p) => [p.evaluatedIn, p.truthValue])).toEqual([
+      ['w1', true],
+      ['w1', true],
+      ['w2', true],
+      ['w1', false],
+    ]);
+    expect(thought.propositions![2]).toMatchObject({ worldsTrue: ['w2'], worldsFalse: ['w1'] });
+    expect(handler.getEnhancements(thought).suggestions).toContain("'q' is not necessary at w1");
+  });
+
+  it('warns about a claimed truth value the model contradicts', () => {
+    const warnings = handler.validate(
+      input({ worlds, propositions: [{ content: 'q', operator: 'necessary', truthValue: true }] }),
+    ).warnings;
+
+    expect(warnings.map((w) => w.message)).toContain("'q' is not necessary at w1, not true as claimed");
+  });
+
+  it('leaves propositions in prose as before', () => {
+    const thought = handler.createThought(
+      input({
+        worlds: [{ id: 'w1', propositions: { 'It rains': true } }],
+        propositions: [{ content: 'It rains', operator: 'possible', truthValue: false }],
+      }),
+      'session-1',
+    );
+    expect(thought.propositions![0]).toMatchObject({ truthValue: false, worldsTrue: ['w1'] });
+    expect(thought.propositions![0].evaluatedIn).toBeUndefined();
+  });
+});
+
+describe('ModalHandler checks the frame against the logic system', () => {
+  it('records the frame properties and accepts a frame that has them', () => {
+    const thought = handler.createThought(input({ modalLogicType: 'S5', worlds }), 'session-1');
+
+    expect(thought.kripkeFrame).toMatchObject({
+      worlds: ['w1', 'w2'],
+      properties: ['reflexive', 'serial', 'symmetric', 'transitive', 'euclidean', 'convergent'],
+      isValid: true,
+    });
+    expect(handler.getEnhancements(thought).warnings).toEqual([]);
+  });
+
+  it('names the property a frame lacks', () => {
+    const chain = input({
+      modalLogicType: 'S4',
+      worlds: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      accessibilityRelations: ['a', 'b', 'c']
+        .flatMap((w) => [{ fromWorld: w, toWorld: w }])
+        .concat([
+          { fromWorld: 'a', toWorld: 'b' },
+          { fromWorld: 'b', toWorld: 'c' },
+        ]),
+    });
+    const message =
+      'The frame is not transitive, as S4 requires: a accesses b and b accesses c, but a does not access c';
+
+    const thought = handler.createThought(chain, 'session-1');
+    expect(thought.kripkeFrame).toMatchObject({ isValid: false, violations: [message] });
+    expect(handler.getEnhancements(thought).warnings).toContain(message);
+    expect(handler.validate(chain).warnings.map((w) => w.message)).toContain(message);
+  });
+});
+
+describe('ModalHandler decides modal inferences', () => {
+  it('replaces a claimed validity with a countermodel', () => {
+    const claimed = input({
+      modalLogicType: 'T',
+      inferences: [{ id: 'four', premises: ['□p'], conclusion: '□□p', valid: true }],
+    });
+    const thought = handler.createThought(claimed, 'session-1');
+
+    expect(thought.inferences![0]).toMatchObject({
+      valid: false,
+      checkedIn: 'T',
+      countermodel: {
+        world: 'w0',
+        accessibility: { w0: ['w0', 'w2'], w1: ['w1'], w2: ['w1', 'w2'] },
+        valuation: { w0: ['p'], w1: [], w2: ['p'] },
+      },
+    });
+    const countermodel = 'countermodel w0 {p} → w0, w2; w1 {} → w1; w2 {p} → w1, w2 at w0';
+    expect(handler.getEnhancements(thought).warnings).toContain(`□p ⊢ □□p is invalid in T: ${countermodel}`);
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(
+      `□p ⊢ □□p is invalid in T, not valid as claimed: ${countermodel}`,
+    );
+  });
+
+  it('confirms a valid inference and corrects a claim that it is invalid', () => {
+    const claimed = input({
+      modalLogicType: 'S5',
+      inferences: [{ premises: ['◇p'], conclusion: '□◇p', valid: false }],
+    });
+
+    expect(handler.createThought(claimed, 'session-1').inferences![0]).toMatchObject({ valid: true, checkedIn: 'S5' });
+    expect(handler.validate(claimed).warnings.map((w) => w.message)).toContain(
+      '◇p ⊢ □◇p is valid in S5, not invalid as claimed',
+    );
+  });
+
+  it('warns about an inference it cannot decide and keeps the claim', () => {
+    const deep = input({
+      modalLogicType: 'S4',
+      inferences: [{ premises: ['□p'], conclusion: '□□□p', valid: true }],
+    });
+
+    expect(handler.createThought(deep, 'session-1').inferences![0].checkedIn).toBeUndefined();
+    expect(handler.validate(deep).warnings.map((w) => w.message)).toContain(
+      '□p ⊢ □□□p could not be decided in S4: a countermodel may need up to 16 worlds',
+    );
+  });
+
+  it('leaves prose and custom systems alone', () => {
+    const prose = handler.createThought(
+      input({ inferences: [{ premises: ['It must rain'], conclusion: 'It rains', valid: true }] }),
+      'session-1',
+    );
+    expect(prose.inferences![0]).toMatchObject({ valid: true });
+    expect(prose.inferences![0].checkedIn).toBeUndefined();
+
+    const custom = handler.createThought(
+      input({ modalLogicType: 'custom', inferences: [{ premises: ['□p'], conclusion: 'p', valid: true }] }),
+      'session-1',
+    );
+    expect(custom.inferences![0].checkedIn).toBeUndefined();
+  });
+
+  it('accepts the checked fields through the scientific tool schema', () => {
+    const parsed = toolSchemas.deepthinking_scientific.parse({
+      thought: 'Knowledge in S5.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'modal',
+      modalLogicType: 'S5',
+      worlds,
+      propositions: [{ content: 'p', operator: 'known', evaluatedIn: 'w2' }],
+      inferences: [{ premises: ['K p'], conclusion: 'K K p' }],
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+
+    expect(thought.propositions![0]).toMatchObject({ evaluatedIn: 'w2', truthValue: true });
+    expect(thought.inferences![0]).toMatchObject({ valid: true, checkedIn: 'S5' });
+  });
+});
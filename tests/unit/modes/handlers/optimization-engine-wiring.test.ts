@@ -0,0 +1,378 @@
+/**
+ * OptimizationHandler must solve linear and mixed-integer models with the
+ * engine in `src/modes/optimization/`.
+ *
+ * The handler used to normalize the caller's problem, solution and
+ * sensitivity analysis and nothing more: a claimed optimum was taken on
+ * trust and every constraint was assumed satisfied. These tests pin the
+ * wiring: the computed optimum lands in `computedSolution`, linear programs
+ * get shadow prices and reduced costs in `analysis`, and a claimed solution
+ * is measured in `optimalityGap`. The strategic tool's own shape (an
+ * `objectiveFunction` string and formula strings in `constraints`) is
+ * solved too.
+ *
+ * Several objectives get a Pareto frontier in `tradeoffAnalysis` instead of
+ * one optimum, with its knee and trade-off rates, and the exporter plots it.
+ * A caller's own candidate set is checked for dominance.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: a formula that is not
+ * linear is a warning, and the caller's solution and analysis are kept.
+ */
+import { describe, it, expect } from 'vitest';
+import { OptimizationHandler } from '../../../../src/modes/handlers/OptimizationHandler.js';
+import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import { exportOptimizationSolution } from '../../../../src/export/visual/modes/optimization.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
+
+const handler = new OptimizationHandler();
+
+const input = inputFor('optimization', 'Solving the model.', { thoughtType: 'solution_search' });
+
+// The textbook production problem, as the strategic tool sends it
+const production = {
+  objectiveFunction: 'maximize 3x + 5y',
+  constraints: ['x <= 4', '2y <= 12', '3x + 2y <= 18'],
+};
+
+describe('OptimizationHandler linear programs', () => {
+  it('solves the tool shape by simplex', () => {
+    const thought = handler.createThought(input(production), 'session-1');
+
+    expect(thought.optimizationConstraints!.map((c) => [c.id, c.formula])).toEqual([
+      ['c1', 'x <= 4'],
+      ['c2', '2y <= 12'],
+      ['c3', '3x + 2y <= 18'],
+    ]);
+    expect(thought.computedSolution).toMatchObject({
+      type: 'optimal',
+      variableValues: { x: 2, y: 6 },
+      objectiveValues: { objective: 36 },
+      method: 'simplex',
+      guarantees: ['proven optimal'],
+    });
+    expect(thought.computedSolution!.constraintSatisfaction.every((c) => c.satisfied)).toBe(true);
+  });
+
+  it('fills the sensitivity analysis from the duals', () => {
+    const thought = handler.createThought(input(production), 'session-1');
+
+    expect(thought.analysis).toMatchObject({
+      shadowPrices: { c1: 0, c2: 1.5, c3: 1 },
+      reducedCosts: { x: 0, y: 0 },
+      criticalConstraints: ['c2', 'c3'],
+    });
+    expect(thought.analysis!.robustness).toBeCloseTo(1 / 3, 8);
+    expect(thought.analysis!.recommendations[0]).toContain('Relax c2 first');
+    const c2 = thought.analysis!.parameters.find((p) => p.parameterId === 'c2');
+    expect(c2).toMatchObject({ type: 'constraint', currentValue: 12, impact: 'high' });
+  });
+
+  it('keeps a sensitivity analysis the caller supplies', () => {
+    const thought = handler.createThought(
+      input({ ...production, analysis: { robustness: 0.9, criticalConstraints: ['c3'] } }),
+      'session-1',
+    );
+    expect(thought.analysis!.robustness).toBe(0.9);
+    expect(thought.analysis!.criticalConstraints).toEqual(['c3']);
+    expect(thought.computedSolution!.type).toBe('optimal');
+  });
+
+  it('reports infeasible and unbounded models', () => {
+    const infeasible = handler.createThought(
+      input({ objectiveFunction: 'max x', constraints: ['x <= 1', 'x >= 2'] }),
+      'session-1',
+    );
+    expect(infeasible.computedSolution!.type).toBe('infeasible');
+    expect(handler.getEnhancements(infeasible).warnings).toContain(
+      'The hard constraints admit no feasible point',
+    );
+
+    const unbounded = handler.createThought(
+      input({ objectiveFunction: 'max x + y', constraints: ['x - y <= 1'] }),
+      'session-1',
+    );
+    expect(unbounded.computedSolution!.type).toBe('unbounded');
+    expect(unbounded.analysis).toBeUndefined();
+  });
+});
+
+describe('OptimizationHandler integer programs', () => {
+  const integerModel = {
+    variables: [
+      { id: 'x', name: 'x', type: 'integer' },
+      { id: 'y', name: 'y', type: 'integer' },
+    ],
+    objectives: [{ id: 'profit', formula: '5x + 8y', type: 'maximize' }],
+    optimizationConstraints: [
+      { id: 'labour', formula: 'x + y <= 6' },
+      { id: 'material', formula: '5x + 9y <= 45' },
+    ],
+  };
+
+  it('solves by branch-and-bound', () => {
+    const thought = handler.createThought(input(integerModel), 'session-1');
+
+    expect(thought.computedSolution).toMatchObject({
+      type: 'optimal',
+      variableValues: { x: 0, y: 5 },
+      objectiveValues: { profit: 40 },
+      method: 'branch-and-bound',
+    });
+    expect(thought.computedSolution!.iterations).toBeGreaterThan(1);
+    // Shadow prices are not defined for an integer program
+    expect(thought.analysis).toBeUndefined();
+  });
+
+  it('ignores soft constraints', () => {
+    const thought = handler.createThought(
+      input({
+        ...integerModel,
+        optimizationConstraints: [
+          ...integerModel.optimizationConstraints,
+          { id: 'wish', formula: 'y <= 1', type: 'soft', penalty: 5 },
+        ],
+      }),
+      'session-1',
+    );
+    expect(thought.computedSolution!.variableValues).toEqual({ x: 0, y: 5 });
+  });
+});
+
+describe('OptimizationHandler claimed solutions', () => {
+  it('measures the gap to the optimum', () => {
+    const thought = handler.createThought(
+      input({ ...production, solution: { type: 'optimal', variables: { x: 4, y: 3 } } }),
+      'session-1',
+    );
+
+    expect(thought.solution!.variableValues).toEqual({ x: 4, y: 3 });
+    expect(thought.solution!.type).toBe('optimal');
+    expect(thought.optimalityGap).toEqual({
+      claimedObjective: 27,
+      optimalObjective: 36,
+      absoluteGap: 9,
+      relativeGap: 0.25,
+      claimedFeasible: true,
+      violatedConstraints: [],
+    });
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'Claimed objective 27 is 9 (25.0%) short of the optimum 36',
+    );
+  });
+
+  it('checks constraints instead of assuming them satisfied', () => {
+    const thought = handler.createThought(
+      input({ ...production, solution: { variables: { x: 4, y: 6 } } }),
+      'session-1',
+    );
+
+    expect(thought.solution!.constraintSatisfaction).toEqual([
+      { constraintId: 'c1', satisfied: true, violation: 0 },
+      { constraintId: 'c2', satisfied: true, violation: 0 },
+      { constraintId: 'c3', satisfied: false, violation: 6 },
+    ]);
+    expect(thought.optimalityGap).toMatchObject({
+      claimedObjective: 42,
+      claimedFeasible: false,
+      violatedConstraints: ['c3'],
+    });
+    expect(handler.getEnhancements(thought).warnings).toContain('Claimed solution violates c3');
+  });
+
+  it('accepts a claimed objective value alone', () => {
+    const optimal = handler.createThought(input({ ...production, solution: { value: '36' } }), 'session-1');
+    expect(optimal.optimalityGap!.absoluteGap).toBe(0);
+    expect(handler.getEnhancements(optimal).suggestions).toContain('Claimed solution is optimal');
+
+    const impossible = handler.createThought(input({ ...production, solution: { value: '40' } }), 'session-1');
+    expect(impossible.optimalityGap!.claimedFeasible).toBe(false);
+  });
+
+  it('flags a claimed integer solution that is fractional', () => {
+    const thought = handler.createThought(
+      input({
+        variables: [{ id: 'n', name: 'n', type: 'integer' }],
+        objectives: [{ id: 'o', formula: 'n', type: 'maximize' }],
+        optimizationConstraints: [{ id: 'cap', formula: '2n <= 3' }],
+        solution: { variableValues: { n: 1.5 } },
+      }),
+      'session-1',
+    );
+    expect(thought.optimalityGap!.violatedConstraints).toEqual(['n']);
+  });
+});
+
+describe('OptimizationHandler stays advisory', () => {
+  it('warns about a formula that is not linear', () => {
+    const result = handler.validate(input({ objectiveFunction: 'max x*y', constraints: ['x + y <= 4'] }));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => w.message)).toContain(
+      'Optimization model cannot be solved: Objective multiplies variables, so it is not linear',
+    );
+    const thought = handler.createThought(
+      input({ objectiveFunction: 'max x*y', constraints: ['x + y <= 4'] }),
+      'session-1',
+    );
+    expect(thought.computedSolution).toBeUndefined();
+  });
+
+  it('leaves prose objectives and nonlinear problems alone, and picks no single optimum for several objectives', () => {
+    const prose = input({ objectiveFunction: 'Maximize customer satisfaction' });
+    expect(handler.validate(prose).warnings.some((w) => w.message.includes('cannot be solved'))).toBe(false);
+    expect(handler.createThought(prose, 'session-1').computedSolution).toBeUndefined();
+
+    const several = handler.createThought(
+      input({
+        constraints: ['x + y <= 4'],
+        objectives: [
+          { formula: 'x', type: 'maximize' },
+          { formula: 'y', type: 'maximize' },
+        ],
+      }),
+      'session-1',
+    );
+    expect(several.computedSolution).toBeUndefined();
+
+    const nonlinear = handler.createThought(
+      input({ ...production, problem: { type: 'nonlinear' } }),
+      'session-1',
+    );
+    expect(nonlinear.computedSolution).toBeUndefined();
+  });
+
+  it('receives the solver inputs through the strategic tool', () => {
+    const parsed = toolSchemas.deepthinking_strategic.parse({
+      thought: 'Production plan',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'optimization',
+      ...production,
+      solution: { value: '36', variables: { x: 2, y: 6 } },
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+    expect(thought.computedSolution!.objectiveValues).toEqual({ objective: 36 });
+    expect(thought.optimalityGap!.absoluteGap).toBe(0);
+  });
+});
+
+// Two objectives traded along two edges, bending at (1.5, 2.5)
+const portfolio = {
+  constraints: ['x + y <= 4', 'x + 3y <= 9'],
+  objectives: [
+    { id: 'profit', name: 'Profit', formula: 'x', type: 'maximize' },
+    { id: 'quality', name: 'Quality', formula: 'y', type: 'maximize' },
+  ],
+};
+
+describe('OptimizationHandler Pareto frontiers', () => {
+  it('traces the frontier of several objectives', () => {
+    const thought = handler.createThought(input(portfolio), 'session-1');
+    const analysis = thought.tradeoffAnalysis!;
+
+    expect(analysis.method).toBe('weighted_sum');
+    expect(analysis.objectives).toEqual(['profit', 'quality']);
+    expect(analysis.paretoFrontier!.map((p) => p.solution.variableValues)).toEqual([
+      { x: 0, y: 3 },
+      { x: 1.5, y: 2.5 },
+      { x: 4, y: 0 },
+    ]);
+    expect(analysis.paretoFrontier!.every((p) => !p.isDominated)).toBe(true);
+    expect(analysis.kneePoint).toBe('pareto-2');
+    expect(analysis.tradeoffRates!.map((r) => r.rate)).toEqual([-0.333333333, -1]);
+    expect(analysis.recommendations[0].solution.variableValues).toEqual({ x: 1.5, y: 2.5 });
+
+    const enhancements = handler.getEnhancements(thought);
+    expect(enhancements.metrics!.paretoSolutions).toBe(3);
+    expect(enhancements.suggestions).toContain('Knee point pareto-2: profit = 1.5, quality = 2.5');
+  });
+
+  it('sweeps ε-constraints when asked', () => {
+    const thought = handler.createThought(
+      input({ ...portfolio, optimizationMethod: 'epsilon-constraint' }),
+      'session-1',
+    );
+    expect(thought.tradeoffAnalysis!.method).toBe('epsilon_constraint');
+    expect(thought.tradeoffAnalysis!.paretoFrontier!.length).toBeGreaterThan(3);
+  });
+
+  it('reports an unbounded objective', () => {
+    const thought = handler.createThought(
+      input({ ...portfolio, constraints: ['x <= 4'] }),
+      'session-1',
+    );
+    expect(thought.tradeoffAnalysis).toBeUndefined();
+    expect(thought.computedSolution!.type).toBe('unbounded');
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'An objective is unbounded over the hard constraints',
+    );
+  });
+
+  it('checks a candidate set for dominance', () => {
+    const thought = handler.createThought(
+      input({
+        objectives: [
+          { id: 'cost', formula: 'cost', type: 'minimize' },
+          { id: 'time', formula: 'time', type: 'minimize' },
+        ],
+        paretoCandidates: [
+          { id: 'a', objectiveValues: { cost: 1, time: 9 } },
+          { id: 'b', objectiveValues: { cost: 3, time: 4 } },
+          { id: 'c', objectiveValues: { cost: 4, time: 5 } },
+          { id: 'd', objectiveValues: { cost: 8, time: 2 } },
+        ],
+      }),
+      'session-1',
+    );
+    const frontier = thought.tradeoffAnalysis!.paretoFrontier!;
+
+    expect(thought.tradeoffAnalysis!.method).toBe('dominance');
+    expect(frontier.map((p) => p.isDominated)).toEqual([false, false, true, false]);
+    expect(frontier[1].dominates).toEqual(['c']);
+    expect(thought.tradeoffAnalysis!.kneePoint).toBe('b');
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      'c is dominated, so not Pareto optimal',
+    );
+  });
+
+  it('warns rather than rejects a nonlinear objective', () => {
+    const broken = input({
+      ...portfolio,
+      objectives: [portfolio.objectives[0], { id: 'risk', formula: 'x * y', type: 'minimize' }],
+    });
+    expect(
+      handler.validate(broken).warnings.some((w) => w.message.startsWith('Pareto frontier cannot be computed')),
+    ).toBe(true);
+    expect(handler.createThought(broken, 'session-1').tradeoffAnalysis).toBeUndefined();
+  });
+
+  it('plots the frontier in SVG and TikZ exports', () => {
+    const thought = handler.createThought(input(portfolio), 'session-1');
+
+    const svg = exportOptimizationSolution(thought, { format: 'svg' });
+    expect(svg).toContain('<g class="pareto-front">');
+    expect(svg).toContain('<polyline');
+    expect(svg).toContain('pareto-2 (knee)');
+
+    const tikz = exportOptimizationSolution(thought, { format: 'tikz' });
+    expect(tikz).toContain('% Pareto Front');
+    expect(tikz).toContain('fill=red');
+    expect(tikz.indexOf('% Pareto Front')).toBeLessThan(tikz.indexOf('\\end{tikzpicture}'));
+  });
+
+  it('receives objectives and candidates through the strategic tool', () => {
+    const parsed = toolSchemas.deepthinking_strategic.parse({
+      thought: 'Portfolio trade-off',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'optimization',
+      ...portfolio,
+      paretoCandidates: [{ id: 'a', objectiveValues: { profit: 1, quality: 1 }, variables: { x: 1, y: 1 } }],
+    });
+    const thought = handler.createThought(parsed as unknown as ThinkingToolInput, 'session-1');
+    expect(thought.tradeoffAnalysis!.paretoFrontier![0].solution.variableValues).toEqual({ x: 1, y: 1 });
+  });
+});
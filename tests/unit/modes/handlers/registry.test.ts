@@ -246,6 +246,30 @@ describe('ModeHandlerRegistry', () => {
       expect(status.isFullyImplemented).toBe(true);
     });
 
+    it('should report the handler\'s own thought types when it declares them', () => {
+      class DeclaringCausalHandler extends MockCausalHandler {
+        getSupportedThoughtTypes(): string[] {
+          return ['problem_definition', 'causal_graph_construction'];
+        }
+      }
+      registry.register(new DeclaringCausalHandler());
+
+      const status = registry.getModeStatus(ThinkingMode.CAUSAL);
+
+      expect(status.supportedThoughtTypes).toEqual([
+        'problem_definition',
+        'causal_graph_construction',
+      ]);
+    });
+
+    it('should fall back to default thought types for a handler without a list', () => {
+      registry.register(new MockCausalHandler());
+
+      const status = registry.getModeStatus(ThinkingMode.CAUSAL);
+
+      expect(status.supportedThoughtTypes).toContain('graph_construction');
+    });
+
     it('should show abductive as fully implemented', () => {
       const status = registry.getModeStatus(ThinkingMode.ABDUCTIVE);
 
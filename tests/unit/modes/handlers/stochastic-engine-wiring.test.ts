@@ -8,24 +8,28 @@
  * on the floor. These tests pin the wiring: if someone removes it, the mode
  * goes back to reporting zeros and undefineds and these fail.
  *
- * The hard constraint, same as the validation/proof/taxonomy wirings: the
- * handler is ADVISORY. It may warn about a model, never reject it.
+ * The same goes for the Monte Carlo runner. The handler used to copy the
+ * caller's simulation results through; a monte_carlo_simulation thought now
+ * samples its random variables from a seed, with dependencies correlating
+ * them and constraints rescaling or rejecting draws, and reports the
+ * statistics, diagnostics and credible intervals of the run.
+ *
+ * And for Markov chains: irreducibility came from a "(simplified check)" and
+ * a steady_state_analysis computed nothing. A chain with transitions is now
+ * analysed -- its classes, stationary distribution, absorption, hitting and
+ * mixing times -- and the caller's claims about it are checked.
+ *
+ * Advisory, as in tests/utils/engine-wiring.ts: the handler may warn about
+ * a model, never reject it.
  */
 import { describe, it, expect } from 'vitest';
 import { StochasticHandler } from '../../../../src/modes/handlers/StochasticHandler.js';
-import type { ThinkingToolInput } from '../../../../src/tools/thinking.js';
+import { toolSchemas } from '../../../../src/tools/definitions.js';
+import { inputFor } from '../../../utils/engine-wiring.js';
 
 const handler = new StochasticHandler();
 
-function input(extra: Record<string, unknown>): ThinkingToolInput {
-  return {
-    thought: 'Modelling the queue.',
-    thoughtNumber: 1,
-    totalThoughts: 3,
-    nextThoughtNeeded: true,
-    ...extra,
-  } as unknown as ThinkingToolInput;
-}
+const input = inputFor('stochastic', 'Modelling the queue.');
 
 describe('StochasticHandler uses the stochastic engine', () => {
   describe('random variables', () => {
@@ -202,3 +206,262 @@ describe('StochasticHandler uses the stochastic engine', () => {
     });
   });
 });
+
+describe('StochasticHandler runs Monte Carlo simulations', () => {
+  const project = {
+    thoughtType: 'monte_carlo_simulation',
+    randomVariables: [
+      { name: 'cost', distribution: 'normal', parameters: { mean: 100, stdDev: 15 } },
+      { name: 'delay', distribution: 'gamma', parameters: { shape: 2, scale: 3 } },
+    ],
+    monteCarloConfig: { seed: 7, iterations: 8000 },
+  };
+
+  it('samples the random variables from a seed and reports estimates with credible intervals', () => {
+    const thought = handler.createThought(input(project), 'session-1');
+    const run = thought.monteCarlo!;
+
+    expect(run).toMatchObject({ seed: 7, iterations: 8000, draws: 8000, chains: 4, keptSamples: 8000 });
+    const [cost, delay] = run.variables;
+    expect(cost.name).toBe('cost');
+    expect(cost.mean).toBeCloseTo(100, 0);
+    expect(cost.stdDev).toBeCloseTo(15, 0);
+    expect(cost.credibleInterval[0]).toBeCloseTo(100 - 1.96 * 15, -1);
+    expect(cost.credibleInterval[1]).toBeCloseTo(100 + 1.96 * 15, -1);
+    expect(delay.mean).toBeCloseTo(6, 0);
+    // The gamma is skewed right, so its highest-density interval sits lower
+    expect(delay.hpdInterval[0]).toBeLessThan(delay.credibleInterval[0]);
+    expect(delay.hpdInterval[1]).toBeLessThan(delay.credibleInterval[1]);
+    expect(run.diagnostics.hasConverged).toBe(true);
+
+    expect(handler.createThought(input(project), 'session-2').monteCarlo).toEqual(run);
+  });
+
+  it('runs with the defaults, reporting the seed it chose', () => {
+    const thought = handler.createThought(
+      input({ thoughtType: 'monte_carlo_simulation', randomVariables: project.randomVariables }),
+      'session-1',
+    );
+    expect(thought.monteCarlo!.iterations).toBe(10000);
+    expect(typeof thought.monteCarlo!.seed).toBe('number');
+  });
+
+  it('correlates dependent variables and applies constraints', () => {
+    const thought = handler.createThought(
+      input({
+        ...project,
+        dependencies: [{ from: 'cost', to: 'delay', type: 'causal', strength: 0.6 }],
+        constraints: [{ type: 'inequality', variables: ['delay'], expression: 'delay < 12' }],
+      }),
+      'session-1',
+    );
+    const run = thought.monteCarlo!;
+
+    expect(run.correlations![0][1]).toBeGreaterThan(0.5);
+    expect(run.acceptanceRate).toBeLessThan(1);
+    expect(run.keptSamples).toBeLessThan(run.draws);
+    expect(run.variables[1].credibleInterval[1]).toBeLessThan(12);
+  });
+
+  it('reports the run in the enhancements', () => {
+    const thought = handler.createThought(input(project), 'session-1');
+    const enhancements = handler.getEnhancements(thought);
+    const [cost] = thought.monteCarlo!.variables;
+
+    expect(enhancements.suggestions).toContain('Monte Carlo: 8000 of 8000 draws kept across 4 chain(s), seed 7');
+    expect(enhancements.suggestions).toContain(
+      `cost: mean ${cost.mean.toFixed(4)} ± ${cost.mcse.toFixed(4)} (MCSE), ` +
+        `95% CI [${cost.credibleInterval[0].toFixed(4)}, ${cost.credibleInterval[1].toFixed(4)}], ` +
+        `HPD [${cost.hpdInterval[0].toFixed(4)}, ${cost.hpdInterval[1].toFixed(4)}]`,
+    );
+    expect(enhancements.suggestions!.some((s) => s.startsWith('Converged: R-hat'))).toBe(true);
+    expect(enhancements.metrics!.monteCarloDraws).toBe(8000);
+  });
+
+  it('does not simulate other thoughts unless asked to', () => {
+    const { thoughtType: _, monteCarloConfig: __, ...rest } = project;
+    expect(handler.createThought(input(rest), 'session-1').monteCarlo).toBeUndefined();
+    expect(
+      handler.createThought(input({ ...rest, monteCarloConfig: { seed: 1, iterations: 400 } }), 'session-1').monteCarlo!
+        .draws,
+    ).toBe(400);
+  });
+
+  it('warns, without rejecting, about variables it cannot sample and budgets over the cap', () => {
+    const request = input({
+      ...project,
+      randomVariables: [...project.randomVariables, { name: 'mystery', distribution: 'custom', parameters: {} }],
+      monteCarloConfig: { seed: 7, iterations: 500000 },
+    });
+    const result = handler.validate(request);
+
+    expect(result.valid).toBe(true);
+    const messages = result.warnings.map((w) => w.message);
+    expect(messages).toContain(
+      "Random variable 'mystery' has no distribution the Monte Carlo runner can sample, so the simulation leaves it out",
+    );
+    expect(messages).toContain('A Monte Carlo run is capped at 100000 draws; 500000 were asked for');
+
+    const run = handler.createThought(request, 'session-1').monteCarlo!;
+    expect(run.iterations).toBe(100000);
+    expect(run.variables.map((v) => v.name)).toEqual(['cost', 'delay']);
+  });
+
+  it('passes the runner warnings on', () => {
+    const thought = handler.createThought(
+      input({ ...project, dependencies: [{ from: 'cost', to: 'budget', strength: 0.5 }] }),
+      'session-1',
+    );
+    expect(handler.getEnhancements(thought).warnings).toContain(
+      "Dependency cost → budget names 'budget', which is not a variable of the model",
+    );
+  });
+});
+
+describe('deepthinking_probabilistic advertises the Monte Carlo inputs', () => {
+  it('accepts a Monte Carlo config, dependencies and constraints', () => {
+    const parsed = toolSchemas.deepthinking_probabilistic.parse({
+      thought: 'Simulating.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'stochastic',
+      thoughtType: 'monte_carlo_simulation',
+      randomVariables: [{ name: 'x', distribution: 'normal', parameters: { mean: 0, stdDev: 1 } }],
+      monteCarloConfig: { iterations: 5000, seed: 3, chains: 2, burnIn: 100, thinning: 2, convergenceThreshold: 0.01 },
+      dependencies: [{ from: 'x', to: 'y', type: 'correlation', strength: 0.4 }],
+      constraints: [{ type: 'range', variables: ['x'], expression: '-2 < x < 2' }],
+    }) as Record<string, unknown>;
+
+    expect(parsed.monteCarloConfig).toMatchObject({ iterations: 5000, seed: 3 });
+    expect(parsed.dependencies).toHaveLength(1);
+    expect(parsed.constraints).toHaveLength(1);
+  });
+});
+
+describe('StochasticHandler analyses Markov chains', () => {
+  const ruin = {
+    states: ['0', '1', '2', '3'].map((id) => ({ id })),
+    transitions: [
+      { fromState: '1', toState: '0', probability: 0.5 },
+      { fromState: '1', toState: '2', probability: 0.5 },
+      { fromState: '2', toState: '1', probability: 0.5 },
+      { fromState: '2', toState: '3', probability: 0.5 },
+    ],
+  };
+  const weather = {
+    states: [
+      { id: 'sunny', name: 'Sunny' },
+      { id: 'rainy', name: 'Rainy' },
+    ],
+    transitions: [
+      { fromState: 'Sunny', toState: 'sunny', probability: 0.9 },
+      { fromState: 'sunny', toState: 'rainy', probability: 0.1 },
+      { fromState: 'rainy', toState: 'sunny', probability: 0.5 },
+      { fromState: 'rainy', toState: 'rainy', probability: 0.5 },
+    ],
+  };
+
+  it('reports the stationary distribution of an ergodic chain, matching states by name too', () => {
+    const thought = handler.createThought(
+      input({ thoughtType: 'steady_state_analysis', markovChain: weather }),
+      'session-1',
+    );
+
+    expect(thought.markovAnalysis!.stationaryDistribution!.sunny).toBeCloseTo(5 / 6);
+    expect(handler.getEnhancements(thought).suggestions).toContain(
+      'Chain is ergodic - unique stationary distribution π = (sunny 0.8333, rainy 0.1667)',
+    );
+  });
+
+  it('classifies states and reports absorption probabilities', () => {
+    const thought = handler.createThought(
+      input({ thoughtType: 'transition_analysis', markovChain: ruin }),
+      'session-1',
+    );
+    const suggestions = handler.getEnhancements(thought).suggestions;
+
+    expect(thought.markovAnalysis!.kinds['1']).toBe('transient');
+    expect(suggestions).toContain(
+      'Communicating classes: {0} recurrent, period 1; {1, 2} transient; {3} recurrent, period 1',
+    );
+    expect(suggestions).toContain('From 1: absorbed into {0} 0.6667, {3} 0.3333, after 2.00 steps on average');
+  });
+
+  it('computes hitting times of the absorbing states, or of the target states asked for', () => {
+    const absorbing = handler.createThought(
+      input({ thoughtType: 'hitting_time_analysis', markovChain: ruin }),
+      'session-1',
+    );
+    expect(absorbing.markovAnalysis!.hittingTimes!.targets).toEqual(['0', '3']);
+    expect(handler.getEnhancements(absorbing).suggestions).toContain(
+      'From 1: hits {0, 3} surely, after 2.00 steps on average',
+    );
+
+    const rainy = handler.createThought(input({ markovChain: weather, targetStates: ['rainy'] }), 'session-1');
+    expect(rainy.markovAnalysis!.hittingTimes!.expectedSteps.sunny).toBeCloseTo(10);
+  });
+
+  it('reports the mixing time for a convergence analysis', () => {
+    const thought = handler.createThought(
+      input({ thoughtType: 'convergence_analysis', markovChain: weather }),
+      'session-1',
+    );
+    const enhancements = handler.getEnhancements(thought);
+
+    expect(enhancements.metrics!.mixingTime).toBe(2);
+    expect(enhancements.suggestions).toContain(
+      'Mixing time: 2 step(s) to within 1/4 of stationarity in total variation, from any start',
+    );
+  });
+
+  it('keeps the computed chain properties and warns on the claims they contradict', () => {
+    const claimed = { ...ruin, isIrreducible: true, isErgodic: true, period: 2 };
+    const thought = handler.createThought(input({ markovChain: claimed }), 'session-1');
+    const result = handler.validate(input({ markovChain: claimed, targetStates: ['9'] }));
+
+    expect(thought.markovChain).toMatchObject({ isIrreducible: false, isErgodic: false, period: 1 });
+    expect(result.valid).toBe(true);
+    const messages = result.warnings.map((w) => w.message);
+    expect(messages).toContain('markovChain.isIrreducible claims true, but the chain has 3 communicating classes');
+    expect(messages).toContain('markovChain.isErgodic claims true, but the chain is not ergodic');
+    expect(messages).toContain('markovChain.period claims 2, but the chain has period 1');
+    expect(messages).toContain("Target state '9' is not a state of the chain");
+  });
+
+  it('warns on transitions to states the chain does not have', () => {
+    const result = handler.validate(
+      input({
+        markovChain: { ...ruin, transitions: [...ruin.transitions, { fromState: '3', toState: '4', probability: 1 }] },
+      }),
+    );
+    expect(result.warnings.map((w) => w.message)).toContain(
+      "Transition 3 → 4 names '4', which is not a state of the chain, so it was left out of the analysis",
+    );
+  });
+
+  it('takes the claims of a chain given without transitions', () => {
+    const thought = handler.createThought(
+      input({ markovChain: { states: [{ id: 'a' }, { id: 'b' }], transitions: [], period: 2 } }),
+      'session-1',
+    );
+    expect(thought.markovAnalysis).toBeUndefined();
+    expect(thought.markovChain).toMatchObject({ period: 2, isIrreducible: false });
+  });
+});
+
+describe('deepthinking_probabilistic advertises the Markov inputs', () => {
+  it('accepts target states for a hitting-time analysis', () => {
+    const parsed = toolSchemas.deepthinking_probabilistic.parse({
+      thought: 'Hitting.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'stochastic',
+      thoughtType: 'hitting_time_analysis',
+      targetStates: ['rainy'],
+    }) as Record<string, unknown>;
+
+    expect(parsed.targetStates).toEqual(['rainy']);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Reading and writing modal formulas.
+ *
+ * □ and ◇ are written in the Unicode, ASCII, LaTeX and keyword syntaxes and
+ * must read to the same tree; the operator letters of epistemic, deontic and
+ * temporal logic are modal only when an operand follows them, so formulas
+ * over atoms named P or K still read as before.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FormulaSyntaxError } from '../../../../src/modes/formallogic/formula.js';
+import { formatModal, modalAtoms, modalDepth, parseModal } from '../../../../src/modes/modal/formula.js';
+
+describe('parseModal', () => {
+  it('reads the Unicode, ASCII, LaTeX and keyword syntaxes alike', () => {
+    const expected = parseModal('□(p → q) → (□p → □q) ∧ ◇r');
+    for (const source of [
+      '[](p -> q) -> ([]p -> []q) & <>r',
+      '\\Box (p \\to q) \\to (\\square p \\to \\Box q) \\land \\Diamond r',
+      'necessarily (p -> q) -> (box p -> necessarily q) and possibly r',
+      '◻(p → q) → (◻p → ◻q) ∧ ◊r',
+    ]) {
+      expect(parseModal(source)).toEqual(expected);
+    }
+  });
+
+  it('binds modal operators as tightly as negation', () => {
+    expect(parseModal('□p → q')).toEqual(parseModal('(□p) → q'));
+    expect(parseModal('¬◇¬p')).toEqual({
+      type: 'not',
+      operand: {
+        type: 'modal',
+        operator: 'diamond',
+        operand: { type: 'not', operand: { type: 'variable', name: 'p' } },
+      },
+    });
+  });
+
+  it('reads the epistemic, deontic and temporal operators as □ and ◇', () => {
+    expect(parseModal('K p → p')).toEqual(parseModal('□p → p'));
+    expect(parseModal('O(p ∧ q) → P p')).toEqual(parseModal('□(p ∧ q) → ◇p'));
+    expect(parseModal('G p ∧ F q')).toEqual(parseModal('□p ∧ ◇q'));
+    expect(parseModal('knows p ∨ believes q')).toEqual(parseModal('□p ∨ □q'));
+    expect(parseModal('obligatory p -> permitted p')).toEqual(parseModal('□p → ◇p'));
+    expect(parseModal('always p -> eventually p')).toEqual(parseModal('□p → ◇p'));
+  });
+
+  it('keeps capital letters as atoms where no operand follows', () => {
+    expect(parseModal('P → Q')).toEqual({
+      type: 'binary',
+      operator: 'implies',
+      left: { type: 'variable', name: 'P' },
+      right: { type: 'variable', name: 'Q' },
+    });
+    expect(modalAtoms(parseModal('K ∧ (B ∨ Kp)'))).toEqual(['K', 'B', 'Kp']);
+  });
+
+  it('rejects what it cannot read', () => {
+    expect(() => parseModal('□')).toThrow(FormulaSyntaxError);
+    expect(() => parseModal('p □ q')).toThrow("Unexpected '□' at 2");
+    expect(() => parseModal('It is necessary that p')).toThrow(FormulaSyntaxError);
+  });
+});
+
+describe('modal formula helpers', () => {
+  it('measures modal depth', () => {
+    expect(modalDepth(parseModal('p ∧ q'))).toBe(0);
+    expect(modalDepth(parseModal('□p → ◇□q'))).toBe(2);
+    expect(modalDepth(parseModal('¬□(p ∨ ◇◇q)'))).toBe(3);
+  });
+
+  it('writes formulas back out in each notation', () => {
+    const formula = parseModal('□(p → q) → ◇¬p');
+    expect(formatModal(formula)).toBe('□(p → q) → ◇¬p');
+    expect(formatModal(formula, 'ascii')).toBe('[](p -> q) -> <>~p');
+    expect(formatModal(formula, 'latex')).toBe('\\Box (p \\rightarrow q) \\rightarrow \\Diamond \\neg p');
+    expect(parseModal(formatModal(formula, 'ascii'))).toEqual(formula);
+    expect(parseModal(formatModal(formula, 'latex'))).toEqual(formula);
+  });
+});
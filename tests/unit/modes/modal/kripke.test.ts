@@ -0,0 +1,92 @@
+/**
+ * Kripke model checking.
+ *
+ * Formulas are evaluated on small hand-built models whose answer can be read
+ * off the diagram, and the frame checker must name a witness for each
+ * property a relation lacks: the world that does not access itself, the
+ * edge with no way back, the two-step path with no shortcut.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseModal } from '../../../../src/modes/modal/formula.js';
+import {
+  checkFrame,
+  evaluateModal,
+  formatKripkeModel,
+  readKripkeModel,
+  truthSet,
+} from '../../../../src/modes/modal/kripke.js';
+import type { PossibleWorld } from '../../../../src/types/modes/modal.js';
+
+function world(id: string, propositions: Record<string, boolean> = {}, accessibility: string[] = []): PossibleWorld {
+  return { id, name: id.toUpperCase(), description: '', propositions, isActual: false, accessibility };
+}
+
+describe('readKripkeModel', () => {
+  it('joins world accessibility lists and relations, by id or name', () => {
+    const model = readKripkeModel(
+      [world('w1', { p: true, q: false }, ['w2']), world('w2', {}, ['W3', 'nowhere']), world('w3', { q: true })],
+      [
+        { fromWorld: 'W3', toWorld: 'w1', type: 'symmetric' },
+        { from: 'w1', to: 'w1', type: 'reflexive' },
+      ],
+    );
+
+    expect(model).toEqual({
+      worlds: ['w1', 'w2', 'w3'],
+      access: { w1: ['w2', 'w1'], w2: ['w3'], w3: ['w1'] },
+      valuation: { w1: ['p'], w2: [], w3: ['q'] },
+    });
+    expect(formatKripkeModel(model)).toBe('w1 {p} → w2, w1; w2 {} → w3; w3 {q} → w1');
+  });
+});
+
+describe('truthSet', () => {
+  // w1 → w2, w1 → w3, w2 → w3; p at w2 and w3, q at w2
+  const model = readKripkeModel([
+    world('w1', {}, ['w2', 'w3']),
+    world('w2', { p: true, q: true }, ['w3']),
+    world('w3', { p: true }),
+  ]);
+
+  it('evaluates □ and ◇ over the accessible worlds', () => {
+    expect([...truthSet(model, parseModal('□p'))]).toEqual(['w1', 'w2', 'w3']);
+    expect([...truthSet(model, parseModal('◇q'))]).toEqual(['w1']);
+    expect([...truthSet(model, parseModal('□q'))]).toEqual(['w3']);
+    expect([...truthSet(model, parseModal('◇⊤'))]).toEqual(['w1', 'w2']);
+  });
+
+  it('nests operators and connectives', () => {
+    expect(evaluateModal(model, parseModal('◇◇p ∧ ¬p'), 'w1')).toBe(true);
+    expect(evaluateModal(model, parseModal('□◇p'), 'w1')).toBe(false);
+    expect(evaluateModal(model, parseModal('□p → p'), 'w1')).toBe(false);
+    expect(evaluateModal(model, parseModal('◇q ↔ ◇p'), 'w2')).toBe(false);
+  });
+});
+
+describe('checkFrame', () => {
+  it('finds every property of an equivalence relation', () => {
+    const model = readKripkeModel([world('a', {}, ['a', 'b']), world('b', {}, ['a', 'b']), world('c', {}, ['c'])]);
+    expect(checkFrame(model)).toEqual({
+      properties: ['reflexive', 'serial', 'symmetric', 'transitive', 'euclidean', 'convergent'],
+      violations: {},
+    });
+  });
+
+  it('names a witness for each property the relation lacks', () => {
+    const model = readKripkeModel([world('a', {}, ['b', 'c']), world('b', {}, ['c']), world('c')]);
+    expect(checkFrame(model)).toEqual({
+      properties: ['transitive'],
+      violations: {
+        reflexive: 'a does not access itself',
+        serial: 'c accesses no world',
+        symmetric: 'a accesses b but b does not access a',
+        euclidean: 'a accesses b, but b does not access itself',
+        convergent: 'a accesses b and c, which access no common world',
+      },
+    });
+
+    const chain = readKripkeModel([world('a', {}, ['a', 'b']), world('b', {}, ['b', 'c']), world('c', {}, ['c'])]);
+    expect(checkFrame(chain).violations.transitive).toBe('a accesses b and b accesses c, but a does not access c');
+  });
+});
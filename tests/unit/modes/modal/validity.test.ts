@@ -0,0 +1,92 @@
+/**
+ * Modal validity by countermodel search.
+ *
+ * The characteristic axioms pin the frame conditions: T fails in K and holds
+ * in T, 4 needs transitivity, 5 and B need symmetry or euclideanness, D
+ * needs seriality. A countermodel must be the smallest there is, and must
+ * itself satisfy the formulas it claims to, so each one found is checked
+ * again with the model checker.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseModal } from '../../../../src/modes/modal/formula.js';
+import { SYSTEM_PROPERTIES, checkFrame, evaluateModal } from '../../../../src/modes/modal/kripke.js';
+import { checkModalValidity } from '../../../../src/modes/modal/validity.js';
+import type { ModalLogicSystem } from '../../../../src/types/modes/modal.js';
+
+function check(premises: string[], conclusion: string, system: ModalLogicSystem, maxWorlds?: number) {
+  return checkModalValidity(premises.map(parseModal), parseModal(conclusion), system, { maxWorlds });
+}
+
+describe('checkModalValidity', () => {
+  it('decides the characteristic axioms in the systems that have them', () => {
+    const cases: [string, ModalLogicSystem[], ModalLogicSystem[]][] = [
+      ['□(p → q) → (□p → □q)', ['K', 'D', 'T', 'B', 'S4', 'S5'], []],
+      ['□p → ◇p', ['D', 'T', 'B', 'S4', 'S5'], ['K']],
+      ['□p → p', ['T', 'B', 'S4', 'S5'], ['K', 'D']],
+      ['□p → □□p', ['S4', 'S5'], ['K', 'D', 'T', 'B']],
+      ['p → □◇p', ['B', 'S5'], ['K', 'D', 'T', 'S4']],
+      ['◇p → □◇p', ['S5'], ['K', 'D', 'T', 'B', 'S4']],
+    ];
+    for (const [axiom, valid, invalid] of cases) {
+      for (const system of valid) {
+        expect(check([], axiom, system).status, `${axiom} in ${system}`).toBe('valid');
+      }
+      for (const system of invalid) {
+        expect(check([], axiom, system).status, `${axiom} in ${system}`).toBe('invalid');
+      }
+    }
+  });
+
+  it('finds the smallest countermodel, on a frame of the system', () => {
+    const result = check(['□p'], '□□p', 'T');
+
+    expect(result).toMatchObject({ status: 'invalid', system: 'T', worldsSearched: 3, bound: 7 });
+    expect(result.countermodel).toEqual({
+      world: 'w0',
+      worlds: ['w0', 'w1', 'w2'],
+      access: { w0: ['w0', 'w2'], w1: ['w1'], w2: ['w1', 'w2'] },
+      valuation: { w0: ['p'], w1: [], w2: ['p'] },
+    });
+  });
+
+  it('gives countermodels that really falsify the inference', () => {
+    const cases: [string[], string, ModalLogicSystem][] = [
+      [['□p', 'p → q'], '□q', 'K'],
+      [['◇p', '◇q'], '◇(p ∧ q)', 'S5'],
+      [['□(p ∨ q)'], '□p ∨ □q', 'S4'],
+      [['◇□p'], '□◇p', 'D'],
+      [['p'], '□◇p', 'S4'],
+    ];
+    for (const [premises, conclusion, system] of cases) {
+      const { status, countermodel } = check(premises, conclusion, system);
+      expect(status).toBe('invalid');
+
+      const model = countermodel!;
+      for (const premise of premises) {
+        expect(evaluateModal(model, parseModal(premise), model.world)).toBe(true);
+      }
+      expect(evaluateModal(model, parseModal(conclusion), model.world)).toBe(false);
+      const { properties } = checkFrame(model);
+      expect(SYSTEM_PROPERTIES[system].every((p) => properties.includes(p))).toBe(true);
+    }
+  });
+
+  it('proves valid inferences with premises', () => {
+    expect(check(['□(p → q)', '□p'], '□q', 'K').status).toBe('valid');
+    expect(check(['◇□p'], 'p', 'S5').status).toBe('valid');
+    expect(check(['O p'], 'P p', 'D').status).toBe('valid');
+    expect(check(['K p'], 'K K p', 'S5').status).toBe('valid');
+    expect(check(['□p', '◇¬p'], 'q', 'K').status).toBe('valid');
+  });
+
+  it('falls back to a weaker system when the search would be too large', () => {
+    const result = check(['□(p → q)', '□(q → r)'], '□(p → r)', 'S4');
+    expect(result).toMatchObject({ status: 'valid', provedIn: 'T', bound: 64, worldsSearched: 8 });
+  });
+
+  it('says unknown when no countermodel fits within the limit', () => {
+    expect(check(['□p'], '□□□p', 'S4')).toMatchObject({ status: 'unknown', bound: 16, worldsSearched: 8 });
+    expect(check(['□p'], '□□□p', 'S4', 16).status).toBe('valid');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Reading optimization formulas into linear models.
+ *
+ * The model builder is the only place formulas are interpreted, so these
+ * tests pin what the handler can rely on: implicit multiplication, the
+ * objective's `z =` and `max` prefixes, domains as bounds, chained
+ * comparisons split into one row each, and errors that name the formula
+ * that is not linear.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildLinearModel,
+  constraintViolation,
+  objectiveSense,
+} from '../../../../src/modes/optimization/linear-model.js';
+import type { DecisionVariable } from '../../../../src/types/modes/optimization.js';
+
+function variable(id: string, extra: Partial<DecisionVariable> = {}): DecisionVariable {
+  return {
+    id,
+    name: id,
+    description: '',
+    type: 'continuous',
+    domain: { type: 'continuous', lowerBound: 0, upperBound: Infinity },
+    semantics: '',
+    ...extra,
+  };
+}
+
+describe('buildLinearModel', () => {
+  it('infers non-negative variables and reads implicit multiplication', () => {
+    const model = buildLinearModel(
+      [],
+      [{ id: 'c1', formula: '3x + 2y <= 18' }, { id: 'c2', formula: '2(x - y) >= -4' }],
+      { sense: 'maximize', formula: 'z = 3x + 5y + 1' },
+    );
+
+    expect(model.variables.map((v) => [v.id, v.lower, v.upper, v.integer])).toEqual([
+      ['x', 0, Infinity, false],
+      ['y', 0, Infinity, false],
+    ]);
+    expect(model.objective).toEqual([3, 5]);
+    expect(model.objectiveConstant).toBe(1);
+    expect(model.constraints).toEqual([
+      { id: 'c1', coefficients: [3, 2], relation: '<=', rhs: 18 },
+      { id: 'c2', coefficients: [2, -2], relation: '>=', rhs: -4 },
+    ]);
+  });
+
+  it('moves variables to the left and splits chained comparisons', () => {
+    const model = buildLinearModel(
+      [],
+      [{ id: 'r', formula: '1 <= x - y <= 2' }, { id: 's', formula: '10 = x + y' }],
+      { sense: 'minimize', formula: 'min: x' },
+    );
+
+    expect(model.constraints).toEqual([
+      { id: 'r', coefficients: [1, -1], relation: '>=', rhs: 1 },
+      { id: 'r:2', coefficients: [1, -1], relation: '<=', rhs: 2 },
+      { id: 's', coefficients: [1, 1], relation: '=', rhs: 10 },
+    ]);
+  });
+
+  it('turns domains into bounds and integrality', () => {
+    const model = buildLinearModel(
+      [
+        variable('a', { type: 'integer', domain: { type: 'integer', lowerBound: -3, upperBound: 5 } }),
+        variable('b', { type: 'binary', domain: { type: 'binary' } }),
+        variable('c', { domain: { type: 'discrete', values: [4, 2, 3] } }),
+        variable('d', { name: 'depth', domain: [1, 2] as unknown as DecisionVariable['domain'] }),
+      ],
+      [],
+      { sense: 'maximize', formula: 'a + b + c + depth' },
+    );
+
+    expect(model.variables.map((v) => [v.lower, v.upper, v.integer])).toEqual([
+      [-3, 5, true],
+      [0, 1, true],
+      [2, 4, true],
+      [1, 2, true],
+    ]);
+  });
+
+  it('names the formula that is not linear', () => {
+    const objective = { sense: 'maximize' as const, formula: 'x + y' };
+    expect(() => buildLinearModel([], [{ id: 'c1', formula: 'x*y <= 4' }], objective)).toThrow(
+      'Constraint c1 multiplies variables, so it is not linear',
+    );
+    expect(() => buildLinearModel([], [{ id: 'c2', formula: 'x / y <= 4' }], objective)).toThrow(
+      'Constraint c2 divides by a variable',
+    );
+    expect(() => buildLinearModel([], [{ id: 'c3', formula: 'x != 2' }], objective)).toThrow(
+      'Constraint c3 uses !=',
+    );
+    expect(() => buildLinearModel([], [{ id: 'c4', formula: 'x + y' }], objective)).toThrow(
+      'Constraint c4 is not a comparison',
+    );
+    expect(() =>
+      buildLinearModel([variable('x'), variable('y')], [], { sense: 'minimize', formula: 'x + w' }),
+    ).toThrow('Objective uses w, which is not a variable');
+  });
+
+  it('rejects domains a linear model cannot express', () => {
+    const objective = { sense: 'maximize' as const, formula: 'x' };
+    expect(() =>
+      buildLinearModel([variable('x', { domain: { type: 'discrete', values: [1, 3] } })], [], objective),
+    ).toThrow('not a range of integers');
+    expect(() =>
+      buildLinearModel(
+        [variable('x', { type: 'categorical', domain: { type: 'categorical', categories: ['a'] } })],
+        [],
+        objective,
+      ),
+    ).toThrow('categorical');
+  });
+});
+
+describe('objectiveSense', () => {
+  it('reads a leading max or min word', () => {
+    expect(objectiveSense('Maximize 3x + 2y')).toBe('maximize');
+    expect(objectiveSense('minimise cost')).toBe('minimize');
+    expect(objectiveSense('min: x')).toBe('minimize');
+    expect(objectiveSense('maxwell + 1')).toBeUndefined();
+    expect(objectiveSense('3x + 2y')).toBeUndefined();
+  });
+});
+
+describe('constraintViolation', () => {
+  it('is how far a point is from the feasible side', () => {
+    const row = { id: 'c', coefficients: [1, 1], relation: '<=' as const, rhs: 4 };
+    expect(constraintViolation(row, [1, 2])).toBe(0);
+    expect(constraintViolation(row, [3, 2])).toBe(1);
+    expect(constraintViolation({ ...row, relation: '=' }, [1, 2])).toBe(1);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * The two-phase simplex solver behind optimization mode and the
+ * cooperative-game programs.
+ *
+ * Shadow prices are the part callers lean on: sensitivity analysis reports
+ * them and the nucleolus reads its allocation off them, so their signs are
+ * pinned here on programs whose duals are known by hand, for each kind of
+ * constraint and for constraints written with a negative right-hand side.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveLinearProgram } from '../../../../src/modes/optimization/linear-program.js';
+import type { LinearConstraint } from '../../../../src/modes/optimization/types.js';
+
+function row(coefficients: number[], relation: LinearConstraint['relation'], rhs: number): LinearConstraint {
+  return { coefficients, relation, rhs };
+}
+
+describe('solveLinearProgram', () => {
+  it('solves a production problem and prices its resources', () => {
+    // The textbook example: maximize 3x + 5y under three capacity limits
+    const result = solveLinearProgram({
+      objective: [3, 5],
+      constraints: [row([1, 0], '<=', 4), row([0, 2], '<=', 12), row([3, 2], '<=', 18)],
+    });
+
+    expect(result.status).toBe('optimal');
+    expect(result.x).toEqual([2, 6]);
+    expect(result.objective).toBe(36);
+    expect(result.shadowPrices).toEqual([0, 1.5, 1]);
+    expect(result.reducedCosts).toEqual([0, 0]);
+  });
+
+  it('prices a variable left out of the solution', () => {
+    // z earns 1 per unit but uses 1 of the only resource, which x turns into 2
+    const result = solveLinearProgram({
+      objective: [2, 1],
+      constraints: [row([1, 1], '<=', 4)],
+    });
+
+    expect(result.x).toEqual([4, 0]);
+    expect(result.reducedCosts).toEqual([0, -1]);
+  });
+
+  it('gives negative prices to covering constraints of a minimization', () => {
+    // minimize x + y, written as maximize −x − y
+    const result = solveLinearProgram({
+      objective: [-1, -1],
+      constraints: [row([1, 2], '>=', 4), row([3, 1], '>=', 6)],
+    });
+
+    expect(result.x[0]).toBeCloseTo(1.6, 12);
+    expect(result.x[1]).toBeCloseTo(1.2, 12);
+    expect(result.objective).toBeCloseTo(-2.8, 12);
+    expect(result.shadowPrices[0]).toBeCloseTo(-0.4, 12);
+    expect(result.shadowPrices[1]).toBeCloseTo(-0.2, 12);
+  });
+
+  it('handles free variables, equalities and negative right-hand sides', () => {
+    const result = solveLinearProgram({
+      objective: [1, 2],
+      constraints: [row([1, 1], '=', 2), row([1, -1], '=', -1)],
+      free: [true, true],
+    });
+
+    expect(result.x).toEqual([0.5, 1.5]);
+    expect(result.objective).toBe(3.5);
+    expect(result.shadowPrices).toEqual([1.5, -0.5]);
+
+    const negative = solveLinearProgram({ objective: [1], constraints: [row([1], '<=', -3)], free: [true] });
+    expect(negative.x).toEqual([-3]);
+    expect(negative.shadowPrices).toEqual([1]);
+  });
+
+  it('reports infeasible and unbounded programs', () => {
+    const infeasible = solveLinearProgram({
+      objective: [1],
+      constraints: [row([1], '<=', 1), row([1], '>=', 2)],
+    });
+    expect(infeasible.status).toBe('infeasible');
+
+    const unbounded = solveLinearProgram({ objective: [1], constraints: [row([1], '>=', 1)] });
+    expect(unbounded.status).toBe('unbounded');
+    expect(unbounded.objective).toBe(Infinity);
+  });
+
+  it('rejects a constraint of the wrong width', () => {
+    expect(() => solveLinearProgram({ objective: [1, 1], constraints: [row([1], '<=', 1)] })).toThrow(
+      'Constraint has 1 coefficients for 2 variables',
+    );
+  });
+});
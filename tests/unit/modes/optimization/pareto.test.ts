@@ -0,0 +1,255 @@
+/**
+ * Pareto frontiers of multi-objective models.
+ *
+ * The frontiers are small enough to know by hand: two objectives traded
+ * along one or two edges of a polygon, or along the integer points under a
+ * line. The weighted sum only reaches the vertices of the frontier, so the
+ * ε-constraint sweep is checked to reach points between them too, and on
+ * integer models where the weighted sum misses points in dents of the hull.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildMultiObjectiveModel } from '../../../../src/modes/optimization/linear-model.js';
+import {
+  checkDominance,
+  dominates,
+  findKnee,
+  traceParetoFrontier,
+  tradeoffSteps,
+} from '../../../../src/modes/optimization/pareto.js';
+import type { DecisionVariable } from '../../../../src/types/modes/optimization.js';
+
+function constraints(...formulas: string[]) {
+  return formulas.map((formula, i) => ({ id: `c${i + 1}`, formula }));
+}
+
+function integer(id: string, upperBound: number): DecisionVariable {
+  return {
+    id,
+    name: id,
+    description: '',
+    type: 'integer',
+    domain: { type: 'integer', lowerBound: 0, upperBound },
+    semantics: '',
+  };
+}
+
+const maximizeBoth = [
+  { sense: 'maximize' as const, formula: 'x' },
+  { sense: 'maximize' as const, formula: 'y' },
+];
+
+describe('traceParetoFrontier', () => {
+  it('finds the vertices of a linear frontier by weighted sums', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x + y <= 4', 'x <= 3', 'y <= 3'),
+      maximizeBoth,
+    );
+    const frontier = traceParetoFrontier(model, objectives);
+
+    expect(frontier.status).toBe('found');
+    expect(frontier.method).toBe('weighted_sum');
+    expect(frontier.points.map((p) => p.objectives)).toEqual([
+      [1, 3],
+      [3, 1],
+    ]);
+    expect(frontier.knee).toBeUndefined();
+  });
+
+  it('steps along an edge of the frontier by ε-constraints', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x + y <= 4', 'x <= 3', 'y <= 3'),
+      maximizeBoth,
+    );
+    const frontier = traceParetoFrontier(model, objectives, {
+      method: 'epsilon_constraint',
+      steps: 4,
+    });
+
+    expect(frontier.points.map((p) => p.objectives)).toEqual([
+      [1, 3],
+      [1.5, 2.5],
+      [2, 2],
+      [2.5, 1.5],
+      [3, 1],
+    ]);
+    // A straight frontier trades at one rate throughout
+    expect(frontier.tradeoffs.every((t) => t.rates[1] === -1)).toBe(true);
+  });
+
+  it('polishes away weakly dominated optima', () => {
+    // Maximizing x alone leaves y anywhere in [0, 3]; only y = 3 is efficient
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x <= 3', 'y <= 3'),
+      maximizeBoth,
+    );
+    for (const method of ['weighted_sum', 'epsilon_constraint'] as const) {
+      const frontier = traceParetoFrontier(model, objectives, { method });
+      expect(frontier.points.map((p) => p.values)).toEqual([[3, 3]]);
+    }
+  });
+
+  it('finds the knee where the frontier bends', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x + y <= 4', 'x + 3y <= 9'),
+      maximizeBoth,
+    );
+    const frontier = traceParetoFrontier(model, objectives);
+
+    expect(frontier.points.map((p) => p.values)).toEqual([
+      [0, 3],
+      [1.5, 2.5],
+      [4, 0],
+    ]);
+    expect(frontier.knee).toBe(1);
+    expect(frontier.tradeoffs).toEqual([
+      { from: 0, to: 1, rates: [1, -0.333333333] },
+      { from: 1, to: 2, rates: [1, -1] },
+    ]);
+  });
+
+  it('sweeps integer models by ε-constraints to reach every point', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [integer('x', 5), integer('y', 5)],
+      constraints('2x + 2y <= 7'),
+      maximizeBoth,
+    );
+    const frontier = traceParetoFrontier(model, objectives);
+
+    expect(frontier.method).toBe('epsilon_constraint');
+    expect(frontier.points.map((p) => p.objectives)).toEqual([
+      [0, 3],
+      [1, 2],
+      [2, 1],
+      [3, 0],
+    ]);
+  });
+
+  it('minimizes and keeps objective constants', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x + y >= 2', 'x <= 2', 'y <= 2'),
+      [
+        { sense: 'minimize', formula: 'x + 10' },
+        { sense: 'minimize', formula: 'y' },
+      ],
+    );
+    const frontier = traceParetoFrontier(model, objectives);
+
+    expect(frontier.points.map((p) => p.objectives)).toEqual([
+      [10, 2],
+      [12, 0],
+    ]);
+  });
+
+  it('reports an objective that is unbounded', () => {
+    const { model, objectives } = buildMultiObjectiveModel([], constraints('x <= 3'), [
+      { sense: 'maximize', formula: 'x' },
+      { sense: 'maximize', formula: 'y' },
+    ]);
+    const frontier = traceParetoFrontier(model, objectives);
+
+    expect(frontier.status).toBe('unbounded');
+    expect(frontier.points).toEqual([]);
+  });
+
+  it('reports infeasible constraints', () => {
+    const { model, objectives } = buildMultiObjectiveModel(
+      [],
+      constraints('x + y <= 1', 'x >= 2'),
+      maximizeBoth,
+    );
+    expect(traceParetoFrontier(model, objectives).status).toBe('infeasible');
+  });
+
+  it('needs at least two objectives', () => {
+    const { model, objectives } = buildMultiObjectiveModel([], constraints('x <= 1'), [
+      { sense: 'maximize', formula: 'x' },
+    ]);
+    expect(() => traceParetoFrontier(model, objectives)).toThrow(/two objectives/);
+  });
+});
+
+describe('checkDominance', () => {
+  it('flags candidates another one beats', () => {
+    const result = checkDominance(
+      [
+        [1, 5],
+        [2, 4],
+        [1, 4],
+        [3, 1],
+      ],
+      ['maximize', 'maximize'],
+    );
+
+    expect(result.map((r) => r.dominated)).toEqual([false, false, true, false]);
+    expect(result[0].dominates).toEqual([2]);
+    expect(result[1].dominates).toEqual([2]);
+  });
+
+  it('reads each objective in its own direction', () => {
+    // Lower cost, higher quality
+    expect(dominates([3, 8], [5, 6], ['minimize', 'maximize'])).toBe(true);
+    expect(dominates([5, 6], [3, 8], ['minimize', 'maximize'])).toBe(false);
+  });
+
+  it('does not let equal candidates dominate each other', () => {
+    expect(dominates([2, 2], [2, 2], ['maximize', 'maximize'])).toBe(false);
+  });
+});
+
+describe('findKnee', () => {
+  it('needs three points', () => {
+    expect(
+      findKnee(
+        [
+          [0, 1],
+          [1, 0],
+        ],
+        ['maximize', 'maximize'],
+      ),
+    ).toBeUndefined();
+  });
+
+  it('finds no knee on a straight frontier', () => {
+    expect(
+      findKnee(
+        [
+          [0, 2],
+          [1, 1],
+          [2, 0],
+        ],
+        ['maximize', 'maximize'],
+      ),
+    ).toBeUndefined();
+  });
+
+  it('takes the point nearest the ideal with three objectives', () => {
+    expect(
+      findKnee(
+        [
+          [1, 0, 0],
+          [0.6, 0.6, 0.6],
+          [0, 0, 1],
+        ],
+        ['maximize', 'maximize', 'maximize'],
+      ),
+    ).toBe(1);
+  });
+});
+
+describe('tradeoffSteps', () => {
+  it('skips neighbours that tie on the first objective', () => {
+    expect(
+      tradeoffSteps([
+        [0, 4],
+        [0, 3],
+        [2, 1],
+      ]),
+    ).toEqual([{ from: 1, to: 2, rates: [1, -1] }]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Solving linear and mixed-integer models.
+ *
+ * Linear programs are checked on the textbook production problem, whose
+ * duals are known, and on a minimization so the sign conversion back to the
+ * model's own sense is pinned. Integer programs are chosen so the linear
+ * relaxation is fractional and branching is needed to reach the answer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLinearModel } from '../../../../src/modes/optimization/linear-model.js';
+import { solveLinearModel } from '../../../../src/modes/optimization/solver.js';
+import type { DecisionVariable } from '../../../../src/types/modes/optimization.js';
+
+function integer(id: string, upperBound = Infinity): DecisionVariable {
+  return {
+    id,
+    name: id,
+    description: '',
+    type: 'integer',
+    domain: { type: 'integer', lowerBound: 0, upperBound },
+    semantics: '',
+  };
+}
+
+function constraints(...formulas: string[]) {
+  return formulas.map((formula, i) => ({ id: `c${i + 1}`, formula }));
+}
+
+describe('solveLinearModel on linear programs', () => {
+  it('solves the production problem with shadow prices', () => {
+    const model = buildLinearModel([], constraints('x <= 4', '2y <= 12', '3x + 2y <= 18'), {
+      sense: 'maximize',
+      formula: '3x + 5y',
+    });
+    const result = solveLinearModel(model);
+
+    expect(result.status).toBe('optimal');
+    expect(result.method).toBe('simplex');
+    expect(result.values).toEqual([2, 6]);
+    expect(result.objectiveValue).toBe(36);
+    expect(result.shadowPrices).toEqual([0, 1.5, 1]);
+    expect(result.reducedCosts).toEqual([0, 0]);
+    expect(result.binding).toEqual([1, 2]);
+  });
+
+  it('reports prices in the sense of a minimization', () => {
+    // The diet problem: raising a requirement makes the cheapest diet dearer
+    const model = buildLinearModel([], constraints('x + 2y >= 4', '3x + y >= 6'), {
+      sense: 'minimize',
+      formula: 'x + y + 10',
+    });
+    const result = solveLinearModel(model);
+
+    expect(result.values).toEqual([1.6, 1.2]);
+    expect(result.objectiveValue).toBe(12.8);
+    expect(result.shadowPrices).toEqual([0.4, 0.2]);
+  });
+
+  it('folds bound prices into reduced costs', () => {
+    const model = buildLinearModel(
+      [{ ...integer('x', 3), type: 'continuous', domain: { type: 'continuous', lowerBound: 2, upperBound: 3 } }],
+      [],
+      { sense: 'minimize', formula: '4x' },
+    );
+    const result = solveLinearModel(model);
+
+    expect(result.values).toEqual([2]);
+    expect(result.reducedCosts).toEqual([4]);
+    expect(result.shadowPrices).toEqual([]);
+  });
+
+  it('tells infeasible from unbounded', () => {
+    const objective = { sense: 'maximize' as const, formula: 'x + y' };
+    expect(solveLinearModel(buildLinearModel([], constraints('x + y <= 1', 'x >= 2'), objective)).status).toBe(
+      'infeasible',
+    );
+    expect(solveLinearModel(buildLinearModel([], constraints('x - y <= 1'), objective)).status).toBe('unbounded');
+  });
+});
+
+describe('solveLinearModel on integer programs', () => {
+  it('branches past a fractional relaxation', () => {
+    // The relaxation peaks at (2.25, 3.75) with 41.25; the integer optimum is (0, 5)
+    const model = buildLinearModel([integer('x'), integer('y')], constraints('x + y <= 6', '5x + 9y <= 45'), {
+      sense: 'maximize',
+      formula: '5x + 8y',
+    });
+    const result = solveLinearModel(model);
+
+    expect(result.status).toBe('optimal');
+    expect(result.method).toBe('branch_and_bound');
+    expect(result.values).toEqual([0, 5]);
+    expect(result.objectiveValue).toBe(40);
+    expect(result.nodesExplored).toBeGreaterThan(1);
+    expect(result.shadowPrices).toBeUndefined();
+  });
+
+  it('keeps continuous variables continuous in a mixed model', () => {
+    const model = buildLinearModel(
+      [integer('n'), { ...integer('t'), type: 'continuous', domain: { type: 'continuous', lowerBound: 0, upperBound: Infinity } }],
+      constraints('2n + 2t <= 3'),
+      { sense: 'maximize', formula: 'n + t' },
+    );
+    const result = solveLinearModel(model);
+
+    expect(result.objectiveValue).toBe(1.5);
+    expect(Number.isInteger(result.values[0])).toBe(true);
+  });
+
+  it('finds an integer program with no integer point infeasible', () => {
+    const model = buildLinearModel([integer('x')], constraints('2x = 1'), { sense: 'maximize', formula: 'x' });
+    expect(solveLinearModel(model).status).toBe('infeasible');
+  });
+
+  it('stops at the node limit with the best solution and a bound', () => {
+    // Knapsack whose relaxation is fractional at every level
+    const model = buildLinearModel(
+      [integer('a', 1), integer('b', 1), integer('c', 1), integer('d', 1)],
+      constraints('12a + 11b + 10c + 9d <= 20'),
+      { sense: 'maximize', formula: '13a + 12b + 11c + 10d' },
+    );
+    const full = solveLinearModel(model);
+    expect(full.status).toBe('optimal');
+    expect(full.objectiveValue).toBe(22);
+
+    const early = solveLinearModel(model, { nodeLimit: 3 });
+    expect(early.status).toBe('node_limit');
+    expect(early.nodesExplored).toBe(3);
+    if (Number.isFinite(early.objectiveValue)) {
+      expect(early.objectiveValue).toBeLessThanOrEqual(22);
+    }
+    expect(early.bound).toBeGreaterThanOrEqual(22);
+  });
+});
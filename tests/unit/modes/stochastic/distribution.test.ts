@@ -15,6 +15,7 @@ import {
   BetaSampler,
   GammaSampler,
   createSampler,
+  readDistribution,
   sampleWithStatistics,
 } from '../../../../src/modes/stochastic/models/distribution.js';
 import { SeededRNG } from '../../../../src/modes/stochastic/sampling/rng.js';
@@ -395,3 +396,30 @@ describe('sampleWithStatistics', () => {
     expect(result.time).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe('geometric sampling', () => {
+  it('counts trials up to the first success', () => {
+    const rng = new SeededRNG(7);
+    const samples = createSampler({ type: 'geometric', p: 0.25 }, () => rng.next()).sampleMany(20000);
+    expect(samples.every((x) => Number.isInteger(x) && x >= 1)).toBe(true);
+    expect(samples.reduce((a, b) => a + b, 0) / samples.length).toBeCloseTo(4, 1);
+  });
+});
+
+describe('readDistribution', () => {
+  it('reads parameters under their aliases', () => {
+    expect(readDistribution('gaussian', { mu: 1, variance: 4 })).toEqual({ type: 'normal', mean: 1, stdDev: 2 });
+    expect(readDistribution('uniform', { a: 0, b: 2 })).toEqual({ type: 'uniform', min: 0, max: 2 });
+    expect(readDistribution('exponential', { rate: 3 })).toEqual({ type: 'exponential', rate: 3 });
+    expect(readDistribution('gamma', { k: 2, theta: 0.5 })).toEqual({ type: 'gamma', shape: 2, scale: 0.5 });
+    expect(readDistribution('bernoulli', { p: 0.3 })).toEqual({ type: 'binomial', n: 1, p: 0.3 });
+  });
+
+  it('returns undefined for what cannot be sampled', () => {
+    expect(readDistribution('custom', {})).toBeUndefined();
+    expect(readDistribution('zipf', { s: 1 })).toBeUndefined();
+    expect(readDistribution('beta', { alpha: 2 })).toBeUndefined();
+    expect(readDistribution('normal', { mean: 0, stdDev: 0 })).toBeUndefined();
+    expect(readDistribution('binomial', { n: 2.5, p: 0.5 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Markov chain analysis.
+ *
+ * Each result is checked on a chain small enough to solve by hand: a
+ * two-state weather chain for the stationary distribution, hitting and
+ * mixing times; gambler's ruin on {0, 1, 2, 3} for absorption; a
+ * three-cycle for periodicity; and a chain with two closed classes for the
+ * case where the stationary distribution is not unique.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeMarkovChain,
+  checkStochastic,
+  hittingTimes,
+  readTransitionMatrix,
+} from '../../../../src/modes/stochastic/analysis/markov.js';
+
+const weather = analyzeMarkovChain(
+  ['sunny', 'rainy'],
+  [
+    [0.9, 0.1],
+    [0.5, 0.5],
+  ],
+);
+
+// Gambler's ruin with fair bets: 0 and 3 absorb
+const ruin = analyzeMarkovChain(
+  ['0', '1', '2', '3'],
+  [
+    [0, 0, 0, 0],
+    [0.5, 0, 0.5, 0],
+    [0, 0.5, 0, 0.5],
+    [0, 0, 0, 0],
+  ],
+);
+
+describe('readTransitionMatrix and checkStochastic', () => {
+  it('adds up repeated transitions and leaves out unknown states', () => {
+    const matrix = readTransitionMatrix(
+      ['a', 'b'],
+      [
+        { from: 'a', to: 'b', probability: 0.25 },
+        { from: 'a', to: 'b', probability: 0.25 },
+        { from: 'a', to: 'a', probability: 0.5 },
+        { from: 'b', to: 'c', probability: 1 },
+      ],
+    );
+    expect(matrix).toEqual([
+      [0.5, 0.5],
+      [0, 0],
+    ]);
+  });
+
+  it('reports rows that do not sum to 1, but not empty rows', () => {
+    const defects = checkStochastic(
+      ['a', 'b', 'c'],
+      [
+        [0.5, 0.3, 0],
+        [0, 0, 0],
+        [0.3, 0.3, 0.4],
+      ],
+    );
+    expect(defects).toHaveLength(1);
+    expect(defects[0].state).toBe('a');
+    expect(defects[0].sum).toBeCloseTo(0.8);
+  });
+});
+
+describe('analyzeMarkovChain', () => {
+  it('finds the stationary distribution of an ergodic chain', () => {
+    expect(weather.isIrreducible).toBe(true);
+    expect(weather.isErgodic).toBe(true);
+    expect(weather.period).toBe(1);
+    expect(weather.kinds).toEqual({ sunny: 'recurrent', rainy: 'recurrent' });
+    expect(weather.stationaryDistribution!.sunny).toBeCloseTo(5 / 6);
+    expect(weather.stationaryDistribution!.rainy).toBeCloseTo(1 / 6);
+    expect(weather.absorptionProbabilities).toBeUndefined();
+  });
+
+  it('classifies absorbing and transient states, and where the transient ones end up', () => {
+    expect(ruin.kinds).toEqual({ 0: 'absorbing', 1: 'transient', 2: 'transient', 3: 'absorbing' });
+    expect(ruin.classes.map((c) => c.states)).toEqual([['0'], ['1', '2'], ['3']]);
+    expect(ruin.isIrreducible).toBe(false);
+    expect(ruin.absorptionProbabilities!['1']['0']).toBeCloseTo(2 / 3);
+    expect(ruin.absorptionProbabilities!['1']['3']).toBeCloseTo(1 / 3);
+    expect(ruin.absorptionProbabilities!['2']['3']).toBeCloseTo(2 / 3);
+    expect(ruin.expectedStepsToAbsorption!['1']).toBeCloseTo(2);
+    // Two closed classes: a stationary distribution for each, none unique
+    expect(ruin.stationaryDistribution).toBeUndefined();
+    expect(ruin.classes[0].stationary).toEqual({ 0: 1 });
+  });
+
+  it('finds the period of a cycle, and gives it no mixing time', () => {
+    const cycle = analyzeMarkovChain(
+      ['a', 'b', 'c'],
+      [
+        [0, 1, 0],
+        [0, 0, 1],
+        [1, 0, 0],
+      ],
+    );
+    expect(cycle.periods).toEqual({ a: 3, b: 3, c: 3 });
+    expect(cycle.period).toBe(3);
+    expect(cycle.isIrreducible).toBe(true);
+    expect(cycle.isErgodic).toBe(false);
+    expect(cycle.stationaryDistribution!.a).toBeCloseTo(1 / 3);
+    expect(cycle.mixingTime).toBeUndefined();
+  });
+
+  it('makes a state without transitions absorbing, and scales the other rows', () => {
+    const analysis = analyzeMarkovChain(
+      ['a', 'b'],
+      [
+        [1, 1],
+        [0, 0],
+      ],
+    );
+    expect(analysis.matrix).toEqual([
+      [0.5, 0.5],
+      [0, 1],
+    ]);
+    expect(analysis.kinds).toEqual({ a: 'transient', b: 'absorbing' });
+    expect(analysis.stationaryDistribution).toEqual({ a: 0, b: 1 });
+    expect(analysis.expectedStepsToAbsorption!.a).toBeCloseTo(2);
+  });
+
+  it('measures the mixing time against the distance to stationarity', () => {
+    expect(weather.mixingTime).toBe(2);
+
+    // A lazy two-state chain sits at distance (1 − 2ε)ᵗ/2 from π after t steps
+    const lazy = analyzeMarkovChain(
+      ['a', 'b'],
+      [
+        [0.999, 0.001],
+        [0.001, 0.999],
+      ],
+    );
+    expect(lazy.mixingTime).toBe(Math.ceil(Math.log(0.5) / Math.log(0.998)));
+  });
+});
+
+describe('hittingTimes', () => {
+  it('gives the expected steps to a state every start reaches', () => {
+    const hitting = hittingTimes(weather, ['rainy']);
+    expect(hitting.probabilities).toEqual({ sunny: 1, rainy: 1 });
+    expect(hitting.expectedSteps.sunny).toBeCloseTo(10);
+    expect(hitting.expectedSteps.rainy).toBe(0);
+  });
+
+  it('gives only the probability when a target may be missed', () => {
+    const hitting = hittingTimes(ruin, ['3']);
+    expect(hitting.probabilities['1']).toBeCloseTo(1 / 3);
+    expect(hitting.probabilities['0']).toBe(0);
+    expect(Object.keys(hitting.expectedSteps)).toEqual(['3']);
+  });
+
+  it('rejects targets that are not states of the chain', () => {
+    expect(() => hittingTimes(weather, ['snowy'])).toThrow('None of the target states is a state of the chain');
+  });
+});
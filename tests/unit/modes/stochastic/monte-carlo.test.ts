@@ -0,0 +1,183 @@
+/**
+ * Monte Carlo runner.
+ *
+ * A run is checked against what can be known without it: the same seed gives
+ * the same draws, the budget is never exceeded, the sample moments match the
+ * analytic ones, a dependency's strength comes back as the correlation of
+ * the draws, and constraints rescale or reject draws as they say. The
+ * diagnostics are checked on chains that agree and on chains that do not.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gewekeZ, runMonteCarlo, splitRHat } from '../../../../src/modes/stochastic/sampling/monte-carlo.js';
+import { correlation } from '../../../../src/modes/stochastic/analysis/statistics.js';
+import type { Distribution, StochasticModel } from '../../../../src/modes/stochastic/types.js';
+
+function model(variables: [string, Distribution][], extra: Partial<StochasticModel> = {}): StochasticModel {
+  return {
+    id: 'm',
+    type: 'continuous',
+    variables: variables.map(([name, distribution]) => ({ name, distribution, domain: { type: 'continuous' } })),
+    dependencies: [],
+    ...extra,
+  };
+}
+
+const column = (samples: number[][], j: number) => samples.map((row) => row[j]);
+
+const xy = model([
+  ['x', { type: 'normal', mean: 10, stdDev: 2 }],
+  ['y', { type: 'gamma', shape: 2, scale: 3 }],
+]);
+
+describe('runMonteCarlo', () => {
+  it('draws the same samples from the same seed, and records a fresh seed', () => {
+    const a = runMonteCarlo(xy, { iterations: 2000, seed: 42 });
+    const b = runMonteCarlo(xy, { iterations: 2000, seed: 42 });
+    const c = runMonteCarlo(xy, { iterations: 2000, seed: 43 });
+    expect(b.samples).toEqual(a.samples);
+    expect(c.samples).not.toEqual(a.samples);
+
+    const unseeded = runMonteCarlo(xy, { iterations: 200 });
+    expect(typeof unseeded.config.seed).toBe('number');
+    expect(runMonteCarlo(xy, { iterations: 200, seed: unseeded.config.seed }).samples).toEqual(unseeded.samples);
+  });
+
+  it('spends the budget across the chains, burn-in and thinning included', () => {
+    const result = runMonteCarlo(xy, { iterations: 1000, seed: 1, chains: 4, burnIn: 50, thinning: 2 });
+    expect(result.draws).toBe(1000);
+    expect(result.config).toMatchObject({ chains: 4, burnIn: 50, thinning: 2 });
+    // 250 draws a chain, 200 after burn-in, every other one kept
+    expect(result.effectiveSamples).toBe(400);
+    expect(result.samples).toHaveLength(400);
+    expect(result.success).toBe(true);
+  });
+
+  it('matches the analytic moments', () => {
+    const result = runMonteCarlo(xy, { iterations: 20000, seed: 5 });
+    expect(result.variableNames).toEqual(['x', 'y']);
+    expect(result.statistics.mean[0]).toBeCloseTo(10, 1);
+    expect(result.statistics.stdDev[0]).toBeCloseTo(2, 1);
+    expect(result.statistics.mean[1]).toBeCloseTo(6, 0);
+    expect(result.statistics.variance[1] / 18).toBeCloseTo(1, 1);
+  });
+
+  it('induces the correlation a dependency sets, keeping each distribution', () => {
+    const correlated = model(
+      [
+        ['a', { type: 'normal', mean: 0, stdDev: 1 }],
+        ['b', { type: 'normal', mean: 5, stdDev: 3 }],
+      ],
+      { dependencies: [{ from: 'a', to: 'b', type: 'correlation', strength: -0.7 }] },
+    );
+    const result = runMonteCarlo(correlated, { iterations: 20000, seed: 9 });
+    expect(correlation(column(result.samples, 0), column(result.samples, 1))).toBeCloseTo(-0.7, 1);
+    expect(result.statistics.mean[1]).toBeCloseTo(5, 1);
+    expect(result.statistics.stdDev[1]).toBeCloseTo(3, 1);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('samples independently, with a warning, when the dependencies cannot be a correlation matrix', () => {
+    const three = model(
+      [
+        ['a', { type: 'uniform', min: 0, max: 1 }],
+        ['b', { type: 'uniform', min: 0, max: 1 }],
+        ['c', { type: 'uniform', min: 0, max: 1 }],
+      ],
+      {
+        dependencies: [
+          { from: 'a', to: 'b', type: 'correlation', strength: 0.9 },
+          { from: 'b', to: 'c', type: 'correlation', strength: 0.9 },
+          { from: 'a', to: 'c', type: 'correlation', strength: -0.9 },
+          { from: 'a', to: 'z', type: 'causal', strength: 0.5 },
+          { from: 'b', to: 'c', type: 'causal' },
+        ],
+      },
+    );
+    const result = runMonteCarlo(three, { iterations: 4000, seed: 3 });
+    expect(result.warnings).toEqual([
+      "Dependency a → z names 'z', which is not a variable of the model",
+      'Dependency b → c has no strength, so it was not sampled',
+      'The dependency strengths do not make a positive-definite correlation matrix, so the variables were sampled independently',
+    ]);
+    expect(Math.abs(correlation(column(result.samples, 0), column(result.samples, 1)))).toBeLessThan(0.1);
+  });
+
+  it('rescales to a target sum and rejects draws that fail a condition', () => {
+    const shares = model(
+      [
+        ['a', { type: 'gamma', shape: 2, scale: 1 }],
+        ['b', { type: 'gamma', shape: 2, scale: 1 }],
+        ['c', { type: 'gamma', shape: 2, scale: 1 }],
+      ],
+      {
+        constraints: [
+          { type: 'sum_to_one', variables: ['a', 'b', 'c'], expression: 'a + b + c = 1' },
+          { type: 'inequality', variables: ['a', 'b'], expression: 'a > b' },
+        ],
+      },
+    );
+    const result = runMonteCarlo(shares, { iterations: 4000, seed: 11 });
+    for (const [a, b, c] of result.samples) {
+      expect(a + b + c).toBeCloseTo(1, 12);
+      expect(a).toBeGreaterThan(b);
+    }
+    // By symmetry, about half the draws have a > b
+    expect(result.acceptanceRate).toBeCloseTo(0.5, 1);
+    expect(result.effectiveSamples).toBeLessThan(result.draws!);
+    expect(result.draws).toBe(4000);
+  });
+
+  it('warns on constraints it cannot read, and ignores them', () => {
+    const result = runMonteCarlo(
+      model([['x', { type: 'uniform', min: 0, max: 1 }]], {
+        constraints: [
+          { type: 'inequality', variables: ['x'], expression: 'x >' },
+          { type: 'range', variables: ['w'], expression: '0 < w < 1' },
+          { type: 'range', variables: ['x'], expression: 'x * 2' },
+          { type: 'equality', variables: ['x'], expression: 'x = ?' },
+        ],
+      }),
+      { iterations: 100, seed: 1 },
+    );
+    expect(result.warnings).toHaveLength(4);
+    expect(result.warnings![1]).toBe(
+      "Constraint '0 < w < 1' names 'w', which is not a variable of the model, so it was ignored",
+    );
+    expect(result.warnings![2]).toBe("Constraint 'x * 2' is not a condition, so it was ignored");
+    expect(result.effectiveSamples).toBe(100);
+  });
+
+  it('stops early once the estimates meet the convergence threshold', () => {
+    const result = runMonteCarlo(xy, { iterations: 40000, seed: 2, convergenceThreshold: 0.05 });
+    expect(result.stoppedEarly).toBe('converged');
+    expect(result.draws).toBeLessThan(40000);
+    expect(result.convergenceDiagnostics.hasConverged).toBe(true);
+    for (const [j, error] of result.convergenceDiagnostics.mcse!.entries()) {
+      expect(error).toBeLessThanOrEqual(0.05 * result.statistics.stdDev[j]);
+    }
+  });
+
+  it('reports converged diagnostics for independent draws', () => {
+    const { convergenceDiagnostics: d } = runMonteCarlo(xy, { iterations: 8000, seed: 4 });
+    expect(d.rHat).toBeLessThan(1.05);
+    expect(Math.abs(d.gewekeStatistic)).toBeLessThan(4);
+    expect(d.effectiveSampleSize).toBeGreaterThan(6000);
+    expect(d.hasConverged).toBe(true);
+  });
+});
+
+describe('splitRHat and gewekeZ', () => {
+  it('is near 1 for chains that agree and large for chains that do not', () => {
+    const wave = (offset: number) => Array.from({ length: 200 }, (_, i) => Math.sin(i * 1.7) + offset);
+    expect(splitRHat([wave(0), wave(0)])).toBeLessThan(1.05);
+    expect(splitRHat([wave(0), wave(5)])).toBeGreaterThan(2);
+    expect(splitRHat([[1, 2, 3]])).toBeNaN();
+  });
+
+  it('flags a chain whose mean drifts', () => {
+    const drift = Array.from({ length: 400 }, (_, i) => i / 100 + Math.sin(i));
+    expect(Math.abs(gewekeZ(drift))).toBeGreaterThan(3);
+    expect(gewekeZ([1, 2])).toBeNaN();
+  });
+});
@@ -62,6 +62,19 @@ function logicThought(extra: Record<string, unknown> = {}) {
   } as any;
 }
 
+const DEDUCTION_PROOF = {
+  theorem: 'p → q, q → r ⊢ p → r',
+  steps: [
+    { stepNumber: 1, statement: 'p -> q', justification: 'Premise' },
+    { stepNumber: 2, statement: 'q -> r', justification: 'Premise' },
+    { stepNumber: 3, statement: 'p', justification: 'Assumption' },
+    { stepNumber: 4, statement: 'q', justification: '→E', referencesSteps: [1, 3] },
+    { stepNumber: 5, statement: 'r', justification: '→E', referencesSteps: [2, 4] },
+    { stepNumber: 6, statement: 'p -> r', justification: '→I', referencesSteps: [3, 5] },
+  ],
+  conclusion: 'p -> r',
+};
+
 describe('analyzeProofAdvisory', () => {
   describe('when it runs', () => {
     it('analyses a mathematics proof carried in the thought content', () => {
@@ -145,6 +158,59 @@ describe('analyzeProofAdvisory', () => {
       expect(result!.theorem).toBe('P implies R');
     });
 
+    it('checks a formal-logic proof by natural deduction', () => {
+      const result = analyzeProofAdvisory(
+        logicThought({ proof: DEDUCTION_PROOF }),
+      );
+
+      expect(result!.available).toBe(true);
+      if (!result!.available) return;
+      expect(result!.deduction).toMatchObject({
+        verified: true,
+        sequent: 'p → q, q → r ⊢ p → r',
+        openAssumptions: [],
+        totals: { steps: 6, valid: 6, invalid: 0, unchecked: 0 },
+      });
+    });
+
+    it('reports the first proof step that does not follow', () => {
+      const steps = DEDUCTION_PROOF.steps.map((s) =>
+        s.stepNumber === 5 ? { ...s, referencesSteps: [2, 3] } : s,
+      );
+      const result = analyzeProofAdvisory(
+        logicThought({ proof: { ...DEDUCTION_PROOF, steps } }),
+      );
+
+      if (!result!.available) throw new Error('expected an analysis');
+      expect(result!.deduction!.verified).toBe(false);
+      expect(result!.deduction!.firstInvalid).toEqual({
+        stepNumber: 5,
+        rule: 'implies_elim',
+        reason: 'Modus ponens from q → r needs its antecedent q among the cited steps',
+      });
+    });
+
+    it('leaves prose proof steps unchecked and skips mathematics proofs', () => {
+      const prose = analyzeProofAdvisory(
+        logicThought({
+          proof: {
+            theorem: 'P implies R',
+            steps: [
+              { stepNumber: 1, statement: 'Assume P.', justification: 'hypothesis' },
+              { stepNumber: 2, statement: 'Therefore R.', justification: 'by the lemma' },
+            ],
+          },
+        }),
+      );
+      if (!prose!.available) throw new Error('expected an analysis');
+      expect(prose!.deduction!.verified).toBe(false);
+      expect(prose!.deduction!.uncheckedSteps).toEqual([1, 2]);
+
+      const maths = analyzeProofAdvisory(mathThought());
+      if (!maths!.available) throw new Error('expected an analysis');
+      expect(maths!.deduction).toBeUndefined();
+    });
+
     it('reports circular reasoning as feedback', () => {
       const result = analyzeProofAdvisory(
         mathThought({
@@ -303,6 +369,20 @@ describe('analyzeProofAdvisory', () => {
       if (result!.available) return;
       expect(result!.reason).toContain('gap analyzer exploded');
     });
+    it('drops only the deduction check when the checker throws', () => {
+      const result = analyzeProofAdvisory(
+        logicThought({ proof: DEDUCTION_PROOF }),
+        {
+          checkDeduction() {
+            throw new Error('checker exploded');
+          },
+        },
+      );
+
+      expect(result!.available).toBe(true);
+      if (!result!.available) return;
+      expect(result!.deduction).toBeUndefined();
+    });
   });
 
   describe('bounded output', () => {
@@ -0,0 +1,161 @@
+/**
+ * ImportService Unit Tests
+ *
+ * Parsing a JSON export back into a session (Date and Map revival, envelope
+ * checks, prototype-key stripping) and SessionManager.importSession's
+ * registration rules. The `import_session` action is covered end to end in
+ * tests/integration/session-import.test.ts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ImportService } from '../../../src/services/ImportService.js';
+import { ExportService } from '../../../src/services/ExportService.js';
+import { ThoughtFactory } from '../../../src/services/ThoughtFactory.js';
+import { SessionManager } from '../../../src/session/manager.js';
+import { ThinkingMode } from '../../../src/types/core.js';
+import { resetConfig, updateConfig } from '../../../src/config/index.js';
+import {
+  ResourceLimitError,
+  SessionAlreadyExistsError,
+  SessionError,
+  ValidationError,
+} from '../../../src/utils/errors.js';
+import { MAX_LENGTHS } from '../../../src/utils/sanitization.js';
+import type { ThinkingToolInput } from '../../../src/tools/thinking.js';
+import type { ThinkingSession } from '../../../src/types/index.js';
+
+const factory = new ThoughtFactory();
+const exportService = new ExportService();
+const importService = new ImportService(factory);
+
+async function sessionWithThought(manager: SessionManager): Promise<ThinkingSession> {
+  const session = await manager.createSession({ mode: ThinkingMode.SEQUENTIAL, title: 'Archive me' });
+  const thought = factory.createThought(
+    {
+      thought: 'first step',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      mode: 'sequential',
+    } as ThinkingToolInput,
+    session.id,
+  );
+  await manager.addThought(session.id, thought);
+  session.metrics.customMetrics.set('reviewer', 'alice');
+  return session;
+}
+
+describe('ImportService.parseSession', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    manager = new SessionManager();
+  });
+
+  it('restores Date fields and the customMetrics Map', async () => {
+    const original = await sessionWithThought(manager);
+    const parsed = importService.parseSession(exportService.exportSession(original, 'json'));
+
+    expect(parsed.createdAt).toBeInstanceOf(Date);
+    expect(parsed.createdAt.getTime()).toBe(original.createdAt.getTime());
+    expect(parsed.thoughts[0].timestamp).toBeInstanceOf(Date);
+    expect(parsed.metrics.customMetrics).toBeInstanceOf(Map);
+    expect(parsed.metrics.customMetrics.get('reviewer')).toBe('alice');
+  });
+
+  it('leaves a timestamp-shaped string under an unrelated key alone', async () => {
+    const original = await sessionWithThought(manager);
+    const exported = JSON.parse(exportService.exportSession(original, 'json'));
+    exported.tags = ['2026-01-01T00:00:00.000Z'];
+
+    const parsed = importService.parseSession(JSON.stringify(exported));
+    expect(parsed.tags).toEqual(['2026-01-01T00:00:00.000Z']);
+  });
+
+  it('drops __proto__ keys instead of letting them reach a prototype', async () => {
+    const original = await sessionWithThought(manager);
+    const json = exportService
+      .exportSession(original, 'json')
+      .replace(/^\{/, '{ "__proto__": { "polluted": true },');
+    expect(json).toContain('"__proto__"');
+
+    const parsed = importService.parseSession(json);
+    expect(Object.prototype.hasOwnProperty.call(parsed, '__proto__')).toBe(false);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it.each([
+    ['text that is not JSON', '{not json', /not valid JSON/],
+    ['a JSON array', '[]', /must be a JSON object/],
+  ])('rejects %s', (_label, json, message) => {
+    expect(() => importService.parseSession(json)).toThrow(message);
+  });
+
+  it.each([
+    ['id', (s: any) => (s.id = 'not-a-uuid'), /id must be a UUID v4/],
+    ['mode', (s: any) => (s.mode = 'astrology'), /mode must be a known thinking mode/],
+    ['createdAt', (s: any) => (s.createdAt = 'yesterday'), /createdAt must be a timestamp/],
+    ['thoughts', (s: any) => (s.thoughts = {}), /thoughts must be an array/],
+    ['a thought sessionId', (s: any) => (s.thoughts[0].sessionId = 'other'), /sessionId does not match/],
+    ['a thought mode', (s: any) => (s.thoughts[0].mode = 'astrology'), /thoughts\[0\] mode/],
+  ])('rejects a bad %s', async (_label, corrupt, message) => {
+    const original = await sessionWithThought(manager);
+    const exported = JSON.parse(exportService.exportSession(original, 'json'));
+    corrupt(exported);
+
+    expect(() => importService.parseSession(JSON.stringify(exported))).toThrow(ValidationError);
+    expect(() => importService.parseSession(JSON.stringify(exported))).toThrow(message);
+  });
+
+  it('rejects an export over the size limit before parsing it', () => {
+    const oversized = ' '.repeat(MAX_LENGTHS.SESSION_IMPORT + 1);
+    expect(() => importService.parseSession(oversized)).toThrow(ResourceLimitError);
+  });
+});
+
+describe('SessionManager.importSession', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('registers the session under its original id and announces it', async () => {
+    const source = new SessionManager();
+    const original = await sessionWithThought(source);
+    const json = exportService.exportSession(original, 'json');
+
+    const target = new SessionManager();
+    const kinds: string[] = [];
+    target.onSessionChange((e) => kinds.push(e.kind));
+    await target.importSession(importService.parseSession(json));
+
+    const imported = await target.getSession(original.id);
+    expect(imported).not.toBeNull();
+    expect(exportService.exportSession(imported!, 'json')).toBe(json);
+    expect(kinds).toEqual(['created']);
+  });
+
+  it('refuses an id that is already registered', async () => {
+    const manager = new SessionManager();
+    const original = await sessionWithThought(manager);
+    const parsed = importService.parseSession(exportService.exportSession(original, 'json'));
+
+    await expect(manager.importSession(parsed)).rejects.toThrow(SessionAlreadyExistsError);
+  });
+
+  it('refuses more thoughts than the session allows', async () => {
+    const original = await sessionWithThought(new SessionManager());
+    const parsed = importService.parseSession(exportService.exportSession(original, 'json'));
+    parsed.config.maxThoughtsInMemory = 0.5;
+
+    await expect(new SessionManager().importSession(parsed)).rejects.toThrow(ResourceLimitError);
+  });
+
+  it('refuses a session already past the session timeout', async () => {
+    const original = await sessionWithThought(new SessionManager());
+    const parsed = importService.parseSession(exportService.exportSession(original, 'json'));
+    parsed.updatedAt = new Date(Date.now() - 60_000);
+    updateConfig({ sessionTimeoutMs: 1000 });
+
+    await expect(new SessionManager().importSession(parsed)).rejects.toThrow(SessionError);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * PromptService Unit Tests
+ *
+ * Prompt naming, argument checking and rendering against the real mode
+ * handlers. The MCP wiring is covered end to end in
+ * tests/integration/mcp-prompts.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptService, listPromptModes } from '../../../src/services/PromptService.js';
+import { ThoughtFactory } from '../../../src/services/ThoughtFactory.js';
+import { ThinkingMode } from '../../../src/types/core.js';
+import { MAX_LENGTHS } from '../../../src/utils/sanitization.js';
+
+const service = new PromptService(new ThoughtFactory());
+
+function text(name: string, problem: string): string {
+  return service.getPrompt(name, { problem }).messages[0].content.text;
+}
+
+describe('listPromptModes', () => {
+  it('covers every mode except custom', () => {
+    const modes = listPromptModes();
+    expect(modes).not.toContain(ThinkingMode.CUSTOM);
+    expect(modes).toHaveLength(Object.values(ThinkingMode).length - 1);
+  });
+});
+
+describe('PromptService.listPrompts', () => {
+  it('titles mode prompts with the handler name and preset prompts with the preset name', () => {
+    const prompts = service.listPrompts();
+    expect(prompts.find((p) => p.name === 'mode_bayesian')?.title).toBe('Bayesian Inference');
+    expect(prompts.find((p) => p.name === 'preset_hypothesis_testing')?.title).toBe(
+      'Hypothesis Testing',
+    );
+  });
+});
+
+describe('PromptService.getPrompt', () => {
+  it('numbers the thought types in the handler\'s order', () => {
+    const rendered = text('mode_bayesian', 'Is the test result a true positive?');
+    expect(rendered).toMatch(/1\. prior_elicitation\n2\. likelihood_assessment/);
+  });
+
+  it('omits the thought-type list for a mode whose handler declares none', () => {
+    const rendered = text('mode_abductive', 'Why is the build slow?');
+    expect(rendered).not.toContain('thought types');
+    expect(rendered).toContain('Guiding questions:');
+  });
+
+  it('trims the problem text', () => {
+    expect(text('mode_sequential', '  plan the migration  ')).toContain('\nplan the migration\n');
+  });
+
+  it.each([
+    ['an empty problem', { problem: '   ' }],
+    ['a missing problem', {}],
+    ['an oversized problem', { problem: 'x'.repeat(MAX_LENGTHS.THOUGHT_CONTENT + 1) }],
+  ])('rejects %s', (_label, args) => {
+    expect(() => service.getPrompt('mode_causal', args)).toThrow(McpError);
+  });
+
+  it.each(['mode_', 'preset_', 'preset_root', 'causal', 'mode_toString'])(
+    'rejects the unknown prompt name %s',
+    (name) => {
+      expect(() => service.getPrompt(name, { problem: 'x' })).toThrow(/Unknown prompt/);
+    },
+  );
+});
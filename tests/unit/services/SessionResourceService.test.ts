@@ -0,0 +1,153 @@
+/**
+ * SessionResourceService Unit Tests
+ *
+ * URI parsing and subscription bookkeeping, plus the SessionManager change
+ * events the service depends on. The MCP wiring is covered end to end in
+ * tests/integration/mcp-resources.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SessionResourceService,
+  exportResourceUri,
+  parseSessionResourceUri,
+  sessionResourceUri,
+  thoughtResourceUri,
+} from '../../../src/services/SessionResourceService.js';
+import { ExportService } from '../../../src/services/ExportService.js';
+import { SessionManager } from '../../../src/session/manager.js';
+import type { SessionStorage } from '../../../src/session/storage/interface.js';
+import { ThinkingMode } from '../../../src/types/core.js';
+import type { SessionChangeEvent } from '../../../src/types/index.js';
+
+const SESSION_ID = '6f1c9a52-3a5b-4c1d-9e2f-0a1b2c3d4e5f';
+
+function event(kind: SessionChangeEvent['kind'], sessionId = SESSION_ID): SessionChangeEvent {
+  return { sessionId, kind, timestamp: new Date() };
+}
+
+describe('parseSessionResourceUri', () => {
+  it('round-trips the three URI shapes', () => {
+    expect(parseSessionResourceUri(sessionResourceUri(SESSION_ID))).toEqual({
+      kind: 'session',
+      sessionId: SESSION_ID,
+    });
+    expect(parseSessionResourceUri(thoughtResourceUri(SESSION_ID, 'thought/1'))).toEqual({
+      kind: 'thought',
+      sessionId: SESSION_ID,
+      thoughtId: 'thought/1',
+    });
+    expect(parseSessionResourceUri(exportResourceUri(SESSION_ID, 'visual-json'))).toEqual({
+      kind: 'export',
+      sessionId: SESSION_ID,
+      format: 'visual-json',
+    });
+  });
+
+  it.each([
+    ['another scheme', 'file:///tmp/session.json'],
+    ['an empty session id', 'deepthinking://session/'],
+    ['an unknown child', `deepthinking://session/${SESSION_ID}/metrics/x`],
+    ['an unknown export format', `deepthinking://session/${SESSION_ID}/export/pdf`],
+    ['an inherited property name as format', `deepthinking://session/${SESSION_ID}/export/toString`],
+    ['malformed percent-encoding', 'deepthinking://session/%E0%A4%A'],
+  ])('rejects %s', (_label, uri) => {
+    expect(parseSessionResourceUri(uri)).toBeNull();
+  });
+});
+
+describe('SessionResourceService subscriptions', () => {
+  it('reports every subscribed URI of the changed session', () => {
+    const service = new SessionResourceService(new ExportService());
+    const sessionUri = sessionResourceUri(SESSION_ID);
+    const exportUri = exportResourceUri(SESSION_ID, 'markdown');
+    service.subscribe(sessionUri);
+    service.subscribe(exportUri);
+    service.subscribe(sessionResourceUri('7a2d0b63-4b6c-4d2e-8f30-1b2c3d4e5f60'));
+
+    expect(service.urisAffectedBy(event('thought_added')).sort()).toEqual(
+      [exportUri, sessionUri].sort(),
+    );
+  });
+
+  it('drops a deleted session\'s subscriptions after reporting them once', () => {
+    const service = new SessionResourceService(new ExportService());
+    const uri = sessionResourceUri(SESSION_ID);
+    service.subscribe(uri);
+
+    expect(service.urisAffectedBy(event('deleted'))).toEqual([uri]);
+    expect(service.getSubscriptions()).toEqual([]);
+  });
+
+  it('refuses to track a URI it cannot serve', () => {
+    const service = new SessionResourceService(new ExportService());
+    expect(() => service.subscribe('https://example.com/')).toThrow(/unknown resource URI/);
+  });
+});
+
+describe('SessionManager.onSessionChange', () => {
+  it('fires for create, addThought, switchMode and delete in order', async () => {
+    const manager = new SessionManager();
+    const events: SessionChangeEvent[] = [];
+    manager.onSessionChange((e) => events.push(e));
+
+    const session = await manager.createSession({ mode: ThinkingMode.SEQUENTIAL });
+    await manager.addThought(session.id, {
+      id: 'thought-1',
+      sessionId: session.id,
+      mode: ThinkingMode.SEQUENTIAL,
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      content: 'only thought',
+      timestamp: new Date(),
+      nextThoughtNeeded: true,
+    } as any);
+    await manager.switchMode(session.id, ThinkingMode.CAUSAL);
+    await manager.deleteSession(session.id);
+
+    expect(events.map((e) => e.kind)).toEqual([
+      'created',
+      'thought_added',
+      'mode_switched',
+      'deleted',
+    ]);
+    expect(events.every((e) => e.sessionId === session.id)).toBe(true);
+    expect(events[1].thoughtId).toBe('thought-1');
+  });
+
+  it('reports deleting a session held only in storage, and nothing for an unknown one', async () => {
+    const stored = new Set([SESSION_ID]);
+    const storage = {
+      deleteSession: async (id: string) => stored.delete(id),
+    } as unknown as SessionStorage;
+    const manager = new SessionManager(undefined, undefined, storage);
+    const kinds: string[] = [];
+    manager.onSessionChange((e) => kinds.push(e.kind));
+
+    await manager.deleteSession(SESSION_ID);
+    await manager.deleteSession(SESSION_ID);
+
+    expect(kinds).toEqual(['deleted']);
+  });
+
+  it('does not let a throwing listener fail the operation', async () => {
+    const manager = new SessionManager();
+    manager.onSessionChange(() => {
+      throw new Error('listener bug');
+    });
+
+    await expect(manager.createSession()).resolves.toBeDefined();
+  });
+
+  it('stops calling a listener once it is removed', async () => {
+    const manager = new SessionManager();
+    const kinds: string[] = [];
+    const unsubscribe = manager.onSessionChange((e) => kinds.push(e.kind));
+
+    await manager.createSession();
+    unsubscribe();
+    await manager.createSession();
+
+    expect(kinds).toEqual(['created']);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Idle Session Sweeper Tests
+ *
+ * Lazy expiry only drops an idle session when something reads it; the
+ * sweeper finds the ones nobody reads. These tests drive SessionManager with
+ * a clock advanced by hand, so every expiry and every timer firing happens
+ * exactly when the test says, with no sleeps.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from '../../../src/session/manager.js';
+import { FileSessionStore } from '../../../src/session/storage/file-store.js';
+import { resetConfig, updateConfig } from '../../../src/config/index.js';
+import type { Clock } from '../../../src/utils/clock.js';
+import type { SessionChangeEvent, Thought } from '../../../src/types/index.js';
+
+const TIMEOUT_MS = 30_000;
+const START = Date.UTC(2026, 0, 1);
+
+/**
+ * A clock whose time moves only through advance(), firing due timers in order
+ */
+class ManualClock implements Clock {
+  private timers = new Map<number, { intervalMs: number; due: number; callback: () => void }>();
+  private nextId = 0;
+
+  constructor(private time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  every(intervalMs: number, callback: () => void): () => void {
+    const id = this.nextId++;
+    this.timers.set(id, { intervalMs, due: this.time + intervalMs, callback });
+    return () => this.timers.delete(id);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const next = [...this.timers.values()]
+        .filter((timer) => timer.due <= end)
+        .sort((a, b) => a.due - b.due)[0];
+      if (!next) break;
+      this.time = next.due;
+      next.due += next.intervalMs;
+      next.callback();
+    }
+    this.time = end;
+  }
+
+  get timerCount(): number {
+    return this.timers.size;
+  }
+}
+
+describe('idle session sweeper', () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    clock = new ManualClock(START);
+    updateConfig({ sessionTimeoutMs: TIMEOUT_MS, sessionSweepIntervalMs: 10_000 });
+  });
+
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('expires sessions idle past the timeout and keeps the rest', async () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    const idle = await manager.createSession({ title: 'idle' });
+    const busy = await manager.createSession({ title: 'busy' });
+
+    clock.advance(TIMEOUT_MS + 1);
+    busy.updatedAt = new Date(clock.now());
+
+    expect(await manager.sweepIdleSessions()).toEqual([idle.id]);
+    expect(idle.expiredAt).toEqual(new Date(clock.now()));
+    expect((await manager.listSessions()).map((s) => s.id)).toEqual([busy.id]);
+    expect(manager.getActiveMetaSessions()).not.toContain(idle.id);
+  });
+
+  it('announces each expired session', async () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    const events: SessionChangeEvent[] = [];
+    manager.onSessionChange((event) => events.push(event));
+    const session = await manager.createSession();
+
+    clock.advance(TIMEOUT_MS + 1);
+    await manager.sweepIdleSessions();
+
+    expect(events.at(-1)).toMatchObject({ sessionId: session.id, kind: 'expired' });
+  });
+
+  it('keeps a session idle for exactly the timeout', async () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    await manager.createSession();
+
+    clock.advance(TIMEOUT_MS);
+
+    expect(await manager.sweepIdleSessions()).toEqual([]);
+  });
+
+  it('stamps sessions, thoughts and change events with the clock', async () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    const events: SessionChangeEvent[] = [];
+    manager.onSessionChange((event) => events.push(event));
+    const session = await manager.createSession();
+
+    clock.advance(1_000);
+    await manager.addThought(session.id, {
+      id: randomUUID(),
+      sessionId: session.id,
+      mode: session.mode,
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      content: 'stamped',
+      timestamp: new Date(0),
+      nextThoughtNeeded: false,
+    } as Thought);
+
+    expect(session.createdAt).toEqual(new Date(START));
+    expect(session.updatedAt).toEqual(new Date(START + 1_000));
+    expect(session.thoughts[0].timestamp).toEqual(new Date(START + 1_000));
+    expect(events.at(-1)!.timestamp).toEqual(new Date(START + 1_000));
+  });
+
+  it('expires nothing when sessionTimeoutMs is 0', async () => {
+    updateConfig({ sessionTimeoutMs: 0 });
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    await manager.createSession();
+
+    clock.advance(365 * 24 * 60 * 60 * 1000);
+
+    expect(await manager.sweepIdleSessions()).toEqual([]);
+  });
+
+  it('runs on the configured interval once started, and stops', async () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    const sweep = vi.spyOn(manager, 'sweepIdleSessions');
+
+    manager.startSweeper();
+    clock.advance(35_000);
+    expect(sweep).toHaveBeenCalledTimes(3);
+
+    manager.stopSweeper();
+    expect(clock.timerCount).toBe(0);
+    clock.advance(35_000);
+    expect(sweep).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts no timer without a timeout, interval or storage', () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+
+    updateConfig({ sessionTimeoutMs: 0, storageCleanupIntervalMs: 60_000 });
+    manager.startSweeper();
+    expect(clock.timerCount).toBe(0);
+
+    updateConfig({ sessionTimeoutMs: TIMEOUT_MS, sessionSweepIntervalMs: 0 });
+    manager.startSweeper();
+    expect(clock.timerCount).toBe(0);
+  });
+
+  it('restarts rather than stacking timers when started twice', () => {
+    const manager = new SessionManager({}, undefined, undefined, clock);
+    manager.startSweeper();
+    manager.startSweeper();
+    expect(clock.timerCount).toBe(1);
+    manager.stopSweeper();
+  });
+
+  describe('with storage', () => {
+    let tempDir: string;
+    let storage: FileSessionStore;
+
+    beforeEach(async () => {
+      tempDir = path.join(os.tmpdir(), `deepthinking-sweeper-${randomUUID()}`);
+      storage = new FileSessionStore(tempDir);
+      await storage.initialize();
+    });
+
+    afterEach(async () => {
+      await storage.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('persists an expired session and marks it in the stored metadata', async () => {
+      const manager = new SessionManager({}, undefined, storage, clock);
+      const session = await manager.createSession();
+
+      clock.advance(TIMEOUT_MS + 1);
+      await manager.sweepIdleSessions();
+
+      const [metadata] = await manager.listSessions();
+      expect(metadata.id).toBe(session.id);
+      expect(metadata.expiredAt).toEqual(new Date(clock.now()));
+      expect((await storage.loadSession(session.id))!.expiredAt).toEqual(new Date(clock.now()));
+      // Still past the timeout, so not restored into memory
+      expect(await manager.getSession(session.id)).toBeNull();
+    });
+
+    it('clears the mark when a longer timeout lets the session back in', async () => {
+      const manager = new SessionManager({}, undefined, storage, clock);
+      const session = await manager.createSession();
+      clock.advance(TIMEOUT_MS + 1);
+      await manager.sweepIdleSessions();
+
+      updateConfig({ sessionTimeoutMs: 10 * TIMEOUT_MS });
+
+      const restored = await manager.getSession(session.id);
+      expect(restored!.expiredAt).toBeUndefined();
+    });
+
+    it('runs storage cleanup on its own schedule with the configured age', async () => {
+      updateConfig({ storageCleanupIntervalMs: 60_000, storageCleanupMaxAgeMs: 5_000 });
+      const cleanup = vi.spyOn(storage, 'cleanup');
+      const manager = new SessionManager({}, undefined, storage, clock);
+
+      manager.startSweeper();
+      clock.advance(59_999);
+      expect(cleanup).not.toHaveBeenCalled();
+      clock.advance(1);
+      expect(cleanup).toHaveBeenCalledWith(5_000, START + 60_000, new Set());
+      manager.stopSweeper();
+    });
+
+    it('deletes stored sessions older than the max age', async () => {
+      updateConfig({ storageCleanupMaxAgeMs: 1 });
+      const manager = new SessionManager({}, undefined, storage, clock);
+      const session = await manager.createSession();
+      await storage.saveSession(session);
+
+      clock.advance(60_000);
+      await manager.sweepIdleSessions();
+      expect(await manager.cleanupStorage()).toBe(1);
+      expect(await storage.exists(session.id)).toBe(false);
+    });
+
+    it('keeps the stored copy of a session still held in memory', async () => {
+      updateConfig({ sessionTimeoutMs: 0, storageCleanupMaxAgeMs: 1 });
+      const manager = new SessionManager({}, undefined, storage, clock);
+      const live = await manager.createSession();
+      await storage.saveSession(live);
+
+      clock.advance(60_000);
+
+      expect(await manager.cleanupStorage()).toBe(0);
+      expect(await storage.exists(live.id)).toBe(true);
+    });
+
+    it('logs and returns 0 when cleanup fails', async () => {
+      vi.spyOn(storage, 'cleanup').mockRejectedValue(new Error('disk gone'));
+      const manager = new SessionManager({}, undefined, storage, clock);
+
+      expect(await manager.cleanupStorage()).toBe(0);
+    });
+  });
+});
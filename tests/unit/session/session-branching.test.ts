@@ -0,0 +1,365 @@
+/**
+ * Session Branching Tests
+ *
+ * forkSession copies a session up to a thought into a new session that
+ * remembers where it came from; mergeBranch brings what the fork added back
+ * into the parent on a branch of its own. A merge never rewrites the parent,
+ * so disagreements between the two come back as conflicts, not errors.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from '../../../src/session/manager.js';
+import { FileSessionStore } from '../../../src/session/storage/file-store.js';
+import { ExportService } from '../../../src/services/ExportService.js';
+import { SessionError, ResourceLimitError } from '../../../src/utils/errors.js';
+import {
+  ThinkingMode,
+  type ThinkingSession,
+  type Thought,
+  type SessionChangeEvent,
+} from '../../../src/types/index.js';
+
+function thought(n: number, extra: Partial<Thought> = {}): Thought {
+  return {
+    id: randomUUID(),
+    sessionId: '',
+    mode: ThinkingMode.SEQUENTIAL,
+    thoughtNumber: n,
+    totalThoughts: 10,
+    content: `Step ${n}`,
+    timestamp: new Date(),
+    nextThoughtNeeded: true,
+    ...extra,
+  } as Thought;
+}
+
+async function sessionWithThoughts(manager: SessionManager, count: number) {
+  const session = await manager.createSession({
+    title: 'Parent',
+    mode: ThinkingMode.SEQUENTIAL,
+    config: { enableValidation: false },
+  });
+  for (let n = 1; n <= count; n++) {
+    await manager.addThought(session.id, thought(n));
+  }
+  return session;
+}
+
+const contents = (session: ThinkingSession) => session.thoughts.map((t) => t.content);
+
+describe('session branching', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    manager = new SessionManager();
+  });
+
+  describe('forkSession', () => {
+    it('copies thoughts up to the fork point and records the lineage', async () => {
+      const parent = await sessionWithThoughts(manager, 4);
+
+      const fork = await manager.forkSession(parent.id, { thoughtId: parent.thoughts[1].id });
+
+      expect(fork.id).not.toBe(parent.id);
+      expect(fork.title).toBe('Parent (fork)');
+      expect(contents(fork)).toEqual(['Step 1', 'Step 2']);
+      expect(fork.thoughts.every((t) => t.sessionId === fork.id)).toBe(true);
+      expect(fork.thoughts.map((t) => t.id)).toEqual(parent.thoughts.slice(0, 2).map((t) => t.id));
+      expect(fork.forkedFrom).toMatchObject({
+        sessionId: parent.id,
+        thoughtId: parent.thoughts[1].id,
+        thoughtNumber: 2,
+      });
+      expect(fork.metrics.totalThoughts).toBe(2);
+      expect(fork.currentThoughtNumber).toBe(2);
+    });
+
+    it('forks at the newest thought by default and leaves the parent alone', async () => {
+      const parent = await sessionWithThoughts(manager, 3);
+
+      const fork = await manager.forkSession(parent.id, { title: 'Alternative' });
+      await manager.addThought(fork.id, thought(4));
+
+      expect(fork.title).toBe('Alternative');
+      expect(contents(fork)).toHaveLength(4);
+      expect(contents((await manager.getSession(parent.id))!)).toHaveLength(3);
+      expect(parent.thoughts[0].sessionId).toBe(parent.id);
+    });
+
+    it('does not share thought objects with the parent', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+
+      fork.thoughts[0].content = 'changed in the fork';
+
+      expect(parent.thoughts[0].content).toBe('Step 1');
+    });
+
+    it('rejects a thought the session does not have, or an empty session', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const empty = await manager.createSession();
+
+      await expect(manager.forkSession(parent.id, { thoughtId: 'nope' })).rejects.toThrow(
+        SessionError,
+      );
+      await expect(manager.forkSession(empty.id)).rejects.toThrow(/no thoughts to fork/);
+    });
+
+    it('announces the fork as a new session', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const events: SessionChangeEvent[] = [];
+      manager.onSessionChange((event) => events.push(event));
+
+      const fork = await manager.forkSession(parent.id);
+
+      expect(events).toEqual([expect.objectContaining({ sessionId: fork.id, kind: 'created' })]);
+    });
+  });
+
+  describe('listBranches', () => {
+    it('groups thoughts by branchId in order of first appearance', async () => {
+      const session = await sessionWithThoughts(manager, 2);
+      const [first, second] = session.thoughts;
+      await manager.addThought(session.id, thought(3, { branchId: 'b', branchFrom: second.id }));
+      await manager.addThought(session.id, thought(4, { branchId: 'a', branchFrom: first.id }));
+      await manager.addThought(session.id, thought(5, { branchId: 'b' }));
+
+      const listing = await manager.listBranches(session.id);
+
+      expect(listing.mainThoughtCount).toBe(2);
+      expect(listing.branches).toEqual([
+        {
+          branchId: 'b',
+          branchFrom: second.id,
+          thoughtIds: [session.thoughts[2].id, session.thoughts[4].id],
+          firstThoughtNumber: 3,
+          lastThoughtNumber: 5,
+        },
+        {
+          branchId: 'a',
+          branchFrom: first.id,
+          thoughtIds: [session.thoughts[3].id],
+          firstThoughtNumber: 4,
+          lastThoughtNumber: 4,
+        },
+      ]);
+    });
+
+    it('reports the lineage of a fork', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+
+      expect((await manager.listBranches(fork.id)).forkedFrom?.sessionId).toBe(parent.id);
+    });
+  });
+
+  describe('mergeBranch', () => {
+    it('appends the fork’s new thoughts to the parent on their own branch', async () => {
+      const parent = await sessionWithThoughts(manager, 2);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(3, { content: 'Fork 3' }));
+      await manager.addThought(fork.id, thought(4, { content: 'Fork 4' }));
+
+      const result = await manager.mergeBranch(fork.id, { branchId: 'alternative' });
+
+      expect(result).toMatchObject({
+        sessionId: parent.id,
+        sourceSessionId: fork.id,
+        branchId: 'alternative',
+        mergedThoughtIds: fork.thoughts.slice(2).map((t) => t.id),
+        skippedThoughtIds: [],
+        targetThoughtsSinceFork: 0,
+        conflicts: [],
+      });
+      const merged = parent.thoughts.slice(2);
+      expect(merged.map((t) => [t.content, t.thoughtNumber, t.branchId, t.sessionId])).toEqual([
+        ['Fork 3', 3, 'alternative', parent.id],
+        ['Fork 4', 4, 'alternative', parent.id],
+      ]);
+      expect(merged[0].branchFrom).toBe(parent.thoughts[1].id);
+      expect(merged[1].branchFrom).toBeUndefined();
+      expect(parent.metrics.totalThoughts).toBe(4);
+      expect(fork.thoughts.slice(2).every((t) => t.branchId === undefined)).toBe(true);
+    });
+
+    it('numbers merged thoughts after thoughts the parent gained since the fork', async () => {
+      const parent = await sessionWithThoughts(manager, 2);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(parent.id, thought(3, { content: 'Parent 3' }));
+      await manager.addThought(fork.id, thought(3, { content: 'Fork 3' }));
+
+      const result = await manager.mergeBranch(fork.id);
+
+      expect(result.branchId).toBe(fork.id);
+      expect(result.targetThoughtsSinceFork).toBe(1);
+      expect(contents(parent)).toEqual(['Step 1', 'Step 2', 'Parent 3', 'Fork 3']);
+      expect(parent.thoughts[3].thoughtNumber).toBe(4);
+    });
+
+    it('skips thoughts merged before, so a fork can be merged again', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(2));
+      const first = await manager.mergeBranch(fork.id);
+      await manager.addThought(fork.id, thought(3));
+
+      const second = await manager.mergeBranch(fork.id);
+
+      expect(second.skippedThoughtIds).toEqual(first.mergedThoughtIds);
+      expect(second.mergedThoughtIds).toEqual([fork.thoughts[2].id]);
+      expect(second.targetThoughtsSinceFork).toBe(0);
+      expect(parent.thoughts).toHaveLength(3);
+      // The second merge continues the branch rather than starting another
+      expect(parent.thoughts[2].branchFrom).toBeUndefined();
+      expect((await manager.listBranches(parent.id)).branches).toHaveLength(1);
+    });
+
+    it('reports a thought revised on both sides as a conflict and still merges', async () => {
+      const parent = await sessionWithThoughts(manager, 2);
+      const revised = parent.thoughts[0].id;
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(parent.id, thought(3, { isRevision: true, revisesThought: revised }));
+      await manager.addThought(fork.id, thought(3, { isRevision: true, revisesThought: revised }));
+
+      const result = await manager.mergeBranch(fork.id);
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          kind: 'revision',
+          thoughtId: fork.thoughts[2].id,
+          relatedThoughtId: revised,
+        }),
+      ]);
+      expect(parent.thoughts).toHaveLength(4);
+    });
+
+    it('reports references to thoughts the parent does not have', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(2, { dependencies: ['elsewhere'] }));
+
+      const result = await manager.mergeBranch(fork.id);
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ kind: 'missing_reference', relatedThoughtId: 'elsewhere' }),
+      ]);
+    });
+
+    it('refuses a branch id the parent already uses for its own thoughts', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      await manager.addThought(parent.id, thought(2, { branchId: 'taken' }));
+      const fork = await manager.forkSession(parent.id, { thoughtId: parent.thoughts[0].id });
+      await manager.addThought(fork.id, thought(2));
+
+      await expect(manager.mergeBranch(fork.id, { branchId: 'taken' })).rejects.toThrow(
+        /Branch taken already exists/,
+      );
+      expect(parent.thoughts).toHaveLength(2);
+    });
+
+    it('refuses a session that is not a fork', async () => {
+      const session = await sessionWithThoughts(manager, 1);
+      await expect(manager.mergeBranch(session.id)).rejects.toThrow(/is not a fork/);
+    });
+
+    it('refuses a merge past the parent’s thought limit without changing it', async () => {
+      const parent = await manager.createSession({
+        config: { maxThoughtsInMemory: 2, enableValidation: false },
+      });
+      await manager.addThought(parent.id, thought(1));
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(2));
+      await manager.addThought(parent.id, thought(2));
+
+      await expect(manager.mergeBranch(fork.id)).rejects.toThrow(ResourceLimitError);
+      expect(parent.thoughts).toHaveLength(2);
+    });
+
+    it('announces each merged thought on the parent', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(2));
+      const events: SessionChangeEvent[] = [];
+      manager.onSessionChange((event) => events.push(event));
+
+      await manager.mergeBranch(fork.id);
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          sessionId: parent.id,
+          kind: 'thought_added',
+          thoughtId: fork.thoughts[1].id,
+        }),
+      ]);
+    });
+  });
+
+  it('draws branch points and the fork origin in the session graph', async () => {
+    const parent = await sessionWithThoughts(manager, 2);
+    const fork = await manager.forkSession(parent.id);
+    await manager.addThought(fork.id, thought(3));
+    await manager.mergeBranch(fork.id, { branchId: 'alt' });
+    const exporter = new ExportService();
+
+    const parentGraph = JSON.parse(exporter.exportSession(parent, 'visual-json'));
+    const forkGraph = JSON.parse(exporter.exportSession(fork, 'visual-json'));
+
+    expect(parentGraph.edges).toContainEqual(
+      expect.objectContaining({ source: 'T2', target: 'T3', type: 'branch', label: 'branch alt' }),
+    );
+    expect(parentGraph.edges.filter((e: { type: string }) => e.type === 'dependency')).toEqual([]);
+    expect(forkGraph.nodes).toContainEqual(
+      expect.objectContaining({ id: 'FORK', type: 'fork', label: `Forked from ${parent.id}` }),
+    );
+    expect(forkGraph.edges).toContainEqual(
+      expect.objectContaining({ source: 'FORK', target: 'SESSION', type: 'fork' }),
+    );
+  });
+
+  describe('with storage', () => {
+    let tempDir: string;
+    let storage: FileSessionStore;
+
+    beforeEach(async () => {
+      tempDir = path.join(os.tmpdir(), `deepthinking-branching-${randomUUID()}`);
+      storage = new FileSessionStore(tempDir);
+      await storage.initialize();
+      manager = new SessionManager({}, undefined, storage);
+    });
+
+    afterEach(async () => {
+      await storage.close();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('persists the fork with its lineage and the merged parent', async () => {
+      const parent = await sessionWithThoughts(manager, 2);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(3));
+      await manager.mergeBranch(fork.id);
+
+      const storedFork = await storage.loadSession(fork.id);
+      const storedParent = await storage.loadSession(parent.id);
+
+      expect(storedFork!.forkedFrom!.forkedAt).toBeInstanceOf(Date);
+      expect(storedFork!.forkedFrom!.sessionId).toBe(parent.id);
+      expect(storedParent!.thoughts.map((t) => t.branchId)).toEqual([undefined, undefined, fork.id]);
+    });
+
+    it('merges into a parent that is only in storage', async () => {
+      const parent = await sessionWithThoughts(manager, 1);
+      const fork = await manager.forkSession(parent.id);
+      await manager.addThought(fork.id, thought(2));
+
+      const fresh = new SessionManager({}, undefined, storage);
+      const result = await fresh.mergeBranch(fork.id);
+
+      expect(result.mergedThoughtIds).toHaveLength(1);
+      expect((await storage.loadSession(parent.id))!.thoughts).toHaveLength(2);
+    });
+  });
+});
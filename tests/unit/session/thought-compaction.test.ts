@@ -0,0 +1,215 @@
+/**
+ * Thought Compaction Wiring Tests
+ *
+ * SessionManager compacts a session's older thoughts once it holds more than
+ * `compressionThreshold` full thoughts: the originals go to storage, the
+ * session keeps digests, and getFullSession() brings the originals back.
+ * Runs against both storage backends, since each archives differently.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from '../../../src/session/manager.js';
+import { FileSessionStore } from '../../../src/session/storage/file-store.js';
+import { SqliteSessionStore } from '../../../src/session/storage/sqlite-store.js';
+import type { SessionStorage } from '../../../src/session/storage/interface.js';
+import { isThoughtDigest } from '../../../src/session/ThoughtCompactor.js';
+import { ExportService } from '../../../src/services/ExportService.js';
+import { resetConfig, updateConfig } from '../../../src/config/index.js';
+import { ThinkingMode, Thought } from '../../../src/types/index.js';
+import { ResourceLimitError } from '../../../src/utils/errors.js';
+
+const LONG_CONTENT = ('First sentence of a long thought. ' + 'Supporting detail. '.repeat(50)).trim();
+
+function thought(n: number): Thought {
+  return {
+    id: randomUUID(),
+    sessionId: '',
+    mode: ThinkingMode.SEQUENTIAL,
+    thoughtNumber: n,
+    totalThoughts: 10,
+    content: `${n}: ${LONG_CONTENT}`,
+    timestamp: new Date(),
+    nextThoughtNeeded: true,
+  } as Thought;
+}
+
+async function sessionWithThoughts(manager: SessionManager, count: number) {
+  const session = await manager.createSession({
+    mode: ThinkingMode.SEQUENTIAL,
+    config: { compressionThreshold: 3, enableValidation: false },
+  });
+  for (let n = 1; n <= count; n++) {
+    await manager.addThought(session.id, thought(n));
+  }
+  return session;
+}
+
+const backends: Array<[string, (dir: string) => SessionStorage]> = [
+  ['FileSessionStore', (dir) => new FileSessionStore(dir)],
+  ['SqliteSessionStore', (dir) => new SqliteSessionStore(path.join(dir, 'sessions.db'))],
+];
+
+describe.each(backends)('thought compaction with %s', (_name, createStorage) => {
+  let tempDir: string;
+  let storage: SessionStorage;
+  let manager: SessionManager;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-compaction-${randomUUID()}`);
+    storage = createStorage(tempDir);
+    await storage.initialize();
+    manager = new SessionManager({}, undefined, storage);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps the newest compressionThreshold thoughts in full', async () => {
+    const session = await sessionWithThoughts(manager, 5);
+
+    const digests = session.thoughts.filter(isThoughtDigest);
+    expect(digests.map((t) => t.thoughtNumber)).toEqual([1, 2]);
+    expect(session.thoughts).toHaveLength(5);
+    expect(session.thoughts[0].content).toBe('1: First sentence of a long thought. …');
+    expect(session.thoughts[4].content).toBe(`5: ${LONG_CONTENT}`);
+  });
+
+  it('restores compacted thoughts in full through getFullSession', async () => {
+    const session = await sessionWithThoughts(manager, 5);
+
+    const full = await manager.getFullSession(session.id);
+
+    expect(full!.thoughts.map((t) => t.content)).toEqual(
+      [1, 2, 3, 4, 5].map((n) => `${n}: ${LONG_CONTENT}`),
+    );
+    expect(full!.thoughts.some(isThoughtDigest)).toBe(false);
+    // The live session keeps its digests
+    expect(session.thoughts.filter(isThoughtDigest)).toHaveLength(2);
+  });
+
+  it('exports full thoughts from the restored session', async () => {
+    const session = await sessionWithThoughts(manager, 4);
+    const exported = new ExportService().exportSession(
+      (await manager.getFullSession(session.id))!,
+      'markdown',
+    );
+    expect(exported).toContain(`1: ${LONG_CONTENT}`);
+  });
+
+  it('persists digests, and restores them after a reload from storage', async () => {
+    const session = await sessionWithThoughts(manager, 5);
+
+    const reloaded = new SessionManager({}, undefined, storage);
+    const stored = await reloaded.getSession(session.id);
+    expect(stored!.thoughts.filter(isThoughtDigest)).toHaveLength(2);
+
+    const full = await reloaded.getFullSession(session.id);
+    expect(full!.thoughts[0].content).toBe(`1: ${LONG_CONTENT}`);
+  });
+
+  it('removes archived thoughts with the session', async () => {
+    const session = await sessionWithThoughts(manager, 5);
+    const ids = session.thoughts.filter(isThoughtDigest).map((t) => t.id);
+
+    await manager.deleteSession(session.id);
+
+    expect(await storage.loadArchivedThoughts!(session.id, ids)).toEqual([]);
+  });
+
+  it('folds nothing when archiving fails', async () => {
+    vi.spyOn(storage, 'archiveThoughts').mockRejectedValue(new Error('disk full'));
+
+    const session = await sessionWithThoughts(manager, 5);
+
+    expect(session.thoughts.some(isThoughtDigest)).toBe(false);
+  });
+});
+
+describe('thought compaction batches', () => {
+  let tempDir: string;
+  let storage: FileSessionStore;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-compaction-${randomUUID()}`);
+    // Past any journal checkpoint, so every save counted is a compaction
+    storage = new FileSessionStore(tempDir, { compactionThreshold: 1000 });
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('saves the whole session once per batch, not once per thought past the threshold', async () => {
+    const manager = new SessionManager({}, undefined, storage);
+    const session = await manager.createSession({
+      mode: ThinkingMode.SEQUENTIAL,
+      config: { compressionThreshold: 50, enableValidation: false },
+    });
+    const saves = vi.spyOn(storage, 'saveSession');
+
+    for (let n = 1; n <= 200; n++) {
+      await manager.addThought(session.id, thought(n));
+    }
+
+    // Thoughts are journaled; only the 150 past the threshold, in batches of 5, rewrite the session
+    expect(saves).toHaveBeenCalledTimes(30);
+    expect(session.thoughts.filter(isThoughtDigest)).toHaveLength(150);
+  });
+
+  it('counts only full thoughts against maxThoughtsInMemory', async () => {
+    const manager = new SessionManager({}, undefined, storage);
+    const session = await manager.createSession({
+      mode: ThinkingMode.SEQUENTIAL,
+      config: { compressionThreshold: 50, maxThoughtsInMemory: 60, enableValidation: false },
+    });
+
+    for (let n = 1; n <= 100; n++) {
+      await manager.addThought(session.id, thought(n));
+    }
+
+    expect(session.thoughts).toHaveLength(100);
+  });
+});
+
+describe('thought compaction defaults', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  it('takes compressionThreshold and maxThoughtsInMemory from the server config', async () => {
+    updateConfig({ compressionThreshold: 7, maxThoughtsInMemory: 40 });
+
+    const session = await new SessionManager().createSession();
+
+    expect(session.config.compressionThreshold).toBe(7);
+    expect(session.config.maxThoughtsInMemory).toBe(40);
+  });
+
+  it('compacts nothing without a storage backend to archive to', async () => {
+    const manager = new SessionManager();
+    const session = await sessionWithThoughts(manager, 5);
+
+    expect(session.thoughts.some(isThoughtDigest)).toBe(false);
+    expect(await manager.getFullSession(session.id)).toBe(session);
+  });
+
+  it('still rejects at maxThoughtsInMemory without a storage backend to archive to', async () => {
+    const manager = new SessionManager();
+    const session = await manager.createSession({
+      config: { compressionThreshold: 3, maxThoughtsInMemory: 5, enableValidation: false },
+    });
+    for (let n = 1; n <= 5; n++) {
+      await manager.addThought(session.id, thought(n));
+    }
+
+    await expect(manager.addThought(session.id, thought(6))).rejects.toThrow(ResourceLimitError);
+  });
+});
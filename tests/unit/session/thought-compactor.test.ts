@@ -0,0 +1,130 @@
+/**
+ * ThoughtCompactor Tests
+ *
+ * A digest must stay usable in place of the thought it replaces: same id,
+ * same cross-references (dependencies, revisions, branches), the small
+ * mode-specific fields, and content short enough to keep tool responses and
+ * memory bounded.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ThoughtCompactor,
+  isThoughtDigest,
+  DIGEST_SUMMARY_LENGTH,
+} from '../../../src/session/ThoughtCompactor.js';
+import { ThinkingMode, ThinkingSession, Thought } from '../../../src/types/index.js';
+
+const compactor = new ThoughtCompactor();
+
+function bayesianThought(overrides: Record<string, unknown> = {}): Thought {
+  return {
+    id: 'thought-7',
+    sessionId: 'session-1',
+    mode: ThinkingMode.BAYESIAN,
+    thoughtNumber: 7,
+    totalThoughts: 20,
+    content: 'Short content.',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    nextThoughtNeeded: true,
+    dependencies: ['thought-3', 'thought-5'],
+    revisesThought: 'thought-6',
+    hypothesis: { id: 'h1', statement: 'The cache is cold' },
+    posterior: { probability: 0.72, explanation: 'updated on the latency data' },
+    evidence: Array.from({ length: 40 }, (_, i) => ({
+      id: `e${i}`,
+      description: `observation ${i} from the load test logs`,
+      likelihoodGivenHypothesis: 0.8,
+    })),
+    ...overrides,
+  } as unknown as Thought;
+}
+
+function sessionWith(count: number, compressionThreshold: number): ThinkingSession {
+  return {
+    config: { compressionThreshold },
+    thoughts: Array.from({ length: count }, (_, i) => bayesianThought({ id: `t${i}` })),
+  } as unknown as ThinkingSession;
+}
+
+describe('ThoughtCompactor.digest', () => {
+  it('keeps the id and every cross-reference', () => {
+    const digest = compactor.digest(bayesianThought());
+
+    expect(digest).toMatchObject({
+      id: 'thought-7',
+      sessionId: 'session-1',
+      mode: ThinkingMode.BAYESIAN,
+      thoughtNumber: 7,
+      dependencies: ['thought-3', 'thought-5'],
+      revisesThought: 'thought-6',
+    });
+    expect(isThoughtDigest(digest)).toBe(true);
+  });
+
+  it('keeps small mode-specific structures and drops large ones', () => {
+    const digest = compactor.digest(bayesianThought()) as any;
+
+    expect(digest.posterior).toEqual({
+      probability: 0.72,
+      explanation: 'updated on the latency data',
+    });
+    expect(digest.hypothesis.statement).toBe('The cache is cold');
+    expect(digest.evidence).toBeUndefined();
+    expect(digest.digest.omittedFields).toEqual(['evidence']);
+  });
+
+  it('keeps short content as it is', () => {
+    const digest = compactor.digest(bayesianThought());
+    expect(digest.content).toBe('Short content.');
+    expect(digest.digest!.contentLength).toBe('Short content.'.length);
+  });
+
+  it('cuts long content to its first sentence', () => {
+    const content = 'The cache is cold after deploys. ' + 'More detail follows. '.repeat(40);
+    const digest = compactor.digest(bayesianThought({ content }));
+
+    expect(digest.content).toBe('The cache is cold after deploys. …');
+    expect(digest.digest!.contentLength).toBe(content.length);
+  });
+
+  it('cuts a long first sentence at a word boundary', () => {
+    const content = 'word '.repeat(200).trim();
+    const digest = compactor.digest(bayesianThought({ content }));
+
+    expect(digest.content.length).toBeLessThanOrEqual(DIGEST_SUMMARY_LENGTH);
+    expect(digest.content.endsWith('word…')).toBe(true);
+  });
+
+  it('does not modify the original thought', () => {
+    const thought = bayesianThought();
+    compactor.digest(thought);
+    expect((thought as any).evidence).toHaveLength(40);
+    expect(isThoughtDigest(thought)).toBe(false);
+  });
+});
+
+describe('ThoughtCompactor.selectForCompaction', () => {
+  it('selects the oldest full thoughts beyond the threshold', () => {
+    const selected = compactor.selectForCompaction(sessionWith(5, 3));
+    expect(selected.map((t) => t.id)).toEqual(['t0', 't1']);
+  });
+
+  it('skips thoughts that are already digests', () => {
+    const session = sessionWith(5, 3);
+    session.thoughts[0] = compactor.digest(session.thoughts[0]);
+
+    expect(compactor.selectForCompaction(session).map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('waits for a tenth of the threshold to pile up, then selects all of it', () => {
+    expect(compactor.selectForCompaction(sessionWith(21, 20))).toEqual([]);
+    expect(compactor.selectForCompaction(sessionWith(22, 20)).map((t) => t.id)).toEqual(['t0', 't1']);
+    expect(compactor.selectForCompaction(sessionWith(25, 20))).toHaveLength(5);
+  });
+
+  it('selects nothing at or under the threshold, or when the threshold is 0', () => {
+    expect(compactor.selectForCompaction(sessionWith(3, 3))).toEqual([]);
+    expect(compactor.selectForCompaction(sessionWith(50, 0))).toEqual([]);
+  });
+});
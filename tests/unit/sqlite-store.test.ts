@@ -0,0 +1,446 @@
+/**
+ * SqliteSessionStore Unit Tests
+ *
+ * Tests the SQLite session persistence implementation: round trips, the
+ * incremental thought appends that set it apart from FileSessionStore,
+ * maxSessions eviction, and migration from an existing SESSION_DIR.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteSessionStore } from '../../src/session/storage/sqlite-store.js';
+import { FileSessionStore } from '../../src/session/storage/file-store.js';
+import { migrateSessions } from '../../src/session/storage/migrate.js';
+import { ThinkingMode, ThinkingSession, Thought } from '../../src/types/index.js';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Helper to create a test session
+ */
+function createTestSession(id?: string): ThinkingSession {
+  const sessionId = id || randomUUID();
+  return {
+    id: sessionId,
+    title: 'Test Session',
+    mode: ThinkingMode.SEQUENTIAL,
+    domain: 'testing',
+    config: {
+      modeConfig: {
+        mode: ThinkingMode.SEQUENTIAL,
+        strictValidation: false,
+        allowModeSwitch: true,
+      },
+      enableAutoSave: true,
+      enableValidation: true,
+      enableVisualization: true,
+      integrations: {},
+      exportFormats: ['markdown', 'json'],
+      autoExportOnComplete: false,
+      maxThoughtsInMemory: 1000,
+      compressionThreshold: 500,
+    },
+    thoughts: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    currentThoughtNumber: 0,
+    isComplete: false,
+    metrics: {
+      totalThoughts: 0,
+      thoughtsByType: {},
+      averageUncertainty: 0,
+      revisionCount: 0,
+      timeSpent: 0,
+      dependencyDepth: 0,
+      customMetrics: new Map(),
+    },
+    collaborators: [],
+    tags: [],
+  };
+}
+
+/**
+ * Helper to append a sequential thought to a session
+ */
+function addThought(session: ThinkingSession, content: string): Thought {
+  const thought = {
+    id: randomUUID(),
+    sessionId: session.id,
+    mode: ThinkingMode.SEQUENTIAL,
+    thoughtNumber: session.thoughts.length + 1,
+    totalThoughts: 5,
+    content,
+    timestamp: new Date(),
+    nextThoughtNeeded: true,
+  } as Thought;
+  session.thoughts.push(thought);
+  session.currentThoughtNumber = thought.thoughtNumber;
+  session.updatedAt = new Date();
+  return thought;
+}
+
+describe('SqliteSessionStore', () => {
+  let store: SqliteSessionStore;
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-sqlite-${randomUUID()}`);
+    dbPath = path.join(tempDir, 'sessions.db');
+    store = new SqliteSessionStore(dbPath);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('initialization', () => {
+    it('should create the database file and its directory', async () => {
+      await expect(fs.access(dbPath)).resolves.toBeUndefined();
+    });
+
+    it('should handle multiple initialization calls', async () => {
+      await store.initialize();
+      await store.initialize();
+    });
+
+    it('should create the whole schema at version 1', async () => {
+      await store.close();
+
+      const db = new Database(dbPath);
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type IN ('table', 'trigger') ORDER BY name")
+        .all()
+        .map((row) => (row as { name: string }).name);
+      const version = db.pragma('user_version', { simple: true });
+      db.close();
+
+      expect(tables).toEqual(['archived_thoughts', 'sessions', 'sessions_delete_archive', 'thoughts']);
+      expect(version).toBe(1);
+    });
+
+    it('should refuse a database written by a newer schema', async () => {
+      const db = new Database(dbPath);
+      db.pragma('user_version = 99');
+      db.close();
+
+      await store.close();
+      store = new SqliteSessionStore(dbPath);
+      await expect(store.initialize()).rejects.toThrow(/schema version 99/);
+    });
+  });
+
+  describe('save and load', () => {
+    it('should round-trip a session with Dates and Maps', async () => {
+      const session = createTestSession();
+      session.metrics.customMetrics.set('reviewer', 'alice');
+      addThought(session, 'first');
+      addThought(session, 'second');
+
+      await store.saveSession(session);
+      const loaded = await store.loadSession(session.id);
+
+      expect(loaded).not.toBeNull();
+      expect(loaded!.title).toBe('Test Session');
+      expect(loaded!.createdAt).toBeInstanceOf(Date);
+      expect(loaded!.createdAt.getTime()).toBe(session.createdAt.getTime());
+      expect(loaded!.metrics.customMetrics.get('reviewer')).toBe('alice');
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['first', 'second']);
+      expect(loaded!.thoughts[1].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should return null for a session that was never saved', async () => {
+      expect(await store.loadSession(randomUUID())).toBeNull();
+    });
+
+    it('should reject an invalid session id', async () => {
+      await expect(store.loadSession('../../etc/passwd')).rejects.toThrow();
+    });
+
+    it('should persist across connections', async () => {
+      const session = createTestSession();
+      addThought(session, 'durable');
+      await store.saveSession(session);
+      await store.close();
+
+      store = new SqliteSessionStore(dbPath);
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts[0].content).toBe('durable');
+    });
+
+    it('should let a second instance see writes from the first', async () => {
+      const other = new SqliteSessionStore(dbPath);
+      try {
+        const session = createTestSession();
+        await store.saveSession(session);
+        expect(await other.exists(session.id)).toBe(true);
+      } finally {
+        await other.close();
+      }
+    });
+  });
+
+  describe('incremental appends', () => {
+    it('should write only thoughts that are not stored yet', async () => {
+      const session = createTestSession();
+      addThought(session, 'first');
+      await store.saveSession(session);
+
+      // Tamper with the stored row: if the next save rewrote it, this is lost
+      const db = new Database(dbPath);
+      db.prepare("UPDATE thoughts SET body = replace(body, 'first', 'stored') WHERE seq = 0").run();
+      db.close();
+
+      addThought(session, 'second');
+      await store.saveSession(session);
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['stored', 'second']);
+    });
+
+    it('should rewrite thoughts after the first id that no longer matches', async () => {
+      const session = createTestSession();
+      addThought(session, 'a');
+      addThought(session, 'b');
+      addThought(session, 'c');
+      await store.saveSession(session);
+
+      session.thoughts.splice(1, 2);
+      addThought(session, 'replacement');
+      await store.saveSession(session);
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['a', 'replacement']);
+      expect((await store.listSessions())[0].thoughtCount).toBe(2);
+    });
+
+    it('should only compare the last stored thought when the session grew', async () => {
+      const session = createTestSession();
+      addThought(session, 'a');
+      addThought(session, 'b');
+      await store.saveSession(session);
+
+      // A full comparison of stored ids would rewrite from this row onwards
+      const db = new Database(dbPath);
+      db.prepare("UPDATE thoughts SET id = 'tampered', body = replace(body, '\"a\"', '\"kept\"') WHERE seq = 0").run();
+      db.close();
+
+      addThought(session, 'c');
+      await store.saveSession(session);
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['kept', 'b', 'c']);
+    });
+
+    it('should rewrite only the thoughts compacted since the last save', async () => {
+      const session = createTestSession();
+      for (const content of ['a', 'b', 'c']) addThought(session, content);
+      const compact = (seq: number) => {
+        session.thoughts[seq] = {
+          ...session.thoughts[seq],
+          content: `${session.thoughts[seq].content} (digest)`,
+          digest: { compactedAt: new Date(), contentLength: 1, omittedFields: [] },
+        };
+      };
+      compact(0);
+      await store.saveSession(session);
+
+      const db = new Database(dbPath);
+      db.prepare("UPDATE thoughts SET body = replace(body, '(digest)', '(stored)') WHERE seq = 0").run();
+      db.close();
+
+      compact(1);
+      addThought(session, 'd');
+      await store.saveSession(session);
+
+      const loaded = await store.loadSession(session.id);
+      expect(loaded!.thoughts.map((t) => t.content)).toEqual(['a (stored)', 'b (digest)', 'c', 'd']);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list metadata, most recently updated first', async () => {
+      const older = createTestSession();
+      older.updatedAt = new Date(Date.now() - 60_000);
+      const newer = createTestSession();
+      newer.title = 'Newer';
+      newer.isComplete = true;
+      addThought(newer, 'only');
+
+      await store.saveSession(older);
+      await store.saveSession(newer);
+
+      const sessions = await store.listSessions();
+      expect(sessions.map((s) => s.id)).toEqual([newer.id, older.id]);
+      expect(sessions[0]).toMatchObject({
+        title: 'Newer',
+        mode: ThinkingMode.SEQUENTIAL,
+        thoughtCount: 1,
+        isComplete: true,
+      });
+      expect(sessions[0].createdAt).toBeInstanceOf(Date);
+      expect(sessions[0].expiredAt).toBeUndefined();
+    });
+
+    it('should carry the expiry mark the idle sweeper sets', async () => {
+      const session = createTestSession();
+      session.expiredAt = new Date('2026-09-01T00:00:00.000Z');
+      await store.saveSession(session);
+
+      const [metadata] = await store.listSessions();
+      expect(metadata.expiredAt).toEqual(session.expiredAt);
+    });
+  });
+
+  describe('maxSessions', () => {
+    it('should evict the least recently updated sessions past the limit', async () => {
+      await store.close();
+      store = new SqliteSessionStore(dbPath, { maxSessions: 2 });
+
+      const sessions = [0, 1, 2].map((i) => {
+        const session = createTestSession();
+        session.updatedAt = new Date(Date.now() - (3 - i) * 1000);
+        return session;
+      });
+      for (const session of sessions) {
+        await store.saveSession(session);
+      }
+
+      expect(await store.exists(sessions[0].id)).toBe(false);
+      expect(await store.exists(sessions[1].id)).toBe(true);
+      expect(await store.exists(sessions[2].id)).toBe(true);
+    });
+
+    it('should not evict when an existing session is saved again', async () => {
+      await store.close();
+      store = new SqliteSessionStore(dbPath, { maxSessions: 1 });
+
+      const session = createTestSession();
+      await store.saveSession(session);
+      addThought(session, 'more');
+      await store.saveSession(session);
+
+      expect(await store.exists(session.id)).toBe(true);
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('should delete the session and its thoughts', async () => {
+      const session = createTestSession();
+      addThought(session, 'gone');
+      await store.saveSession(session);
+
+      expect(await store.deleteSession(session.id)).toBe(true);
+      expect(await store.loadSession(session.id)).toBeNull();
+
+      const db = new Database(dbPath);
+      const { count } = db.prepare('SELECT COUNT(*) AS count FROM thoughts').get() as {
+        count: number;
+      };
+      db.close();
+      expect(count).toBe(0);
+    });
+
+    it('should return false for a session that does not exist', async () => {
+      expect(await store.deleteSession(randomUUID())).toBe(false);
+    });
+  });
+
+  describe('getStats and cleanup', () => {
+    it('should report sessions, thoughts and health', async () => {
+      await store.close();
+      store = new SqliteSessionStore(dbPath, { maxSessions: 2 });
+
+      const first = createTestSession();
+      addThought(first, 'one');
+      addThought(first, 'two');
+      const second = createTestSession();
+      addThought(second, 'three');
+      await store.saveSession(first);
+      await store.saveSession(second);
+
+      const stats = await store.getStats();
+      expect(stats.totalSessions).toBe(2);
+      expect(stats.totalThoughts).toBe(3);
+      expect(stats.storageSize).toBeGreaterThan(0);
+      expect(stats.storageHealth).toBe('critical');
+    });
+
+    it('should report an empty store', async () => {
+      const stats = await store.getStats();
+      expect(stats.totalSessions).toBe(0);
+      expect(stats.totalThoughts).toBe(0);
+      expect(stats.oldestSession).toBeUndefined();
+    });
+
+    it('should delete sessions created before the cutoff', async () => {
+      const old = createTestSession();
+      old.createdAt = new Date(Date.now() - 10_000);
+      const fresh = createTestSession();
+      await store.saveSession(old);
+      await store.saveSession(fresh);
+
+      expect(await store.cleanup(5_000, Date.now())).toBe(1);
+      expect(await store.exists(old.id)).toBe(false);
+      expect(await store.exists(fresh.id)).toBe(true);
+    });
+
+    it('should keep the sessions it is told to, whatever their age', async () => {
+      const kept = createTestSession();
+      kept.createdAt = new Date(Date.now() - 10_000);
+      await store.saveSession(kept);
+
+      expect(await store.cleanup(5_000, Date.now(), new Set([kept.id]))).toBe(0);
+      expect(await store.exists(kept.id)).toBe(true);
+    });
+  });
+});
+
+describe('migrateSessions', () => {
+  let tempDir: string;
+  let fileStore: FileSessionStore;
+  let sqliteStore: SqliteSessionStore;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `deepthinking-migrate-${randomUUID()}`);
+    fileStore = new FileSessionStore(path.join(tempDir, 'sessions'));
+    sqliteStore = new SqliteSessionStore(path.join(tempDir, 'sessions.db'));
+  });
+
+  afterEach(async () => {
+    await fileStore.close();
+    await sqliteStore.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should copy every session from a SESSION_DIR store', async () => {
+    const session = createTestSession();
+    session.metrics.customMetrics.set('k', 1);
+    addThought(session, 'migrated thought');
+    await fileStore.saveSession(session);
+    await fileStore.saveSession(createTestSession());
+
+    const report = await migrateSessions(fileStore, sqliteStore);
+
+    expect(report.migrated).toHaveLength(2);
+    expect(report.failed).toEqual([]);
+    const loaded = await sqliteStore.loadSession(session.id);
+    expect(loaded!.thoughts[0].content).toBe('migrated thought');
+    expect(loaded!.metrics.customMetrics.get('k')).toBe(1);
+  });
+
+  it('should skip sessions the target already has', async () => {
+    const session = createTestSession();
+    await fileStore.saveSession(session);
+
+    await migrateSessions(fileStore, sqliteStore);
+    const report = await migrateSessions(fileStore, sqliteStore);
+
+    expect(report.migrated).toEqual([]);
+    expect(report.skipped).toEqual([session.id]);
+  });
+});
@@ -217,6 +217,7 @@ describe('mode reachability: constraint', () => {
     currentAssignments: { v1: 1, v2: 'a' },
     assignmentHistory: [{ variableId: 'v1', value: 1, step: 0, backtracked: false }],
     arcs: [{ from: 'v1', to: 'v2', constraintId: 'c1' }],
+    propagationMethod: 'forward_checking',
     backtracks: 2,
     searchStep: 5,
     isArcConsistent: true,
@@ -233,6 +234,7 @@ describe('mode reachability: constraint', () => {
       'currentAssignments',
       'assignmentHistory',
       'arcs',
+      'propagationMethod',
       'backtracks',
       'searchStep',
       'isArcConsistent',
@@ -275,12 +277,15 @@ describe('mode reachability: constraint', () => {
     expect(thought.constraints).toHaveLength(1);
     expect(thought.constraints[0].expression).toBe('v1 != v2');
     expect(thought.currentAssignments).toEqual({ v1: 1, v2: 'a' });
-    expect(thought.assignmentHistory).toHaveLength(1);
     expect(thought.arcs[0].constraintId).toBe('c1');
-    expect(thought.backtracks).toBe(2);
-    expect(thought.searchStep).toBe(5);
+    expect(thought.propagationMethod).toBe('forward_checking');
+    // The problem is solvable, so the search fields are the solver's, not the
+    // caller's claims: v1 != v2 holds for all six pairs.
+    expect(thought.solutionStatus).toBe('found');
+    expect(thought.solutionCount).toBe(6);
+    expect(thought.backtracks).toBe(0);
+    expect(thought.searchStep).toBe(thought.assignmentHistory.length);
     expect(thought.isArcConsistent).toBe(true);
-    expect(thought.solutionCount).toBe(0);
   });
 });
 
@@ -0,0 +1,36 @@
+/**
+ * Engine Wiring Fixtures
+ *
+ * The *-wiring tests in tests/unit/modes/handlers/ pin a mode handler to
+ * the engine in src/modes/<mode>/: if someone removes the wiring, the mode
+ * goes back to copying the caller's claims through and those tests fail.
+ *
+ * They hold every handler to the same hard constraint: the handler is
+ * ADVISORY. Input its engine cannot read keeps the handler's old
+ * behaviour, and every problem or disagreement the engine finds is a
+ * `validate` warning, never a rejection. Each test file says what its
+ * engine leaves alone.
+ */
+
+import type { ThinkingToolInput } from '../../src/tools/thinking.js';
+
+/**
+ * A factory of tool inputs for the first of three thoughts in `mode`, each
+ * with the fields it is given on top of `defaults`
+ */
+export function inputFor(
+  mode: string,
+  thought: string,
+  defaults: Record<string, unknown> = {},
+): (extra: Record<string, unknown>) => ThinkingToolInput {
+  return (extra) =>
+    ({
+      thought,
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      mode,
+      ...defaults,
+      ...extra,
+    }) as unknown as ThinkingToolInput;
+}
@@ -15,3 +15,6 @@ export * from './assertion-helpers.js';
 
 // Mock data
 export * from './mock-data.js';
+
+// Engine wiring fixtures
+export * from './engine-wiring.js';
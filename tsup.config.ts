@@ -11,4 +11,6 @@ export default defineConfig({
   outDir: 'dist',
   splitting: false,
   treeshake: true,
+  // Optional native driver for SqliteSessionStore, loaded at runtime
+  external: ['better-sqlite3'],
 });